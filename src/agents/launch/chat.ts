@@ -21,6 +21,7 @@ export interface LaunchArtifactCaptureContext {
 }
 
 export async function prepareProviderArtifactCaptureContext(options: {
+  root?: string;
   providerId: string | undefined;
   sessionRoot: string;
   searchEnv?: NodeJS.ProcessEnv;
@@ -34,6 +35,7 @@ export async function prepareProviderArtifactCaptureContext(options: {
   return {
     searchEnv: options.searchEnv,
     baseline: await snapshotProviderTranscripts({
+      root: options.root,
       providerId,
       agentRoot: options.sessionRoot,
       searchEnv: options.searchEnv,
@@ -43,6 +45,7 @@ export async function prepareProviderArtifactCaptureContext(options: {
 }
 
 export async function collectProviderArtifacts(options: {
+  root?: string;
   providerId: string | undefined;
   sessionRoot: string;
   captureContext?: LaunchArtifactCaptureContext;
@@ -53,6 +56,7 @@ export async function collectProviderArtifacts(options: {
   }
 
   const result = await preserveProviderChatTranscripts({
+    root: options.root,
     providerId,
     agentRoot: options.sessionRoot,
     searchEnv: options.captureContext?.searchEnv,
@@ -4,10 +4,41 @@ import {
   type EnvironmentConfig,
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  listToolchainPathEntries,
 } from "../../configs/environment/types.js";
 import { pathExists } from "../../utils/fs.js";
 import { resolvePath } from "../../utils/path.js";
 
+/**
+ * Points each toolchain at its staged cache and keeps dependency resolution
+ * offline, since sandboxed agents usually have no registry access.
+ */
+const TOOLCHAIN_LAUNCH_ENV: Record<
+  string,
+  (stagedPath: string, env: Record<string, string>) => Record<string, string>
+> = {
+  "go.modCache": (stagedPath) => ({
+    GOMODCACHE: stagedPath,
+    GOPROXY: "off",
+  }),
+  "rust.cargoHome": (stagedPath) => ({
+    CARGO_HOME: stagedPath,
+    CARGO_NET_OFFLINE: "true",
+  }),
+  "rust.targetDir": (stagedPath) => ({ CARGO_TARGET_DIR: stagedPath }),
+  "java.mavenRepository": (stagedPath, env) => ({
+    MAVEN_ARGS: [
+      env.MAVEN_ARGS,
+      "--offline",
+      `-Dmaven.repo.local=${stagedPath}`,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  }),
+  "java.gradleCache": (stagedPath) => ({ GRADLE_RO_DEP_CACHE: stagedPath }),
+  "ruby.bundlePath": (stagedPath) => ({ BUNDLE_PATH: stagedPath }),
+};
+
 export async function composeLaunchEnvironment(options: {
   baseEnv: Record<string, string>;
   workspacePath: string;
@@ -34,6 +65,20 @@ export async function composeLaunchEnvironment(options: {
     }
   }
 
+  for (const entry of listToolchainPathEntries(environment)) {
+    const stagedPath = resolvePath(workspacePath, entry.path);
+    Object.assign(
+      result,
+      TOOLCHAIN_LAUNCH_ENV[entry.key]?.(stagedPath, result),
+    );
+    if (entry.key === "rust.cargoHome") {
+      const cargoBinPath = resolvePath(stagedPath, "bin");
+      if (await pathExists(cargoBinPath)) {
+        pathPrepends.push(cargoBinPath);
+      }
+    }
+  }
+
   if (pathPrepends.length > 0) {
     const existingPath = result.PATH ?? process.env.PATH ?? "";
     result.PATH = mergePathEntries(pathPrepends, existingPath);
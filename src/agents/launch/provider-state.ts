@@ -53,6 +53,7 @@ export type AgentProviderResolutionResult =
 
 export function resolveAgentProviderForDefinition(
   agent: Pick<AgentDefinition, "id" | "provider">,
+  options: { root?: string } = {},
 ): AgentProviderResolutionResult {
   const providerId = agent.provider?.trim();
   if (!providerId) {
@@ -63,7 +64,7 @@ export function resolveAgentProviderForDefinition(
     };
   }
 
-  const provider = resolveAuthProvider(providerId);
+  const provider = resolveAuthProvider(providerId, { root: options.root });
   if (!provider) {
     return {
       ok: false,
@@ -79,7 +80,9 @@ export async function stageAgentProviderState(
   options: StageProviderStateOptions,
 ): Promise<StageProviderStateResult> {
   const runtime = options.runtime ?? buildAuthRuntimeContext();
-  const resolution = resolveAgentProviderForDefinition(options.agent);
+  const resolution = resolveAgentProviderForDefinition(options.agent, {
+    root: options.root,
+  });
   if (!resolution.ok) {
     throw new ProviderResolutionError(resolution.code, resolution.message);
   }
@@ -44,6 +44,7 @@ export interface AgentProviderPreflightIssue {
 
 export async function verifyAgentProviders(
   agents: readonly Pick<AgentDefinition, "id" | "provider">[],
+  options: { root?: string } = {},
 ): Promise<readonly AgentProviderPreflightIssue[]> {
   if (agents.length === 0) {
     return [];
@@ -63,7 +64,7 @@ export async function verifyAgentProviders(
       continue;
     }
 
-    const provider = resolveAuthProvider(providerId);
+    const provider = resolveAuthProvider(providerId, { root: options.root });
     if (!provider) {
       issues.push({
         agentId: agent.id,
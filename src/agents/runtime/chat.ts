@@ -2,10 +2,12 @@ import { collectProviderArtifacts } from "../launch/chat.js";
 import type { AgentRuntimeChatResult } from "./types.js";
 
 export async function captureAgentChatArtifacts(options: {
+  root?: string;
   providerId: string | undefined;
   agentRoot: string;
 }): Promise<AgentRuntimeChatResult> {
   return await collectProviderArtifacts({
+    root: options.root,
     providerId: options.providerId,
     sessionRoot: options.agentRoot,
   });
@@ -2,9 +2,16 @@ import type { ChildProcess } from "node:child_process";
 import { mkdir, rm } from "node:fs/promises";
 import { dirname } from "node:path";
 
+import { resolveProviderDefinition } from "../../configs/providers/loader.js";
+import type { ProviderDefinition } from "../../configs/providers/types.js";
 import { loadSandboxProviderConfig } from "../../configs/sandbox/loader.js";
-import type { DenialBackoffConfig } from "../../configs/sandbox/types.js";
+import type {
+  DenialBackoffConfig,
+  SandboxStageId,
+} from "../../configs/sandbox/types.js";
 import { toErrorMessage } from "../../utils/errors.js";
+import { resolvePath } from "../../utils/path.js";
+import { SANDBOX_DENIALS_FILENAME } from "../../workspace/constants.js";
 import { writeStagedPrompt } from "../launch/prompt.js";
 import { stageAgentAuth } from "./auth.js";
 import { captureAgentChatArtifacts } from "./chat.js";
@@ -21,11 +28,12 @@ import {
   teardownRegisteredAuthContext,
   unregisterSessionProcess,
 } from "./registry.js";
-import { DEFAULT_DENIAL_BACKOFF } from "./sandbox.js";
+import { DEFAULT_DENIAL_BACKOFF, writeSandboxDenials } from "./sandbox.js";
 import type {
   AgentRuntimeHarnessInput,
   AgentRuntimeHarnessResult,
 } from "./types.js";
+import type { FatalPatternRule } from "./watchdog.js";
 
 export async function runSandboxedAgent(
   input: AgentRuntimeHarnessInput,
@@ -93,6 +101,8 @@ export async function runSandboxedAgent(
     const denialBackoff = resolveDenialBackoff({
       root,
       providerId,
+      stageId: sandboxStageId,
+      agentId: agent.id,
       override: input.denialBackoff,
     });
 
@@ -100,6 +110,7 @@ export async function runSandboxedAgent(
       sandboxHomePath: paths.sandboxHomePath,
       workspacePath: paths.workspacePath,
       providerId,
+      agentId: agent.id,
       stageId: sandboxStageId,
       root,
       sandboxSettingsPath: paths.sandboxSettingsPath,
@@ -110,6 +121,8 @@ export async function runSandboxedAgent(
       extraReadProtectedPaths,
     });
 
+    const customProvider = resolveProviderDefinition(providerId, { root });
+
     const processResult = await runAgentProcess({
       runtimeManifestPath: paths.runtimeManifestPath,
       agentRoot: paths.agentRoot,
@@ -117,6 +130,10 @@ export async function runSandboxedAgent(
       stderrPath: paths.stderrPath,
       sandboxSettingsPath: paths.sandboxSettingsPath,
       providerId,
+      ...(customProvider
+        ? { fatalPatterns: toFatalPatternRules(customProvider) }
+        : {}),
+      watchdogLimits: agent.watchdog,
       denialBackoff,
       onWatchdogTrigger,
       onSpawnedProcess: (child) => {
@@ -125,8 +142,17 @@ export async function runSandboxedAgent(
       },
     });
 
+    const { sandboxDenials } = processResult;
+    if (sandboxDenials) {
+      await writeSandboxDenials(
+        resolvePath(paths.artifactsPath, SANDBOX_DENIALS_FILENAME),
+        sandboxDenials,
+      );
+    }
+
     const chat = captureChat
       ? await captureAgentChatArtifacts({
+          root,
           providerId: agent.provider,
           agentRoot: paths.agentRoot,
         })
@@ -138,6 +164,7 @@ export async function runSandboxedAgent(
       signal: processResult.signal,
       watchdog: processResult.watchdog,
       failFast: processResult.failFast,
+      ...(sandboxDenials ? { sandboxDenials } : {}),
       sandboxSettings,
       manifestEnv,
       ...(chat ? { chat } : {}),
@@ -180,9 +207,18 @@ function applyProviderRunEnvironmentOverrides(
   };
 }
 
+function toFatalPatternRules(provider: ProviderDefinition): FatalPatternRule[] {
+  return provider.fatalPatterns.map((rule) => ({
+    pattern: new RegExp(rule.pattern, "iu"),
+    ...(rule.source ? { allowedSources: [rule.source] } : {}),
+  }));
+}
+
 function resolveDenialBackoff(options: {
   root: string;
   providerId: string;
+  stageId: SandboxStageId;
+  agentId: string;
   override?: DenialBackoffConfig;
 }): DenialBackoffConfig {
   if (options.override) {
@@ -193,6 +229,8 @@ function resolveDenialBackoff(options: {
     const config = loadSandboxProviderConfig({
       root: options.root,
       providerId: options.providerId,
+      stageId: options.stageId,
+      agentId: options.agentId,
     });
     return config.denialBackoff;
   } catch {
@@ -8,6 +8,7 @@ import { access, readFile, writeFile } from "node:fs/promises";
 import { dirname, isAbsolute, relative as relativePath } from "node:path";
 
 import type { AgentManifest } from "../../agents/runtime/shim/agent-manifest.js";
+import type { WatchdogLimitsConfig } from "../../configs/agents/types.js";
 import type { DenialBackoffConfig } from "../../configs/sandbox/types.js";
 import type { WatchdogMetadata } from "../../domain/run/model/types.js";
 import { getCliAssetPath, resolveCliAssetRoot } from "../../utils/cli-root.js";
@@ -21,13 +22,15 @@ import type { SandboxStageId } from "./policy.js";
 import {
   generateSandboxSettings,
   resolveSrtBinary,
+  type SandboxDenialEntry,
   type SandboxFailFastInfo,
   writeSandboxSettings,
 } from "./sandbox.js";
 import type { SandboxPolicyOverrides } from "./types.js";
 import {
   createWatchdog,
-  WATCHDOG_DEFAULTS,
+  type FatalPatternRule,
+  resolveWatchdogLimits,
   type WatchdogController,
   type WatchdogTrigger,
 } from "./watchdog.js";
@@ -46,6 +49,10 @@ export interface AgentProcessOptions {
   resolveRunInvocation?: RunInvocationResolver;
   /** Provider ID for watchdog fatal pattern matching. */
   providerId?: string;
+  /** Fatal patterns declared by a custom provider. */
+  fatalPatterns?: readonly FatalPatternRule[];
+  /** Per-agent watchdog limit overrides; unset fields use the defaults. */
+  watchdogLimits?: WatchdogLimitsConfig;
   /** Callback fired immediately when watchdog triggers, before process exits. */
   onWatchdogTrigger?: (
     trigger: WatchdogTrigger,
@@ -63,6 +70,8 @@ export interface AgentProcessResult {
   watchdog?: WatchdogMetadata;
   /** Sandbox fail-fast metadata when repeated denials trigger an abort. */
   failFast?: SandboxFailFastInfo;
+  /** Every sandbox denial the agent hit, aggregated per operation and target. */
+  sandboxDenials?: SandboxDenialEntry[];
 }
 
 export interface RunInvocationContext {
@@ -86,6 +95,7 @@ export interface SandboxSettingsInput {
   sandboxHomePath: string;
   workspacePath: string;
   providerId: string;
+  agentId?: string;
   root: string;
   repoRootPath?: string;
   sandboxSettingsPath: string;
@@ -161,9 +171,12 @@ export async function runAgentProcess(
     denialBackoff,
     resolveRunInvocation,
     providerId = "",
+    fatalPatterns,
+    watchdogLimits,
     onWatchdogTrigger,
     onSpawnedProcess,
   } = options;
+  const limits = resolveWatchdogLimits(watchdogLimits);
 
   const stdoutStream = createWriteStream(stdoutPath, { flags: "w" });
   const stderrStream = createWriteStream(stderrPath, { flags: "w" });
@@ -215,6 +228,8 @@ export async function runAgentProcess(
         onSpawnedProcess?.(child);
         watchdogController = createWatchdog(child, stderrStream, {
           providerId,
+          fatalPatterns,
+          limits,
           onWatchdogTrigger,
           denialBackoff,
         });
@@ -252,6 +267,7 @@ export async function runAgentProcess(
   const watchdogState = watchdogController?.getState();
   const watchdogTrigger = watchdogState?.triggered ?? undefined;
   const failFast = watchdogState?.sandboxFailFast;
+  const sandboxDenials = watchdogState?.sandboxDenials ?? [];
 
   let errorMessage: string | undefined;
   if (watchdogTrigger && watchdogState?.triggeredReason) {
@@ -265,12 +281,20 @@ export async function runAgentProcess(
   }
 
   const watchdog: WatchdogMetadata = {
-    silenceTimeoutMs: WATCHDOG_DEFAULTS.silenceTimeoutMs,
-    wallClockCapMs: WATCHDOG_DEFAULTS.wallClockCapMs,
+    silenceTimeoutMs: limits.silenceTimeoutMs,
+    wallClockCapMs: limits.wallClockCapMs,
+    killGraceMs: limits.killGraceMs,
     ...(watchdogTrigger ? { trigger: watchdogTrigger } : {}),
   };
 
-  return { exitCode, errorMessage, signal, watchdog, failFast };
+  return {
+    exitCode,
+    errorMessage,
+    signal,
+    watchdog,
+    failFast,
+    ...(sandboxDenials.length > 0 ? { sandboxDenials } : {}),
+  };
 }
 
 export async function stageManifestForSandbox(options: {
@@ -1,5 +1,9 @@
 import { resolve as resolveAbsolute } from "node:path";
 
+import {
+  SANDBOX_STAGE_IDS,
+  type SandboxStageId,
+} from "../../configs/sandbox/types.js";
 import {
   VORATIQ_HISTORY_LOCK_FILENAME,
   VORATIQ_MESSAGE_DIR,
@@ -11,15 +15,8 @@ import {
 } from "../../workspace/constants.js";
 import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
 
-export const SANDBOX_STAGE_IDS = [
-  "spec",
-  "run",
-  "reduce",
-  "verify",
-  "message",
-] as const;
-
-export type SandboxStageId = (typeof SANDBOX_STAGE_IDS)[number];
+export { SANDBOX_STAGE_IDS };
+export type { SandboxStageId };
 
 export type SandboxGitAccessLevel = "deny-read" | "deny-read-write";
 export type SandboxReadRoot = "repo-root" | "workspace-root";
@@ -35,6 +35,7 @@ export interface SandboxSettingsOptions {
   sandboxHomePath: string;
   workspacePath: string;
   providerId: string;
+  agentId?: string;
   root: string;
   repoRootPath?: string;
   sandboxSettingsPath: string;
@@ -53,6 +54,7 @@ export function generateSandboxSettings(
     sandboxHomePath,
     workspacePath,
     providerId,
+    agentId,
     root,
     repoRootPath,
     sandboxSettingsPath,
@@ -66,6 +68,8 @@ export function generateSandboxSettings(
   const providerConfig = loadSandboxProviderConfig({
     root,
     providerId,
+    stageId,
+    agentId,
   });
   const { filesystem, network } = buildSandboxPolicy({
     stageId,
@@ -248,6 +252,44 @@ function countWithinMs(
   return count;
 }
 
+export interface SandboxDenialEntry {
+  operation: DenialOperationType;
+  target: string;
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Collects every denial an agent hits, unlike `DenialBackoffTracker`, which
+ * only remembers recent denials within its window.
+ */
+export class SandboxDenialLog {
+  private readonly byTarget = new Map<string, SandboxDenialEntry>();
+
+  public record(info: SandboxFailFastInfo, now = Date.now()): void {
+    const key = `${info.operation}:${info.target}`;
+    const seenAt = new Date(now).toISOString();
+    const existing = this.byTarget.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeenAt = seenAt;
+      return;
+    }
+    this.byTarget.set(key, {
+      operation: info.operation,
+      target: info.target,
+      count: 1,
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+    });
+  }
+
+  public entries(): SandboxDenialEntry[] {
+    return [...this.byTarget.values()].map((entry) => ({ ...entry }));
+  }
+}
+
 export async function writeSandboxSettings(
   sandboxSettingsPath: string,
   settings: SandboxSettings,
@@ -257,6 +299,15 @@ export async function writeSandboxSettings(
   await writeFile(sandboxSettingsPath, settingsJson, { encoding: "utf8" });
 }
 
+export async function writeSandboxDenials(
+  sandboxDenialsPath: string,
+  denials: readonly SandboxDenialEntry[],
+): Promise<void> {
+  await mkdir(dirname(sandboxDenialsPath), { recursive: true });
+  const denialsJson = `${JSON.stringify({ denials }, null, 2)}\n`;
+  await writeFile(sandboxDenialsPath, denialsJson, { encoding: "utf8" });
+}
+
 export function resolveSrtBinary(cliRoot: string): string {
   return resolvePath(cliRoot, "node_modules", ".bin", "srt");
 }
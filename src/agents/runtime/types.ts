@@ -5,7 +5,7 @@ import type { EnvironmentConfig } from "../../configs/environment/types.js";
 import type { DenialBackoffConfig } from "../../configs/sandbox/types.js";
 import type { WatchdogMetadata } from "../../domain/run/model/types.js";
 import type { SandboxStageId } from "./policy.js";
-import type { SandboxFailFastInfo } from "./sandbox.js";
+import type { SandboxDenialEntry, SandboxFailFastInfo } from "./sandbox.js";
 import type { WatchdogTrigger } from "./watchdog.js";
 
 export interface SandboxPolicyOverrides {
@@ -111,6 +111,8 @@ export interface AgentRuntimeHarnessResult {
   readonly signal?: NodeJS.Signals | null;
   readonly watchdog?: WatchdogMetadata;
   readonly failFast?: SandboxFailFastInfo;
+  /** Denials written to `sandbox-denials.json`; omitted when none occurred. */
+  readonly sandboxDenials?: readonly SandboxDenialEntry[];
   readonly sandboxSettings: SandboxSettings;
   readonly chat?: AgentRuntimeChatResult;
   /** The environment used by the sandboxed agent (includes PATH adjustments and staged auth vars). */
@@ -1,11 +1,15 @@
 import type { ChildProcess } from "node:child_process";
 import type { Writable } from "node:stream";
 
+import type { WatchdogLimitsConfig } from "../../configs/agents/types.js";
 import type { DenialBackoffConfig } from "../../configs/sandbox/types.js";
+import { killProcessGroup } from "../../utils/process.js";
 import {
   DenialBackoffTracker,
   parseSandboxDenialLine,
   resolveDenialBackoffConfig,
+  type SandboxDenialEntry,
+  SandboxDenialLog,
   type SandboxFailFastInfo,
 } from "./sandbox.js";
 
@@ -32,7 +36,26 @@ export const WATCHDOG_DEFAULTS = {
   hardAbortMs: 10 * 1000,
 } as const;
 
-interface FatalPatternRule {
+/** Effective per-agent limits after applying `agents.yaml` and orchestration overrides. */
+export interface WatchdogLimits {
+  silenceTimeoutMs: number;
+  wallClockCapMs: number;
+  killGraceMs: number;
+}
+
+export function resolveWatchdogLimits(
+  overrides?: WatchdogLimitsConfig,
+): WatchdogLimits {
+  return {
+    silenceTimeoutMs:
+      overrides?.silenceTimeoutMs ?? WATCHDOG_DEFAULTS.silenceTimeoutMs,
+    wallClockCapMs:
+      overrides?.wallClockCapMs ?? WATCHDOG_DEFAULTS.wallClockCapMs,
+    killGraceMs: overrides?.killGraceMs ?? WATCHDOG_DEFAULTS.killGraceMs,
+  };
+}
+
+export interface FatalPatternRule {
   pattern: RegExp;
   requiresProviderErrorContext?: boolean;
   allowedSources?: readonly WatchdogOutputSource[];
@@ -87,6 +110,10 @@ export interface WatchdogResult {
 
 export interface WatchdogOptions {
   providerId: string;
+  /** Extra rules for custom providers, checked alongside the built-in table. */
+  fatalPatterns?: readonly FatalPatternRule[];
+  /** Limit overrides; unset fields fall back to `WATCHDOG_DEFAULTS`. */
+  limits?: WatchdogLimitsConfig;
   denialBackoff?: DenialBackoffConfig;
   onWatchdogTrigger?: (
     trigger: WatchdogTrigger,
@@ -107,6 +134,7 @@ interface WatchdogState {
   triggeredReason: string | null;
   sandboxFailFast: SandboxFailFastInfo | null;
   denialBackoff: DenialBackoffTracker;
+  denialLog: SandboxDenialLog;
   sandboxLineBufferBySource: Record<WatchdogOutputSource, string>;
   delayInProgress: boolean;
   abortController: AbortController;
@@ -194,8 +222,9 @@ export function createWatchdog(
   stderrStream: Writable,
   options: WatchdogOptions,
 ): WatchdogController {
-  const { silenceTimeoutMs, wallClockCapMs, killGraceMs, hardAbortMs } =
-    WATCHDOG_DEFAULTS;
+  const { silenceTimeoutMs, wallClockCapMs, killGraceMs } =
+    resolveWatchdogLimits(options.limits);
+  const { hardAbortMs } = WATCHDOG_DEFAULTS;
 
   const denialBackoff = resolveDenialBackoffConfig(options.denialBackoff);
 
@@ -217,6 +246,7 @@ export function createWatchdog(
     triggeredReason: null,
     sandboxFailFast: null,
     denialBackoff: new DenialBackoffTracker(denialBackoff),
+    denialLog: new SandboxDenialLog(),
     sandboxLineBufferBySource: {
       stdout: "",
       stderr: "",
@@ -225,7 +255,10 @@ export function createWatchdog(
     abortController: new AbortController(),
   };
 
-  const fatalPatternRules = FATAL_PATTERN_RULES.get(options.providerId) ?? [];
+  const fatalPatternRules = [
+    ...(FATAL_PATTERN_RULES.get(options.providerId) ?? []),
+    ...(options.fatalPatterns ?? []),
+  ];
 
   const resetSilenceTimer = (): void => {
     if (state.silenceTimer) {
@@ -409,6 +442,7 @@ export function createWatchdog(
         continue;
       }
 
+      state.denialLog.record(denial);
       const decision = state.denialBackoff.register(denial);
       if (decision.action === "warn") {
         stderrStream.write(
@@ -485,6 +519,7 @@ export function createWatchdog(
       triggered: state.triggered,
       triggeredReason: state.triggeredReason,
       sandboxFailFast: state.sandboxFailFast ?? undefined,
+      sandboxDenials: state.denialLog.entries(),
     }),
     /** AbortSignal that fires after watchdog triggers and hard abort timeout passes. */
     abortSignal: state.abortController.signal,
@@ -498,6 +533,7 @@ export interface WatchdogController {
     triggered: WatchdogTrigger | null;
     triggeredReason: string | null;
     sandboxFailFast?: SandboxFailFastInfo;
+    sandboxDenials: SandboxDenialEntry[];
   };
   /** AbortSignal that fires after watchdog triggers and hard abort timeout passes. */
   abortSignal: AbortSignal;
@@ -516,26 +552,6 @@ interface TerminateProcessOptions {
   hardAbortMs: number;
 }
 
-/**
- * Kills the entire process group rooted at the given PID.
- * Uses negative PID to target the process group (requires detached spawn).
- * Falls back to single-process kill if group kill fails.
- */
-function killProcessGroup(pid: number, signal: NodeJS.Signals): void {
-  try {
-    // Negative PID sends signal to entire process group
-    process.kill(-pid, signal);
-  } catch {
-    // Fall back to single process kill if group kill fails
-    // (e.g., if process was not spawned with detached: true)
-    try {
-      process.kill(pid, signal);
-    } catch {
-      // Process may have already exited, ignore
-    }
-  }
-}
-
 function terminateProcess(
   child: ChildProcess,
   state: WatchdogState,
@@ -1,3 +1,4 @@
+import { getReductionTargets } from "../domain/reduce/model/types.js";
 import {
   type PersistedWorkflowRecordEvent,
   subscribePersistedWorkflowRecordEvents,
@@ -52,6 +53,8 @@ export type AppWorkflowSessionUploadPayload = Readonly<
   record_updated_at: string;
   raw_record: Record<string, unknown>;
   target?: AppWorkflowSessionUploadTarget;
+  /** Every target, in order, when a reduction or run verification has several. */
+  targets?: AppWorkflowSessionUploadTarget[];
 };
 
 export type AppWorkflowPersistedRecord = PersistedWorkflowRecordEvent;
@@ -169,7 +172,13 @@ export function buildAppWorkflowSessionUploadPayload(
             }
           : {}),
       };
-    case "reduce":
+    case "reduce": {
+      const targets = getReductionTargets(input.record).map(
+        (target): AppWorkflowSessionUploadTarget => ({
+          kind: target.type,
+          session_id: target.id,
+        }),
+      );
       return {
         local_repo_key: input.localRepoKey,
         operator: "reduce",
@@ -180,11 +189,10 @@ export function buildAppWorkflowSessionUploadPayload(
         completed_at: input.record.completedAt ?? null,
         record_updated_at: input.recordUpdatedAt,
         raw_record: cloneRawRecord(input.record),
-        target: {
-          kind: input.record.target.type,
-          session_id: input.record.target.id,
-        },
+        target: targets[0],
+        ...(targets.length > 1 ? { targets } : {}),
       };
+    }
     case "verify":
       return {
         local_repo_key: input.localRepoKey,
@@ -200,6 +208,14 @@ export function buildAppWorkflowSessionUploadPayload(
           kind: input.record.target.kind,
           session_id: input.record.target.sessionId,
         },
+        ...(input.record.target.kind === "run" && input.record.target.runs
+          ? {
+              targets: input.record.target.runs.map((run) => ({
+                kind: "run" as const,
+                session_id: run.sessionId,
+              })),
+            }
+          : {}),
       };
     case "run":
       return {
@@ -0,0 +1,154 @@
+import { readFile } from "node:fs/promises";
+
+import {
+  type ProviderDefinition,
+  SANDBOX_HOME_PLACEHOLDER,
+} from "../../configs/providers/types.js";
+import { buildAuthFailedMessage } from "./messages.js";
+import {
+  disposeHandles,
+  registerSandboxSecrets,
+  type SecretHandle,
+  stageSecretFile,
+} from "./secret-staging.js";
+import { teardownAuthProvider } from "./teardown.js";
+import type {
+  AuthProvider,
+  StageOptions,
+  StageResult,
+  TeardownOptions,
+  VerifyOptions,
+  VerifyResult,
+} from "./types.js";
+import {
+  assertReadableFileOrThrow,
+  composeSandboxEnvResult,
+  createSandboxPaths,
+  ensureDirectories,
+  isMissing,
+  resolveChildPath,
+} from "./utils.js";
+
+class DeclarativeAuthProviderError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DeclarativeAuthProviderError";
+  }
+}
+
+/**
+ * Builds an auth provider from a `.voratiq/providers.yaml` entry: forwards the
+ * listed environment variables and stages the listed home files as secrets.
+ */
+export function createDeclarativeAuthProvider(
+  definition: ProviderDefinition,
+): AuthProvider {
+  const loginHint = buildAuthFailedMessage(definition.id);
+
+  return {
+    id: definition.id,
+
+    async verify(options: VerifyOptions): Promise<VerifyResult> {
+      resolveForwardedEnv(definition, options, loginHint);
+      for (const file of definition.auth.files) {
+        if (file.optional) {
+          continue;
+        }
+        await assertReadableFileOrThrow(
+          resolveSourcePath(options, file.source, loginHint),
+          (cause) => new DeclarativeAuthProviderError(loginHint, { cause }),
+        );
+      }
+      return { status: "ok" };
+    },
+
+    async stage(options: StageOptions): Promise<StageResult> {
+      const forwardedEnv = resolveForwardedEnv(definition, options, loginHint);
+      const sandboxPaths = createSandboxPaths(options.agentRoot, {
+        tmp: ["tmp"],
+      });
+      await ensureDirectories(Object.values(sandboxPaths));
+
+      const secretHandles: SecretHandle[] = [];
+      try {
+        for (const file of definition.auth.files) {
+          const sourcePath = resolveSourcePath(options, file.source, loginHint);
+          let bytes: Buffer;
+          try {
+            bytes = await readFile(sourcePath);
+          } catch (error) {
+            if (file.optional && isMissing(error)) {
+              continue;
+            }
+            throw new DeclarativeAuthProviderError(loginHint, {
+              cause: error,
+            });
+          }
+          const handle = await stageSecretFile(sandboxPaths.home, {
+            destinationPath: resolveChildPath(
+              sandboxPaths.home,
+              file.destination ?? file.source,
+            ),
+            sourceBytes: bytes,
+            providerId: definition.id,
+            fileLabel: file.source,
+          });
+          secretHandles.push(handle);
+        }
+      } catch (error) {
+        await disposeHandles(secretHandles);
+        throw error;
+      }
+
+      registerSandboxSecrets(sandboxPaths.home, secretHandles);
+
+      const staticEnv = Object.fromEntries(
+        Object.entries(definition.env).map(([key, value]) => [
+          key,
+          value.replaceAll(SANDBOX_HOME_PLACEHOLDER, sandboxPaths.home),
+        ]),
+      );
+      return composeSandboxEnvResult(sandboxPaths.home, {
+        ...forwardedEnv,
+        ...staticEnv,
+        TMPDIR: sandboxPaths.tmp,
+        TEMP: sandboxPaths.tmp,
+        TMP: sandboxPaths.tmp,
+      });
+    },
+
+    async teardown(options: TeardownOptions): Promise<void> {
+      await teardownAuthProvider(options);
+    },
+  };
+}
+
+function resolveForwardedEnv(
+  definition: ProviderDefinition,
+  options: VerifyOptions,
+  loginHint: string,
+): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  for (const key of definition.auth.env) {
+    const value = options.runtime.env[key]?.trim();
+    if (!value) {
+      throw new DeclarativeAuthProviderError(
+        `${loginHint} Missing \`${key}\` in the environment.`,
+      );
+    }
+    forwarded[key] = value;
+  }
+  return forwarded;
+}
+
+function resolveSourcePath(
+  options: VerifyOptions,
+  source: string,
+  loginHint: string,
+): string {
+  const homeDir = options.runtime.homeDir;
+  if (!homeDir) {
+    throw new DeclarativeAuthProviderError(loginHint);
+  }
+  return resolveChildPath(homeDir, source);
+}
@@ -1,5 +1,7 @@
+import { resolveProviderDefinition } from "../../configs/providers/loader.js";
 import { claudeAuthProvider } from "./claude.js";
 import { codexAuthProvider } from "./codex.js";
+import { createDeclarativeAuthProvider } from "./declarative.js";
 import { geminiAuthProvider } from "./gemini.js";
 import type { AuthProvider } from "./types.js";
 
@@ -16,6 +18,18 @@ function registerAuthProvider(provider: AuthProvider): void {
   REGISTRY.set(provider.id, provider);
 }
 
-export function resolveAuthProvider(id: string): AuthProvider | undefined {
-  return REGISTRY.get(id);
+/**
+ * Resolves a built-in provider, falling back to custom providers declared in
+ * `.voratiq/providers.yaml` under `root`.
+ */
+export function resolveAuthProvider(
+  id: string,
+  options: { root?: string } = {},
+): AuthProvider | undefined {
+  const builtin = REGISTRY.get(id);
+  if (builtin) {
+    return builtin;
+  }
+  const definition = resolveProviderDefinition(id, { root: options.root });
+  return definition ? createDeclarativeAuthProvider(definition) : undefined;
 }
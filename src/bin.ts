@@ -503,8 +503,12 @@ async function registerCommands(
     "verify",
     "message",
     "auto",
+    "workflow",
     "apply",
     "list",
+    "compare",
+    "prune",
+    "stats",
     "login",
     "status",
     "doctor",
@@ -529,8 +533,16 @@ async function registerCommands(
       (await import("./cli/message.js")).createMessageCommand(),
     );
     program.addCommand((await import("./cli/auto.js")).createAutoCommand());
+    program.addCommand(
+      (await import("./cli/workflow.js")).createWorkflowCommand(),
+    );
     program.addCommand((await import("./cli/apply.js")).createApplyCommand());
     program.addCommand((await import("./cli/list.js")).createListCommand());
+    program.addCommand(
+      (await import("./cli/compare.js")).createCompareCommand(),
+    );
+    program.addCommand((await import("./cli/prune.js")).createPruneCommand());
+    program.addCommand((await import("./cli/stats.js")).createStatsCommand());
     program.addCommand((await import("./cli/login.js")).createLoginCommand());
     program.addCommand((await import("./cli/status.js")).createStatusCommand());
     program.addCommand((await import("./cli/doctor.js")).createDoctorCommand());
@@ -563,12 +575,28 @@ async function registerCommands(
     case "auto":
       program.addCommand((await import("./cli/auto.js")).createAutoCommand());
       break;
+    case "workflow":
+      program.addCommand(
+        (await import("./cli/workflow.js")).createWorkflowCommand(),
+      );
+      break;
     case "apply":
       program.addCommand((await import("./cli/apply.js")).createApplyCommand());
       break;
     case "list":
       program.addCommand((await import("./cli/list.js")).createListCommand());
       break;
+    case "compare":
+      program.addCommand(
+        (await import("./cli/compare.js")).createCompareCommand(),
+      );
+      break;
+    case "prune":
+      program.addCommand((await import("./cli/prune.js")).createPruneCommand());
+      break;
+    case "stats":
+      program.addCommand((await import("./cli/stats.js")).createStatsCommand());
+      break;
     case "login":
       program.addCommand((await import("./cli/login.js")).createLoginCommand());
       break;
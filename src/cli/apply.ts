@@ -20,6 +20,8 @@ export interface ApplyCommandOptions {
   agentId: string;
   ignoreBaseMismatch?: boolean;
   commit?: boolean;
+  threeWay?: boolean;
+  rebaseOnto?: string;
   json?: boolean;
   writeOutput?: CommandOutputWriter;
 }
@@ -38,6 +40,8 @@ export async function runApplyCommand(
     agentId,
     ignoreBaseMismatch = false,
     commit = false,
+    threeWay = false,
+    rebaseOnto,
   } = options;
 
   const { root, workspacePaths } = await resolveCliContext();
@@ -56,6 +60,8 @@ export async function runApplyCommand(
     agentId,
     ignoreBaseMismatch,
     commit,
+    threeWay,
+    rebaseOnto,
   });
 
   const body = renderApplyTranscript(result);
@@ -68,6 +74,8 @@ interface ApplyCommandActionOptions {
   agent: string;
   ignoreBaseMismatch?: boolean;
   commit?: boolean;
+  "3way"?: boolean;
+  rebaseOnto?: string;
   json?: boolean;
 }
 
@@ -82,6 +90,15 @@ export function createApplyCommand(): Command {
       "Commit after apply, using the agent's summary as the message",
       () => true,
     )
+    .option(
+      "--3way",
+      "Merge against HEAD using the candidate's base, leaving conflict markers",
+      () => true,
+    )
+    .option(
+      "--rebase-onto <revision>",
+      "Replay the candidate's commit onto a revision before applying",
+    )
     .option("--json", "Emit a machine-readable result envelope")
     .allowExcessArguments(false)
     .action(async (options: ApplyCommandActionOptions, command: Command) => {
@@ -91,6 +108,8 @@ export function createApplyCommand(): Command {
         agentId: input.agentId,
         ignoreBaseMismatch: input.ignoreBaseMismatch ?? false,
         commit: input.commit ?? false,
+        threeWay: input.threeWay ?? false,
+        rebaseOnto: input.rebaseOnto,
         json: Boolean(options.json),
         writeOutput: writeCommandOutput,
       });
@@ -102,6 +121,7 @@ export function createApplyCommand(): Command {
             agentId: result.result.agent.agentId,
             diffPath: result.result.diffPath,
             ignoredBaseMismatch: result.result.ignoredBaseMismatch,
+            conflictedPaths: result.result.conflictedPaths,
           }),
           result.exitCode,
         );
@@ -5,6 +5,7 @@ import {
   type AutoCommandEvent,
   executeAutoCommand,
 } from "../commands/auto/command.js";
+import { prepareAutoRepairRound } from "../commands/auto/repair.js";
 import {
   validateAutoCommandOptions,
   validateAutoVerificationConfig,
@@ -16,19 +17,34 @@ import type {
   RunAutoOutcome,
 } from "../domain/run/model/types.js";
 import { rewriteRunRecord } from "../domain/run/persistence/adapter.js";
+import { isNoRunCandidatePassingProgrammatic } from "../policy/index.js";
 import { resolveCliContext } from "../preflight/index.js";
 import { renderAutoSummaryTranscript } from "../render/transcripts/auto.js";
 import { renderWorkspaceAutoInitializedNotice } from "../render/transcripts/shared.js";
 import { renderCliError } from "../render/utils/errors.js";
 import { HintedError } from "../utils/errors.js";
 import { formatAlertMessage } from "../utils/output.js";
+import { parsePositiveInteger } from "../utils/validators.js";
+import { VORATIQ_VERIFICATION_FILE } from "../workspace/constants.js";
+import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
 import { runApplyCommand } from "./apply.js";
 import { toCliError } from "./errors.js";
+import {
+  addEventStreamOptions,
+  type EventStream,
+  type EventStreamFormat,
+  openEventStream,
+} from "./events.js";
 import {
   collectRepeatedStringOption,
+  parseMaxCostOption,
   parseMaxParallelOption,
 } from "./option-parsers.js";
-import { beginChainedCommandOutput, writeCommandOutput } from "./output.js";
+import {
+  beginChainedCommandOutput,
+  type CommandOutputWriter,
+  writeCommandOutput,
+} from "./output.js";
 import { promptForRepositoryLinkIfNeeded } from "./repository-link.js";
 import { runRunCommand } from "./run.js";
 import { runSpecCommand } from "./spec.js";
@@ -41,9 +57,13 @@ export interface AutoCommandOptions {
   verifyAgentIds?: readonly string[];
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
   branch?: boolean;
   apply?: boolean;
   commit?: boolean;
+  maxRounds?: number;
+  /** Receives lifecycle events from every stage auto runs. */
+  events?: EventStream;
 }
 
 export interface AutoCommandResult {
@@ -86,6 +106,12 @@ function replayAutoCommandEvent(event: AutoCommandEvent): void {
     writeCommandOutput({ body: renderCliError(toCliError(event.error)) });
     return;
   }
+
+  if (event.kind === "round") {
+    writeCommandOutput({
+      alerts: [{ severity: "info", message: event.detail }],
+    });
+  }
 }
 
 async function persistAutoOutcome(options: {
@@ -122,16 +148,26 @@ export async function runAutoCommand(
 ): Promise<AutoCommandResult> {
   validateAutoCommandOptions(options);
   const now = runtime.now ?? Date.now.bind(Date);
-  const { root, workspaceAutoInitialized } = await resolveCliContext({
-    workspaceAutoInitMode: "when-missing",
-    restoreShippedVerificationTemplates: false,
-  });
-  await promptForRepositoryLinkIfNeeded({ root });
+  const { events } = options;
+  const quiet = events?.ownsStdout === true;
+  const writeOutput: CommandOutputWriter = quiet
+    ? ({ exitCode }) => {
+        if (typeof exitCode === "number") {
+          process.exitCode = exitCode;
+        }
+      }
+    : writeCommandOutput;
+  const { root, workspacePaths, workspaceAutoInitialized } =
+    await resolveCliContext({
+      workspaceAutoInitMode: "when-missing",
+      restoreShippedVerificationTemplates: false,
+    });
+  await promptForRepositoryLinkIfNeeded({ root, json: quiet });
   const workspaceNotice = workspaceAutoInitialized
     ? renderWorkspaceAutoInitializedNotice()
     : undefined;
   if (workspaceNotice) {
-    writeCommandOutput({
+    writeOutput({
       alerts: [{ severity: "info", message: workspaceNotice }],
       leadingNewline: false,
     });
@@ -151,14 +187,17 @@ export async function runAutoCommand(
   try {
     const dependencies: AutoCommandDependencies = {
       now,
-      onEvent: replayAutoCommandEvent,
+      onEvent: quiet ? undefined : replayAutoCommandEvent,
       runSpecStage: async (input) => {
         const result = await runSpecCommand({
           description: input.description,
           profile: input.profile,
           maxParallel: input.maxParallel,
+          costBudget: input.costBudget,
           suppressHint: input.suppressHint,
-          writeOutput: writeCommandOutput,
+          json: quiet,
+          events,
+          writeOutput,
         });
 
         if (!result.sessionId) {
@@ -182,8 +221,16 @@ export async function runAutoCommand(
           agentOverrideFlag: input.agentOverrideFlag,
           profile: input.profile,
           maxParallel: input.maxParallel,
+          costBudget: input.costBudget,
           branch: input.branch,
-          writeOutput: writeCommandOutput,
+          extraContext: input.extraContext
+            ? [...input.extraContext]
+            : undefined,
+          baseRevisionSha: input.baseRevisionSha,
+          repairOf: input.repairOf,
+          json: quiet,
+          events,
+          writeOutput,
           suppressHint: true,
           suppressLeadingBlankLine: suppressBlankLines,
           suppressTrailingBlankLine: suppressBlankLines,
@@ -198,7 +245,10 @@ export async function runAutoCommand(
           agentOverrideFlag: input.agentOverrideFlag,
           profile: input.profile,
           maxParallel: input.maxParallel,
+          costBudget: input.costBudget,
           suppressHint: input.suppressHint,
+          json: quiet,
+          events,
           stdout: chainedOutput.stdout,
           stderr: chainedOutput.stderr,
         }).then((result) => ({
@@ -209,13 +259,26 @@ export async function runAutoCommand(
           selectedSpecPath: result.selectedSpecPath,
           selection: result.selection?.decision,
           selectionWarnings: result.selection?.warnings,
+          noCandidatePassedChecks: result.selection
+            ? isNoRunCandidatePassingProgrammatic(result.selection.input)
+            : undefined,
           warningMessage: result.warningMessage,
         })),
+      runRepairStage: async (input) =>
+        prepareAutoRepairRound({
+          root,
+          runsFilePath: workspacePaths.runsFile,
+          verificationsFilePath:
+            workspacePaths.verificationsFile ??
+            resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
+          ...input,
+        }),
       runApplyStage: async (input) =>
         runApplyCommand({
           runId: input.runId,
           agentId: input.agentId,
           commit: input.commit,
+          json: quiet,
         }),
     };
 
@@ -232,6 +295,9 @@ export async function runAutoCommand(
           : {}),
         ...(execution.apply.detail ? { detail: execution.apply.detail } : {}),
       },
+      ...(execution.summary.rounds.length > 1
+        ? { rounds: [...execution.summary.rounds] }
+        : {}),
     };
 
     await persistAutoOutcome({
@@ -239,7 +305,7 @@ export async function runAutoCommand(
       outcome: autoOutcome,
     });
 
-    writeCommandOutput({
+    writeOutput({
       body: renderAutoSummaryTranscript(execution.summary),
       exitCode: execution.exitCode,
     });
@@ -265,13 +331,25 @@ interface AutoCommandActionOptions {
   verifyAgent?: string[];
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
   branch?: boolean;
   apply?: boolean;
   commit?: boolean;
+  maxRounds?: number;
+  events?: EventStreamFormat;
+  eventsFile?: string;
+}
+
+function parseMaxRoundsOption(value: string): number {
+  return parsePositiveInteger(
+    value,
+    "Expected positive integer after --max-rounds",
+    "--max-rounds must be greater than 0",
+  );
 }
 
 export function createAutoCommand(): Command {
-  return new Command("auto")
+  const command = new Command("auto")
     .description("Run spec, run, verify, and apply as one command")
     .option("--spec <path>", "Existing spec to run")
     .option("--description <text>", "Generate a spec, then run and verify it")
@@ -297,6 +375,11 @@ export function createAutoCommand(): Command {
       "Max concurrent agents/verifiers",
       parseMaxParallelOption,
     )
+    .option(
+      "--max-cost <usd>",
+      "USD cap on the combined spend of every stage and round",
+      parseMaxCostOption,
+    )
     .option("--branch", "Create or checkout a branch named after the spec")
     .option(
       "--apply",
@@ -304,18 +387,35 @@ export function createAutoCommand(): Command {
       () => true,
     )
     .option("--commit", "Commit after apply (requires --apply)", () => true)
+    .option(
+      "--max-rounds <count>",
+      "Start repair rounds from the best failing candidate until one resolves (default: 1)",
+      parseMaxRoundsOption,
+    );
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
-    .action(async (options: AutoCommandActionOptions) => {
-      await runAutoCommand({
-        specPath: options.spec,
-        description: options.description,
-        runAgentIds: options.runAgent,
-        verifyAgentIds: options.verifyAgent,
-        profile: options.profile,
-        maxParallel: options.maxParallel,
-        branch: options.branch,
-        apply: options.apply ?? false,
-        commit: options.commit ?? false,
-      });
+    .action(async (options: AutoCommandActionOptions, command: Command) => {
+      const events = openEventStream(options, command);
+      try {
+        await runAutoCommand({
+          specPath: options.spec,
+          description: options.description,
+          runAgentIds: options.runAgent,
+          verifyAgentIds: options.verifyAgent,
+          profile: options.profile,
+          maxParallel: options.maxParallel,
+          maxCost: options.maxCost,
+          branch: options.branch,
+          apply: options.apply ?? false,
+          commit: options.commit ?? false,
+          ...(options.maxRounds !== undefined
+            ? { maxRounds: options.maxRounds }
+            : {}),
+          ...(events ? { events } : {}),
+        });
+      } finally {
+        events?.close();
+      }
     });
 }
@@ -0,0 +1,102 @@
+import { Command } from "commander";
+
+import {
+  executeCompareCommand,
+  executeComparePairwiseCommand,
+} from "../commands/compare/command.js";
+import type { CompareJsonOutput } from "../contracts/compare.js";
+import { resolveCliContext } from "../preflight/index.js";
+import {
+  renderComparePairwiseTranscript,
+  renderCompareTranscript,
+} from "../render/transcripts/compare.js";
+import { VORATIQ_VERIFICATION_FILE } from "../workspace/constants.js";
+import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
+import { parseCompareInspectionCommandOptions } from "./contract.js";
+import { collectRepeatedStringOption } from "./option-parsers.js";
+import { type Alert, writeCommandOutput } from "./output.js";
+
+export interface CompareCommandOptions {
+  runId: string;
+  /** Two agent ids switch to pairwise mode. */
+  agentIds?: readonly [string, string];
+}
+
+export interface CompareCommandResult {
+  alerts: Alert[];
+  body: string;
+  json: CompareJsonOutput;
+}
+
+export async function runCompareCommand(
+  options: CompareCommandOptions,
+): Promise<CompareCommandResult> {
+  const { root, workspacePaths } = await resolveCliContext();
+  const input = {
+    root,
+    runsFilePath: workspacePaths.runsFile,
+    verificationsFilePath:
+      workspacePaths.verificationsFile ??
+      resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
+    runId: options.runId,
+  };
+
+  let json: CompareJsonOutput;
+  let body: string;
+  if (options.agentIds) {
+    const result = await executeComparePairwiseCommand({
+      ...input,
+      agentIds: options.agentIds,
+    });
+    json = result;
+    body = renderComparePairwiseTranscript(result);
+  } else {
+    const result = await executeCompareCommand(input);
+    json = result;
+    body = renderCompareTranscript(result);
+  }
+
+  const alerts: Alert[] = json.warnings.map((warning) => ({
+    severity: "warn",
+    message: warning,
+  }));
+
+  return { alerts, body, json };
+}
+
+interface CompareCommandActionOptions {
+  run: string;
+  agent?: string[];
+  json?: boolean;
+}
+
+export function createCompareCommand(): Command {
+  return new Command("compare")
+    .description("Compare the candidates of a run side by side")
+    .requiredOption("--run <run-id>", "Run ID whose candidates to compare")
+    .option(
+      "--agent <agent-id>",
+      "Diff two candidates' result trees (pass exactly twice)",
+      collectRepeatedStringOption,
+    )
+    .option("--json", "Emit machine-readable compare output")
+    .allowExcessArguments(false)
+    .action(async (options: CompareCommandActionOptions, command: Command) => {
+      const input = parseCompareInspectionCommandOptions(options, command);
+      const result = await runCompareCommand({
+        runId: input.runId,
+        agentIds: input.agentIds as [string, string] | undefined,
+      });
+
+      if (options.json) {
+        writeCommandOutput({
+          body: JSON.stringify(result.json),
+        });
+        return;
+      }
+      writeCommandOutput({
+        body: result.body,
+        alerts: result.alerts,
+      });
+    });
+}
@@ -7,12 +7,14 @@ import {
   type ListOperator,
   listOperators,
 } from "../contracts/list.js";
+import { eventStreamFormats } from "./events.js";
 
 const nonEmptyStringSchema = z.string().min(1, "must not be empty");
 const positiveIntegerSchema = z
   .number()
   .int("must be an integer")
   .positive("must be greater than 0");
+const positiveNumberSchema = z.number().positive("must be greater than 0");
 const optionalNonEmptyStringArraySchema = z
   .array(nonEmptyStringSchema)
   .min(1, "must include at least one value")
@@ -51,6 +53,7 @@ export const externalSpecExecutionInputSchema = z
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
     title: nonEmptyStringSchema.optional(),
+    template: nonEmptyStringSchema.optional(),
     extraContext: optionalNonEmptyStringArraySchema,
   })
   .strict();
@@ -61,25 +64,43 @@ export const externalRunExecutionInputSchema = z
     agentIds: optionalNonEmptyStringArraySchema,
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
+    maxCost: positiveNumberSchema.optional(),
     branch: z.boolean().optional(),
+    base: nonEmptyStringSchema.optional(),
+    includeWorktreeChanges: z.boolean().optional(),
     extraContext: optionalNonEmptyStringArraySchema,
   })
+  .strict()
+  .refine(
+    (input) =>
+      input.base === undefined || input.includeWorktreeChanges !== true,
+    {
+      message: "`base` cannot be combined with `includeWorktreeChanges`.",
+      path: ["base"],
+    },
+  );
+
+const externalReduceTargetSchema = z
+  .object({
+    type: z.enum(["spec", "run", "reduce", "verify", "message"]),
+    id: nonEmptyStringSchema,
+  })
   .strict();
 
 export const externalReduceExecutionInputSchema = z
   .object({
-    target: z
-      .object({
-        type: z.enum(["spec", "run", "reduce", "verify", "message"]),
-        id: nonEmptyStringSchema,
-      })
-      .strict(),
+    target: externalReduceTargetSchema.optional(),
+    targets: z.array(externalReduceTargetSchema).min(1).optional(),
     agentIds: optionalNonEmptyStringArraySchema,
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
     extraContext: optionalNonEmptyStringArraySchema,
   })
-  .strict();
+  .strict()
+  .refine(
+    (input) => (input.target === undefined) !== (input.targets === undefined),
+    { message: "Provide exactly one of `target` or `targets`." },
+  );
 
 export const externalMessageExecutionInputSchema = z
   .object({
@@ -102,6 +123,7 @@ export const externalVerifyExecutionInputSchema = z
     agentIds: optionalNonEmptyStringArraySchema,
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
+    maxCost: positiveNumberSchema.optional(),
     extraContext: optionalNonEmptyStringArraySchema,
   })
   .strict();
@@ -112,6 +134,28 @@ export const externalApplyExecutionInputSchema = z
     agentId: nonEmptyStringSchema,
     ignoreBaseMismatch: z.boolean().optional(),
     commit: z.boolean().optional(),
+    threeWay: z.boolean().optional(),
+    rebaseOnto: nonEmptyStringSchema.optional(),
+  })
+  .strict();
+
+export const externalCompareInspectionInputSchema = z
+  .object({
+    runId: nonEmptyStringSchema,
+    agentIds: z
+      .array(nonEmptyStringSchema)
+      .length(2, "must name exactly two agents")
+      .optional(),
+  })
+  .strict();
+
+/** CLI-only: `--resume` re-enters an existing session instead of starting one. */
+const resumeExecutionInputSchema = z
+  .object({
+    sessionId: nonEmptyStringSchema,
+    maxParallel: positiveIntegerSchema.optional(),
+    maxCost: positiveNumberSchema.optional(),
+    force: z.boolean().optional(),
   })
   .strict();
 
@@ -121,11 +165,29 @@ const externalListInspectionBaseSchema = z
   })
   .strict();
 
+const externalListDateSchema = nonEmptyStringSchema.refine(
+  (value) => !Number.isNaN(Date.parse(value)),
+  "must be a date such as `2025-10-01` or an ISO timestamp",
+);
+
+/** Filters shared by summary and timeline scope. */
+export const externalListFilterShape = {
+  allStatuses: z.boolean().optional(),
+  limit: positiveIntegerSchema.optional(),
+  agentIds: optionalNonEmptyStringArraySchema,
+  statuses: optionalNonEmptyStringArraySchema,
+  since: externalListDateSchema.optional(),
+  until: externalListDateSchema.optional(),
+  specPath: nonEmptyStringSchema.optional(),
+  applied: z.boolean().optional(),
+  profile: nonEmptyStringSchema.optional(),
+  grep: nonEmptyStringSchema.optional(),
+};
+
 export const externalListSummaryInputSchema =
   externalListInspectionBaseSchema.extend({
     mode: z.literal("summary"),
-    allStatuses: z.boolean().optional(),
-    limit: positiveIntegerSchema.optional(),
+    ...externalListFilterShape,
   });
 
 export const externalListDetailInputSchema =
@@ -135,9 +197,18 @@ export const externalListDetailInputSchema =
     verbose: z.boolean().optional(),
   });
 
+/** Summary sessions of every operator merged into one timeline. */
+export const externalListTimelineInputSchema = z
+  .object({
+    mode: z.literal("timeline"),
+    ...externalListFilterShape,
+  })
+  .strict();
+
 export const externalListInspectionInputSchema = z.discriminatedUnion("mode", [
   externalListSummaryInputSchema,
   externalListDetailInputSchema,
+  externalListTimelineInputSchema,
 ]);
 
 export const externalExecutionInputSchemas = {
@@ -153,8 +224,10 @@ export const externalInspectionInputSchemas = {
   list: {
     summary: externalListSummaryInputSchema,
     detail: externalListDetailInputSchema,
+    timeline: externalListTimelineInputSchema,
     union: externalListInspectionInputSchema,
   },
+  compare: externalCompareInspectionInputSchema,
 } as const;
 
 export type ExternalSpecExecutionInput = z.infer<
@@ -166,6 +239,7 @@ export type ExternalRunExecutionInput = z.infer<
 export type ExternalReduceExecutionInput = z.infer<
   typeof externalReduceExecutionInputSchema
 >;
+export type ExternalReduceTarget = z.infer<typeof externalReduceTargetSchema>;
 export type ExternalMessageExecutionInput = z.infer<
   typeof externalMessageExecutionInputSchema
 >;
@@ -178,6 +252,10 @@ export type ExternalApplyExecutionInput = z.infer<
 export type ExternalListInspectionInput = z.infer<
   typeof externalListInspectionInputSchema
 >;
+export type ExternalCompareInspectionInput = z.infer<
+  typeof externalCompareInspectionInputSchema
+>;
+export type ResumeExecutionInput = z.infer<typeof resumeExecutionInputSchema>;
 
 export const externalAdapterContractReference = {
   execution: {
@@ -217,6 +295,11 @@ export const externalAdapterContractReference = {
   },
 } as const;
 
+const eventStreamActionOptionsShape = {
+  events: z.enum(eventStreamFormats).optional(),
+  eventsFile: nonEmptyStringSchema.optional(),
+};
+
 const specCommandActionOptionsSchema = z
   .object({
     description: nonEmptyStringSchema,
@@ -224,35 +307,44 @@ const specCommandActionOptionsSchema = z
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
     title: nonEmptyStringSchema.optional(),
+    template: nonEmptyStringSchema.optional(),
     extraContext: z.array(nonEmptyStringSchema).optional(),
     json: z.boolean().optional(),
+    ...eventStreamActionOptionsShape,
   })
   .strict();
 
 const runCommandActionOptionsSchema = z
   .object({
-    spec: nonEmptyStringSchema,
+    spec: nonEmptyStringSchema.optional(),
+    resume: nonEmptyStringSchema.optional(),
+    force: z.boolean().optional(),
     agent: z.array(nonEmptyStringSchema).optional(),
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
+    maxCost: positiveNumberSchema.optional(),
     branch: z.boolean().optional(),
+    base: nonEmptyStringSchema.optional(),
+    includeWorktreeChanges: z.boolean().optional(),
     extraContext: z.array(nonEmptyStringSchema).optional(),
     json: z.boolean().optional(),
+    ...eventStreamActionOptionsShape,
   })
   .strict();
 
 const reduceCommandActionOptionsSchema = z
   .object({
-    spec: nonEmptyStringSchema.optional(),
-    run: nonEmptyStringSchema.optional(),
-    reduce: nonEmptyStringSchema.optional(),
-    verify: nonEmptyStringSchema.optional(),
-    message: nonEmptyStringSchema.optional(),
+    spec: z.array(nonEmptyStringSchema).optional(),
+    run: z.array(nonEmptyStringSchema).optional(),
+    reduce: z.array(nonEmptyStringSchema).optional(),
+    verify: z.array(nonEmptyStringSchema).optional(),
+    message: z.array(nonEmptyStringSchema).optional(),
     agent: z.array(nonEmptyStringSchema).optional(),
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
     extraContext: z.array(nonEmptyStringSchema).optional(),
     json: z.boolean().optional(),
+    ...eventStreamActionOptionsShape,
   })
   .strict();
 
@@ -264,6 +356,7 @@ const messageCommandActionOptionsSchema = z
     maxParallel: positiveIntegerSchema.optional(),
     extraContext: z.array(nonEmptyStringSchema).optional(),
     json: z.boolean().optional(),
+    ...eventStreamActionOptionsShape,
   })
   .strict();
 
@@ -273,11 +366,15 @@ const verifyCommandActionOptionsSchema = z
     run: nonEmptyStringSchema.optional(),
     reduce: nonEmptyStringSchema.optional(),
     message: nonEmptyStringSchema.optional(),
+    resume: nonEmptyStringSchema.optional(),
+    force: z.boolean().optional(),
     agent: z.array(nonEmptyStringSchema).optional(),
     profile: nonEmptyStringSchema.optional(),
     maxParallel: positiveIntegerSchema.optional(),
+    maxCost: positiveNumberSchema.optional(),
     extraContext: z.array(nonEmptyStringSchema).optional(),
     json: z.boolean().optional(),
+    ...eventStreamActionOptionsShape,
   })
   .strict();
 
@@ -287,6 +384,8 @@ const applyCommandActionOptionsSchema = z
     agent: nonEmptyStringSchema,
     ignoreBaseMismatch: z.boolean().optional(),
     commit: z.boolean().optional(),
+    "3way": z.boolean().optional(),
+    rebaseOnto: nonEmptyStringSchema.optional(),
     json: z.boolean().optional(),
   })
   .strict();
@@ -299,13 +398,39 @@ const listCommandActionOptionsSchema = z
     verify: z.union([z.literal(true), nonEmptyStringSchema]).optional(),
     message: z.union([z.literal(true), nonEmptyStringSchema]).optional(),
     interactive: z.union([z.literal(true), nonEmptyStringSchema]).optional(),
+    all: z.boolean().optional(),
     limit: positiveIntegerSchema.optional(),
     allStatuses: z.boolean().optional(),
+    agent: z.array(nonEmptyStringSchema).optional(),
+    status: z.array(nonEmptyStringSchema).optional(),
+    since: z.date().optional(),
+    until: z.date().optional(),
+    specPath: nonEmptyStringSchema.optional(),
+    applied: z.boolean().optional(),
+    profile: nonEmptyStringSchema.optional(),
+    grep: nonEmptyStringSchema.optional(),
     verbose: z.boolean().optional(),
     json: z.boolean().optional(),
   })
   .strict();
 
+const listOperatorFlagDefinitions = [
+  { key: "spec", flag: "--spec", value: "spec" },
+  { key: "run", flag: "--run", value: "run" },
+  { key: "reduce", flag: "--reduce", value: "reduce" },
+  { key: "verify", flag: "--verify", value: "verify" },
+  { key: "message", flag: "--message", value: "message" },
+  { key: "interactive", flag: "--interactive", value: "interactive" },
+] as const;
+
+const compareCommandActionOptionsSchema = z
+  .object({
+    run: nonEmptyStringSchema,
+    agent: z.array(nonEmptyStringSchema).optional(),
+    json: z.boolean().optional(),
+  })
+  .strict();
+
 type ListCommandActionOptionsInput = z.input<
   typeof listCommandActionOptionsSchema
 >;
@@ -328,6 +453,7 @@ export function parseSpecExecutionCommandOptions(
       profile: parsed.profile,
       maxParallel: parsed.maxParallel,
       title: parsed.title,
+      template: parsed.template,
       extraContext: normalizeOptionalStringArray(parsed.extraContext),
     },
     command,
@@ -343,6 +469,19 @@ export function parseRunExecutionCommandOptions(
     options,
     command,
   );
+  if (parsed.spec === undefined) {
+    failCommand(
+      command,
+      `one of ${formatFlagList(["--spec", "--resume"])} is required`,
+    );
+  }
+  assertForceRequiresResume(command, parsed.force);
+  if (parsed.base !== undefined && parsed.includeWorktreeChanges === true) {
+    failCommand(
+      command,
+      "`--base` cannot be combined with `--include-worktree-changes`.",
+    );
+  }
 
   return parseCommandOptions(
     externalRunExecutionInputSchema,
@@ -351,13 +490,55 @@ export function parseRunExecutionCommandOptions(
       agentIds: normalizeOptionalStringArray(parsed.agent),
       profile: parsed.profile,
       maxParallel: parsed.maxParallel,
+      maxCost: parsed.maxCost,
       branch: normalizeOptionalBoolean(parsed.branch),
+      base: parsed.base,
+      includeWorktreeChanges: normalizeOptionalBoolean(
+        parsed.includeWorktreeChanges,
+      ),
       extraContext: normalizeOptionalStringArray(parsed.extraContext),
     },
     command,
   );
 }
 
+export function parseRunResumeCommandOptions(
+  options: unknown,
+  command: Command,
+): ResumeExecutionInput {
+  const parsed = parseCommandOptions(
+    runCommandActionOptionsSchema,
+    options,
+    command,
+  );
+  assertResumeFlagsAbsent(command, [
+    { flag: "--spec", provided: parsed.spec !== undefined },
+    { flag: "--agent", provided: (parsed.agent?.length ?? 0) > 0 },
+    { flag: "--profile", provided: parsed.profile !== undefined },
+    { flag: "--branch", provided: parsed.branch === true },
+    { flag: "--base", provided: parsed.base !== undefined },
+    {
+      flag: "--include-worktree-changes",
+      provided: parsed.includeWorktreeChanges === true,
+    },
+    {
+      flag: "--extra-context",
+      provided: (parsed.extraContext?.length ?? 0) > 0,
+    },
+  ]);
+
+  return parseCommandOptions(
+    resumeExecutionInputSchema,
+    {
+      sessionId: parsed.resume,
+      maxParallel: parsed.maxParallel,
+      maxCost: parsed.maxCost,
+      force: normalizeOptionalBoolean(parsed.force),
+    },
+    command,
+  );
+}
+
 export function parseReduceExecutionCommandOptions(
   options: unknown,
   command: Command,
@@ -367,26 +548,29 @@ export function parseReduceExecutionCommandOptions(
     options,
     command,
   );
-  const selected = resolveExclusiveStringSelection(
-    [
-      { key: "spec", flag: "--spec", value: "spec" },
-      { key: "run", flag: "--run", value: "run" },
-      { key: "reduce", flag: "--reduce", value: "reduce" },
-      { key: "verify", flag: "--verify", value: "verify" },
-      { key: "message", flag: "--message", value: "message" },
-    ],
-    parsed,
-    command,
-    "target flag",
+  const targetFlags = [
+    { key: "spec", flag: "--spec" },
+    { key: "run", flag: "--run" },
+    { key: "reduce", flag: "--reduce" },
+    { key: "verify", flag: "--verify" },
+    { key: "message", flag: "--message" },
+  ] as const;
+  const targets = targetFlags.flatMap(({ key }) =>
+    (parsed[key] ?? []).map((id) => ({ type: key, id })),
   );
+  if (targets.length === 0) {
+    failCommand(
+      command,
+      `at least one target flag is required: ${formatFlagList(
+        targetFlags.map(({ flag }) => flag),
+      )} (No target flag was provided.)`,
+    );
+  }
 
   return parseCommandOptions(
     externalReduceExecutionInputSchema,
     {
-      target: {
-        type: selected.value,
-        id: selected.argument,
-      },
+      targets,
       agentIds: normalizeOptionalStringArray(parsed.agent),
       profile: parsed.profile,
       maxParallel: parsed.maxParallel,
@@ -396,6 +580,12 @@ export function parseReduceExecutionCommandOptions(
   );
 }
 
+export function resolveExternalReduceTargets(
+  input: ExternalReduceExecutionInput,
+): ExternalReduceTarget[] {
+  return input.targets ?? (input.target ? [input.target] : []);
+}
+
 export function parseMessageExecutionCommandOptions(
   options: unknown,
   command: Command,
@@ -439,6 +629,7 @@ export function parseVerifyExecutionCommandOptions(
     command,
     "target flag",
   );
+  assertForceRequiresResume(command, parsed.force);
 
   return parseCommandOptions(
     externalVerifyExecutionInputSchema,
@@ -450,12 +641,47 @@ export function parseVerifyExecutionCommandOptions(
       agentIds: normalizeOptionalStringArray(parsed.agent),
       profile: parsed.profile,
       maxParallel: parsed.maxParallel,
+      maxCost: parsed.maxCost,
       extraContext: normalizeOptionalStringArray(parsed.extraContext),
     },
     command,
   );
 }
 
+export function parseVerifyResumeCommandOptions(
+  options: unknown,
+  command: Command,
+): ResumeExecutionInput {
+  const parsed = parseCommandOptions(
+    verifyCommandActionOptionsSchema,
+    options,
+    command,
+  );
+  assertResumeFlagsAbsent(command, [
+    { flag: "--spec", provided: parsed.spec !== undefined },
+    { flag: "--run", provided: parsed.run !== undefined },
+    { flag: "--reduce", provided: parsed.reduce !== undefined },
+    { flag: "--message", provided: parsed.message !== undefined },
+    { flag: "--agent", provided: (parsed.agent?.length ?? 0) > 0 },
+    { flag: "--profile", provided: parsed.profile !== undefined },
+    {
+      flag: "--extra-context",
+      provided: (parsed.extraContext?.length ?? 0) > 0,
+    },
+  ]);
+
+  return parseCommandOptions(
+    resumeExecutionInputSchema,
+    {
+      sessionId: parsed.resume,
+      maxParallel: parsed.maxParallel,
+      maxCost: parsed.maxCost,
+      force: normalizeOptionalBoolean(parsed.force),
+    },
+    command,
+  );
+}
+
 export function parseApplyExecutionCommandOptions(
   options: unknown,
   command: Command,
@@ -473,6 +699,8 @@ export function parseApplyExecutionCommandOptions(
       agentId: parsed.agent,
       ignoreBaseMismatch: normalizeOptionalBoolean(parsed.ignoreBaseMismatch),
       commit: normalizeOptionalBoolean(parsed.commit),
+      threeWay: normalizeOptionalBoolean(parsed["3way"]),
+      rebaseOnto: parsed.rebaseOnto,
     },
     command,
   );
@@ -487,30 +715,42 @@ export function parseListInspectionCommandOptions(
     options,
     command,
   );
-  const selected = resolveExclusiveOptionalStringSelection(
-    [
-      { key: "spec", flag: "--spec", value: "spec" },
-      { key: "run", flag: "--run", value: "run" },
-      { key: "reduce", flag: "--reduce", value: "reduce" },
-      { key: "verify", flag: "--verify", value: "verify" },
-      { key: "message", flag: "--message", value: "message" },
-      { key: "interactive", flag: "--interactive", value: "interactive" },
-    ],
-    parsed,
-    command,
-    "operator flag",
-  );
-
-  const mode = selected.argument ? "detail" : "summary";
+  const all = normalizeOptionalBoolean(parsed.all);
+  if (all) {
+    const operatorFlags = listOperatorFlagDefinitions
+      .filter((definition) => parsed[definition.key] !== undefined)
+      .map((definition) => definition.flag);
+    if (operatorFlags.length > 0) {
+      failCommand(
+        command,
+        `\`--all\` cannot be combined with ${formatFlagList(operatorFlags)}`,
+      );
+    }
+  }
+  const selected = all
+    ? undefined
+    : resolveExclusiveOptionalStringSelection(
+        listOperatorFlagDefinitions,
+        parsed,
+        command,
+        "operator flag",
+      );
+
+  const mode = !selected
+    ? "timeline"
+    : selected.argument
+      ? "detail"
+      : "summary";
   const verbose = normalizeOptionalBoolean(parsed.verbose);
   const allStatuses = normalizeOptionalBoolean(parsed.allStatuses);
+  const applied = normalizeOptionalBoolean(parsed.applied);
   const json = normalizeOptionalBoolean(parsed.json);
 
   if (verbose && json) {
     failCommand(command, "`--verbose` cannot be used with JSON output.");
   }
 
-  if (mode === "summary" && verbose) {
+  if (mode !== "detail" && verbose) {
     failCommand(command, "`--verbose` requires detail scope.");
   }
 
@@ -522,25 +762,116 @@ export function parseListInspectionCommandOptions(
     failCommand(command, "`--limit` applies only to summary scope.");
   }
 
+  const filterFlags = [
+    { flag: "--agent", provided: parsed.agent !== undefined },
+    { flag: "--status", provided: parsed.status !== undefined },
+    { flag: "--since", provided: parsed.since !== undefined },
+    { flag: "--until", provided: parsed.until !== undefined },
+    { flag: "--spec-path", provided: parsed.specPath !== undefined },
+    { flag: "--applied", provided: applied === true },
+    { flag: "--profile", provided: parsed.profile !== undefined },
+    { flag: "--grep", provided: parsed.grep !== undefined },
+  ]
+    .filter((entry) => entry.provided)
+    .map((entry) => entry.flag);
+  const [filterFlag] = filterFlags;
+  if (mode === "detail" && filterFlag) {
+    failCommand(command, `\`${filterFlag}\` applies only to summary scope.`);
+  }
+
+  if (parsed.since && parsed.until && parsed.since >= parsed.until) {
+    failCommand(command, "`--since` must be earlier than `--until`");
+  }
+
+  const operator = selected?.value;
+  if (applied && operator !== undefined && operator !== "run") {
+    failCommand(command, "`--applied` requires `--run` or `--all`.");
+  }
+
+  if (
+    parsed.specPath !== undefined &&
+    operator !== undefined &&
+    operator !== "run" &&
+    operator !== "spec"
+  ) {
+    failCommand(
+      command,
+      "`--spec-path` requires `--spec`, `--run`, or `--all`.",
+    );
+  }
+
+  if (parsed.profile !== undefined && operator === "interactive") {
+    failCommand(command, "`--profile` does not apply to interactive sessions.");
+  }
+
+  if (
+    parsed.grep !== undefined &&
+    (operator === "reduce" || operator === "verify")
+  ) {
+    failCommand(
+      command,
+      "`--grep` searches spec descriptions, message prompts, interactive tasks, and run summaries; it does not apply to `--reduce` or `--verify`.",
+    );
+  }
+
   return parseCommandOptions(
     externalListInspectionInputSchema,
     {
-      operator: selected.value,
+      ...(operator ? { operator } : {}),
       mode,
-      ...(selected.argument ? { sessionId: selected.argument } : {}),
-      ...(mode === "summary"
+      ...(selected?.argument ? { sessionId: selected.argument } : {}),
+      ...(mode === "detail"
         ? {
-            limit: parsed.limit,
-            allStatuses,
+            verbose,
           }
         : {
-            verbose,
+            limit: parsed.limit,
+            allStatuses,
+            agentIds: parsed.agent,
+            statuses: parsed.status,
+            since: parsed.since?.toISOString(),
+            until: parsed.until?.toISOString(),
+            specPath: parsed.specPath,
+            applied,
+            profile: parsed.profile,
+            grep: parsed.grep,
           }),
     },
     command,
   );
 }
 
+export function parseCompareInspectionCommandOptions(
+  options: unknown,
+  command: Command,
+): ExternalCompareInspectionInput {
+  const parsed = parseCommandOptions(
+    compareCommandActionOptionsSchema,
+    options,
+    command,
+  );
+
+  const agentIds = parsed.agent;
+  if (agentIds !== undefined && agentIds.length !== 2) {
+    failCommand(
+      command,
+      "pairwise comparison requires exactly two `--agent` flags.",
+    );
+  }
+  if (agentIds !== undefined && agentIds[0] === agentIds[1]) {
+    failCommand(command, "`--agent` must name two different agents.");
+  }
+
+  return parseCommandOptions(
+    externalCompareInspectionInputSchema,
+    {
+      runId: parsed.run,
+      ...(agentIds ? { agentIds } : {}),
+    },
+    command,
+  );
+}
+
 function parseCommandOptions<T>(
   schema: z.ZodType<T>,
   input: unknown,
@@ -647,6 +978,31 @@ function failExclusiveSelection(
   );
 }
 
+/** A resumed session reuses its recorded inputs, so flags that set them conflict. */
+function assertResumeFlagsAbsent(
+  command: Command,
+  flags: readonly { flag: string; provided: boolean }[],
+): void {
+  const conflicting = flags
+    .filter((entry) => entry.provided)
+    .map((entry) => entry.flag);
+  if (conflicting.length > 0) {
+    failCommand(
+      command,
+      `\`--resume\` cannot be combined with ${formatFlagList(conflicting)}`,
+    );
+  }
+}
+
+function assertForceRequiresResume(
+  command: Command,
+  force: boolean | undefined,
+): void {
+  if (force === true) {
+    failCommand(command, "`--force` requires `--resume`.");
+  }
+}
+
 function failCommand(command: Command, message: string): never {
   command.error(`error: ${message}`, { exitCode: 1 });
   throw new Error("Unreachable");
@@ -7,17 +7,27 @@ import {
   executeDoctorFix,
   resolveDoctorFixMode,
 } from "../commands/doctor/command.js";
+import {
+  type DoctorSandboxDenialSuggestion,
+  type DoctorSandboxPolicy,
+  executeDoctorSandboxDenialSuggestions,
+  executeDoctorSandboxReport,
+} from "../commands/doctor/sandbox.js";
 import { PREFLIGHT_HINT } from "../competition/shared/preflight.js";
 import { resolveCliContext } from "../preflight/index.js";
 import { renderCliError } from "../render/utils/errors.js";
 import { colorize } from "../utils/colors.js";
+import { toErrorMessage } from "../utils/errors.js";
 import { isInteractiveShell } from "../utils/terminal.js";
+import { VORATIQ_SANDBOX_FILE } from "../workspace/constants.js";
+import { formatWorkspacePath } from "../workspace/path-formatters.js";
 import { createConfirmationWorkflow } from "./confirmation.js";
 import { NonInteractiveShellError } from "./errors.js";
 import { type CommandOutputWriter, writeCommandOutput } from "./output.js";
 
 export interface DoctorCommandOptions {
   fix?: boolean;
+  sandbox?: boolean;
   writeOutput?: CommandOutputWriter;
 }
 
@@ -88,31 +98,58 @@ export async function runDoctorCommand(
     }
   }
 
+  let denialSuggestions: readonly DoctorSandboxDenialSuggestion[] = [];
+  try {
+    denialSuggestions = await executeDoctorSandboxDenialSuggestions({ root });
+  } catch (error) {
+    writeOutput({
+      alerts: [
+        {
+          severity: "warn",
+          message: `Could not read sandbox denials: ${toErrorMessage(error)}`,
+        },
+      ],
+    });
+  }
+
+  const sandboxLines = [
+    ...renderDoctorSandboxDenialSuggestions(denialSuggestions),
+    ...(options.sandbox
+      ? renderDoctorSandboxPolicies(executeDoctorSandboxReport({ root }))
+      : []),
+  ];
+
   if (diagnosis.healthy) {
     return {
-      body: renderHealthyDoctorBody(),
+      body: [renderHealthyDoctorBody(), ...sandboxLines].join("\n"),
       exitCode: 0,
     };
   }
 
   return {
-    body: renderDoctorIssues(diagnosis),
+    body: [renderDoctorIssues(diagnosis), ...sandboxLines].join("\n"),
     exitCode: 1,
   };
 }
 
 interface DoctorCommandActionOptions {
   fix?: boolean;
+  sandbox?: boolean;
 }
 
 export function createDoctorCommand(): Command {
   return new Command("doctor")
     .description("Diagnose workspace and preflight setup issues")
     .option("--fix", "Apply safe workspace and managed-config repairs")
+    .option(
+      "--sandbox",
+      "Show the resolved sandbox policy for each enabled agent and stage",
+    )
     .allowExcessArguments(false)
     .action(async (options: DoctorCommandActionOptions) => {
       const result = await runDoctorCommand({
         fix: Boolean(options.fix),
+        sandbox: Boolean(options.sandbox),
       });
       writeCommandOutput({
         body: result.body,
@@ -152,6 +189,86 @@ function renderDoctorIssues(diagnosis: {
   return renderCliError(new CliError(headline, detailLines, [PREFLIGHT_HINT]));
 }
 
+function renderDoctorSandboxPolicies(
+  policies: readonly DoctorSandboxPolicy[],
+): string[] {
+  if (policies.length === 0) {
+    return ["", "Sandbox policies: no enabled agents."];
+  }
+
+  const lines = ["", "Sandbox policies:"];
+  let previousAgentId: string | undefined;
+  for (const { agentId, providerId, stages, policy } of policies) {
+    if (agentId !== previousAgentId) {
+      lines.push(`- \`${agentId}\` (${providerId})`);
+      previousAgentId = agentId;
+    }
+    const { network, filesystem, denialBackoff } = policy;
+    lines.push(
+      `  ${stages.join(", ")}:`,
+      `    allowedDomains: ${formatPolicyList(network.allowedDomains)}`,
+      `    deniedDomains: ${formatPolicyList(network.deniedDomains)}`,
+      `    allowLocalBinding: ${network.allowLocalBinding}`,
+    );
+    if (network.allowAllUnixSockets) {
+      lines.push("    allowAllUnixSockets: true");
+    } else if (network.allowUnixSockets) {
+      lines.push(
+        `    allowUnixSockets: ${formatPolicyList(network.allowUnixSockets)}`,
+      );
+    }
+    for (const key of ["allowWrite", "denyRead", "denyWrite"] as const) {
+      if (filesystem[key].length > 0) {
+        lines.push(`    ${key}: ${formatPolicyList(filesystem[key])}`);
+      }
+    }
+    lines.push(
+      denialBackoff.enabled
+        ? `    denialBackoff: fail fast after ${denialBackoff.failFastThreshold} denials`
+        : "    denialBackoff: disabled",
+    );
+  }
+  return lines;
+}
+
+function renderDoctorSandboxDenialSuggestions(
+  suggestions: readonly DoctorSandboxDenialSuggestion[],
+): string[] {
+  const [first] = suggestions;
+  if (!first) {
+    return [];
+  }
+
+  const lines = [
+    "",
+    `Sandbox denials in run \`${first.runId}\`. Add to \`${formatWorkspacePath(VORATIQ_SANDBOX_FILE)}\` to allow them:`,
+    "",
+    "agents:",
+  ];
+  for (const { agentId, allowedDomains, allowWrite } of suggestions) {
+    lines.push(`  ${agentId}:`);
+    if (allowedDomains.length > 0) {
+      lines.push(
+        "    network:",
+        "      allowedDomains:",
+        ...allowedDomains.map((domain) => `        - ${domain}`),
+      );
+    }
+    if (allowWrite.length > 0) {
+      lines.push(
+        "    filesystem:",
+        "      allowWrite:",
+        ...allowWrite.map((path) => `        - ${path}`),
+      );
+    }
+  }
+  return lines;
+}
+
+function formatPolicyList(values: readonly string[]): string {
+  return values.length > 0 ? values.join(", ") : "(none)";
+}
+
 function stripDoctorIssuePrefix(line: string): string {
   return line.replace(/^- /u, "").trim();
 }
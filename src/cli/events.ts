@@ -0,0 +1,411 @@
+import { closeSync, mkdirSync, openSync, writeSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+import { type Command, Option } from "commander";
+
+import type { AgentInvocationRecord } from "../domain/run/model/types.js";
+import type { SelectionDecision } from "../policy/index.js";
+import type {
+  MessageProgressContext,
+  MessageProgressRecipientRecord,
+} from "../render/transcripts/message.js";
+import type {
+  ReduceProgressContext,
+  ReduceProgressReducerRecord,
+} from "../render/transcripts/reduce.js";
+import type { RunProgressContext } from "../render/transcripts/run.js";
+import type {
+  SpecProgressAgentRecord,
+  SpecProgressContext,
+} from "../render/transcripts/spec.js";
+import {
+  observeStageProgressEvents,
+  type StageProgressEventConsumer,
+  type StageRendererId,
+} from "../render/transcripts/stage-progress.js";
+import type {
+  VerifyProgressContext,
+  VerifyProgressMethodRecord,
+} from "../render/transcripts/verify.js";
+import { HintedError, toErrorMessage } from "../utils/errors.js";
+
+/** Bumped whenever a field of an existing event changes meaning or shape. */
+export const EVENT_STREAM_VERSION = 1;
+
+export const eventStreamFormats = ["ndjson"] as const;
+
+export type EventStreamFormat = (typeof eventStreamFormats)[number];
+
+export type LifecycleEventInput = {
+  operator: StageRendererId;
+  sessionId: string;
+} & (
+  | { event: "session.created"; status: string; workspacePath: string }
+  | { event: "agent.queued" | "agent.running"; agentId: string }
+  | { event: "agent.completed"; agentId: string; status: string }
+  | { event: "watchdog.triggered"; agentId: string; trigger: string }
+  | {
+      event: "check.completed";
+      agentId: string;
+      slug: string;
+      status: string;
+      exitCode?: number | null;
+    }
+  | {
+      event: "selection.decided";
+      state: SelectionDecision["state"];
+      selectedAgentId?: string;
+      unresolvedReasons: string[];
+    }
+  | { event: "session.completed"; status: string }
+);
+
+export type LifecycleEvent = {
+  version: typeof EVENT_STREAM_VERSION;
+  timestamp: string;
+} & LifecycleEventInput;
+
+export interface EventStream {
+  /** True when events go to stdout, so human-readable output must stay off. */
+  readonly ownsStdout: boolean;
+  emit(event: LifecycleEventInput): void;
+  close(): void;
+}
+
+export interface EventStreamCommandOptions {
+  events?: EventStreamFormat;
+  eventsFile?: string;
+  json?: boolean;
+}
+
+export function addEventStreamOptions(command: Command): Command {
+  return command
+    .addOption(
+      new Option(
+        "--events <format>",
+        "Stream lifecycle events to stdout instead of the transcript",
+      ).choices(eventStreamFormats),
+    )
+    .option(
+      "--events-file <path>",
+      "Stream lifecycle events as NDJSON to a file",
+    );
+}
+
+export function openEventStream(
+  options: EventStreamCommandOptions,
+  command: Command,
+): EventStream | undefined {
+  if (options.eventsFile !== undefined) {
+    return createFileEventStream(resolve(options.eventsFile));
+  }
+  if (options.events === undefined) {
+    return undefined;
+  }
+  if (options.json) {
+    command.error(
+      "error: `--events ndjson` cannot be combined with `--json`; use `--events-file <path>` instead",
+      { exitCode: 1 },
+    );
+  }
+  return createWriterEventStream(process.stdout);
+}
+
+function createWriterEventStream(
+  writer: Pick<NodeJS.WriteStream, "write">,
+): EventStream {
+  return {
+    ownsStdout: true,
+    emit(event) {
+      writer.write(`${formatLifecycleEvent(event)}\n`);
+    },
+    close() {},
+  };
+}
+
+function createFileEventStream(path: string): EventStream {
+  let fd: number | undefined;
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    fd = openSync(path, "w");
+  } catch (error) {
+    throw new HintedError(`Unable to open events file \`${path}\`.`, {
+      detailLines: [toErrorMessage(error)],
+      hintLines: ["Pass a writable path to `--events-file`."],
+    });
+  }
+
+  return {
+    ownsStdout: false,
+    emit(event) {
+      if (fd !== undefined) {
+        writeSync(fd, `${formatLifecycleEvent(event)}\n`);
+      }
+    },
+    close() {
+      if (fd !== undefined) {
+        closeSync(fd);
+        fd = undefined;
+      }
+    },
+  };
+}
+
+function formatLifecycleEvent(event: LifecycleEventInput): string {
+  const line: LifecycleEvent = {
+    version: EVENT_STREAM_VERSION,
+    timestamp: new Date().toISOString(),
+    ...event,
+  };
+  return JSON.stringify(line);
+}
+
+interface StageEventCandidate {
+  /** Omitted for work that is not tied to an agent, such as check runs. */
+  agentId?: string;
+  status: string;
+  watchdogTrigger?: string;
+  checks?: VerifyProgressMethodRecord["checks"];
+}
+
+export interface StageEventAdapter<TContext, TCandidate> {
+  stage: StageRendererId;
+  describeSession(context: TContext): {
+    sessionId: string;
+    status: string;
+    workspacePath: string;
+  };
+  describeCandidate(candidate: TCandidate): StageEventCandidate;
+}
+
+export const specEventAdapter: StageEventAdapter<
+  SpecProgressContext,
+  SpecProgressAgentRecord
+> = {
+  stage: "spec",
+  describeSession: (context) => ({
+    sessionId: context.sessionId,
+    status: context.status,
+    workspacePath: context.workspacePath,
+  }),
+  describeCandidate: (record) => ({
+    agentId: record.agentId,
+    status: record.status,
+  }),
+};
+
+export const runEventAdapter: StageEventAdapter<
+  RunProgressContext,
+  AgentInvocationRecord
+> = {
+  stage: "run",
+  describeSession: (context) => ({
+    sessionId: context.runId,
+    status: context.status,
+    workspacePath: context.workspacePath,
+  }),
+  describeCandidate: (record) => ({
+    agentId: record.agentId,
+    status: record.status,
+    watchdogTrigger: record.watchdog?.trigger,
+  }),
+};
+
+export const reduceEventAdapter: StageEventAdapter<
+  ReduceProgressContext,
+  ReduceProgressReducerRecord
+> = {
+  stage: "reduce",
+  describeSession: (context) => ({
+    sessionId: context.reductionId,
+    status: context.status,
+    workspacePath: context.workspacePath,
+  }),
+  describeCandidate: (record) => ({
+    agentId: record.reducerAgentId,
+    status: record.status,
+  }),
+};
+
+export const verifyEventAdapter: StageEventAdapter<
+  VerifyProgressContext,
+  VerifyProgressMethodRecord
+> = {
+  stage: "verify",
+  describeSession: (context) => ({
+    sessionId: context.verificationId,
+    status: context.status,
+    workspacePath: context.workspacePath,
+  }),
+  describeCandidate: (record) => ({
+    agentId: record.agentLabel,
+    status: record.status,
+    checks: record.checks,
+  }),
+};
+
+export const messageEventAdapter: StageEventAdapter<
+  MessageProgressContext,
+  MessageProgressRecipientRecord
+> = {
+  stage: "message",
+  describeSession: (context) => ({
+    sessionId: context.messageId,
+    status: context.status,
+    workspacePath: context.workspacePath,
+  }),
+  describeCandidate: (record) => ({
+    agentId: record.agentId,
+    status: record.status,
+  }),
+};
+
+/**
+ * Wraps a stage renderer so the progress events it receives are also written
+ * to `events` as lifecycle transitions. Repeated snapshots of the same state
+ * are collapsed, so each transition is emitted once.
+ */
+export function observeStageEvents<
+  TContext extends object,
+  TCandidate extends object,
+  TRenderer extends StageProgressEventConsumer<TContext, TCandidate>,
+>(
+  renderer: TRenderer,
+  adapter: StageEventAdapter<TContext, TCandidate>,
+  events: EventStream | undefined,
+): TRenderer {
+  if (!events) {
+    return renderer;
+  }
+
+  const operator = adapter.stage;
+  let sessionId: string | undefined;
+  let completed = false;
+  const agentStatuses = new Map<string, string>();
+  const watchdogAgents = new Set<string>();
+  let checksEmitted = false;
+
+  return observeStageProgressEvents<TContext, TCandidate, TRenderer>(
+    renderer,
+    (event) => {
+      if (event.stage !== operator) {
+        return;
+      }
+
+      if (event.type === "stage.begin") {
+        const session = adapter.describeSession(event.context);
+        if (session.sessionId === sessionId) {
+          return;
+        }
+        sessionId = session.sessionId;
+        events.emit({
+          operator,
+          sessionId,
+          event: "session.created",
+          status: session.status,
+          workspacePath: session.workspacePath,
+        });
+        return;
+      }
+
+      if (!sessionId) {
+        return;
+      }
+
+      if (event.type === "stage.status") {
+        if (completed || !isTerminalStatus(event.status)) {
+          return;
+        }
+        completed = true;
+        events.emit({
+          operator,
+          sessionId,
+          event: "session.completed",
+          status: event.status,
+        });
+        return;
+      }
+
+      const candidate = adapter.describeCandidate(event.candidate);
+      const { agentId, status } = candidate;
+      if (agentId && agentStatuses.get(agentId) !== status) {
+        agentStatuses.set(agentId, status);
+        if (status === "queued" || status === "running") {
+          events.emit({
+            operator,
+            sessionId,
+            event: status === "queued" ? "agent.queued" : "agent.running",
+            agentId,
+          });
+        } else {
+          events.emit({
+            operator,
+            sessionId,
+            event: "agent.completed",
+            agentId,
+            status,
+          });
+        }
+      }
+
+      if (
+        agentId &&
+        candidate.watchdogTrigger &&
+        !watchdogAgents.has(agentId)
+      ) {
+        watchdogAgents.add(agentId);
+        events.emit({
+          operator,
+          sessionId,
+          event: "watchdog.triggered",
+          agentId,
+          trigger: candidate.watchdogTrigger,
+        });
+      }
+
+      if (candidate.checks && !checksEmitted) {
+        checksEmitted = true;
+        for (const entry of candidate.checks) {
+          for (const check of entry.results) {
+            events.emit({
+              operator,
+              sessionId,
+              event: "check.completed",
+              agentId: entry.candidateId,
+              slug: check.slug,
+              status: check.status,
+              ...(check.exitCode !== undefined
+                ? { exitCode: check.exitCode }
+                : {}),
+            });
+          }
+        }
+      }
+    },
+  );
+}
+
+export function emitSelectionDecided(
+  events: EventStream | undefined,
+  options: {
+    operator: StageRendererId;
+    sessionId: string;
+    decision: SelectionDecision;
+  },
+): void {
+  const { operator, sessionId, decision } = options;
+  events?.emit({
+    operator,
+    sessionId,
+    event: "selection.decided",
+    state: decision.state,
+    ...(decision.state === "resolvable"
+      ? { selectedAgentId: decision.selectedCanonicalAgentId }
+      : {}),
+    unresolvedReasons: decision.unresolvedReasons.map((reason) => reason.code),
+  });
+}
+
+function isTerminalStatus(status: string): boolean {
+  return status !== "queued" && status !== "running";
+}
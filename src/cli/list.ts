@@ -1,6 +1,10 @@
 import { Command } from "commander";
 
-import { executeListCommand } from "../commands/list/command.js";
+import {
+  executeListCommand,
+  executeListTimelineCommand,
+} from "../commands/list/command.js";
+import type { ListSessionFilters } from "../commands/list/filters.js";
 import type { ListJsonOutput, ListOperator } from "../contracts/list.js";
 import { resolveCliContext } from "../preflight/index.js";
 import { parsePositiveInteger } from "../utils/validators.js";
@@ -11,14 +15,23 @@ import {
   VORATIQ_VERIFICATION_FILE,
 } from "../workspace/constants.js";
 import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
-import { parseListInspectionCommandOptions } from "./contract.js";
+import {
+  type ExternalListInspectionInput,
+  parseListInspectionCommandOptions,
+} from "./contract.js";
+import {
+  collectRepeatedStringOption,
+  createDateOptionParser,
+} from "./option-parsers.js";
 import { type Alert, writeCommandOutput } from "./output.js";
 
 export interface ListCommandOptions {
-  operator: ListOperator;
+  /** Omitted for the cross-operator timeline. */
+  operator?: ListOperator;
   sessionId?: string;
   limit?: number;
   allStatuses?: boolean;
+  filters?: ListSessionFilters;
   verbose?: boolean;
 }
 
@@ -35,7 +48,7 @@ export async function runListCommand(
     requireWorkspace: false,
   });
 
-  const execution = await executeListCommand({
+  const paths = {
     root,
     specsFilePath: workspacePaths.specsFile,
     runsFilePath: workspacePaths.runsFile,
@@ -51,18 +64,30 @@ export async function runListCommand(
     interactiveFilePath:
       workspacePaths.interactiveFile ??
       resolveWorkspacePath(root, VORATIQ_INTERACTIVE_FILE),
-    operator: options.operator,
-    sessionId: options.sessionId,
-    limit: options.limit,
-    allStatuses: options.allStatuses,
-    verbose: options.verbose,
-  });
+  };
+  const { operator } = options;
+  const execution = operator
+    ? await executeListCommand({
+        ...paths,
+        operator,
+        sessionId: options.sessionId,
+        limit: options.limit,
+        allStatuses: options.allStatuses,
+        filters: options.filters,
+        verbose: options.verbose,
+      })
+    : await executeListTimelineCommand({
+        ...paths,
+        limit: options.limit,
+        allStatuses: options.allStatuses,
+        filters: options.filters,
+      });
 
   const body =
     execution.output ??
-    (execution.mode === "summary"
-      ? `No ${options.operator} sessions recorded.`
-      : `${options.operator} session \`${options.sessionId}\` not found.`);
+    (execution.mode === "detail"
+      ? `${options.operator} session \`${options.sessionId}\` not found.`
+      : renderNoSessionsMessage(operator, options.filters));
   const alerts: Alert[] = execution.warnings.map((warning) => ({
     severity: "warn",
     message: warning,
@@ -71,6 +96,16 @@ export async function runListCommand(
   return { alerts, body, json: execution.json };
 }
 
+function renderNoSessionsMessage(
+  operator: ListOperator | undefined,
+  filters: ListSessionFilters | undefined,
+): string {
+  const subject = operator ? `${operator} sessions` : "sessions";
+  return filters
+    ? `No ${subject} match the filters.`
+    : `No ${subject} recorded.`;
+}
+
 interface ListCommandActionOptions {
   spec?: string | boolean;
   run?: string | boolean;
@@ -78,12 +113,39 @@ interface ListCommandActionOptions {
   verify?: string | boolean;
   message?: string | boolean;
   interactive?: string | boolean;
+  all?: boolean;
   limit?: number;
   allStatuses?: boolean;
+  agent?: string[];
+  status?: string[];
+  since?: Date;
+  until?: Date;
+  specPath?: string;
+  applied?: boolean;
+  profile?: string;
+  grep?: string;
   verbose?: boolean;
   json?: boolean;
 }
 
+function toListSessionFilters(
+  selection: Exclude<ExternalListInspectionInput, { mode: "detail" }>,
+): ListSessionFilters | undefined {
+  const filters: ListSessionFilters = {
+    agentIds: selection.agentIds,
+    statuses: selection.statuses,
+    since: selection.since ? new Date(selection.since) : undefined,
+    until: selection.until ? new Date(selection.until) : undefined,
+    specPath: selection.specPath,
+    applied: selection.applied,
+    profile: selection.profile,
+    grep: selection.grep,
+  };
+  return Object.values(filters).some((value) => value !== undefined)
+    ? filters
+    : undefined;
+}
+
 function parseLimitOption(value: string): number {
   return parsePositiveInteger(
     value,
@@ -95,7 +157,7 @@ function parseLimitOption(value: string): number {
 export function createListCommand(): Command {
   return new Command("list")
     .description(
-      "Inspect recorded sessions for an operator in summary or detail scope",
+      "Inspect recorded sessions for an operator in summary or detail scope, or across operators with --all",
     )
     .option(
       "--spec [session-id]",
@@ -121,6 +183,10 @@ export function createListCommand(): Command {
       "--interactive [session-id]",
       "Inspect interactive sessions in summary scope or one interactive session in detail scope",
     )
+    .option(
+      "--all",
+      "Show one timeline of summary sessions across every operator",
+    )
     .option(
       "--limit <count>",
       "Show only the N most recent summary sessions (default: 10)",
@@ -130,6 +196,39 @@ export function createListCommand(): Command {
       "--all-statuses",
       "Include sessions normally hidden by the default summary filter",
     )
+    .option(
+      "--agent <agent-id>",
+      "Only include sessions with this agent (repeatable)",
+      collectRepeatedStringOption,
+    )
+    .option(
+      "--status <status>",
+      "Only include sessions with this status (repeatable)",
+      collectRepeatedStringOption,
+    )
+    .option(
+      "--since <date>",
+      "Only include sessions created on or after this date",
+      createDateOptionParser("--since"),
+    )
+    .option(
+      "--until <date>",
+      "Only include sessions created before this date",
+      createDateOptionParser("--until"),
+    )
+    .option(
+      "--spec-path <path>",
+      "Only include runs of this spec file and spec sessions that drafted it",
+    )
+    .option("--applied", "Only include runs whose diff was applied")
+    .option(
+      "--profile <name>",
+      "Only include sessions with an agent the orchestration profile assigns to that stage (matches agent membership, not the profile a session ran with)",
+    )
+    .option(
+      "--grep <text>",
+      "Only include sessions whose description, prompt, task, or run summary contains this text",
+    )
     .option(
       "--verbose",
       "Show expanded human detail output (requires detail scope)",
@@ -138,16 +237,21 @@ export function createListCommand(): Command {
     .allowExcessArguments(false)
     .action(async (options: ListCommandActionOptions, command: Command) => {
       const selection = parseListInspectionCommandOptions(options, command);
-      const result = await runListCommand({
-        operator: selection.operator,
-        sessionId:
-          selection.mode === "detail" ? selection.sessionId : undefined,
-        limit: selection.mode === "summary" ? selection.limit : undefined,
-        allStatuses:
-          selection.mode === "summary" ? selection.allStatuses : undefined,
-        verbose:
-          selection.mode === "detail" ? (selection.verbose ?? false) : false,
-      });
+      const result =
+        selection.mode === "detail"
+          ? await runListCommand({
+              operator: selection.operator,
+              sessionId: selection.sessionId,
+              verbose: selection.verbose ?? false,
+            })
+          : await runListCommand({
+              operator:
+                selection.mode === "summary" ? selection.operator : undefined,
+              limit: selection.limit,
+              allStatuses: selection.allStatuses,
+              filters: toListSessionFilters(selection),
+              verbose: false,
+            });
 
       if (options.json) {
         writeCommandOutput({
@@ -23,6 +23,14 @@ import { resolvePath } from "../utils/path.js";
 import { VORATIQ_MESSAGE_FILE } from "../workspace/constants.js";
 import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
 import { parseMessageExecutionCommandOptions } from "./contract.js";
+import {
+  addEventStreamOptions,
+  type EventStream,
+  type EventStreamFormat,
+  messageEventAdapter,
+  observeStageEvents,
+  openEventStream,
+} from "./events.js";
 import {
   buildMessageOperatorEnvelope,
   createSilentCliWriter,
@@ -42,6 +50,8 @@ export interface MessageCommandOptions {
   maxParallel?: number;
   extraContext?: string[];
   json?: boolean;
+  /** Receives lifecycle events alongside the transcript. */
+  events?: EventStream;
   stdout?: Pick<NodeJS.WriteStream, "write"> & { isTTY?: boolean };
   stderr?: Pick<NodeJS.WriteStream, "write"> & { isTTY?: boolean };
   writeOutput?: CommandOutputWriter;
@@ -67,6 +77,7 @@ export async function runMessageCommand(
     maxParallel,
     extraContext,
     json = false,
+    events,
     stdout,
     stderr,
     writeOutput,
@@ -110,10 +121,14 @@ export async function runMessageCommand(
     startLine.emit("Messaging…");
   }
 
-  const renderer = createMessageRenderer({
-    stdout: rendererStdout,
-    stderr: rendererStderr,
-  });
+  const renderer = observeStageEvents(
+    createMessageRenderer({
+      stdout: rendererStdout,
+      stderr: rendererStderr,
+    }),
+    messageEventAdapter,
+    events,
+  );
 
   const envLineage = await resolveInteractiveSessionEnvLineage({
     root,
@@ -193,10 +208,12 @@ interface MessageCommandActionOptions {
   maxParallel?: number;
   extraContext?: string[];
   json?: boolean;
+  events?: EventStreamFormat;
+  eventsFile?: string;
 }
 
 export function createMessageCommand(): Command {
-  return new Command("message")
+  const command = new Command("message")
     .description("Send an isolated prompt to one or more agents")
     .requiredOption("--prompt <text>", "Prompt to send")
     .addOption(
@@ -221,18 +238,32 @@ export function createMessageCommand(): Command {
         .default([], "")
         .argParser(collectRepeatedStringOption),
     )
-    .option("--json", "Emit a machine-readable result envelope")
+    .option("--json", "Emit a machine-readable result envelope");
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
     .action(async (options: MessageCommandActionOptions, command: Command) => {
       const input = parseMessageExecutionCommandOptions(options, command);
-      const result = await runMessageCommand({
-        prompt: input.prompt,
-        agentIds: input.agentIds,
-        profile: input.profile,
-        maxParallel: input.maxParallel,
-        extraContext: input.extraContext,
-        json: Boolean(options.json),
-      });
+      const events = openEventStream(options, command);
+      const quiet = Boolean(options.json) || events?.ownsStdout === true;
+      let result: MessageCommandResult;
+      try {
+        result = await runMessageCommand({
+          prompt: input.prompt,
+          agentIds: input.agentIds,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          extraContext: input.extraContext,
+          json: quiet,
+          events,
+        });
+      } finally {
+        events?.close();
+      }
+      if (events?.ownsStdout) {
+        process.exitCode = result.status === "succeeded" ? 0 : 1;
+        return;
+      }
 
       if (options.json) {
         writeOperatorResultEnvelope(
@@ -151,6 +151,8 @@ export interface VerifyEnvelopeInput {
   target: {
     kind: "spec" | "run" | "reduce" | "message";
     sessionId: string;
+    /** Runs judged together, when there are several. */
+    runs?: readonly { sessionId: string; candidateIds: readonly string[] }[];
   };
   outputPath: string;
   status: VerificationStatus | "unresolved";
@@ -161,7 +163,7 @@ export interface VerifyEnvelopeInput {
 
 export interface ReduceEnvelopeInput {
   reductionId: string;
-  target: ReductionTarget;
+  targets: readonly ReductionTarget[];
   status: ReductionStatus;
 }
 
@@ -179,6 +181,7 @@ export interface ApplyEnvelopeInput {
   agentId: string;
   diffPath: string;
   ignoredBaseMismatch: boolean;
+  conflictedPaths?: readonly string[];
 }
 
 export function buildOperatorEnvelope(options: {
@@ -317,7 +320,14 @@ export function buildVerifyOperatorEnvelope(
   };
 
   if (options.target.kind === "run") {
-    ids.runId = options.target.sessionId;
+    // With several runs, point at the run that produced the selected agent.
+    const selection = options.selection;
+    ids.runId =
+      (selection?.state === "resolvable"
+        ? options.target.runs?.find((run) =>
+            run.candidateIds.includes(selection.selectedCanonicalAgentId),
+          )?.sessionId
+        : undefined) ?? options.target.sessionId;
   }
   if (options.target.kind === "reduce") {
     ids.reductionId = options.target.sessionId;
@@ -389,17 +399,20 @@ export function buildReduceOperatorEnvelope(
     sessionId: options.reductionId,
   };
 
-  if (options.target.type === "run") {
-    ids.runId = options.target.id;
-  }
-  if (options.target.type === "verify") {
-    ids.verificationId = options.target.id;
-  }
-  if (options.target.type === "reduce") {
-    ids.reductionId = options.target.id;
-  }
-  if (options.target.type === "message") {
-    ids.messageId = options.target.id;
+  // `ids` holds one id per kind, so the first target of each kind wins.
+  for (const target of options.targets) {
+    if (target.type === "run") {
+      ids.runId ??= target.id;
+    }
+    if (target.type === "verify") {
+      ids.verificationId ??= target.id;
+    }
+    if (target.type === "reduce") {
+      ids.reductionId ??= target.id;
+    }
+    if (target.type === "message") {
+      ids.messageId ??= target.id;
+    }
   }
 
   return buildOperatorEnvelope({
@@ -412,11 +425,11 @@ export function buildReduceOperatorEnvelope(
         role: "session",
         path: getReductionSessionDirectoryPath(options.reductionId),
       },
-      {
-        kind: options.target.type,
-        role: "input",
-        path: getReductionSourcePath(options.target),
-      },
+      ...options.targets.map((target) => ({
+        kind: target.type,
+        role: "input" as const,
+        path: getReductionSourcePath(target),
+      })),
     ],
   });
 }
@@ -507,6 +520,21 @@ export function buildSwarmSessionAcknowledgementEnvelope(options: {
 export function buildApplyOperatorEnvelope(
   options: ApplyEnvelopeInput,
 ): OperatorResultEnvelope {
+  const alerts: NonNullable<OperatorResultEnvelope["alerts"]> = [];
+  if (options.ignoredBaseMismatch) {
+    alerts.push({
+      level: "warn",
+      message: "Apply proceeded despite a base mismatch.",
+    });
+  }
+  const conflictedPaths = options.conflictedPaths ?? [];
+  if (conflictedPaths.length > 0) {
+    alerts.push({
+      level: "warn",
+      message: `Apply left conflict markers in: ${conflictedPaths.join(", ")}.`,
+    });
+  }
+
   return buildOperatorEnvelope({
     operator: "apply",
     status: "succeeded",
@@ -527,14 +555,7 @@ export function buildApplyOperatorEnvelope(
         agentId: options.agentId,
       },
     ],
-    alerts: options.ignoredBaseMismatch
-      ? [
-          {
-            level: "warn",
-            message: "Apply proceeded despite a base mismatch.",
-          },
-        ]
-      : undefined,
+    alerts,
   });
 }
 
@@ -1,8 +1,12 @@
-import { parsePositiveInteger } from "../utils/validators.js";
+import { ValidationError } from "../utils/errors.js";
+import {
+  parsePositiveInteger,
+  parsePositiveNumber,
+} from "../utils/validators.js";
 
 export function collectRepeatedStringOption(
   value: string,
-  previous: string[],
+  previous: string[] = [],
 ): string[] {
   return [...previous, value];
 }
@@ -14,3 +18,23 @@ export function parseMaxParallelOption(value: string): number {
     "--max-parallel must be greater than 0",
   );
 }
+
+export function parseMaxCostOption(value: string): number {
+  return parsePositiveNumber(
+    value,
+    "Expected USD amount after --max-cost",
+    "--max-cost must be greater than 0",
+  );
+}
+
+export function createDateOptionParser(flag: string): (value: string) => Date {
+  return (value: string): Date => {
+    const timestamp = Date.parse(value.trim());
+    if (Number.isNaN(timestamp)) {
+      throw new ValidationError(
+        `Expected a date such as \`2025-10-01\` or an ISO timestamp after ${flag}`,
+      );
+    }
+    return new Date(timestamp);
+  };
+}
@@ -0,0 +1,168 @@
+import { Command } from "commander";
+
+import {
+  executePruneCommand,
+  PRUNABLE_STATUSES,
+  type PrunableStatus,
+  type PruneCommandResult,
+  type PruneRules,
+} from "../commands/prune/command.js";
+import { resolveCliContext } from "../preflight/index.js";
+import { renderPruneTranscript } from "../render/transcripts/prune.js";
+import { ValidationError } from "../utils/errors.js";
+import { parsePositiveInteger } from "../utils/validators.js";
+import {
+  VORATIQ_MESSAGE_FILE,
+  VORATIQ_REDUCTION_FILE,
+  VORATIQ_VERIFICATION_FILE,
+} from "../workspace/constants.js";
+import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
+import { type Alert, writeCommandOutput } from "./output.js";
+
+export interface PruneCommandOptions {
+  rules: PruneRules;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+export interface PruneCommandOutput {
+  result: PruneCommandResult;
+  alerts: Alert[];
+  body: string;
+}
+
+export async function runPruneCommand(
+  options: PruneCommandOptions,
+): Promise<PruneCommandOutput> {
+  const { root, workspacePaths } = await resolveCliContext();
+
+  const result = await executePruneCommand({
+    root,
+    runsFilePath: workspacePaths.runsFile,
+    reductionsFilePath:
+      workspacePaths.reductionsFile ??
+      resolveWorkspacePath(root, VORATIQ_REDUCTION_FILE),
+    verificationsFilePath:
+      workspacePaths.verificationsFile ??
+      resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
+    messagesFilePath:
+      workspacePaths.messagesFile ??
+      resolveWorkspacePath(root, VORATIQ_MESSAGE_FILE),
+    rules: options.rules,
+    force: options.force,
+    dryRun: options.dryRun,
+  });
+
+  const alerts: Alert[] = result.warnings.map((warning) => ({
+    severity: "warn",
+    message: warning,
+  }));
+
+  return { result, alerts, body: renderPruneTranscript(result) };
+}
+
+interface PruneCommandActionOptions {
+  olderThan?: number;
+  keepLast?: number;
+  status?: PrunableStatus[];
+  keepApplied?: boolean;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+const DURATION_UNIT_MS = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+function parseOlderThanOption(value: string): number {
+  const match = /^(\d+)([mhdw])$/u.exec(value.trim());
+  const amount = match ? Number.parseInt(match[1] ?? "", 10) : Number.NaN;
+  if (!match || !Number.isInteger(amount) || amount <= 0) {
+    throw new ValidationError(
+      "Expected a duration such as `30d`, `12h`, or `2w` after --older-than",
+    );
+  }
+  return amount * DURATION_UNIT_MS[match[2] as keyof typeof DURATION_UNIT_MS];
+}
+
+function parseKeepLastOption(value: string): number {
+  return parsePositiveInteger(
+    value,
+    "Expected positive integer after --keep-last",
+    "--keep-last must be greater than 0",
+  );
+}
+
+function parseStatusOption(value: string): PrunableStatus[] {
+  const statuses = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  const unknown = statuses.filter(
+    (status) => !(PRUNABLE_STATUSES as readonly string[]).includes(status),
+  );
+  if (statuses.length === 0 || unknown.length > 0) {
+    throw new ValidationError(
+      `--status accepts a comma-separated list of: ${PRUNABLE_STATUSES.join(", ")}`,
+    );
+  }
+  return statuses as PrunableStatus[];
+}
+
+export function createPruneCommand(): Command {
+  return new Command("prune")
+    .description("Delete recorded sessions and their workspaces")
+    .option(
+      "--older-than <duration>",
+      "Prune sessions created before this age (e.g. `30d`, `12h`, `2w`)",
+      parseOlderThanOption,
+    )
+    .option(
+      "--keep-last <count>",
+      "Keep the N most recent sessions of each operator",
+      parseKeepLastOption,
+    )
+    .option(
+      "--status <statuses>",
+      "Prune only sessions in these statuses (comma-separated)",
+      parseStatusOption,
+    )
+    .option("--keep-applied", "Keep runs whose diff was applied")
+    .option(
+      "--force",
+      "Prune sessions even when a later reduce or verify session reads them",
+    )
+    .option("--dry-run", "Show what would be pruned without deleting anything")
+    .allowExcessArguments(false)
+    .action(async (options: PruneCommandActionOptions, command: Command) => {
+      if (
+        options.olderThan === undefined &&
+        options.keepLast === undefined &&
+        options.status === undefined
+      ) {
+        command.error(
+          "error: at least one retention rule is required: `--older-than`, `--keep-last`, or `--status`",
+          { exitCode: 1 },
+        );
+      }
+
+      const output = await runPruneCommand({
+        rules: {
+          olderThanMs: options.olderThan,
+          keepLast: options.keepLast,
+          statuses: options.status,
+          keepApplied: Boolean(options.keepApplied),
+        },
+        force: Boolean(options.force),
+        dryRun: Boolean(options.dryRun),
+      });
+
+      writeCommandOutput({
+        body: output.body,
+        alerts: output.alerts,
+      });
+    });
+}
@@ -13,9 +13,10 @@ import {
   readReductionArtifact,
   type ReductionArtifact,
 } from "../domain/reduce/competition/reduction.js";
-import type {
-  ReductionRecord,
-  ReductionTarget,
+import {
+  getReductionTargets,
+  type ReductionRecord,
+  type ReductionTarget,
 } from "../domain/reduce/model/types.js";
 import { readReductionRecords } from "../domain/reduce/persistence/adapter.js";
 import {
@@ -40,7 +41,18 @@ import {
   VORATIQ_VERIFICATION_FILE,
 } from "../workspace/constants.js";
 import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
-import { parseReduceExecutionCommandOptions } from "./contract.js";
+import {
+  parseReduceExecutionCommandOptions,
+  resolveExternalReduceTargets,
+} from "./contract.js";
+import {
+  addEventStreamOptions,
+  type EventStream,
+  type EventStreamFormat,
+  observeStageEvents,
+  openEventStream,
+  reduceEventAdapter,
+} from "./events.js";
 import {
   buildReduceOperatorEnvelope,
   createSilentCliWriter,
@@ -55,13 +67,15 @@ import { writeCommandOutput } from "./output.js";
 import { promptForRepositoryLinkIfNeeded } from "./repository-link.js";
 
 export interface ReduceCommandOptions {
-  target: ReductionTarget;
+  targets: readonly ReductionTarget[];
   agentIds?: string[];
   agentOverrideFlag?: string;
   profile?: string;
   maxParallel?: number;
   extraContext?: string[];
   json?: boolean;
+  /** Receives lifecycle events alongside the transcript. */
+  events?: EventStream;
   suppressHint?: boolean;
   writeOutput?: CommandOutputWriter;
   stdout?: Pick<NodeJS.WriteStream, "write"> & { isTTY?: boolean };
@@ -71,7 +85,9 @@ export interface ReduceCommandOptions {
 export interface ReduceCommandResult {
   reductionId: string;
   status: ReductionRecord["status"];
-  target: ReductionTarget;
+  targets: readonly ReductionTarget[];
+  /** Repo-relative `reduction.md` paths of the reducers that succeeded. */
+  outputPaths: readonly string[];
   body: string;
   exitCode?: number;
 }
@@ -80,13 +96,14 @@ export async function runReduceCommand(
   options: ReduceCommandOptions,
 ): Promise<ReduceCommandResult> {
   const {
-    target,
+    targets,
     agentIds,
     agentOverrideFlag,
     profile,
     maxParallel,
     extraContext,
     json = false,
+    events,
     suppressHint,
     writeOutput,
     stdout,
@@ -117,10 +134,14 @@ export async function runReduceCommand(
     startLine.emit("Reducing artifacts…");
   }
 
-  const renderer = createReduceRenderer({
-    stdout: rendererStdout,
-    stderr: rendererStderr,
-  });
+  const renderer = observeStageEvents(
+    createReduceRenderer({
+      stdout: rendererStdout,
+      stderr: rendererStderr,
+    }),
+    reduceEventAdapter,
+    events,
+  );
 
   const execution = await executeReduceCommand({
     root,
@@ -134,7 +155,7 @@ export async function runReduceCommand(
     verificationsFilePath:
       workspacePaths.verificationsFile ??
       resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
-    target,
+    targets,
     agentIds,
     agentOverrideFlag,
     profileName: profile,
@@ -236,7 +257,10 @@ export async function runReduceCommand(
   return {
     reductionId: execution.reductionId,
     status: record.status,
-    target: record.target,
+    targets: getReductionTargets(record),
+    outputPaths: record.reducers
+      .filter((reducer) => reducer.status === "succeeded")
+      .map((reducer) => reducer.outputPath),
     body,
     exitCode: record.status === "succeeded" ? 0 : 1,
   };
@@ -263,27 +287,50 @@ function formatReductionSnippet(reduction: ReductionArtifact): string {
 }
 
 interface ReduceCommandActionOptions {
-  spec?: string;
-  run?: string;
-  verify?: string;
-  reduce?: string;
-  message?: string;
+  spec?: string[];
+  run?: string[];
+  verify?: string[];
+  reduce?: string[];
+  message?: string[];
   agent?: string[];
   profile?: string;
   maxParallel?: number;
   extraContext?: string[];
   json?: boolean;
+  events?: EventStreamFormat;
+  eventsFile?: string;
 }
 
 export function createReduceCommand(): Command {
-  return new Command("reduce")
+  const command = new Command("reduce")
     .description("Reduce artifact sets into a summarized form")
-    .addOption(new Option("--spec <spec-id>", "Spec to reduce"))
-    .addOption(new Option("--run <run-id>", "Run to reduce"))
-    .addOption(new Option("--reduce <reduce-id>", "Reduction to reduce"))
-    .addOption(new Option("--verify <verify-id>", "Verification to reduce"))
     .addOption(
-      new Option("--message <message-id>", "Message session to reduce"),
+      new Option("--spec <spec-id>", "Spec to reduce (repeatable)").argParser(
+        collectRepeatedStringOption,
+      ),
+    )
+    .addOption(
+      new Option("--run <run-id>", "Run to reduce (repeatable)").argParser(
+        collectRepeatedStringOption,
+      ),
+    )
+    .addOption(
+      new Option(
+        "--reduce <reduce-id>",
+        "Reduction to reduce (repeatable)",
+      ).argParser(collectRepeatedStringOption),
+    )
+    .addOption(
+      new Option(
+        "--verify <verify-id>",
+        "Verification to reduce (repeatable)",
+      ).argParser(collectRepeatedStringOption),
+    )
+    .addOption(
+      new Option(
+        "--message <message-id>",
+        "Message session to reduce (repeatable)",
+      ).argParser(collectRepeatedStringOption),
     )
     .addOption(
       new Option(
@@ -307,25 +354,39 @@ export function createReduceCommand(): Command {
         .default([], "")
         .argParser(collectRepeatedStringOption),
     )
-    .option("--json", "Emit a machine-readable result envelope")
+    .option("--json", "Emit a machine-readable result envelope");
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
     .action(async (options: ReduceCommandActionOptions, command: Command) => {
       const input = parseReduceExecutionCommandOptions(options, command);
-      const result = await runReduceCommand({
-        target: input.target,
-        agentIds: input.agentIds,
-        profile: input.profile,
-        maxParallel: input.maxParallel,
-        extraContext: input.extraContext,
-        json: Boolean(options.json),
-        writeOutput: options.json ? undefined : writeCommandOutput,
-      });
+      const events = openEventStream(options, command);
+      const quiet = Boolean(options.json) || events?.ownsStdout === true;
+      let result: ReduceCommandResult;
+      try {
+        result = await runReduceCommand({
+          targets: resolveExternalReduceTargets(input),
+          agentIds: input.agentIds,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          extraContext: input.extraContext,
+          json: quiet,
+          events,
+          writeOutput: quiet ? undefined : writeCommandOutput,
+        });
+      } finally {
+        events?.close();
+      }
+      if (events?.ownsStdout) {
+        process.exitCode = result.exitCode;
+        return;
+      }
 
       if (options.json) {
         writeOperatorResultEnvelope(
           buildReduceOperatorEnvelope({
             reductionId: result.reductionId,
-            target: result.target,
+            targets: result.targets,
             status: result.status,
           }),
           result.exitCode,
@@ -5,8 +5,13 @@ import { Command, Option } from "commander";
 import { checkPlatformSupport } from "../agents/runtime/sandbox.js";
 import { createAppWorkflowUploadWarningBuffer } from "../app-session/workflow-upload.js";
 import { executeRunCommand } from "../commands/run/command.js";
+import { executeRunResumeCommand } from "../commands/run/resume.js";
+import {
+  type CostBudget,
+  createCostBudget,
+} from "../competition/shared/cost-budget.js";
 import { resolveExtraContextFiles } from "../competition/shared/extra-context.js";
-import type { RunReport } from "../domain/run/model/types.js";
+import type { RunRepairSource, RunReport } from "../domain/run/model/types.js";
 import { checkoutOrCreateBranch } from "../preflight/branch.js";
 import {
   ensureCleanWorkingTree,
@@ -18,7 +23,18 @@ import { createRunRenderer } from "../render/transcripts/run.js";
 import { renderWorkspaceAutoInitializedNotice } from "../render/transcripts/shared.js";
 import { createStageStartLineEmitter } from "../render/utils/stage-output.js";
 import { mapRunStatusToExitCode } from "../status/index.js";
-import { parseRunExecutionCommandOptions } from "./contract.js";
+import {
+  parseRunExecutionCommandOptions,
+  parseRunResumeCommandOptions,
+} from "./contract.js";
+import {
+  addEventStreamOptions,
+  type EventStream,
+  type EventStreamFormat,
+  observeStageEvents,
+  openEventStream,
+  runEventAdapter,
+} from "./events.js";
 import {
   buildRunOperatorEnvelope,
   createSilentCliWriter,
@@ -26,6 +42,7 @@ import {
 } from "./operator-envelope.js";
 import {
   collectRepeatedStringOption,
+  parseMaxCostOption,
   parseMaxParallelOption,
 } from "./option-parsers.js";
 import type { CommandOutputWriter } from "./output.js";
@@ -33,14 +50,31 @@ import { writeCommandOutput } from "./output.js";
 import { promptForRepositoryLinkIfNeeded } from "./repository-link.js";
 
 export interface RunCommandOptions {
-  specPath: string;
+  specPath?: string;
+  /** Resume this run instead of starting one from `specPath`. */
+  resumeRunId?: string;
+  /** Resume even if the run still looks owned by a live process. */
+  force?: boolean;
   agentIds?: string[];
   agentOverrideFlag?: string;
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
+  /** Shares one budget across stages, as `auto` does; replaces `maxCost`. */
+  costBudget?: CostBudget;
   branch?: boolean;
   extraContext?: string[];
+  /** Pins the base revision instead of reading `HEAD`. */
+  baseRevisionSha?: string;
+  /** Starts agents from this revision instead of `HEAD`. */
+  baseRef?: string;
+  /** Snapshots uncommitted tracked changes and starts agents from them. */
+  includeWorktreeChanges?: boolean;
+  /** Starts agents from an earlier run's candidate, as in auto repair rounds. */
+  repairOf?: RunRepairSource;
   json?: boolean;
+  /** Receives lifecycle events alongside the transcript. */
+  events?: EventStream;
   suppressHint?: boolean;
   suppressLeadingBlankLine?: boolean;
   suppressTrailingBlankLine?: boolean;
@@ -60,13 +94,22 @@ export async function runRunCommand(
 ): Promise<RunCommandResult> {
   const {
     specPath,
+    resumeRunId,
+    force,
     agentIds,
     agentOverrideFlag,
     profile,
     maxParallel,
+    maxCost,
+    costBudget = maxCost !== undefined ? createCostBudget(maxCost) : undefined,
     branch,
     extraContext,
+    baseRevisionSha,
+    baseRef,
+    includeWorktreeChanges = false,
+    repairOf,
     json = false,
+    events,
     suppressHint,
     suppressLeadingBlankLine,
     suppressTrailingBlankLine,
@@ -101,15 +144,22 @@ export async function runRunCommand(
 
   checkPlatformSupport();
   ensureSandboxDependencies();
-  await ensureCleanWorkingTree(root);
-  const { absolutePath, displayPath } = await ensureSpecPath(specPath, root);
+  if (!includeWorktreeChanges) {
+    await ensureCleanWorkingTree(root, {
+      hintLines: [
+        "Stash or commit local changes before continuing, or pass `--include-worktree-changes` to run on top of them.",
+      ],
+    });
+  }
+  const specInput =
+    specPath !== undefined ? await ensureSpecPath(specPath, root) : undefined;
   const extraContextFiles = await resolveExtraContextFiles({
     root,
     paths: extraContext,
   });
 
-  if (branch) {
-    const branchName = deriveBranchNameFromSpecPath(displayPath);
+  if (branch && specInput) {
+    const branchName = deriveBranchNameFromSpecPath(specInput.displayPath);
     await checkoutOrCreateBranch(root, branchName);
   }
 
@@ -119,15 +169,23 @@ export async function runRunCommand(
         alerts: [{ severity: "info", message }],
       });
     });
-    startLine.emit("Executing run…");
+    startLine.emit(
+      resumeRunId === undefined
+        ? "Executing run…"
+        : `Resuming run \`${resumeRunId}\`…`,
+    );
   }
 
-  const renderer = createRunRenderer({
-    stdout: renderTargetStdout,
-    stderr: renderTargetStderr,
-    suppressLeadingBlankLine,
-    suppressTrailingBlankLine,
-  });
+  const renderer = observeStageEvents(
+    createRunRenderer({
+      stdout: renderTargetStdout,
+      stderr: renderTargetStderr,
+      suppressLeadingBlankLine,
+      suppressTrailingBlankLine,
+    }),
+    runEventAdapter,
+    events,
+  );
   const appWorkflowWarningBuffer = renderTargetStdout.isTTY
     ? createAppWorkflowUploadWarningBuffer()
     : undefined;
@@ -135,19 +193,39 @@ export async function runRunCommand(
 
   let report: RunReport;
   try {
-    report = await executeRunCommand({
-      root,
-      runsFilePath: workspacePaths.runsFile,
-      specsFilePath: workspacePaths.specsFile,
-      specAbsolutePath: absolutePath,
-      specDisplayPath: displayPath,
-      agentIds,
-      agentOverrideFlag,
-      profileName: profile,
-      maxParallel,
-      extraContextFiles,
-      renderer,
-    });
+    if (resumeRunId !== undefined) {
+      report = await executeRunResumeCommand({
+        root,
+        runsFilePath: workspacePaths.runsFile,
+        specsFilePath: workspacePaths.specsFile,
+        runId: resumeRunId,
+        maxParallel,
+        costBudget,
+        force,
+        renderer,
+      });
+    } else if (specInput) {
+      report = await executeRunCommand({
+        root,
+        runsFilePath: workspacePaths.runsFile,
+        specsFilePath: workspacePaths.specsFile,
+        specAbsolutePath: specInput.absolutePath,
+        specDisplayPath: specInput.displayPath,
+        agentIds,
+        agentOverrideFlag,
+        profileName: profile,
+        maxParallel,
+        costBudget,
+        extraContextFiles,
+        baseRevisionSha,
+        baseRef,
+        includeWorktreeChanges,
+        repairOf,
+        renderer,
+      });
+    } else {
+      throw new Error("Run requires either `specPath` or `resumeRunId`.");
+    }
   } catch (error) {
     flushAppWorkflowUploadWarnings(
       renderTargetStderr,
@@ -198,19 +276,34 @@ function flushAppWorkflowUploadWarnings(
 }
 
 interface RunCommandActionOptions {
-  spec: string;
+  spec?: string;
+  resume?: string;
+  force?: boolean;
   agent?: string[];
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
   branch?: boolean;
+  base?: string;
+  includeWorktreeChanges?: boolean;
   extraContext?: string[];
   json?: boolean;
+  events?: EventStreamFormat;
+  eventsFile?: string;
 }
 
 export function createRunCommand(): Command {
-  return new Command("run")
+  const command = new Command("run")
     .description("Execute agents against a spec")
-    .requiredOption("--spec <path>", "Path to the spec file")
+    .option("--spec <path>", "Path to the spec file")
+    .option(
+      "--resume <run-id>",
+      "Resume an interrupted run, re-queueing agents that did not finish",
+    )
+    .option(
+      "--force",
+      "With --resume, skip the check that the run's owner process has exited",
+    )
     .addOption(
       new Option(
         "--agent <agent-id>",
@@ -225,7 +318,17 @@ export function createRunCommand(): Command {
       "Max concurrent agents (default: all)",
       parseMaxParallelOption,
     )
+    .option(
+      "--max-cost <usd>",
+      "Stop starting agents once their priced cost reaches this USD amount",
+      parseMaxCostOption,
+    )
     .option("--branch", "Create or checkout a branch named after the spec")
+    .option("--base <ref>", "Start agents from this revision instead of HEAD")
+    .option(
+      "--include-worktree-changes",
+      "Start agents from a snapshot of uncommitted tracked changes",
+    )
     .addOption(
       new Option(
         "--extra-context <path>",
@@ -234,22 +337,52 @@ export function createRunCommand(): Command {
         .default([], "")
         .argParser(collectRepeatedStringOption),
     )
-    .option("--json", "Emit a machine-readable result envelope")
+    .option("--json", "Emit a machine-readable result envelope");
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
     .action(async (options: RunCommandActionOptions, command: Command) => {
-      const input = parseRunExecutionCommandOptions(options, command);
-      const runOptions: RunCommandOptions = {
-        specPath: input.specPath,
-        agentIds: input.agentIds,
-        profile: input.profile,
-        maxParallel: input.maxParallel,
-        branch: input.branch,
-        extraContext: input.extraContext,
-        json: Boolean(options.json),
-        writeOutput: options.json ? undefined : writeCommandOutput,
-      };
+      let runOptions: RunCommandOptions;
+      if (options.resume !== undefined) {
+        const input = parseRunResumeCommandOptions(options, command);
+        runOptions = {
+          resumeRunId: input.sessionId,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          force: input.force,
+        };
+      } else {
+        const input = parseRunExecutionCommandOptions(options, command);
+        runOptions = {
+          specPath: input.specPath,
+          agentIds: input.agentIds,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          branch: input.branch,
+          baseRef: input.base,
+          includeWorktreeChanges: input.includeWorktreeChanges,
+          extraContext: input.extraContext,
+        };
+      }
 
-      const result = await runRunCommand(runOptions);
+      const events = openEventStream(options, command);
+      const quiet = Boolean(options.json) || events?.ownsStdout === true;
+      let result: RunCommandResult;
+      try {
+        result = await runRunCommand({
+          ...runOptions,
+          json: quiet,
+          events,
+          writeOutput: quiet ? undefined : writeCommandOutput,
+        });
+      } finally {
+        events?.close();
+      }
+      if (events?.ownsStdout) {
+        process.exitCode = result.exitCode;
+        return;
+      }
       if (options.json) {
         writeOperatorResultEnvelope(
           buildRunOperatorEnvelope({
@@ -1,8 +1,11 @@
+import { readFile } from "node:fs/promises";
+
 import { Command, Option } from "commander";
 
 import { checkPlatformSupport } from "../agents/runtime/sandbox.js";
 import { buildMarkdownPreviewLines } from "../commands/shared/preview.js";
 import { executeSpecCommand } from "../commands/spec/command.js";
+import type { CostBudget } from "../competition/shared/cost-budget.js";
 import { resolveExtraContextFiles } from "../competition/shared/extra-context.js";
 import { readSpecData, type SpecData } from "../domain/spec/model/output.js";
 import {
@@ -20,6 +23,14 @@ import { createStageStartLineEmitter } from "../render/utils/stage-output.js";
 import { resolvePath } from "../utils/path.js";
 import { getSpecSessionDirectoryPath } from "../workspace/session-paths.js";
 import { parseSpecExecutionCommandOptions } from "./contract.js";
+import {
+  addEventStreamOptions,
+  type EventStream,
+  type EventStreamFormat,
+  observeStageEvents,
+  openEventStream,
+  specEventAdapter,
+} from "./events.js";
 import {
   buildSpecOperatorEnvelope,
   createSilentCliWriter,
@@ -37,9 +48,15 @@ export interface SpecCommandOptions {
   agentIds?: string[];
   profile?: string;
   maxParallel?: number;
+  /** Shares one budget across stages, as `auto` does. */
+  costBudget?: CostBudget;
   title?: string;
+  /** Spec template under `.voratiq/spec/templates/` to draft against. */
+  template?: string;
   extraContext?: string[];
   json?: boolean;
+  /** Receives lifecycle events alongside the transcript. */
+  events?: EventStream;
   suppressHint?: boolean;
   suppressLeadingBlankLine?: boolean;
   suppressTrailingBlankLine?: boolean;
@@ -65,9 +82,12 @@ export async function runSpecCommand(
     agentIds,
     profile,
     maxParallel,
+    costBudget,
     title,
+    template,
     extraContext,
     json = false,
+    events,
     suppressHint,
     suppressLeadingBlankLine,
     suppressTrailingBlankLine,
@@ -111,12 +131,16 @@ export async function runSpecCommand(
     });
   });
 
-  const renderer = createSpecRenderer({
-    stdout: rendererStdout,
-    stderr: rendererStderr,
-    suppressLeadingBlankLine,
-    suppressTrailingBlankLine,
-  });
+  const renderer = observeStageEvents(
+    createSpecRenderer({
+      stdout: rendererStdout,
+      stderr: rendererStderr,
+      suppressLeadingBlankLine,
+      suppressTrailingBlankLine,
+    }),
+    specEventAdapter,
+    events,
+  );
 
   const result = await executeSpecCommand({
     root,
@@ -125,7 +149,9 @@ export async function runSpecCommand(
     agentIds,
     profileName: profile,
     maxParallel,
+    costBudget,
     title,
+    templateName: template,
     extraContextFiles,
     onStatus: (message) => {
       startLine.emit(message);
@@ -159,9 +185,15 @@ export async function runSpecCommand(
           previewLines:
             agent.status === "succeeded" && agent.dataPath
               ? buildMarkdownPreviewLines(
-                  formatSpecPreview(
-                    await readSpecData(resolvePath(root, agent.dataPath)),
-                  ),
+                  // Template drafts have no fixed JSON shape; preview the Markdown.
+                  result.record.template && agent.outputPath
+                    ? await readFile(
+                        resolvePath(root, agent.outputPath),
+                        "utf8",
+                      )
+                    : formatSpecPreview(
+                        await readSpecData(resolvePath(root, agent.dataPath)),
+                      ),
                 )
               : undefined,
           errorLine: agent.error ?? undefined,
@@ -195,8 +227,11 @@ interface SpecCommandActionOptions {
   profile?: string;
   maxParallel?: number;
   title?: string;
+  template?: string;
   extraContext?: string[];
   json?: boolean;
+  events?: EventStreamFormat;
+  eventsFile?: string;
 }
 
 function formatSpecPreview(spec: SpecData): string {
@@ -236,7 +271,7 @@ function formatSpecPreview(spec: SpecData): string {
 }
 
 export function createSpecCommand(): Command {
-  return new Command("spec")
+  const command = new Command("spec")
     .description("Generate a spec from a task description")
     .requiredOption("--description <text>", "Task description")
     .addOption(
@@ -254,6 +289,10 @@ export function createSpecCommand(): Command {
         .hideHelp(),
     )
     .option("--title <text>", "Spec title; agent infers if omitted")
+    .option(
+      "--template <name>",
+      "Draft against a template from `.voratiq/spec/templates/<name>/`",
+    )
     .addOption(
       new Option(
         "--extra-context <path>",
@@ -262,19 +301,33 @@ export function createSpecCommand(): Command {
         .default([], "")
         .argParser(collectRepeatedStringOption),
     )
-    .option("--json", "Emit a machine-readable result envelope")
+    .option("--json", "Emit a machine-readable result envelope");
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
     .action(async (options: SpecCommandActionOptions, command: Command) => {
       const input = parseSpecExecutionCommandOptions(options, command);
-      const result = await runSpecCommand({
-        description: input.description,
-        agentIds: input.agentIds,
-        profile: input.profile,
-        maxParallel: input.maxParallel,
-        title: input.title,
-        extraContext: input.extraContext,
-        json: Boolean(options.json),
-      });
+      const events = openEventStream(options, command);
+      const quiet = Boolean(options.json) || events?.ownsStdout === true;
+      let result: SpecCommandResult;
+      try {
+        result = await runSpecCommand({
+          description: input.description,
+          agentIds: input.agentIds,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          title: input.title,
+          template: input.template,
+          extraContext: input.extraContext,
+          json: quiet,
+          events,
+        });
+      } finally {
+        events?.close();
+      }
+      if (events?.ownsStdout) {
+        return;
+      }
       if (options.json) {
         writeOperatorResultEnvelope(
           buildSpecOperatorEnvelope({
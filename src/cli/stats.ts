@@ -0,0 +1,105 @@
+import { Command } from "commander";
+
+import {
+  executeStatsCommand,
+  type StatsCommandResult,
+  type StatsFilters,
+} from "../commands/stats/command.js";
+import { resolveCliContext } from "../preflight/index.js";
+import { renderStatsTranscript } from "../render/transcripts/stats.js";
+import {
+  VORATIQ_MESSAGE_FILE,
+  VORATIQ_REDUCTION_FILE,
+  VORATIQ_VERIFICATION_FILE,
+} from "../workspace/constants.js";
+import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
+import { createDateOptionParser } from "./option-parsers.js";
+import { type Alert, writeCommandOutput } from "./output.js";
+
+export interface StatsCommandOptions {
+  filters: StatsFilters;
+}
+
+export interface StatsCommandOutput {
+  result: StatsCommandResult;
+  alerts: Alert[];
+  body: string;
+}
+
+export async function runStatsCommand(
+  options: StatsCommandOptions,
+): Promise<StatsCommandOutput> {
+  const { root, workspacePaths } = await resolveCliContext();
+
+  const result = await executeStatsCommand({
+    root,
+    specsFilePath: workspacePaths.specsFile,
+    runsFilePath: workspacePaths.runsFile,
+    reductionsFilePath:
+      workspacePaths.reductionsFile ??
+      resolveWorkspacePath(root, VORATIQ_REDUCTION_FILE),
+    verificationsFilePath:
+      workspacePaths.verificationsFile ??
+      resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
+    messagesFilePath:
+      workspacePaths.messagesFile ??
+      resolveWorkspacePath(root, VORATIQ_MESSAGE_FILE),
+    filters: options.filters,
+  });
+
+  const alerts: Alert[] = result.warnings.map((warning) => ({
+    severity: "warn",
+    message: warning,
+  }));
+
+  return { result, alerts, body: renderStatsTranscript(result) };
+}
+
+interface StatsCommandActionOptions {
+  since?: Date;
+  until?: Date;
+  profile?: string;
+  json?: boolean;
+}
+
+export function createStatsCommand(): Command {
+  return new Command("stats")
+    .description("Summarize agent performance across recorded sessions")
+    .option(
+      "--since <date>",
+      "Only include sessions created on or after this date",
+      createDateOptionParser("--since"),
+    )
+    .option(
+      "--until <date>",
+      "Only include sessions created before this date",
+      createDateOptionParser("--until"),
+    )
+    .option(
+      "--profile <name>",
+      "Only include the agents an orchestration profile assigns to each stage (matches agent membership, not the profile a session ran with)",
+    )
+    .option("--json", "Emit machine-readable stats output")
+    .allowExcessArguments(false)
+    .action(async (options: StatsCommandActionOptions, command: Command) => {
+      if (options.since && options.until && options.since >= options.until) {
+        command.error("error: `--since` must be earlier than `--until`", {
+          exitCode: 1,
+        });
+      }
+
+      const output = await runStatsCommand({
+        filters: {
+          since: options.since,
+          until: options.until,
+          profile: options.profile,
+        },
+      });
+
+      if (options.json) {
+        writeCommandOutput({ body: JSON.stringify(output.result) });
+        return;
+      }
+      writeCommandOutput({ body: output.body, alerts: output.alerts });
+    });
+}
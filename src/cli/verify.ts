@@ -5,10 +5,17 @@ import { Command, Option } from "commander";
 import { checkPlatformSupport } from "../agents/runtime/sandbox.js";
 import { buildMarkdownPreviewLines } from "../commands/shared/preview.js";
 import { executeVerifyCommand } from "../commands/verify/command.js";
+import { executeVerifyResumeCommand } from "../commands/verify/resume.js";
 import type { VerifyTargetSelection } from "../commands/verify/targets.js";
+import {
+  type CostBudget,
+  createCostBudget,
+} from "../competition/shared/cost-budget.js";
 import { resolveExtraContextFiles } from "../competition/shared/extra-context.js";
+import type { ProgrammaticCheckResult } from "../configs/verification/methods.js";
 import { isBlindedCandidateAlias } from "../domain/verify/blinding/aliases.js";
 import {
+  findRunVerificationCandidateRunId,
   type VerificationMethodResultRef,
   type VerificationRecord,
   verificationResultArtifactSchema,
@@ -51,7 +58,19 @@ import {
   VORATIQ_VERIFICATION_SESSIONS_DIR,
 } from "../workspace/constants.js";
 import { resolveWorkspacePath } from "../workspace/path-resolvers.js";
-import { parseVerifyExecutionCommandOptions } from "./contract.js";
+import {
+  parseVerifyExecutionCommandOptions,
+  parseVerifyResumeCommandOptions,
+} from "./contract.js";
+import {
+  addEventStreamOptions,
+  emitSelectionDecided,
+  type EventStream,
+  type EventStreamFormat,
+  observeStageEvents,
+  openEventStream,
+  verifyEventAdapter,
+} from "./events.js";
 import {
   buildVerifyOperatorEnvelope,
   createSilentCliWriter,
@@ -59,6 +78,7 @@ import {
 } from "./operator-envelope.js";
 import {
   collectRepeatedStringOption,
+  parseMaxCostOption,
   parseMaxParallelOption,
 } from "./option-parsers.js";
 import type { CommandOutputWriter } from "./output.js";
@@ -66,13 +86,22 @@ import { writeCommandOutput } from "./output.js";
 import { promptForRepositoryLinkIfNeeded } from "./repository-link.js";
 
 export interface VerifyCommandOptions {
-  target: VerifyTargetSelection;
+  target?: VerifyTargetSelection;
+  /** Resume this verification instead of starting one against `target`. */
+  resumeVerificationId?: string;
+  /** Resume even if the verification still looks owned by a live process. */
+  force?: boolean;
   agentIds?: string[];
   agentOverrideFlag?: string;
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
+  /** Shares one budget across stages, as `auto` does; replaces `maxCost`. */
+  costBudget?: CostBudget;
   extraContext?: string[];
   json?: boolean;
+  /** Receives lifecycle events alongside the transcript. */
+  events?: EventStream;
   suppressHint?: boolean;
   stdout?: Pick<NodeJS.WriteStream, "write"> & { isTTY?: boolean };
   stderr?: Pick<NodeJS.WriteStream, "write"> & { isTTY?: boolean };
@@ -121,12 +150,17 @@ export async function runVerifyCommand(
 ): Promise<VerifyCommandResult> {
   const {
     target,
+    resumeVerificationId,
+    force,
     agentIds,
     agentOverrideFlag,
     profile,
     maxParallel,
+    maxCost,
+    costBudget = maxCost !== undefined ? createCostBudget(maxCost) : undefined,
     extraContext,
     json = false,
+    events,
     suppressHint,
     stdout,
     stderr,
@@ -154,17 +188,24 @@ export async function runVerifyCommand(
     });
   });
   if (effectiveWriteOutput) {
-    startLine.emit("Verifying…");
+    startLine.emit(
+      resumeVerificationId === undefined
+        ? "Verifying…"
+        : `Resuming verification \`${resumeVerificationId}\`…`,
+    );
   }
 
-  const renderer = createVerifyRenderer({
-    stdout: rendererStdout,
-    stderr: rendererStderr,
-  });
+  const renderer = observeStageEvents(
+    createVerifyRenderer({
+      stdout: rendererStdout,
+      stderr: rendererStderr,
+    }),
+    verifyEventAdapter,
+    events,
+  );
   const isTty = json ? false : (stdout?.isTTY ?? process.stdout.isTTY);
 
-  const execution = await executeVerifyCommand({
-    root,
+  const recordPaths = {
     specsFilePath: workspacePaths.specsFile,
     runsFilePath: workspacePaths.runsFile,
     reductionsFilePath:
@@ -176,14 +217,36 @@ export async function runVerifyCommand(
     verificationsFilePath:
       workspacePaths.verificationsFile ??
       resolveWorkspacePath(root, VORATIQ_VERIFICATION_FILE),
-    target,
-    agentIds,
-    agentOverrideFlag,
-    profileName: profile,
-    maxParallel,
-    extraContextFiles,
-    renderer,
-  });
+  };
+  let execution: Awaited<ReturnType<typeof executeVerifyCommand>>;
+  if (resumeVerificationId !== undefined) {
+    execution = await executeVerifyResumeCommand({
+      root,
+      ...recordPaths,
+      verificationId: resumeVerificationId,
+      maxParallel,
+      costBudget,
+      force,
+      renderer,
+    });
+  } else if (target) {
+    execution = await executeVerifyCommand({
+      root,
+      ...recordPaths,
+      target,
+      agentIds,
+      agentOverrideFlag,
+      profileName: profile,
+      maxParallel,
+      costBudget,
+      extraContextFiles,
+      renderer,
+    });
+  } else {
+    throw new Error(
+      "Verify requires either `target` or `resumeVerificationId`.",
+    );
+  }
 
   const methodBlocks = await Promise.all(
     execution.record.methods.map(async (method) => {
@@ -217,6 +280,13 @@ export async function runVerifyCommand(
     ].join("\n");
     return undefined;
   });
+  if (selection) {
+    emitSelectionDecided(events, {
+      operator: "verify",
+      sessionId: execution.verificationId,
+      decision: selection.decision,
+    });
+  }
   const selectionWarnings = (selection?.warnings ?? []).map(
     (warning) => `Warning: ${warning}`,
   );
@@ -252,6 +322,13 @@ export async function runVerifyCommand(
     selection.decision.state === "resolvable"
       ? selection.decision.selectedCanonicalAgentId
       : undefined;
+  const recommendedRunId =
+    execution.record.target.kind === "run" && recommendedRunAgent
+      ? (findRunVerificationCandidateRunId(
+          execution.record.target,
+          recommendedRunAgent,
+        ) ?? execution.record.target.sessionId)
+      : undefined;
 
   const hintMessage =
     suppressHint ||
@@ -260,7 +337,7 @@ export async function runVerifyCommand(
     execution.record.status !== "succeeded" ||
     selection?.decision.state !== "resolvable"
       ? undefined
-      : `To apply a solution:\n  voratiq apply --run ${execution.record.target.sessionId} --agent ${recommendedRunAgent}`;
+      : `To apply a solution:\n  voratiq apply --run ${recommendedRunId} --agent ${recommendedRunAgent}`;
 
   const outputPath = normalizePathForDisplay(
     relativeToRoot(
@@ -295,6 +372,14 @@ export async function runVerifyCommand(
     target: execution.record.target,
     status: displayStatus,
     methods: methodBlocks,
+    ...(selection?.input.criteria
+      ? {
+          criteria: {
+            candidateIds: selection.input.canonicalCandidateIds,
+            verdicts: selection.input.criteria,
+          },
+        }
+      : {}),
     suppressHint,
     ...(warningMessage ? { warningMessage } : {}),
     hintMessage,
@@ -328,15 +413,20 @@ interface VerifyCommandActionOptions {
   run?: string;
   reduce?: string;
   message?: string;
+  resume?: string;
+  force?: boolean;
   agent?: string[];
   profile?: string;
   maxParallel?: number;
+  maxCost?: number;
   extraContext?: string[];
   json?: boolean;
+  events?: EventStreamFormat;
+  eventsFile?: string;
 }
 
 export function createVerifyCommand(): Command {
-  return new Command("verify")
+  const command = new Command("verify")
     .description("Verify a recorded spec, run, reduction, or message session")
     .addOption(new Option("--spec <spec-id>", "Spec to verify"))
     .addOption(new Option("--run <run-id>", "Run to verify"))
@@ -344,6 +434,14 @@ export function createVerifyCommand(): Command {
     .addOption(
       new Option("--message <message-id>", "Message session to verify"),
     )
+    .option(
+      "--resume <verify-id>",
+      "Resume an interrupted verification, re-running methods that did not finish",
+    )
+    .option(
+      "--force",
+      "With --resume, skip the check that the verification's owner process has exited",
+    )
     .addOption(
       new Option(
         "--agent <agent-id>",
@@ -358,6 +456,11 @@ export function createVerifyCommand(): Command {
       "Max concurrent verifiers (default: all)",
       parseMaxParallelOption,
     )
+    .option(
+      "--max-cost <usd>",
+      "Stop starting verifiers once their priced cost reaches this USD amount",
+      parseMaxCostOption,
+    )
     .addOption(
       new Option(
         "--extra-context <path>",
@@ -366,19 +469,47 @@ export function createVerifyCommand(): Command {
         .default([], "")
         .argParser(collectRepeatedStringOption),
     )
-    .option("--json", "Emit a machine-readable result envelope")
+    .option("--json", "Emit a machine-readable result envelope");
+
+  return addEventStreamOptions(command)
     .allowExcessArguments(false)
     .action(async (options: VerifyCommandActionOptions, command: Command) => {
-      const input = parseVerifyExecutionCommandOptions(options, command);
-      const result = await runVerifyCommand({
-        target: input.target,
-        agentIds: input.agentIds,
-        profile: input.profile,
-        maxParallel: input.maxParallel,
-        extraContext: input.extraContext,
-        json: Boolean(options.json),
-      });
-
+      let verifyOptions: VerifyCommandOptions;
+      if (options.resume !== undefined) {
+        const input = parseVerifyResumeCommandOptions(options, command);
+        verifyOptions = {
+          resumeVerificationId: input.sessionId,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          force: input.force,
+        };
+      } else {
+        const input = parseVerifyExecutionCommandOptions(options, command);
+        verifyOptions = {
+          target: input.target,
+          agentIds: input.agentIds,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          extraContext: input.extraContext,
+        };
+      }
+      const events = openEventStream(options, command);
+      const quiet = Boolean(options.json) || events?.ownsStdout === true;
+      let result: VerifyCommandResult;
+      try {
+        result = await runVerifyCommand({
+          ...verifyOptions,
+          json: quiet,
+          events,
+        });
+      } finally {
+        events?.close();
+      }
+      if (events?.ownsStdout) {
+        process.exitCode = result.exitCode;
+        return;
+      }
       if (options.json) {
         writeOperatorResultEnvelope(
           buildVerifyOperatorEnvelope({
@@ -464,14 +595,12 @@ async function buildMethodBodyLines(options: {
               header: "CHECKS",
               accessor: (row: (typeof artifact.candidates)[number]) =>
                 row.results
-                  .map((result) =>
-                    isTty
-                      ? colorize(
-                          result.slug,
-                          getCheckStatusStyle(result.status).cli,
-                        )
-                      : result.slug,
-                  )
+                  .map((result) => {
+                    const label = formatProgrammaticCheckLabel(result);
+                    return isTty
+                      ? colorize(label, getCheckStatusStyle(result.status).cli)
+                      : label;
+                  })
                   .join(" "),
             },
           ],
@@ -516,6 +645,13 @@ async function buildMethodBodyLines(options: {
   }
 }
 
+function formatProgrammaticCheckLabel(result: ProgrammaticCheckResult): string {
+  if (!result.report) {
+    return result.slug;
+  }
+  return `${result.slug}(${result.report.passed}/${result.report.total})`;
+}
+
 function deblindText(value: string, aliasMap?: Record<string, string>): string {
   if (!aliasMap) {
     return value;
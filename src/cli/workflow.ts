@@ -0,0 +1,257 @@
+import { Command } from "commander";
+
+import { resolveStageCompetitors } from "../commands/shared/resolve-stage-competitors.js";
+import {
+  executeWorkflowCommand,
+  type ExecuteWorkflowCommandResult,
+  type WorkflowCommandDependencies,
+  type WorkflowCommandEvent,
+} from "../commands/workflow/command.js";
+import { loadWorkflowsConfig } from "../configs/workflows/loader.js";
+import { findRunVerificationCandidateRunId } from "../domain/verify/model/types.js";
+import { resolveCliContext } from "../preflight/index.js";
+import { renderWorkspaceAutoInitializedNotice } from "../render/transcripts/shared.js";
+import {
+  renderWorkflowStageStartLine,
+  renderWorkflowSummaryTranscript,
+} from "../render/transcripts/workflow.js";
+import { renderCliError } from "../render/utils/errors.js";
+import { mapRunStatusToExitCode } from "../status/index.js";
+import { runApplyCommand } from "./apply.js";
+import { CliError, toCliError } from "./errors.js";
+import { runMessageCommand } from "./message.js";
+import { beginChainedCommandOutput, writeCommandOutput } from "./output.js";
+import { runReduceCommand } from "./reduce.js";
+import { runRunCommand } from "./run.js";
+import { runSpecCommand } from "./spec.js";
+import { runVerifyCommand } from "./verify.js";
+
+export interface WorkflowRunCommandOptions {
+  name: string;
+}
+
+export type WorkflowRunCommandResult = ExecuteWorkflowCommandResult;
+
+function replayWorkflowCommandEvent(event: WorkflowCommandEvent): void {
+  if (event.kind === "stage") {
+    writeCommandOutput({
+      alerts: [
+        { severity: "info", message: renderWorkflowStageStartLine(event) },
+      ],
+    });
+    return;
+  }
+
+  if (event.kind === "body") {
+    writeCommandOutput({
+      body: event.body,
+      stderr: event.stderr,
+      exitCode: event.exitCode,
+    });
+    return;
+  }
+
+  writeCommandOutput({ body: renderCliError(toCliError(event.error)) });
+}
+
+export async function runWorkflowRunCommand(
+  options: WorkflowRunCommandOptions,
+): Promise<WorkflowRunCommandResult> {
+  const { name } = options;
+  const { root, workspaceAutoInitialized } = await resolveCliContext({
+    workspaceAutoInitMode: "when-missing",
+  });
+  if (workspaceAutoInitialized) {
+    writeCommandOutput({
+      alerts: [
+        { severity: "info", message: renderWorkspaceAutoInitializedNotice() },
+      ],
+      leadingNewline: false,
+    });
+  }
+
+  const { workflows } = loadWorkflowsConfig({ root });
+  const workflow = workflows[name];
+  if (!workflow) {
+    const defined = Object.keys(workflows);
+    throw new CliError(
+      `Workflow \`${name}\` is not defined.`,
+      defined.length > 0
+        ? [`Defined workflows: ${defined.map((id) => `\`${id}\``).join(", ")}.`]
+        : [],
+      ["Add it under `workflows` in `.voratiq/workflows.yaml`."],
+    );
+  }
+
+  const chainedOutput = beginChainedCommandOutput();
+  try {
+    const dependencies: WorkflowCommandDependencies = {
+      onEvent: replayWorkflowCommandEvent,
+      runSpecStage: async (input) => {
+        const result = await runSpecCommand({
+          description: input.description,
+          template: input.template,
+          agentIds: input.agentIds ? [...input.agentIds] : undefined,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          extraContext: input.extraContext
+            ? [...input.extraContext]
+            : undefined,
+          suppressHint: true,
+        });
+        return {
+          status: "succeeded",
+          sessionId: result.sessionId,
+          body: result.body,
+          outputPaths: result.generatedSpecPaths,
+          specPath: result.specPath,
+        };
+      },
+      runMessageStage: async (input) => {
+        const result = await runMessageCommand({
+          prompt: input.prompt,
+          agentIds: input.agentIds ? [...input.agentIds] : undefined,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          extraContext: input.extraContext
+            ? [...input.extraContext]
+            : undefined,
+        });
+        return {
+          status: toStageStatus(result.status),
+          sessionId: result.sessionId,
+          body: result.body,
+          outputPaths: result.outputArtifacts.flatMap((artifact) =>
+            artifact.outputPath ? [artifact.outputPath] : [],
+          ),
+        };
+      },
+      runRunStage: async (input) => {
+        const suppressBlankLines = !process.stdout.isTTY;
+        const result = await runRunCommand({
+          specPath: input.specPath,
+          agentIds: input.agentIds ? [...input.agentIds] : undefined,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          suppressHint: true,
+          suppressLeadingBlankLine: suppressBlankLines,
+          suppressTrailingBlankLine: suppressBlankLines,
+          stdout: chainedOutput.stdout,
+          stderr: chainedOutput.stderr,
+        });
+        return {
+          status:
+            mapRunStatusToExitCode(result.report.status) === 0
+              ? "succeeded"
+              : toStageStatus(result.report.status),
+          sessionId: result.report.runId,
+          body: result.body,
+          exitCode: result.exitCode,
+        };
+      },
+      runReduceStage: async (input) => {
+        const result = await runReduceCommand({
+          targets: input.targets,
+          agentIds: input.agentIds ? [...input.agentIds] : undefined,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          suppressHint: true,
+        });
+        return {
+          status: toStageStatus(result.status),
+          sessionId: result.reductionId,
+          body: result.body,
+          exitCode: result.exitCode,
+          outputPaths: result.outputPaths,
+        };
+      },
+      runVerifyStage: async (input) => {
+        const result = await runVerifyCommand({
+          target: input.target,
+          agentIds: input.agentIds ? [...input.agentIds] : undefined,
+          profile: input.profile,
+          maxParallel: input.maxParallel,
+          maxCost: input.maxCost,
+          suppressHint: true,
+          stdout: chainedOutput.stdout,
+          stderr: chainedOutput.stderr,
+        });
+        return {
+          status:
+            result.status === "unresolved"
+              ? "succeeded"
+              : toStageStatus(result.status),
+          sessionId: result.verificationId,
+          body: result.body,
+          exitCode: result.exitCode,
+          specPath: result.selectedSpecPath,
+          selection: result.selection?.decision,
+          ...(result.target.kind === "run" &&
+          result.selection?.decision.state === "resolvable"
+            ? {
+                selectedRunId: findRunVerificationCandidateRunId(
+                  result.target,
+                  result.selection.decision.selectedCanonicalAgentId,
+                ),
+              }
+            : {}),
+        };
+      },
+      resolveRunStageAgentIds: (input) =>
+        resolveStageCompetitors({
+          root,
+          stageId: "run",
+          cliAgentIds: input.agentIds,
+          profileName: input.profile,
+          includeDefinitions: false,
+        }).agentIds,
+      runApplyStage: async (input) => {
+        const result = await runApplyCommand({
+          runId: input.runId,
+          agentId: input.agentId,
+          commit: input.commit,
+        });
+        return {
+          status: result.exitCode === 1 ? "failed" : "succeeded",
+          body: result.body,
+          exitCode: result.exitCode,
+        };
+      },
+    };
+
+    const execution = await executeWorkflowCommand(
+      { root, name, workflow },
+      dependencies,
+    );
+
+    writeCommandOutput({
+      body: renderWorkflowSummaryTranscript(execution),
+      exitCode: execution.exitCode,
+    });
+    return execution;
+  } finally {
+    chainedOutput.end();
+  }
+}
+
+function toStageStatus(status: string): "succeeded" | "failed" | "aborted" {
+  if (status === "succeeded" || status === "aborted") {
+    return status;
+  }
+  return "failed";
+}
+
+export function createWorkflowCommand(): Command {
+  const run = new Command("run")
+    .description("Run a workflow defined in `.voratiq/workflows.yaml`")
+    .argument("<name>", "Workflow name")
+    .allowExcessArguments(false)
+    .action(async (name: string) => {
+      await runWorkflowRunCommand({ name });
+    });
+
+  return new Command("workflow")
+    .description("Run multi-stage workflows defined in YAML")
+    .addCommand(run);
+}
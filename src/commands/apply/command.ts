@@ -1,8 +1,11 @@
-import { readFile } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 import { buildRunRecordEnhanced } from "../../domain/run/model/enhanced.js";
 import type { RunApplyStatus } from "../../domain/run/model/types.js";
 import { rewriteRunRecord } from "../../domain/run/persistence/adapter.js";
+import { verificationTargetIncludesRun } from "../../domain/verify/model/types.js";
 import { readVerificationRecords } from "../../domain/verify/persistence/adapter.js";
 import {
   buildVerificationSelectorSource,
@@ -12,8 +15,12 @@ import {
 import { toErrorMessage } from "../../utils/errors.js";
 import { ensureFileExists } from "../../utils/fs.js";
 import {
+  createDetachedWorktree,
+  findExistingCommit,
   getGitStderr,
   getHeadRevision,
+  removeWorktree,
+  resolveCommitRevision,
   runGitCommand,
 } from "../../utils/git.js";
 import { resolveDisplayPath } from "../../utils/path.js";
@@ -28,8 +35,13 @@ import {
   ApplyAgentSummaryMissingOnDiskError,
   ApplyAgentSummaryNotRecordedError,
   ApplyBaseMismatchError,
+  ApplyCandidateCommitMissingError,
+  ApplyCandidateCommitNotRecordedError,
   ApplyGitCommitError,
   ApplyPatchApplicationError,
+  ApplyRebaseConflictError,
+  ApplyRebaseTargetError,
+  ApplyStrategyConflictError,
   ApplyVerificationPolicyLoadError,
 } from "./errors.js";
 import type { ApplyResult } from "./types.js";
@@ -42,6 +54,10 @@ export interface ApplyCommandInput {
   agentId: string;
   ignoreBaseMismatch: boolean;
   commit?: boolean;
+  /** Merge the candidate against HEAD, leaving conflict markers on overlap. */
+  threeWay?: boolean;
+  /** Replay the candidate commit onto this revision before applying. */
+  rebaseOnto?: string;
 }
 
 export async function executeApplyCommand(
@@ -55,8 +71,14 @@ export async function executeApplyCommand(
     agentId: selector,
     ignoreBaseMismatch,
     commit = false,
+    threeWay = false,
+    rebaseOnto,
   } = input;
 
+  if (threeWay && rebaseOnto !== undefined) {
+    throw new ApplyStrategyConflictError();
+  }
+
   const runRecord = await fetchRunSafely({
     root,
     runsFilePath,
@@ -104,26 +126,86 @@ export async function executeApplyCommand(
 
   const headRevision = await getHeadRevision(root);
   const baseRevisionSha = runRecord.baseRevisionSha;
-  const baseMismatch = headRevision !== baseRevisionSha;
+  let rebasedOnto: string | undefined;
+  if (rebaseOnto !== undefined) {
+    rebasedOnto = await resolveCommitRevision(root, rebaseOnto);
+    if (rebasedOnto === undefined) {
+      throw new ApplyRebaseTargetError(rebaseOnto);
+    }
+  }
+  const expectedBase = rebasedOnto ?? baseRevisionSha;
+  const worktreeSnapshot =
+    rebasedOnto === undefined ? runRecord.worktreeSnapshot : undefined;
+  const baseMismatch =
+    !threeWay &&
+    !(await matchesRunBase({
+      root,
+      headRevision,
+      expectedBase,
+      snapshot: worktreeSnapshot !== undefined,
+    }));
   const ignoredBaseMismatch = baseMismatch && ignoreBaseMismatch;
 
   if (baseMismatch && !ignoreBaseMismatch) {
     throw new ApplyBaseMismatchError({
-      baseRevisionSha,
+      baseRevisionSha: expectedBase,
       headRevision,
+      snapshotHeadRevision: worktreeSnapshot?.headRevisionSha,
     });
   }
 
+  let conflictedPaths: string[] = [];
+  const scratchRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-"));
   try {
-    await applyPatch({
-      root,
-      diffAbsolutePath,
-      diffDisplayPath,
-      runId,
-      agentId,
-    });
+    if (threeWay) {
+      conflictedPaths = await applyThreeWay({
+        root,
+        scratchRoot,
+        baseRevisionSha,
+        commitSha: await findExistingCommit(root, agentRecord.commitSha),
+        diffAbsolutePath,
+        diffDisplayPath,
+        runId,
+        agentId,
+      });
+    } else if (rebasedOnto !== undefined) {
+      const commitSha = agentRecord.commitSha;
+      if (!commitSha) {
+        throw new ApplyCandidateCommitNotRecordedError(runId, agentId);
+      }
+      if (!(await findExistingCommit(root, commitSha))) {
+        throw new ApplyCandidateCommitMissingError(commitSha);
+      }
+      const rebasedDiffPath = await replayCandidateCommit({
+        root,
+        scratchRoot,
+        ontoSha: rebasedOnto,
+        commitSha,
+        diffDisplayPath,
+        runId,
+        agentId,
+      });
+      await applyPatch({
+        root,
+        diffAbsolutePath: rebasedDiffPath,
+        diffDisplayPath,
+        runId,
+        agentId,
+      });
+    } else {
+      await applyPatch({
+        root,
+        diffAbsolutePath,
+        diffDisplayPath,
+        runId,
+        agentId,
+      });
+    }
   } catch (error) {
-    if (error instanceof ApplyPatchApplicationError) {
+    if (
+      error instanceof ApplyPatchApplicationError ||
+      error instanceof ApplyRebaseConflictError
+    ) {
       await recordApplyStatus({
         root,
         runsFilePath,
@@ -136,6 +218,36 @@ export async function executeApplyCommand(
       });
     }
     throw error;
+  } finally {
+    await rm(scratchRoot, { recursive: true, force: true }).catch(() => {});
+  }
+
+  if (conflictedPaths.length > 0) {
+    await recordApplyStatus({
+      root,
+      runsFilePath,
+      runId,
+      agentId,
+      shouldPersist: true,
+      ignoredBaseMismatch,
+      status: "applied_with_conflicts",
+      conflictedPaths,
+      detail: `Conflicts in ${conflictedPaths.length} file(s).`,
+    });
+
+    return {
+      runId: runRecord.runId,
+      specPath: runRecord.spec.path,
+      status: runRecord.status,
+      createdAt: runRecord.createdAt,
+      baseRevisionSha,
+      headRevision,
+      agent: agentRecord,
+      diffPath: diffDisplayPath,
+      ignoredBaseMismatch,
+      threeWay,
+      conflictedPaths,
+    };
   }
 
   let appliedCommitSha: string | undefined;
@@ -185,6 +297,8 @@ export async function executeApplyCommand(
     agent: agentRecord,
     diffPath: diffDisplayPath,
     ignoredBaseMismatch,
+    ...(threeWay ? { threeWay } : {}),
+    ...(rebasedOnto ? { rebasedOnto } : {}),
     ...(appliedCommitSha ? { appliedCommitSha } : {}),
   };
 }
@@ -209,8 +323,7 @@ async function resolveApplyAgentSelector(options: {
   const verificationRecords = await readVerificationRecords({
     root,
     verificationsFilePath: effectiveVerificationsPath,
-    predicate: (record) =>
-      record.target.kind === "run" && record.target.sessionId === runId,
+    predicate: (record) => verificationTargetIncludesRun(record.target, runId),
   }).catch(() => []);
 
   const verificationFailures: Array<{
@@ -311,6 +424,176 @@ async function applyPatch(options: {
   }
 }
 
+/**
+ * A worktree snapshot never becomes `HEAD` itself, so a snapshot base matches
+ * once the snapshotted changes are committed and the trees agree.
+ */
+async function matchesRunBase(options: {
+  root: string;
+  headRevision: string;
+  expectedBase: string;
+  snapshot: boolean;
+}): Promise<boolean> {
+  const { root, headRevision, expectedBase, snapshot } = options;
+  if (headRevision === expectedBase) {
+    return true;
+  }
+  if (!snapshot) {
+    return false;
+  }
+  const [headTree, baseTree] = await Promise.all(
+    [headRevision, expectedBase].map((revision) =>
+      runGitCommand(["rev-parse", `${revision}^{tree}`], { cwd: root }).catch(
+        () => undefined,
+      ),
+    ),
+  );
+  return headTree !== undefined && headTree === baseTree;
+}
+
+async function listUnmergedPaths(cwd: string): Promise<string[]> {
+  const output = await runGitCommand(
+    ["diff", "--name-only", "--diff-filter=U"],
+    { cwd },
+  ).catch(() => "");
+  return output
+    .split(/\r?\n/u)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Merges the candidate into the working tree using its base revision as the
+ * merge base. Overlapping hunks are left as conflict markers and returned.
+ */
+async function applyThreeWay(options: {
+  root: string;
+  scratchRoot: string;
+  baseRevisionSha: string;
+  commitSha: string | undefined;
+  diffAbsolutePath: string;
+  diffDisplayPath: string;
+  runId: string;
+  agentId: string;
+}): Promise<string[]> {
+  const {
+    root,
+    scratchRoot,
+    baseRevisionSha,
+    commitSha,
+    diffDisplayPath,
+    runId,
+    agentId,
+  } = options;
+
+  // Regenerate the patch from the candidate commit so it carries full blob
+  // ids; fall back to the recorded diff when the commit is gone.
+  let patchPath = options.diffAbsolutePath;
+  if (commitSha && commitSha !== baseRevisionSha) {
+    patchPath = join(scratchRoot, "candidate.patch");
+    const patch = await runGitCommand(
+      [
+        "diff",
+        "--binary",
+        "--full-index",
+        "--no-color",
+        baseRevisionSha,
+        commitSha,
+      ],
+      { cwd: root, trim: false },
+    );
+    await writeFile(patchPath, patch, "utf8");
+  }
+
+  try {
+    await runGitCommand(
+      ["apply", "--3way", "--whitespace=nowarn", "--", patchPath],
+      { cwd: root },
+    );
+    return [];
+  } catch (error) {
+    const conflictedPaths = await listUnmergedPaths(root);
+    if (conflictedPaths.length > 0) {
+      return conflictedPaths;
+    }
+    const detail = getGitStderr(error) ?? toErrorMessage(error);
+    throw new ApplyPatchApplicationError(
+      detail,
+      diffDisplayPath,
+      runId,
+      agentId,
+    );
+  }
+}
+
+/**
+ * Cherry-picks the candidate commit onto `ontoSha` in a scratch worktree and
+ * writes the replayed changes as a patch.
+ */
+async function replayCandidateCommit(options: {
+  root: string;
+  scratchRoot: string;
+  ontoSha: string;
+  commitSha: string;
+  diffDisplayPath: string;
+  runId: string;
+  agentId: string;
+}): Promise<string> {
+  const {
+    root,
+    scratchRoot,
+    ontoSha,
+    commitSha,
+    diffDisplayPath,
+    runId,
+    agentId,
+  } = options;
+  const worktreePath = join(scratchRoot, "workspace");
+  await createDetachedWorktree({
+    root,
+    worktreePath,
+    baseRevision: ontoSha,
+  });
+
+  try {
+    try {
+      await runGitCommand(["cherry-pick", "--no-commit", commitSha], {
+        cwd: worktreePath,
+      });
+    } catch (error) {
+      const conflictedPaths = await listUnmergedPaths(worktreePath);
+      throw new ApplyRebaseConflictError({
+        runId,
+        agentId,
+        ontoSha,
+        conflictedPaths,
+        ...(conflictedPaths.length === 0
+          ? { detail: getGitStderr(error) ?? toErrorMessage(error) }
+          : {}),
+      });
+    }
+
+    const patch = await runGitCommand(
+      ["diff", "--cached", "--binary", "--no-color"],
+      { cwd: worktreePath, trim: false },
+    );
+    if (patch.trim().length === 0) {
+      throw new ApplyPatchApplicationError(
+        "Candidate changes are already present at the rebase target.",
+        diffDisplayPath,
+        runId,
+        agentId,
+      );
+    }
+
+    const patchPath = join(scratchRoot, "rebased.patch");
+    await writeFile(patchPath, patch, "utf8");
+    return patchPath;
+  } finally {
+    await removeWorktree({ root, worktreePath }).catch(() => {});
+  }
+}
+
 interface RecordApplyStatusOptions {
   root: string;
   runsFilePath: string;
@@ -320,6 +603,7 @@ interface RecordApplyStatusOptions {
   status: RunApplyStatus["status"];
   ignoredBaseMismatch: boolean;
   appliedCommitSha?: string;
+  conflictedPaths?: string[];
   detail?: string;
 }
 
@@ -335,6 +619,7 @@ async function recordApplyStatus(
     status,
     ignoredBaseMismatch,
     appliedCommitSha,
+    conflictedPaths,
     detail,
   } = options;
 
@@ -368,6 +653,10 @@ async function recordApplyStatus(
         applyStatus.appliedCommitSha = appliedCommitSha;
       }
 
+      if (conflictedPaths && conflictedPaths.length > 0) {
+        applyStatus.conflictedPaths = [...conflictedPaths];
+      }
+
       return {
         ...record,
         applyStatus,
@@ -379,8 +668,11 @@ async function recordApplyStatus(
 }
 
 function extractApplyFailureDetail(
-  error: ApplyPatchApplicationError,
+  error: ApplyPatchApplicationError | ApplyRebaseConflictError,
 ): string | undefined {
+  if (error instanceof ApplyRebaseConflictError) {
+    return error.message;
+  }
   const [firstDetail] = error.detailLines;
   if (firstDetail && firstDetail.trim().length > 0) {
     return firstDetail.trim();
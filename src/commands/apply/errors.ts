@@ -201,18 +201,96 @@ export class ApplyGitCommitError extends ApplyError {
   }
 }
 
+export class ApplyStrategyConflictError extends ApplyError {
+  constructor() {
+    super(
+      "`--3way` and `--rebase-onto` cannot be combined.",
+      [],
+      ["Choose one apply strategy."],
+    );
+    this.name = "ApplyStrategyConflictError";
+  }
+}
+
+export class ApplyCandidateCommitNotRecordedError extends ApplyError {
+  constructor(
+    public readonly runId: string,
+    public readonly agentId: string,
+  ) {
+    super(
+      `Agent \`${agentId}\` did not record a commit for run \`${runId}\`.`,
+      ["A candidate commit is required when using `--rebase-onto`."],
+      ["Apply with `--3way` instead."],
+    );
+    this.name = "ApplyCandidateCommitNotRecordedError";
+  }
+}
+
+export class ApplyCandidateCommitMissingError extends ApplyError {
+  constructor(public readonly commitSha: string) {
+    super(
+      `Candidate commit \`${shortSha(commitSha)}\` is no longer in the repository.`,
+      ["The commit is required when using `--rebase-onto`."],
+      ["Apply with `--3way` instead."],
+    );
+    this.name = "ApplyCandidateCommitMissingError";
+  }
+}
+
+export class ApplyRebaseTargetError extends ApplyError {
+  constructor(public readonly revision: string) {
+    super(
+      `Cannot resolve rebase target \`${revision}\`.`,
+      [],
+      ["Pass a commit-ish such as `HEAD` to `--rebase-onto`."],
+    );
+    this.name = "ApplyRebaseTargetError";
+  }
+}
+
+export class ApplyRebaseConflictError extends ApplyError {
+  constructor(options: {
+    runId: string;
+    agentId: string;
+    ontoSha: string;
+    conflictedPaths: readonly string[];
+    detail?: string;
+  }) {
+    const { runId, agentId, ontoSha, conflictedPaths, detail } = options;
+    super(
+      `Candidate commit does not replay cleanly onto \`${shortSha(ontoSha)}\`.`,
+      [
+        ...(detail ? [detail] : []),
+        ...conflictedPaths.slice(0, 10).map((path) => `- \`${path}\``),
+        ...(conflictedPaths.length > 10 ? ["- ..."] : []),
+        `Run: \`${runId}\`, agent: \`${agentId}\`.`,
+      ],
+      ["Use `--3way` to apply with conflict markers instead."],
+    );
+    this.name = "ApplyRebaseConflictError";
+  }
+}
+
 export interface ApplyBaseMismatchOptions {
   baseRevisionSha: string;
   headRevision: string;
+  /** Set when the run started from a snapshot of uncommitted changes. */
+  snapshotHeadRevision?: string;
 }
 
 export class ApplyBaseMismatchError extends ApplyError {
   constructor(options: ApplyBaseMismatchOptions) {
-    const { baseRevisionSha, headRevision } = options;
+    const { baseRevisionSha, headRevision, snapshotHeadRevision } = options;
     super(
       `Repository HEAD \`${shortSha(headRevision)}\` no longer matches run base \`${shortSha(baseRevisionSha)}\`.`,
-      [],
-      ["Use `--ignore-base-mismatch` to apply anyway (conflicts may occur)."],
+      snapshotHeadRevision
+        ? [
+            `The run base snapshots uncommitted changes on top of \`${shortSha(snapshotHeadRevision)}\`; commit those changes so HEAD matches it.`,
+          ]
+        : [],
+      [
+        "Use `--3way` to merge against the current HEAD, or `--ignore-base-mismatch` to apply anyway (conflicts may occur).",
+      ],
     );
     this.name = "ApplyBaseMismatchError";
   }
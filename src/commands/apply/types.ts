@@ -11,5 +11,10 @@ export interface ApplyResult {
   agent: AgentInvocationRecord;
   diffPath: string;
   ignoredBaseMismatch: boolean;
+  threeWay?: boolean;
+  /** Revision the candidate commit was replayed onto (`--rebase-onto`). */
+  rebasedOnto?: string;
+  /** Paths left with conflict markers by a three-way apply. */
+  conflictedPaths?: string[];
   appliedCommitSha?: string;
 }
@@ -1,6 +1,12 @@
+import {
+  type CostBudget,
+  createCostBudget,
+} from "../../competition/shared/cost-budget.js";
 import type {
   AutoApplyStatus,
+  AutoRound,
   AutoTerminalStatus,
+  RunRepairSource,
 } from "../../domain/run/model/types.js";
 import type {
   AutoVerificationSelectionDisposition,
@@ -18,15 +24,23 @@ export interface ExecuteAutoCommandInput {
   verifyAgentIds?: readonly string[];
   profile?: string;
   maxParallel?: number;
+  /** USD cap on the combined spend of every stage and round. */
+  maxCost?: number;
   branch?: boolean;
   apply?: boolean;
   commit?: boolean;
+  /**
+   * Run and verify rounds to attempt. An unresolved round starts the next one
+   * from its best failing candidate (default 1).
+   */
+  maxRounds?: number;
 }
 
 export interface AutoSpecStageInput {
   description: string;
   profile?: string;
   maxParallel?: number;
+  costBudget?: CostBudget;
   suppressHint: boolean;
 }
 
@@ -58,7 +72,11 @@ export interface AutoRunStageInput {
   agentOverrideFlag: string;
   profile?: string;
   maxParallel?: number;
+  costBudget?: CostBudget;
   branch?: boolean;
+  baseRevisionSha?: string;
+  extraContext?: readonly string[];
+  repairOf?: RunRepairSource;
 }
 
 export interface AutoRunStageResult {
@@ -76,6 +94,7 @@ export interface AutoVerifyStageInput {
   agentOverrideFlag: string;
   profile?: string;
   maxParallel?: number;
+  costBudget?: CostBudget;
   suppressHint: boolean;
 }
 
@@ -87,9 +106,25 @@ export interface AutoVerifyStageResult {
   selectedSpecPath?: string;
   selection?: SelectionDecision;
   selectionWarnings?: readonly string[];
+  /** Every run candidate failed programmatic checks, so a repair round may help. */
+  noCandidatePassedChecks?: boolean;
   warningMessage?: string;
 }
 
+export interface AutoRepairStageInput {
+  /** Round about to start. */
+  round: number;
+  runId: string;
+  verificationId?: string;
+  selection?: SelectionDecision;
+}
+
+export interface AutoRepairStageResult {
+  repairOf: RunRepairSource;
+  baseRevisionSha: string;
+  extraContextPaths: readonly string[];
+}
+
 export interface AutoApplyStageInput {
   runId: string;
   agentId: string;
@@ -121,6 +156,11 @@ export type AutoCommandEvent =
       kind: "action_required";
       detail: string;
       separateWithDivider: boolean;
+    }
+  | {
+      kind: "round";
+      round: number;
+      detail: string;
     };
 
 export interface AutoPhaseSummary {
@@ -142,6 +182,7 @@ export interface AutoExecutionSummary {
   };
   verify: AutoPhaseSummary;
   apply: AutoPhaseSummary & { agentId?: string };
+  rounds: readonly AutoRound[];
 }
 
 export interface ExecuteAutoCommandResult {
@@ -168,6 +209,10 @@ export interface AutoCommandDependencies {
   runVerifyStage: (
     input: AutoVerifyStageInput,
   ) => Promise<AutoVerifyStageResult>;
+  /** Resolves to undefined when no candidate can seed another round. */
+  runRepairStage: (
+    input: AutoRepairStageInput,
+  ) => Promise<AutoRepairStageResult | undefined>;
   runApplyStage: (input: AutoApplyStageInput) => Promise<AutoApplyStageResult>;
 }
 
@@ -184,6 +229,11 @@ export async function executeAutoCommand(
     typeof options.description === "string" ? options.description : undefined;
   const now = dependencies.now ?? Date.now.bind(Date);
   const overallStart = now();
+  // One budget caps the whole pipeline: spec, every verify, and every round.
+  const costBudget =
+    options.maxCost !== undefined
+      ? createCostBudget(options.maxCost)
+      : undefined;
   const events: AutoCommandEvent[] = [];
   let bodyOutputEmitted = false;
   const recordEvent = (event: AutoCommandEvent): void => {
@@ -218,6 +268,7 @@ export async function executeAutoCommand(
   let verifyStatus: "succeeded" | "failed" | "aborted" | "skipped" = "skipped";
   let verifyDetail: string | undefined;
   let verifySelection: SelectionDecision | undefined;
+  let verifySelectionWarnings: readonly string[] | undefined;
 
   let applyStartedAt: number | undefined;
   let applyStatus: AutoApplyStatus = "skipped";
@@ -235,6 +286,14 @@ export async function executeAutoCommand(
       separateWithDivider: bodyOutputEmitted,
     });
   };
+  const haltApplyOnVerifyWarnings = (): void => {
+    if (options.apply === true && (verifySelectionWarnings?.length ?? 0) > 0) {
+      const warningDetail =
+        "Verification reported warnings for the selected candidate; automatic apply halted. Review the verify output and apply manually if appropriate.";
+      verifyDetail = warningDetail;
+      markActionRequired(warningDetail);
+    }
+  };
 
   let resolvedSpecPath = options.specPath;
 
@@ -245,6 +304,7 @@ export async function executeAutoCommand(
         description,
         profile: options.profile,
         maxParallel: options.maxParallel,
+        costBudget,
         suppressHint: true,
       });
       specStatus = "succeeded";
@@ -276,6 +336,7 @@ export async function executeAutoCommand(
           agentOverrideFlag: "--verify-agent",
           profile: options.profile,
           maxParallel: options.maxParallel,
+          costBudget,
           suppressHint: true,
         });
 
@@ -336,157 +397,237 @@ export async function executeAutoCommand(
     hardFailure = true;
   }
 
-  if (!hardFailure && !hardAbort && !actionRequired && resolvedSpecPath) {
-    runStartedAt = now();
+  const maxRounds = options.maxRounds ?? 1;
+  const rounds: AutoRound[] = [];
+  let repair: AutoRepairStageResult | undefined;
 
-    try {
-      const runResult = await dependencies.runRunStage({
-        specPath: resolvedSpecPath,
-        agentIds: options.runAgentIds ? [...options.runAgentIds] : undefined,
-        agentOverrideFlag: "--run-agent",
-        profile: options.profile,
-        maxParallel: options.maxParallel,
-        branch: options.branch,
-      });
+  for (let round = 1; round <= maxRounds; round += 1) {
+    let verificationId: string | undefined;
+    let repairPending = false;
+    verifyStatus = "skipped";
+    verifySelection = undefined;
+    verifySelectionWarnings = undefined;
+
+    if (!hardFailure && !hardAbort && !actionRequired && resolvedSpecPath) {
+      runStartedAt ??= now();
 
-      const expectedRunExitCode = mapRunStatusToExitCode(
-        runResult.report.status,
-      );
-      const resolvedRunExitCode =
-        typeof runResult.exitCode === "number"
-          ? runResult.exitCode
-          : expectedRunExitCode;
-
-      if (
-        typeof runResult.exitCode === "number" &&
-        runResult.exitCode !== expectedRunExitCode
-      ) {
-        throw new HintedError("Run status/exit code mismatch.", {
-          detailLines: [
-            `Status: \`${runResult.report.status}\`.`,
-            `Exit code: ${runResult.exitCode}.`,
-          ],
-          hintLines: ["Re-run the command."],
+      try {
+        const runResult = await dependencies.runRunStage({
+          specPath: resolvedSpecPath,
+          agentIds: options.runAgentIds ? [...options.runAgentIds] : undefined,
+          agentOverrideFlag: "--run-agent",
+          profile: options.profile,
+          maxParallel: options.maxParallel,
+          costBudget,
+          branch: repair ? undefined : options.branch,
+          ...(repair
+            ? {
+                baseRevisionSha: repair.baseRevisionSha,
+                extraContext: repair.extraContextPaths,
+                repairOf: repair.repairOf,
+              }
+            : {}),
         });
-      }
 
-      runStatus =
-        resolvedRunExitCode === 0
-          ? "succeeded"
-          : runResult.report.status === "aborted"
-            ? "aborted"
-            : "failed";
-      runId = runResult.report.runId;
-      runRecordStatus = runResult.report.status;
-      runCreatedAt = runResult.report.createdAt;
-      runSpecPath = runResult.report.spec?.path;
-      runBaseRevisionSha = runResult.report.baseRevisionSha;
-
-      if (runStatus !== "succeeded") {
-        const statusDetail = runRecordStatus
-          ? `status \`${runRecordStatus}\``
-          : "a non-success status";
-        runDetail =
-          runDetail ??
-          `Run completed with ${statusDetail} (exit code ${resolvedRunExitCode}).`;
-        if (runStatus === "aborted") {
-          hardAbort = true;
-        } else {
-          hardFailure = true;
+        const expectedRunExitCode = mapRunStatusToExitCode(
+          runResult.report.status,
+        );
+        const resolvedRunExitCode =
+          typeof runResult.exitCode === "number"
+            ? runResult.exitCode
+            : expectedRunExitCode;
+
+        if (
+          typeof runResult.exitCode === "number" &&
+          runResult.exitCode !== expectedRunExitCode
+        ) {
+          throw new HintedError("Run status/exit code mismatch.", {
+            detailLines: [
+              `Status: \`${runResult.report.status}\`.`,
+              `Exit code: ${runResult.exitCode}.`,
+            ],
+            hintLines: ["Re-run the command."],
+          });
         }
-      }
 
-      recordEvent({
-        kind: "body",
-        body: runResult.body,
-        exitCode: runResult.exitCode,
-      });
-    } catch (error) {
-      runStatus = "failed";
-      runDetail = toHeadline(error);
-      hardFailure = true;
-      recordEvent({ kind: "error", error });
+        runStatus =
+          resolvedRunExitCode === 0
+            ? "succeeded"
+            : runResult.report.status === "aborted"
+              ? "aborted"
+              : "failed";
+        runId = runResult.report.runId;
+        runRecordStatus = runResult.report.status;
+        runCreatedAt = runResult.report.createdAt;
+        runSpecPath = runResult.report.spec?.path;
+        runBaseRevisionSha = runResult.report.baseRevisionSha;
+
+        if (runStatus !== "succeeded") {
+          const statusDetail = runRecordStatus
+            ? `status \`${runRecordStatus}\``
+            : "a non-success status";
+          runDetail =
+            runDetail ??
+            `Run completed with ${statusDetail} (exit code ${resolvedRunExitCode}).`;
+          if (runStatus === "aborted") {
+            hardAbort = true;
+          } else {
+            hardFailure = true;
+          }
+        }
+
+        recordEvent({
+          kind: "body",
+          body: runResult.body,
+          exitCode: runResult.exitCode,
+        });
+      } catch (error) {
+        runStatus = "failed";
+        runDetail = toHeadline(error);
+        hardFailure = true;
+        recordEvent({ kind: "error", error });
+      }
     }
-  }
 
-  const shouldAttemptVerifyRun =
-    runId !== undefined &&
-    runStatus === "succeeded" &&
-    !hardFailure &&
-    !hardAbort &&
-    !actionRequired;
+    const shouldAttemptVerifyRun =
+      runId !== undefined &&
+      runStatus === "succeeded" &&
+      !hardFailure &&
+      !hardAbort &&
+      !actionRequired;
 
-  if (shouldAttemptVerifyRun && runId) {
-    verifyStartedAt = now();
+    if (shouldAttemptVerifyRun && runId) {
+      verifyStartedAt ??= now();
+      verifyDetail = undefined;
 
-    try {
-      const verifyResult = await dependencies.runVerifyStage({
-        target: {
-          kind: "run",
-          sessionId: runId,
-        },
-        agentIds: options.verifyAgentIds
-          ? [...options.verifyAgentIds]
-          : undefined,
-        agentOverrideFlag: "--verify-agent",
-        profile: options.profile,
-        maxParallel: options.maxParallel,
-        suppressHint: options.apply === true,
-      });
-
-      verifyStatus = "succeeded";
-      verifySelection = verifyResult.selection;
+      try {
+        const verifyResult = await dependencies.runVerifyStage({
+          target: {
+            kind: "run",
+            sessionId: runId,
+          },
+          agentIds: options.verifyAgentIds
+            ? [...options.verifyAgentIds]
+            : undefined,
+          agentOverrideFlag: "--verify-agent",
+          profile: options.profile,
+          maxParallel: options.maxParallel,
+          costBudget,
+          suppressHint: options.apply === true,
+        });
 
-      recordEvent({
-        kind: "body",
-        body: verifyResult.body,
-        stderr: verifyResult.stderr,
-        exitCode: verifyResult.exitCode,
-      });
+        verifyStatus = "succeeded";
+        verifySelection = verifyResult.selection;
+        verifySelectionWarnings = verifyResult.selectionWarnings;
+        verificationId = verifyResult.verificationId;
 
-      for (const warning of verifyResult.selectionWarnings ?? []) {
-        verifyDetail = warning;
         recordEvent({
-          kind: "warning",
-          detail: warning,
-          separateWithDivider: bodyOutputEmitted,
+          kind: "body",
+          body: verifyResult.body,
+          stderr: verifyResult.stderr,
+          exitCode: verifyResult.exitCode,
         });
-      }
 
-      if (
-        options.apply === true &&
-        (verifyResult.selectionWarnings?.length ?? 0) > 0
-      ) {
-        const warningDetail =
-          "Verification reported warnings for the selected candidate; automatic apply halted. Review the verify output and apply manually if appropriate.";
-        verifyDetail = warningDetail;
-        markActionRequired(warningDetail);
-      }
+        for (const warning of verifyResult.selectionWarnings ?? []) {
+          verifyDetail = warning;
+          recordEvent({
+            kind: "warning",
+            detail: warning,
+            separateWithDivider: bodyOutputEmitted,
+          });
+        }
 
-      if (verifySelection?.state === "unresolved") {
-        const verifySelectionDisposition = classifyAutoVerificationSelection({
-          selection: verifySelection,
-        });
-        applyAutoVerificationSelectionDisposition({
-          disposition: verifySelectionDisposition,
-          onActionRequired: markActionRequired,
-          onVerifyDetail: (detail) => {
-            verifyDetail = detail;
-          },
-        });
-      } else if (verifyResult.exitCode === 1) {
+        if (
+          (verifySelection?.state === "unresolved" ||
+            verifyResult.noCandidatePassedChecks === true) &&
+          round < maxRounds &&
+          !actionRequired
+        ) {
+          repairPending = true;
+        } else {
+          haltApplyOnVerifyWarnings();
+
+          if (verifySelection?.state === "unresolved") {
+            const verifySelectionDisposition =
+              classifyAutoVerificationSelection({
+                selection: verifySelection,
+              });
+            applyAutoVerificationSelectionDisposition({
+              disposition: verifySelectionDisposition,
+              onActionRequired: markActionRequired,
+              onVerifyDetail: (detail) => {
+                verifyDetail = detail;
+              },
+            });
+          } else if (verifyResult.exitCode === 1) {
+            verifyStatus = "failed";
+            verifyDetail =
+              verifyResult.warningMessage?.trim() ||
+              "Verification did not produce any successful verifier results.";
+            hardFailure = true;
+          }
+        }
+      } catch (error) {
         verifyStatus = "failed";
-        verifyDetail =
-          verifyResult.warningMessage?.trim() ||
-          "Verification did not produce any successful verifier results.";
+        verifyDetail = toHeadline(error);
         hardFailure = true;
+        recordEvent({ kind: "error", error });
       }
+    }
+
+    if (runId) {
+      rounds.push({
+        round,
+        runId,
+        ...(verificationId ? { verificationId } : {}),
+        ...(verifySelection ? { selection: verifySelection.state } : {}),
+        ...(repair
+          ? {
+              repairOf: {
+                runId: repair.repairOf.runId,
+                agentId: repair.repairOf.agentId,
+              },
+            }
+          : {}),
+      });
+    }
+    if (!repairPending || !runId) {
+      break;
+    }
+
+    try {
+      repair = await dependencies.runRepairStage({
+        round: round + 1,
+        runId,
+        verificationId,
+        selection: verifySelection,
+      });
     } catch (error) {
-      verifyStatus = "failed";
       verifyDetail = toHeadline(error);
       hardFailure = true;
       recordEvent({ kind: "error", error });
+      break;
+    }
+
+    if (!repair) {
+      haltApplyOnVerifyWarnings();
+      applyAutoVerificationSelectionDisposition({
+        disposition: classifyAutoVerificationSelection({
+          selection: verifySelection,
+        }),
+        onActionRequired: markActionRequired,
+        onVerifyDetail: (detail) => {
+          verifyDetail = detail;
+        },
+      });
+      break;
     }
+
+    recordEvent({
+      kind: "round",
+      round: round + 1,
+      detail: `Starting repair round ${round + 1} of ${maxRounds} from \`${repair.repairOf.agentId}\` in run \`${runId}\`.`,
+    });
   }
 
   if (
@@ -627,6 +768,7 @@ export async function executeAutoCommand(
         ...(applyAgentId ? { agentId: applyAgentId } : {}),
         ...(normalizedApplyDetail ? { detail: normalizedApplyDetail } : {}),
       },
+      rounds,
     },
     events,
   };
@@ -0,0 +1,330 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { ProgrammaticCheckResult } from "../../configs/verification/methods.js";
+import type {
+  RunRecord,
+  RunRepairSource,
+} from "../../domain/run/model/types.js";
+import {
+  programmaticResultArtifactSchema,
+  type VerificationRecord,
+} from "../../domain/verify/model/types.js";
+import { readVerificationRecords } from "../../domain/verify/persistence/adapter.js";
+import type { SelectionDecision } from "../../policy/index.js";
+import { pathExists } from "../../utils/fs.js";
+import { resolveDisplayPath } from "../../utils/path.js";
+import { getRunRepairContextDirectoryPath } from "../../workspace/artifact-paths.js";
+import { fetchRunSafely } from "../fetch.js";
+
+const CHECK_LOG_TAIL_LINES = 200;
+
+export interface PrepareAutoRepairRoundInput {
+  root: string;
+  runsFilePath: string;
+  verificationsFilePath: string;
+  /** Round about to start; the first repair round is 2. */
+  round: number;
+  runId: string;
+  verificationId?: string;
+  selection?: SelectionDecision;
+}
+
+export interface AutoRepairRound {
+  repairOf: RunRepairSource;
+  /** Base of the run being repaired, so every round diffs against it. */
+  baseRevisionSha: string;
+  /** Repo-relative files to stage as extra context for the next round. */
+  extraContextPaths: string[];
+}
+
+/**
+ * Picks the best failing candidate of an unresolved round, or of a round where
+ * every candidate failed programmatic checks, and stages the verifier findings
+ * and failing check logs for the round that repairs it.
+ * Resolves to undefined when no candidate produced a commit to start from.
+ */
+export async function prepareAutoRepairRound(
+  input: PrepareAutoRepairRoundInput,
+): Promise<AutoRepairRound | undefined> {
+  const {
+    root,
+    runsFilePath,
+    verificationsFilePath,
+    round,
+    runId,
+    verificationId,
+    selection,
+  } = input;
+
+  const record = await fetchRunSafely({ root, runsFilePath, runId });
+  const verification = verificationId
+    ? await readVerification({ root, verificationsFilePath, verificationId })
+    : undefined;
+  const checksByAgent = verification
+    ? await readProgrammaticChecks(root, verification)
+    : new Map<string, ProgrammaticCheckResult[]>();
+
+  const candidate = pickRepairCandidate({ record, selection, checksByAgent });
+  if (!candidate?.commitSha) {
+    return undefined;
+  }
+
+  const contextDisplayPath = getRunRepairContextDirectoryPath(runId, round);
+  const contextPath = join(root, contextDisplayPath);
+  const extraContextPaths: string[] = [];
+  const stage = async (filename: string, content: string): Promise<void> => {
+    await mkdir(contextPath, { recursive: true });
+    await writeFile(join(contextPath, filename), content, "utf8");
+    extraContextPaths.push(`${contextDisplayPath}/${filename}`);
+  };
+
+  const findings = verification
+    ? await renderVerifierFindings(root, verification, candidate.agentId)
+    : undefined;
+  if (findings) {
+    await stage("verifier-findings.md", findings);
+  }
+  const failingChecks = await renderFailingChecks(
+    root,
+    candidate.agentId,
+    checksByAgent.get(candidate.agentId) ?? [],
+  );
+  if (failingChecks) {
+    await stage("failing-checks.md", failingChecks);
+  }
+
+  return {
+    repairOf: {
+      round,
+      runId,
+      agentId: candidate.agentId,
+      commitSha: candidate.commitSha,
+      ...(verificationId ? { verificationId } : {}),
+    },
+    baseRevisionSha: record.baseRevisionSha,
+    extraContextPaths,
+  };
+}
+
+/**
+ * Ranks succeeded candidates by passed checks, then by verifier votes carried
+ * in the selection, then by run order.
+ */
+function pickRepairCandidate(options: {
+  record: RunRecord;
+  selection?: SelectionDecision;
+  checksByAgent: ReadonlyMap<string, readonly ProgrammaticCheckResult[]>;
+}): RunRecord["agents"][number] | undefined {
+  const { record, selection, checksByAgent } = options;
+
+  const votes = new Map<string, number>();
+  const vote = (agentId: string | undefined): void => {
+    if (agentId) {
+      votes.set(agentId, (votes.get(agentId) ?? 0) + 1);
+    }
+  };
+  if (selection?.state === "resolvable") {
+    vote(selection.selectedCanonicalAgentId);
+  }
+  for (const reason of selection?.unresolvedReasons ?? []) {
+    switch (reason.code) {
+      case "verifier_disagreement":
+        reason.selections.forEach((entry) =>
+          vote(entry.selectedCanonicalAgentId),
+        );
+        break;
+      case "selected_candidate_failed_programmatic":
+      case "selected_candidate_missed_criteria":
+        vote(reason.selectedCanonicalAgentId);
+        break;
+      case "verifier_preference_unresolved":
+        vote(reason.resolvedPreferredCandidateId);
+        break;
+      default:
+        break;
+    }
+  }
+
+  const passedChecks = (agentId: string): number =>
+    (checksByAgent.get(agentId) ?? []).filter(
+      (check) => check.status === "succeeded",
+    ).length;
+
+  return record.agents
+    .filter((agent) => agent.status === "succeeded" && agent.commitSha)
+    .map((agent, index) => ({ agent, index }))
+    .sort(
+      (left, right) =>
+        passedChecks(right.agent.agentId) - passedChecks(left.agent.agentId) ||
+        (votes.get(right.agent.agentId) ?? 0) -
+          (votes.get(left.agent.agentId) ?? 0) ||
+        left.index - right.index,
+    )[0]?.agent;
+}
+
+async function readVerification(options: {
+  root: string;
+  verificationsFilePath: string;
+  verificationId: string;
+}): Promise<VerificationRecord | undefined> {
+  const { root, verificationsFilePath, verificationId } = options;
+  if (!(await pathExists(verificationsFilePath))) {
+    return undefined;
+  }
+  const [record] = await readVerificationRecords({
+    root,
+    verificationsFilePath,
+    limit: 1,
+    predicate: (entry) => entry.sessionId === verificationId,
+  });
+  return record;
+}
+
+async function readProgrammaticChecks(
+  root: string,
+  verification: VerificationRecord,
+): Promise<Map<string, ProgrammaticCheckResult[]>> {
+  const checksByAgent = new Map<string, ProgrammaticCheckResult[]>();
+  const artifactPath = verification.methods.find(
+    (method) => method.method === "programmatic" && method.artifactPath,
+  )?.artifactPath;
+  const raw = await readArtifact(root, artifactPath);
+  if (raw === undefined) {
+    return checksByAgent;
+  }
+
+  const parsed = programmaticResultArtifactSchema.safeParse(raw);
+  if (parsed.success && parsed.data.scope === "run") {
+    for (const candidate of parsed.data.candidates) {
+      checksByAgent.set(candidate.candidateId, candidate.results);
+    }
+  }
+  return checksByAgent;
+}
+
+async function renderVerifierFindings(
+  root: string,
+  verification: VerificationRecord,
+  agentId: string,
+): Promise<string | undefined> {
+  const sections: string[] = [];
+  for (const method of verification.methods) {
+    if (method.method !== "rubric" || method.status !== "succeeded") {
+      continue;
+    }
+    const artifact = await readArtifact(root, method.artifactPath);
+    if (artifact === undefined) {
+      continue;
+    }
+    const result =
+      typeof artifact === "object" && artifact !== null && "result" in artifact
+        ? artifact.result
+        : artifact;
+    sections.push(
+      `## \`${method.verifierId}\` (\`${method.template}\`)`,
+      "",
+      "```json",
+      JSON.stringify(result, null, 2),
+      "```",
+      "",
+    );
+  }
+  if (sections.length === 0) {
+    return undefined;
+  }
+
+  const alias = Object.entries(verification.blinded?.aliasMap ?? {}).find(
+    ([, candidateId]) => candidateId === agentId,
+  )?.[0];
+  return [
+    `# Verifier findings from \`${verification.sessionId}\``,
+    "",
+    `Your workspace starts from candidate \`${agentId}\`, which did not resolve.`,
+    ...(alias
+      ? [
+          `Verifiers reviewed candidates blind; this candidate was \`${alias}\`.`,
+        ]
+      : []),
+    "",
+    ...sections,
+  ].join("\n");
+}
+
+async function renderFailingChecks(
+  root: string,
+  agentId: string,
+  checks: readonly ProgrammaticCheckResult[],
+): Promise<string | undefined> {
+  const failing = checks.filter(
+    (check) => check.status !== "succeeded" && check.status !== "skipped",
+  );
+  if (failing.length === 0) {
+    return undefined;
+  }
+
+  const lines = [`# Failing checks for candidate \`${agentId}\``, ""];
+  for (const check of failing) {
+    lines.push(
+      `## \`${check.slug}\` ${check.status}${
+        typeof check.exitCode === "number"
+          ? ` (exit code ${check.exitCode})`
+          : ""
+      }`,
+      "",
+    );
+    if (check.command) {
+      lines.push(`Command: \`${check.command}\``, "");
+    }
+    if (check.error) {
+      lines.push(`Error: ${check.error}`, "");
+    }
+    const log = await readLogTail(root, check.logPath);
+    if (log !== undefined) {
+      lines.push(
+        `Last ${CHECK_LOG_TAIL_LINES} lines of \`${check.logPath}\`:`,
+        "",
+        "```text",
+        log,
+        "```",
+        "",
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+async function readArtifact(
+  root: string,
+  artifactPath: string | undefined,
+): Promise<unknown> {
+  const absolutePath = resolveDisplayPath(root, artifactPath);
+  if (!absolutePath) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await readFile(absolutePath, "utf8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readLogTail(
+  root: string,
+  logPath: string | undefined,
+): Promise<string | undefined> {
+  const absolutePath = resolveDisplayPath(root, logPath);
+  if (!absolutePath) {
+    return undefined;
+  }
+  try {
+    const content = await readFile(absolutePath, "utf8");
+    return content
+      .trimEnd()
+      .split("\n")
+      .slice(-CHECK_LOG_TAIL_LINES)
+      .join("\n");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,418 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type {
+  CompareJsonCandidate,
+  CompareJsonChanges,
+  CompareJsonCheck,
+  CompareJsonFile,
+  CompareJsonPairwiseOutput,
+  CompareJsonSummaryOutput,
+  CompareJsonTreeSource,
+  CompareJsonVerification,
+} from "../../contracts/compare.js";
+import {
+  type AgentInvocationEnhanced,
+  buildRunRecordEnhanced,
+} from "../../domain/run/model/enhanced.js";
+import type { RunRecord } from "../../domain/run/model/types.js";
+import { resolveLifecycleExecutionDurationMs } from "../../domain/shared/lifecycle.js";
+import {
+  programmaticResultArtifactSchema,
+  type VerificationRecord,
+  verificationTargetIncludesRun,
+} from "../../domain/verify/model/types.js";
+import { readVerificationRecords } from "../../domain/verify/persistence/adapter.js";
+import { TERMINAL_AGENT_STATUSES } from "../../status/index.js";
+import { extractStat } from "../../utils/diff.js";
+import { toErrorMessage } from "../../utils/errors.js";
+import { pathExists } from "../../utils/fs.js";
+import {
+  findExistingCommit,
+  getGitStderr,
+  runGitCommand,
+} from "../../utils/git.js";
+import { resolveDisplayPath } from "../../utils/path.js";
+import { fetchRunSafely } from "../fetch.js";
+import {
+  CompareAgentNotFoundError,
+  CompareResultTreeUnavailableError,
+} from "./errors.js";
+
+const FILES_CHANGED_PATTERN = /(\d+)\s+file/u;
+const INSERTIONS_PATTERN = /(\d+)\s+insertion/u;
+const DELETIONS_PATTERN = /(\d+)\s+deletion/u;
+
+export interface CompareCommandInput {
+  root: string;
+  runsFilePath: string;
+  verificationsFilePath: string;
+  runId: string;
+}
+
+export interface ComparePairwiseCommandInput extends CompareCommandInput {
+  agentIds: readonly [string, string];
+}
+
+export async function executeCompareCommand(
+  input: CompareCommandInput,
+): Promise<CompareJsonSummaryOutput> {
+  const { root, runsFilePath, verificationsFilePath, runId } = input;
+  const record = await fetchRunSafely({ root, runsFilePath, runId });
+  const enhanced = buildRunRecordEnhanced(record);
+  const warnings: string[] = [];
+
+  const programmatic = await readLatestProgrammaticResults({
+    root,
+    verificationsFilePath,
+    runId,
+    warnings,
+  });
+
+  const candidates: CompareJsonCandidate[] = [];
+  for (const agent of enhanced.agents) {
+    const durationMs = resolveAgentDurationMs(agent);
+    const changes = parseDiffStatistics(agent.diffStatistics);
+    const tokenUsage = toTokenCounts(agent.tokenUsage);
+    candidates.push({
+      agentId: agent.agentId,
+      model: agent.model,
+      status: agent.status,
+      ...(agent.startedAt ? { startedAt: agent.startedAt } : {}),
+      ...(agent.completedAt ? { completedAt: agent.completedAt } : {}),
+      ...(durationMs !== undefined ? { durationMs } : {}),
+      ...(agent.diffStatistics ? { diffStatistics: agent.diffStatistics } : {}),
+      ...(changes ? { changes } : {}),
+      files: await readCandidateFiles({
+        root,
+        baseRevisionSha: record.baseRevisionSha,
+        agent,
+        warnings,
+      }),
+      checks: programmatic?.checksByAgent.get(agent.agentId) ?? [],
+      ...(tokenUsage ? { tokenUsage } : {}),
+      ...(agent.costUsd !== undefined ? { costUsd: agent.costUsd } : {}),
+      ...(agent.assets.diffPath ? { diffPath: agent.assets.diffPath } : {}),
+    });
+  }
+
+  return {
+    mode: "summary",
+    runId: record.runId,
+    status: record.status,
+    baseRevisionSha: record.baseRevisionSha,
+    verification: programmatic?.verification ?? null,
+    candidates,
+    warnings,
+  };
+}
+
+/**
+ * Diffs one candidate's result tree against another's. Each tree comes from
+ * the candidate commit when git still has it, otherwise from replaying the
+ * recorded `diff.patch` onto the run's base revision.
+ */
+export async function executeComparePairwiseCommand(
+  input: ComparePairwiseCommandInput,
+): Promise<CompareJsonPairwiseOutput> {
+  const { root, runsFilePath, runId, agentIds } = input;
+  const record = await fetchRunSafely({ root, runsFilePath, runId });
+  const enhanced = buildRunRecordEnhanced(record);
+  const findAgent = (agentId: string): AgentInvocationEnhanced => {
+    const agent = enhanced.agents.find(
+      (candidate) => candidate.agentId === agentId,
+    );
+    if (!agent) {
+      throw new CompareAgentNotFoundError(runId, agentId);
+    }
+    return agent;
+  };
+  const leftAgent = findAgent(agentIds[0]);
+  const rightAgent = findAgent(agentIds[1]);
+
+  const scratchRoot = await mkdtemp(join(tmpdir(), "voratiq-compare-"));
+  try {
+    const left = await resolveResultTree({
+      root,
+      scratchRoot,
+      record,
+      agent: leftAgent,
+    });
+    const right = await resolveResultTree({
+      root,
+      scratchRoot,
+      record,
+      agent: rightAgent,
+    });
+
+    const range = [left.tree, right.tree];
+    const [shortstat, numstat, diff] = await Promise.all([
+      runGitCommand(["diff", "--shortstat", ...range], { cwd: root }),
+      runGitCommand(["diff", "--numstat", ...range], { cwd: root }),
+      runGitCommand(["diff", "--no-color", ...range], {
+        cwd: root,
+        trim: false,
+      }),
+    ]);
+
+    return {
+      mode: "pairwise",
+      runId: record.runId,
+      baseRevisionSha: record.baseRevisionSha,
+      left: { agentId: leftAgent.agentId, source: left.source },
+      right: { agentId: rightAgent.agentId, source: right.source },
+      ...(shortstat ? { diffStatistics: shortstat } : {}),
+      files: parseNumstat(numstat),
+      diff,
+      warnings: [],
+    };
+  } finally {
+    await rm(scratchRoot, { recursive: true, force: true });
+  }
+}
+
+async function resolveResultTree(options: {
+  root: string;
+  scratchRoot: string;
+  record: RunRecord;
+  agent: AgentInvocationEnhanced;
+}): Promise<{ tree: string; source: CompareJsonTreeSource }> {
+  const { root, scratchRoot, record, agent } = options;
+
+  const commitSha = await findExistingCommit(root, agent.commitSha);
+  if (commitSha) {
+    const tree = await runGitCommand(["rev-parse", `${commitSha}^{tree}`], {
+      cwd: root,
+    });
+    return { tree, source: "commit" };
+  }
+
+  const diffPath = agent.assets.diffPath
+    ? resolveDisplayPath(root, agent.assets.diffPath)
+    : null;
+  if (!diffPath || !(await pathExists(diffPath))) {
+    throw new CompareResultTreeUnavailableError(
+      record.runId,
+      agent.agentId,
+      "Neither the candidate commit nor its `diff.patch` is available.",
+    );
+  }
+
+  // Build the tree in a private index so the user's index is left untouched.
+  const env = { GIT_INDEX_FILE: join(scratchRoot, `${agent.agentId}.index`) };
+  try {
+    await runGitCommand(["read-tree", record.baseRevisionSha], {
+      cwd: root,
+      env,
+    });
+    const patch = await readFile(diffPath, "utf8");
+    if (patch.trim().length > 0) {
+      await runGitCommand(["apply", "--cached", "--binary", diffPath], {
+        cwd: root,
+        env,
+      });
+    }
+    const tree = await runGitCommand(["write-tree"], { cwd: root, env });
+    return { tree, source: "patch" };
+  } catch (error) {
+    throw new CompareResultTreeUnavailableError(
+      record.runId,
+      agent.agentId,
+      getGitStderr(error) ?? toErrorMessage(error),
+    );
+  }
+}
+
+async function readCandidateFiles(options: {
+  root: string;
+  baseRevisionSha: string;
+  agent: AgentInvocationEnhanced;
+  warnings: string[];
+}): Promise<CompareJsonFile[]> {
+  const { root, baseRevisionSha, agent, warnings } = options;
+
+  const diffPath = agent.assets.diffPath
+    ? resolveDisplayPath(root, agent.assets.diffPath)
+    : null;
+  try {
+    if (diffPath && (await pathExists(diffPath))) {
+      const patch = await readFile(diffPath, "utf8");
+      if (patch.trim().length === 0) {
+        return [];
+      }
+      return parseNumstat(
+        await runGitCommand(["apply", "--numstat", diffPath], { cwd: root }),
+      );
+    }
+
+    const commitSha = await findExistingCommit(root, agent.commitSha);
+    if (commitSha) {
+      return parseNumstat(
+        await runGitCommand(["diff", "--numstat", baseRevisionSha, commitSha], {
+          cwd: root,
+        }),
+      );
+    }
+  } catch (error) {
+    warnings.push(
+      `Could not list files for \`${agent.agentId}\`: ${getGitStderr(error) ?? toErrorMessage(error)}`,
+    );
+    return [];
+  }
+
+  if (agent.diffStatistics) {
+    warnings.push(
+      `Diff for \`${agent.agentId}\` is missing on disk; files are unavailable.`,
+    );
+  }
+  return [];
+}
+
+async function readLatestProgrammaticResults(options: {
+  root: string;
+  verificationsFilePath: string;
+  runId: string;
+  warnings: string[];
+}): Promise<
+  | {
+      verification: CompareJsonVerification;
+      checksByAgent: Map<string, CompareJsonCheck[]>;
+    }
+  | undefined
+> {
+  const { root, verificationsFilePath, runId, warnings } = options;
+  if (!(await pathExists(verificationsFilePath))) {
+    return undefined;
+  }
+
+  const records = await readVerificationRecords({
+    root,
+    verificationsFilePath,
+    predicate: (record) => verificationTargetIncludesRun(record.target, runId),
+  });
+  const latest = records
+    .flatMap((record) => {
+      const artifactPath = findProgrammaticArtifactPath(record);
+      return artifactPath ? [{ record, artifactPath }] : [];
+    })
+    .sort((left, right) =>
+      right.record.createdAt.localeCompare(left.record.createdAt),
+    )[0];
+  if (!latest) {
+    return undefined;
+  }
+
+  const { record: verification, artifactPath } = latest;
+  const checksByAgent = new Map<string, CompareJsonCheck[]>();
+  try {
+    const raw = await readFile(
+      resolveDisplayPath(root, artifactPath) ?? artifactPath,
+      "utf8",
+    );
+    const artifact = programmaticResultArtifactSchema.parse(JSON.parse(raw));
+    if (artifact.scope === "run") {
+      for (const candidate of artifact.candidates) {
+        checksByAgent.set(
+          candidate.candidateId,
+          candidate.results.map((result) => ({
+            slug: result.slug,
+            status: result.status,
+            ...(result.exitCode !== undefined
+              ? { exitCode: result.exitCode }
+              : {}),
+          })),
+        );
+      }
+    }
+  } catch (error) {
+    warnings.push(
+      `Could not read programmatic results from verification \`${verification.sessionId}\`: ${toErrorMessage(error)}`,
+    );
+  }
+
+  return {
+    verification: {
+      sessionId: verification.sessionId,
+      status: verification.status,
+      createdAt: verification.createdAt,
+    },
+    checksByAgent,
+  };
+}
+
+function findProgrammaticArtifactPath(
+  record: VerificationRecord,
+): string | undefined {
+  return record.methods.find(
+    (method) => method.method === "programmatic" && method.artifactPath,
+  )?.artifactPath;
+}
+
+function resolveAgentDurationMs(
+  agent: AgentInvocationEnhanced,
+): number | undefined {
+  return resolveLifecycleExecutionDurationMs(
+    {
+      status: agent.status,
+      startedAt: agent.startedAt,
+      completedAt: agent.completedAt,
+    },
+    {
+      statusGroups: {
+        running: ["running"],
+        terminal: TERMINAL_AGENT_STATUSES,
+      },
+    },
+  );
+}
+
+function parseNumstat(output: string): CompareJsonFile[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const [insertions = "-", deletions = "-", ...pathParts] =
+        line.split("\t");
+      return {
+        path: pathParts.join("\t"),
+        insertions: insertions === "-" ? null : Number(insertions),
+        deletions: deletions === "-" ? null : Number(deletions),
+      };
+    });
+}
+
+function parseDiffStatistics(value?: string): CompareJsonChanges | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const filesChanged = extractStat(FILES_CHANGED_PATTERN, value);
+  const insertions = extractStat(INSERTIONS_PATTERN, value);
+  const deletions = extractStat(DELETIONS_PATTERN, value);
+  if (
+    filesChanged === undefined &&
+    insertions === undefined &&
+    deletions === undefined
+  ) {
+    return undefined;
+  }
+
+  return {
+    ...(filesChanged !== undefined ? { filesChanged } : {}),
+    ...(insertions !== undefined ? { insertions } : {}),
+    ...(deletions !== undefined ? { deletions } : {}),
+  };
+}
+
+function toTokenCounts(
+  tokenUsage: AgentInvocationEnhanced["tokenUsage"],
+): Record<string, number> | undefined {
+  if (!tokenUsage) {
+    return undefined;
+  }
+  const entries = Object.entries(tokenUsage).filter(
+    (entry): entry is [string, number] => typeof entry[1] === "number",
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
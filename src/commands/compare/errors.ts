@@ -0,0 +1,41 @@
+import { CliError } from "../../cli/errors.js";
+
+export class CompareError extends CliError {
+  constructor(
+    headline: string,
+    detailLines: readonly string[] = [],
+    hintLines: readonly string[] = [],
+  ) {
+    super(headline, detailLines, hintLines);
+    this.name = "CompareError";
+  }
+}
+
+export class CompareAgentNotFoundError extends CompareError {
+  constructor(
+    public readonly runId: string,
+    public readonly agentId: string,
+  ) {
+    super(
+      `Agent \`${agentId}\` not found in run \`${runId}\`.`,
+      [],
+      ["Check available agents with `voratiq list --run <run-id>`."],
+    );
+    this.name = "CompareAgentNotFoundError";
+  }
+}
+
+export class CompareResultTreeUnavailableError extends CompareError {
+  constructor(
+    public readonly runId: string,
+    public readonly agentId: string,
+    detail: string,
+  ) {
+    super(
+      `Cannot rebuild the result tree for agent \`${agentId}\` in run \`${runId}\`.`,
+      [detail],
+      ["Compare candidates that recorded a commit or a `diff.patch`."],
+    );
+    this.name = "CompareResultTreeUnavailableError";
+  }
+}
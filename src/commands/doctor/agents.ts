@@ -222,6 +222,7 @@ function cloneAgentEntry(entry: AgentConfigEntry): AgentConfigEntry {
       entry.extraArgs && entry.extraArgs.length > 0
         ? [...entry.extraArgs]
         : undefined,
+    ...(entry.watchdog ? { watchdog: { ...entry.watchdog } } : {}),
   };
 }
 
@@ -8,8 +8,11 @@ import type { EnvironmentConfig } from "../../configs/environment/types.js";
 import {
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  getToolchainPaths,
   isNodeEnvironmentDisabled,
   isPythonEnvironmentDisabled,
+  isToolchainEnvironmentDisabled,
+  TOOLCHAIN_IDS,
 } from "../../configs/environment/types.js";
 import { persistYamlConfig, readConfigSnapshot } from "../../utils/yaml.js";
 import { VORATIQ_ENVIRONMENT_FILE } from "../../workspace/constants.js";
@@ -123,6 +126,18 @@ function mergeEnvironmentConfig(
     }
   }
 
+  for (const toolchain of TOOLCHAIN_IDS) {
+    if (
+      isToolchainEnvironmentDisabled(merged, toolchain) ||
+      Object.keys(getToolchainPaths(merged, toolchain)).length > 0
+    ) {
+      continue;
+    }
+    if (Object.keys(getToolchainPaths(detected, toolchain)).length > 0) {
+      Object.assign(merged, { [toolchain]: detected[toolchain] });
+    }
+  }
+
   return merged;
 }
 
@@ -150,5 +165,13 @@ function describeEnvironmentEntries(config: EnvironmentConfig): string[] {
       entries.push("python");
     }
   }
+
+  for (const toolchain of TOOLCHAIN_IDS) {
+    if (isToolchainEnvironmentDisabled(config, toolchain)) {
+      entries.push(`${toolchain} (disabled)`);
+    } else if (Object.keys(getToolchainPaths(config, toolchain)).length > 0) {
+      entries.push(toolchain);
+    }
+  }
   return entries;
 }
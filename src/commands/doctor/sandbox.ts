@@ -0,0 +1,179 @@
+import { readFile } from "node:fs/promises";
+
+import { loadAgentCatalogDiagnostics } from "../../configs/agents/loader.js";
+import {
+  loadSandboxConfiguration,
+  loadSandboxProviderConfig,
+} from "../../configs/sandbox/loader.js";
+import {
+  SANDBOX_STAGE_IDS,
+  type SandboxProviderConfig,
+  type SandboxStageId,
+} from "../../configs/sandbox/types.js";
+import {
+  type RunRecord,
+  type SandboxDenial,
+  sandboxDenialsArtifactSchema,
+} from "../../domain/run/model/types.js";
+import { readRunRecords } from "../../domain/run/persistence/adapter.js";
+import { pathExists } from "../../utils/fs.js";
+import { resolvePath } from "../../utils/path.js";
+import { getAgentSandboxDenialsPath } from "../../workspace/artifact-paths.js";
+import { VORATIQ_RUN_FILE } from "../../workspace/constants.js";
+import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+
+export interface DoctorSandboxPolicy {
+  readonly agentId: string;
+  readonly providerId: string;
+  /** Stages whose provider, stage, and agent layers resolve to `policy`. */
+  readonly stages: readonly SandboxStageId[];
+  readonly policy: SandboxProviderConfig;
+}
+
+export interface DoctorSandboxDenialSuggestion {
+  readonly runId: string;
+  readonly agentId: string;
+  /** `network.allowedDomains` entries covering the denied connections. */
+  readonly allowedDomains: readonly string[];
+  /** `filesystem.allowWrite` entries covering the denied writes. */
+  readonly allowWrite: readonly string[];
+}
+
+export interface ExecuteDoctorSandboxReportInput {
+  readonly root: string;
+}
+
+/**
+ * Resolves the sandbox policy for every enabled agent in each stage, grouping
+ * stages that end up with identical policies.
+ */
+export function executeDoctorSandboxReport(
+  input: ExecuteDoctorSandboxReportInput,
+): DoctorSandboxPolicy[] {
+  const { root } = input;
+  loadSandboxConfiguration({ root });
+  const { enabledAgents } = loadAgentCatalogDiagnostics({ root });
+  const report: DoctorSandboxPolicy[] = [];
+
+  for (const entry of enabledAgents) {
+    const groups = new Map<
+      string,
+      { stages: SandboxStageId[]; policy: SandboxProviderConfig }
+    >();
+
+    for (const stageId of SANDBOX_STAGE_IDS) {
+      let policy: SandboxProviderConfig;
+      try {
+        policy = loadSandboxProviderConfig({
+          root,
+          providerId: entry.provider,
+          stageId,
+          agentId: entry.id,
+        });
+      } catch {
+        // Unsupported providers are reported by the diagnosis itself.
+        break;
+      }
+
+      const key = JSON.stringify(policy);
+      const group = groups.get(key);
+      if (group) {
+        group.stages.push(stageId);
+      } else {
+        groups.set(key, { stages: [stageId], policy });
+      }
+    }
+
+    for (const group of groups.values()) {
+      report.push({
+        agentId: entry.id,
+        providerId: entry.provider,
+        stages: group.stages,
+        policy: group.policy,
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Finds the most recent run with a failed agent that hit sandbox denials and
+ * derives the `sandbox.yaml` entries that would have allowed those accesses.
+ * Denied reads are skipped because `sandbox.yaml` has no read allowlist.
+ */
+export async function executeDoctorSandboxDenialSuggestions(
+  input: ExecuteDoctorSandboxReportInput,
+): Promise<DoctorSandboxDenialSuggestion[]> {
+  const { root } = input;
+  const runsFilePath = resolveWorkspacePath(root, VORATIQ_RUN_FILE);
+  if (!(await pathExists(runsFilePath))) {
+    return [];
+  }
+
+  const [record] = await readRunRecords({
+    root,
+    runsFilePath,
+    limit: 1,
+    predicate: (candidate) => listDeniedFailedAgents(candidate).length > 0,
+  });
+  if (!record) {
+    return [];
+  }
+
+  const suggestions: DoctorSandboxDenialSuggestion[] = [];
+  for (const agentId of listDeniedFailedAgents(record)) {
+    const artifactPath = resolvePath(
+      root,
+      getAgentSandboxDenialsPath(record.runId, agentId),
+    );
+    let denials: SandboxDenial[];
+    try {
+      const raw = await readFile(artifactPath, "utf8");
+      denials = sandboxDenialsArtifactSchema.parse(JSON.parse(raw)).denials;
+    } catch {
+      // A missing or malformed artifact leaves nothing to suggest.
+      continue;
+    }
+
+    const allowedDomains = new Set<string>();
+    const allowWrite = new Set<string>();
+    for (const denial of denials) {
+      if (denial.operation === "network-connect") {
+        allowedDomains.add(toAllowedDomain(denial.target));
+      } else if (denial.operation === "file-write") {
+        allowWrite.add(denial.target);
+      }
+    }
+    if (allowedDomains.size === 0 && allowWrite.size === 0) {
+      continue;
+    }
+
+    suggestions.push({
+      runId: record.runId,
+      agentId,
+      allowedDomains: [...allowedDomains].sort(),
+      allowWrite: [...allowWrite].sort(),
+    });
+  }
+
+  return suggestions;
+}
+
+function listDeniedFailedAgents(record: RunRecord): string[] {
+  return record.agents
+    .filter(
+      (agent) =>
+        agent.status === "failed" &&
+        agent.artifacts?.sandboxDenialsCaptured === true,
+    )
+    .map((agent) => agent.agentId);
+}
+
+function toAllowedDomain(target: string): string {
+  const bracketed = target.match(/^\[([^\]]+)\](?::\d+)?$/u);
+  if (bracketed?.[1]) {
+    return bracketed[1];
+  }
+  return target.replace(/:\d+$/u, "");
+}
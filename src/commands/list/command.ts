@@ -1,8 +1,9 @@
-import type {
-  ListJsonOutput,
-  ListJsonVerificationSelection,
-  ListMode,
-  ListOperator,
+import {
+  type ListJsonOutput,
+  type ListJsonVerificationSelection,
+  type ListMode,
+  type ListOperator,
+  listOperators,
 } from "../../contracts/list.js";
 import type { InteractiveSessionRecord } from "../../domain/interactive/model/types.js";
 import {
@@ -24,6 +25,7 @@ import {
   readRunRecords,
   type RunRecordWarning,
 } from "../../domain/run/persistence/adapter.js";
+import { sumCostUsd } from "../../domain/shared/token-cost.js";
 import type { SpecRecord } from "../../domain/spec/model/types.js";
 import {
   readSpecRecords,
@@ -44,6 +46,7 @@ import {
   renderReduceListTable,
   renderRunListTable,
   renderSpecListTable,
+  renderTimelineListTable,
   renderVerifyListTable,
 } from "../../render/transcripts/list.js";
 import {
@@ -65,6 +68,7 @@ import {
 import {
   formatVerifyElapsed,
   renderVerifyTranscript,
+  type VerifyTranscriptCriteria,
 } from "../../render/transcripts/verify.js";
 import {
   formatRenderLifecycleDuration,
@@ -73,6 +77,16 @@ import {
 import type { RunStatus } from "../../status/index.js";
 import { toErrorMessage } from "../../utils/errors.js";
 import { pathExists } from "../../utils/fs.js";
+import {
+  type ProfileAgentIds,
+  resolveProfileAgentIds,
+} from "../shared/resolve-stage-competitors.js";
+import {
+  buildListFilterPredicate,
+  isListOperatorFilterable,
+  type ListSessionFilters,
+  matchesListGrep,
+} from "./filters.js";
 import {
   formatTargetDisplay,
   formatTargetTablePreview,
@@ -101,9 +115,15 @@ export interface ListCommandInput {
   sessionId?: string;
   limit?: number;
   allStatuses?: boolean;
+  filters?: ListSessionFilters;
   verbose?: boolean;
 }
 
+export type ListTimelineCommandInput = Omit<
+  ListCommandInput,
+  "operator" | "sessionId" | "verbose"
+>;
+
 export interface ListCommandResult {
   warnings: string[];
   output?: string;
@@ -130,12 +150,11 @@ export async function executeListCommand(
 async function executeSummaryMode(
   input: ListCommandInput & { limit: number },
 ): Promise<ListCommandResult> {
-  const { operator, limit, allStatuses = false } = input;
-  const predicate = allStatuses
-    ? undefined
-    : (record: OperatorRecord) =>
-        shouldIncludeInDefaultSummary(operator, getRecordStatus(record));
-  const query = await readOperatorRecords({ ...input, limit, predicate });
+  const { operator } = input;
+  const query = await readSummaryRecords({
+    ...input,
+    profileAgentIds: resolveFilterProfileAgentIds(input),
+  });
   const records = query.records;
   const sessions = records.map((record) =>
     normalizeListSession(operator, record),
@@ -151,11 +170,145 @@ async function executeSummaryMode(
       operator,
       mode: "summary",
       sessions: sessions.map(toJsonSummarySession),
+      ...buildListTotalCostFields(sessions),
+      warnings,
+    },
+  };
+}
+
+/**
+ * Summary sessions of every operator, newest first. Each operator contributes
+ * at most `limit` sessions before the merged list is cut to `limit`.
+ */
+export async function executeListTimelineCommand(
+  input: ListTimelineCommandInput,
+): Promise<ListCommandResult> {
+  const limit = input.limit ?? DEFAULT_LIMIT;
+  const filters = input.filters ?? {};
+  const profileAgentIds = resolveFilterProfileAgentIds(input);
+
+  const sessions: NormalizedListSession[] = [];
+  const warnings: string[] = [];
+  for (const operator of listOperators) {
+    if (!isListOperatorFilterable(operator, filters)) {
+      continue;
+    }
+    const query = await readSummaryRecords({
+      ...input,
+      operator,
+      limit,
+      profileAgentIds,
+    });
+    sessions.push(
+      ...query.records.map((record) => normalizeListSession(operator, record)),
+    );
+    warnings.push(...query.warnings);
+  }
+
+  const timeline = sessions
+    .sort(
+      (left, right) => Date.parse(right.createdAt) - Date.parse(left.createdAt),
+    )
+    .slice(0, limit);
+
+  return {
+    warnings,
+    output:
+      timeline.length === 0
+        ? undefined
+        : renderListTableTranscript(
+            renderTimelineListTable(
+              timeline.map((session) => ({
+                operator: session.operator,
+                id: session.sessionId,
+                target: formatSessionTargetPreview(session),
+                status: session.status,
+                createdAt: session.createdAt,
+              })),
+            ),
+            {
+              totalCostUsd: sumCostUsd(
+                timeline.map((session) => session.costUsd),
+              ),
+            },
+          ),
+    mode: "timeline",
+    json: {
+      mode: "timeline",
+      sessions: timeline.map(toJsonSummarySession),
+      ...buildListTotalCostFields(timeline),
       warnings,
     },
   };
 }
 
+function resolveFilterProfileAgentIds(input: {
+  root: string;
+  filters?: ListSessionFilters;
+}): ProfileAgentIds | undefined {
+  const profile = input.filters?.profile;
+  return profile ? resolveProfileAgentIds(input.root, profile) : undefined;
+}
+
+/**
+ * Reads one operator's summary sessions. Aborted sessions stay hidden unless
+ * `allStatuses` is set or `--status` asks for them. `grep` reads artifacts, so
+ * it filters after the store walk and the limit is applied here instead.
+ */
+async function readSummaryRecords(
+  input: Omit<ReadOperatorRecordsInput, "predicate"> & {
+    limit: number;
+    allStatuses?: boolean;
+    filters?: ListSessionFilters;
+    profileAgentIds?: ProfileAgentIds;
+  },
+): Promise<ReadOperatorRecordsOutput> {
+  const { operator, limit, filters = {}, profileAgentIds } = input;
+  const includeAllStatuses =
+    input.allStatuses === true ||
+    (filters.statuses !== undefined && filters.statuses.length > 0);
+  const filterPredicate = buildListFilterPredicate({
+    operator,
+    filters,
+    profileAgentIds,
+  });
+  const predicate =
+    includeAllStatuses && !filterPredicate
+      ? undefined
+      : (record: OperatorRecord) =>
+          (includeAllStatuses ||
+            shouldIncludeInDefaultSummary(operator, getRecordStatus(record))) &&
+          (filterPredicate?.(record) ?? true);
+  const range = {
+    createdSince: filters.since,
+    createdUntil: filters.until,
+  };
+
+  const pattern = filters.grep;
+  if (pattern === undefined) {
+    return await readOperatorRecords({ ...input, ...range, limit, predicate });
+  }
+
+  const query = await readOperatorRecords({
+    ...input,
+    ...range,
+    limit: undefined,
+    predicate,
+  });
+  const records: OperatorRecord[] = [];
+  for (const record of query.records) {
+    if (records.length >= limit) {
+      break;
+    }
+    if (
+      await matchesListGrep({ root: input.root, operator, record, pattern })
+    ) {
+      records.push(record);
+    }
+  }
+  return { records, warnings: query.warnings };
+}
+
 async function executeDetailMode(
   input: ListCommandInput,
 ): Promise<ListCommandResult> {
@@ -188,20 +341,23 @@ async function executeDetailMode(
   }
 
   const detailSession = normalizeListDetailSession(operator, record);
-  const selection = await resolveListDetailVerificationSelection({
+  const { selection, criteria } = await resolveListDetailVerification({
     root: input.root,
     operator,
     record,
     warnings,
   });
-  const jsonSession: NormalizedListDetailSession = selection
-    ? { ...detailSession, selection }
-    : detailSession;
+  const jsonSession: NormalizedListDetailSession = {
+    ...detailSession,
+    ...(selection ? { selection } : {}),
+    ...(criteria ? { criteria: [...criteria.verdicts] } : {}),
+  };
 
   return {
     warnings,
     output: renderDetailOutput(operator, detailSession, {
       expanded: input.verbose === true,
+      criteria,
     }),
     mode: "detail",
     json: {
@@ -227,9 +383,7 @@ function renderTableOutput(
       ? renderRunListTable(
           sessions.map((session) => ({
             id: session.sessionId,
-            target: session.target
-              ? formatTargetTablePreview(session.target)
-              : DASH,
+            target: formatSessionTargetPreview(session),
             status: session.status,
             createdAt: session.createdAt,
           })),
@@ -249,9 +403,7 @@ function renderTableOutput(
           ? renderMessageListTable(
               sessions.map((session) => ({
                 id: session.sessionId,
-                target: session.target
-                  ? formatTargetTablePreview(session.target)
-                  : DASH,
+                target: formatSessionTargetPreview(session),
                 status: session.status,
                 createdAt: session.createdAt,
               })),
@@ -268,9 +420,7 @@ function renderTableOutput(
               ? renderReduceListTable(
                   sessions.map((session) => ({
                     id: session.sessionId,
-                    target: session.target
-                      ? formatTargetTablePreview(session.target)
-                      : DASH,
+                    target: formatSessionTargetPreview(session),
                     status: session.status,
                     createdAt: session.createdAt,
                   })),
@@ -278,21 +428,21 @@ function renderTableOutput(
               : renderVerifyListTable(
                   sessions.map((session) => ({
                     id: session.sessionId,
-                    target: session.target
-                      ? formatTargetTablePreview(session.target)
-                      : DASH,
+                    target: formatSessionTargetPreview(session),
                     status: session.status,
                     createdAt: session.createdAt,
                   })),
                 );
 
-  return renderListTableTranscript(table);
+  return renderListTableTranscript(table, {
+    totalCostUsd: sumCostUsd(sessions.map((session) => session.costUsd)),
+  });
 }
 
 function renderDetailOutput(
   operator: ListOperator,
   session: NormalizedListDetailSession,
-  options: { expanded: boolean },
+  options: { expanded: boolean; criteria?: VerifyTranscriptCriteria },
 ) {
   if (operator === "run") {
     return renderRunTranscript({
@@ -302,9 +452,7 @@ function renderDetailOutput(
       createdAt: session.createdAt,
       startedAt: session.startedAt,
       completedAt: session.completedAt,
-      targetDisplay: session.target
-        ? formatTargetDisplay(session.target)
-        : undefined,
+      targetDisplay: formatSessionTargetDisplay(session),
       agents: session.agents.map((agent) => ({
         agentId: agent.agentId ?? DASH,
         status: agent.status as RunRecord["agents"][number]["status"],
@@ -313,6 +461,10 @@ function renderDetailOutput(
         diffStatistics: agent.diffStatistics,
         outputPath: agent.outputPath,
         errorLine: agent.errorLine,
+        sandboxDenialCount: agent.sandboxDenialCount,
+        sandboxDenialsPath: agent.artifacts.find(
+          (artifact) => artifact.kind === "sandbox-denials",
+        )?.path,
       })),
       isTty: process.stdout.isTTY,
       includeDetailSections: options.expanded,
@@ -363,9 +515,7 @@ function renderDetailOutput(
         }) ?? DASH,
       workspacePath: session.workspacePath,
       status: session.status as ReductionRecord["status"],
-      targetDisplay: session.target
-        ? formatTargetDisplay(session.target)
-        : undefined,
+      targetDisplay: formatSessionTargetDisplay(session),
       reducers: session.agents.map((agent) => ({
         reducerAgentId: agent.agentId ?? DASH,
         status: agent.status as ReductionRecord["reducers"][number]["status"],
@@ -396,9 +546,7 @@ function renderDetailOutput(
         }) ?? DASH,
       workspacePath: session.workspacePath,
       status: session.status as MessageRecord["status"],
-      targetDisplay: session.target
-        ? formatTargetDisplay(session.target)
-        : undefined,
+      targetDisplay: formatSessionTargetDisplay(session),
       recipients: session.agents.map((agent) => ({
         agentId: agent.agentId ?? DASH,
         status: agent.status as MessageRecord["recipients"][number]["status"],
@@ -409,6 +557,10 @@ function renderDetailOutput(
         }),
         outputPath: agent.outputPath,
         errorLine: agent.errorLine,
+        sandboxDenialCount: agent.sandboxDenialCount,
+        sandboxDenialsPath: agent.artifacts.find(
+          (artifact) => artifact.kind === "sandbox-denials",
+        )?.path,
       })),
       isTty: process.stdout.isTTY,
       includeDetailSections: options.expanded,
@@ -453,9 +605,7 @@ function renderDetailOutput(
         completedAt: session.completedAt,
       }) ?? DASH,
     workspacePath: session.workspacePath,
-    targetDisplay: session.target
-      ? formatTargetDisplay(session.target)
-      : undefined,
+    targetDisplay: formatSessionTargetDisplay(session),
     status: session.status as VerificationRecord["status"],
     methods: session.agents.map((agent) => ({
       verifierLabel: agent.verifier ?? "rubric",
@@ -465,12 +615,31 @@ function renderDetailOutput(
       artifactPath: agent.outputPath,
       errorLine: agent.errorLine,
     })),
+    ...(options.criteria ? { criteria: options.criteria } : {}),
     suppressHint: true,
     isTty: process.stdout.isTTY,
     includeDetailSections: options.expanded,
   });
 }
 
+function formatSessionTargetPreview(session: NormalizedListSession): string {
+  if (!session.target) {
+    return DASH;
+  }
+  const preview = formatTargetTablePreview(session.target);
+  const extraTargetCount = (session.targets?.length ?? 1) - 1;
+  return extraTargetCount > 0 ? `${preview} +${extraTargetCount}` : preview;
+}
+
+function formatSessionTargetDisplay(
+  session: NormalizedListSession,
+): string | undefined {
+  const targets = session.targets ?? (session.target ? [session.target] : []);
+  return targets.length > 0
+    ? targets.map(formatTargetDisplay).join(", ")
+    : undefined;
+}
+
 function toJsonSummarySession(session: NormalizedListSession) {
   return {
     operator: session.operator,
@@ -478,12 +647,23 @@ function toJsonSummarySession(session: NormalizedListSession) {
     status: session.status,
     createdAt: session.createdAt,
     ...(session.target ? { target: toListJsonTargetRef(session.target) } : {}),
+    ...(session.targets
+      ? { targets: session.targets.map(toListJsonTargetRef) }
+      : {}),
     ...(session.description !== undefined
       ? { description: session.description }
       : {}),
+    ...(session.costUsd !== undefined ? { costUsd: session.costUsd } : {}),
   };
 }
 
+function buildListTotalCostFields(sessions: readonly NormalizedListSession[]): {
+  totalCostUsd?: number;
+} {
+  const totalCostUsd = sumCostUsd(sessions.map((session) => session.costUsd));
+  return totalCostUsd !== undefined ? { totalCostUsd } : {};
+}
+
 function toJsonDetailSession(
   session: NormalizedListDetailSession,
 ): Extract<ListJsonOutput, { mode: "detail" }>["session"] {
@@ -496,11 +676,16 @@ function toJsonDetailSession(
     ...(session.completedAt ? { completedAt: session.completedAt } : {}),
     workspacePath: session.workspacePath,
     ...(session.target ? { target: toListJsonTargetRef(session.target) } : {}),
+    ...(session.targets
+      ? { targets: session.targets.map(toListJsonTargetRef) }
+      : {}),
     ...(session.description !== undefined
       ? { description: session.description }
       : {}),
+    ...(session.costUsd !== undefined ? { costUsd: session.costUsd } : {}),
     agents: session.agents.map(toJsonAgent),
     ...(session.selection ? { selection: session.selection } : {}),
+    ...(session.criteria ? { criteria: session.criteria } : {}),
   };
 }
 
@@ -512,6 +697,10 @@ function toJsonAgent(agent: NormalizedListAgent) {
     ...(agent.completedAt ? { completedAt: agent.completedAt } : {}),
     ...(agent.verifier ? { verifier: agent.verifier } : {}),
     ...(agent.changes ? { changes: agent.changes } : {}),
+    ...(agent.costUsd !== undefined ? { costUsd: agent.costUsd } : {}),
+    ...(agent.sandboxDenialCount !== undefined
+      ? { sandboxDenialCount: agent.sandboxDenialCount }
+      : {}),
     artifacts: agent.artifacts,
   };
 }
@@ -539,6 +728,8 @@ interface ReadOperatorRecordsInput {
   interactiveFilePath: string;
   operator: ListOperator;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: (record: OperatorRecord) => boolean;
 }
 
@@ -562,6 +753,8 @@ async function readOperatorRecords(
       root,
       runsFilePath: input.runsFilePath,
       limit: input.limit,
+      createdSince: input.createdSince,
+      createdUntil: input.createdUntil,
       predicate: input.predicate as
         | ((record: RunRecord) => boolean)
         | undefined,
@@ -584,6 +777,8 @@ async function readOperatorRecords(
       root,
       specsFilePath: input.specsFilePath,
       limit: input.limit,
+      createdSince: input.createdSince,
+      createdUntil: input.createdUntil,
       predicate: input.predicate as
         | ((record: SpecRecord) => boolean)
         | undefined,
@@ -606,6 +801,8 @@ async function readOperatorRecords(
       root,
       reductionsFilePath: input.reductionsFilePath,
       limit: input.limit,
+      createdSince: input.createdSince,
+      createdUntil: input.createdUntil,
       predicate: input.predicate as
         | ((record: ReductionRecord) => boolean)
         | undefined,
@@ -628,6 +825,8 @@ async function readOperatorRecords(
       root,
       messagesFilePath: input.messagesFilePath,
       limit: input.limit,
+      createdSince: input.createdSince,
+      createdUntil: input.createdUntil,
       predicate: input.predicate as
         | ((record: MessageRecord) => boolean)
         | undefined,
@@ -650,6 +849,8 @@ async function readOperatorRecords(
       root,
       interactiveFilePath: input.interactiveFilePath,
       limit: input.limit,
+      createdSince: input.createdSince,
+      createdUntil: input.createdUntil,
       predicate: input.predicate as
         | ((record: InteractiveSessionRecord) => boolean)
         | undefined,
@@ -671,6 +872,8 @@ async function readOperatorRecords(
     root,
     verificationsFilePath: input.verificationsFilePath,
     limit: input.limit,
+    createdSince: input.createdSince,
+    createdUntil: input.createdUntil,
     predicate: input.predicate as
       | ((record: VerificationRecord) => boolean)
       | undefined,
@@ -698,21 +901,24 @@ function formatSessionWarning(warning: { displayPath: string }): string {
   return `Ignoring corrupt session ${warning.displayPath}`;
 }
 
-async function resolveListDetailVerificationSelection(options: {
+async function resolveListDetailVerification(options: {
   root: string;
   operator: ListOperator;
   record: OperatorRecord;
   warnings: string[];
-}): Promise<ListJsonVerificationSelection | undefined> {
+}): Promise<{
+  selection?: ListJsonVerificationSelection;
+  criteria?: VerifyTranscriptCriteria;
+}> {
   const { root, operator, record, warnings } = options;
   if (operator !== "verify") {
-    return undefined;
+    return {};
   }
 
   const verificationRecord = record as VerificationRecord;
 
   if (!TERMINAL_VERIFICATION_STATUSES.includes(verificationRecord.status)) {
-    return undefined;
+    return {};
   }
 
   if (
@@ -720,13 +926,15 @@ async function resolveListDetailVerificationSelection(options: {
     verificationRecord.status === "aborted"
   ) {
     return {
-      state: "unresolved",
-      unresolvedReasons: [
-        {
-          code: "verification_not_succeeded",
-          status: verificationRecord.status,
-        },
-      ],
+      selection: {
+        state: "unresolved",
+        unresolvedReasons: [
+          {
+            code: "verification_not_succeeded",
+            status: verificationRecord.status,
+          },
+        ],
+      },
     };
   }
 
@@ -740,24 +948,32 @@ async function resolveListDetailVerificationSelection(options: {
     return undefined;
   });
   if (!output) {
-    return undefined;
+    return {};
   }
 
   if (output.warnings) {
     warnings.push(...output.warnings);
   }
 
+  const criteria = output.input.criteria
+    ? {
+        candidateIds: output.input.canonicalCandidateIds,
+        verdicts: output.input.criteria,
+      }
+    : undefined;
   const decision = output.decision;
-  if (decision.state === "resolvable") {
-    return {
-      state: "resolvable",
-      selectedCanonicalAgentId: decision.selectedCanonicalAgentId,
-    };
-  }
-
   return {
-    state: "unresolved",
-    unresolvedReasons: decision.unresolvedReasons,
+    selection:
+      decision.state === "resolvable"
+        ? {
+            state: "resolvable",
+            selectedCanonicalAgentId: decision.selectedCanonicalAgentId,
+          }
+        : {
+            state: "unresolved",
+            unresolvedReasons: decision.unresolvedReasons,
+          },
+    ...(criteria ? { criteria } : {}),
   };
 }
 
@@ -0,0 +1,220 @@
+import { readFile } from "node:fs/promises";
+
+import type { ListOperator } from "../../contracts/list.js";
+import type { InteractiveSessionRecord } from "../../domain/interactive/model/types.js";
+import type { MessageRecord } from "../../domain/message/model/types.js";
+import type { ReductionRecord } from "../../domain/reduce/model/types.js";
+import type { RunRecord } from "../../domain/run/model/types.js";
+import type { SpecRecord } from "../../domain/spec/model/types.js";
+import type { VerificationRecord } from "../../domain/verify/model/types.js";
+import { isFileSystemError } from "../../utils/fs.js";
+import { resolvePath } from "../../utils/path.js";
+import { buildAgentArtifactPaths } from "../../workspace/artifact-paths.js";
+import type { ProfileAgentIds } from "../shared/resolve-stage-competitors.js";
+import type { ListRecord } from "./records.js";
+
+/**
+ * Summary-scope filters. Values within `agentIds` and `statuses` match any;
+ * separate filters must all match.
+ */
+export interface ListSessionFilters {
+  agentIds?: readonly string[];
+  statuses?: readonly string[];
+  /** Inclusive lower bound on `createdAt`. */
+  since?: Date;
+  /** Exclusive upper bound on `createdAt`. */
+  until?: Date;
+  /** Runs of this spec file and spec sessions that drafted it. */
+  specPath?: string;
+  /** Runs with a recorded, non-failed apply. */
+  applied?: boolean;
+  /** Sessions with an agent the orchestration profile assigns to the stage. */
+  profile?: string;
+  /** Case-insensitive text in descriptions, prompts, tasks, or run summaries. */
+  grep?: string;
+}
+
+/** Whether any session of `operator` could pass the filters. */
+export function isListOperatorFilterable(
+  operator: ListOperator,
+  filters: ListSessionFilters,
+): boolean {
+  if (filters.applied && operator !== "run") {
+    return false;
+  }
+  if (
+    filters.specPath !== undefined &&
+    operator !== "run" &&
+    operator !== "spec"
+  ) {
+    return false;
+  }
+  if (filters.profile !== undefined && operator === "interactive") {
+    return false;
+  }
+  if (
+    filters.grep !== undefined &&
+    (operator === "reduce" || operator === "verify")
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The synchronous part of the filters, checked while the session store walks
+ * its index. `since`/`until` are applied by the store itself and `grep` needs
+ * disk reads, so neither appears here. Returns undefined when nothing applies.
+ */
+export function buildListFilterPredicate(options: {
+  operator: ListOperator;
+  filters: ListSessionFilters;
+  profileAgentIds?: ProfileAgentIds;
+}): ((record: ListRecord) => boolean) | undefined {
+  const { operator, filters, profileAgentIds } = options;
+  const predicates: ((record: ListRecord) => boolean)[] = [];
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    const statuses = new Set(filters.statuses);
+    predicates.push((record) => statuses.has(record.status));
+  }
+
+  if (filters.agentIds && filters.agentIds.length > 0) {
+    const agentIds = new Set(filters.agentIds);
+    predicates.push((record) =>
+      getListRecordAgentIds(operator, record).some((agentId) =>
+        agentIds.has(agentId),
+      ),
+    );
+  }
+
+  if (profileAgentIds) {
+    const stageAgentIds =
+      operator === "interactive" ? undefined : profileAgentIds[operator];
+    predicates.push((record) =>
+      stageAgentIds === undefined
+        ? false
+        : getListRecordAgentIds(operator, record).some((agentId) =>
+            stageAgentIds.has(agentId),
+          ),
+    );
+  }
+
+  if (filters.specPath !== undefined) {
+    const specPath = filters.specPath;
+    predicates.push((record) => matchesSpecPath(operator, record, specPath));
+  }
+
+  if (filters.applied) {
+    predicates.push(
+      (record) => operator === "run" && isAppliedRun(record as RunRecord),
+    );
+  }
+
+  if (predicates.length === 0) {
+    return undefined;
+  }
+
+  return (record) => predicates.every((predicate) => predicate(record));
+}
+
+export async function matchesListGrep(options: {
+  root: string;
+  operator: ListOperator;
+  record: ListRecord;
+  pattern: string;
+}): Promise<boolean> {
+  const { root, operator, record } = options;
+  const pattern = options.pattern.toLowerCase();
+  const matches = (text: string | undefined): boolean =>
+    text !== undefined && text.toLowerCase().includes(pattern);
+
+  switch (operator) {
+    case "spec":
+      return matches((record as SpecRecord).description);
+    case "message":
+      return matches((record as MessageRecord).prompt);
+    case "interactive":
+      return matches((record as InteractiveSessionRecord).task);
+    case "run": {
+      const runRecord = record as RunRecord;
+      for (const agent of runRecord.agents) {
+        const { summaryPath } = buildAgentArtifactPaths({
+          runId: runRecord.runId,
+          agentId: agent.agentId,
+          artifacts: agent.artifacts,
+        });
+        if (
+          summaryPath &&
+          matches(await readSummaryFile(resolvePath(root, summaryPath)))
+        ) {
+          return true;
+        }
+      }
+      return false;
+    }
+    default:
+      return false;
+  }
+}
+
+export function getListRecordAgentIds(
+  operator: ListOperator,
+  record: ListRecord,
+): string[] {
+  switch (operator) {
+    case "run":
+      return (record as RunRecord).agents.map((agent) => agent.agentId);
+    case "spec":
+      return (record as SpecRecord).agents.map((agent) => agent.agentId);
+    case "reduce":
+      return (record as ReductionRecord).reducers.map(
+        (reducer) => reducer.agentId,
+      );
+    case "verify":
+      return (record as VerificationRecord).methods.flatMap((method) =>
+        method.verifierId ? [method.verifierId] : [],
+      );
+    case "message":
+      return (record as MessageRecord).recipients.map(
+        (recipient) => recipient.agentId,
+      );
+    case "interactive":
+      return [(record as InteractiveSessionRecord).agentId];
+  }
+}
+
+function matchesSpecPath(
+  operator: ListOperator,
+  record: ListRecord,
+  specPath: string,
+): boolean {
+  if (operator === "run") {
+    return (record as RunRecord).spec.path === specPath;
+  }
+  if (operator === "spec") {
+    return (record as SpecRecord).agents.some(
+      (agent) => agent.outputPath === specPath,
+    );
+  }
+  return false;
+}
+
+function isAppliedRun(record: RunRecord): boolean {
+  return (
+    record.applyStatus !== undefined && record.applyStatus.status !== "failed"
+  );
+}
+
+async function readSummaryFile(
+  absolutePath: string,
+): Promise<string | undefined> {
+  try {
+    return await readFile(absolutePath, "utf8");
+  } catch (error) {
+    if (isFileSystemError(error) && error.code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
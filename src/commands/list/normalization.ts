@@ -1,13 +1,18 @@
 import type {
   ListJsonArtifact,
   ListJsonChanges,
+  ListJsonCriterionVerdict,
   ListJsonTargetRef,
   ListJsonVerificationSelection,
   ListOperator,
 } from "../../contracts/list.js";
 import type { InteractiveSessionRecord } from "../../domain/interactive/model/types.js";
 import type { MessageRecord } from "../../domain/message/model/types.js";
-import type { ReductionRecord } from "../../domain/reduce/model/types.js";
+import {
+  getReductionTargets,
+  type ReductionRecord,
+  type ReductionTarget,
+} from "../../domain/reduce/model/types.js";
 import { buildRunRecordEnhanced } from "../../domain/run/model/enhanced.js";
 import type { RunRecord } from "../../domain/run/model/types.js";
 import type { SpecRecord } from "../../domain/spec/model/types.js";
@@ -60,7 +65,10 @@ export interface NormalizedListSession {
   status: string;
   createdAt: string;
   target?: ListTarget;
+  /** Every target, in order, when a reduction or run verification has several. */
+  targets?: ListTarget[];
   description?: string | null;
+  costUsd?: number;
 }
 
 export interface NormalizedListAgent {
@@ -74,6 +82,8 @@ export interface NormalizedListAgent {
   outputPath?: string;
   dataPath?: string;
   errorLine?: string;
+  costUsd?: number;
+  sandboxDenialCount?: number;
   artifacts: ListJsonArtifact[];
 }
 
@@ -83,6 +93,7 @@ export interface NormalizedListDetailSession extends NormalizedListSession {
   workspacePath: string;
   agents: NormalizedListAgent[];
   selection?: ListJsonVerificationSelection;
+  criteria?: ListJsonCriterionVerdict[];
 }
 
 export function normalizeListSession(
@@ -95,11 +106,13 @@ export function normalizeListSession(
     status: getRecordStatus(record),
     createdAt: getRecordCreatedAt(record),
     target: normalizeListTarget(operator, record),
+    ...normalizeListTargets(operator, record),
     ...(operator === "spec"
       ? {
           description: normalizeDescription((record as SpecRecord).description),
         }
       : {}),
+    ...getRecordCostFields(record),
   };
 }
 
@@ -126,15 +139,30 @@ export function normalizeListDetailSession(
         changes: parseDiffStatistics(agent.diffStatistics),
         outputPath: agent.assets.diffPath,
         errorLine: agent.error ?? undefined,
-        artifacts: agent.assets.diffPath
-          ? [
-              {
-                kind: "diff",
-                role: "output",
-                path: agent.assets.diffPath,
-              },
-            ]
-          : [],
+        costUsd: agent.costUsd,
+        ...(agent.sandboxDenialCount !== undefined
+          ? { sandboxDenialCount: agent.sandboxDenialCount }
+          : {}),
+        artifacts: [
+          ...(agent.assets.diffPath
+            ? [
+                {
+                  kind: "diff",
+                  role: "output" as const,
+                  path: agent.assets.diffPath,
+                },
+              ]
+            : []),
+          ...(agent.assets.sandboxDenialsPath
+            ? [
+                {
+                  kind: "sandbox-denials",
+                  role: "data" as const,
+                  path: agent.assets.sandboxDenialsPath,
+                },
+              ]
+            : []),
+        ],
       })),
     };
   }
@@ -154,6 +182,7 @@ export function normalizeListDetailSession(
         outputPath: agent.outputPath,
         dataPath: agent.dataPath,
         errorLine: agent.error ?? undefined,
+        costUsd: agent.costUsd,
         artifacts: [
           ...(agent.outputPath
             ? [
@@ -195,6 +224,7 @@ export function normalizeListDetailSession(
         outputPath: reducer.outputPath,
         dataPath: reducer.dataPath,
         errorLine: reducer.error ?? undefined,
+        costUsd: reducer.costUsd,
         artifacts: [
           ...(reducer.outputPath
             ? [
@@ -233,6 +263,7 @@ export function normalizeListDetailSession(
         completedAt: recipient.completedAt,
         outputPath: recipient.outputPath,
         errorLine: recipient.error ?? undefined,
+        costUsd: recipient.costUsd,
         artifacts: recipient.outputPath
           ? [
               {
@@ -309,11 +340,7 @@ export function normalizeListTarget(
   }
 
   if (operator === "reduce") {
-    const reductionRecord = record as ReductionRecord;
-    return {
-      kind: reductionRecord.target.type,
-      sessionId: reductionRecord.target.id,
-    };
+    return normalizeReductionTarget((record as ReductionRecord).target);
   }
 
   const verificationRecord = record as VerificationRecord;
@@ -379,6 +406,34 @@ function normalizeMessageTarget(record: MessageRecord): ListTarget | undefined {
   };
 }
 
+function normalizeListTargets(
+  operator: ListOperator,
+  record: ListOperatorRecord,
+): { targets?: ListTarget[] } {
+  if (operator === "verify") {
+    const { target } = record as VerificationRecord;
+    return target.kind === "run" && target.runs
+      ? {
+          targets: target.runs.map((run) => ({
+            kind: "run",
+            sessionId: run.sessionId,
+          })),
+        }
+      : {};
+  }
+  if (operator !== "reduce") {
+    return {};
+  }
+  const targets = getReductionTargets(record as ReductionRecord);
+  return targets.length > 1
+    ? { targets: targets.map(normalizeReductionTarget) }
+    : {};
+}
+
+function normalizeReductionTarget(target: ReductionTarget): ListTarget {
+  return { kind: target.type, sessionId: target.id };
+}
+
 function normalizeVerificationMethod(
   method: VerificationMethodResultRef,
 ): NormalizedListAgent {
@@ -393,6 +448,7 @@ function normalizeVerificationMethod(
     completedAt: method.completedAt,
     outputPath: method.artifactPath,
     errorLine: method.error ?? undefined,
+    costUsd: method.costUsd,
     artifacts: method.artifactPath
       ? [
           {
@@ -440,3 +496,11 @@ function getRecordStatus(record: ListOperatorRecord): string {
 function getRecordCreatedAt(record: ListOperatorRecord): string {
   return record.createdAt;
 }
+
+function getRecordCostFields(record: ListOperatorRecord): {
+  costUsd?: number;
+} {
+  return "costUsd" in record && record.costUsd !== undefined
+    ? { costUsd: record.costUsd }
+    : {};
+}
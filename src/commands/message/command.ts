@@ -1,5 +1,10 @@
 import { executeCompetitionWithAdapter } from "../../competition/command-adapter.js";
 import type { ResolvedExtraContextFile } from "../../competition/shared/extra-context.js";
+import {
+  buildPersistedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
 import { createTeardownController } from "../../competition/shared/teardown.js";
 import { AgentNotFoundError } from "../../configs/agents/errors.js";
 import {
@@ -17,6 +22,7 @@ import {
   appendMessageRecord,
   flushMessageRecordBuffer,
 } from "../../domain/message/persistence/adapter.js";
+import { resolveTokenUsageCost } from "../../domain/shared/token-usage.js";
 import { buildPersistedExtraContextFields } from "../../extra-context/contract.js";
 import { loadOperatorEnvironment } from "../../preflight/environment.js";
 import { prepareConfiguredOperatorReadiness } from "../../preflight/operator.js";
@@ -110,9 +116,20 @@ export async function executeMessageCommand(
     );
   }
   const competitors = preflight.agents;
+  const resolvedPromptOverlays = await resolvePromptOverlays({
+    root,
+    stage: "message",
+    agentIds: competitors.map((agent) => agent.id),
+  });
   const environment = loadOperatorEnvironment({ root });
   const baseRevisionSha = await getHeadRevision(root);
   const messageId = generateSessionId();
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "message",
+    sessionId: messageId,
+    overlays: resolvedPromptOverlays,
+  });
   const createdAt = new Date().toISOString();
   const startedAt = createdAt;
   const persistedTarget = resolveMessageTarget({ target });
@@ -136,6 +153,7 @@ export async function executeMessageCommand(
     prompt,
     recipients: initialRecipients,
     ...buildPersistedExtraContextFields(extraContextFiles),
+    ...buildPersistedPromptOverlays(promptOverlays),
     ...(persistedTarget ? { target: persistedTarget } : {}),
   };
   const teardown = createTeardownController(`message \`${messageId}\``);
@@ -180,6 +198,7 @@ export async function executeMessageCommand(
       prompt,
       environment,
       extraContextFiles,
+      promptOverlays,
       teardown,
     });
 
@@ -285,6 +304,7 @@ function toRecipientEntry(
     stdoutPath: execution.stdoutPath,
     stderrPath: execution.stderrPath,
     tokenUsage: execution.tokenUsage,
+    costUsd: resolveTokenUsageCost(execution.tokenUsageResult),
     error: execution.error ?? null,
   };
 }
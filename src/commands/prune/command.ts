@@ -0,0 +1,394 @@
+import {
+  createTeardownController,
+  runTeardown,
+} from "../../competition/shared/teardown.js";
+import {
+  readMessageRecords,
+  removeMessageRecords,
+} from "../../domain/message/persistence/adapter.js";
+import { getReductionTargets } from "../../domain/reduce/model/types.js";
+import {
+  readReductionRecords,
+  removeReductionRecords,
+} from "../../domain/reduce/persistence/adapter.js";
+import type { RunRecord } from "../../domain/run/model/types.js";
+import {
+  readRunRecords,
+  removeRunRecords,
+} from "../../domain/run/persistence/adapter.js";
+import { getRunVerificationTargetRuns } from "../../domain/verify/model/types.js";
+import {
+  readVerificationRecords,
+  removeVerificationRecords,
+} from "../../domain/verify/persistence/adapter.js";
+import { pathExists } from "../../utils/fs.js";
+import { pruneWorktrees } from "../../utils/git.js";
+import { buildAgentWorkspacePaths } from "../../workspace/layout.js";
+import { registerRunWorkspaceTeardown } from "../run/execution.js";
+
+export const PRUNE_OPERATORS = ["run", "reduce", "verify", "message"] as const;
+
+export type PruneOperator = (typeof PRUNE_OPERATORS)[number];
+
+/** Statuses `--status` may select; in-progress sessions are never pruned. */
+export const PRUNABLE_STATUSES = [
+  "succeeded",
+  "failed",
+  "errored",
+  "aborted",
+] as const;
+
+export type PrunableStatus = (typeof PRUNABLE_STATUSES)[number];
+
+export interface PruneRules {
+  /** Only prune sessions created more than this many milliseconds ago. */
+  olderThanMs?: number;
+  /** Always keep the N most recent sessions of each operator. */
+  keepLast?: number;
+  /** Only prune sessions in one of these statuses. */
+  statuses?: readonly PrunableStatus[];
+  /** Keep runs whose diff was applied. */
+  keepApplied?: boolean;
+}
+
+export interface PruneCommandInput {
+  root: string;
+  runsFilePath: string;
+  reductionsFilePath: string;
+  verificationsFilePath: string;
+  messagesFilePath: string;
+  rules: PruneRules;
+  /** Prune sessions even when a retained reduce or verify session reads them. */
+  force?: boolean;
+  dryRun?: boolean;
+  now?: Date;
+}
+
+export interface PruneSessionRef {
+  operator: string;
+  sessionId: string;
+}
+
+export interface PruneSessionSummary {
+  operator: PruneOperator;
+  sessionId: string;
+  status: string;
+  createdAt: string;
+}
+
+export interface PruneRetainedSession extends PruneSessionSummary {
+  referencedBy: PruneSessionRef[];
+}
+
+export interface PruneCommandResult {
+  dryRun: boolean;
+  pruned: PruneSessionSummary[];
+  /** Sessions matching the rules but kept because later lineage reads them. */
+  retained: PruneRetainedSession[];
+  warnings: string[];
+}
+
+interface PruneSession extends PruneSessionSummary {
+  applied: boolean;
+  references: PruneSessionRef[];
+  run?: RunRecord;
+}
+
+export async function executePruneCommand(
+  input: PruneCommandInput,
+): Promise<PruneCommandResult> {
+  const {
+    root,
+    rules,
+    force = false,
+    dryRun = false,
+    now = new Date(),
+  } = input;
+
+  const { sessions, warnings } = await readPruneSessions(input);
+  const selected = new Map<string, PruneSession>();
+  for (const operator of PRUNE_OPERATORS) {
+    const group = sessions.filter((session) => session.operator === operator);
+    group.forEach((session, index) => {
+      if (matchesPruneRules(session, index, rules, now)) {
+        selected.set(toSessionKey(session), session);
+      }
+    });
+  }
+
+  const retained = force ? [] : retainReferencedSessions(sessions, selected);
+  const pruned = [...selected.values()];
+
+  if (!dryRun && pruned.length > 0) {
+    await removePrunedSessions(input, pruned);
+    await pruneWorktrees(root);
+  }
+
+  return {
+    dryRun,
+    pruned: pruned.map(toSessionSummary),
+    retained,
+    warnings,
+  };
+}
+
+function matchesPruneRules(
+  session: PruneSession,
+  recencyIndex: number,
+  rules: PruneRules,
+  now: Date,
+): boolean {
+  if (!(PRUNABLE_STATUSES as readonly string[]).includes(session.status)) {
+    return false;
+  }
+  if (rules.keepLast !== undefined && recencyIndex < rules.keepLast) {
+    return false;
+  }
+  if (
+    rules.statuses &&
+    !(rules.statuses as readonly string[]).includes(session.status)
+  ) {
+    return false;
+  }
+  if (rules.keepApplied && session.applied) {
+    return false;
+  }
+  if (rules.olderThanMs !== undefined) {
+    const createdAt = Date.parse(session.createdAt);
+    if (
+      Number.isNaN(createdAt) ||
+      now.getTime() - createdAt < rules.olderThanMs
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Moves selected sessions back out of the prune set while any retained session
+ * still reads them, following lineage until nothing else changes.
+ */
+function retainReferencedSessions(
+  sessions: readonly PruneSession[],
+  selected: Map<string, PruneSession>,
+): PruneRetainedSession[] {
+  const referencedBy = new Map<string, PruneSessionRef[]>();
+  let pending = sessions.filter(
+    (session) => !selected.has(toSessionKey(session)),
+  );
+
+  while (pending.length > 0) {
+    const next: PruneSession[] = [];
+    for (const session of pending) {
+      for (const reference of session.references) {
+        const key = toSessionKey(reference);
+        const target = selected.get(key);
+        const referrers = referencedBy.get(key) ?? [];
+        if (!target && referrers.length === 0) {
+          continue;
+        }
+        referrers.push({
+          operator: session.operator,
+          sessionId: session.sessionId,
+        });
+        referencedBy.set(key, referrers);
+        if (target) {
+          selected.delete(key);
+          next.push(target);
+        }
+      }
+    }
+    pending = next;
+  }
+
+  return sessions.flatMap((session) => {
+    const referrers = referencedBy.get(toSessionKey(session));
+    return referrers && !selected.has(toSessionKey(session))
+      ? [{ ...toSessionSummary(session), referencedBy: referrers }]
+      : [];
+  });
+}
+
+async function removePrunedSessions(
+  input: PruneCommandInput,
+  pruned: readonly PruneSession[],
+): Promise<void> {
+  const {
+    root,
+    runsFilePath,
+    reductionsFilePath,
+    verificationsFilePath,
+    messagesFilePath,
+  } = input;
+  const idsFor = (operator: PruneOperator): string[] =>
+    pruned
+      .filter((session) => session.operator === operator)
+      .map((session) => session.sessionId);
+
+  for (const session of pruned) {
+    if (session.run) {
+      await teardownRunWorkspaces(root, session.run);
+    }
+  }
+
+  await removeRunRecords({ root, runsFilePath, runIds: idsFor("run") });
+  await removeReductionRecords({
+    root,
+    reductionsFilePath,
+    sessionIds: idsFor("reduce"),
+  });
+  await removeVerificationRecords({
+    root,
+    verificationsFilePath,
+    sessionIds: idsFor("verify"),
+  });
+  await removeMessageRecords({
+    root,
+    messagesFilePath,
+    sessionIds: idsFor("message"),
+  });
+}
+
+/**
+ * Removes agent worktrees and `voratiq/run/...` branches through git so that
+ * `git worktree list` no longer reports them once the session is deleted.
+ */
+async function teardownRunWorkspaces(
+  root: string,
+  record: RunRecord,
+): Promise<void> {
+  const teardown = createTeardownController(`pruned run \`${record.runId}\``);
+  for (const agent of record.agents) {
+    registerRunWorkspaceTeardown(
+      teardown,
+      root,
+      buildAgentWorkspacePaths({
+        root,
+        runId: record.runId,
+        agentId: agent.agentId,
+      }),
+      record.runId,
+      agent.agentId,
+    );
+  }
+  await runTeardown(teardown);
+}
+
+async function readPruneSessions(input: PruneCommandInput): Promise<{
+  sessions: PruneSession[];
+  warnings: string[];
+}> {
+  const {
+    root,
+    runsFilePath,
+    reductionsFilePath,
+    verificationsFilePath,
+    messagesFilePath,
+  } = input;
+  const warnings: string[] = [];
+  const onWarning = (warning: { displayPath: string }): void => {
+    warnings.push(`Ignoring corrupt session ${warning.displayPath}`);
+  };
+  const sessions: PruneSession[] = [];
+
+  if (await pathExists(runsFilePath)) {
+    const records = await readRunRecords({ root, runsFilePath, onWarning });
+    for (const record of records) {
+      sessions.push({
+        operator: "run",
+        sessionId: record.runId,
+        status: record.status,
+        createdAt: record.createdAt,
+        applied:
+          record.applyStatus !== undefined &&
+          record.applyStatus.status !== "failed",
+        references: [],
+        run: record,
+      });
+    }
+  }
+
+  if (await pathExists(reductionsFilePath)) {
+    const records = await readReductionRecords({
+      root,
+      reductionsFilePath,
+      onWarning,
+    });
+    for (const record of records) {
+      sessions.push({
+        operator: "reduce",
+        sessionId: record.sessionId,
+        status: record.status,
+        createdAt: record.createdAt,
+        applied: false,
+        references: getReductionTargets(record).map((target) => ({
+          operator: target.type,
+          sessionId: target.id,
+        })),
+      });
+    }
+  }
+
+  if (await pathExists(verificationsFilePath)) {
+    const records = await readVerificationRecords({
+      root,
+      verificationsFilePath,
+      onWarning,
+    });
+    for (const record of records) {
+      sessions.push({
+        operator: "verify",
+        sessionId: record.sessionId,
+        status: record.status,
+        createdAt: record.createdAt,
+        applied: false,
+        references:
+          record.target.kind === "run"
+            ? getRunVerificationTargetRuns(record.target).map((run) => ({
+                operator: "run" as const,
+                sessionId: run.sessionId,
+              }))
+            : [
+                {
+                  operator: record.target.kind,
+                  sessionId: record.target.sessionId,
+                },
+              ],
+      });
+    }
+  }
+
+  if (await pathExists(messagesFilePath)) {
+    const records = await readMessageRecords({
+      root,
+      messagesFilePath,
+      onWarning,
+    });
+    for (const record of records) {
+      sessions.push({
+        operator: "message",
+        sessionId: record.sessionId,
+        status: record.status,
+        createdAt: record.createdAt,
+        applied: false,
+        references: [],
+      });
+    }
+  }
+
+  return { sessions, warnings };
+}
+
+function toSessionKey(session: PruneSessionRef): string {
+  return `${session.operator}:${session.sessionId}`;
+}
+
+function toSessionSummary(session: PruneSessionSummary): PruneSessionSummary {
+  return {
+    operator: session.operator,
+    sessionId: session.sessionId,
+    status: session.status,
+    createdAt: session.createdAt,
+  };
+}
@@ -1,5 +1,10 @@
 import { executeCompetitionWithAdapter } from "../../competition/command-adapter.js";
 import type { ResolvedExtraContextFile } from "../../competition/shared/extra-context.js";
+import {
+  buildPersistedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
 import { createTeardownController } from "../../competition/shared/teardown.js";
 import { AgentNotFoundError } from "../../configs/agents/errors.js";
 import type { AgentDefinition } from "../../configs/agents/types.js";
@@ -7,9 +12,11 @@ import {
   createReduceCompetitionAdapter,
   type ReductionCompetitionExecution,
 } from "../../domain/reduce/competition/adapter.js";
-import type {
-  ReductionRecord,
-  ReductionTarget,
+import {
+  buildReductionTargetFields,
+  formatReductionTargetKey,
+  type ReductionRecord,
+  type ReductionTarget,
 } from "../../domain/reduce/model/types.js";
 import {
   appendReductionRecord,
@@ -35,6 +42,7 @@ import { resolveReductionCompetitors } from "../shared/resolve-reduction-competi
 import { generateSessionId } from "../shared/session-id.js";
 import {
   ReduceAgentNotFoundError,
+  ReduceDuplicateTargetError,
   ReduceGenerationFailedError,
   ReducePreflightError,
 } from "./errors.js";
@@ -48,7 +56,7 @@ export interface ReduceCommandInput {
   reductionsFilePath: string;
   messagesFilePath: string;
   verificationsFilePath: string;
-  target: ReductionTarget;
+  targets: readonly ReductionTarget[];
   agentIds?: readonly string[];
   agentOverrideFlag?: string;
   profileName?: string;
@@ -59,7 +67,7 @@ export interface ReduceCommandInput {
 
 export interface ReduceCommandResult {
   reductionId: string;
-  target: ReductionTarget;
+  targets: readonly ReductionTarget[];
   reducerAgentIds: readonly string[];
   reductions: readonly ReductionCompetitionExecution[];
 }
@@ -74,7 +82,7 @@ export async function executeReduceCommand(
     reductionsFilePath,
     messagesFilePath,
     verificationsFilePath,
-    target,
+    targets,
     agentIds,
     agentOverrideFlag,
     profileName,
@@ -83,15 +91,18 @@ export async function executeReduceCommand(
     renderer,
   } = input;
 
-  await assertReductionTargetEligible({
-    root,
-    specsFilePath,
-    runsFilePath,
-    reductionsFilePath,
-    messagesFilePath,
-    verificationsFilePath,
-    target,
-  });
+  assertReductionTargetsUnique(targets);
+  for (const target of targets) {
+    await assertReductionTargetEligible({
+      root,
+      specsFilePath,
+      runsFilePath,
+      reductionsFilePath,
+      messagesFilePath,
+      verificationsFilePath,
+      target,
+    });
+  }
 
   const reducerPlan = resolveReduceAgentPlan({
     root,
@@ -112,8 +123,19 @@ export async function executeReduceCommand(
     );
   }
   const reducers = preflight.agents;
+  const resolvedPromptOverlays = await resolvePromptOverlays({
+    root,
+    stage: "reduce",
+    agentIds: reducers.map((reducer) => reducer.id),
+  });
   const environment = loadOperatorEnvironment({ root });
   const reductionId = generateSessionId();
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "reduce",
+    sessionId: reductionId,
+    overlays: resolvedPromptOverlays,
+  });
   const createdAt = new Date().toISOString();
   const effectiveMaxParallel = resolveEffectiveMaxParallel({
     competitorCount: reducers.length,
@@ -122,7 +144,7 @@ export async function executeReduceCommand(
   const teardown = createTeardownController(`reduce \`${reductionId}\``);
   const initialRecord: ReductionRecord = {
     sessionId: reductionId,
-    target,
+    ...buildReductionTargetFields(targets),
     createdAt,
     status: "queued",
     reducers: reducers.map((reducer) => ({
@@ -140,6 +162,7 @@ export async function executeReduceCommand(
       }),
     })),
     ...buildPersistedExtraContextFields(extraContextFiles),
+    ...buildPersistedPromptOverlays(promptOverlays),
   };
 
   registerActiveReduce({
@@ -179,9 +202,10 @@ export async function executeReduceCommand(
           runsFilePath,
           messagesFilePath,
           verificationsFilePath,
-          target,
+          targets,
           environment,
           extraContextFiles,
+          promptOverlays,
           renderer,
           teardown,
         }),
@@ -229,7 +253,7 @@ export async function executeReduceCommand(
 
     return {
       reductionId,
-      target,
+      targets,
       reducerAgentIds: reducers.map((reducer) => reducer.id),
       reductions: reductionResults,
     };
@@ -238,6 +262,19 @@ export async function executeReduceCommand(
   }
 }
 
+function assertReductionTargetsUnique(
+  targets: readonly ReductionTarget[],
+): void {
+  const seen = new Set<string>();
+  for (const target of targets) {
+    const key = formatReductionTargetKey(target);
+    if (seen.has(key)) {
+      throw new ReduceDuplicateTargetError(target);
+    }
+    seen.add(key);
+  }
+}
+
 function resolveReduceAgentPlan(options: {
   agentIds?: readonly string[];
   root: string;
@@ -1,5 +1,6 @@
 import { CliError } from "../../cli/errors.js";
 import type { PreflightIssue } from "../../competition/shared/preflight.js";
+import type { ReductionTarget } from "../../domain/reduce/model/types.js";
 import {
   formatOperatorPreflightIssueLines,
   resolveOperatorPreflightHintLines,
@@ -29,6 +30,17 @@ export class ReduceAgentNotFoundError extends ReduceError {
   }
 }
 
+export class ReduceDuplicateTargetError extends ReduceError {
+  constructor(public readonly target: ReductionTarget) {
+    super(
+      `Reduction target \`${target.type}:${target.id}\` was given more than once.`,
+      [],
+      ["Pass each target session once."],
+    );
+    this.name = "ReduceDuplicateTargetError";
+  }
+}
+
 export class ReducePreflightError extends ReduceError {
   public readonly issues: readonly ReducePreflightIssue[];
 
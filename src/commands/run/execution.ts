@@ -0,0 +1,427 @@
+import { teardownSessionAuth } from "../../agents/runtime/registry.js";
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
+import type { ResolvedExtraContextFile } from "../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../competition/shared/prompt-overlays.js";
+import {
+  createTeardownController,
+  type TeardownController,
+} from "../../competition/shared/teardown.js";
+import type { AgentDefinition } from "../../configs/agents/types.js";
+import type { EnvironmentConfig } from "../../configs/environment/types.js";
+import { executeAgents } from "../../domain/run/competition/agent-execution.js";
+import {
+  RunCommandError,
+  RunProcessStreamError,
+} from "../../domain/run/competition/errors.js";
+import {
+  type AgentExecutionState,
+  toAgentReport,
+  toRunReport,
+} from "../../domain/run/competition/reports.js";
+import {
+  createAgentRecordMutators,
+  mergeAgentRecords,
+} from "../../domain/run/model/mutators.js";
+import type {
+  AgentInvocationRecord,
+  RunRecord,
+  RunReport,
+} from "../../domain/run/model/types.js";
+import {
+  flushRunRecordBuffer,
+  rewriteRunRecord,
+} from "../../domain/run/persistence/adapter.js";
+import { buildRecordLifecycleCompleteFields } from "../../domain/shared/lifecycle.js";
+import type { RunProgressRenderer } from "../../render/transcripts/run.js";
+import { deriveRunStatusFromAgents } from "../../status/index.js";
+import { toErrorMessage } from "../../utils/errors.js";
+import { getAgentManifestPath } from "../../workspace/artifact-paths.js";
+import {
+  type AgentWorkspacePaths,
+  buildAgentWorkspacePaths,
+  formatRunWorkspaceRelative,
+} from "../../workspace/layout.js";
+import { getAgentDirectoryPath } from "../../workspace/session-paths.js";
+import {
+  clearActiveRun,
+  finalizeActiveRun,
+  markActiveRunRecordPersisted,
+  registerActiveRun,
+} from "./lifecycle.js";
+
+export interface RunExecutionInput {
+  root: string;
+  runsFilePath: string;
+  runId: string;
+  agents: readonly AgentDefinition[];
+  baseRevisionSha: string;
+  /**
+   * Commit agent worktrees start from. Diffs are still taken against
+   * `baseRevisionSha`, so an auto repair round's diffs include the changes of
+   * the candidate it builds on.
+   */
+  startRevisionSha?: string;
+  specContent: string;
+  extraContextFiles: readonly ResolvedExtraContextFile[];
+  promptOverlays?: readonly ResolvedPromptOverlay[];
+  effectiveMaxParallel: number;
+  environment: EnvironmentConfig;
+  costBudget?: CostBudget;
+  createdAt: string;
+  startedAt: string;
+  renderer?: RunProgressRenderer;
+  /** Succeeded agents carried over from an earlier pass of a resumed run. */
+  keptAgents?: readonly AgentInvocationRecord[];
+  /**
+   * Persists the record the agents report into, once the run is registered as
+   * active. Resolves to whether the record was written.
+   */
+  persistRecord: () => Promise<boolean>;
+}
+
+/**
+ * Execute agents against a persisted run record and finalize its report.
+ * Shared by fresh runs and resumed runs.
+ */
+export async function executeRunSession(
+  input: RunExecutionInput,
+): Promise<RunReport> {
+  const {
+    root,
+    runsFilePath,
+    runId,
+    agents,
+    baseRevisionSha,
+    startRevisionSha,
+    specContent,
+    extraContextFiles,
+    promptOverlays,
+    effectiveMaxParallel,
+    environment,
+    costBudget,
+    createdAt,
+    startedAt,
+    renderer,
+    keptAgents = [],
+    persistRecord,
+  } = input;
+
+  const teardown = createTeardownController(`run \`${runId}\``);
+  teardown.addAction({
+    key: `run-auth:${runId}`,
+    label: "session auth",
+    cleanup: async () => {
+      await teardownSessionAuth(runId);
+    },
+  });
+
+  const agentAbortContexts = agents.map((agent) => {
+    const workspacePaths = buildAgentWorkspacePaths({
+      root,
+      runId,
+      agentId: agent.id,
+    });
+    registerRunWorkspaceTeardown(
+      teardown,
+      root,
+      workspacePaths,
+      runId,
+      agent.id,
+    );
+    return {
+      agentId: agent.id,
+      providerId: agent.provider,
+      agentRoot: workspacePaths.agentRoot,
+    };
+  });
+
+  let resolveRecordInit!: (persisted: boolean) => void;
+  const recordInitPromise = new Promise<boolean>((resolve) => {
+    resolveRecordInit = resolve;
+  });
+
+  registerActiveRun({
+    root,
+    runsFilePath,
+    runId,
+    recordPersisted: false,
+    recordInitPromise,
+    teardown,
+    agents: agentAbortContexts,
+  });
+
+  let recordPersisted = false;
+  try {
+    recordPersisted = await persistRecord();
+    resolveRecordInit(recordPersisted);
+    if (recordPersisted) {
+      markActiveRunRecordPersisted(runId);
+    }
+  } catch (error) {
+    resolveRecordInit(false);
+    clearActiveRun(runId);
+    throw error;
+  }
+
+  if (renderer) {
+    renderer.begin({
+      runId,
+      status: "running",
+      workspacePath: formatRunWorkspaceRelative(runId),
+      createdAt,
+      startedAt,
+    });
+  }
+
+  const mutators = createAgentRecordMutators({
+    root,
+    runsFilePath,
+    runId,
+    renderer,
+  });
+
+  let agentRecords: AgentInvocationRecord[] = [];
+
+  let executionError: unknown;
+  let flushError: unknown;
+  let finalizeError: unknown;
+  let runReport: RunReport | undefined;
+
+  try {
+    const executionResult = await executeAgents({
+      agents,
+      baseRevisionSha,
+      startRevisionSha,
+      runId,
+      root,
+      specContent,
+      extraContextFiles,
+      promptOverlays,
+      effectiveMaxParallel,
+      environment,
+      mutators,
+      costBudget,
+    });
+
+    agentRecords = executionResult.agentRecords;
+
+    const derivedRunStatus: RunRecord["status"] = deriveRunStatusFromAgents([
+      ...executionResult.agentReports.map((report) => report.status),
+      ...keptAgents.map((agent) => agent.status),
+    ]);
+
+    const updatedRunRecord = await rewriteRunRecord({
+      root,
+      runsFilePath,
+      runId,
+      mutate: (existing) => {
+        if (existing.status === "aborted") {
+          return existing;
+        }
+
+        return {
+          ...existing,
+          agents: mergeFinalAgentRecords(existing.agents, agentRecords),
+          status: derivedRunStatus,
+          ...buildRecordLifecycleCompleteFields({ existing }),
+        };
+      },
+    });
+
+    const finalAgentReports = reconcileAgentReports(
+      runId,
+      updatedRunRecord,
+      executionResult.agentReports,
+      new Set(keptAgents.map((agent) => agent.agentId)),
+    );
+    runReport = toRunReport(
+      updatedRunRecord,
+      finalAgentReports,
+      finalAgentReports.some(
+        (agent) => agent.status === "failed" || agent.status === "errored",
+      ),
+    );
+  } catch (error) {
+    executionError = error;
+    if (recordPersisted) {
+      try {
+        await rewriteRunRecord({
+          root,
+          runsFilePath,
+          runId,
+          mutate: (existing) => {
+            if (existing.status === "aborted") {
+              return existing;
+            }
+
+            return {
+              ...existing,
+              agents:
+                agentRecords.length > 0
+                  ? mergeFinalAgentRecords(existing.agents, agentRecords)
+                  : existing.agents,
+              status: "errored",
+              ...buildRecordLifecycleCompleteFields({ existing }),
+            };
+          },
+        });
+      } catch {
+        // Ignore secondary failures while preserving the original error.
+      }
+    }
+  }
+
+  try {
+    await flushRunRecordBuffer({
+      runsFilePath,
+      runId,
+    });
+  } catch (error) {
+    flushError = error;
+  }
+
+  try {
+    await finalizeActiveRun(runId);
+  } catch (error) {
+    finalizeError = error;
+  }
+
+  if (executionError) {
+    if (executionError instanceof RunCommandError) {
+      throw executionError;
+    }
+    throw new RunProcessStreamError(toErrorMessage(executionError));
+  }
+
+  if (flushError) {
+    throw new RunProcessStreamError(toErrorMessage(flushError));
+  }
+
+  if (finalizeError) {
+    if (!runReport) {
+      throw new RunProcessStreamError(toErrorMessage(finalizeError));
+    }
+    console.warn(
+      `[voratiq] Run \`${runId}\` completed, but post-run cleanup failed: ${toErrorMessage(finalizeError)}`,
+    );
+  }
+
+  if (!runReport) {
+    throw new RunProcessStreamError(
+      `Run \`${runId}\` did not produce a report.`,
+    );
+  }
+
+  return runReport;
+}
+
+export function registerRunWorkspaceTeardown(
+  teardown: TeardownController,
+  root: string,
+  workspacePaths: AgentWorkspacePaths,
+  runId: string,
+  agentId: string,
+): void {
+  teardown.addWorktree({
+    root,
+    worktreePath: workspacePaths.workspacePath,
+    label: `${agentId} workspace`,
+  });
+  teardown.addPath(workspacePaths.contextPath, `${agentId} context`);
+  teardown.addPath(workspacePaths.runtimePath, `${agentId} runtime`);
+  teardown.addPath(workspacePaths.sandboxPath, `${agentId} sandbox`);
+  teardown.addBranch({
+    root,
+    branch: `voratiq/run/${runId}/${agentId}`,
+    worktreePath: workspacePaths.workspacePath,
+    label: `${agentId} branch`,
+  });
+}
+
+function mergeFinalAgentRecords(
+  existing: readonly AgentInvocationRecord[],
+  incoming: readonly AgentInvocationRecord[],
+): AgentInvocationRecord[] {
+  const merged = new Map<string, AgentInvocationRecord>();
+
+  for (const agent of existing) {
+    merged.set(agent.agentId, agent);
+  }
+
+  for (const agent of incoming) {
+    merged.set(
+      agent.agentId,
+      mergeAgentRecords(merged.get(agent.agentId), agent),
+    );
+  }
+
+  return [...merged.values()];
+}
+
+function reconcileAgentReports(
+  runId: string,
+  record: RunRecord,
+  reports: RunReport["agents"],
+  keptAgentIds: ReadonlySet<string>,
+): RunReport["agents"] {
+  const reportsByAgentId = new Map(
+    reports.map((report) => [report.agentId, report]),
+  );
+
+  return record.agents.map((agent) => {
+    const existingReport = reportsByAgentId.get(agent.agentId);
+    if (!existingReport) {
+      if (keptAgentIds.has(agent.agentId)) {
+        return toAgentReport(runId, agent, {
+          diffAttempted: agent.artifacts?.diffAttempted ?? false,
+          diffCaptured: agent.artifacts?.diffCaptured ?? false,
+          diffStatistics: agent.diffStatistics,
+          tokenUsage: agent.tokenUsage,
+          tokenUsageResult: {
+            status: "unavailable",
+            reason: "chat_not_captured",
+            provider: "unknown",
+            modelId: agent.model,
+          },
+        });
+      }
+
+      return {
+        agentId: agent.agentId,
+        status: agent.status,
+        tokenUsage: agent.tokenUsage,
+        tokenUsageResult: {
+          status: "unavailable",
+          reason: "chat_not_captured",
+          provider: "unknown",
+          modelId: agent.model,
+        },
+        runtimeManifestPath: getAgentManifestPath(runId, agent.agentId),
+        baseDirectory: getAgentDirectoryPath(runId, agent.agentId),
+        assets: {},
+        startedAt: agent.startedAt ?? record.startedAt ?? record.createdAt,
+        completedAt:
+          agent.completedAt ??
+          record.completedAt ??
+          agent.startedAt ??
+          record.startedAt ??
+          record.createdAt,
+        diffStatistics: agent.diffStatistics,
+        error: agent.error,
+        warnings: agent.warnings,
+        diffAttempted: false,
+        diffCaptured: false,
+      };
+    }
+
+    const derivations: AgentExecutionState = {
+      diffAttempted: existingReport.diffAttempted,
+      diffCaptured: existingReport.diffCaptured,
+      diffStatistics: existingReport.diffStatistics,
+      tokenUsage: existingReport.tokenUsage,
+      tokenUsageResult: existingReport.tokenUsageResult,
+    };
+
+    return toAgentReport(runId, agent, derivations);
+  });
+}
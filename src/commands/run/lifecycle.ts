@@ -298,6 +298,7 @@ async function captureChatArtifactsBeforeTermination(
 
     try {
       const result = await preserveProviderChatTranscripts({
+        root: context.root,
         providerId: agent.providerId,
         agentRoot: agent.agentRoot,
       });
@@ -1,6 +1,12 @@
 import type { RunRecordInitResult } from "../../domain/run/competition/phases.js";
-import type { RunRecord, RunSpecTarget } from "../../domain/run/model/types.js";
+import type {
+  RunRecord,
+  RunRepairSource,
+  RunSpecTarget,
+  RunWorktreeSnapshot,
+} from "../../domain/run/model/types.js";
 import { appendRunRecord } from "../../domain/run/persistence/adapter.js";
+import type { PromptOverlayEntry } from "../../persistence/prompt-overlays.js";
 import { normalizePathForDisplay } from "../../utils/path.js";
 import { emitSwarmSessionAcknowledgement } from "../../utils/swarm-session-ack.js";
 import { cleanupRunWorkspace } from "../../workspace/cleanup.js";
@@ -12,12 +18,15 @@ export interface RecordInitInput {
   readonly specDisplayPath: string;
   readonly specTarget?: RunSpecTarget;
   readonly baseRevisionSha: string;
+  readonly worktreeSnapshot?: RunWorktreeSnapshot;
   readonly repoDisplayPath: string;
   readonly createdAt: string;
   readonly startedAt: string;
   readonly runRoot: string;
+  readonly repairOf?: RunRepairSource;
   readonly extraContext?: string[];
   readonly extraContextMetadata?: import("../../extra-context/contract.js").PersistedExtraContextMetadataEntry[];
+  readonly promptOverlays?: PromptOverlayEntry[];
 }
 
 /**
@@ -33,12 +42,15 @@ export async function initializeRunRecord(
     specDisplayPath,
     specTarget,
     baseRevisionSha,
+    worktreeSnapshot,
     repoDisplayPath,
     createdAt,
     startedAt,
     runRoot,
+    repairOf,
     extraContext,
     extraContextMetadata,
+    promptOverlays,
   } = input;
 
   const initialRecord: RunRecord = {
@@ -49,12 +61,16 @@ export async function initializeRunRecord(
     },
     extraContext,
     extraContextMetadata,
+    ...(promptOverlays ? { promptOverlays } : {}),
     createdAt,
     startedAt,
     baseRevisionSha,
+    ...(worktreeSnapshot ? { worktreeSnapshot } : {}),
     rootPath: repoDisplayPath,
     agents: [],
     status: "running",
+    ...(repairOf ? { repairOf } : {}),
+    ownerPid: process.pid,
   };
 
   try {
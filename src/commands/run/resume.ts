@@ -0,0 +1,223 @@
+import { rm } from "node:fs/promises";
+
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
+import { resolveExtraContextFiles } from "../../competition/shared/extra-context.js";
+import {
+  buildPersistedPromptOverlays,
+  mergeResumedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
+import {
+  createTeardownController,
+  runTeardown,
+} from "../../competition/shared/teardown.js";
+import {
+  RunNotResumableError,
+  RunSessionActiveError,
+} from "../../domain/run/competition/errors.js";
+import type {
+  AgentInvocationRecord,
+  RunRecord,
+  RunReport,
+} from "../../domain/run/model/types.js";
+import { rewriteRunRecord } from "../../domain/run/persistence/adapter.js";
+import type { PromptOverlayEntry } from "../../persistence/prompt-overlays.js";
+import type { RunProgressRenderer } from "../../render/transcripts/run.js";
+import {
+  IN_PROGRESS_RUN_STATUSES,
+  RESUMABLE_AGENT_STATUSES,
+} from "../../status/index.js";
+import { resolvePath } from "../../utils/path.js";
+import { buildAgentWorkspacePaths } from "../../workspace/layout.js";
+import { fetchRunSafely } from "../fetch.js";
+import { isSessionOwnerActive } from "../shared/session-owner.js";
+import {
+  executeRunSession,
+  registerRunWorkspaceTeardown,
+} from "./execution.js";
+import { validateAndPrepare } from "./validation.js";
+
+export interface RunResumeCommandInput {
+  root: string;
+  runsFilePath: string;
+  specsFilePath?: string;
+  runId: string;
+  maxParallel?: number;
+  costBudget?: CostBudget;
+  /** Resume even when the run is still marked running by a live process. */
+  force?: boolean;
+  renderer?: RunProgressRenderer;
+}
+
+/**
+ * Resume an interrupted run: keep agents that finished, whether they succeeded
+ * or failed, and re-queue queued, running, errored, and aborted agents against
+ * the run's original base revision and spec.
+ */
+export async function executeRunResumeCommand(
+  input: RunResumeCommandInput,
+): Promise<RunReport> {
+  const {
+    root,
+    runsFilePath,
+    specsFilePath,
+    runId,
+    maxParallel,
+    costBudget,
+    force,
+    renderer,
+  } = input;
+
+  const record = await fetchRunSafely({ root, runsFilePath, runId });
+  if (
+    !force &&
+    IN_PROGRESS_RUN_STATUSES.includes(record.status) &&
+    isSessionOwnerActive(record.ownerPid)
+  ) {
+    throw new RunSessionActiveError(runId, record.ownerPid);
+  }
+  const keptAgents = record.agents.filter(
+    (agent) => !RESUMABLE_AGENT_STATUSES.includes(agent.status),
+  );
+  const resumedAgentIds = record.agents
+    .filter((agent) => RESUMABLE_AGENT_STATUSES.includes(agent.status))
+    .map((agent) => agent.agentId);
+  if (resumedAgentIds.length === 0) {
+    throw new RunNotResumableError(runId);
+  }
+
+  const validation = await validateAndPrepare({
+    root,
+    specAbsolutePath: resolvePath(root, record.spec.path),
+    specDisplayPath: record.spec.path,
+    specsFilePath,
+    resolvedAgentIds: resumedAgentIds,
+    maxParallel,
+    baseRevisionSha: record.baseRevisionSha,
+    costBudget,
+  });
+  const extraContextFiles = await resolveExtraContextFiles({
+    root,
+    paths: record.extraContextMetadata?.map((entry) => entry.sourcePath),
+  });
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "run",
+    sessionId: runId,
+    overlays: await resolvePromptOverlays({
+      root,
+      stage: "run",
+      agentIds: resumedAgentIds,
+    }),
+  });
+
+  await resetResumedAgentWorkspaces({ root, runId, agentIds: resumedAgentIds });
+
+  const resumedAt = new Date().toISOString();
+  const startedAt = record.startedAt ?? resumedAt;
+
+  return await executeRunSession({
+    root,
+    runsFilePath,
+    runId,
+    agents: validation.agents,
+    baseRevisionSha: record.baseRevisionSha,
+    startRevisionSha: record.repairOf?.commitSha,
+    specContent: validation.specContent,
+    extraContextFiles,
+    promptOverlays,
+    effectiveMaxParallel: validation.effectiveMaxParallel,
+    environment: validation.environment,
+    costBudget,
+    createdAt: record.createdAt,
+    startedAt,
+    renderer,
+    keptAgents,
+    persistRecord: async () => {
+      await rewriteRunRecord({
+        root,
+        runsFilePath,
+        runId,
+        mutate: (existing) =>
+          reopenRunRecord(existing, {
+            agentIds: resumedAgentIds,
+            resumedAt,
+            startedAt,
+            promptOverlays:
+              buildPersistedPromptOverlays(promptOverlays).promptOverlays,
+          }),
+        forceFlush: true,
+      });
+      return true;
+    },
+  });
+}
+
+/**
+ * Removes worktrees, branches, and artifacts left behind by the interrupted
+ * pass so re-queued agents start from a clean workspace.
+ */
+async function resetResumedAgentWorkspaces(options: {
+  root: string;
+  runId: string;
+  agentIds: readonly string[];
+}): Promise<void> {
+  const { root, runId, agentIds } = options;
+  const teardown = createTeardownController(`resumed run \`${runId}\``);
+  const agentRoots: string[] = [];
+  for (const agentId of agentIds) {
+    const workspacePaths = buildAgentWorkspacePaths({ root, runId, agentId });
+    registerRunWorkspaceTeardown(
+      teardown,
+      root,
+      workspacePaths,
+      runId,
+      agentId,
+    );
+    agentRoots.push(workspacePaths.agentRoot);
+  }
+
+  await runTeardown(teardown);
+  for (const agentRoot of agentRoots) {
+    await rm(agentRoot, { recursive: true, force: true });
+  }
+}
+
+function reopenRunRecord(
+  existing: RunRecord,
+  options: {
+    agentIds: readonly string[];
+    resumedAt: string;
+    startedAt: string;
+    /** Overlays re-read for the resumed agents. */
+    promptOverlays?: PromptOverlayEntry[];
+  },
+): RunRecord {
+  const { agentIds, resumedAt, startedAt, promptOverlays } = options;
+  return {
+    ...existing,
+    status: "running",
+    startedAt,
+    ownerPid: process.pid,
+    promptOverlays: mergeResumedPromptOverlays({
+      recorded: existing.promptOverlays,
+      resumed: promptOverlays,
+      resumedAgentIds: agentIds,
+      keptAgentIds: existing.agents
+        .map((agent) => agent.agentId)
+        .filter((agentId) => !agentIds.includes(agentId)),
+    }),
+    completedAt: undefined,
+    agents: existing.agents.map(
+      (agent): AgentInvocationRecord =>
+        agentIds.includes(agent.agentId)
+          ? { agentId: agent.agentId, model: agent.model, status: "queued" }
+          : agent,
+    ),
+    resumes: [
+      ...(existing.resumes ?? []),
+      { resumedAt, agentIds: [...agentIds] },
+    ],
+  };
+}
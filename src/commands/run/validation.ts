@@ -1,3 +1,4 @@
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
 import type { AgentDefinition } from "../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../configs/environment/types.js";
 import {
@@ -5,10 +6,18 @@ import {
   RunPreflightError,
 } from "../../domain/run/competition/errors.js";
 import { RunOptionValidationError } from "../../domain/run/model/errors.js";
-import type { RunSpecTarget } from "../../domain/run/model/types.js";
+import type {
+  RunSpecTarget,
+  RunWorktreeSnapshot,
+} from "../../domain/run/model/types.js";
 import { loadOperatorEnvironment } from "../../preflight/environment.js";
 import { prepareConfiguredOperatorReadiness } from "../../preflight/operator.js";
-import { getHeadRevision } from "../../utils/git.js";
+import { collectCostBudgetPricingIssues } from "../../preflight/pricing.js";
+import {
+  createWorkingTreeSnapshot,
+  getHeadRevision,
+  resolveCommitRevision,
+} from "../../utils/git.js";
 import { resolveEffectiveMaxParallel } from "../shared/max-parallel.js";
 import { loadRunSpecInput } from "./spec-provenance.js";
 
@@ -19,12 +28,21 @@ export interface ValidationInput {
   readonly specsFilePath?: string;
   readonly resolvedAgentIds?: readonly string[];
   readonly maxParallel?: number;
+  /** Pins the base revision instead of reading `HEAD`, as when resuming. */
+  readonly baseRevisionSha?: string;
+  /** Starts agents from this revision instead of `HEAD`. */
+  readonly baseRef?: string;
+  /** Starts agents from a snapshot of uncommitted tracked changes. */
+  readonly includeWorktreeChanges?: boolean;
+  /** Requires every agent to be priced so the budget can count its spend. */
+  readonly costBudget?: CostBudget;
 }
 
 export interface ValidationResult {
   readonly specContent: string;
   readonly specTarget: RunSpecTarget;
   readonly baseRevisionSha: string;
+  readonly worktreeSnapshot?: RunWorktreeSnapshot;
   readonly agents: readonly AgentDefinition[];
   readonly effectiveMaxParallel: number;
   readonly environment: EnvironmentConfig;
@@ -43,6 +61,10 @@ export async function validateAndPrepare(
     specsFilePath,
     resolvedAgentIds,
     maxParallel: requestedMaxParallel,
+    baseRevisionSha: pinnedBaseRevisionSha,
+    baseRef,
+    includeWorktreeChanges = false,
+    costBudget,
   } = input;
 
   if (
@@ -55,6 +77,13 @@ export async function validateAndPrepare(
     );
   }
 
+  if (baseRef !== undefined && includeWorktreeChanges) {
+    throw new RunOptionValidationError(
+      "base",
+      "cannot be combined with `includeWorktreeChanges`",
+    );
+  }
+
   const { specContent, specTarget } = await loadRunSpecInput({
     root,
     specAbsolutePath,
@@ -62,7 +91,6 @@ export async function validateAndPrepare(
     specsFilePath,
   });
 
-  const baseRevisionSha = await getHeadRevision(root);
   const preflight = await prepareConfiguredOperatorReadiness({
     root,
     resolvedAgentIds,
@@ -79,11 +107,39 @@ export async function validateAndPrepare(
     );
   }
   const agents = preflight.agents;
+  if (costBudget) {
+    const pricingIssues = collectCostBudgetPricingIssues({ root, agents });
+    if (pricingIssues.length > 0) {
+      throw new RunPreflightError(pricingIssues, pricingIssues.length);
+    }
+  }
   const environment = loadOperatorEnvironment({
     root,
     errorMode: "workspace-missing",
   });
 
+  let baseRevisionSha = pinnedBaseRevisionSha;
+  let worktreeSnapshot: RunWorktreeSnapshot | undefined;
+  if (baseRevisionSha === undefined && baseRef !== undefined) {
+    baseRevisionSha = await resolveCommitRevision(root, baseRef);
+    if (baseRevisionSha === undefined) {
+      throw new RunOptionValidationError(
+        "base",
+        `\`${baseRef}\` does not name a commit`,
+      );
+    }
+  } else if (baseRevisionSha === undefined && includeWorktreeChanges) {
+    const snapshot = await createWorkingTreeSnapshot({
+      cwd: root,
+      message: "voratiq: snapshot of uncommitted changes",
+    });
+    if (snapshot) {
+      baseRevisionSha = snapshot.commitSha;
+      worktreeSnapshot = { headRevisionSha: snapshot.headRevisionSha };
+    }
+  }
+  baseRevisionSha ??= await getHeadRevision(root);
+
   const effectiveMaxParallel = resolveEffectiveMaxParallel({
     competitorCount: agents.length,
     requestedMaxParallel,
@@ -93,6 +149,7 @@ export async function validateAndPrepare(
     specContent,
     specTarget,
     baseRevisionSha,
+    ...(worktreeSnapshot ? { worktreeSnapshot } : {}),
     agents,
     effectiveMaxParallel,
     environment,
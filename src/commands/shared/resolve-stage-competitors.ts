@@ -4,12 +4,16 @@ import {
 } from "../../configs/agents/errors.js";
 import { readAgentsConfig } from "../../configs/agents/loader.js";
 import { loadAgentById } from "../../configs/agents/loader.js";
-import type { AgentDefinition } from "../../configs/agents/types.js";
-import { loadOrchestrationConfig } from "../../configs/orchestration/loader.js";
 import type {
-  OrchestrationConfig,
-  OrchestrationProfile,
-  OrchestrationStageId,
+  AgentDefinition,
+  WatchdogLimitsConfig,
+} from "../../configs/agents/types.js";
+import { loadOrchestrationConfig } from "../../configs/orchestration/loader.js";
+import {
+  ORCHESTRATION_STAGE_IDS,
+  type OrchestrationConfig,
+  type OrchestrationProfile,
+  type OrchestrationStageId,
 } from "../../configs/orchestration/types.js";
 import { HintedError } from "../../utils/errors.js";
 import { readUtf8File } from "../../utils/fs.js";
@@ -87,8 +91,17 @@ export function resolveStageCompetitors(
     validateResolvedAgentIds({ root, agentIds: resolvedAgentIds });
   }
 
+  const watchdogOverrides = getProfileWatchdogOverrides(
+    selectedProfile,
+    stageId,
+  );
   const competitors = includeDefinitions
-    ? resolvedAgentIds.map((agentId) => loadAgentById(agentId, { root }))
+    ? resolvedAgentIds.map((agentId) =>
+        applyWatchdogOverrides(
+          loadAgentById(agentId, { root }),
+          watchdogOverrides,
+        ),
+      )
     : [];
 
   return {
@@ -98,7 +111,7 @@ export function resolveStageCompetitors(
   };
 }
 
-function resolveOrchestrationProfile(options: {
+export function resolveOrchestrationProfile(options: {
   config: OrchestrationConfig;
   profileName: string;
   profileFlag: string;
@@ -123,6 +136,26 @@ function resolveOrchestrationProfile(options: {
   });
 }
 
+export type ProfileAgentIds = Record<OrchestrationStageId, Set<string>>;
+
+/** Agent ids a profile assigns to each stage, as matched by `--profile`. */
+export function resolveProfileAgentIds(
+  root: string,
+  profileName: string,
+): ProfileAgentIds {
+  const profile = resolveOrchestrationProfile({
+    config: loadOrchestrationConfig({ root }),
+    profileName,
+    profileFlag: "--profile",
+  });
+  return Object.fromEntries(
+    ORCHESTRATION_STAGE_IDS.map((stage) => [
+      stage,
+      new Set(profile[stage].agents.map((agent) => agent.id)),
+    ]),
+  ) as ProfileAgentIds;
+}
+
 function normalizeAgentIds(agentIds: readonly string[] | undefined): string[] {
   if (!agentIds || agentIds.length === 0) {
     return [];
@@ -244,6 +277,41 @@ function getProfileAgentIds(
   return profile[stageId].agents.map((agent) => agent.id);
 }
 
+/**
+ * Stage-level watchdog limits take precedence over profile-level limits,
+ * which in turn override the per-agent limits from `agents.yaml`.
+ */
+function getProfileWatchdogOverrides(
+  profile: OrchestrationProfile | undefined,
+  stageId: OrchestrationStageId,
+): WatchdogLimitsConfig | undefined {
+  if (!profile) {
+    return undefined;
+  }
+
+  const profileLimits = profile.watchdog;
+  const stageLimits = profile[stageId].watchdog;
+  if (!profileLimits && !stageLimits) {
+    return undefined;
+  }
+
+  return { ...profileLimits, ...stageLimits };
+}
+
+function applyWatchdogOverrides(
+  definition: AgentDefinition,
+  overrides: WatchdogLimitsConfig | undefined,
+): AgentDefinition {
+  if (!overrides) {
+    return definition;
+  }
+
+  return {
+    ...definition,
+    watchdog: { ...definition.watchdog, ...overrides },
+  };
+}
+
 function profileAgentPath(
   profileName: string,
   stageId: OrchestrationStageId,
@@ -0,0 +1,13 @@
+import { isProcessAlive } from "../../utils/process.js";
+
+/**
+ * Whether an in-progress session may still be executing in the process that
+ * recorded it. Sessions persisted before owners were recorded have no PID to
+ * check, so they count as active.
+ */
+export function isSessionOwnerActive(ownerPid: number | undefined): boolean {
+  if (ownerPid === undefined) {
+    return true;
+  }
+  return ownerPid !== process.pid && isProcessAlive(ownerPid);
+}
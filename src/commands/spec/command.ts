@@ -1,12 +1,26 @@
 import { executeCompetitionWithAdapter } from "../../competition/command-adapter.js";
+import {
+  applyCostBudget,
+  type CostBudget,
+} from "../../competition/shared/cost-budget.js";
 import type { ResolvedExtraContextFile } from "../../competition/shared/extra-context.js";
+import {
+  buildPersistedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
 import { createTeardownController } from "../../competition/shared/teardown.js";
 import { AgentNotFoundError } from "../../configs/agents/errors.js";
+import {
+  buildUnavailableTokenUsageResult,
+  resolveTokenUsageCost,
+} from "../../domain/shared/token-usage.js";
 import {
   createSpecCompetitionAdapter,
   type SpecCompetitionExecution,
 } from "../../domain/spec/competition/adapter.js";
 import { createSpecRecordMutators } from "../../domain/spec/model/mutators.js";
+import { loadSpecTemplate } from "../../domain/spec/model/template.js";
 import {
   deriveSpecStatusFromAgents,
   type SpecAgentEntry,
@@ -19,6 +33,7 @@ import {
 import { buildPersistedExtraContextFields } from "../../extra-context/contract.js";
 import { loadOperatorEnvironment } from "../../preflight/environment.js";
 import { prepareConfiguredOperatorReadiness } from "../../preflight/operator.js";
+import { collectCostBudgetPricingIssues } from "../../preflight/pricing.js";
 import type { SpecProgressRenderer } from "../../render/transcripts/spec.js";
 import { toErrorMessage } from "../../utils/errors.js";
 import { getHeadRevision } from "../../utils/git.js";
@@ -40,7 +55,11 @@ export interface ExecuteSpecCommandInput {
   agentIds?: readonly string[];
   profileName?: string;
   maxParallel?: number;
+  /** Stops starting agents once spent; shared with later stages by `auto`. */
+  costBudget?: CostBudget;
   title?: string;
+  /** Spec template under `.voratiq/spec/templates/` to draft against. */
+  templateName?: string;
   extraContextFiles?: readonly ResolvedExtraContextFile[];
   onStatus?: (message: string) => void;
   renderer?: SpecProgressRenderer;
@@ -63,7 +82,9 @@ export async function executeSpecCommand(
     agentIds: cliAgentIds,
     profileName,
     maxParallel: requestedMaxParallel,
+    costBudget,
     title: providedTitle,
+    templateName,
     extraContextFiles = [],
     onStatus,
     renderer,
@@ -90,6 +111,10 @@ export async function executeSpecCommand(
     }
     throw error;
   }
+  const template =
+    templateName !== undefined
+      ? await loadSpecTemplate({ root, name: templateName })
+      : undefined;
   const preflight = await prepareConfiguredOperatorReadiness({
     root,
     resolvedAgentIds,
@@ -102,6 +127,20 @@ export async function executeSpecCommand(
     );
   }
   const competitors = preflight.agents;
+  if (costBudget) {
+    const pricingIssues = collectCostBudgetPricingIssues({
+      root,
+      agents: competitors,
+    });
+    if (pricingIssues.length > 0) {
+      throw new SpecPreflightError(pricingIssues, pricingIssues.length);
+    }
+  }
+  const resolvedPromptOverlays = await resolvePromptOverlays({
+    root,
+    stage: "spec",
+    agentIds: competitors.map((agent) => agent.id),
+  });
   const environment = loadOperatorEnvironment({ root });
   const effectiveMaxParallel = resolveEffectiveMaxParallel({
     competitorCount: competitors.length,
@@ -115,6 +154,12 @@ export async function executeSpecCommand(
 
   const baseRevisionSha = await getHeadRevision(root);
   const sessionId = generateSessionId();
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "spec",
+    sessionId: sessionId,
+    overlays: resolvedPromptOverlays,
+  });
   const startedAt = new Date().toISOString();
   const createdAt = startedAt;
 
@@ -130,8 +175,10 @@ export async function executeSpecCommand(
     status: "running",
     baseRevisionSha,
     description,
+    ...(template ? { template: template.name } : {}),
     agents: initialAgents,
     ...buildPersistedExtraContextFields(extraContextFiles),
+    ...buildPersistedPromptOverlays(promptOverlays),
   };
 
   const teardown = createTeardownController(`spec \`${sessionId}\``);
@@ -180,68 +227,88 @@ export async function executeSpecCommand(
         specTitle,
         environment,
         extraContextFiles,
+        promptOverlays,
+        template,
         teardown,
       });
       executionResults = await executeCompetitionWithAdapter({
         candidates: [...competitors],
         maxParallel: effectiveMaxParallel,
-        adapter: {
-          ...baseAdapter,
-          onPreparationFailure: async (result) => {
-            const updatedRecord = await mutators.recordAgentSnapshot({
-              agentId: result.agentId,
-              status: "failed",
-              startedAt: new Date().toISOString(),
-              completedAt: new Date().toISOString(),
-              tokenUsage: result.tokenUsage,
-              error: result.error ?? null,
-            });
-            currentAgents = [...updatedRecord.agents];
-            const failedAgent = currentAgents.find(
-              (agent) => agent.agentId === result.agentId,
-            );
-            renderer?.update({
-              agentId: result.agentId,
-              status: "failed",
-              startedAt: failedAgent?.startedAt,
-              completedAt: failedAgent?.completedAt,
-              tokenUsage: result.tokenUsage,
-              tokenUsageResult: result.tokenUsageResult,
-            });
+        adapter: applyCostBudget(
+          {
+            ...baseAdapter,
+            onPreparationFailure: async (result) => {
+              const updatedRecord = await mutators.recordAgentSnapshot({
+                agentId: result.agentId,
+                status: "failed",
+                startedAt: new Date().toISOString(),
+                completedAt: new Date().toISOString(),
+                tokenUsage: result.tokenUsage,
+                costUsd: resolveTokenUsageCost(result.tokenUsageResult),
+                error: result.error ?? null,
+              });
+              currentAgents = [...updatedRecord.agents];
+              const failedAgent = currentAgents.find(
+                (agent) => agent.agentId === result.agentId,
+              );
+              renderer?.update({
+                agentId: result.agentId,
+                status: "failed",
+                startedAt: failedAgent?.startedAt,
+                completedAt: failedAgent?.completedAt,
+                tokenUsage: result.tokenUsage,
+                tokenUsageResult: result.tokenUsageResult,
+              });
+            },
+            onCandidateRunning: async (prepared, index) => {
+              await baseAdapter.onCandidateRunning?.(prepared, index);
+              const updatedRecord = await mutators.recordAgentRunning({
+                agentId: prepared.candidate.id,
+              });
+              currentAgents = [...updatedRecord.agents];
+              const runningAgent = currentAgents.find(
+                (agent) => agent.agentId === prepared.candidate.id,
+              );
+              renderer?.update({
+                agentId: prepared.candidate.id,
+                status: "running",
+                startedAt: runningAgent?.startedAt,
+              });
+            },
+            onCandidateCompleted: async (_prepared, result) => {
+              const updatedRecord = await mutators.recordAgentSnapshot(
+                toSpecAgentEntry(result),
+              );
+              currentAgents = [...updatedRecord.agents];
+              const completedAgent = currentAgents.find(
+                (agent) => agent.agentId === result.agentId,
+              );
+              renderer?.update({
+                agentId: result.agentId,
+                status: completedAgent?.status ?? result.status,
+                startedAt: completedAgent?.startedAt,
+                completedAt: completedAgent?.completedAt,
+                tokenUsage: result.tokenUsage,
+                tokenUsageResult: result.tokenUsageResult,
+              });
+            },
           },
-          onCandidateRunning: async (prepared, index) => {
-            await baseAdapter.onCandidateRunning?.(prepared, index);
-            const updatedRecord = await mutators.recordAgentRunning({
-              agentId: prepared.candidate.id,
-            });
-            currentAgents = [...updatedRecord.agents];
-            const runningAgent = currentAgents.find(
-              (agent) => agent.agentId === prepared.candidate.id,
-            );
-            renderer?.update({
+          {
+            budget: costBudget,
+            resolveCostUsd: (result) =>
+              resolveTokenUsageCost(result.tokenUsageResult),
+            buildSkippedResult: (prepared, reason) => ({
               agentId: prepared.candidate.id,
-              status: "running",
-              startedAt: runningAgent?.startedAt,
-            });
-          },
-          onCandidateCompleted: async (_prepared, result) => {
-            const updatedRecord = await mutators.recordAgentSnapshot(
-              toSpecAgentEntry(result),
-            );
-            currentAgents = [...updatedRecord.agents];
-            const completedAgent = currentAgents.find(
-              (agent) => agent.agentId === result.agentId,
-            );
-            renderer?.update({
-              agentId: result.agentId,
-              status: completedAgent?.status ?? result.status,
-              startedAt: completedAgent?.startedAt,
-              completedAt: completedAgent?.completedAt,
-              tokenUsage: result.tokenUsage,
-              tokenUsageResult: result.tokenUsageResult,
-            });
+              status: "failed",
+              tokenUsageResult: buildUnavailableTokenUsageResult({
+                provider: prepared.candidate.provider,
+                modelId: prepared.candidate.model,
+                message: reason,
+              }),
+              error: reason,
+            }),
           },
-        },
+        ),
       });
     } catch (error) {
       const detail = toErrorMessage(error);
@@ -328,12 +395,14 @@ function mapExecutionResultsToSpecAgents(
         dataPath: result.dataPath,
         contentHash: result.contentHash,
         tokenUsage: result.tokenUsage,
+        costUsd: resolveTokenUsageCost(result.tokenUsageResult),
       };
     }
     return {
       ...base,
       status: "failed",
       tokenUsage: result.tokenUsage,
+      costUsd: resolveTokenUsageCost(result.tokenUsageResult),
       error: result.error ?? null,
     };
   });
@@ -350,6 +419,7 @@ function toSpecAgentEntry(result: SpecCompetitionExecution): SpecAgentEntry {
       dataPath: result.dataPath,
       contentHash: result.contentHash,
       tokenUsage: result.tokenUsage,
+      costUsd: resolveTokenUsageCost(result.tokenUsageResult),
       error: null,
     };
   }
@@ -359,6 +429,7 @@ function toSpecAgentEntry(result: SpecCompetitionExecution): SpecAgentEntry {
     status: "failed",
     completedAt,
     tokenUsage: result.tokenUsage,
+    costUsd: resolveTokenUsageCost(result.tokenUsageResult),
     error: result.error ?? null,
   };
 }
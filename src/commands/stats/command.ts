@@ -0,0 +1,490 @@
+import {
+  ORCHESTRATION_STAGE_IDS,
+  type OrchestrationStageId,
+} from "../../configs/orchestration/types.js";
+import type { MessageRecord } from "../../domain/message/model/types.js";
+import { readMessageRecords } from "../../domain/message/persistence/adapter.js";
+import type { ReductionRecord } from "../../domain/reduce/model/types.js";
+import { readReductionRecords } from "../../domain/reduce/persistence/adapter.js";
+import type { RunRecord } from "../../domain/run/model/types.js";
+import { readRunRecords } from "../../domain/run/persistence/adapter.js";
+import type { SpecRecord } from "../../domain/spec/model/types.js";
+import { readSpecRecords } from "../../domain/spec/persistence/adapter.js";
+import type { VerificationRecord } from "../../domain/verify/model/types.js";
+import { readVerificationRecords } from "../../domain/verify/persistence/adapter.js";
+import { loadVerificationSelectionPolicyOutput } from "../../policy/index.js";
+import { toErrorMessage } from "../../utils/errors.js";
+import { pathExists } from "../../utils/fs.js";
+import { resolveProfileAgentIds } from "../shared/resolve-stage-competitors.js";
+
+export const STATS_STAGES = ORCHESTRATION_STAGE_IDS;
+
+export type StatsStage = OrchestrationStageId;
+
+/** Statuses where an agent finished on its own; aborted and skipped work is left out of rates. */
+const COMPLETED_STATUSES = ["succeeded", "failed", "errored"] as const;
+
+export interface StatsFilters {
+  /** Only include sessions created at or after this instant. */
+  since?: Date;
+  /** Only include sessions created before this instant. */
+  until?: Date;
+  /** Only include the agents this orchestration profile assigns to each stage. */
+  profile?: string;
+}
+
+export interface StatsCommandInput {
+  root: string;
+  specsFilePath: string;
+  runsFilePath: string;
+  reductionsFilePath: string;
+  verificationsFilePath: string;
+  messagesFilePath: string;
+  filters: StatsFilters;
+}
+
+export interface AgentStageStats {
+  agentId: string;
+  stage: StatsStage;
+  /** Sessions of this stage the agent took part in. */
+  sessions: number;
+  /** Sessions where the agent succeeded, failed, or errored. */
+  completed: number;
+  succeeded: number;
+  successRate: number | null;
+  /** Decided verifications of sessions the agent competed in. */
+  verified: number;
+  wins: number;
+  winRate: number | null;
+  /** Runs whose applied diff came from this agent (run stage only). */
+  applied?: number;
+  applyRate?: number | null;
+  medianDurationMs: number | null;
+  watchdogTriggers: number;
+  tokenUsage: Record<string, number>;
+  costUsd?: number;
+}
+
+export interface StatsCommandResult {
+  filters: {
+    since?: string;
+    until?: string;
+    profile?: string;
+  };
+  sessionCount: number;
+  agents: AgentStageStats[];
+  warnings: string[];
+}
+
+interface StatsEntry {
+  agentId: string;
+  stage: StatsStage;
+  status: string;
+  startedAt?: string;
+  completedAt?: string;
+  tokenUsage?: object;
+  costUsd?: number;
+  watchdogTriggered?: boolean;
+}
+
+interface StatsSessions {
+  spec: SpecRecord[];
+  run: RunRecord[];
+  reduce: ReductionRecord[];
+  verify: VerificationRecord[];
+  message: MessageRecord[];
+}
+
+export async function executeStatsCommand(
+  input: StatsCommandInput,
+): Promise<StatsCommandResult> {
+  const { root, filters } = input;
+  const warnings: string[] = [];
+  const profileAgentIds = filters.profile
+    ? resolveProfileAgentIds(root, filters.profile)
+    : undefined;
+
+  const all = await readStatsSessions(input, warnings);
+  const inRange = <T extends { createdAt: string }>(records: T[]): T[] =>
+    records.filter((record) => isWithinRange(record.createdAt, filters));
+  const sessions: StatsSessions = {
+    spec: inRange(all.spec),
+    run: inRange(all.run),
+    reduce: inRange(all.reduce),
+    verify: inRange(all.verify),
+    message: inRange(all.message),
+  };
+
+  const aggregates = new Map<string, StatsAggregate>();
+  const aggregateFor = (
+    stage: StatsStage,
+    agentId: string,
+  ): StatsAggregate | undefined => {
+    if (profileAgentIds && !profileAgentIds[stage].has(agentId)) {
+      return undefined;
+    }
+    const key = `${stage}:${agentId}`;
+    let aggregate = aggregates.get(key);
+    if (!aggregate) {
+      aggregate = createAggregate(stage, agentId);
+      aggregates.set(key, aggregate);
+    }
+    return aggregate;
+  };
+
+  for (const entry of collectEntries(sessions)) {
+    const aggregate = aggregateFor(entry.stage, entry.agentId);
+    if (aggregate) {
+      addEntry(aggregate, entry);
+    }
+  }
+
+  for (const record of sessions.run) {
+    const applied = record.applyStatus;
+    if (applied && applied.status !== "failed") {
+      const aggregate = aggregateFor("run", applied.agentId);
+      if (aggregate) {
+        aggregate.applied += 1;
+      }
+    }
+  }
+
+  for (const contest of await collectVerificationContests({
+    root,
+    verifications: sessions.verify,
+    all,
+    warnings,
+  })) {
+    for (const agentId of contest.participants) {
+      const aggregate = aggregateFor(contest.stage, agentId);
+      if (!aggregate) {
+        continue;
+      }
+      aggregate.verified += 1;
+      if (agentId === contest.winner) {
+        aggregate.wins += 1;
+      }
+    }
+  }
+
+  const agents = [...aggregates.values()]
+    .sort(
+      (left, right) =>
+        STATS_STAGES.indexOf(left.stage) - STATS_STAGES.indexOf(right.stage) ||
+        left.agentId.localeCompare(right.agentId),
+    )
+    .map(toAgentStageStats);
+
+  return {
+    filters: {
+      ...(filters.since ? { since: filters.since.toISOString() } : {}),
+      ...(filters.until ? { until: filters.until.toISOString() } : {}),
+      ...(filters.profile ? { profile: filters.profile } : {}),
+    },
+    sessionCount:
+      sessions.spec.length +
+      sessions.run.length +
+      sessions.reduce.length +
+      sessions.verify.length +
+      sessions.message.length,
+    agents,
+    warnings,
+  };
+}
+
+interface StatsAggregate {
+  agentId: string;
+  stage: StatsStage;
+  sessions: number;
+  completed: number;
+  succeeded: number;
+  verified: number;
+  wins: number;
+  applied: number;
+  durationsMs: number[];
+  watchdogTriggers: number;
+  tokenUsage: Record<string, number>;
+  costUsd?: number;
+}
+
+function createAggregate(stage: StatsStage, agentId: string): StatsAggregate {
+  return {
+    agentId,
+    stage,
+    sessions: 0,
+    completed: 0,
+    succeeded: 0,
+    verified: 0,
+    wins: 0,
+    applied: 0,
+    durationsMs: [],
+    watchdogTriggers: 0,
+    tokenUsage: {},
+  };
+}
+
+function addEntry(aggregate: StatsAggregate, entry: StatsEntry): void {
+  aggregate.sessions += 1;
+  if ((COMPLETED_STATUSES as readonly string[]).includes(entry.status)) {
+    aggregate.completed += 1;
+    if (entry.status === "succeeded") {
+      aggregate.succeeded += 1;
+    }
+    const durationMs = resolveDurationMs(entry);
+    if (durationMs !== undefined) {
+      aggregate.durationsMs.push(durationMs);
+    }
+  }
+  if (entry.watchdogTriggered) {
+    aggregate.watchdogTriggers += 1;
+  }
+  for (const [key, value] of Object.entries(entry.tokenUsage ?? {})) {
+    if (typeof value === "number") {
+      aggregate.tokenUsage[key] = (aggregate.tokenUsage[key] ?? 0) + value;
+    }
+  }
+  if (entry.costUsd !== undefined) {
+    aggregate.costUsd = (aggregate.costUsd ?? 0) + entry.costUsd;
+  }
+}
+
+function toAgentStageStats(aggregate: StatsAggregate): AgentStageStats {
+  return {
+    agentId: aggregate.agentId,
+    stage: aggregate.stage,
+    sessions: aggregate.sessions,
+    completed: aggregate.completed,
+    succeeded: aggregate.succeeded,
+    successRate: toRate(aggregate.succeeded, aggregate.completed),
+    verified: aggregate.verified,
+    wins: aggregate.wins,
+    winRate: toRate(aggregate.wins, aggregate.verified),
+    ...(aggregate.stage === "run"
+      ? {
+          applied: aggregate.applied,
+          applyRate: toRate(aggregate.applied, aggregate.sessions),
+        }
+      : {}),
+    medianDurationMs: median(aggregate.durationsMs),
+    watchdogTriggers: aggregate.watchdogTriggers,
+    tokenUsage: aggregate.tokenUsage,
+    ...(aggregate.costUsd !== undefined ? { costUsd: aggregate.costUsd } : {}),
+  };
+}
+
+function collectEntries(sessions: StatsSessions): StatsEntry[] {
+  const entries: StatsEntry[] = [];
+  for (const record of sessions.spec) {
+    for (const agent of record.agents) {
+      entries.push({ ...agent, stage: "spec" });
+    }
+  }
+  for (const record of sessions.run) {
+    for (const agent of record.agents) {
+      entries.push({
+        agentId: agent.agentId,
+        stage: "run",
+        status: agent.status,
+        startedAt: agent.startedAt,
+        completedAt: agent.completedAt,
+        tokenUsage: agent.tokenUsage,
+        costUsd: agent.costUsd,
+        watchdogTriggered: agent.watchdog?.trigger !== undefined,
+      });
+    }
+  }
+  for (const record of sessions.reduce) {
+    for (const reducer of record.reducers) {
+      entries.push({ ...reducer, stage: "reduce" });
+    }
+  }
+  for (const record of sessions.verify) {
+    for (const method of record.methods) {
+      if (method.method === "rubric" && method.verifierId) {
+        entries.push({
+          agentId: method.verifierId,
+          stage: "verify",
+          status: method.status,
+          startedAt: method.startedAt,
+          completedAt: method.completedAt,
+          tokenUsage: method.tokenUsage,
+          costUsd: method.costUsd,
+        });
+      }
+    }
+  }
+  for (const record of sessions.message) {
+    for (const recipient of record.recipients) {
+      entries.push({ ...recipient, stage: "message" });
+    }
+  }
+  return entries;
+}
+
+interface VerificationContest {
+  stage: StatsStage;
+  participants: readonly string[];
+  winner: string;
+}
+
+/**
+ * Reads the winner of the latest succeeded verification of each target
+ * session. Participants are the candidates that verification compared.
+ */
+async function collectVerificationContests(options: {
+  root: string;
+  verifications: readonly VerificationRecord[];
+  all: StatsSessions;
+  warnings: string[];
+}): Promise<VerificationContest[]> {
+  const { root, verifications, all, warnings } = options;
+
+  const latestByTarget = new Map<string, VerificationRecord>();
+  for (const record of verifications) {
+    if (record.status !== "succeeded") {
+      continue;
+    }
+    const key = `${record.target.kind}:${record.target.sessionId}`;
+    const current = latestByTarget.get(key);
+    if (!current || current.createdAt < record.createdAt) {
+      latestByTarget.set(key, record);
+    }
+  }
+
+  const contests: VerificationContest[] = [];
+  for (const record of latestByTarget.values()) {
+    const output = await loadVerificationSelectionPolicyOutput({
+      root,
+      record,
+    }).catch((error: unknown) => {
+      warnings.push(
+        `Skipping verification \`${record.sessionId}\`: ${toErrorMessage(error)}`,
+      );
+      return undefined;
+    });
+    if (!output || output.decision.state !== "resolvable") {
+      continue;
+    }
+
+    const participants = resolveVerificationParticipants(record, all);
+    if (participants.length > 0) {
+      contests.push({
+        stage: record.target.kind,
+        participants,
+        winner: output.decision.selectedCanonicalAgentId,
+      });
+    }
+  }
+  return contests;
+}
+
+function resolveVerificationParticipants(
+  record: VerificationRecord,
+  all: StatsSessions,
+): string[] {
+  const { target } = record;
+  const succeededAgentIds = (
+    agents: readonly { agentId: string; status: string }[] | undefined,
+  ): string[] =>
+    (agents ?? [])
+      .filter((agent) => agent.status === "succeeded")
+      .map((agent) => agent.agentId);
+
+  switch (target.kind) {
+    case "run":
+      return [...target.candidateIds];
+    case "spec":
+      return succeededAgentIds(
+        all.spec.find((spec) => spec.sessionId === target.sessionId)?.agents,
+      );
+    case "reduce":
+      return succeededAgentIds(
+        all.reduce.find((reduce) => reduce.sessionId === target.sessionId)
+          ?.reducers,
+      );
+    case "message":
+      return succeededAgentIds(
+        all.message.find((message) => message.sessionId === target.sessionId)
+          ?.recipients,
+      );
+  }
+}
+
+async function readStatsSessions(
+  input: StatsCommandInput,
+  warnings: string[],
+): Promise<StatsSessions> {
+  const {
+    root,
+    specsFilePath,
+    runsFilePath,
+    reductionsFilePath,
+    verificationsFilePath,
+    messagesFilePath,
+  } = input;
+  const onWarning = (warning: { displayPath: string }): void => {
+    warnings.push(`Ignoring corrupt session ${warning.displayPath}`);
+  };
+
+  return {
+    spec: (await pathExists(specsFilePath))
+      ? await readSpecRecords({ root, specsFilePath, onWarning })
+      : [],
+    run: (await pathExists(runsFilePath))
+      ? await readRunRecords({ root, runsFilePath, onWarning })
+      : [],
+    reduce: (await pathExists(reductionsFilePath))
+      ? await readReductionRecords({ root, reductionsFilePath, onWarning })
+      : [],
+    verify: (await pathExists(verificationsFilePath))
+      ? await readVerificationRecords({
+          root,
+          verificationsFilePath,
+          onWarning,
+        })
+      : [],
+    message: (await pathExists(messagesFilePath))
+      ? await readMessageRecords({ root, messagesFilePath, onWarning })
+      : [],
+  };
+}
+
+function isWithinRange(createdAt: string, filters: StatsFilters): boolean {
+  const created = Date.parse(createdAt);
+  if (Number.isNaN(created)) {
+    return filters.since === undefined && filters.until === undefined;
+  }
+  if (filters.since && created < filters.since.getTime()) {
+    return false;
+  }
+  if (filters.until && created >= filters.until.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+function resolveDurationMs(entry: StatsEntry): number | undefined {
+  if (!entry.startedAt || !entry.completedAt) {
+    return undefined;
+  }
+  const durationMs =
+    Date.parse(entry.completedAt) - Date.parse(entry.startedAt);
+  return Number.isFinite(durationMs) && durationMs >= 0
+    ? durationMs
+    : undefined;
+}
+
+function toRate(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+function median(values: readonly number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -1,38 +1,30 @@
-import { teardownSessionAuth } from "../../agents/runtime/registry.js";
-import { createTeardownController } from "../../competition/shared/teardown.js";
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
+import {
+  buildPersistedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
 import { loadVerificationConfig } from "../../configs/verification/loader.js";
+import type {
+  VerificationConfig,
+  VerificationWinnerPolicyConfig,
+} from "../../configs/verification/types.js";
 import { buildBlindedAliasMap } from "../../domain/verify/competition/blinding.js";
-import {
-  deriveVerificationStatusFromMethods,
-  maybePersistSelectedSpecPath,
-} from "../../domain/verify/competition/finalize.js";
-import { executeAndPersistProgrammaticMethod } from "../../domain/verify/competition/programmatic.js";
-import { executeAndPersistRubricMethods } from "../../domain/verify/competition/rubric.js";
-import { createVerificationRecordMutators } from "../../domain/verify/model/mutators.js";
 import type {
   VerificationRecord,
-  VerificationStatus,
+  VerificationTargetKind,
 } from "../../domain/verify/model/types.js";
-import {
-  appendVerificationRecord,
-  flushVerificationRecordBuffer,
-} from "../../domain/verify/persistence/adapter.js";
+import { appendVerificationRecord } from "../../domain/verify/persistence/adapter.js";
 import { buildPersistedExtraContextFields } from "../../extra-context/contract.js";
 import { loadOperatorEnvironment } from "../../preflight/environment.js";
 import { prepareConfiguredOperatorReadiness } from "../../preflight/operator.js";
+import { collectCostBudgetPricingIssues } from "../../preflight/pricing.js";
 import type { VerifyProgressRenderer } from "../../render/transcripts/verify.js";
-import { toErrorMessage } from "../../utils/errors.js";
-import { normalizePathForDisplay, relativeToRoot } from "../../utils/path.js";
 import { emitSwarmSessionAcknowledgement } from "../../utils/swarm-session-ack.js";
-import { VORATIQ_VERIFICATION_SESSIONS_DIR } from "../../workspace/constants.js";
-import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
 import { generateSessionId } from "../shared/session-id.js";
 import { resolveVerificationAgents } from "./agents.js";
 import { VerifyPreflightError } from "./errors.js";
-import {
-  finalizeActiveVerification,
-  registerActiveVerification,
-} from "./lifecycle.js";
+import { executeVerificationSession } from "./execution.js";
 import { resolveVerifyRubricMaxParallel } from "./max-parallel.js";
 import { resolveVerifyTarget, type VerifyTargetSelection } from "./targets.js";
 
@@ -48,6 +40,7 @@ export interface VerifyCommandInput {
   agentOverrideFlag?: string;
   profileName?: string;
   maxParallel?: number;
+  costBudget?: CostBudget;
   extraContextFiles?: readonly import("../../competition/shared/extra-context.js").ResolvedExtraContextFile[];
   renderer?: VerifyProgressRenderer;
 }
@@ -72,6 +65,7 @@ export async function executeVerifyCommand(
     agentOverrideFlag,
     profileName,
     maxParallel,
+    costBudget,
     extraContextFiles = [],
     renderer,
   } = input;
@@ -104,8 +98,28 @@ export async function executeVerifyCommand(
     );
   }
   const verificationAgents = preflight.agents;
+  if (costBudget) {
+    const pricingIssues = collectCostBudgetPricingIssues({
+      root,
+      agents: verificationAgents,
+    });
+    if (pricingIssues.length > 0) {
+      throw new VerifyPreflightError(pricingIssues, pricingIssues.length);
+    }
+  }
+  const resolvedPromptOverlays = await resolvePromptOverlays({
+    root,
+    stage: "verify",
+    agentIds: verificationAgents.map((agent) => agent.id),
+  });
   const environment = loadOperatorEnvironment({ root });
   const verificationId = generateSessionId();
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "verify",
+    sessionId: verificationId,
+    overlays: resolvedPromptOverlays,
+  });
   const createdAt = new Date().toISOString();
   const aliasMap = buildBlindedAliasMap(resolvedTarget);
   const rubricMaxParallel = resolveVerifyRubricMaxParallel({
@@ -114,164 +128,61 @@ export async function executeVerifyCommand(
     verifierAgentCount: verificationAgents.length,
     requestedMaxParallel: maxParallel,
   });
+  const winnerPolicy = resolveStageWinnerPolicy(
+    verificationConfig,
+    resolvedTarget.target.kind,
+  );
   const initialRecord: VerificationRecord = {
     sessionId: verificationId,
     createdAt,
     status: "queued",
     target: resolvedTarget.target,
     ...buildPersistedExtraContextFields(extraContextFiles),
+    ...buildPersistedPromptOverlays(promptOverlays),
     ...(aliasMap ? { blinded: { enabled: true as const, aliasMap } } : {}),
     methods: [],
+    ...(winnerPolicy ? { winnerPolicy } : {}),
+    ownerPid: process.pid,
   };
 
-  const teardown = createTeardownController(`verify \`${verificationId}\``);
-  teardown.addAction({
-    key: `verify-auth:${verificationId}`,
-    label: "session auth",
-    cleanup: async () => {
-      await teardownSessionAuth(verificationId);
-    },
-  });
-
-  registerActiveVerification({
+  const record = await executeVerificationSession({
     root,
     verificationsFilePath,
     verificationId,
+    resolvedTarget,
+    verificationConfig,
+    verifierAgents: verificationAgents,
+    aliasMap,
+    environment,
+    extraContextFiles,
+    promptOverlays,
+    rubricMaxParallel,
+    costBudget,
+    winnerPolicy,
+    createdAt,
+    startedAt: createdAt,
+    renderer,
     initialRecord,
-    teardown,
-  });
-
-  try {
-    await appendVerificationRecord({
-      root,
-      verificationsFilePath,
-      record: initialRecord,
-    });
-    await emitSwarmSessionAcknowledgement({
-      operator: "verify",
-      sessionId: verificationId,
-      status: "queued",
-    });
-
-    const mutators = createVerificationRecordMutators({
-      root,
-      verificationsFilePath,
-      verificationId,
-    });
-    await mutators.recordVerificationRunning(createdAt);
-
-    renderer?.begin({
-      verificationId,
-      createdAt,
-      startedAt: createdAt,
-      workspacePath: normalizePathForDisplay(
-        relativeToRoot(
-          root,
-          resolveWorkspacePath(
-            root,
-            VORATIQ_VERIFICATION_SESSIONS_DIR,
-            verificationId,
-          ),
-        ),
-      ),
-      status: "running",
-    });
-
-    const [programmaticResult, rubricResult] = await Promise.allSettled([
-      executeAndPersistProgrammaticMethod({
-        root,
-        verificationId,
-        resolvedTarget,
-        verificationConfig,
-        environment,
-        mutators,
-        renderer,
-      }),
-      executeAndPersistRubricMethods({
+    persistRecord: async () => {
+      await appendVerificationRecord({
         root,
-        verificationId,
-        resolvedTarget,
-        verificationConfig,
-        verifierAgents: verificationAgents,
-        aliasMap,
-        environment,
-        extraContextFiles,
-        maxParallel: rubricMaxParallel,
-        teardown,
-        mutators,
-        renderer,
-      }),
-    ]);
-
-    if (programmaticResult.status === "rejected") {
-      throw programmaticResult.reason;
-    }
-
-    if (rubricResult.status === "rejected") {
-      throw rubricResult.reason;
-    }
-
-    const persistedRecord = await mutators.readRecord();
-    if (!persistedRecord) {
-      throw new Error(
-        `Verification record \`${verificationId}\` not found after method execution.`,
-      );
-    }
-
-    await maybePersistSelectedSpecPath({
-      root,
-      verificationsFilePath,
-      verificationId,
-      resolvedTarget,
-      aliasMap,
-      methods: persistedRecord.methods,
-    });
-
-    const record = await completeVerificationRecord({
-      mutators,
-      status: deriveVerificationStatusFromMethods(persistedRecord.methods),
-    });
-
-    renderer?.complete(record.status, {
-      startedAt: record.startedAt,
-      completedAt: record.completedAt,
-    });
-
-    return { verificationId, record };
-  } catch (error) {
-    const mutators = createVerificationRecordMutators({
-      root,
-      verificationsFilePath,
-      verificationId,
-    });
-    const failedRecord = await completeVerificationRecord({
-      mutators,
-      status: "failed",
-      error: toErrorMessage(error),
-    }).catch(() => undefined);
-
-    if (failedRecord) {
-      renderer?.complete(failedRecord.status, {
-        startedAt: failedRecord.startedAt,
-        completedAt: failedRecord.completedAt,
-      });
-      await flushVerificationRecordBuffer({
         verificationsFilePath,
+        record: initialRecord,
+      });
+      await emitSwarmSessionAcknowledgement({
+        operator: "verify",
         sessionId: verificationId,
-      }).catch(() => {});
-    }
+        status: "queued",
+      });
+    },
+  });
 
-    throw error;
-  } finally {
-    await finalizeActiveVerification(verificationId);
-  }
+  return { verificationId, record };
 }
 
-async function completeVerificationRecord(options: {
-  mutators: ReturnType<typeof createVerificationRecordMutators>;
-  status: VerificationStatus;
-  error?: string;
-}): Promise<VerificationRecord> {
-  const { mutators, status, error } = options;
-  return await mutators.completeVerification({ status, error });
+function resolveStageWinnerPolicy(
+  verificationConfig: VerificationConfig,
+  targetKind: VerificationTargetKind,
+): VerificationWinnerPolicyConfig | undefined {
+  return verificationConfig[targetKind].winnerPolicy;
 }
@@ -39,3 +39,41 @@ export class VerifyPreflightError extends VerifyError {
     this.name = "VerifyPreflightError";
   }
 }
+
+export class VerifySessionNotFoundError extends VerifyError {
+  constructor(verificationId: string) {
+    super(
+      `Verification \`${verificationId}\` not found.`,
+      [],
+      ["Check available verifications with `voratiq list --verify`."],
+    );
+    this.name = "VerifySessionNotFoundError";
+  }
+}
+
+export class VerifyNotResumableError extends VerifyError {
+  constructor(verificationId: string) {
+    super(
+      `Verification \`${verificationId}\` has no methods left to resume.`,
+      [],
+      ["Every method already succeeded; start a new verification instead."],
+    );
+    this.name = "VerifyNotResumableError";
+  }
+}
+
+export class VerifySessionActiveError extends VerifyError {
+  constructor(verificationId: string, ownerPid: number | undefined) {
+    super(
+      ownerPid === undefined
+        ? `Verification \`${verificationId}\` is still marked running and records no owner process.`
+        : `Verification \`${verificationId}\` is still running in process ${ownerPid}.`,
+      [],
+      [
+        "Wait for it to finish or stop it before resuming.",
+        "If that process is gone, re-run with `--force`.",
+      ],
+    );
+    this.name = "VerifySessionActiveError";
+  }
+}
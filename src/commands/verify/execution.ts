@@ -0,0 +1,263 @@
+import { teardownSessionAuth } from "../../agents/runtime/registry.js";
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
+import type { ResolvedExtraContextFile } from "../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../competition/shared/prompt-overlays.js";
+import { createTeardownController } from "../../competition/shared/teardown.js";
+import type { AgentDefinition } from "../../configs/agents/types.js";
+import type { EnvironmentConfig } from "../../configs/environment/types.js";
+import type {
+  VerificationConfig,
+  VerificationWinnerPolicyConfig,
+} from "../../configs/verification/types.js";
+import {
+  deriveVerificationStatusFromMethods,
+  maybePersistSelectedSpecPath,
+  persistVerificationSelectionTally,
+} from "../../domain/verify/competition/finalize.js";
+import {
+  executeAndPersistProgrammaticMethod,
+  resolveProgrammaticTestReports,
+} from "../../domain/verify/competition/programmatic.js";
+import { executeAndPersistRubricMethods } from "../../domain/verify/competition/rubric.js";
+import type { ResolvedVerificationTarget } from "../../domain/verify/competition/target.js";
+import { createVerificationRecordMutators } from "../../domain/verify/model/mutators.js";
+import type {
+  VerificationRecord,
+  VerificationStatus,
+} from "../../domain/verify/model/types.js";
+import { flushVerificationRecordBuffer } from "../../domain/verify/persistence/adapter.js";
+import type { VerifyProgressRenderer } from "../../render/transcripts/verify.js";
+import { toErrorMessage } from "../../utils/errors.js";
+import { normalizePathForDisplay, relativeToRoot } from "../../utils/path.js";
+import { VORATIQ_VERIFICATION_SESSIONS_DIR } from "../../workspace/constants.js";
+import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import {
+  finalizeActiveVerification,
+  registerActiveVerification,
+} from "./lifecycle.js";
+
+export interface VerificationExecutionInput {
+  root: string;
+  verificationsFilePath: string;
+  verificationId: string;
+  resolvedTarget: ResolvedVerificationTarget;
+  verificationConfig: VerificationConfig;
+  verifierAgents: readonly AgentDefinition[];
+  aliasMap?: Record<string, string>;
+  environment: EnvironmentConfig;
+  extraContextFiles: readonly ResolvedExtraContextFile[];
+  promptOverlays?: readonly ResolvedPromptOverlay[];
+  rubricMaxParallel: number;
+  costBudget?: CostBudget;
+  winnerPolicy?: VerificationWinnerPolicyConfig;
+  createdAt: string;
+  startedAt: string;
+  renderer?: VerifyProgressRenderer;
+  /** Record to persist if the session is terminated before it is written. */
+  initialRecord?: VerificationRecord;
+  /** Succeeded method refs a resumed session keeps instead of re-running. */
+  completedMethods?: VerificationRecord["methods"];
+  /** Persists the record the methods report into. */
+  persistRecord: () => Promise<void>;
+}
+
+/**
+ * Execute programmatic and rubric methods against a persisted verification
+ * record and finalize it. Shared by fresh and resumed verifications.
+ */
+export async function executeVerificationSession(
+  input: VerificationExecutionInput,
+): Promise<VerificationRecord> {
+  const {
+    root,
+    verificationsFilePath,
+    verificationId,
+    resolvedTarget,
+    verificationConfig,
+    verifierAgents,
+    aliasMap,
+    environment,
+    extraContextFiles,
+    promptOverlays,
+    rubricMaxParallel,
+    costBudget,
+    winnerPolicy,
+    createdAt,
+    startedAt,
+    renderer,
+    initialRecord,
+    completedMethods = [],
+    persistRecord,
+  } = input;
+
+  const teardown = createTeardownController(`verify \`${verificationId}\``);
+  teardown.addAction({
+    key: `verify-auth:${verificationId}`,
+    label: "session auth",
+    cleanup: async () => {
+      await teardownSessionAuth(verificationId);
+    },
+  });
+
+  registerActiveVerification({
+    root,
+    verificationsFilePath,
+    verificationId,
+    initialRecord,
+    teardown,
+  });
+
+  try {
+    await persistRecord();
+
+    const mutators = createVerificationRecordMutators({
+      root,
+      verificationsFilePath,
+      verificationId,
+    });
+    await mutators.recordVerificationRunning(createdAt);
+
+    renderer?.begin({
+      verificationId,
+      createdAt,
+      startedAt,
+      workspacePath: normalizePathForDisplay(
+        relativeToRoot(
+          root,
+          resolveWorkspacePath(
+            root,
+            VORATIQ_VERIFICATION_SESSIONS_DIR,
+            verificationId,
+          ),
+        ),
+      ),
+      status: "running",
+    });
+
+    const keptProgrammaticMethod = completedMethods.find(
+      (method) => method.method === "programmatic",
+    );
+    const programmaticMethod = keptProgrammaticMethod
+      ? Promise.resolve(keptProgrammaticMethod)
+      : executeAndPersistProgrammaticMethod({
+          root,
+          verificationId,
+          resolvedTarget,
+          verificationConfig,
+          environment,
+          mutators,
+          renderer,
+        });
+    const [programmaticResult, rubricResult] = await Promise.allSettled([
+      programmaticMethod,
+      executeAndPersistRubricMethods({
+        root,
+        verificationId,
+        resolvedTarget,
+        verificationConfig,
+        verifierAgents,
+        aliasMap,
+        environment,
+        extraContextFiles,
+        promptOverlays,
+        maxParallel: rubricMaxParallel,
+        costBudget,
+        testReports: resolveProgrammaticTestReports({
+          root,
+          resolvedTarget,
+          verificationConfig,
+          programmaticMethod,
+        }),
+        completedMethods,
+        teardown,
+        mutators,
+        renderer,
+      }),
+    ]);
+
+    if (programmaticResult.status === "rejected") {
+      throw programmaticResult.reason;
+    }
+
+    if (rubricResult.status === "rejected") {
+      throw rubricResult.reason;
+    }
+
+    const persistedRecord = await mutators.readRecord();
+    if (!persistedRecord) {
+      throw new Error(
+        `Verification record \`${verificationId}\` not found after method execution.`,
+      );
+    }
+
+    await maybePersistSelectedSpecPath({
+      root,
+      verificationsFilePath,
+      verificationId,
+      resolvedTarget,
+      aliasMap,
+      winnerPolicy,
+      methods: persistedRecord.methods,
+    });
+
+    await persistVerificationSelectionTally({
+      root,
+      verificationsFilePath,
+      record: persistedRecord,
+      ...("specRecord" in resolvedTarget
+        ? {
+            canonicalCandidateIds: resolvedTarget.specRecord.agents.map(
+              (agent) => agent.agentId,
+            ),
+          }
+        : {}),
+    });
+
+    const record = await completeVerificationRecord({
+      mutators,
+      status: deriveVerificationStatusFromMethods(persistedRecord.methods),
+    });
+
+    renderer?.complete(record.status, {
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+    });
+
+    return record;
+  } catch (error) {
+    const mutators = createVerificationRecordMutators({
+      root,
+      verificationsFilePath,
+      verificationId,
+    });
+    const failedRecord = await completeVerificationRecord({
+      mutators,
+      status: "failed",
+      error: toErrorMessage(error),
+    }).catch(() => undefined);
+
+    if (failedRecord) {
+      renderer?.complete(failedRecord.status, {
+        startedAt: failedRecord.startedAt,
+        completedAt: failedRecord.completedAt,
+      });
+      await flushVerificationRecordBuffer({
+        verificationsFilePath,
+        sessionId: verificationId,
+      }).catch(() => {});
+    }
+
+    throw error;
+  } finally {
+    await finalizeActiveVerification(verificationId);
+  }
+}
+
+async function completeVerificationRecord(options: {
+  mutators: ReturnType<typeof createVerificationRecordMutators>;
+  status: VerificationStatus;
+  error?: string;
+}): Promise<VerificationRecord> {
+  const { mutators, status, error } = options;
+  return await mutators.completeVerification({ status, error });
+}
@@ -0,0 +1,284 @@
+import type { CostBudget } from "../../competition/shared/cost-budget.js";
+import { resolveExtraContextFiles } from "../../competition/shared/extra-context.js";
+import {
+  buildPersistedPromptOverlays,
+  mergeResumedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../competition/shared/prompt-overlays.js";
+import type { AgentDefinition } from "../../configs/agents/types.js";
+import { loadVerificationConfig } from "../../configs/verification/loader.js";
+import { buildSessionCostFields } from "../../domain/shared/token-cost.js";
+import { removeStaleSharedVerificationInputs } from "../../domain/verify/competition/shared-layout.js";
+import type { VerificationRecord } from "../../domain/verify/model/types.js";
+import {
+  readVerificationRecords,
+  rewriteVerificationRecord,
+} from "../../domain/verify/persistence/adapter.js";
+import type { PromptOverlayEntry } from "../../persistence/prompt-overlays.js";
+import { loadOperatorEnvironment } from "../../preflight/environment.js";
+import { prepareConfiguredOperatorReadiness } from "../../preflight/operator.js";
+import { collectCostBudgetPricingIssues } from "../../preflight/pricing.js";
+import type { VerifyProgressRenderer } from "../../render/transcripts/verify.js";
+import {
+  IN_PROGRESS_VERIFICATION_STATUSES,
+  RESUMABLE_VERIFICATION_STATUSES,
+} from "../../status/index.js";
+import { isSessionOwnerActive } from "../shared/session-owner.js";
+import { resolveVerificationAgents } from "./agents.js";
+import type { VerifyCommandResult } from "./command.js";
+import {
+  VerifyNotResumableError,
+  VerifyPreflightError,
+  VerifySessionActiveError,
+  VerifySessionNotFoundError,
+} from "./errors.js";
+import { executeVerificationSession } from "./execution.js";
+import { resolveVerifyRubricMaxParallel } from "./max-parallel.js";
+import { resolveVerifyTarget } from "./targets.js";
+
+export interface VerifyResumeCommandInput {
+  root: string;
+  specsFilePath: string;
+  runsFilePath: string;
+  reductionsFilePath: string;
+  messagesFilePath: string;
+  verificationsFilePath: string;
+  verificationId: string;
+  maxParallel?: number;
+  costBudget?: CostBudget;
+  /** Resume even when the verification is still marked running by a live process. */
+  force?: boolean;
+  renderer?: VerifyProgressRenderer;
+}
+
+/**
+ * Resume an interrupted verification: keep methods that finished, whether they
+ * succeeded or failed, and re-run queued, running, and aborted methods under
+ * the session's original blinding.
+ */
+export async function executeVerifyResumeCommand(
+  input: VerifyResumeCommandInput,
+): Promise<VerifyCommandResult> {
+  const {
+    root,
+    specsFilePath,
+    runsFilePath,
+    reductionsFilePath,
+    messagesFilePath,
+    verificationsFilePath,
+    verificationId,
+    maxParallel,
+    costBudget,
+    force,
+    renderer,
+  } = input;
+
+  const [record] = await readVerificationRecords({
+    root,
+    verificationsFilePath,
+    limit: 1,
+    predicate: (entry) => entry.sessionId === verificationId,
+  });
+  if (!record) {
+    throw new VerifySessionNotFoundError(verificationId);
+  }
+  if (
+    !force &&
+    IN_PROGRESS_VERIFICATION_STATUSES.includes(record.status) &&
+    isSessionOwnerActive(record.ownerPid)
+  ) {
+    throw new VerifySessionActiveError(verificationId, record.ownerPid);
+  }
+
+  const completedMethods = record.methods.filter(
+    (method) => !RESUMABLE_VERIFICATION_STATUSES.includes(method.status),
+  );
+  const pendingMethods = record.methods.filter((method) =>
+    RESUMABLE_VERIFICATION_STATUSES.includes(method.status),
+  );
+  const rerunProgrammatic =
+    record.methods.length === 0 ||
+    pendingMethods.some((method) => method.method === "programmatic");
+  // A session interrupted before any method was queued falls back to the
+  // configured verifiers.
+  const verifierIds =
+    record.methods.length === 0
+      ? resolveVerificationAgents({ root }).agentIds
+      : [
+          ...new Set(
+            pendingMethods.flatMap((method) =>
+              method.method === "rubric" && method.verifierId
+                ? [method.verifierId]
+                : [],
+            ),
+          ),
+        ];
+  if (!rerunProgrammatic && verifierIds.length === 0) {
+    throw new VerifyNotResumableError(verificationId);
+  }
+
+  const resolvedTarget = await resolveVerifyTarget({
+    root,
+    specsFilePath,
+    runsFilePath,
+    reductionsFilePath,
+    messagesFilePath,
+    verificationsFilePath,
+    target: {
+      kind: record.target.kind,
+      sessionId: record.target.sessionId,
+      ...(record.target.kind === "run" && record.target.runs
+        ? { sessionIds: record.target.runs.map((run) => run.sessionId) }
+        : {}),
+    },
+  });
+  const verificationConfig = loadVerificationConfig({ root });
+  const verifierAgents =
+    verifierIds.length > 0
+      ? await prepareVerifierAgents(root, verifierIds, costBudget)
+      : [];
+  const environment = loadOperatorEnvironment({ root });
+  const extraContextFiles = await resolveExtraContextFiles({
+    root,
+    paths: record.extraContextMetadata?.map((entry) => entry.sourcePath),
+  });
+  const promptOverlays = await snapshotPromptOverlays({
+    root,
+    stage: "verify",
+    sessionId: verificationId,
+    overlays: await resolvePromptOverlays({
+      root,
+      stage: "verify",
+      agentIds: verifierIds,
+    }),
+  });
+  const rubricMaxParallel = resolveVerifyRubricMaxParallel({
+    targetKind: resolvedTarget.target.kind,
+    verificationConfig,
+    verifierAgentCount: verifierAgents.length,
+    requestedMaxParallel: maxParallel,
+  });
+
+  await removeStaleSharedVerificationInputs({ root, verificationId });
+
+  const resumedAt = new Date().toISOString();
+  const startedAt = record.startedAt ?? resumedAt;
+
+  const finalRecord = await executeVerificationSession({
+    root,
+    verificationsFilePath,
+    verificationId,
+    resolvedTarget,
+    verificationConfig,
+    verifierAgents,
+    aliasMap: record.blinded?.aliasMap,
+    environment,
+    extraContextFiles,
+    promptOverlays,
+    rubricMaxParallel,
+    costBudget,
+    winnerPolicy: record.winnerPolicy,
+    createdAt: record.createdAt,
+    startedAt,
+    renderer,
+    completedMethods,
+    persistRecord: async () => {
+      await rewriteVerificationRecord({
+        root,
+        verificationsFilePath,
+        sessionId: verificationId,
+        mutate: (existing) =>
+          reopenVerificationRecord(existing, {
+            verifierIds,
+            rerunProgrammatic,
+            resumedAt,
+            startedAt,
+            promptOverlays:
+              buildPersistedPromptOverlays(promptOverlays).promptOverlays,
+          }),
+        forceFlush: true,
+      });
+    },
+  });
+
+  return { verificationId, record: finalRecord };
+}
+
+async function prepareVerifierAgents(
+  root: string,
+  verifierIds: readonly string[],
+  costBudget: CostBudget | undefined,
+): Promise<readonly AgentDefinition[]> {
+  const preflight = await prepareConfiguredOperatorReadiness({
+    root,
+    resolvedAgentIds: verifierIds,
+    includeEnvironment: false,
+  });
+  if (preflight.issues.length > 0) {
+    throw new VerifyPreflightError(
+      preflight.issues,
+      preflight.preProviderIssueCount,
+    );
+  }
+  if (costBudget) {
+    const pricingIssues = collectCostBudgetPricingIssues({
+      root,
+      agents: preflight.agents,
+    });
+    if (pricingIssues.length > 0) {
+      throw new VerifyPreflightError(pricingIssues, pricingIssues.length);
+    }
+  }
+  return preflight.agents;
+}
+
+function reopenVerificationRecord(
+  existing: VerificationRecord,
+  options: {
+    verifierIds: readonly string[];
+    rerunProgrammatic: boolean;
+    resumedAt: string;
+    startedAt: string;
+    /** Overlays re-read for the resumed verifiers. */
+    promptOverlays?: PromptOverlayEntry[];
+  },
+): VerificationRecord {
+  const {
+    verifierIds,
+    rerunProgrammatic,
+    resumedAt,
+    startedAt,
+    promptOverlays,
+  } = options;
+  const methods = existing.methods.filter(
+    (method) => !RESUMABLE_VERIFICATION_STATUSES.includes(method.status),
+  );
+  return {
+    ...existing,
+    status: "running",
+    startedAt,
+    completedAt: undefined,
+    error: undefined,
+    ownerPid: process.pid,
+    promptOverlays: mergeResumedPromptOverlays({
+      recorded: existing.promptOverlays,
+      resumed: promptOverlays,
+      resumedAgentIds: verifierIds,
+      keptAgentIds: methods.flatMap((method) =>
+        method.verifierId !== undefined ? [method.verifierId] : [],
+      ),
+    }),
+    methods,
+    costUsd: undefined,
+    ...buildSessionCostFields(methods.map((method) => method.costUsd)),
+    resumes: [
+      ...(existing.resumes ?? []),
+      {
+        resumedAt,
+        agentIds: [...verifierIds],
+        ...(rerunProgrammatic ? { programmatic: true as const } : {}),
+      },
+    ],
+  };
+}
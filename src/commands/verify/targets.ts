@@ -3,8 +3,12 @@ import { basename, join } from "node:path";
 import { CliError, RunNotFoundCliError } from "../../cli/errors.js";
 import { TERMINAL_MESSAGE_STATUSES } from "../../domain/message/model/types.js";
 import { readMessageRecords } from "../../domain/message/persistence/adapter.js";
-import type { ReductionRecord } from "../../domain/reduce/model/types.js";
-import { TERMINAL_REDUCTION_STATUSES } from "../../domain/reduce/model/types.js";
+import {
+  getReductionTargets,
+  type ReductionRecord,
+  type ReductionTarget,
+  TERMINAL_REDUCTION_STATUSES,
+} from "../../domain/reduce/model/types.js";
 import { readReductionRecords } from "../../domain/reduce/persistence/adapter.js";
 import { RunRecordNotFoundError } from "../../domain/run/model/errors.js";
 import type { RunRecord } from "../../domain/run/model/types.js";
@@ -16,6 +20,7 @@ import type {
   ResolvedVerificationTarget,
   VerificationCompetitiveCandidate,
 } from "../../domain/verify/competition/target.js";
+import { buildRunVerificationTarget } from "../../domain/verify/model/types.js";
 import { readVerificationRecords } from "../../domain/verify/persistence/adapter.js";
 import { TERMINAL_RUN_STATUSES } from "../../status/index.js";
 import { pathExists } from "../../utils/fs.js";
@@ -31,6 +36,8 @@ export type VerifyTargetKind = "spec" | "run" | "reduce" | "message";
 export interface VerifyTargetSelection {
   kind: VerifyTargetKind;
   sessionId: string;
+  /** Runs whose candidates are judged together; `sessionId` is the first. */
+  sessionIds?: readonly string[];
 }
 
 export interface ResolveVerifyTargetInput {
@@ -144,27 +151,69 @@ async function resolveSpecVerifyTarget(
 async function resolveRunVerifyTarget(
   input: ResolveVerifyTargetInput,
 ): Promise<ResolvedVerifyTarget> {
-  const { root, runsFilePath, target } = input;
+  const { target } = input;
+  const runIds = [...new Set(target.sessionIds ?? [target.sessionId])];
+
+  const runs: Array<{ record: RunRecord; candidateIds: string[] }> = [];
+  for (const runId of runIds) {
+    runs.push(await loadVerifiableRun(input, runId));
+  }
+
+  const [first] = runs;
+  if (!first) {
+    throw new RunNotFoundCliError(target.sessionId);
+  }
+  assertRunsShareVerificationInputs(runs);
+
+  return {
+    baseRevisionSha: first.record.baseRevisionSha,
+    competitiveCandidates: runs.flatMap(({ record, candidateIds }) =>
+      candidateIds.map((candidateId) => ({
+        canonicalId: candidateId,
+        forbiddenIdentityTokens: collectRunCandidateIdentityTokens({
+          runRecord: record,
+          candidateId,
+        }),
+      })),
+    ),
+    target: buildRunVerificationTarget(
+      runs.map(({ record, candidateIds }) => ({
+        sessionId: record.runId,
+        candidateIds,
+      })),
+    ),
+    runRecord: first.record,
+    ...(runs.length > 1
+      ? { runRecords: runs.map(({ record }) => record) }
+      : {}),
+  };
+}
+
+async function loadVerifiableRun(
+  input: ResolveVerifyTargetInput,
+  runId: string,
+): Promise<{ record: RunRecord; candidateIds: string[] }> {
+  const { root, runsFilePath } = input;
 
   const { records } = await fetchRunsSafely({
     root,
     runsFilePath,
-    runId: target.sessionId,
+    runId,
   }).catch((error) => {
     if (error instanceof RunRecordNotFoundError) {
-      throw new RunNotFoundCliError(target.sessionId);
+      throw new RunNotFoundCliError(runId);
     }
     throw error;
   });
 
   const record = records[0];
   if (!record) {
-    throw new RunNotFoundCliError(target.sessionId);
+    throw new RunNotFoundCliError(runId);
   }
 
   if (!hasRealTerminalRunOutcome(record.status)) {
     throw new CliError(
-      `Run \`${target.sessionId}\` is not complete.`,
+      `Run \`${runId}\` is not complete.`,
       [`Status: \`${record.status}\`.`],
       ["Wait for the run to finish before running `voratiq verify`."],
     );
@@ -176,7 +225,7 @@ async function resolveRunVerifyTarget(
 
   if (candidateIds.length === 0) {
     throw new CliError(
-      `Run \`${target.sessionId}\` has no candidate agents to verify.`,
+      `Run \`${runId}\` has no candidate agents to verify.`,
       [],
       ["Re-run `voratiq run` to generate verifiable candidates."],
     );
@@ -191,7 +240,7 @@ async function resolveRunVerifyTarget(
   );
   if (missingRequiredArtifacts.length > 0) {
     throw new CliError(
-      `Run \`${target.sessionId}\` is missing required verification artifacts.`,
+      `Run \`${runId}\` is missing required verification artifacts.`,
       missingRequiredArtifacts.map((artifact) => `Missing: \`${artifact}\`.`),
       [
         "Re-run `voratiq run` to regenerate the retained artifacts before running `voratiq verify`.",
@@ -199,22 +248,52 @@ async function resolveRunVerifyTarget(
     );
   }
 
-  return {
-    baseRevisionSha: record.baseRevisionSha,
-    competitiveCandidates: candidateIds.map((candidateId) => ({
-      canonicalId: candidateId,
-      forbiddenIdentityTokens: collectRunCandidateIdentityTokens({
-        runRecord: record,
-        candidateId,
-      }),
-    })),
-    target: {
-      kind: "run",
-      sessionId: record.runId,
-      candidateIds,
-    },
-    runRecord: record,
-  };
+  return { record, candidateIds };
+}
+
+/**
+ * Runs judged together are compared against one spec and one base revision,
+ * and their candidates are identified by agent id alone.
+ */
+function assertRunsShareVerificationInputs(
+  runs: ReadonlyArray<{ record: RunRecord; candidateIds: readonly string[] }>,
+): void {
+  const [first, ...rest] = runs;
+  if (!first) {
+    return;
+  }
+
+  const owners = new Map<string, string>();
+  for (const { record, candidateIds } of runs) {
+    for (const candidateId of candidateIds) {
+      const owner = owners.get(candidateId);
+      if (owner) {
+        throw new CliError(
+          `Agent \`${candidateId}\` is a candidate in both run \`${owner}\` and run \`${record.runId}\`.`,
+          [],
+          ["Verify runs whose agents do not overlap."],
+        );
+      }
+      owners.set(candidateId, record.runId);
+    }
+  }
+
+  for (const { record } of rest) {
+    if (record.spec.path !== first.record.spec.path) {
+      throw new CliError(
+        `Run \`${record.runId}\` ran a different spec than run \`${first.record.runId}\`.`,
+        [`Specs: \`${first.record.spec.path}\` and \`${record.spec.path}\`.`],
+        ["Only runs of the same spec can be verified together."],
+      );
+    }
+    if (record.baseRevisionSha !== first.record.baseRevisionSha) {
+      throw new CliError(
+        `Run \`${record.runId}\` started from a different revision than run \`${first.record.runId}\`.`,
+        [],
+        ["Only runs from the same base revision can be verified together."],
+      );
+    }
+  }
 }
 
 function hasRealTerminalRunOutcome(status: RunRecord["status"]): boolean {
@@ -493,6 +572,10 @@ type ReductionReferenceRepoResolution =
       messageSessionId: string;
     };
 
+/**
+ * Resolves every target of the reduction, so a missing or recursive target
+ * fails verification, and uses the first target with a git base revision.
+ */
 async function resolveReductionReferenceRepo(options: {
   root: string;
   specsFilePath: string;
@@ -503,16 +586,7 @@ async function resolveReductionReferenceRepo(options: {
   reductionRecord: ReductionRecord;
   seenReductionIds?: Set<string>;
 }): Promise<ReductionReferenceRepoResolution> {
-  const {
-    root,
-    specsFilePath,
-    runsFilePath,
-    reductionsFilePath,
-    messagesFilePath,
-    verificationsFilePath,
-    reductionRecord,
-    seenReductionIds = new Set<string>(),
-  } = options;
+  const { reductionRecord, seenReductionIds = new Set<string>() } = options;
 
   if (seenReductionIds.has(reductionRecord.sessionId)) {
     throw new CliError(
@@ -525,17 +599,62 @@ async function resolveReductionReferenceRepo(options: {
   }
   seenReductionIds.add(reductionRecord.sessionId);
 
-  switch (reductionRecord.target.type) {
+  const resolutions: ReductionReferenceRepoResolution[] = [];
+  for (const target of getReductionTargets(reductionRecord)) {
+    resolutions.push(
+      await resolveReductionTargetReferenceRepo({
+        ...options,
+        target,
+        // Sibling targets may share ancestors; only a chain can recurse.
+        seenReductionIds: new Set(seenReductionIds),
+      }),
+    );
+  }
+
+  const resolution =
+    resolutions.find((entry) => entry.kind === "git") ?? resolutions[0];
+  if (!resolution) {
+    throw new CliError(
+      `Reduction session \`${reductionRecord.sessionId}\` has no targets.`,
+    );
+  }
+  return resolution;
+}
+
+async function resolveReductionTargetReferenceRepo(options: {
+  root: string;
+  specsFilePath: string;
+  runsFilePath: string;
+  reductionsFilePath: string;
+  messagesFilePath: string;
+  verificationsFilePath: string;
+  reductionRecord: ReductionRecord;
+  target: ReductionTarget;
+  seenReductionIds: Set<string>;
+}): Promise<ReductionReferenceRepoResolution> {
+  const {
+    root,
+    specsFilePath,
+    runsFilePath,
+    reductionsFilePath,
+    messagesFilePath,
+    verificationsFilePath,
+    reductionRecord,
+    target,
+    seenReductionIds,
+  } = options;
+
+  switch (target.type) {
     case "spec": {
       const [record] = await readSpecRecords({
         root,
         specsFilePath,
         limit: 1,
-        predicate: (entry) => entry.sessionId === reductionRecord.target.id,
+        predicate: (entry) => entry.sessionId === target.id,
       });
       if (!record) {
         throw new CliError(
-          `Spec session \`${reductionRecord.target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
+          `Spec session \`${target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
         );
       }
       return {
@@ -549,16 +668,16 @@ async function resolveReductionReferenceRepo(options: {
       const { records } = await fetchRunsSafely({
         root,
         runsFilePath,
-        runId: reductionRecord.target.id,
+        runId: target.id,
       }).catch((error) => {
         if (error instanceof RunRecordNotFoundError) {
-          throw new RunNotFoundCliError(reductionRecord.target.id);
+          throw new RunNotFoundCliError(target.id);
         }
         throw error;
       });
       const runRecord = records[0];
       if (!runRecord) {
-        throw new RunNotFoundCliError(reductionRecord.target.id);
+        throw new RunNotFoundCliError(target.id);
       }
       return {
         kind: "git",
@@ -570,11 +689,11 @@ async function resolveReductionReferenceRepo(options: {
         root,
         verificationsFilePath,
         limit: 1,
-        predicate: (entry) => entry.sessionId === reductionRecord.target.id,
+        predicate: (entry) => entry.sessionId === target.id,
       });
       if (!verificationRecord) {
         throw new CliError(
-          `Verification session \`${reductionRecord.target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
+          `Verification session \`${target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
         );
       }
 
@@ -678,11 +797,11 @@ async function resolveReductionReferenceRepo(options: {
         root,
         reductionsFilePath,
         limit: 1,
-        predicate: (entry) => entry.sessionId === reductionRecord.target.id,
+        predicate: (entry) => entry.sessionId === target.id,
       });
       if (!parentReduction) {
         throw new CliError(
-          `Reduction session \`${reductionRecord.target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
+          `Reduction session \`${target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
         );
       }
       return await resolveReductionReferenceRepo({
@@ -701,11 +820,11 @@ async function resolveReductionReferenceRepo(options: {
         root,
         messagesFilePath,
         limit: 1,
-        predicate: (entry) => entry.sessionId === reductionRecord.target.id,
+        predicate: (entry) => entry.sessionId === target.id,
       });
       if (!messageRecord) {
         throw new CliError(
-          `Message session \`${reductionRecord.target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
+          `Message session \`${target.id}\` referenced by reduction \`${reductionRecord.sessionId}\` was not found.`,
         );
       }
       return messageRecord.baseRevisionSha
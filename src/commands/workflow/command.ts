@@ -0,0 +1,438 @@
+import type { Workflow, WorkflowStage } from "../../configs/workflows/types.js";
+import type { ReductionTarget } from "../../domain/reduce/model/types.js";
+import type {
+  WorkflowRecord,
+  WorkflowRecordStage,
+  WorkflowStatus,
+} from "../../domain/workflow/model/types.js";
+import {
+  appendWorkflowRecord,
+  rewriteWorkflowRecord,
+} from "../../domain/workflow/persistence/adapter.js";
+import type { SelectionDecision } from "../../policy/index.js";
+import { HintedError, toErrorMessage } from "../../utils/errors.js";
+import { generateSessionId } from "../shared/session-id.js";
+import type { VerifyTargetSelection } from "../verify/targets.js";
+
+/** Profile overrides shared by every stage that launches agents. */
+export interface WorkflowAgentStageInput {
+  profile?: string;
+  agentIds?: readonly string[];
+  maxParallel?: number;
+}
+
+export interface WorkflowSpecStageInput extends WorkflowAgentStageInput {
+  description: string;
+  template?: string;
+  extraContext?: readonly string[];
+}
+
+export interface WorkflowMessageStageInput extends WorkflowAgentStageInput {
+  prompt: string;
+  extraContext?: readonly string[];
+}
+
+export interface WorkflowRunStageInput extends WorkflowAgentStageInput {
+  specPath: string;
+  maxCost?: number;
+}
+
+export interface WorkflowReduceStageInput extends WorkflowAgentStageInput {
+  targets: readonly ReductionTarget[];
+}
+
+export interface WorkflowVerifyStageInput extends WorkflowAgentStageInput {
+  target: VerifyTargetSelection;
+  maxCost?: number;
+}
+
+export interface WorkflowApplyStageInput {
+  runId: string;
+  agentId: string;
+  commit: boolean;
+}
+
+export interface WorkflowStageResult {
+  status: "succeeded" | "failed" | "aborted";
+  sessionId?: string;
+  body: string;
+  stderr?: string;
+  exitCode?: number;
+  /** Repo-relative files that later spec and message stages read as context. */
+  outputPaths?: readonly string[];
+  /** Spec the stage generated or selected, for run stages that read from it. */
+  specPath?: string;
+  selection?: SelectionDecision;
+  /** Run that produced the selected candidate, for verify stages over runs. */
+  selectedRunId?: string;
+}
+
+export type WorkflowCommandEvent =
+  | {
+      kind: "stage";
+      stageId: string;
+      operator: WorkflowStage["operator"];
+      index: number;
+      total: number;
+    }
+  | {
+      kind: "body";
+      body: string;
+      stderr?: string;
+      exitCode?: number;
+    }
+  | {
+      kind: "error";
+      error: unknown;
+    };
+
+export interface WorkflowCommandDependencies {
+  now?: () => number;
+  onEvent?: (event: WorkflowCommandEvent) => void;
+  runSpecStage: (input: WorkflowSpecStageInput) => Promise<WorkflowStageResult>;
+  runMessageStage: (
+    input: WorkflowMessageStageInput,
+  ) => Promise<WorkflowStageResult>;
+  runRunStage: (input: WorkflowRunStageInput) => Promise<WorkflowStageResult>;
+  runReduceStage: (
+    input: WorkflowReduceStageInput,
+  ) => Promise<WorkflowStageResult>;
+  runVerifyStage: (
+    input: WorkflowVerifyStageInput,
+  ) => Promise<WorkflowStageResult>;
+  runApplyStage: (
+    input: WorkflowApplyStageInput,
+  ) => Promise<WorkflowStageResult>;
+  /** Agents a run stage would launch, for stages that do not list `agents`. */
+  resolveRunStageAgentIds?: (
+    input: WorkflowAgentStageInput,
+  ) => readonly string[];
+}
+
+export interface ExecuteWorkflowCommandInput {
+  root: string;
+  name: string;
+  workflow: Workflow;
+}
+
+export interface ExecuteWorkflowCommandResult {
+  exitCode: number;
+  record: WorkflowRecord;
+  totalDurationMs: number;
+}
+
+interface CompletedStage {
+  stage: WorkflowStage;
+  result: WorkflowStageResult;
+}
+
+/**
+ * Runs the stages of a workflow in order, feeding each stage the sessions of
+ * the stages it names in `from`. The parent record links every child session
+ * and is rewritten as each stage starts and finishes.
+ */
+export async function executeWorkflowCommand(
+  input: ExecuteWorkflowCommandInput,
+  dependencies: WorkflowCommandDependencies,
+): Promise<ExecuteWorkflowCommandResult> {
+  const { root, name, workflow } = input;
+  const now = dependencies.now ?? Date.now.bind(Date);
+  const startedAt = now();
+  const timestamp = new Date(startedAt).toISOString();
+  const sessionId = generateSessionId(new Date(startedAt));
+
+  assertVerifiedRunsDoNotShareAgents(workflow, dependencies);
+
+  let record: WorkflowRecord = {
+    sessionId,
+    createdAt: timestamp,
+    startedAt: timestamp,
+    status: "running",
+    workflow: name,
+    stages: workflow.stages.map((stage) => ({
+      id: stage.id,
+      operator: stage.operator,
+      status: "queued",
+      ...(stage.from ? { from: [...stage.from] } : {}),
+    })),
+  };
+  await appendWorkflowRecord({ root, record });
+
+  const updateStage = async (
+    index: number,
+    patch: Partial<WorkflowRecordStage>,
+  ): Promise<void> => {
+    record = await rewriteWorkflowRecord({
+      root,
+      sessionId,
+      mutate: (existing) => ({
+        ...existing,
+        stages: existing.stages.map((stage, stageIndex) =>
+          stageIndex === index ? { ...stage, ...patch } : stage,
+        ),
+      }),
+    });
+  };
+
+  const completed = new Map<string, CompletedStage>();
+  let status: WorkflowStatus = "running";
+
+  for (const [index, stage] of workflow.stages.entries()) {
+    if (status !== "running") {
+      await updateStage(index, { status: "skipped" });
+      continue;
+    }
+
+    dependencies.onEvent?.({
+      kind: "stage",
+      stageId: stage.id,
+      operator: stage.operator,
+      index,
+      total: workflow.stages.length,
+    });
+    await updateStage(index, { status: "running" });
+
+    let result: WorkflowStageResult;
+    try {
+      const sources = (stage.from ?? []).map((sourceId) => {
+        const source = completed.get(sourceId);
+        if (!source) {
+          throw new Error(`Stage \`${sourceId}\` has not completed.`);
+        }
+        return source;
+      });
+      result = await runStage({ stage, sources, completed, dependencies });
+    } catch (error) {
+      const actionRequired = error instanceof WorkflowActionRequiredError;
+      dependencies.onEvent?.({ kind: "error", error });
+      await updateStage(index, {
+        status: actionRequired ? "skipped" : "failed",
+        detail: toHeadline(error),
+      });
+      status = actionRequired ? "action_required" : "failed";
+      continue;
+    }
+
+    dependencies.onEvent?.({
+      kind: "body",
+      body: result.body,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+    });
+    completed.set(stage.id, { stage, result });
+
+    const selection = result.selection?.state;
+    const stopOnUnresolved =
+      stage.operator === "verify" &&
+      stage.onUnresolved === "stop" &&
+      selection === "unresolved";
+    await updateStage(index, {
+      status: result.status,
+      ...(result.sessionId ? { sessionId: result.sessionId } : {}),
+      ...(selection && stage.operator === "verify" ? { selection } : {}),
+      ...(stage.operator === "apply" && result.selection?.state === "resolvable"
+        ? { agentId: result.selection.selectedCanonicalAgentId }
+        : {}),
+      ...(stopOnUnresolved
+        ? { detail: "Selection unresolved; stopping the workflow." }
+        : {}),
+    });
+
+    if (result.status !== "succeeded") {
+      status = result.status;
+    } else if (stopOnUnresolved) {
+      status = "action_required";
+    }
+  }
+
+  if (status === "running") {
+    status = "succeeded";
+  }
+  const completedAt = new Date(now()).toISOString();
+  record = await rewriteWorkflowRecord({
+    root,
+    sessionId,
+    mutate: (existing) => ({ ...existing, status, completedAt }),
+  });
+
+  return {
+    exitCode: mapWorkflowStatusToExitCode(status),
+    record,
+    totalDurationMs: now() - startedAt,
+  };
+}
+
+class WorkflowActionRequiredError extends HintedError {
+  constructor(headline: string, hintLines: readonly string[]) {
+    super(headline, { hintLines: [...hintLines] });
+    this.name = "WorkflowActionRequiredError";
+  }
+}
+
+/**
+ * Verify stages judging several runs key candidates by agent id, so two run
+ * stages launching the same agent would only fail once both runs had spent
+ * their budget. Resolve every compared run's agents before any stage starts.
+ */
+function assertVerifiedRunsDoNotShareAgents(
+  workflow: Workflow,
+  dependencies: WorkflowCommandDependencies,
+): void {
+  const stages = new Map(workflow.stages.map((stage) => [stage.id, stage]));
+  for (const stage of workflow.stages) {
+    const sources = stage.operator === "verify" ? (stage.from ?? []) : [];
+    if (sources.length < 2) {
+      continue;
+    }
+
+    const owners = new Map<string, string>();
+    for (const sourceId of sources) {
+      const source = stages.get(sourceId);
+      if (source?.operator !== "run") {
+        continue;
+      }
+      const agentIds =
+        source.agents ??
+        dependencies.resolveRunStageAgentIds?.(toAgentStageInput(source)) ??
+        [];
+      for (const agentId of agentIds) {
+        const owner = owners.get(agentId);
+        if (owner !== undefined && owner !== source.id) {
+          throw new HintedError(
+            `Agent \`${agentId}\` runs in both stage \`${owner}\` and stage \`${source.id}\`, which stage \`${stage.id}\` verifies together.`,
+            {
+              hintLines: [
+                "Give the compared run stages `agents` or profiles that do not overlap.",
+              ],
+            },
+          );
+        }
+        owners.set(agentId, source.id);
+      }
+    }
+  }
+}
+
+async function runStage(options: {
+  stage: WorkflowStage;
+  sources: readonly CompletedStage[];
+  completed: ReadonlyMap<string, CompletedStage>;
+  dependencies: WorkflowCommandDependencies;
+}): Promise<WorkflowStageResult> {
+  const { stage, sources, completed, dependencies } = options;
+  const extraContext = sources.flatMap(
+    (source) => source.result.outputPaths ?? [],
+  );
+
+  switch (stage.operator) {
+    case "spec":
+      return dependencies.runSpecStage({
+        ...toAgentStageInput(stage),
+        description: stage.description,
+        ...(stage.template !== undefined ? { template: stage.template } : {}),
+        ...(extraContext.length > 0 ? { extraContext } : {}),
+      });
+    case "message":
+      return dependencies.runMessageStage({
+        ...toAgentStageInput(stage),
+        prompt: stage.prompt,
+        ...(extraContext.length > 0 ? { extraContext } : {}),
+      });
+    case "run": {
+      const source = sources[0];
+      const specPath = stage.spec ?? source?.result.specPath;
+      if (!specPath) {
+        throw new WorkflowActionRequiredError(
+          `Stage \`${source?.stage.id}\` did not settle on a single spec.`,
+          [
+            source?.stage.operator === "verify"
+              ? "Review the verification and run the chosen spec manually."
+              : "Add a verify stage between the spec and run stages to pick one draft.",
+          ],
+        );
+      }
+      return dependencies.runRunStage({
+        ...toAgentStageInput(stage),
+        specPath,
+        ...(stage.maxCost !== undefined ? { maxCost: stage.maxCost } : {}),
+      });
+    }
+    case "reduce":
+      return dependencies.runReduceStage({
+        ...toAgentStageInput(stage),
+        targets: sources.map((source) => ({
+          type: source.stage.operator as ReductionTarget["type"],
+          id: requireSessionId(source),
+        })),
+      });
+    case "verify": {
+      const [source] = sources;
+      if (!source) {
+        throw new Error(`Verify stage \`${stage.id}\` has no source.`);
+      }
+      const sessionIds = sources.map(requireSessionId);
+      return dependencies.runVerifyStage({
+        ...toAgentStageInput(stage),
+        target: {
+          kind: source.stage.operator as VerifyTargetSelection["kind"],
+          sessionId: requireSessionId(source),
+          ...(sessionIds.length > 1 ? { sessionIds } : {}),
+        },
+        ...(stage.maxCost !== undefined ? { maxCost: stage.maxCost } : {}),
+      });
+    }
+    case "apply": {
+      const [verify] = sources;
+      const selection = verify?.result.selection;
+      const run = verify?.stage.from?.[0]
+        ? completed.get(verify.stage.from[0])
+        : undefined;
+      if (!verify || !run || selection?.state !== "resolvable") {
+        throw new WorkflowActionRequiredError(
+          `Stage \`${verify?.stage.id}\` did not resolve a candidate to apply.`,
+          ["Review the verification and run `voratiq apply` manually."],
+        );
+      }
+      const runId = verify.result.selectedRunId ?? requireSessionId(run);
+      const result = await dependencies.runApplyStage({
+        runId,
+        agentId: selection.selectedCanonicalAgentId,
+        commit: stage.commit,
+      });
+      return { ...result, sessionId: runId, selection };
+    }
+  }
+}
+
+function toAgentStageInput(
+  stage: Exclude<WorkflowStage, { operator: "apply" }>,
+): WorkflowAgentStageInput {
+  return {
+    ...(stage.profile ? { profile: stage.profile } : {}),
+    ...(stage.agents ? { agentIds: [...stage.agents] } : {}),
+    ...(stage.maxParallel !== undefined
+      ? { maxParallel: stage.maxParallel }
+      : {}),
+  };
+}
+
+function requireSessionId(source: CompletedStage): string {
+  if (!source.result.sessionId) {
+    throw new Error(`Stage \`${source.stage.id}\` did not record a session.`);
+  }
+  return source.result.sessionId;
+}
+
+function mapWorkflowStatusToExitCode(status: WorkflowStatus): number {
+  if (status === "succeeded") {
+    return 0;
+  }
+  if (status === "aborted") {
+    return 3;
+  }
+  return 1;
+}
+
+function toHeadline(error: unknown): string {
+  return error instanceof HintedError ? error.headline : toErrorMessage(error);
+}
@@ -15,7 +15,8 @@ type Awaitable<T> = Promise<T> | T;
  * 2. `prepareCandidates`
  * 3. `onPreparationFailure` (per preparation failure result)
  * 4. `onCandidatePrepared` (per prepared candidate)
- * 5. execution phase (`onCandidateRunning` -> `executeCandidate` -> `onCandidateCompleted`)
+ * 5. execution phase (`skipCandidate` -> `onCandidateRunning` -> `executeCandidate` -> `onCandidateCompleted`);
+ *    a result returned by `skipCandidate` goes straight to `onCandidateCompleted`
  * 6. `cleanupPreparedCandidate` (once per prepared candidate, including abort/error paths)
  * 7. `finalizeCompetition` (exactly once, including error paths)
  */
@@ -40,6 +41,10 @@ export interface CompetitionCommandAdapter<TCandidate, TPrepared, TResult> {
     prepared: TPrepared,
     index: number,
   ) => Awaitable<TResult>;
+  readonly skipCandidate?: (
+    prepared: TPrepared,
+    index: number,
+  ) => Awaitable<TResult | undefined>;
   readonly onCandidateRunning?: (
     prepared: TPrepared,
     index: number,
@@ -87,6 +92,7 @@ export async function executeCompetitionWithAdapter<
     onPreparationFailure: adapter.onPreparationFailure,
     onPreparedCandidate: adapter.onCandidatePrepared,
     executePreparedCandidate: adapter.executeCandidate,
+    skipPreparedCandidate: adapter.skipCandidate,
     onCandidateRunning: adapter.onCandidateRunning,
     onCandidateCompleted: adapter.onCandidateCompleted,
     captureExecutionFailure: adapter.captureExecutionFailure,
@@ -21,6 +21,15 @@ export interface BoundedCompetitionExecutionInput<TPrepared, TResult> {
     prepared: TPrepared,
     index: number,
   ) => Awaitable<TResult>;
+  /**
+   * Consulted just before each entry starts. A returned result is recorded in
+   * place of execution and reported through `onPreparedCompleted`; `undefined`
+   * lets the entry run.
+   */
+  readonly skipPrepared?: (
+    prepared: TPrepared,
+    index: number,
+  ) => Awaitable<TResult | undefined>;
   readonly onPreparedRunning?: (
     prepared: TPrepared,
     index: number,
@@ -62,6 +71,10 @@ export interface CompetitionExecutionInput<TCandidate, TPrepared, TResult> {
     prepared: TPrepared,
     index: number,
   ) => Awaitable<TResult>;
+  readonly skipPreparedCandidate?: (
+    prepared: TPrepared,
+    index: number,
+  ) => Awaitable<TResult | undefined>;
   readonly onCandidateRunning?: (
     prepared: TPrepared,
     index: number,
@@ -123,6 +136,7 @@ export async function runPreparedWithLimit<TPrepared, TResult>(
     prepared,
     maxParallel,
     executePrepared,
+    skipPrepared,
     onPreparedRunning,
     onPreparedCompleted,
     onExecutionFailure,
@@ -175,6 +189,17 @@ export async function runPreparedWithLimit<TPrepared, TResult>(
       const entry = prepared[current];
 
       try {
+        const skipped = skipPrepared
+          ? await skipPrepared(entry, current)
+          : undefined;
+        if (skipped !== undefined) {
+          results[current] = skipped;
+          if (onPreparedCompleted) {
+            await onPreparedCompleted(entry, skipped, current);
+          }
+          continue;
+        }
+
         if (onPreparedRunning) {
           await onPreparedRunning(entry, current);
         }
@@ -253,6 +278,7 @@ export async function executeCompetition<TCandidate, TPrepared, TResult>(
     onPreparationFailure,
     onPreparedCandidate,
     executePreparedCandidate,
+    skipPreparedCandidate,
     onCandidateRunning,
     onCandidateCompleted,
     captureExecutionFailure,
@@ -293,6 +319,7 @@ export async function executeCompetition<TCandidate, TPrepared, TResult>(
       prepared: preparation.ready,
       maxParallel,
       executePrepared: executePreparedCandidate,
+      skipPrepared: skipPreparedCandidate,
       onPreparedRunning: onCandidateRunning,
       onPreparedCompleted: onCandidateCompleted,
       onExecutionFailure: captureExecutionFailure,
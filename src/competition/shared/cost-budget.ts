@@ -0,0 +1,74 @@
+import { formatCostUsd } from "../../domain/shared/token-cost.js";
+import type { CompetitionCommandAdapter } from "../command-adapter.js";
+
+type Awaitable<T> = Promise<T> | T;
+
+export interface CostBudget {
+  readonly maxCostUsd: number;
+  record(costUsd: number | undefined): void;
+  getSpentUsd(): number;
+  isExhausted(): boolean;
+  describeExhaustion(): string;
+}
+
+/**
+ * Track spend against a USD cap. Unpriced executions record nothing, so a
+ * budget only counts models present in the pricing table.
+ */
+export function createCostBudget(maxCostUsd: number): CostBudget {
+  let spentUsd = 0;
+
+  return {
+    maxCostUsd,
+    record(costUsd) {
+      if (costUsd !== undefined) {
+        spentUsd += costUsd;
+      }
+    },
+    getSpentUsd: () => spentUsd,
+    isExhausted: () => spentUsd >= maxCostUsd,
+    describeExhaustion: () =>
+      `Skipped: cost budget of ${formatCostUsd(maxCostUsd)} reached (${formatCostUsd(spentUsd)} spent).`,
+  };
+}
+
+export interface ApplyCostBudgetOptions<TPrepared, TResult> {
+  readonly budget?: CostBudget;
+  readonly resolveCostUsd: (result: TResult) => number | undefined;
+  readonly buildSkippedResult: (
+    prepared: TPrepared,
+    reason: string,
+  ) => Awaitable<TResult>;
+}
+
+/**
+ * Stop starting candidates once `budget` is spent. Candidates already running
+ * finish normally; later ones resolve to `buildSkippedResult`.
+ */
+export function applyCostBudget<TCandidate, TPrepared, TResult>(
+  adapter: CompetitionCommandAdapter<TCandidate, TPrepared, TResult>,
+  options: ApplyCostBudgetOptions<TPrepared, TResult>,
+): CompetitionCommandAdapter<TCandidate, TPrepared, TResult> {
+  const { budget, resolveCostUsd, buildSkippedResult } = options;
+  if (!budget) {
+    return adapter;
+  }
+
+  return {
+    ...adapter,
+    skipCandidate: async (prepared, index) => {
+      if (budget.isExhausted()) {
+        return await buildSkippedResult(prepared, budget.describeExhaustion());
+      }
+      return adapter.skipCandidate
+        ? await adapter.skipCandidate(prepared, index)
+        : undefined;
+    },
+    onCandidateCompleted: async (prepared, result, index) => {
+      budget.record(resolveCostUsd(result));
+      if (adapter.onCandidateCompleted) {
+        await adapter.onCandidateCompleted(prepared, result, index);
+      }
+    },
+  };
+}
@@ -0,0 +1,239 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type {
+  PromptOverlayEntry,
+  PromptOverlayPosition,
+} from "../../persistence/prompt-overlays.js";
+import { isFileSystemError } from "../../utils/fs.js";
+import { resolvePath } from "../../utils/path.js";
+import { VORATIQ_DIR, VORATIQ_PROMPTS_DIR } from "../../workspace/constants.js";
+import { getSessionPromptOverlaySnapshotPath } from "../../workspace/session-paths.js";
+
+export type PromptOverlayStage =
+  | "spec"
+  | "run"
+  | "reduce"
+  | "verify"
+  | "message";
+
+export interface ResolvedPromptOverlay {
+  /** Repo-relative path of the instruction file. */
+  readonly path: string;
+  readonly position: PromptOverlayPosition;
+  /** Set for files under `.voratiq/prompts/agents/<agent-id>/`. */
+  readonly agentId?: string;
+  readonly content: string;
+  readonly contentHash: `sha256:${string}`;
+  /** Repo-relative copy of `content` saved in the session directory. */
+  readonly snapshotPath?: string;
+}
+
+const PROMPT_OVERLAY_POSITIONS_IN_ORDER: readonly PromptOverlayPosition[] = [
+  "prepend",
+  "append",
+];
+
+/**
+ * Reads the instruction files layered onto a stage's prompts:
+ * `.voratiq/prompts/<stage>.md` is appended and `<stage>.prepend.md` is
+ * prepended, for every agent. Files under `agents/<agent-id>/` apply only to
+ * that agent. Missing and blank files are skipped.
+ */
+export async function resolvePromptOverlays(options: {
+  root: string;
+  stage: PromptOverlayStage;
+  agentIds: readonly string[];
+}): Promise<ResolvedPromptOverlay[]> {
+  const { root, stage, agentIds } = options;
+  const directories: { segments: string[]; agentId?: string }[] = [
+    { segments: [] },
+    ...agentIds.map((agentId) => ({ segments: ["agents", agentId], agentId })),
+  ];
+
+  const overlays: ResolvedPromptOverlay[] = [];
+  for (const { segments, agentId } of directories) {
+    for (const position of PROMPT_OVERLAY_POSITIONS_IN_ORDER) {
+      const path = [
+        VORATIQ_DIR,
+        VORATIQ_PROMPTS_DIR,
+        ...segments,
+        position === "prepend" ? `${stage}.prepend.md` : `${stage}.md`,
+      ].join("/");
+      const content = await readPromptOverlayFile(resolvePath(root, path));
+      if (content === undefined) {
+        continue;
+      }
+      overlays.push({
+        path,
+        position,
+        ...(agentId ? { agentId } : {}),
+        content,
+        contentHash: `sha256:${createHash("sha256").update(content, "utf8").digest("hex")}`,
+      });
+    }
+  }
+
+  return overlays;
+}
+
+/**
+ * Saves each overlay's content under the session directory so the prompt stays
+ * reproducible after `.voratiq/prompts/` changes. Copies are named by content
+ * hash, so a resumed pass never overwrites what an earlier pass recorded.
+ */
+export async function snapshotPromptOverlays(options: {
+  root: string;
+  stage: PromptOverlayStage;
+  sessionId: string;
+  overlays: readonly ResolvedPromptOverlay[];
+}): Promise<ResolvedPromptOverlay[]> {
+  const { root, stage, sessionId, overlays } = options;
+  const snapshots: ResolvedPromptOverlay[] = [];
+  for (const overlay of overlays) {
+    const snapshotPath = getSessionPromptOverlaySnapshotPath(
+      stage,
+      sessionId,
+      overlay.contentHash.slice("sha256:".length),
+    );
+    const absolutePath = resolvePath(root, snapshotPath);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, `${overlay.content}\n`, "utf8");
+    snapshots.push({ ...overlay, snapshotPath });
+  }
+  return snapshots;
+}
+
+/**
+ * Wraps a generated prompt with the overlays that apply to `agentId`. Shared
+ * overlays sit outside agent overlays on the prepend side and before them on
+ * the append side, so agent-specific instructions read last.
+ */
+export function applyPromptOverlays(options: {
+  prompt: string;
+  overlays: readonly ResolvedPromptOverlay[];
+  agentId: string;
+}): string {
+  const { prompt, overlays, agentId } = options;
+  const applicable = overlays.filter(
+    (overlay) => overlay.agentId === undefined || overlay.agentId === agentId,
+  );
+  if (applicable.length === 0) {
+    return prompt;
+  }
+
+  const sections = (position: PromptOverlayPosition): string[] =>
+    applicable
+      .filter((overlay) => overlay.position === position)
+      .map((overlay) => overlay.content);
+
+  return [...sections("prepend"), prompt.trimEnd(), ...sections("append")].join(
+    "\n\n",
+  );
+}
+
+export function buildPersistedPromptOverlays(
+  overlays: readonly ResolvedPromptOverlay[],
+): { promptOverlays?: PromptOverlayEntry[] } {
+  if (overlays.length === 0) {
+    return {};
+  }
+
+  return {
+    promptOverlays: overlays.map((overlay) => ({
+      path: overlay.path,
+      position: overlay.position,
+      ...(overlay.agentId ? { agentId: overlay.agentId } : {}),
+      contentHash: overlay.contentHash,
+      ...(overlay.snapshotPath ? { snapshotPath: overlay.snapshotPath } : {}),
+    })),
+  };
+}
+
+/**
+ * The overlay set of a resumed session: resumed agents get the overlays re-read
+ * from disk, while agents kept from earlier passes keep their recorded entries.
+ * When the shared overlays changed in between, each side's shared entries are
+ * recorded per agent so the record names the text every agent actually saw.
+ */
+export function mergeResumedPromptOverlays(options: {
+  recorded?: readonly PromptOverlayEntry[];
+  resumed?: readonly PromptOverlayEntry[];
+  resumedAgentIds: readonly string[];
+  keptAgentIds: readonly string[];
+}): PromptOverlayEntry[] | undefined {
+  const {
+    recorded = [],
+    resumed = [],
+    resumedAgentIds,
+    keptAgentIds,
+  } = options;
+  const recordedShared = recorded.filter(
+    (overlay) => overlay.agentId === undefined,
+  );
+  const resumedShared = resumed.filter(
+    (overlay) => overlay.agentId === undefined,
+  );
+  const kept = recorded.filter(
+    (overlay) =>
+      overlay.agentId !== undefined &&
+      !resumedAgentIds.includes(overlay.agentId),
+  );
+  const resumedAgentOverlays = resumed.filter(
+    (overlay) => overlay.agentId !== undefined,
+  );
+
+  const shared = haveSameOverlayContent(recordedShared, resumedShared)
+    ? recordedShared
+    : [
+        ...scopeOverlaysToAgents(recordedShared, keptAgentIds),
+        ...scopeOverlaysToAgents(resumedShared, resumedAgentIds),
+      ];
+  const merged = [...shared, ...resumedAgentOverlays, ...kept];
+  return merged.length > 0 ? merged : undefined;
+}
+
+function haveSameOverlayContent(
+  left: readonly PromptOverlayEntry[],
+  right: readonly PromptOverlayEntry[],
+): boolean {
+  return (
+    left.length === right.length &&
+    left.every(
+      (overlay, index) =>
+        overlay.path === right[index]?.path &&
+        overlay.position === right[index]?.position &&
+        overlay.contentHash === right[index]?.contentHash,
+    )
+  );
+}
+
+function scopeOverlaysToAgents(
+  overlays: readonly PromptOverlayEntry[],
+  agentIds: readonly string[],
+): PromptOverlayEntry[] {
+  return agentIds.flatMap((agentId) =>
+    overlays.map((overlay) => ({ ...overlay, agentId })),
+  );
+}
+
+async function readPromptOverlayFile(
+  absolutePath: string,
+): Promise<string | undefined> {
+  let content: string;
+  try {
+    content = await readFile(absolutePath, "utf8");
+  } catch (error) {
+    if (
+      isFileSystemError(error) &&
+      (error.code === "ENOENT" || error.code === "ENOTDIR")
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const trimmed = content.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
@@ -15,6 +15,7 @@ import {
   type EnvironmentConfig,
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  listToolchainPathEntries,
 } from "../../configs/environment/types.js";
 import { assertPathWithinRoot } from "../../utils/path.js";
 
@@ -134,6 +135,12 @@ async function collectEnvironmentReadRoots(
     roots.push(...(await resolveRealpathVariants(absolutePath)));
   }
 
+  for (const entry of listToolchainPathEntries(environment)) {
+    const absolutePath = resolveAbsolute(root, entry.path);
+    roots.push(absolutePath);
+    roots.push(...(await resolveRealpathVariants(absolutePath)));
+  }
+
   return dedupePaths(roots);
 }
 
@@ -14,7 +14,15 @@ export interface AgentDefault {
 export const AGENT_PRESET_CHOICES = ["pro", "lite", "manual"] as const;
 export type AgentPreset = (typeof AGENT_PRESET_CHOICES)[number];
 
-export type BuiltinAgentProvider = "claude" | "codex" | "gemini";
+export const BUILTIN_AGENT_PROVIDERS = ["claude", "codex", "gemini"] as const;
+
+export type BuiltinAgentProvider = (typeof BUILTIN_AGENT_PROVIDERS)[number];
+
+export function isBuiltinAgentProvider(
+  value: string,
+): value is BuiltinAgentProvider {
+  return (BUILTIN_AGENT_PROVIDERS as readonly string[]).includes(value);
+}
 
 export interface AgentCatalogEntry {
   readonly provider: BuiltinAgentProvider;
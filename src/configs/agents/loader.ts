@@ -8,6 +8,7 @@ import {
   type YamlParseErrorDetail,
 } from "../../utils/yaml-reader.js";
 import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import { resolveProviderDefinition } from "../providers/loader.js";
 import { createConfigLoader } from "../shared/loader-factory.js";
 import { formatYamlErrorMessage } from "../shared/yaml-error-formatter.js";
 import {
@@ -104,7 +105,9 @@ export function loadAgentCatalog(
   options: LoadAgentCatalogOptions = {},
 ): AgentCatalog {
   const { enabledAgents } = loadAgentsConfig(options);
-  const catalog = enabledAgents.map((entry) => buildAgentDefinition(entry));
+  const catalog = enabledAgents.map((entry) =>
+    buildAgentDefinition(entry, options),
+  );
   validateAgentBinaries(catalog);
   return catalog;
 }
@@ -131,7 +134,7 @@ export function loadAgentCatalogDiagnostics(
   for (const entry of enabledAgents) {
     let definition: AgentDefinition | undefined;
     try {
-      definition = buildAgentDefinition(entry);
+      definition = buildAgentDefinition(entry, options);
     } catch (error) {
       issues.push(...coerceAgentIssues(entry.id, error));
       continue;
@@ -166,7 +169,7 @@ export function loadAgentById(
     throw new AgentDisabledError(entry.id);
   }
 
-  const definition = buildAgentDefinition(entry);
+  const definition = buildAgentDefinition(entry, options);
   assertAgentBinary(definition);
   return definition;
 }
@@ -258,8 +261,11 @@ function stripPrefix(message: string, prefix: string): string {
   return message;
 }
 
-function buildAgentDefinition(entry: AgentConfigEntry): AgentDefinition {
-  const template = resolveTemplateForEntry(entry);
+function buildAgentDefinition(
+  entry: AgentConfigEntry,
+  options: LoadAgentCatalogOptions,
+): AgentDefinition {
+  const template = resolveTemplateForEntry(entry, options);
   const argv = substituteModelPlaceholder(template.argv, entry.model, entry.id);
   const extraArgs = entry.extraArgs ?? [];
   validateExtraArgs(extraArgs, entry.id);
@@ -271,6 +277,7 @@ function buildAgentDefinition(entry: AgentConfigEntry): AgentDefinition {
     model: entry.model,
     binary: entry.binary,
     argv: finalArgv,
+    ...(entry.watchdog ? { watchdog: { ...entry.watchdog } } : {}),
   };
 }
 
@@ -295,7 +302,10 @@ function validateExtraArgs(
   }
 }
 
-function resolveTemplateForEntry(entry: AgentConfigEntry): AgentDefault {
+function resolveTemplateForEntry(
+  entry: AgentConfigEntry,
+  options: LoadAgentCatalogOptions,
+): Pick<AgentDefault, "argv"> {
   const trimmedProvider = entry.provider.trim();
   const candidates = compactUnique([trimmedProvider, entry.id]);
 
@@ -306,6 +316,13 @@ function resolveTemplateForEntry(entry: AgentConfigEntry): AgentDefault {
     }
   }
 
+  const customProvider = trimmedProvider
+    ? resolveProviderDefinition(trimmedProvider, { root: options.root })
+    : undefined;
+  if (customProvider) {
+    return { argv: customProvider.argv };
+  }
+
   const failedReference =
     trimmedProvider.length > 0 ? trimmedProvider : entry.id;
   throw new UnknownAgentProviderTemplateError(entry.id, failedReference);
@@ -5,6 +5,21 @@ export const agentIdSchema = z.string().regex(/^[a-z0-9_-]{1,64}$/u, {
 });
 export type AgentId = z.infer<typeof agentIdSchema>;
 
+const watchdogLimitMsSchema = z
+  .number()
+  .int({ message: "Watchdog limits must be whole milliseconds" })
+  .positive({ message: "Watchdog limits must be greater than zero" });
+
+export const watchdogLimitsSchema = z
+  .object({
+    silenceTimeoutMs: watchdogLimitMsSchema.optional(),
+    wallClockCapMs: watchdogLimitMsSchema.optional(),
+    killGraceMs: watchdogLimitMsSchema.optional(),
+  })
+  .strict();
+
+export type WatchdogLimitsConfig = z.infer<typeof watchdogLimitsSchema>;
+
 export const agentConfigEntrySchema = z.object({
   id: agentIdSchema,
   provider: z.string().min(1, { message: "Agent provider cannot be empty" }),
@@ -20,6 +35,7 @@ export const agentConfigEntrySchema = z.object({
     )
     .nonempty({ message: "`extraArgs` must include at least one value" })
     .optional(),
+  watchdog: watchdogLimitsSchema.optional(),
 });
 
 export type AgentConfigEntry = z.infer<typeof agentConfigEntrySchema>;
@@ -38,6 +54,7 @@ export const agentDefinitionSchema = z.object({
   argv: z
     .array(z.string())
     .min(1, { message: "Agent argv must include at least one argument" }),
+  watchdog: watchdogLimitsSchema.optional(),
 });
 
 export type AgentDefinition = z.infer<typeof agentDefinitionSchema>;
@@ -1,9 +1,16 @@
-import { stat } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 
 import { renderBlocks } from "../../render/utils/transcript.js";
 import { pathExists } from "../../utils/fs.js";
-import { resolvePath } from "../../utils/path.js";
-import { type EnvironmentConfig, normalizeEnvironmentConfig } from "./types.js";
+import { assertRepoRelativePath, resolvePath } from "../../utils/path.js";
+import {
+  type EnvironmentConfig,
+  normalizeEnvironmentConfig,
+  TOOLCHAIN_IDS,
+  TOOLCHAIN_PATH_FIELDS,
+  type ToolchainId,
+  type ToolchainPathField,
+} from "./types.js";
 
 export interface DetectEnvironmentOptions {
   root: string;
@@ -36,6 +43,40 @@ const PYTHON_MARKER_FILES = [
   "uv.lock",
 ];
 
+interface ToolchainDetection {
+  markers: readonly string[];
+  candidates: Partial<Record<ToolchainPathField, readonly string[]>>;
+}
+
+/** Conventional repository-local cache locations for each toolchain. */
+const TOOLCHAIN_DETECTION: Record<ToolchainId, ToolchainDetection> = {
+  go: {
+    markers: ["go.mod", "go.work"],
+    candidates: { modCache: [".gomodcache", ".cache/go-mod"] },
+  },
+  rust: {
+    markers: ["Cargo.toml"],
+    candidates: { cargoHome: [".cargo-home"], targetDir: ["target"] },
+  },
+  java: {
+    markers: [
+      "pom.xml",
+      "build.gradle",
+      "build.gradle.kts",
+      "settings.gradle",
+      "settings.gradle.kts",
+    ],
+    candidates: {
+      mavenRepository: [".m2/repository"],
+      gradleCache: [".gradle-cache"],
+    },
+  },
+  ruby: {
+    markers: ["Gemfile"],
+    candidates: { bundlePath: ["vendor/bundle"] },
+  },
+};
+
 export async function detectEnvironmentConfig(
   options: DetectEnvironmentOptions,
 ): Promise<EnvironmentDetectionResult> {
@@ -77,12 +118,76 @@ export async function detectEnvironmentConfig(
     }
   }
 
+  for (const toolchain of TOOLCHAIN_IDS) {
+    const paths = await detectToolchainPaths(root, toolchain);
+    if (Object.keys(paths).length === 0) {
+      continue;
+    }
+    Object.assign(config, { [toolchain]: paths });
+    for (const [field, path] of Object.entries(paths)) {
+      entries.push(`${toolchain}.${field}=${path}`);
+    }
+  }
+
   return {
     config: normalizeEnvironmentConfig(config),
     detectedEntries: entries,
   };
 }
 
+async function detectToolchainPaths(
+  root: string,
+  toolchain: ToolchainId,
+): Promise<Partial<Record<ToolchainPathField, string>>> {
+  const detection = TOOLCHAIN_DETECTION[toolchain];
+  if (!(await hasAnyMarker(root, detection.markers))) {
+    return {};
+  }
+
+  const paths: Partial<Record<ToolchainPathField, string>> = {};
+  for (const field of TOOLCHAIN_PATH_FIELDS[toolchain]) {
+    const candidates = [
+      ...(toolchain === "ruby" ? await readBundlerPathSetting(root) : []),
+      ...(detection.candidates[field] ?? []),
+    ];
+    for (const candidate of candidates) {
+      if (await isDirectorySafe(resolvePath(root, candidate))) {
+        paths[field] = candidate;
+        break;
+      }
+    }
+  }
+  return paths;
+}
+
+/** Honors `bundle config set --local path` when it points inside the repo. */
+async function readBundlerPathSetting(root: string): Promise<string[]> {
+  try {
+    const raw = await readFile(resolvePath(root, ".bundle", "config"), "utf8");
+    const match = /^BUNDLE_PATH:\s*["']?([^"'\n]+?)["']?\s*$/mu.exec(raw);
+    const value = match?.[1]?.replace(/^\.\//u, "");
+    if (!value) {
+      return [];
+    }
+    assertRepoRelativePath(value);
+    return [value];
+  } catch {
+    return [];
+  }
+}
+
+async function hasAnyMarker(
+  root: string,
+  markers: readonly string[],
+): Promise<boolean> {
+  for (const marker of markers) {
+    if (await pathExists(resolvePath(root, marker))) {
+      return true;
+    }
+  }
+  return false;
+}
+
 async function detectNodeDependencies(root: string): Promise<boolean> {
   return pathExists(resolvePath(root, "node_modules"));
 }
@@ -102,12 +207,7 @@ async function detectPythonEnvironmentPath(
 }
 
 async function hasPythonMarkers(root: string): Promise<boolean> {
-  for (const marker of PYTHON_MARKER_FILES) {
-    if (await pathExists(resolvePath(root, marker))) {
-      return true;
-    }
-  }
-  return false;
+  return await hasAnyMarker(root, PYTHON_MARKER_FILES);
 }
 
 async function isDirectorySafe(path: string): Promise<boolean> {
@@ -15,9 +15,12 @@ import {
   environmentConfigSchema,
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  getToolchainPaths,
   isNodeEnvironmentDisabled,
   isPythonEnvironmentDisabled,
+  isToolchainEnvironmentDisabled,
   normalizeEnvironmentConfig,
+  TOOLCHAIN_IDS,
 } from "./types.js";
 
 export const DEFAULT_ENVIRONMENT_FILE_DISPLAY = VORATIQ_ENVIRONMENT_FILE;
@@ -86,39 +89,40 @@ function formatEnvironmentYamlError(
 }
 
 export function serializeEnvironmentConfig(config: EnvironmentConfig): string {
-  const lines: string[] = [];
+  const blocks: string[][] = [];
 
-  const nodeDisabled = isNodeEnvironmentDisabled(config);
   const nodeRoots = getNodeDependencyRoots(config);
-  const pythonDisabled = isPythonEnvironmentDisabled(config);
   const pythonPath = getPythonEnvironmentPath(config);
 
-  if (nodeDisabled) {
-    lines.push("node: false");
-    if (pythonPath || pythonDisabled) {
-      lines.push("");
-    }
+  if (isNodeEnvironmentDisabled(config)) {
+    blocks.push(["node: false"]);
   } else if (nodeRoots.length > 0) {
-    lines.push("node:");
-    lines.push("  dependencyRoots:");
-    for (const root of nodeRoots) {
-      lines.push(`    - ${root}`);
-    }
-    if (pythonPath || pythonDisabled) {
-      lines.push("");
-    }
+    blocks.push([
+      "node:",
+      "  dependencyRoots:",
+      ...nodeRoots.map((root) => `    - ${root}`),
+    ]);
   }
 
-  if (pythonDisabled) {
-    lines.push("python: false");
+  if (isPythonEnvironmentDisabled(config)) {
+    blocks.push(["python: false"]);
   } else if (pythonPath && pythonPath.length > 0) {
-    lines.push("python:");
-    lines.push(`  path: ${pythonPath}`);
+    blocks.push(["python:", `  path: ${pythonPath}`]);
   }
 
-  if (lines.length === 0) {
-    return "";
+  for (const toolchain of TOOLCHAIN_IDS) {
+    if (isToolchainEnvironmentDisabled(config, toolchain)) {
+      blocks.push([`${toolchain}: false`]);
+      continue;
+    }
+    const paths = Object.entries(getToolchainPaths(config, toolchain));
+    if (paths.length > 0) {
+      blocks.push([
+        `${toolchain}:`,
+        ...paths.map(([field, path]) => `  ${field}: ${path}`),
+      ]);
+    }
   }
 
-  return lines.join("\n");
+  return blocks.map((block) => block.join("\n")).join("\n\n");
 }
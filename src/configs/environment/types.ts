@@ -74,10 +74,79 @@ export const environmentPythonConfigSchema = z.union([
   z.literal(false),
 ]);
 
+function createToolchainConfigSchema<const Field extends string>(
+  toolchain: ToolchainId,
+  fields: readonly Field[],
+) {
+  const shape = Object.fromEntries(
+    fields.map((field) => [
+      field,
+      createEnvironmentPathSchema(`${toolchain}.${field}`).optional(),
+    ]),
+  ) as Record<
+    Field,
+    z.ZodOptional<ReturnType<typeof createEnvironmentPathSchema>>
+  >;
+  return z.union([
+    z
+      .object(shape)
+      .strict()
+      .refine(
+        (value) =>
+          fields.some(
+            (field) => (value as Record<string, unknown>)[field] !== undefined,
+          ),
+        {
+          message: `${toolchain} must set at least one of: ${fields.join(", ")}.`,
+        },
+      ),
+    z.literal(false),
+  ]);
+}
+
+export const TOOLCHAIN_IDS = ["go", "rust", "java", "ruby"] as const;
+
+export type ToolchainId = (typeof TOOLCHAIN_IDS)[number];
+
+/** Repository-relative cache paths each toolchain can stage into workspaces. */
+export const TOOLCHAIN_PATH_FIELDS = {
+  go: ["modCache"],
+  rust: ["cargoHome", "targetDir"],
+  java: ["mavenRepository", "gradleCache"],
+  ruby: ["bundlePath"],
+} as const satisfies Record<ToolchainId, readonly string[]>;
+
+export type ToolchainPathField<Toolchain extends ToolchainId = ToolchainId> =
+  (typeof TOOLCHAIN_PATH_FIELDS)[Toolchain][number];
+
+export const environmentGoConfigSchema = createToolchainConfigSchema(
+  "go",
+  TOOLCHAIN_PATH_FIELDS.go,
+);
+
+export const environmentRustConfigSchema = createToolchainConfigSchema(
+  "rust",
+  TOOLCHAIN_PATH_FIELDS.rust,
+);
+
+export const environmentJavaConfigSchema = createToolchainConfigSchema(
+  "java",
+  TOOLCHAIN_PATH_FIELDS.java,
+);
+
+export const environmentRubyConfigSchema = createToolchainConfigSchema(
+  "ruby",
+  TOOLCHAIN_PATH_FIELDS.ruby,
+);
+
 export const environmentConfigSchema = z
   .object({
     node: environmentNodeConfigSchema.optional(),
     python: environmentPythonConfigSchema.optional(),
+    go: environmentGoConfigSchema.optional(),
+    rust: environmentRustConfigSchema.optional(),
+    java: environmentJavaConfigSchema.optional(),
+    ruby: environmentRubyConfigSchema.optional(),
   })
   .strict();
 
@@ -105,6 +174,17 @@ export function normalizeEnvironmentConfig(
     normalized.python = false;
   }
 
+  for (const toolchain of TOOLCHAIN_IDS) {
+    if (isToolchainEnvironmentDisabled(config, toolchain)) {
+      normalized[toolchain] = false;
+      continue;
+    }
+    const paths = getToolchainPaths(config, toolchain);
+    if (Object.keys(paths).length > 0) {
+      normalized[toolchain] = paths;
+    }
+  }
+
   return normalized;
 }
 
@@ -139,3 +219,56 @@ export function getPythonEnvironmentPath(
   }
   return undefined;
 }
+
+export function isToolchainEnvironmentDisabled(
+  environment: EnvironmentConfig,
+  toolchain: ToolchainId,
+): boolean {
+  return environment[toolchain] === false;
+}
+
+export function getToolchainPaths<Toolchain extends ToolchainId>(
+  environment: EnvironmentConfig,
+  toolchain: Toolchain,
+): Partial<Record<ToolchainPathField<Toolchain>, string>> {
+  const config = environment[toolchain] as
+    | Partial<Record<ToolchainPathField<Toolchain>, string>>
+    | false
+    | undefined;
+  if (!config) {
+    return {};
+  }
+  const paths: Partial<Record<ToolchainPathField<Toolchain>, string>> = {};
+  for (const field of TOOLCHAIN_PATH_FIELDS[
+    toolchain
+  ] as readonly ToolchainPathField<Toolchain>[]) {
+    const value = config[field];
+    if (value) {
+      paths[field] = value;
+    }
+  }
+  return paths;
+}
+
+export interface ToolchainPathEntry {
+  toolchain: ToolchainId;
+  field: ToolchainPathField;
+  /** Config key used in error messages, e.g. `go.modCache`. */
+  key: string;
+  path: string;
+}
+
+export function listToolchainPathEntries(
+  environment: EnvironmentConfig,
+): ToolchainPathEntry[] {
+  return TOOLCHAIN_IDS.flatMap((toolchain) =>
+    Object.entries(getToolchainPaths(environment, toolchain)).map(
+      ([field, path]) => ({
+        toolchain,
+        field: field as ToolchainPathField,
+        key: `${toolchain}.${field}`,
+        path: path,
+      }),
+    ),
+  );
+}
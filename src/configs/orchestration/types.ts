@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-import { agentIdSchema } from "../agents/types.js";
+import { agentIdSchema, watchdogLimitsSchema } from "../agents/types.js";
 
 export const ORCHESTRATION_STAGE_IDS = [
   "spec",
@@ -24,6 +24,7 @@ export type OrchestrationStageAgent = z.infer<
 export const orchestrationStageSchema = z
   .object({
     agents: z.array(orchestrationStageAgentSchema),
+    watchdog: watchdogLimitsSchema.optional(),
   })
   .strict()
   .superRefine((value, ctx) => {
@@ -52,7 +53,10 @@ const orchestrationProfileShape = {
 } satisfies Record<OrchestrationStageId, z.ZodTypeAny>;
 
 export const orchestrationProfileSchema = z
-  .object(orchestrationProfileShape)
+  .object({
+    ...orchestrationProfileShape,
+    watchdog: watchdogLimitsSchema.optional(),
+  })
   .strict();
 
 export type OrchestrationProfile = z.infer<typeof orchestrationProfileSchema>;
@@ -0,0 +1,47 @@
+import type { PricingTable } from "./types.js";
+
+/**
+ * Built-in list prices (USD per million tokens) for the bundled agent catalog.
+ * Models missing here report no cost until `.voratiq/pricing.yaml` adds them.
+ */
+export const DEFAULT_PRICING_TABLE: PricingTable = {
+  claude: {
+    "claude-haiku-4-5-20251001": {
+      input: 1,
+      output: 5,
+      cachedInput: 0.1,
+      cacheWrite: 1.25,
+    },
+    "claude-sonnet-4-5-20250929": {
+      input: 3,
+      output: 15,
+      cachedInput: 0.3,
+      cacheWrite: 3.75,
+    },
+    "claude-sonnet-4-6": {
+      input: 3,
+      output: 15,
+      cachedInput: 0.3,
+      cacheWrite: 3.75,
+    },
+    "claude-opus-4-5-20251101": {
+      input: 5,
+      output: 25,
+      cachedInput: 0.5,
+      cacheWrite: 6.25,
+    },
+    "claude-opus-4-6": {
+      input: 5,
+      output: 25,
+      cachedInput: 0.5,
+      cacheWrite: 6.25,
+    },
+  },
+  codex: {
+    "gpt-5.2": { input: 1.75, output: 14, cachedInput: 0.175 },
+    "gpt-5.3-codex": { input: 1.75, output: 14, cachedInput: 0.175 },
+  },
+  gemini: {
+    "gemini-3-flash-preview": { input: 0.5, output: 3, cachedInput: 0.05 },
+  },
+};
@@ -0,0 +1,16 @@
+export const DEFAULT_PRICING_ERROR_CONTEXT =
+  "Pricing config `.voratiq/pricing.yaml`" as const;
+
+export class PricingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingConfigError";
+  }
+}
+
+export class PricingYamlParseError extends PricingConfigError {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingYamlParseError";
+  }
+}
@@ -0,0 +1,97 @@
+import { ZodError } from "zod";
+
+import {
+  parseYamlDocument,
+  type YamlParseErrorDetail,
+} from "../../utils/yaml-reader.js";
+import { VORATIQ_PRICING_FILE } from "../../workspace/constants.js";
+import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import { createConfigLoader } from "../shared/loader-factory.js";
+import { formatYamlErrorMessage } from "../shared/yaml-error-formatter.js";
+import { DEFAULT_PRICING_TABLE } from "./defaults.js";
+import {
+  DEFAULT_PRICING_ERROR_CONTEXT,
+  PricingConfigError,
+  PricingYamlParseError,
+} from "./errors.js";
+import {
+  type PricingConfig,
+  pricingConfigSchema,
+  type PricingTable,
+} from "./types.js";
+
+export function readPricingConfig(content: string): PricingConfig {
+  const parsed = parseYamlDocument(content, {
+    formatError: formatPricingYamlError,
+    emptyValue: {},
+  });
+
+  try {
+    return pricingConfigSchema.parse(parsed);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const detail = error.issues
+        .map((issue) => {
+          const path = issue.path.join(".");
+          return path.length > 0 ? `${path}: ${issue.message}` : issue.message;
+        })
+        .join("; ")
+        .trim();
+      throw new PricingConfigError(
+        `${DEFAULT_PRICING_ERROR_CONTEXT}: ${detail || "invalid mapping"}`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Overlay user prices onto the built-in table. Overrides replace whole model
+ * entries; providers and models not mentioned keep their defaults.
+ */
+export function mergePricingTables(
+  base: PricingTable,
+  overrides: PricingConfig["providers"],
+): PricingTable {
+  const merged: Record<string, PricingTable[string]> = { ...base };
+  for (const [provider, models] of Object.entries(overrides)) {
+    merged[provider] = { ...(merged[provider] ?? {}), ...models };
+  }
+  return merged;
+}
+
+function formatPricingYamlError(
+  detail: YamlParseErrorDetail,
+): PricingYamlParseError {
+  const message = formatYamlErrorMessage(detail, {
+    context: DEFAULT_PRICING_ERROR_CONTEXT,
+  });
+  return new PricingYamlParseError(message);
+}
+
+export interface LoadPricingTableOptions {
+  root?: string;
+  filePath?: string;
+  readFile?: (path: string) => string;
+}
+
+const loadPricingTableInternal = createConfigLoader<
+  PricingTable,
+  LoadPricingTableOptions
+>({
+  resolveFilePath: (root, options) =>
+    options.filePath ?? resolveWorkspacePath(root, VORATIQ_PRICING_FILE),
+  selectReadFile: (options) => options.readFile,
+  handleMissing: () => DEFAULT_PRICING_TABLE,
+  parse: (content) =>
+    mergePricingTables(
+      DEFAULT_PRICING_TABLE,
+      readPricingConfig(content).providers,
+    ),
+});
+
+export function loadPricingTable(
+  options: LoadPricingTableOptions = {},
+): PricingTable {
+  return loadPricingTableInternal(options);
+}
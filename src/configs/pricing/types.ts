@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+const ratePerMillionTokensSchema = z
+  .number()
+  .nonnegative({ message: "Token prices must be zero or greater" });
+
+/**
+ * USD prices per million tokens for one model. Cached reads and cache writes
+ * fall back to the plain input price when unset.
+ */
+export const modelPricingSchema = z
+  .object({
+    input: ratePerMillionTokensSchema,
+    output: ratePerMillionTokensSchema,
+    cachedInput: ratePerMillionTokensSchema.optional(),
+    cacheWrite: ratePerMillionTokensSchema.optional(),
+  })
+  .strict();
+
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+
+const providerPricingSchema = z.record(z.string().min(1), modelPricingSchema);
+
+/** Pricing tables keyed by provider id, then model id. */
+export const pricingConfigSchema = z
+  .object({
+    providers: z.record(z.string().min(1), providerPricingSchema).default({}),
+  })
+  .strict();
+
+export type PricingConfig = z.infer<typeof pricingConfigSchema>;
+
+export type PricingTable = Readonly<
+  Record<string, Readonly<Record<string, ModelPricing>>>
+>;
@@ -0,0 +1,16 @@
+export const DEFAULT_PROVIDERS_ERROR_CONTEXT =
+  "Providers config `.voratiq/providers.yaml`" as const;
+
+export class ProvidersConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProvidersConfigError";
+  }
+}
+
+export class ProvidersYamlParseError extends ProvidersConfigError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProvidersYamlParseError";
+  }
+}
@@ -0,0 +1,127 @@
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import {
+  parseYamlDocument,
+  type YamlParseErrorDetail,
+} from "../../utils/yaml-reader.js";
+import { VORATIQ_PROVIDERS_FILE } from "../../workspace/constants.js";
+import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import { isBuiltinAgentProvider } from "../agents/defaults.js";
+import { createConfigLoader } from "../shared/loader-factory.js";
+import { formatYamlErrorMessage } from "../shared/yaml-error-formatter.js";
+import {
+  DEFAULT_PROVIDERS_ERROR_CONTEXT,
+  ProvidersConfigError,
+  ProvidersYamlParseError,
+} from "./errors.js";
+import {
+  type ProviderDefinition,
+  type ProvidersConfig,
+  providersConfigSchema,
+} from "./types.js";
+
+export function readProvidersConfig(content: string): ProvidersConfig {
+  const parsed = parseYamlDocument(content, {
+    formatError: formatProvidersYamlError,
+    emptyValue: {},
+  });
+
+  let config: ProvidersConfig;
+  try {
+    config = providersConfigSchema.parse(parsed);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const detail = error.issues
+        .map((issue) => {
+          const path = issue.path.join(".");
+          return path.length > 0 ? `${path}: ${issue.message}` : issue.message;
+        })
+        .join("; ")
+        .trim();
+      throw new ProvidersConfigError(
+        `${DEFAULT_PROVIDERS_ERROR_CONTEXT}: ${detail || "invalid mapping"}`,
+      );
+    }
+    throw error;
+  }
+
+  const seen = new Set<string>();
+  for (const provider of config.providers) {
+    if (seen.has(provider.id)) {
+      throw new ProvidersConfigError(
+        `${DEFAULT_PROVIDERS_ERROR_CONTEXT}: Duplicate provider id \`${provider.id}\`.`,
+      );
+    }
+    seen.add(provider.id);
+  }
+  return config;
+}
+
+function formatProvidersYamlError(
+  detail: YamlParseErrorDetail,
+): ProvidersYamlParseError {
+  const message = formatYamlErrorMessage(detail, {
+    context: DEFAULT_PROVIDERS_ERROR_CONTEXT,
+  });
+  return new ProvidersYamlParseError(message);
+}
+
+export interface LoadProviderDefinitionsOptions {
+  root?: string;
+  filePath?: string;
+  readFile?: (path: string) => string;
+}
+
+const loadProviderDefinitionsInternal = createConfigLoader<
+  readonly ProviderDefinition[],
+  LoadProviderDefinitionsOptions
+>({
+  resolveFilePath: (root, options) =>
+    options.filePath ?? resolveWorkspacePath(root, VORATIQ_PROVIDERS_FILE),
+  selectReadFile: (options) => options.readFile,
+  handleMissing: () => [],
+  parse: (content) => readProvidersConfig(content).providers,
+});
+
+const definitionsCache = new Map<string, readonly ProviderDefinition[]>();
+
+/**
+ * Custom agent providers declared in `.voratiq/providers.yaml`. The file is
+ * parsed once per process (one CLI command) and cached by path; passing
+ * `readFile` bypasses the cache.
+ */
+export function loadProviderDefinitions(
+  options: LoadProviderDefinitionsOptions = {},
+): readonly ProviderDefinition[] {
+  if (options.readFile) {
+    return loadProviderDefinitionsInternal(options);
+  }
+  const filePath =
+    options.filePath ??
+    resolveWorkspacePath(options.root ?? process.cwd(), VORATIQ_PROVIDERS_FILE);
+  const cached = definitionsCache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+  const loaded = loadProviderDefinitionsInternal({ ...options, filePath });
+  definitionsCache.set(filePath, loaded);
+  return loaded;
+}
+
+/**
+ * Custom provider for `providerId`. Built-in ids never read `providers.yaml`,
+ * so a broken file only affects agents that use a custom provider.
+ */
+export function resolveProviderDefinition(
+  providerId: string,
+  options: LoadProviderDefinitionsOptions = {},
+): ProviderDefinition | undefined {
+  if (isBuiltinAgentProvider(providerId)) {
+    return undefined;
+  }
+  return loadProviderDefinitions(options).find(
+    (provider) => provider.id === providerId,
+  );
+}
@@ -0,0 +1,146 @@
+import { z } from "zod";
+
+import { isRepoRelativePath } from "../../utils/path.js";
+import {
+  BUILTIN_AGENT_PROVIDERS,
+  MODEL_PLACEHOLDER,
+} from "../agents/defaults.js";
+
+export const SANDBOX_HOME_PLACEHOLDER = "{{HOME}}" as const;
+
+const RESERVED_PROVIDER_IDS = new Set<string>(BUILTIN_AGENT_PROVIDERS);
+
+export const providerIdSchema = z
+  .string()
+  .regex(/^[a-z0-9_-]{1,64}$/u, {
+    message: "Provider id must match /^[a-z0-9_-]{1,64}$/",
+  })
+  .refine((id) => !RESERVED_PROVIDER_IDS.has(id), {
+    message: `Provider id cannot shadow a built-in provider (${BUILTIN_AGENT_PROVIDERS.join(", ")})`,
+  });
+
+const envVarNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/u, {
+  message: "Environment variable names must match /^[A-Za-z_][A-Za-z0-9_]*$/",
+});
+
+/** Paths inside a home directory: relative, forward slashes, no `..`. */
+const homeRelativePathSchema = z.string().refine(isRepoRelativePath, {
+  message:
+    "Paths must be relative to the home directory, use forward slashes, and omit '.' or '..' segments",
+});
+
+const regexSourceSchema = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source, "iu");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Fatal patterns must be valid regular expressions" },
+);
+
+export const providerAuthFileSchema = z
+  .object({
+    /** Source file, relative to the operator's home directory. */
+    source: homeRelativePathSchema,
+    /** Destination inside the sandbox home; defaults to `source`. */
+    destination: homeRelativePathSchema.optional(),
+    optional: z.boolean().optional().default(false),
+  })
+  .strict();
+
+export type ProviderAuthFile = z.infer<typeof providerAuthFileSchema>;
+
+export const providerAuthSchema = z
+  .object({
+    files: z.array(providerAuthFileSchema).default([]),
+    /** Variables forwarded from the operator's environment; all must be set. */
+    env: z.array(envVarNameSchema).default([]),
+  })
+  .strict();
+
+export const providerFatalPatternSchema = z
+  .object({
+    pattern: regexSourceSchema,
+    source: z.enum(["stdout", "stderr"]).optional(),
+  })
+  .strict();
+
+export const providerChatSchema = z
+  .object({
+    /** Transcript directory, relative to the sandbox home. */
+    path: homeRelativePathSchema,
+    format: z.enum(["json", "jsonl"]),
+    maxDepth: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+export type ProviderChatConfig = z.infer<typeof providerChatSchema>;
+
+export const providerUsageFieldsSchema = z
+  .object({
+    input: z.string().min(1).optional(),
+    cachedInput: z.string().min(1).optional(),
+    cacheWrite: z.string().min(1).optional(),
+    output: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine((fields) => Object.values(fields).some(Boolean), {
+    message: "usage.fields must map at least one token count",
+  });
+
+export const providerUsageSchema = z
+  .object({
+    /** Dot path to the usage object in each transcript entry. */
+    path: z.string().optional(),
+    /** `sum` adds per-message usage; `last` keeps a cumulative total. */
+    aggregate: z.enum(["sum", "last"]).optional().default("sum"),
+    fields: providerUsageFieldsSchema,
+  })
+  .strict();
+
+export type ProviderUsageConfig = z.infer<typeof providerUsageSchema>;
+
+export const providerDefinitionSchema = z
+  .object({
+    id: providerIdSchema,
+    argv: z
+      .array(z.string())
+      .min(1, { message: "Provider argv must include at least one argument" })
+      .refine(
+        (argv) => argv.some((token) => token.includes(MODEL_PLACEHOLDER)),
+        {
+          message: `Provider argv must include \`${MODEL_PLACEHOLDER}\``,
+        },
+      ),
+    auth: providerAuthSchema.optional().default({ files: [], env: [] }),
+    /** Extra agent variables; `{{HOME}}` expands to the sandbox home. */
+    env: z.record(envVarNameSchema, z.string()).optional().default({}),
+    network: z
+      .object({
+        allowedDomains: z.array(z.string().min(1)).default([]),
+      })
+      .strict()
+      .optional()
+      .default({ allowedDomains: [] }),
+    fatalPatterns: z.array(providerFatalPatternSchema).default([]),
+    chat: providerChatSchema.optional(),
+    usage: providerUsageSchema.optional(),
+  })
+  .strict()
+  .refine((definition) => !definition.usage || definition.chat, {
+    message: "usage requires chat so there is a transcript to read",
+    path: ["usage"],
+  });
+
+export type ProviderDefinition = z.infer<typeof providerDefinitionSchema>;
+
+export const providersConfigSchema = z
+  .object({
+    providers: z.array(providerDefinitionSchema).default([]),
+  })
+  .strict();
+
+export type ProvidersConfig = z.infer<typeof providersConfigSchema>;
@@ -9,6 +9,7 @@ import {
 } from "../../utils/yaml-reader.js";
 import { VORATIQ_SANDBOX_FILE } from "../../workspace/constants.js";
 import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import { resolveProviderDefinition } from "../providers/loader.js";
 import { createConfigLoader } from "../shared/loader-factory.js";
 import { formatYamlErrorMessage } from "../shared/yaml-error-formatter.js";
 import {
@@ -26,15 +27,17 @@ import {
   mergeNetworkConfig,
 } from "./merge.js";
 import { type ProviderOverride, validateSandboxOverrides } from "./schemas.js";
-import type {
-  DenialBackoffConfig,
-  LoadSandboxConfigurationOptions,
-  LoadSandboxNetworkConfigOptions,
-  LoadSandboxProviderConfigOptions,
-  SandboxConfig,
-  SandboxFilesystemConfig,
-  SandboxNetworkConfig,
-  SandboxProviderConfig,
+import {
+  type DenialBackoffConfig,
+  type LoadSandboxConfigurationOptions,
+  type LoadSandboxNetworkConfigOptions,
+  type LoadSandboxProviderConfigOptions,
+  SANDBOX_STAGE_IDS,
+  type SandboxConfig,
+  type SandboxFilesystemConfig,
+  type SandboxNetworkConfig,
+  type SandboxProviderConfig,
+  type SandboxStageId,
 } from "./types.js";
 export type {
   DenialBackoffConfig,
@@ -120,7 +123,7 @@ const sandboxConfigLoader = createConfigLoader<
       );
 
       if (networkOverride?.allowAllUnixSockets === true) {
-        emitAllowAllUnixSocketsWarning(canonical.id, displayPath);
+        emitAllowAllUnixSocketsWarning("provider", canonical.id, displayPath);
       }
 
       providers[canonical.id] = {
@@ -134,10 +137,33 @@ const sandboxConfigLoader = createConfigLoader<
       };
     }
 
+    const stages: SandboxConfig["stages"] = {};
+    for (const [stageId, override] of Object.entries(overrides.stages ?? {})) {
+      if (!isSandboxStageId(stageId)) {
+        throw new SandboxConfigurationError(
+          `${DEFAULT_SANDBOX_ERROR_CONTEXT}: Unknown stage \`${stageId}\` in \`${basename(displayPath)}\`.`,
+        );
+      }
+      if (extractNetworkOverride(override)?.allowAllUnixSockets === true) {
+        emitAllowAllUnixSocketsWarning("stage", stageId, displayPath);
+      }
+      stages[stageId] = override;
+    }
+
+    const agents: SandboxConfig["agents"] = {};
+    for (const [agentId, override] of Object.entries(overrides.agents ?? {})) {
+      if (extractNetworkOverride(override)?.allowAllUnixSockets === true) {
+        emitAllowAllUnixSocketsWarning("agent", agentId, displayPath);
+      }
+      agents[agentId] = override;
+    }
+
     return {
       filePath: context.filePath,
       displayPath,
       providers,
+      stages,
+      agents,
     };
   },
 });
@@ -220,14 +246,20 @@ function loadSandboxNetworkConfig(
   return cloneNetworkConfig(providerConfig.network);
 }
 
+/**
+ * Resolves the sandbox policy for one agent: the provider block, then the
+ * `stages.<stageId>` block, then the `agents.<agentId>` block.
+ */
 export function loadSandboxProviderConfig(
   options: LoadSandboxProviderConfigOptions,
   providerIdOverride?: string,
 ): SandboxProviderConfig {
-  const { providerId } = options;
+  const { providerId, stageId, agentId } = options;
   const resolvedProviderId = providerIdOverride ?? providerId;
   const config = loadSandboxConfiguration(options);
-  const providerConfig = config.providers[resolvedProviderId];
+  const providerConfig =
+    config.providers[resolvedProviderId] ??
+    resolveCustomSandboxProviderConfig(options.root, resolvedProviderId);
 
   if (!providerConfig) {
     throw new SandboxConfigurationError(
@@ -235,11 +267,65 @@ export function loadSandboxProviderConfig(
     );
   }
 
-  return {
+  const layers = [
+    stageId ? getOverride(config.stages, stageId) : undefined,
+    agentId ? getOverride(config.agents, agentId) : undefined,
+  ];
+
+  return layers.reduce<SandboxProviderConfig>(applyOverrideLayer, {
     providerId: providerConfig.providerId,
     network: cloneNetworkConfig(providerConfig.network),
     filesystem: cloneFilesystemConfig(providerConfig.filesystem),
     denialBackoff: { ...providerConfig.denialBackoff },
+  });
+}
+
+function applyOverrideLayer(
+  base: SandboxProviderConfig,
+  override: ProviderOverride | undefined,
+): SandboxProviderConfig {
+  if (!override) {
+    return base;
+  }
+  return {
+    providerId: base.providerId,
+    network: mergeNetworkConfig(base.network, extractNetworkOverride(override)),
+    filesystem: mergeFilesystemConfig(
+      base.filesystem,
+      extractFilesystemOverride(override),
+    ),
+    denialBackoff: mergeDenialBackoffConfig(
+      base.denialBackoff,
+      override.denialBackoff,
+    ),
+  };
+}
+
+function isSandboxStageId(value: string): value is SandboxStageId {
+  return (SANDBOX_STAGE_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Custom providers declare their network allowlist in `providers.yaml` and
+ * otherwise use the default filesystem and denial-backoff settings.
+ */
+function resolveCustomSandboxProviderConfig(
+  root: string | undefined,
+  providerId: string,
+): SandboxProviderConfig | undefined {
+  const definition = resolveProviderDefinition(providerId, { root });
+  if (!definition) {
+    return undefined;
+  }
+  return {
+    providerId,
+    network: mergeNetworkConfig({
+      allowedDomains: definition.network.allowedDomains,
+      deniedDomains: [],
+      allowLocalBinding: false,
+    }),
+    filesystem: cloneFilesystemConfig(DEFAULT_FILESYSTEM_CONFIG),
+    denialBackoff: { ...DEFAULT_DENIAL_BACKOFF },
   };
 }
 
@@ -329,11 +415,12 @@ function getOverride<V>(record: Record<string, V>, key: string): V | undefined {
 }
 
 function emitAllowAllUnixSocketsWarning(
-  providerId: string,
+  scope: "provider" | "stage" | "agent",
+  id: string,
   displayPath: string,
 ): void {
   process.emitWarning(
-    `Sandbox provider "${providerId}" enables allowAllUnixSockets via ${displayPath}. This disables Unix socket isolation for that provider.`,
+    `Sandbox ${scope} "${id}" enables allowAllUnixSockets via ${displayPath}. This disables Unix socket isolation for that ${scope}.`,
     { code: "VORATIQ_SANDBOX_ALLOW_ALL_UNIX_SOCKETS" },
   );
 }
@@ -353,6 +440,8 @@ function cloneSandboxConfig(config: SandboxConfig): SandboxConfig {
     filePath: config.filePath,
     displayPath: config.displayPath,
     providers,
+    stages: structuredClone(config.stages),
+    agents: structuredClone(config.agents),
   };
 }
 
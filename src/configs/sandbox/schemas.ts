@@ -77,6 +77,8 @@ export const providerOverrideSchema = z
 
 export const sandboxConfigSchema = z.object({
   providers: z.record(z.string(), providerOverrideSchema),
+  stages: z.record(z.string(), providerOverrideSchema).optional(),
+  agents: z.record(z.string(), providerOverrideSchema).optional(),
 });
 
 export type NetworkOverride = z.infer<typeof networkOverrideSchema>;
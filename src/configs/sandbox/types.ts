@@ -1,3 +1,15 @@
+import type { ProviderOverride } from "./schemas.js";
+
+export const SANDBOX_STAGE_IDS = [
+  "spec",
+  "run",
+  "reduce",
+  "verify",
+  "message",
+] as const;
+
+export type SandboxStageId = (typeof SANDBOX_STAGE_IDS)[number];
+
 export interface SandboxNetworkConfig {
   allowedDomains: string[];
   deniedDomains: string[];
@@ -32,6 +44,10 @@ export interface SandboxConfig {
   filePath: string;
   displayPath: string;
   providers: Record<string, SandboxProviderConfig>;
+  /** Overrides merged on top of the provider block for agents in a stage. */
+  stages: Partial<Record<SandboxStageId, ProviderOverride>>;
+  /** Overrides merged last, on top of the provider and stage blocks. */
+  agents: Record<string, ProviderOverride>;
 }
 
 export interface LoadSandboxConfigurationOptions {
@@ -47,4 +63,6 @@ export interface LoadSandboxNetworkConfigOptions extends LoadSandboxConfiguratio
 
 export interface LoadSandboxProviderConfigOptions extends LoadSandboxConfigurationOptions {
   providerId: string;
+  stageId?: SandboxStageId;
+  agentId?: string;
 }
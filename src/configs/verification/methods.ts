@@ -33,9 +33,56 @@ export const programmaticCommandSchema = z
     return trimmed.length > 0 ? trimmed : undefined;
   });
 
+const PROGRAMMATIC_ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/u;
+
+export const programmaticCheckOptionsSchema = z
+  .object({
+    command: programmaticCommandSchema,
+    timeoutMs: z
+      .number()
+      .int("timeoutMs must be an integer")
+      .positive("timeoutMs must be greater than 0")
+      .optional(),
+    retries: z
+      .number()
+      .int("retries must be an integer")
+      .nonnegative("retries must be zero or greater")
+      .optional(),
+    env: z
+      .record(
+        z
+          .string()
+          .regex(
+            PROGRAMMATIC_ENV_NAME_PATTERN,
+            "env names must be valid environment variable names",
+          ),
+        z.union([z.string(), z.number(), z.boolean()]).transform(String),
+      )
+      .optional(),
+    dependsOn: z.array(programmaticSlugSchema).optional(),
+    report: z
+      .string()
+      .trim()
+      .min(1, "report path must not be empty")
+      .optional(),
+  })
+  .strict();
+
+/** A programmatic check is either a bare command or an options object. */
+export const programmaticEntrySchema = z.union([
+  programmaticCommandSchema,
+  programmaticCheckOptionsSchema,
+]);
+
 export interface ProgrammaticCommandEntry {
   slug: ProgrammaticSlug;
   command?: string;
+  timeoutMs?: number;
+  retries?: number;
+  env?: Record<string, string>;
+  dependsOn?: readonly ProgrammaticSlug[];
+  /** JUnit XML or TAP file the command writes, relative to the workspace. */
+  report?: string;
 }
 
 export const rubricTemplateSchema = z
@@ -49,6 +96,20 @@ export const rubricTemplateSchema = z
 
 export type RubricTemplate = z.infer<typeof rubricTemplateSchema>;
 
+export const programmaticTestReportSchema = z.object({
+  format: z.enum(["junit", "tap"]),
+  path: z.string(),
+  total: z.number().int().nonnegative(),
+  passed: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+  failedTests: z.array(z.string()),
+});
+
+export type ProgrammaticTestReport = z.infer<
+  typeof programmaticTestReportSchema
+>;
+
 export const programmaticCheckResultSchema = z.object({
   slug: programmaticSlugSchema,
   status: programmaticStatusSchema,
@@ -56,6 +117,9 @@ export const programmaticCheckResultSchema = z.object({
   exitCode: z.number().nullable().optional(),
   logPath: z.string().optional(),
   error: z.string().optional(),
+  attempts: z.number().int().positive().optional(),
+  report: programmaticTestReportSchema.optional(),
+  reportError: z.string().optional(),
 });
 
 export type ProgrammaticCheckResult = z.infer<
@@ -5,8 +5,11 @@ import { resolvePath } from "../../utils/path.js";
 import {
   type EnvironmentConfig,
   getPythonEnvironmentPath,
+  getToolchainPaths,
   isNodeEnvironmentDisabled,
   isPythonEnvironmentDisabled,
+  isToolchainEnvironmentDisabled,
+  type ToolchainId,
 } from "../environment/types.js";
 import type { ProgrammaticSlug } from "./methods.js";
 
@@ -18,7 +21,7 @@ export const CANONICAL_PROGRAMMATIC_SLUGS: ProgrammaticSlug[] = [
 ];
 
 export interface ProgrammaticSuggestion {
-  source: "node" | "python";
+  source: "node" | "python" | ToolchainId;
   commands: Map<ProgrammaticSlug, string>;
   notes: string[];
   warnings: string[];
@@ -40,6 +43,18 @@ export async function detectProgrammaticSuggestions(
     suggestions.push(pythonSuggestion);
   }
 
+  for (const detectToolchainSuggestion of [
+    detectGoSuggestion,
+    detectRustSuggestion,
+    detectJavaSuggestion,
+    detectRubySuggestion,
+  ]) {
+    const suggestion = await detectToolchainSuggestion(root, environment);
+    if (suggestion) {
+      suggestions.push(suggestion);
+    }
+  }
+
   return suggestions;
 }
 
@@ -164,6 +179,203 @@ async function detectPythonSuggestion(
   };
 }
 
+async function detectGoSuggestion(
+  root: string,
+  environment: EnvironmentConfig,
+): Promise<ProgrammaticSuggestion | undefined> {
+  if (
+    isToolchainEnvironmentDisabled(environment, "go") ||
+    !(await pathExists(resolvePath(root, "go.mod")))
+  ) {
+    return undefined;
+  }
+
+  return buildToolchainSuggestion({
+    source: "go",
+    environment,
+    commands: new Map<ProgrammaticSlug, string>([
+      ["format", 'test -z "$(gofmt -l .)"'],
+      ["lint", "go vet ./..."],
+      ["typecheck", "go build ./..."],
+      ["tests", "go test ./..."],
+    ]),
+    note: "Detected Go module; go toolchain commands suggested.",
+    missingCacheWarning:
+      "Go module detected but go.modCache is unset in .voratiq/environment.yaml; sandboxed agents cannot download modules.",
+  });
+}
+
+async function detectRustSuggestion(
+  root: string,
+  environment: EnvironmentConfig,
+): Promise<ProgrammaticSuggestion | undefined> {
+  if (
+    isToolchainEnvironmentDisabled(environment, "rust") ||
+    !(await pathExists(resolvePath(root, "Cargo.toml")))
+  ) {
+    return undefined;
+  }
+
+  return buildToolchainSuggestion({
+    source: "rust",
+    environment,
+    commands: new Map<ProgrammaticSlug, string>([
+      ["format", "cargo fmt --check"],
+      ["lint", "cargo clippy --all-targets -- -D warnings"],
+      ["typecheck", "cargo check --all-targets"],
+      ["tests", "cargo test"],
+    ]),
+    note: "Detected Cargo project; cargo commands suggested.",
+    missingCacheWarning:
+      "Cargo project detected but rust.cargoHome is unset in .voratiq/environment.yaml; sandboxed agents cannot download crates.",
+  });
+}
+
+async function detectJavaSuggestion(
+  root: string,
+  environment: EnvironmentConfig,
+): Promise<ProgrammaticSuggestion | undefined> {
+  if (isToolchainEnvironmentDisabled(environment, "java")) {
+    return undefined;
+  }
+
+  if (await pathExists(resolvePath(root, "pom.xml"))) {
+    const maven = (await pathExists(resolvePath(root, "mvnw")))
+      ? "./mvnw"
+      : "mvn";
+    return buildToolchainSuggestion({
+      source: "java",
+      environment,
+      commands: new Map<ProgrammaticSlug, string>([
+        ["typecheck", `${maven} -q test-compile`],
+        ["tests", `${maven} -q test`],
+      ]),
+      note: "Detected Maven project; Maven lifecycle commands suggested.",
+      missingCacheWarning:
+        "Maven project detected but java.mavenRepository is unset in .voratiq/environment.yaml; sandboxed agents cannot download artifacts.",
+    });
+  }
+
+  if (!(await hasAnyFile(root, GRADLE_BUILD_FILES))) {
+    return undefined;
+  }
+  const gradle = (await pathExists(resolvePath(root, "gradlew")))
+    ? "./gradlew"
+    : "gradle";
+  return buildToolchainSuggestion({
+    source: "java",
+    environment,
+    commands: new Map<ProgrammaticSlug, string>([
+      ["typecheck", `${gradle} testClasses`],
+      ["tests", `${gradle} test`],
+    ]),
+    note: "Detected Gradle project; Gradle tasks suggested.",
+    missingCacheWarning:
+      "Gradle project detected but java.gradleCache is unset in .voratiq/environment.yaml; sandboxed agents cannot download dependencies.",
+  });
+}
+
+async function detectRubySuggestion(
+  root: string,
+  environment: EnvironmentConfig,
+): Promise<ProgrammaticSuggestion | undefined> {
+  if (isToolchainEnvironmentDisabled(environment, "ruby")) {
+    return undefined;
+  }
+
+  const gems = await readGemfileDependencies(root);
+  if (!gems) {
+    return undefined;
+  }
+
+  const commands = new Map<ProgrammaticSlug, string>();
+  if (gems.has("rubocop")) {
+    commands.set("lint", "bundle exec rubocop");
+  }
+  if (gems.has("sorbet")) {
+    commands.set("typecheck", "bundle exec srb tc");
+  } else if (gems.has("steep")) {
+    commands.set("typecheck", "bundle exec steep check");
+  }
+  if (gems.has("rspec") || gems.has("rspec-rails")) {
+    commands.set("tests", "bundle exec rspec");
+  } else if (gems.has("minitest") || gems.has("rake")) {
+    commands.set("tests", "bundle exec rake test");
+  }
+
+  if (commands.size === 0) {
+    return undefined;
+  }
+
+  return buildToolchainSuggestion({
+    source: "ruby",
+    environment,
+    commands,
+    note: "Detected Bundler project; bundle exec commands suggested.",
+    missingCacheWarning:
+      "Gemfile detected but ruby.bundlePath is unset in .voratiq/environment.yaml; sandboxed agents cannot install gems.",
+  });
+}
+
+function buildToolchainSuggestion(options: {
+  source: ToolchainId;
+  environment: EnvironmentConfig;
+  commands: Map<ProgrammaticSlug, string>;
+  note: string;
+  missingCacheWarning: string;
+}): ProgrammaticSuggestion {
+  const { source, environment, commands, note, missingCacheWarning } = options;
+  const hasStagedCache =
+    Object.keys(getToolchainPaths(environment, source)).length > 0;
+  return {
+    source,
+    commands,
+    notes: [note],
+    warnings: hasStagedCache ? [] : [missingCacheWarning],
+  };
+}
+
+const GRADLE_BUILD_FILES = [
+  "build.gradle",
+  "build.gradle.kts",
+  "settings.gradle",
+  "settings.gradle.kts",
+];
+
+async function hasAnyFile(
+  root: string,
+  files: readonly string[],
+): Promise<boolean> {
+  for (const file of files) {
+    if (await pathExists(resolvePath(root, file))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function readGemfileDependencies(
+  root: string,
+): Promise<Set<string> | undefined> {
+  const gemfilePath = resolvePath(root, "Gemfile");
+  if (!(await pathExists(gemfilePath))) {
+    return undefined;
+  }
+
+  const result = new Set<string>();
+  try {
+    const raw = await readFile(gemfilePath, "utf8");
+    for (const match of raw.matchAll(
+      /^\s*gem\s+["']([A-Za-z0-9_.-]+)["']/gmu,
+    )) {
+      result.add(match[1].toLowerCase());
+    }
+  } catch (error) {
+    void error;
+  }
+  return result;
+}
+
 function pickScript(
   scripts: Record<string, string>,
   candidates: string[],
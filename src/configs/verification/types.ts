@@ -1,7 +1,9 @@
 import { z } from "zod";
 
+import { agentIdSchema } from "../agents/types.js";
 import {
-  programmaticCommandSchema,
+  type ProgrammaticCommandEntry,
+  programmaticEntrySchema,
   programmaticSlugSchema,
 } from "./methods.js";
 
@@ -16,27 +18,161 @@ export type VerificationRubricEntry = z.infer<
 >;
 
 const verificationProgrammaticMapSchema = z
-  .record(z.string(), programmaticCommandSchema)
+  .record(z.string(), programmaticEntrySchema)
   .transform((value) => {
-    const entries: Array<{ slug: string; command?: string }> = [];
-    for (const [rawSlug, rawCommand] of Object.entries(value)) {
+    const entries: ProgrammaticCommandEntry[] = [];
+    for (const [rawSlug, rawEntry] of Object.entries(value)) {
       const slug = programmaticSlugSchema.parse(rawSlug.trim());
-      const command = rawCommand ?? undefined;
-      entries.push({ slug, ...(command ? { command } : {}) });
+      if (rawEntry === undefined || typeof rawEntry === "string") {
+        entries.push({ slug, ...(rawEntry ? { command: rawEntry } : {}) });
+        continue;
+      }
+      const { command, timeoutMs, retries, env, dependsOn, report } = rawEntry;
+      entries.push({
+        slug,
+        ...(command ? { command } : {}),
+        ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+        ...(retries !== undefined ? { retries } : {}),
+        ...(env ? { env } : {}),
+        ...(dependsOn && dependsOn.length > 0 ? { dependsOn } : {}),
+        ...(report ? { report } : {}),
+      });
     }
     return entries;
+  })
+  .superRefine((entries, context) => {
+    for (const message of findProgrammaticDependencyIssues(entries)) {
+      context.addIssue({ code: "custom", message });
+    }
   });
 
+function findProgrammaticDependencyIssues(
+  entries: readonly ProgrammaticCommandEntry[],
+): string[] {
+  const bySlug = new Map(entries.map((entry) => [entry.slug, entry]));
+  const issues: string[] = [];
+  for (const entry of entries) {
+    for (const dependency of entry.dependsOn ?? []) {
+      if (!bySlug.has(dependency)) {
+        issues.push(
+          `programmatic check \`${entry.slug}\` depends on unknown check \`${dependency}\``,
+        );
+      }
+    }
+  }
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (slug: string, path: readonly string[]): string | undefined => {
+    if (visiting.has(slug)) {
+      return [...path.slice(path.indexOf(slug)), slug].join(" -> ");
+    }
+    if (visited.has(slug)) {
+      return undefined;
+    }
+    visiting.add(slug);
+    for (const dependency of bySlug.get(slug)?.dependsOn ?? []) {
+      const cycle = visit(dependency, [...path, slug]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    visiting.delete(slug);
+    visited.add(slug);
+    return undefined;
+  };
+  for (const entry of entries) {
+    const cycle = visit(entry.slug, []);
+    if (cycle) {
+      return [`programmatic checks have a dependency cycle: ${cycle}`];
+    }
+  }
+  return [];
+}
+
+const verifierWeightSchema = z
+  .number()
+  .positive({ message: "verifier weights must be greater than zero" });
+
+export const VERIFICATION_WINNER_POLICY_MODES = [
+  "stage-verification-unanimity",
+  "majority",
+  "borda",
+  "weighted",
+] as const;
+
+export const verificationWinnerPolicyModeSchema = z.enum(
+  VERIFICATION_WINNER_POLICY_MODES,
+);
+
+export const VERIFICATION_CRITERION_VERDICTS = [
+  "met",
+  "partially_met",
+  "not_met",
+  "not_verifiable",
+] as const;
+
+export const verificationCriterionVerdictSchema = z.enum(
+  VERIFICATION_CRITERION_VERDICTS,
+);
+
+export type VerificationCriterionVerdict = z.infer<
+  typeof verificationCriterionVerdictSchema
+>;
+
+/** Acceptance-criterion verdicts that disqualify a candidate from winning. */
+const winnerPolicyCriteriaShape = {
+  rejectCriterionVerdicts: z
+    .array(verificationCriterionVerdictSchema)
+    .min(1)
+    .optional(),
+};
+
+export const verificationWinnerPolicySchema = z.discriminatedUnion("mode", [
+  z
+    .object({
+      mode: z.literal("stage-verification-unanimity"),
+      ...winnerPolicyCriteriaShape,
+    })
+    .strict(),
+  z
+    .object({ mode: z.literal("majority"), ...winnerPolicyCriteriaShape })
+    .strict(),
+  z.object({ mode: z.literal("borda"), ...winnerPolicyCriteriaShape }).strict(),
+  z
+    .object({
+      mode: z.literal("weighted"),
+      weights: z.record(agentIdSchema, verifierWeightSchema).default({}),
+      defaultWeight: verifierWeightSchema.optional(),
+      ...winnerPolicyCriteriaShape,
+    })
+    .strict(),
+]);
+
+export type VerificationWinnerPolicyConfig = z.infer<
+  typeof verificationWinnerPolicySchema
+>;
+
 const verificationRubricOnlyStageConfigSchema = z
   .object({
     rubric: z.array(verificationRubricEntrySchema).optional().default([]),
+    winnerPolicy: verificationWinnerPolicySchema.optional(),
   })
   .strict();
 
 const verificationRunStageConfigSchema = z
   .object({
     programmatic: verificationProgrammaticMapSchema.optional().default([]),
+    programmaticMaxParallel: z
+      .number()
+      .int("programmaticMaxParallel must be an integer")
+      .positive("programmaticMaxParallel must be greater than 0")
+      .optional(),
     rubric: z.array(verificationRubricEntrySchema).optional().default([]),
+    winnerPolicy: verificationWinnerPolicySchema.optional(),
   })
   .strict();
 
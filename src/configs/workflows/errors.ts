@@ -0,0 +1,16 @@
+export const DEFAULT_WORKFLOWS_ERROR_CONTEXT =
+  "Workflows config `.voratiq/workflows.yaml`" as const;
+
+export class WorkflowsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowsConfigError";
+  }
+}
+
+export class WorkflowsYamlParseError extends WorkflowsConfigError {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowsYamlParseError";
+  }
+}
@@ -0,0 +1,73 @@
+import { ZodError } from "zod";
+
+import {
+  parseYamlDocument,
+  type YamlParseErrorDetail,
+} from "../../utils/yaml-reader.js";
+import { VORATIQ_WORKFLOWS_FILE } from "../../workspace/constants.js";
+import { resolveWorkspacePath } from "../../workspace/path-resolvers.js";
+import { createConfigLoader } from "../shared/loader-factory.js";
+import { formatYamlErrorMessage } from "../shared/yaml-error-formatter.js";
+import {
+  DEFAULT_WORKFLOWS_ERROR_CONTEXT,
+  WorkflowsConfigError,
+  WorkflowsYamlParseError,
+} from "./errors.js";
+import { type WorkflowsConfig, workflowsConfigSchema } from "./types.js";
+
+export function readWorkflowsConfig(content: string): WorkflowsConfig {
+  const parsed = parseYamlDocument(content, {
+    formatError: formatWorkflowsYamlError,
+    emptyValue: {},
+  });
+
+  try {
+    return workflowsConfigSchema.parse(parsed);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const detail = error.issues
+        .map((issue) => {
+          const path = issue.path.join(".");
+          return path.length > 0 ? `${path}: ${issue.message}` : issue.message;
+        })
+        .join("; ")
+        .trim();
+      throw new WorkflowsConfigError(
+        `${DEFAULT_WORKFLOWS_ERROR_CONTEXT}: ${detail || "invalid mapping"}`,
+      );
+    }
+    throw error;
+  }
+}
+
+function formatWorkflowsYamlError(
+  detail: YamlParseErrorDetail,
+): WorkflowsYamlParseError {
+  const message = formatYamlErrorMessage(detail, {
+    context: DEFAULT_WORKFLOWS_ERROR_CONTEXT,
+  });
+  return new WorkflowsYamlParseError(message);
+}
+
+export interface LoadWorkflowsConfigOptions {
+  root?: string;
+  filePath?: string;
+  readFile?: (path: string) => string;
+}
+
+const loadWorkflowsConfigInternal = createConfigLoader<
+  WorkflowsConfig,
+  LoadWorkflowsConfigOptions
+>({
+  resolveFilePath: (root, options) =>
+    options.filePath ?? resolveWorkspacePath(root, VORATIQ_WORKFLOWS_FILE),
+  selectReadFile: (options) => options.readFile,
+  handleMissing: () => ({ workflows: {} }),
+  parse: (content) => readWorkflowsConfig(content),
+});
+
+export function loadWorkflowsConfig(
+  options: LoadWorkflowsConfigOptions = {},
+): WorkflowsConfig {
+  return loadWorkflowsConfigInternal(options);
+}
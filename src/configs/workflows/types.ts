@@ -0,0 +1,255 @@
+import { z } from "zod";
+
+import { agentIdSchema } from "../agents/types.js";
+import { orchestrationProfileNameSchema } from "../orchestration/types.js";
+
+export const WORKFLOW_STAGE_OPERATORS = [
+  "spec",
+  "run",
+  "reduce",
+  "verify",
+  "message",
+  "apply",
+] as const;
+export type WorkflowStageOperator = (typeof WORKFLOW_STAGE_OPERATORS)[number];
+
+const WORKFLOW_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/u;
+
+export const workflowNameSchema = z
+  .string()
+  .max(64, "workflow name must be 64 characters or fewer")
+  .regex(
+    WORKFLOW_NAME_PATTERN,
+    "workflow name must match /^[a-z0-9][a-z0-9-]*$/",
+  );
+
+const workflowStageIdSchema = z
+  .string()
+  .max(64, "stage id must be 64 characters or fewer")
+  .regex(WORKFLOW_NAME_PATTERN, "stage id must match /^[a-z0-9][a-z0-9-]*$/");
+
+/** Earlier stage ids whose sessions feed this stage; a single id is allowed. */
+const workflowStageSourcesSchema = z
+  .union([workflowStageIdSchema, z.array(workflowStageIdSchema).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const workflowStageBaseShape = {
+  id: workflowStageIdSchema,
+  from: workflowStageSourcesSchema.optional(),
+};
+
+/** Per-stage overrides of the orchestration profile the stage would use. */
+const workflowAgentStageShape = {
+  ...workflowStageBaseShape,
+  profile: orchestrationProfileNameSchema.optional(),
+  agents: z.array(agentIdSchema).min(1).optional(),
+  maxParallel: z.number().int().positive().optional(),
+};
+
+const maxCostSchema = z.number().positive();
+
+export const workflowStageSchema = z.discriminatedUnion("operator", [
+  z
+    .object({
+      ...workflowAgentStageShape,
+      operator: z.literal("spec"),
+      description: z.string().trim().min(1),
+      /** Spec template under `.voratiq/spec/templates/`. */
+      template: z.string().trim().min(1).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...workflowAgentStageShape,
+      operator: z.literal("message"),
+      prompt: z.string().trim().min(1),
+    })
+    .strict(),
+  z
+    .object({
+      ...workflowAgentStageShape,
+      operator: z.literal("run"),
+      spec: z.string().trim().min(1).optional(),
+      maxCost: maxCostSchema.optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...workflowAgentStageShape,
+      operator: z.literal("reduce"),
+    })
+    .strict(),
+  z
+    .object({
+      ...workflowAgentStageShape,
+      operator: z.literal("verify"),
+      maxCost: maxCostSchema.optional(),
+      /** What to do when the selection decision is unresolved. */
+      onUnresolved: z.enum(["stop", "continue"]).default("stop"),
+    })
+    .strict(),
+  z
+    .object({
+      ...workflowStageBaseShape,
+      operator: z.literal("apply"),
+      commit: z.boolean().default(false),
+    })
+    .strict(),
+]);
+
+export type WorkflowStage = z.infer<typeof workflowStageSchema>;
+
+/**
+ * Which operators each stage may read from. Spec and message stages stage the
+ * sources' output files as extra context; the others target their sessions.
+ */
+const WORKFLOW_STAGE_SOURCE_OPERATORS: Record<
+  WorkflowStageOperator,
+  readonly WorkflowStageOperator[]
+> = {
+  spec: ["spec", "reduce", "message"],
+  message: ["spec", "reduce", "message"],
+  run: ["spec", "verify"],
+  reduce: ["spec", "run", "reduce", "verify", "message"],
+  verify: ["spec", "run", "reduce", "message"],
+  apply: ["verify"],
+};
+
+export const workflowSchema = z
+  .object({
+    description: z.string().trim().min(1).optional(),
+    stages: z.array(workflowStageSchema).min(1),
+  })
+  .strict()
+  .superRefine((workflow, ctx) => {
+    const earlier = new Map<string, WorkflowStage>();
+    workflow.stages.forEach((stage, index) => {
+      const issue = (message: string, key?: string): void => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["stages", index, ...(key ? [key] : [])],
+          message,
+        });
+      };
+
+      if (earlier.has(stage.id)) {
+        issue(`duplicate stage id \`${stage.id}\``, "id");
+        return;
+      }
+
+      const sources = stage.from ?? [];
+      for (const sourceId of sources) {
+        const source = earlier.get(sourceId);
+        if (!source) {
+          issue(`\`${sourceId}\` is not an earlier stage`, "from");
+        } else if (
+          !WORKFLOW_STAGE_SOURCE_OPERATORS[stage.operator].includes(
+            source.operator,
+          )
+        ) {
+          issue(
+            `${stage.operator} stages cannot read from ${source.operator} stage \`${sourceId}\``,
+            "from",
+          );
+        }
+      }
+
+      switch (stage.operator) {
+        case "run":
+          if ((stage.spec === undefined) === (sources.length === 0)) {
+            issue("run stages need exactly one of `spec` or `from`");
+          } else if (sources.length > 1) {
+            issue("run stages read from one stage", "from");
+          } else if (
+            sources[0] &&
+            earlier.get(sources[0])?.operator === "verify" &&
+            resolveVerifySourceOperator(earlier, sources[0]) !== "spec"
+          ) {
+            issue(`\`${sources[0]}\` does not verify specs`, "from");
+          }
+          break;
+        case "reduce":
+          if (sources.length === 0) {
+            issue("reduce stages need `from`", "from");
+          }
+          break;
+        case "verify":
+          if (sources.length === 0) {
+            issue("verify stages need `from`", "from");
+          } else if (
+            sources.length > 1 &&
+            sources.some(
+              (sourceId) => earlier.get(sourceId)?.operator !== "run",
+            )
+          ) {
+            issue(
+              "verify stages read from several stages only when all are run stages",
+              "from",
+            );
+          } else if (sources.length > 1) {
+            const shared = findSharedRunAgent(
+              sources.map((sourceId) => earlier.get(sourceId)),
+            );
+            if (shared) {
+              issue(
+                `run stages \`${shared.stageIds[0]}\` and \`${shared.stageIds[1]}\` both list agent \`${shared.agentId}\`; verify stages judge several runs only when their agents do not overlap`,
+                "from",
+              );
+            }
+          }
+          break;
+        case "apply":
+          if (sources.length !== 1) {
+            issue("apply stages read from one stage", "from");
+          } else if (
+            resolveVerifySourceOperator(earlier, sources[0] ?? "") !== "run"
+          ) {
+            issue(`\`${sources[0]}\` does not verify a run`, "from");
+          }
+          break;
+        default:
+          break;
+      }
+
+      earlier.set(stage.id, stage);
+    });
+  });
+
+export type Workflow = z.infer<typeof workflowSchema>;
+
+export const workflowsConfigSchema = z
+  .object({
+    workflows: z.record(workflowNameSchema, workflowSchema).default({}),
+  })
+  .strict();
+
+export type WorkflowsConfig = z.infer<typeof workflowsConfigSchema>;
+
+function resolveVerifySourceOperator(
+  stages: ReadonlyMap<string, WorkflowStage>,
+  verifyStageId: string,
+): WorkflowStageOperator | undefined {
+  const verify = stages.get(verifyStageId);
+  const sourceId = verify?.from?.[0];
+  return sourceId ? stages.get(sourceId)?.operator : undefined;
+}
+
+/** First agent listed by two of the given run stages, if any. */
+function findSharedRunAgent(
+  stages: readonly (WorkflowStage | undefined)[],
+): { agentId: string; stageIds: readonly [string, string] } | undefined {
+  const owners = new Map<string, string>();
+  for (const stage of stages) {
+    if (stage?.operator !== "run") {
+      continue;
+    }
+    for (const agentId of stage.agents ?? []) {
+      const owner = owners.get(agentId);
+      if (owner !== undefined && owner !== stage.id) {
+        return { agentId, stageIds: [owner, stage.id] };
+      }
+      owners.set(agentId, stage.id);
+    }
+  }
+  return undefined;
+}
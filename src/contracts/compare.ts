@@ -0,0 +1,173 @@
+import { z } from "zod";
+
+export const compareModes = ["summary", "pairwise"] as const;
+
+export type CompareMode = (typeof compareModes)[number];
+
+export interface CompareJsonChanges {
+  filesChanged?: number;
+  insertions?: number;
+  deletions?: number;
+}
+
+export interface CompareJsonFile {
+  path: string;
+  /** `null` for binary files, which git reports without line counts. */
+  insertions: number | null;
+  deletions: number | null;
+}
+
+export interface CompareJsonCheck {
+  slug: string;
+  status: string;
+  exitCode?: number | null;
+}
+
+export interface CompareJsonVerification {
+  sessionId: string;
+  status: string;
+  createdAt: string;
+}
+
+export interface CompareJsonCandidate {
+  agentId: string;
+  model: string;
+  status: string;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  diffStatistics?: string;
+  changes?: CompareJsonChanges;
+  files: CompareJsonFile[];
+  /** Programmatic checks from the latest verification; empty when none ran. */
+  checks: CompareJsonCheck[];
+  tokenUsage?: Record<string, number>;
+  costUsd?: number;
+  diffPath?: string;
+}
+
+export interface CompareJsonSummaryOutput {
+  mode: "summary";
+  runId: string;
+  status: string;
+  baseRevisionSha: string;
+  verification: CompareJsonVerification | null;
+  candidates: CompareJsonCandidate[];
+  warnings: string[];
+}
+
+export type CompareJsonTreeSource = "commit" | "patch";
+
+export interface CompareJsonSide {
+  agentId: string;
+  /** Whether the result tree came from the candidate commit or its diff.patch. */
+  source: CompareJsonTreeSource;
+}
+
+export interface CompareJsonPairwiseOutput {
+  mode: "pairwise";
+  runId: string;
+  baseRevisionSha: string;
+  left: CompareJsonSide;
+  right: CompareJsonSide;
+  diffStatistics?: string;
+  files: CompareJsonFile[];
+  diff: string;
+  warnings: string[];
+}
+
+export type CompareJsonOutput =
+  | CompareJsonSummaryOutput
+  | CompareJsonPairwiseOutput;
+
+const compareJsonChangesSchema = z
+  .object({
+    filesChanged: z.number().int().nonnegative().optional(),
+    insertions: z.number().int().nonnegative().optional(),
+    deletions: z.number().int().nonnegative().optional(),
+  })
+  .passthrough();
+
+const compareJsonFileSchema = z
+  .object({
+    path: z.string(),
+    insertions: z.number().int().nonnegative().nullable(),
+    deletions: z.number().int().nonnegative().nullable(),
+  })
+  .passthrough();
+
+const compareJsonCheckSchema = z
+  .object({
+    slug: z.string(),
+    status: z.string(),
+    exitCode: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+const compareJsonVerificationSchema = z
+  .object({
+    sessionId: z.string(),
+    status: z.string(),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+const compareJsonCandidateSchema = z
+  .object({
+    agentId: z.string(),
+    model: z.string(),
+    status: z.string(),
+    startedAt: z.string().optional(),
+    completedAt: z.string().optional(),
+    durationMs: z.number().nonnegative().optional(),
+    diffStatistics: z.string().optional(),
+    changes: compareJsonChangesSchema.optional(),
+    files: z.array(compareJsonFileSchema),
+    checks: z.array(compareJsonCheckSchema),
+    tokenUsage: z.record(z.string(), z.number()).optional(),
+    costUsd: z.number().nonnegative().optional(),
+    diffPath: z.string().optional(),
+  })
+  .passthrough();
+
+const compareJsonSideSchema = z
+  .object({
+    agentId: z.string(),
+    source: z.enum(["commit", "patch"]),
+  })
+  .passthrough();
+
+const compareJsonSummaryOutputSchema = z
+  .object({
+    mode: z.literal("summary"),
+    runId: z.string(),
+    status: z.string(),
+    baseRevisionSha: z.string(),
+    verification: compareJsonVerificationSchema.nullable(),
+    candidates: z.array(compareJsonCandidateSchema),
+    warnings: z.array(z.string()),
+  })
+  .passthrough();
+
+const compareJsonPairwiseOutputSchema = z
+  .object({
+    mode: z.literal("pairwise"),
+    runId: z.string(),
+    baseRevisionSha: z.string(),
+    left: compareJsonSideSchema,
+    right: compareJsonSideSchema,
+    diffStatistics: z.string().optional(),
+    files: z.array(compareJsonFileSchema),
+    diff: z.string(),
+    warnings: z.array(z.string()),
+  })
+  .passthrough();
+
+export const compareJsonOutputSchema = z.discriminatedUnion("mode", [
+  compareJsonSummaryOutputSchema,
+  compareJsonPairwiseOutputSchema,
+]);
+
+export function parseCompareJsonOutput(input: unknown): CompareJsonOutput {
+  return compareJsonOutputSchema.parse(input) as CompareJsonOutput;
+}
@@ -1,5 +1,9 @@
 import { z } from "zod";
 
+import {
+  type VerificationCriterionVerdict,
+  verificationCriterionVerdictSchema,
+} from "../configs/verification/types.js";
 import type { SelectionDecisionUnresolvedReason } from "../policy/result.js";
 
 export const listOperators = [
@@ -10,7 +14,7 @@ export const listOperators = [
   "message",
   "interactive",
 ] as const;
-export const listModes = ["summary", "detail"] as const;
+export const listModes = ["summary", "detail", "timeline"] as const;
 
 export type ListOperator = (typeof listOperators)[number];
 export type ListMode = (typeof listModes)[number];
@@ -36,6 +40,9 @@ export interface ListJsonSessionBase {
   status: string;
   createdAt: string;
   target?: ListJsonTargetRef;
+  /** Every target, in order, when a reduction or run verification has several. */
+  targets?: ListJsonTargetRef[];
+  costUsd?: number;
 }
 
 export interface ListJsonSummarySession extends ListJsonSessionBase {
@@ -61,6 +68,8 @@ export interface ListJsonAgent {
   completedAt?: string;
   verifier?: string;
   changes?: ListJsonChanges;
+  costUsd?: number;
+  sandboxDenialCount?: number;
   artifacts: ListJsonArtifact[];
 }
 
@@ -81,6 +90,14 @@ export type ListJsonVerificationSelection =
       unresolvedReasons: readonly ListJsonVerificationSelectionUnresolvedReason[];
     };
 
+/** One verifier's verdict on one acceptance criterion for one run candidate. */
+export interface ListJsonCriterionVerdict {
+  verifierAgentId: string;
+  criterionId: string;
+  candidateId: string;
+  verdict: VerificationCriterionVerdict;
+}
+
 export interface ListJsonDetailSession extends ListJsonSessionBase {
   startedAt?: string;
   completedAt?: string;
@@ -88,12 +105,14 @@ export interface ListJsonDetailSession extends ListJsonSessionBase {
   description?: string | null;
   agents: ListJsonAgent[];
   selection?: ListJsonVerificationSelection;
+  criteria?: ListJsonCriterionVerdict[];
 }
 
 export interface ListJsonSummaryOutput {
   operator: ListOperator;
   mode: "summary";
   sessions: ListJsonSummarySession[];
+  totalCostUsd?: number;
   warnings: string[];
 }
 
@@ -104,7 +123,18 @@ export interface ListJsonDetailOutput {
   warnings: string[];
 }
 
-export type ListJsonOutput = ListJsonSummaryOutput | ListJsonDetailOutput;
+/** Summary sessions of every operator, merged newest-first. */
+export interface ListJsonTimelineOutput {
+  mode: "timeline";
+  sessions: ListJsonSummarySession[];
+  totalCostUsd?: number;
+  warnings: string[];
+}
+
+export type ListJsonOutput =
+  | ListJsonSummaryOutput
+  | ListJsonDetailOutput
+  | ListJsonTimelineOutput;
 
 export const listOperatorSchema = z.enum(listOperators);
 export const listModeSchema = z.enum(listModes);
@@ -136,6 +166,8 @@ const listJsonSessionBaseSchema = z
     status: z.string(),
     createdAt: z.string(),
     target: listJsonTargetRefSchema.optional(),
+    targets: z.array(listJsonTargetRefSchema).optional(),
+    costUsd: z.number().nonnegative().optional(),
   })
   .passthrough();
 
@@ -169,6 +201,8 @@ const listJsonAgentSchema = z
     completedAt: z.string().optional(),
     verifier: z.string().optional(),
     changes: listJsonChangesSchema.optional(),
+    costUsd: z.number().nonnegative().optional(),
+    sandboxDenialCount: z.number().int().positive().optional(),
     artifacts: z.array(listJsonArtifactSchema),
   })
   .passthrough();
@@ -243,6 +277,14 @@ export const listJsonVerificationSelectionUnresolvedReasonSchema =
         eligibleCanonicalAgentIds: z.array(z.string()),
       })
       .passthrough(),
+    z
+      .object({
+        code: z.literal("selected_candidate_missed_criteria"),
+        selectedCanonicalAgentId: z.string(),
+        criterionIds: z.array(z.string()),
+        eligibleCanonicalAgentIds: z.array(z.string()),
+      })
+      .passthrough(),
     z
       .object({
         code: z.literal("verification_not_succeeded"),
@@ -283,6 +325,18 @@ const listJsonDetailSessionSchema = listJsonSessionBaseSchema
     description: z.string().nullable().optional(),
     agents: z.array(listJsonAgentSchema),
     selection: listJsonVerificationSelectionSchema.optional(),
+    criteria: z
+      .array(
+        z
+          .object({
+            verifierAgentId: z.string(),
+            criterionId: z.string(),
+            candidateId: z.string(),
+            verdict: verificationCriterionVerdictSchema,
+          })
+          .passthrough(),
+      )
+      .optional(),
   })
   .passthrough();
 
@@ -291,6 +345,7 @@ const listJsonSummaryOutputSchema = z
     operator: listOperatorSchema,
     mode: z.literal("summary"),
     sessions: z.array(listJsonSummarySessionSchema),
+    totalCostUsd: z.number().nonnegative().optional(),
     warnings: z.array(z.string()),
   })
   .passthrough();
@@ -304,9 +359,19 @@ const listJsonDetailOutputSchema = z
   })
   .passthrough();
 
+const listJsonTimelineOutputSchema = z
+  .object({
+    mode: z.literal("timeline"),
+    sessions: z.array(listJsonSummarySessionSchema),
+    totalCostUsd: z.number().nonnegative().optional(),
+    warnings: z.array(z.string()),
+  })
+  .passthrough();
+
 export const listJsonOutputSchema = z.discriminatedUnion("mode", [
   listJsonSummaryOutputSchema,
   listJsonDetailOutputSchema,
+  listJsonTimelineOutputSchema,
 ]);
 
 export function parseListJsonOutput(input: unknown): ListJsonOutput {
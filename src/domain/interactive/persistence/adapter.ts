@@ -72,6 +72,8 @@ export interface ReadInteractiveRecordsOptions {
   root: string;
   interactiveFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: InteractiveRecordPredicate;
   onWarning?: (warning: InteractiveRecordWarning) => void;
 }
@@ -91,6 +93,7 @@ const interactivePersistence = createSessionStore<
     status: record.status,
   }),
   getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) => record.status !== "running",
   getRecordId: (record) => record.sessionId,
   getRecordStatus: (record) => record.status,
@@ -126,13 +129,23 @@ export function resolveInteractiveSessionPaths(
 export async function readInteractiveRecords(
   options: ReadInteractiveRecordsOptions,
 ): Promise<InteractiveSessionRecord[]> {
-  const { root, interactiveFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    interactiveFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildInteractivePaths(root, interactiveFilePath);
 
   try {
     return await interactivePersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -12,6 +12,10 @@ import {
   type ResolvedExtraContextFile,
   stageExtraContextFiles,
 } from "../../../competition/shared/extra-context.js";
+import {
+  applyPromptOverlays,
+  type ResolvedPromptOverlay,
+} from "../../../competition/shared/prompt-overlays.js";
 import { composeStageSandboxPolicy } from "../../../competition/shared/sandbox-policy.js";
 import {
   createTeardownController,
@@ -72,6 +76,7 @@ export interface CreateMessageCompetitionAdapterInput {
   readonly prompt: string;
   readonly environment: EnvironmentConfig;
   readonly extraContextFiles?: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
   readonly teardown?: TeardownController;
 }
 
@@ -88,6 +93,7 @@ export function createMessageCompetitionAdapter(
     prompt,
     environment,
     extraContextFiles = [],
+    promptOverlays = [],
     teardown: providedTeardown,
   } = input;
 
@@ -134,11 +140,15 @@ export function createMessageCompetitionAdapter(
             files: extraContextFiles,
           });
 
-          const builtPrompt = buildMessagePrompt({
-            prompt,
-            repoRootPath: root,
-            workspacePath: workspacePaths.workspacePath,
-            extraContextFiles,
+          const builtPrompt = applyPromptOverlays({
+            prompt: buildMessagePrompt({
+              prompt,
+              repoRootPath: root,
+              workspacePath: workspacePaths.workspacePath,
+              extraContextFiles,
+            }),
+            overlays: promptOverlays,
+            agentId: candidate.id,
           });
 
           ready.push({
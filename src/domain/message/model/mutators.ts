@@ -2,6 +2,7 @@ import {
   buildLifecycleStartFields,
   buildRecordLifecycleCompleteFields,
 } from "../../shared/lifecycle.js";
+import { buildSessionCostFields } from "../../shared/token-cost.js";
 import { rewriteMessageRecord } from "../persistence/adapter.js";
 import type {
   MessageRecipientEntry,
@@ -135,6 +136,9 @@ async function updateRecipient(options: {
             })
           : {}),
         recipients,
+        ...buildSessionCostFields(
+          recipients.map((recipient) => recipient.costUsd),
+        ),
       };
     },
   });
@@ -159,6 +163,7 @@ function mergeRecipientEntries(
     stdoutPath: incoming.stdoutPath ?? existing?.stdoutPath,
     stderrPath: incoming.stderrPath ?? existing?.stderrPath,
     tokenUsage: incoming.tokenUsage ?? existing?.tokenUsage,
+    costUsd: incoming.costUsd ?? existing?.costUsd,
     error:
       incoming.error !== undefined ? incoming.error : (existing?.error ?? null),
     startedAt: incoming.startedAt ?? existing?.startedAt,
@@ -1,11 +1,15 @@
 import { z } from "zod";
 
 import { agentIdSchema } from "../../../configs/agents/types.js";
-import { extractedTokenUsageSchema } from "../../../domain/run/model/types.js";
+import {
+  costUsdSchema,
+  extractedTokenUsageSchema,
+} from "../../../domain/run/model/types.js";
 import {
   extraContextMetadataEntrySchema,
   persistedExtraContextPathSchema,
 } from "../../../persistence/extra-context.js";
+import { promptOverlayEntrySchema } from "../../../persistence/prompt-overlays.js";
 import { repoRelativeRecordPathSchema } from "../../../persistence/record-path-schema.js";
 import {
   type MessageRecipientStatus,
@@ -74,6 +78,7 @@ export const messageRecipientEntrySchema = z
     stdoutPath: repoRelativeRecordPathSchema.optional(),
     stderrPath: repoRelativeRecordPathSchema.optional(),
     tokenUsage: extractedTokenUsageSchema.optional(),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((recipient, ctx) => {
@@ -114,6 +119,8 @@ export const messageRecordSchema = z
     target: messageTargetSchema.optional(),
     extraContext: z.array(persistedExtraContextPathSchema).optional(),
     extraContextMetadata: z.array(extraContextMetadataEntrySchema).optional(),
+    /** Files from `.voratiq/prompts/` layered onto the agent prompts. */
+    promptOverlays: z.array(promptOverlayEntrySchema).optional(),
     recipients: z
       .array(messageRecipientEntrySchema)
       .min(1)
@@ -130,6 +137,7 @@ export const messageRecordSchema = z
           seen.add(recipient.agentId);
         }
       }),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((record, ctx) => {
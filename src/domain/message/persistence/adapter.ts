@@ -47,6 +47,8 @@ export interface ReadMessageRecordsOptions {
   root: string;
   messagesFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: MessageRecordPredicate;
   onWarning?: (warning: MessageRecordWarning) => void;
 }
@@ -94,6 +96,7 @@ const messagePersistence = createSessionStore<
     status: record.status,
   }),
   getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) =>
     TERMINAL_MESSAGE_STATUSES.includes(record.status),
   getRecordId: (record) => record.sessionId,
@@ -115,13 +118,23 @@ const messagePersistence = createSessionStore<
 export async function readMessageRecords(
   options: ReadMessageRecordsOptions,
 ): Promise<MessageRecord[]> {
-  const { root, messagesFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    messagesFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildMessagePaths(root, messagesFilePath);
 
   try {
     return await messagePersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -169,6 +182,21 @@ export async function rewriteMessageRecord(
   }
 }
 
+export async function removeMessageRecords(options: {
+  root: string;
+  messagesFilePath: string;
+  sessionIds: readonly string[];
+}): Promise<void> {
+  const { root, messagesFilePath, sessionIds } = options;
+  const paths = buildMessagePaths(root, messagesFilePath);
+
+  try {
+    await messagePersistence.removeRecords({ paths, sessionIds });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
 export async function flushMessageRecordBuffer(options: {
   messagesFilePath: string;
   sessionId: string;
@@ -13,6 +13,11 @@ import {
   type ResolvedExtraContextFile,
   stageExtraContextFiles,
 } from "../../../competition/shared/extra-context.js";
+import {
+  applyPromptOverlays,
+  buildPersistedPromptOverlays,
+  type ResolvedPromptOverlay,
+} from "../../../competition/shared/prompt-overlays.js";
 import { composeStageSandboxPolicy } from "../../../competition/shared/sandbox-policy.js";
 import {
   createTeardownController,
@@ -27,9 +32,11 @@ import { deriveReductionStatusFromReducers } from "../../../domain/reduce/compet
 import { validateReductionOutputContract } from "../../../domain/reduce/competition/output-validation.js";
 import { buildReducePrompt } from "../../../domain/reduce/competition/prompt.js";
 import { parseReductionArtifact } from "../../../domain/reduce/competition/reduction.js";
-import type {
-  ReductionRecord,
-  ReductionTarget,
+import {
+  buildReductionTargetFields,
+  formatReductionTargetKey,
+  type ReductionRecord,
+  type ReductionTarget,
 } from "../../../domain/reduce/model/types.js";
 import {
   readReductionRecords,
@@ -44,10 +51,12 @@ import {
   buildOperationLifecycleCompleteFields,
   buildRecordLifecycleCompleteFields,
 } from "../../../domain/shared/lifecycle.js";
+import { buildSessionCostFields } from "../../../domain/shared/token-cost.js";
 import {
   buildUnavailableTokenUsageResult,
   reconstructTokenUsageResult,
   resolveTokenUsage,
+  resolveTokenUsageCost,
 } from "../../../domain/shared/token-usage.js";
 import { readSpecRecords } from "../../../domain/spec/persistence/adapter.js";
 import { readVerificationRecords } from "../../../domain/verify/persistence/adapter.js";
@@ -109,6 +118,16 @@ interface StagedTargetFile {
   readonly stagedRelativePath: string;
 }
 
+/**
+ * Where a target's files land in the reducer workspace. A lone target keeps
+ * the flat `inputs/` layout; each of several targets gets its own
+ * `inputs/<type>-<id>/` folder and namespaced artifact ids.
+ */
+interface TargetStagingLayout {
+  readonly inputPath: (relativePath: string) => string;
+  readonly artifactId: (id: string) => string;
+}
+
 export interface CreateReduceCompetitionAdapterInput {
   readonly root: string;
   readonly reductionId: string;
@@ -118,9 +137,10 @@ export interface CreateReduceCompetitionAdapterInput {
   readonly runsFilePath: string;
   readonly messagesFilePath: string;
   readonly verificationsFilePath: string;
-  readonly target: ReductionTarget;
+  readonly targets: readonly ReductionTarget[];
   readonly environment: EnvironmentConfig;
   readonly extraContextFiles?: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
   readonly renderer?: ReduceProgressRenderer;
   readonly teardown?: TeardownController;
 }
@@ -141,9 +161,10 @@ export function createReduceCompetitionAdapter(
     runsFilePath,
     messagesFilePath,
     verificationsFilePath,
-    target,
+    targets,
     environment,
     extraContextFiles = [],
+    promptOverlays = [],
     renderer,
     teardown: providedTeardown,
   } = input;
@@ -184,19 +205,19 @@ export function createReduceCompetitionAdapter(
         ReductionCompetitionExecution
       >
     > => {
-      const targetContext = await prepareReductionTargetContext({
+      const targetContext = await prepareReductionTargetsContext({
         root,
         specsFilePath,
         runsFilePath,
         messagesFilePath,
         verificationsFilePath,
         reductionsFilePath,
-        target,
+        targets,
       });
 
       const record: ReductionRecord = {
         sessionId: reductionId,
-        target,
+        ...buildReductionTargetFields(targets),
         createdAt,
         status: "queued",
         reducers: candidates.map((candidate) => ({
@@ -214,6 +235,7 @@ export function createReduceCompetitionAdapter(
           }),
         })),
         ...buildPersistedExtraContextFields(extraContextFiles),
+        ...buildPersistedPromptOverlays(promptOverlays),
       };
 
       await rewriteOrAppendReductionRecord({
@@ -254,13 +276,16 @@ export function createReduceCompetitionAdapter(
           files: extraContextFiles,
         });
 
-        const prompt = buildReducePrompt({
-          targetOperator: target.type,
-          targetId: target.id,
-          artifactInfoPath: REDUCTION_ARTIFACT_INFO_FILENAME,
-          workspacePath: workspacePaths.workspacePath,
-          contextPath: workspacePaths.contextPath,
-          extraContextFiles,
+        const prompt = applyPromptOverlays({
+          prompt: buildReducePrompt({
+            targets,
+            artifactInfoPath: REDUCTION_ARTIFACT_INFO_FILENAME,
+            workspacePath: workspacePaths.workspacePath,
+            contextPath: workspacePaths.contextPath,
+            extraContextFiles,
+          }),
+          overlays: promptOverlays,
+          agentId: candidate.id,
         });
 
         prepared.push({
@@ -424,6 +449,7 @@ export function createReduceCompetitionAdapter(
             completedAt,
             error: null,
             tokenUsage: result.tokenUsage,
+            tokenUsageResult: result.tokenUsageResult,
           }),
       });
       emitStageProgressEvent(renderer, {
@@ -461,6 +487,7 @@ export function createReduceCompetitionAdapter(
               completedAt,
               error: detail,
               tokenUsage,
+              tokenUsageResult,
             }),
         });
       } catch {
@@ -620,6 +647,56 @@ async function rewriteOrAppendReductionRecord(options: {
   await appendReductionRecord({ root, reductionsFilePath, record });
 }
 
+async function prepareReductionTargetsContext(options: {
+  root: string;
+  specsFilePath: string;
+  runsFilePath: string;
+  messagesFilePath: string;
+  verificationsFilePath: string;
+  reductionsFilePath: string;
+  targets: readonly ReductionTarget[];
+}): Promise<Pick<ReductionTargetContext, "manifest" | "stagedFiles">> {
+  const { targets, ...paths } = options;
+  const [onlyTarget] = targets;
+  if (onlyTarget && targets.length === 1) {
+    return await prepareReductionTargetContext({
+      ...paths,
+      target: onlyTarget,
+      layout: createTargetStagingLayout(),
+    });
+  }
+
+  const stagedFiles: StagedTargetFile[] = [];
+  const sources: Array<Record<string, unknown>> = [];
+  for (const target of targets) {
+    const namespace = formatReductionTargetKey(target);
+    const context = await prepareReductionTargetContext({
+      ...paths,
+      target,
+      layout: createTargetStagingLayout(namespace),
+    });
+    stagedFiles.push(...context.stagedFiles);
+    sources.push({
+      inputsPath: `inputs/${namespace}`,
+      ...context.manifest,
+    });
+  }
+  return { stagedFiles, manifest: { sources } };
+}
+
+function createTargetStagingLayout(namespace?: string): TargetStagingLayout {
+  if (!namespace) {
+    return {
+      inputPath: (relativePath) => `inputs/${relativePath}`,
+      artifactId: (id) => id,
+    };
+  }
+  return {
+    inputPath: (relativePath) => `inputs/${namespace}/${relativePath}`,
+    artifactId: (id) => `${namespace}/${id}`,
+  };
+}
+
 async function prepareReductionTargetContext(options: {
   root: string;
   specsFilePath: string;
@@ -628,6 +705,7 @@ async function prepareReductionTargetContext(options: {
   verificationsFilePath: string;
   reductionsFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
   const { target } = options;
   switch (target.type) {
@@ -648,8 +726,9 @@ async function prepareSpecTargetContext(options: {
   root: string;
   specsFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
-  const { root, specsFilePath, target } = options;
+  const { root, specsFilePath, target, layout } = options;
   const [record] = await readSpecRecords({
     root,
     specsFilePath,
@@ -674,8 +753,8 @@ async function prepareSpecTargetContext(options: {
   const stagedFiles: StagedTargetFile[] = [];
   const artifacts: Array<Record<string, unknown>> = [];
   for (const agent of generatedAgents) {
-    const markdownRelative = `inputs/spec/${agent.agentId}/spec.md`;
-    const dataRelative = `inputs/spec/${agent.agentId}/spec.json`;
+    const markdownRelative = layout.inputPath(`spec/${agent.agentId}/spec.md`);
+    const dataRelative = layout.inputPath(`spec/${agent.agentId}/spec.json`);
     stagedFiles.push({
       sourceAbsolutePath: resolvePath(root, agent.outputPath),
       stagedRelativePath: markdownRelative,
@@ -685,7 +764,7 @@ async function prepareSpecTargetContext(options: {
       stagedRelativePath: dataRelative,
     });
     artifacts.push({
-      artifactId: `spec:${agent.agentId}`,
+      artifactId: layout.artifactId(`spec:${agent.agentId}`),
       kind: "spec",
       agentId: agent.agentId,
       markdownPath: markdownRelative,
@@ -713,8 +792,9 @@ async function prepareRunTargetContext(options: {
   root: string;
   runsFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
-  const { root, runsFilePath, target } = options;
+  const { root, runsFilePath, target, layout } = options;
   const { records } = await fetchRunsSafely({
     root,
     runsFilePath,
@@ -731,23 +811,24 @@ async function prepareRunTargetContext(options: {
   }
 
   const run = await buildRunRecordView(record, { workspaceRoot: root });
+  const specRelative = layout.inputPath("spec.md");
   const stagedFiles: StagedTargetFile[] = [
     {
       sourceAbsolutePath: resolvePath(root, run.spec.path),
-      stagedRelativePath: "inputs/spec.md",
+      stagedRelativePath: specRelative,
     },
   ];
   const artifacts: Array<Record<string, unknown>> = [
     {
-      artifactId: "run-spec",
+      artifactId: layout.artifactId("run-spec"),
       kind: "spec",
-      path: "inputs/spec.md",
+      path: specRelative,
     },
   ];
 
   for (const agent of run.agents) {
     const entry: Record<string, unknown> = {
-      artifactId: `run-agent:${agent.agentId}`,
+      artifactId: layout.artifactId(`run-agent:${agent.agentId}`),
       kind: "run-agent",
       agentId: agent.agentId,
       status: agent.status,
@@ -756,24 +837,34 @@ async function prepareRunTargetContext(options: {
     };
 
     if (agent.assets.diffPath) {
+      const diffRelative = layout.inputPath(
+        `agents/${agent.agentId}/diff.patch`,
+      );
       stagedFiles.push({
         sourceAbsolutePath: resolvePath(root, agent.assets.diffPath),
-        stagedRelativePath: `inputs/agents/${agent.agentId}/diff.patch`,
+        stagedRelativePath: diffRelative,
       });
-      entry.diffPath = `inputs/agents/${agent.agentId}/diff.patch`;
-      entry.diffArtifactId = `run-agent:${agent.agentId}:diff`;
+      entry.diffPath = diffRelative;
+      entry.diffArtifactId = layout.artifactId(
+        `run-agent:${agent.agentId}:diff`,
+      );
     }
 
     if (
       agent.assets.summaryPath &&
       (await pathExists(resolvePath(root, agent.assets.summaryPath)))
     ) {
+      const summaryRelative = layout.inputPath(
+        `agents/${agent.agentId}/summary.txt`,
+      );
       stagedFiles.push({
         sourceAbsolutePath: resolvePath(root, agent.assets.summaryPath),
-        stagedRelativePath: `inputs/agents/${agent.agentId}/summary.txt`,
+        stagedRelativePath: summaryRelative,
       });
-      entry.summaryPath = `inputs/agents/${agent.agentId}/summary.txt`;
-      entry.summaryArtifactId = `run-agent:${agent.agentId}:summary`;
+      entry.summaryPath = summaryRelative;
+      entry.summaryArtifactId = layout.artifactId(
+        `run-agent:${agent.agentId}:summary`,
+      );
     }
 
     artifacts.push(entry);
@@ -788,7 +879,7 @@ async function prepareRunTargetContext(options: {
         operator: "run",
         id: run.runId,
         path: `.voratiq/run/sessions/${run.runId}`,
-        specPath: "inputs/spec.md",
+        specPath: specRelative,
         status: run.status,
       },
       artifacts,
@@ -800,8 +891,9 @@ async function prepareVerificationTargetContext(options: {
   root: string;
   verificationsFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
-  const { root, verificationsFilePath, target } = options;
+  const { root, verificationsFilePath, target, layout } = options;
   const [record] = await readVerificationRecords({
     root,
     verificationsFilePath,
@@ -821,13 +913,17 @@ async function prepareVerificationTargetContext(options: {
     }
     const methodActor = method.verifierId ?? method.slug ?? "unknown";
     const templateSegment = method.template ?? "programmatic";
-    const stagedRelativePath = `inputs/methods/${method.method}/${method.scope.kind}/${methodActor}/${templateSegment}/result.json`;
+    const stagedRelativePath = layout.inputPath(
+      `methods/${method.method}/${method.scope.kind}/${methodActor}/${templateSegment}/result.json`,
+    );
     stagedFiles.push({
       sourceAbsolutePath: resolvePath(root, method.artifactPath),
       stagedRelativePath,
     });
     artifacts.push({
-      artifactId: `verification-method:${method.method}:${method.scope.kind}:${method.verifierId ?? method.slug ?? "unknown"}`,
+      artifactId: layout.artifactId(
+        `verification-method:${method.method}:${method.scope.kind}:${method.verifierId ?? method.slug ?? "unknown"}`,
+      ),
       kind: "verification-method",
       method: method.method,
       scope: method.scope,
@@ -868,8 +964,9 @@ async function prepareReductionTargetContextInternal(options: {
   root: string;
   reductionsFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
-  const { root, reductionsFilePath, target } = options;
+  const { root, reductionsFilePath, target, layout } = options;
   const [record] = await readReductionRecords({
     root,
     reductionsFilePath,
@@ -893,7 +990,9 @@ async function prepareReductionTargetContextInternal(options: {
   }
 
   for (const reducer of succeededReducers) {
-    const reductionRelative = `inputs/reducers/${reducer.agentId}/reduction.md`;
+    const reductionRelative = layout.inputPath(
+      `reducers/${reducer.agentId}/reduction.md`,
+    );
     stagedFiles.push({
       sourceAbsolutePath: resolvePath(root, reducer.outputPath),
       stagedRelativePath: reductionRelative,
@@ -901,14 +1000,16 @@ async function prepareReductionTargetContextInternal(options: {
     const dataAbsolute = reducer.dataPath
       ? resolvePath(root, reducer.dataPath)
       : resolveStoredReductionDataPath(root, reducer.outputPath);
-    const dataRelative = `inputs/reducers/${reducer.agentId}/reduction.json`;
+    const dataRelative = layout.inputPath(
+      `reducers/${reducer.agentId}/reduction.json`,
+    );
     stagedFiles.push({
       sourceAbsolutePath: dataAbsolute,
       stagedRelativePath: dataRelative,
     });
 
     artifacts.push({
-      artifactId: `reducer:${reducer.agentId}`,
+      artifactId: layout.artifactId(`reducer:${reducer.agentId}`),
       kind: "reducer",
       agentId: reducer.agentId,
       status: reducer.status,
@@ -938,8 +1039,9 @@ async function prepareMessageTargetContext(options: {
   root: string;
   messagesFilePath: string;
   target: ReductionTarget;
+  layout: TargetStagingLayout;
 }): Promise<ReductionTargetContext> {
-  const { root, messagesFilePath, target } = options;
+  const { root, messagesFilePath, target, layout } = options;
   const [record] = await readMessageRecords({
     root,
     messagesFilePath,
@@ -965,13 +1067,15 @@ async function prepareMessageTargetContext(options: {
   const artifacts: Array<Record<string, unknown>> = [];
 
   for (const recipient of succeededRecipients) {
-    const outputRelative = `inputs/recipients/${recipient.agentId}/${MESSAGE_RESPONSE_FILENAME}`;
+    const outputRelative = layout.inputPath(
+      `recipients/${recipient.agentId}/${MESSAGE_RESPONSE_FILENAME}`,
+    );
     stagedFiles.push({
       sourceAbsolutePath: resolvePath(root, recipient.outputPath),
       stagedRelativePath: outputRelative,
     });
     artifacts.push({
-      artifactId: `message:${recipient.agentId}`,
+      artifactId: layout.artifactId(`message:${recipient.agentId}`),
       kind: "message-output",
       agentId: recipient.agentId,
       status: recipient.status,
@@ -999,7 +1103,7 @@ async function prepareMessageTargetContext(options: {
 
 async function stageReductionTargetContext(options: {
   workspacePath: string;
-  targetContext: ReductionTargetContext;
+  targetContext: Pick<ReductionTargetContext, "manifest" | "stagedFiles">;
 }): Promise<void> {
   const { workspacePath, targetContext } = options;
   for (const stagedFile of targetContext.stagedFiles) {
@@ -1069,8 +1173,18 @@ function mutateReducerRecord(
     tokenUsageResult?: TokenUsageResult;
   },
 ): ReductionRecord {
-  const { reducerAgentId, status, startedAt, completedAt, error, tokenUsage } =
-    options;
+  const {
+    reducerAgentId,
+    status,
+    startedAt,
+    completedAt,
+    error,
+    tokenUsage,
+    tokenUsageResult,
+  } = options;
+  const costUsd = tokenUsageResult
+    ? resolveTokenUsageCost(tokenUsageResult)
+    : undefined;
   let found = false;
   const reducers = record.reducers.map((reducer) => {
     if (reducer.agentId !== reducerAgentId) {
@@ -1095,6 +1209,7 @@ function mutateReducerRecord(
       ...lifecycleFields,
       error,
       ...(tokenUsage ? { tokenUsage } : {}),
+      ...(costUsd !== undefined ? { costUsd } : {}),
     };
   });
   if (!found) {
@@ -1105,6 +1220,7 @@ function mutateReducerRecord(
   return {
     ...record,
     reducers,
+    ...buildSessionCostFields(reducers.map((reducer) => reducer.costUsd)),
   };
 }
 
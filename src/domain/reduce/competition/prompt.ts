@@ -7,10 +7,13 @@ import {
   appendOutputRequirements,
   buildWorkspaceArtifactRequirements,
 } from "../../../competition/shared/prompt-helpers.js";
+import {
+  formatReductionTargetKey,
+  type ReductionTarget,
+} from "../model/types.js";
 
 export interface BuildReducePromptOptions {
-  targetOperator: "spec" | "run" | "reduce" | "verify" | "message";
-  targetId: string;
+  targets: readonly ReductionTarget[];
   artifactInfoPath: string;
   workspacePath: string;
   contextPath?: string;
@@ -19,8 +22,7 @@ export interface BuildReducePromptOptions {
 
 export function buildReducePrompt(options: BuildReducePromptOptions): string {
   const {
-    targetOperator,
-    targetId,
+    targets,
     artifactInfoPath,
     workspacePath,
     contextPath,
@@ -31,8 +33,7 @@ export function buildReducePrompt(options: BuildReducePromptOptions): string {
     "You are the reducer for a completed Voratiq session. Read the available artifacts, synthesize what should be carried forward, and write both a human-readable reduction and a machine-readable reduction artifact.",
     "",
     "Inputs:",
-    `- Target operator: ${targetOperator}`,
-    `- Target session id: ${targetId}`,
+    ...formatTargetInputLines(targets),
     `- Artifact information: \`${artifactInfoPath}\``,
     "",
     "Large artifacts and context budget:",
@@ -126,3 +127,20 @@ export function buildReducePrompt(options: BuildReducePromptOptions): string {
 
   return `${lines.join("\n")}\n`;
 }
+
+function formatTargetInputLines(targets: readonly ReductionTarget[]): string[] {
+  const [onlyTarget] = targets;
+  if (onlyTarget && targets.length === 1) {
+    return [
+      `- Target operator: ${onlyTarget.type}`,
+      `- Target session id: ${onlyTarget.id}`,
+    ];
+  }
+  return [
+    "- Target sessions (each staged under its own folder):",
+    ...targets.map(
+      (target) =>
+        `  - ${target.type} \`${target.id}\`: \`inputs/${formatReductionTargetKey(target)}/\``,
+    ),
+  ];
+}
@@ -1,11 +1,15 @@
 import { z } from "zod";
 
 import { agentIdSchema } from "../../../configs/agents/types.js";
-import { extractedTokenUsageSchema } from "../../../domain/run/model/types.js";
+import {
+  costUsdSchema,
+  extractedTokenUsageSchema,
+} from "../../../domain/run/model/types.js";
 import {
   extraContextMetadataEntrySchema,
   persistedExtraContextPathSchema,
 } from "../../../persistence/extra-context.js";
+import { promptOverlayEntrySchema } from "../../../persistence/prompt-overlays.js";
 import { repoRelativeRecordPathSchema } from "../../../persistence/record-path-schema.js";
 import {
   type ReductionStatus,
@@ -39,6 +43,10 @@ export const reductionTargetSchema = z
 
 export type ReductionTarget = z.infer<typeof reductionTargetSchema>;
 
+export function formatReductionTargetKey(target: ReductionTarget): string {
+  return `${target.type}-${target.id}`;
+}
+
 export const reductionRecordReducerSchema = z
   .object({
     agentId: agentIdSchema,
@@ -48,6 +56,7 @@ export const reductionRecordReducerSchema = z
     startedAt: z.string().optional(),
     completedAt: z.string().optional(),
     tokenUsage: extractedTokenUsageSchema.optional(),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((reducer, ctx) => {
@@ -69,13 +78,18 @@ export const reductionRecordReducerSchema = z
 export const reductionRecordSchema = z
   .object({
     sessionId: z.string(),
+    /** First reduced session; kept for readers that predate `targets`. */
     target: reductionTargetSchema,
+    /** Every reduced session, in order, when more than one was reduced. */
+    targets: z.array(reductionTargetSchema).min(2).optional(),
     createdAt: z.string(),
     startedAt: z.string().optional(),
     completedAt: z.string().optional(),
     status: reductionStatusSchema,
     extraContext: z.array(persistedExtraContextPathSchema).optional(),
     extraContextMetadata: z.array(extraContextMetadataEntrySchema).optional(),
+    /** Files from `.voratiq/prompts/` layered onto the agent prompts. */
+    promptOverlays: z.array(promptOverlayEntrySchema).optional(),
     reducers: z
       .array(reductionRecordReducerSchema)
       .min(1)
@@ -92,6 +106,7 @@ export const reductionRecordSchema = z
           seen.add(reducer.agentId);
         }
       }),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((record, ctx) => {
@@ -114,6 +129,22 @@ export const reductionRecordSchema = z
 
 export type ReductionRecord = z.infer<typeof reductionRecordSchema>;
 
+export function getReductionTargets(
+  record: Pick<ReductionRecord, "target" | "targets">,
+): ReductionTarget[] {
+  return record.targets ? [...record.targets] : [record.target];
+}
+
+export function buildReductionTargetFields(
+  targets: readonly ReductionTarget[],
+): Pick<ReductionRecord, "target" | "targets"> {
+  const [target] = targets;
+  if (!target) {
+    throw new Error("A reduction requires at least one target.");
+  }
+  return targets.length > 1 ? { target, targets: [...targets] } : { target };
+}
+
 export type ReductionIndexEntry = Pick<
   ReductionRecord,
   "sessionId" | "createdAt" | "status"
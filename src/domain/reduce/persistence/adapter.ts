@@ -47,6 +47,8 @@ export interface ReadReductionRecordsOptions {
   root: string;
   reductionsFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: ReductionRecordPredicate;
   onWarning?: (warning: ReductionRecordWarning) => void;
 }
@@ -94,6 +96,7 @@ const reductionPersistence = createSessionStore<
     status: record.status,
   }),
   getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) =>
     TERMINAL_REDUCTION_STATUSES.includes(record.status),
   getRecordId: (record) => record.sessionId,
@@ -115,13 +118,23 @@ const reductionPersistence = createSessionStore<
 export async function readReductionRecords(
   options: ReadReductionRecordsOptions,
 ): Promise<ReductionRecord[]> {
-  const { root, reductionsFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    reductionsFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildReductionPaths(root, reductionsFilePath);
 
   try {
     return await reductionPersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -169,6 +182,21 @@ export async function rewriteReductionRecord(
   }
 }
 
+export async function removeReductionRecords(options: {
+  root: string;
+  reductionsFilePath: string;
+  sessionIds: readonly string[];
+}): Promise<void> {
+  const { root, reductionsFilePath, sessionIds } = options;
+  const paths = buildReductionPaths(root, reductionsFilePath);
+
+  try {
+    await reductionPersistence.removeRecords({ paths, sessionIds });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
 export async function flushReductionRecordBuffer(options: {
   reductionsFilePath: string;
   sessionId: string;
@@ -2,7 +2,12 @@ import type {
   CompetitionCommandAdapter,
   CompetitionPreparationResult,
 } from "../../../competition/command-adapter.js";
+import {
+  applyCostBudget,
+  type CostBudget,
+} from "../../../competition/shared/cost-budget.js";
 import type { ResolvedExtraContextFile } from "../../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../../competition/shared/prompt-overlays.js";
 import type { AgentDefinition } from "../../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import { prepareAgents } from "../../../domain/run/competition/agent-preparation.js";
@@ -13,22 +18,28 @@ import type { AgentRecordMutators } from "../../../domain/run/model/mutators.js"
 
 export interface CreateRunCompetitionAdapterInput {
   readonly baseRevisionSha: string;
+  /** Commit agent worktrees start from; defaults to the base revision. */
+  readonly startRevisionSha?: string;
   readonly runId: string;
   readonly root: string;
   readonly specContent: string;
   readonly extraContextFiles?: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
   readonly mutators: AgentRecordMutators;
   readonly environment: EnvironmentConfig;
+  readonly costBudget?: CostBudget;
 }
 
 interface RunCompetitionAdapterDependencies {
   readonly prepareCandidates: (options: {
     agents: readonly AgentDefinition[];
     baseRevisionSha: string;
+    startRevisionSha?: string;
     runId: string;
     root: string;
     specContent: string;
     extraContextFiles: readonly ResolvedExtraContextFile[];
+    promptOverlays: readonly ResolvedPromptOverlay[];
     environment: EnvironmentConfig;
   }) => Promise<
     CompetitionPreparationResult<PreparedAgentExecution, AgentExecutionResult>
@@ -48,12 +59,15 @@ export function createRunCompetitionAdapter(
 > {
   const {
     baseRevisionSha,
+    startRevisionSha,
     runId,
     root,
     specContent,
     extraContextFiles = [],
+    promptOverlays = [],
     mutators,
     environment,
+    costBudget,
   } = input;
   const prepareCandidates =
     dependencies.prepareCandidates ??
@@ -62,7 +76,11 @@ export function createRunCompetitionAdapter(
     dependencies.executePrepared ??
     (async (execution) => await runPreparedAgent(execution));
 
-  return {
+  const adapter: CompetitionCommandAdapter<
+    AgentDefinition,
+    PreparedAgentExecution,
+    AgentExecutionResult
+  > = {
     queueCandidate: async (candidate) => {
       await mutators.recordAgentQueued(candidate);
     },
@@ -70,10 +88,12 @@ export function createRunCompetitionAdapter(
       await prepareCandidates({
         agents,
         baseRevisionSha,
+        startRevisionSha,
         runId,
         root,
         specContent,
         extraContextFiles,
+        promptOverlays,
         environment,
       }),
     onPreparationFailure: async (failure) => {
@@ -90,6 +110,16 @@ export function createRunCompetitionAdapter(
     executeCandidate: async (execution) => await executePrepared(execution),
     sortResults: compareExecutionsByAgentId,
   };
+
+  return applyCostBudget(adapter, {
+    budget: costBudget,
+    resolveCostUsd: (result) => result.record.costUsd,
+    buildSkippedResult: async (execution, reason) => {
+      const result = execution.agentContext.skipWith(reason);
+      await mutators.recordAgentSnapshot(result.record);
+      return result;
+    },
+  });
 }
 
 function compareExecutionsByAgentId(
@@ -1,5 +1,7 @@
 import { executeCompetitionWithAdapter } from "../../../competition/command-adapter.js";
+import type { CostBudget } from "../../../competition/shared/cost-budget.js";
 import type { ResolvedExtraContextFile } from "../../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../../competition/shared/prompt-overlays.js";
 import type { AgentDefinition } from "../../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import { createRunCompetitionAdapter } from "../../../domain/run/competition/adapter.js";
@@ -11,13 +13,16 @@ import { toError } from "../../../utils/errors.js";
 export interface AgentExecutionInput {
   readonly agents: readonly AgentDefinition[];
   readonly baseRevisionSha: string;
+  readonly startRevisionSha?: string;
   readonly runId: string;
   readonly root: string;
   readonly specContent: string;
   readonly extraContextFiles: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
   readonly effectiveMaxParallel: number;
   readonly mutators: AgentRecordMutators;
   readonly environment: EnvironmentConfig;
+  readonly costBudget?: CostBudget;
 }
 
 /**
@@ -29,13 +34,16 @@ export async function executeAgents(
   const {
     agents,
     baseRevisionSha,
+    startRevisionSha,
     runId,
     root,
     specContent,
     extraContextFiles,
+    promptOverlays,
     effectiveMaxParallel,
     mutators,
     environment,
+    costBudget,
   } = input;
 
   let executionError: unknown;
@@ -47,12 +55,15 @@ export async function executeAgents(
       maxParallel: effectiveMaxParallel,
       adapter: createRunCompetitionAdapter({
         baseRevisionSha,
+        startRevisionSha,
         runId,
         root,
         specContent,
         extraContextFiles,
+        promptOverlays,
         mutators,
         environment,
+        costBudget,
       }),
     });
 
@@ -1,4 +1,5 @@
 import { runPreparedWithLimit } from "../../../competition/core.js";
+import type { ResolvedPromptOverlay } from "../../../competition/shared/prompt-overlays.js";
 import type { AgentDefinition } from "../../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import type { AgentExecutionResult } from "../../../domain/run/competition/reports.js";
@@ -14,19 +15,23 @@ const RUN_WORKSPACE_PREPARATION_MAX_PARALLEL = 2;
 export async function prepareAgents(options: {
   agents: readonly AgentDefinition[];
   baseRevisionSha: string;
+  startRevisionSha?: string;
   runId: string;
   root: string;
   specContent: string;
   extraContextFiles: readonly import("../../../competition/shared/extra-context.js").ResolvedExtraContextFile[];
+  promptOverlays?: readonly ResolvedPromptOverlay[];
   environment: EnvironmentConfig;
 }): Promise<AgentPreparationResult> {
   const {
     agents,
     baseRevisionSha,
+    startRevisionSha,
     runId,
     root,
     specContent,
     extraContextFiles,
+    promptOverlays,
     environment,
   } = options;
 
@@ -40,10 +45,12 @@ export async function prepareAgents(options: {
       await prepareAgentForExecution({
         agent,
         baseRevisionSha,
+        startRevisionSha,
         runId,
         root,
         specContent,
         extraContextFiles,
+        promptOverlays,
         environment,
       }),
   });
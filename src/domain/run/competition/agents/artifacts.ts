@@ -1,7 +1,10 @@
 import { readFile, rm, writeFile } from "node:fs/promises";
 import { join, relative } from "node:path";
 
-import type { EnvironmentConfig } from "../../../../configs/environment/types.js";
+import {
+  type EnvironmentConfig,
+  TOOLCHAIN_IDS,
+} from "../../../../configs/environment/types.js";
 import {
   AgentProcessError,
   GitOperationError,
@@ -62,6 +65,7 @@ export async function collectAgentArtifacts(options: {
   let dependenciesCleanup: WorkspaceDependencyCleanupResult = {
     nodeRemoved: false,
     pythonRemoved: false,
+    toolchainsRemoved: false,
   };
   try {
     dependenciesCleanup = await cleanupWorkspaceDependencies({
@@ -170,8 +174,9 @@ export async function collectAgentArtifacts(options: {
       Boolean(nodeConfig) && dependenciesCleanup.nodeRemoved;
     const shouldRestorePython =
       Boolean(pythonConfig) && dependenciesCleanup.pythonRemoved;
+    const shouldRestoreToolchains = dependenciesCleanup.toolchainsRemoved;
 
-    if (shouldRestoreNode || shouldRestorePython) {
+    if (shouldRestoreNode || shouldRestorePython || shouldRestoreToolchains) {
       const restoreEnvironment: EnvironmentConfig = {};
       if (shouldRestoreNode && nodeConfig) {
         restoreEnvironment.node = nodeConfig;
@@ -179,6 +184,15 @@ export async function collectAgentArtifacts(options: {
       if (shouldRestorePython && pythonConfig) {
         restoreEnvironment.python = pythonConfig;
       }
+      if (shouldRestoreToolchains) {
+        for (const toolchain of TOOLCHAIN_IDS) {
+          if (environment[toolchain]) {
+            Object.assign(restoreEnvironment, {
+              [toolchain]: environment[toolchain],
+            });
+          }
+        }
+      }
 
       try {
         await ensureWorkspaceDependencies({
@@ -2,7 +2,7 @@ import { detectAgentProcessFailureDetail } from "../../../../agents/runtime/fail
 import { runSandboxedAgent } from "../../../../agents/runtime/harness.js";
 import type { SandboxFailFastInfo } from "../../../../agents/runtime/sandbox.js";
 import {
-  WATCHDOG_DEFAULTS,
+  resolveWatchdogLimits,
   type WatchdogTrigger,
 } from "../../../../agents/runtime/watchdog.js";
 import { composeStageSandboxPolicy } from "../../../../competition/shared/sandbox-policy.js";
@@ -46,9 +46,11 @@ export async function executeAgentLifecycle(
   let manifestEnv: Record<string, string> = {};
 
   // Set initial watchdog metadata (will be updated with trigger if fired)
+  const watchdogLimits = resolveWatchdogLimits(agent.watchdog);
   const initialWatchdog: WatchdogMetadata = {
-    silenceTimeoutMs: WATCHDOG_DEFAULTS.silenceTimeoutMs,
-    wallClockCapMs: WATCHDOG_DEFAULTS.wallClockCapMs,
+    silenceTimeoutMs: watchdogLimits.silenceTimeoutMs,
+    wallClockCapMs: watchdogLimits.wallClockCapMs,
+    killGraceMs: watchdogLimits.killGraceMs,
   };
   agentContext.setWatchdogMetadata(initialWatchdog);
 
@@ -127,6 +129,9 @@ export async function executeAgentLifecycle(
     if (processResult.failFast) {
       agentContext.setFailFastTriggered(processResult.failFast);
     }
+    if (processResult.sandboxDenials) {
+      agentContext.markSandboxDenials(processResult.sandboxDenials.length);
+    }
 
     if (processResult.exitCode !== 0 || processResult.errorMessage) {
       const watchdogTrigger = processResult.watchdog?.trigger;
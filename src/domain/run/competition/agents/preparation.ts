@@ -1,4 +1,5 @@
 import { stageExtraContextFiles } from "../../../../competition/shared/extra-context.js";
+import { applyPromptOverlays } from "../../../../competition/shared/prompt-overlays.js";
 import { RunCommandError } from "../../../../domain/run/competition/errors.js";
 import { ensureWorkspaceError } from "../../../../workspace/agents.js";
 import { buildRunPrompt } from "../prompt.js";
@@ -16,10 +17,12 @@ export async function prepareAgentForExecution(
   const {
     agent,
     baseRevisionSha,
+    startRevisionSha,
     runId,
     root,
     specContent,
     extraContextFiles,
+    promptOverlays = [],
     environment,
   } = context;
 
@@ -36,7 +39,7 @@ export async function prepareAgentForExecution(
       root,
       runId,
       agentId: agent.id,
-      baseRevisionSha,
+      baseRevisionSha: startRevisionSha ?? baseRevisionSha,
       environment,
     });
   } catch (error) {
@@ -58,11 +61,15 @@ export async function prepareAgentForExecution(
     };
   }
 
-  const prompt = buildRunPrompt({
-    specContent,
-    workspacePath: workspacePaths.workspacePath,
-    contextPath: workspacePaths.contextPath,
-    extraContextFiles,
+  const prompt = applyPromptOverlays({
+    prompt: buildRunPrompt({
+      specContent,
+      workspacePath: workspacePaths.workspacePath,
+      contextPath: workspacePaths.contextPath,
+      extraContextFiles,
+    }),
+    overlays: promptOverlays,
+    agentId: agent.id,
   });
 
   return {
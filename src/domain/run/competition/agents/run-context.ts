@@ -16,6 +16,7 @@ import type {
 import {
   buildUnavailableTokenUsageResult,
   resolveTokenUsage,
+  resolveTokenUsageCost,
 } from "../../../../domain/shared/token-usage.js";
 import { normalizeDiffStatistics } from "../../../../utils/diff.js";
 import type { TokenUsageResult } from "../../../../workspace/chat/token-usage-result.js";
@@ -31,6 +32,7 @@ export class AgentRunContext {
   public watchdogMetadata: WatchdogMetadata | undefined;
   private warnings: string[] = [];
   private failFast: SandboxFailFastInfo | undefined;
+  private sandboxDenialCount: number | undefined;
   private completedAt: string | undefined;
   private startedAt: string;
   private readonly runId: string;
@@ -75,6 +77,12 @@ export class AgentRunContext {
     return this.finalize();
   }
 
+  public skipWith(reason: string): AgentExecutionResult {
+    this.status = "skipped";
+    this.warnings = [...new Set([...this.warnings, reason])];
+    return this.finalize();
+  }
+
   public isFailed(): boolean {
     return this.status === "failed";
   }
@@ -130,9 +138,15 @@ export class AgentRunContext {
     this.failFast = info;
   }
 
+  public markSandboxDenials(count: number): void {
+    this.artifactState.sandboxDenialsCaptured = true;
+    this.sandboxDenialCount = count;
+  }
+
   public setTokenUsageResult(result: TokenUsageResult): void {
     this.state.tokenUsageResult = result;
     this.state.tokenUsage = resolveTokenUsage(result);
+    this.state.costUsd = resolveTokenUsageCost(result);
   }
 
   public finalize(): AgentExecutionResult {
@@ -147,9 +161,11 @@ export class AgentRunContext {
       artifacts: this.artifactState,
       diffStatistics: this.state.diffStatistics,
       tokenUsage: this.state.tokenUsage,
+      costUsd: this.state.costUsd,
       watchdog: this.watchdogMetadata,
       warnings: this.warnings,
       failFast: this.failFast,
+      sandboxDenialCount: this.sandboxDenialCount,
     });
 
     return finalizeAgentResult(this.runId, record, this.state);
@@ -169,6 +185,7 @@ export class AgentRunContext {
       artifacts: this.artifactState,
       diffStatistics: undefined,
       tokenUsage: this.state.tokenUsage,
+      costUsd: this.state.costUsd,
       watchdog: this.watchdogMetadata,
       warnings: this.warnings,
       failFast: this.failFast,
@@ -186,9 +203,11 @@ function buildAgentRecord(options: {
   artifacts: AgentArtifactState;
   diffStatistics?: string;
   tokenUsage?: ExtractedTokenUsage;
+  costUsd?: number;
   watchdog?: WatchdogMetadata;
   warnings?: string[];
   failFast?: SandboxFailFastInfo;
+  sandboxDenialCount?: number;
 }): AgentInvocationRecord {
   const {
     agent,
@@ -200,9 +219,11 @@ function buildAgentRecord(options: {
     artifacts,
     diffStatistics,
     tokenUsage,
+    costUsd,
     watchdog,
     warnings,
     failFast,
+    sandboxDenialCount,
   } = options;
 
   const artifactState =
@@ -219,6 +240,7 @@ function buildAgentRecord(options: {
     artifacts: artifactState,
     error: errorMessage,
     tokenUsage,
+    ...(costUsd !== undefined ? { costUsd } : {}),
     watchdog,
     ...(warnings && warnings.length > 0 ? { warnings: [...warnings] } : {}),
     ...(failFast
@@ -228,6 +250,7 @@ function buildAgentRecord(options: {
           failFastOperation: failFast.operation,
         }
       : {}),
+    ...(sandboxDenialCount !== undefined ? { sandboxDenialCount } : {}),
   };
 
   if (normalizedDiffStatistics) {
@@ -1,4 +1,5 @@
 import type { ResolvedExtraContextFile } from "../../../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../../../competition/shared/prompt-overlays.js";
 import type { AgentDefinition } from "../../../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../../../configs/environment/types.js";
 import type { AgentExecutionResult } from "../../../../domain/run/competition/reports.js";
@@ -9,10 +10,12 @@ import type { RunAgentWorkspacePaths } from "./workspace.js";
 export interface AgentExecutionContext {
   agent: AgentDefinition;
   baseRevisionSha: string;
+  startRevisionSha?: string;
   runId: string;
   root: string;
   specContent: string;
   extraContextFiles: readonly ResolvedExtraContextFile[];
+  promptOverlays?: readonly ResolvedPromptOverlay[];
   environment: EnvironmentConfig;
 }
 
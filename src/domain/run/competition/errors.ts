@@ -173,3 +173,31 @@ export class RunReportInvariantError extends RunCommandError {
     super(`Run report invariant violated: ${detail}`);
   }
 }
+
+export class RunNotResumableError extends RunCommandError {
+  public readonly kind = "workspace-setup" as const;
+
+  constructor(runId: string) {
+    super(`Run \`${runId}\` has no agents left to resume.`, {
+      hintLines: ["Every agent already succeeded; start a new run instead."],
+    });
+  }
+}
+
+export class RunSessionActiveError extends RunCommandError {
+  public readonly kind = "workspace-setup" as const;
+
+  constructor(runId: string, ownerPid: number | undefined) {
+    super(
+      ownerPid === undefined
+        ? `Run \`${runId}\` is still marked running and records no owner process.`
+        : `Run \`${runId}\` is still running in process ${ownerPid}.`,
+      {
+        hintLines: [
+          "Wait for it to finish or stop it before resuming.",
+          "If that process is gone, re-run with `--force`.",
+        ],
+      },
+    );
+  }
+}
@@ -19,6 +19,7 @@ export interface AgentExecutionState {
   diffStatistics?: string;
   tokenUsage?: ExtractedTokenUsage;
   tokenUsageResult: TokenUsageResult;
+  costUsd?: number;
 }
 
 export interface AgentExecutionResult {
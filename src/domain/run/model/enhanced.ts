@@ -30,6 +30,8 @@ export interface AgentInvocationEnhanced {
   assets: AgentArtifactPaths;
   diffStatistics?: string;
   tokenUsage?: ExtractedTokenUsage;
+  costUsd?: number;
+  sandboxDenialCount?: number;
   error?: string;
   warnings?: string[];
 }
@@ -99,6 +101,12 @@ export function buildRunRecordEnhanced(record: RunRecord): RunRecordEnhanced {
       if (agent.tokenUsage) {
         enhancedAgent.tokenUsage = agent.tokenUsage;
       }
+      if (typeof agent.costUsd === "number") {
+        enhancedAgent.costUsd = agent.costUsd;
+      }
+      if (typeof agent.sandboxDenialCount === "number") {
+        enhancedAgent.sandboxDenialCount = agent.sandboxDenialCount;
+      }
 
       return enhancedAgent;
     },
@@ -2,6 +2,7 @@ import type { AgentDefinition } from "../../../configs/agents/types.js";
 import type { RunProgressRenderer } from "../../../render/transcripts/run.js";
 import { emitStageProgressEvent } from "../../../render/transcripts/stage-progress.js";
 import { normalizeDiffStatistics } from "../../../utils/diff.js";
+import { buildSessionCostFields } from "../../shared/token-cost.js";
 import {
   getActiveTerminationStatus,
   RUN_ABORT_WARNING,
@@ -57,7 +58,11 @@ export function createAgentRecordMutators(
         } else {
           agents.push(updated);
         }
-        return { ...existing, agents };
+        return {
+          ...existing,
+          agents,
+          ...buildSessionCostFields(agents.map((agent) => agent.costUsd)),
+        };
       },
     });
   };
@@ -108,7 +113,11 @@ export function createAgentRecordMutators(
         } else {
           agents.push(updated);
         }
-        return { ...existing, agents };
+        return {
+          ...existing,
+          agents,
+          ...buildSessionCostFields(agents.map((agent) => agent.costUsd)),
+        };
       },
     });
 
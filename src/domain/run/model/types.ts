@@ -5,6 +5,7 @@ import {
   extraContextMetadataEntrySchema,
   persistedExtraContextPathSchema,
 } from "../../../persistence/extra-context.js";
+import { promptOverlayEntrySchema } from "../../../persistence/prompt-overlays.js";
 import { repoRelativeRecordPathSchema } from "../../../persistence/record-path-schema.js";
 import {
   type AgentStatus,
@@ -18,6 +19,8 @@ import {
 import type { TokenUsageResult } from "../../../workspace/chat/token-usage-result.js";
 import type { ChatArtifactFormat } from "../../../workspace/chat/types.js";
 import {
+  sessionOwnerPidSchema,
+  sessionResumeSchema,
   validateOperationLifecycleTimestamps,
   validateRecordLifecycleTimestamps,
 } from "../../shared/lifecycle.js";
@@ -172,12 +175,30 @@ export const watchdogMetadataSchema = z.object({
   silenceTimeoutMs: z.number(),
   /** Wall-clock cap in milliseconds that was enforced. */
   wallClockCapMs: z.number(),
+  /** Grace period in milliseconds between SIGTERM and SIGKILL. */
+  killGraceMs: z.number().optional(),
   /** Which watchdog trigger caused termination, if any. */
   trigger: z.enum(WATCHDOG_TRIGGERS).optional(),
 });
 
 export type WatchdogMetadata = z.infer<typeof watchdogMetadataSchema>;
 
+export const sandboxDenialSchema = z.object({
+  operation: z.enum(FAIL_FAST_OPERATIONS),
+  target: z.string(),
+  /** Number of times the sandbox blocked this operation and target. */
+  count: z.number().int().positive(),
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+});
+
+export type SandboxDenial = z.infer<typeof sandboxDenialSchema>;
+
+/** Shape of the per-agent `sandbox-denials.json` artifact. */
+export const sandboxDenialsArtifactSchema = z.object({
+  denials: z.array(sandboxDenialSchema),
+});
+
 export type ChatUsageProviderId = (typeof CHAT_USAGE_PROVIDER_IDS)[number];
 
 export const chatUsageProviderIdSchema = z.enum(CHAT_USAGE_PROVIDER_IDS);
@@ -236,6 +257,22 @@ export type GeminiExtractedTokenUsage = z.infer<
   typeof geminiExtractedTokenUsageSchema
 >;
 
+/**
+ * Usage for custom providers, normalized by the `usage.fields` mapping in
+ * `.voratiq/providers.yaml`. Cached reads and cache writes are separate from
+ * `input_tokens`.
+ */
+export const customExtractedTokenUsageSchema = withAtLeastOneUsageField({
+  input_tokens: billingTokenCountSchema.optional(),
+  cached_input_tokens: billingTokenCountSchema.optional(),
+  cache_write_input_tokens: billingTokenCountSchema.optional(),
+  output_tokens: billingTokenCountSchema.optional(),
+});
+
+export type CustomExtractedTokenUsage = z.infer<
+  typeof customExtractedTokenUsageSchema
+>;
+
 export const extractedTokenUsageSchemaByProvider = {
   claude: claudeExtractedTokenUsageSchema,
   codex: codexExtractedTokenUsageSchema,
@@ -246,10 +283,14 @@ export const extractedTokenUsageSchema = z.union([
   claudeExtractedTokenUsageSchema,
   codexExtractedTokenUsageSchema,
   geminiExtractedTokenUsageSchema,
+  customExtractedTokenUsageSchema,
 ]);
 
 export type ExtractedTokenUsage = z.infer<typeof extractedTokenUsageSchema>;
 
+/** Computed USD cost of an agent invocation or session. */
+export const costUsdSchema = z.number().nonnegative();
+
 export const agentArtifactStateSchema = z.object({
   diffAttempted: z.boolean().optional(),
   diffCaptured: z.boolean().optional(),
@@ -258,6 +299,7 @@ export const agentArtifactStateSchema = z.object({
   summaryCaptured: z.boolean().optional(),
   chatCaptured: z.boolean().optional(),
   chatFormat: z.enum(CHAT_ARTIFACT_FORMATS).optional(),
+  sandboxDenialsCaptured: z.boolean().optional(),
 });
 
 export type AgentArtifactState = z.infer<typeof agentArtifactStateSchema>;
@@ -275,10 +317,13 @@ export const agentInvocationRecordSchema = z
     warnings: z.array(z.string()).optional(),
     diffStatistics: z.string().optional(),
     tokenUsage: extractedTokenUsageSchema.optional(),
+    costUsd: costUsdSchema.optional(),
     watchdog: watchdogMetadataSchema.optional(),
     failFastTriggered: z.boolean().optional(),
     failFastTarget: z.string().optional(),
     failFastOperation: z.enum(FAIL_FAST_OPERATIONS).optional(),
+    /** Distinct operation/target pairs recorded in `sandbox-denials.json`. */
+    sandboxDenialCount: z.number().int().positive().optional(),
   })
   .superRefine((data, ctx) => {
     validateOperationLifecycleTimestamps(
@@ -322,6 +367,7 @@ export const applyStatusSchema = z.object({
   appliedAt: z.string(),
   ignoredBaseMismatch: z.boolean(),
   appliedCommitSha: z.string().min(1).optional(),
+  conflictedPaths: z.array(z.string().min(1)).optional(),
   detail: z.string().max(256).nullable().optional(),
 });
 
@@ -348,6 +394,22 @@ export type AutoApplyStatus = (typeof AUTO_APPLY_STATUS_VALUES)[number];
 
 export const autoApplyStatusSchema = z.enum(AUTO_APPLY_STATUS_VALUES);
 
+export const autoRoundSchema = z.object({
+  round: z.number().int().positive(),
+  runId: z.string().min(1),
+  verificationId: z.string().min(1).optional(),
+  selection: z.enum(["resolvable", "unresolved"]).optional(),
+  /** Candidate of the previous round this round started from. */
+  repairOf: z
+    .object({
+      runId: z.string().min(1),
+      agentId: agentIdSchema,
+    })
+    .optional(),
+});
+
+export type AutoRound = z.infer<typeof autoRoundSchema>;
+
 export const autoOutcomeSchema = z.object({
   status: autoTerminalStatusSchema,
   completedAt: z.string(),
@@ -357,23 +419,57 @@ export const autoOutcomeSchema = z.object({
     agentId: agentIdSchema.optional(),
     detail: z.string().max(256).nullable().optional(),
   }),
+  /** Run and verify sessions of each `--max-rounds` round, oldest first. */
+  rounds: z.array(autoRoundSchema).optional(),
 });
 
 export type RunAutoOutcome = z.infer<typeof autoOutcomeSchema>;
 
+export const runRepairSourceSchema = z.object({
+  /** Auto round this run belongs to; the first repair round is 2. */
+  round: z.number().int().min(2),
+  runId: z.string().min(1),
+  agentId: agentIdSchema,
+  /** Candidate commit the agent worktrees start from. */
+  commitSha: z.string().min(1),
+  verificationId: z.string().min(1).optional(),
+});
+
+export type RunRepairSource = z.infer<typeof runRepairSourceSchema>;
+
+/**
+ * Set when `baseRevisionSha` is a snapshot commit of uncommitted tracked
+ * changes made by `run --include-worktree-changes`.
+ */
+export const runWorktreeSnapshotSchema = z.object({
+  /** `HEAD` the snapshot commit was created on top of. */
+  headRevisionSha: z.string().min(1),
+});
+
+export type RunWorktreeSnapshot = z.infer<typeof runWorktreeSnapshotSchema>;
+
 const runRecordBaseSchema = z.object({
   runId: z.string(),
   baseRevisionSha: z.string(),
+  worktreeSnapshot: runWorktreeSnapshotSchema.optional(),
   rootPath: repoRelativeRecordPathSchema,
   spec: runSpecDescriptorSchema,
   extraContext: z.array(persistedExtraContextPathSchema).optional(),
   extraContextMetadata: z.array(extraContextMetadataEntrySchema).optional(),
+  /** Files from `.voratiq/prompts/` layered onto the agent prompts. */
+  promptOverlays: z.array(promptOverlayEntrySchema).optional(),
   createdAt: z.string(),
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
   agents: z.array(agentInvocationRecordSchema),
+  costUsd: costUsdSchema.optional(),
   applyStatus: applyStatusSchema.optional(),
   auto: autoOutcomeSchema.optional(),
+  /** Earlier run and candidate an `auto --max-rounds` repair round builds on. */
+  repairOf: runRepairSourceSchema.optional(),
+  /** Passes of `voratiq run --resume`, oldest first. */
+  resumes: z.array(sessionResumeSchema).optional(),
+  ownerPid: sessionOwnerPidSchema.optional(),
 });
 
 export const runRecordSchema = runRecordBaseSchema
@@ -413,6 +509,7 @@ export type AgentReport = {
     diffPath?: string;
     summaryPath?: string;
     chatPath?: string;
+    sandboxDenialsPath?: string;
   };
   startedAt: string;
   completedAt: string;
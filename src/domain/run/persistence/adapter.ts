@@ -48,6 +48,8 @@ export interface ReadRunRecordsOptions {
   root: string;
   runsFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: RunRecordPredicate;
   onWarning?: (warning: RunRecordWarning) => void;
 }
@@ -139,6 +141,7 @@ const runPersistence = createSessionStore<
     status: record.status,
   }),
   getIndexEntryId: (entry) => entry.runId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) => shouldForceFlush(record.status),
   getRecordId: (record) => record.runId,
   getRecordStatus: (record) => record.status,
@@ -159,13 +162,23 @@ const runPersistence = createSessionStore<
 const readRunRecordsInternal: ReadRunRecordsFn = async (
   options: ReadRunRecordsOptions,
 ): Promise<RunRecord[]> => {
-  const { root, runsFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    runsFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildRunPaths(root, runsFilePath);
 
   try {
     return await runPersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -237,6 +250,21 @@ export async function rewriteRunRecord(
   }
 }
 
+export async function removeRunRecords(options: {
+  root: string;
+  runsFilePath: string;
+  runIds: readonly string[];
+}): Promise<void> {
+  const { root, runsFilePath, runIds } = options;
+  const paths = buildRunPaths(root, runsFilePath);
+
+  try {
+    await runPersistence.removeRecords({ paths, sessionIds: runIds });
+  } catch (error) {
+    throw mapSessionStoreError(error, runStoreErrorMapper);
+  }
+}
+
 export async function getRunRecordSnapshot(options: {
   runsFilePath: string;
   runId: string;
@@ -436,6 +464,8 @@ function areSameApplyStatus(a: RunApplyStatus, b: RunApplyStatus): boolean {
     a.appliedAt === b.appliedAt &&
     a.ignoredBaseMismatch === b.ignoredBaseMismatch &&
     a.appliedCommitSha === b.appliedCommitSha &&
+    (a.conflictedPaths ?? []).join("\n") ===
+      (b.conflictedPaths ?? []).join("\n") &&
     (a.detail ?? undefined) === (b.detail ?? undefined)
   );
 }
@@ -481,7 +511,8 @@ function areSameAutoOutcome(a: RunAutoOutcome, b: RunAutoOutcome): boolean {
     (a.detail ?? undefined) === (b.detail ?? undefined) &&
     a.apply.status === b.apply.status &&
     (a.apply.agentId ?? undefined) === (b.apply.agentId ?? undefined) &&
-    (a.apply.detail ?? undefined) === (b.apply.detail ?? undefined)
+    (a.apply.detail ?? undefined) === (b.apply.detail ?? undefined) &&
+    JSON.stringify(a.rounds) === JSON.stringify(b.rounds)
   );
 }
 
@@ -313,3 +313,14 @@ export function buildOperationLifecycleCompleteFields(options: {
     completedAt,
   };
 }
+
+/** One `--resume` pass that re-queued the unfinished agents of a session. */
+export const sessionResumeSchema = z.object({
+  resumedAt: z.string(),
+  agentIds: z.array(z.string().min(1)),
+});
+
+export type SessionResume = z.infer<typeof sessionResumeSchema>;
+
+/** PID of the voratiq process executing a session; `--resume` waits for it to exit. */
+export const sessionOwnerPidSchema = z.number().int().positive();
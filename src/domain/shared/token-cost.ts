@@ -0,0 +1,180 @@
+import type {
+  ModelPricing,
+  PricingTable,
+} from "../../configs/pricing/types.js";
+import type { TokenUsageResult } from "../../workspace/chat/token-usage-result.js";
+import {
+  type ClaudeExtractedTokenUsage,
+  type CodexExtractedTokenUsage,
+  type CustomExtractedTokenUsage,
+  customExtractedTokenUsageSchema,
+  type ExtractedTokenUsage,
+  type GeminiExtractedTokenUsage,
+} from "../run/model/types.js";
+
+const TOKENS_PER_PRICING_UNIT = 1_000_000;
+const COST_DECIMAL_PLACES = 6;
+
+interface BillableTokenCounts {
+  input: number;
+  cachedInput: number;
+  cacheWrite: number;
+  output: number;
+}
+
+/**
+ * Convert provider-native token usage into USD using the pricing table.
+ * Returns `undefined` when the provider or model has no configured price.
+ */
+export function computeTokenUsageCostUsd(options: {
+  provider: string;
+  modelId: string;
+  tokenUsage: ExtractedTokenUsage;
+  pricing: PricingTable;
+}): number | undefined {
+  const { provider, modelId, tokenUsage, pricing } = options;
+  const modelPricing = pricing[provider]?.[modelId];
+  if (!modelPricing) {
+    return undefined;
+  }
+
+  const counts = toBillableTokenCounts(provider, tokenUsage);
+  if (!counts) {
+    return undefined;
+  }
+
+  return roundCostUsd(priceTokenCounts(counts, modelPricing));
+}
+
+export function resolveTokenUsageCostUsd(
+  result: TokenUsageResult,
+  pricing: PricingTable,
+): number | undefined {
+  if (result.status !== "available") {
+    return undefined;
+  }
+  return computeTokenUsageCostUsd({
+    provider: result.provider,
+    modelId: result.modelId,
+    tokenUsage: result.tokenUsage,
+    pricing,
+  });
+}
+
+/**
+ * Sum recorded costs, ignoring entries without one. Returns `undefined` when
+ * nothing was priced so callers can distinguish "free" from "unknown".
+ */
+export function sumCostUsd(
+  values: readonly (number | undefined)[],
+): number | undefined {
+  const priced = values.filter(
+    (value): value is number => typeof value === "number",
+  );
+  if (priced.length === 0) {
+    return undefined;
+  }
+  return roundCostUsd(priced.reduce((total, value) => total + value, 0));
+}
+
+/** Session-level `costUsd` field derived from its agents' recorded costs. */
+export function buildSessionCostFields(
+  values: readonly (number | undefined)[],
+): { costUsd?: number } {
+  const costUsd = sumCostUsd(values);
+  return costUsd === undefined ? {} : { costUsd };
+}
+
+export function formatCostUsd(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd > 0 && costUsd < 0.01 ? 4 : 2)}`;
+}
+
+function roundCostUsd(value: number): number {
+  const factor = 10 ** COST_DECIMAL_PLACES;
+  return Math.round(value * factor) / factor;
+}
+
+function priceTokenCounts(
+  counts: BillableTokenCounts,
+  pricing: ModelPricing,
+): number {
+  const cachedInputRate = pricing.cachedInput ?? pricing.input;
+  const cacheWriteRate = pricing.cacheWrite ?? pricing.input;
+  return (
+    (counts.input * pricing.input +
+      counts.cachedInput * cachedInputRate +
+      counts.cacheWrite * cacheWriteRate +
+      counts.output * pricing.output) /
+    TOKENS_PER_PRICING_UNIT
+  );
+}
+
+function toBillableTokenCounts(
+  provider: string,
+  tokenUsage: ExtractedTokenUsage,
+): BillableTokenCounts | undefined {
+  switch (provider) {
+    case "claude":
+      return fromClaudeUsage(tokenUsage as ClaudeExtractedTokenUsage);
+    case "codex":
+      return fromCodexUsage(tokenUsage as CodexExtractedTokenUsage);
+    case "gemini":
+      return fromGeminiUsage(tokenUsage as GeminiExtractedTokenUsage);
+    default: {
+      const parsed = customExtractedTokenUsageSchema.safeParse(tokenUsage);
+      return parsed.success ? fromCustomUsage(parsed.data) : undefined;
+    }
+  }
+}
+
+function fromClaudeUsage(
+  usage: ClaudeExtractedTokenUsage,
+): BillableTokenCounts {
+  const cacheWrite =
+    usage.cache_creation_input_tokens ??
+    (usage.cache_creation_ephemeral_5m_input_tokens ?? 0) +
+      (usage.cache_creation_ephemeral_1h_input_tokens ?? 0);
+  return {
+    input: usage.input_tokens ?? 0,
+    cachedInput: usage.cache_read_input_tokens ?? 0,
+    cacheWrite,
+    output: usage.output_tokens ?? 0,
+  };
+}
+
+// Codex reports cached tokens as a subset of `input_tokens`, and reasoning
+// tokens as a subset of `output_tokens`.
+function fromCodexUsage(usage: CodexExtractedTokenUsage): BillableTokenCounts {
+  const cachedInput = usage.cached_input_tokens ?? 0;
+  return {
+    input: Math.max(0, (usage.input_tokens ?? 0) - cachedInput),
+    cachedInput,
+    cacheWrite: 0,
+    output: usage.output_tokens ?? 0,
+  };
+}
+
+// Gemini reports cached tokens as a subset of `input` and bills thinking
+// tokens at the output rate.
+function fromGeminiUsage(
+  usage: GeminiExtractedTokenUsage,
+): BillableTokenCounts {
+  const cachedInput = usage.cached ?? 0;
+  return {
+    input: Math.max(0, (usage.input ?? 0) - cachedInput),
+    cachedInput,
+    cacheWrite: 0,
+    output: (usage.output ?? 0) + (usage.thoughts ?? 0),
+  };
+}
+
+function fromCustomUsage(
+  usage: CustomExtractedTokenUsage,
+): BillableTokenCounts {
+  return {
+    input: usage.input_tokens ?? 0,
+    cachedInput: usage.cached_input_tokens ?? 0,
+    cacheWrite: usage.cache_write_input_tokens ?? 0,
+    output: usage.output_tokens ?? 0,
+  };
+}
@@ -44,6 +44,12 @@ export function resolveTokenUsage(
   return result.status === "available" ? result.tokenUsage : undefined;
 }
 
+export function resolveTokenUsageCost(
+  result: TokenUsageResult,
+): number | undefined {
+  return result.status === "available" ? result.costUsd : undefined;
+}
+
 export function reconstructTokenUsageResult(
   options: TokenUsageResultMetadata & {
     tokenUsage?: ExtractedTokenUsage;
@@ -13,6 +13,10 @@ import {
   type ResolvedExtraContextFile,
   stageExtraContextFiles,
 } from "../../../competition/shared/extra-context.js";
+import {
+  applyPromptOverlays,
+  type ResolvedPromptOverlay,
+} from "../../../competition/shared/prompt-overlays.js";
 import { composeStageSandboxPolicy } from "../../../competition/shared/sandbox-policy.js";
 import {
   createTeardownController,
@@ -28,7 +32,12 @@ import {
   resolveTokenUsage,
 } from "../../../domain/shared/token-usage.js";
 import { buildSpecPrompt } from "../../../domain/spec/competition/prompt.js";
-import { parseSpecData } from "../../../domain/spec/model/output.js";
+import {
+  parseSpecData,
+  parseTemplatedSpecData,
+  SPEC_DATA_FILENAME,
+} from "../../../domain/spec/model/output.js";
+import type { SpecTemplate } from "../../../domain/spec/model/template.js";
 import { toErrorMessage } from "../../../utils/errors.js";
 import {
   normalizePathForDisplay,
@@ -45,7 +54,6 @@ import {
 import { promoteWorkspaceFile } from "../../../workspace/promotion.js";
 
 const SPEC_MARKDOWN_FILENAME = "spec.md";
-const SPEC_DATA_FILENAME = "spec.json";
 
 export type SpecCompetitionCandidate = AgentDefinition;
 
@@ -73,6 +81,8 @@ export interface CreateSpecCompetitionAdapterInput {
   readonly specTitle?: string;
   readonly environment: EnvironmentConfig;
   readonly extraContextFiles?: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
+  readonly template?: SpecTemplate;
   readonly teardown?: TeardownController;
 }
 
@@ -90,6 +100,8 @@ export function createSpecCompetitionAdapter(
     specTitle,
     environment,
     extraContextFiles = [],
+    promptOverlays = [],
+    template,
     teardown: providedTeardown,
   } = input;
 
@@ -137,14 +149,19 @@ export function createSpecCompetitionAdapter(
             files: extraContextFiles,
           });
 
-          const prompt = buildSpecPrompt({
-            description,
-            title: specTitle,
-            markdownOutputPath: SPEC_MARKDOWN_FILENAME,
-            dataOutputPath: SPEC_DATA_FILENAME,
-            repoRootPath: root,
-            workspacePath: workspacePaths.workspacePath,
-            extraContextFiles,
+          const prompt = applyPromptOverlays({
+            prompt: buildSpecPrompt({
+              description,
+              title: specTitle,
+              markdownOutputPath: SPEC_MARKDOWN_FILENAME,
+              dataOutputPath: SPEC_DATA_FILENAME,
+              repoRootPath: root,
+              workspacePath: workspacePaths.workspacePath,
+              extraContextFiles,
+              template,
+            }),
+            overlays: promptOverlays,
+            agentId: candidate.id,
           });
 
           ready.push({
@@ -252,7 +269,12 @@ export function createSpecCompetitionAdapter(
           SPEC_DATA_FILENAME,
         );
         const markdownContent = await readFile(stagedMarkdownPath, "utf8");
-        parseSpecData(await readFile(stagedDataPath, "utf8"));
+        const rawSpecData = await readFile(stagedDataPath, "utf8");
+        if (template) {
+          parseTemplatedSpecData(rawSpecData, template);
+        } else {
+          parseSpecData(rawSpecData);
+        }
 
         const markdownPromoteResult = await promoteWorkspaceFile({
           workspacePath: workspacePaths.workspacePath,
@@ -7,6 +7,10 @@ import {
   appendOutputRequirements,
   buildWorkspaceArtifactRequirements,
 } from "../../../competition/shared/prompt-helpers.js";
+import type { SpecTemplate } from "../model/template.js";
+
+const RUNTIME_DETAILS_GUIDANCE =
+  "- Do not embed runtime or execution environment details (sandbox constraints, headless mode, file-access rules) in the spec content. Those are agent instructions, not spec content.";
 
 export interface BuildSpecPromptOptions {
   description: string;
@@ -16,6 +20,8 @@ export interface BuildSpecPromptOptions {
   repoRootPath: string;
   workspacePath: string;
   extraContextFiles?: readonly ResolvedExtraContextFile[];
+  /** Replaces the built-in spec structure with a repository template. */
+  template?: SpecTemplate;
 }
 
 export function buildSpecPrompt(options: BuildSpecPromptOptions): string {
@@ -27,6 +33,7 @@ export function buildSpecPrompt(options: BuildSpecPromptOptions): string {
     repoRootPath,
     workspacePath,
     extraContextFiles = [],
+    template,
   } = options;
 
   const lines: string[] = [
@@ -39,29 +46,13 @@ export function buildSpecPrompt(options: BuildSpecPromptOptions): string {
     lines.push("", `Title: ${title}`);
   }
 
-  lines.push(
-    "",
-    "User description:",
-    "```",
-    description.trim(),
-    "```",
-    "",
-    "Required spec structure:",
-    "- **H1 title**",
-    "- **## Objective** — concise prose stating the goal.",
-    "- **## Scope** — flat bullet list.",
-    "- **## Acceptance Criteria** — flat bullet list. Each item independently verifiable, focused on observable outcomes.",
-    "- **## Constraints** — flat bullet list.",
-    "- **## Exit Signal** — concise prose.",
-    "- **## Out of Scope** (optional) — flat bullet list when useful to prevent scope creep.",
-    "",
-    "Authoring guidance:",
-    "- State the goal explicitly and unambiguously.",
-    "- Reference existing code for context, not to dictate where changes go.",
-    "- Be direct, concrete, and executable.",
-    "- Include needed external context inline—don't reference URLs that agents cannot access.",
-    "- Do not embed runtime or execution environment details (sandbox constraints, headless mode, file-access rules) in the spec content. Those are agent instructions, not spec content.",
-  );
+  lines.push("", "User description:", "```", description.trim(), "```");
+
+  if (template) {
+    appendTemplateStructure(lines, template);
+  } else {
+    appendDefaultStructure(lines);
+  }
 
   appendConstraints(lines, {
     stageId: "spec",
@@ -80,20 +71,29 @@ export function buildSpecPrompt(options: BuildSpecPromptOptions): string {
         {
           instruction: "Save the same spec as JSON",
           path: dataOutputPath,
-          schema: {
-            leadIn: "with this shape",
-            content: [
-              "`{`",
-              "`  title: string,`",
-              "`  objective: string,`",
-              "`  scope: string[],`",
-              "`  acceptanceCriteria: string[],`",
-              "`  constraints: string[],`",
-              "`  exitSignal: string,`",
-              "`  outOfScope?: string[],`",
-              "`}`",
-            ],
-          },
+          schema: template
+            ? {
+                leadIn: "matching this JSON schema",
+                content: [
+                  "```json",
+                  ...template.schemaSource.trimEnd().split("\n"),
+                  "```",
+                ],
+              }
+            : {
+                leadIn: "with this shape",
+                content: [
+                  "`{`",
+                  "`  title: string,`",
+                  "`  objective: string,`",
+                  "`  scope: string[],`",
+                  "`  acceptanceCriteria: string[],`",
+                  "`  constraints: string[],`",
+                  "`  exitSignal: string,`",
+                  "`  outOfScope?: string[],`",
+                  "`}`",
+                ],
+              },
         },
       ],
       ["- Both files must describe the same spec."],
@@ -102,3 +102,45 @@ export function buildSpecPrompt(options: BuildSpecPromptOptions): string {
 
   return `${lines.join("\n")}\n`;
 }
+
+function appendDefaultStructure(lines: string[]): void {
+  lines.push(
+    "",
+    "Required spec structure:",
+    "- **H1 title**",
+    "- **## Objective** — concise prose stating the goal.",
+    "- **## Scope** — flat bullet list.",
+    "- **## Acceptance Criteria** — flat bullet list. Each item independently verifiable, focused on observable outcomes.",
+    "- **## Constraints** — flat bullet list.",
+    "- **## Exit Signal** — concise prose.",
+    "- **## Out of Scope** (optional) — flat bullet list when useful to prevent scope creep.",
+    "",
+    "Authoring guidance:",
+    "- State the goal explicitly and unambiguously.",
+    "- Reference existing code for context, not to dictate where changes go.",
+    "- Be direct, concrete, and executable.",
+    "- Include needed external context inline—don't reference URLs that agents cannot access.",
+    RUNTIME_DETAILS_GUIDANCE,
+  );
+}
+
+function appendTemplateStructure(
+  lines: string[],
+  template: SpecTemplate,
+): void {
+  lines.push(
+    "",
+    `Required spec structure (template \`${template.name}\`):`,
+    "Follow this Markdown skeleton, keeping its headings and order:",
+    "```markdown",
+    ...template.skeleton.trimEnd().split("\n"),
+    "```",
+    "",
+    "Authoring guidance:",
+    ...template.guidance
+      .trim()
+      .split("\n")
+      .filter((line) => line.trim().length > 0),
+    RUNTIME_DETAILS_GUIDANCE,
+  );
+}
@@ -0,0 +1,27 @@
+import { HintedError } from "../../../utils/errors.js";
+
+export class SpecTemplateNotFoundError extends HintedError {
+  constructor(public readonly templateName: string) {
+    super(`Spec template \`${templateName}\` not found.`, {
+      hintLines: [
+        `Add \`template.md\`, \`guidance.md\`, and \`schema.json\` under \`.voratiq/spec/templates/${templateName}/\`.`,
+      ],
+    });
+    this.name = "SpecTemplateNotFoundError";
+  }
+}
+
+export class SpecTemplateInvalidError extends HintedError {
+  constructor(
+    public readonly templateName: string,
+    detail: string,
+  ) {
+    super(`Spec template \`${templateName}\` is invalid.`, {
+      detailLines: [detail],
+      hintLines: [
+        `Fix the files under \`.voratiq/spec/templates/${templateName}/\`.`,
+      ],
+    });
+    this.name = "SpecTemplateInvalidError";
+  }
+}
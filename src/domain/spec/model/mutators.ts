@@ -3,6 +3,7 @@ import {
   buildOperationLifecycleCompleteFields,
   buildRecordLifecycleCompleteFields,
 } from "../../shared/lifecycle.js";
+import { buildSessionCostFields } from "../../shared/token-cost.js";
 import { rewriteSpecRecord } from "../persistence/adapter.js";
 import type { SpecAgentEntry, SpecRecord, SpecRecordStatus } from "./types.js";
 
@@ -54,6 +55,7 @@ export function createSpecRecordMutators(
         return {
           ...record,
           agents,
+          ...buildSessionCostFields(agents.map((agent) => agent.costUsd)),
         };
       },
     });
@@ -80,6 +82,7 @@ export function createSpecRecordMutators(
           dataPath: existing?.dataPath,
           contentHash: existing?.contentHash,
           tokenUsage: existing?.tokenUsage,
+          costUsd: existing?.costUsd,
           error: null,
         };
       }),
@@ -106,7 +109,14 @@ export function createSpecRecordMutators(
             ...existing,
             status,
             ...buildRecordLifecycleCompleteFields({ existing }),
-            ...(agents ? { agents: [...agents] } : {}),
+            ...(agents
+              ? {
+                  agents: [...agents],
+                  ...buildSessionCostFields(
+                    agents.map((agent) => agent.costUsd),
+                  ),
+                }
+              : {}),
             ...(error !== undefined ? { error } : {}),
           };
         },
@@ -147,6 +157,7 @@ function mergeSpecAgentEntries(
       dataPath: incoming.dataPath ?? existing.dataPath,
       contentHash: incoming.contentHash ?? existing.contentHash,
       tokenUsage: incoming.tokenUsage ?? existing.tokenUsage,
+      costUsd: incoming.costUsd ?? existing.costUsd,
       error:
         incoming.error !== undefined
           ? incoming.error
@@ -175,6 +186,7 @@ function mergeSpecAgentEntries(
     dataPath: incoming.dataPath ?? existing.dataPath,
     contentHash: incoming.contentHash ?? existing.contentHash,
     tokenUsage: incoming.tokenUsage ?? existing.tokenUsage,
+    costUsd: incoming.costUsd ?? existing.costUsd,
     error:
       incoming.error !== undefined ? incoming.error : (existing.error ?? null),
   };
@@ -2,6 +2,11 @@ import { readFile } from "node:fs/promises";
 
 import { z } from "zod";
 
+import type { SpecTemplate } from "./template.js";
+
+/** Structured spec data written next to each draft's `spec.md`. */
+export const SPEC_DATA_FILENAME = "spec.json";
+
 export const specDataSchema = z.object({
   title: z.string().trim().min(1),
   objective: z.string().trim().min(1),
@@ -15,6 +20,18 @@ export const specDataSchema = z.object({
 export type SpecData = z.infer<typeof specDataSchema>;
 
 export function parseSpecData(rawSpecData: string): SpecData {
+  return parseWithSchema(rawSpecData, specDataSchema);
+}
+
+/** Validates `spec.json` written for a spec template against its schema. */
+export function parseTemplatedSpecData(
+  rawSpecData: string,
+  template: SpecTemplate,
+): unknown {
+  return parseWithSchema(rawSpecData, template.dataSchema);
+}
+
+function parseWithSchema<T>(rawSpecData: string, schema: z.ZodType<T>): T {
   let parsed: unknown;
   try {
     parsed = JSON.parse(rawSpecData) as unknown;
@@ -24,7 +41,7 @@ export function parseSpecData(rawSpecData: string): SpecData {
     throw new Error(`Invalid JSON: ${reason}`);
   }
 
-  const validation = specDataSchema.safeParse(parsed);
+  const validation = schema.safeParse(parsed);
   if (!validation.success) {
     const detail = validation.error.issues
       .map((issue) => {
@@ -43,3 +60,24 @@ export async function readSpecData(specDataPath: string): Promise<SpecData> {
   const rawSpecData = await readFile(specDataPath, "utf8");
   return parseSpecData(rawSpecData);
 }
+
+/**
+ * Reads `acceptanceCriteria` from a spec's structured data. Templated specs
+ * may omit the field or shape it differently, so anything other than a list of
+ * non-empty strings yields `undefined` instead of an error.
+ */
+export async function readSpecAcceptanceCriteria(
+  specDataPath: string,
+): Promise<string[] | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(specDataPath, "utf8")) as unknown;
+  } catch {
+    return undefined;
+  }
+
+  const validation = specDataSchema.shape.acceptanceCriteria.safeParse(
+    (parsed as { acceptanceCriteria?: unknown } | null)?.acceptanceCriteria,
+  );
+  return validation.success ? validation.data : undefined;
+}
@@ -0,0 +1,126 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import { z } from "zod";
+
+import { isFileSystemError } from "../../../utils/fs.js";
+import {
+  VORATIQ_DIR,
+  VORATIQ_SPEC_TEMPLATES_DIR,
+} from "../../../workspace/constants.js";
+import {
+  SpecTemplateInvalidError,
+  SpecTemplateNotFoundError,
+} from "./errors.js";
+
+export const SPEC_TEMPLATE_SKELETON_FILENAME = "template.md";
+export const SPEC_TEMPLATE_GUIDANCE_FILENAME = "guidance.md";
+export const SPEC_TEMPLATE_SCHEMA_FILENAME = "schema.json";
+
+export const specTemplateNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9-]*$/u,
+    "template name must match /^[a-z0-9][a-z0-9-]*$/",
+  );
+
+/**
+ * A repository-defined spec structure from `.voratiq/spec/templates/<name>/`:
+ * the Markdown skeleton drafts follow, authoring guidance, and the JSON schema
+ * `spec.json` must satisfy.
+ */
+export interface SpecTemplate {
+  name: string;
+  skeleton: string;
+  guidance: string;
+  /** Raw `schema.json` text, kept verbatim for prompts and verifiers. */
+  schemaSource: string;
+  dataSchema: z.ZodType;
+}
+
+export function resolveSpecTemplateDirectory(
+  root: string,
+  name: string,
+): string {
+  return resolve(root, VORATIQ_DIR, VORATIQ_SPEC_TEMPLATES_DIR, name);
+}
+
+export async function loadSpecTemplate(options: {
+  root: string;
+  name: string;
+}): Promise<SpecTemplate> {
+  const { root, name } = options;
+  if (!specTemplateNameSchema.safeParse(name).success) {
+    throw new SpecTemplateNotFoundError(name);
+  }
+
+  const directory = resolveSpecTemplateDirectory(root, name);
+  let files: [string, string, string];
+  try {
+    files = await Promise.all([
+      readFile(resolve(directory, SPEC_TEMPLATE_SKELETON_FILENAME), "utf8"),
+      readFile(resolve(directory, SPEC_TEMPLATE_GUIDANCE_FILENAME), "utf8"),
+      readFile(resolve(directory, SPEC_TEMPLATE_SCHEMA_FILENAME), "utf8"),
+    ]);
+  } catch (error) {
+    if (isFileSystemError(error) && error.code === "ENOENT") {
+      throw new SpecTemplateNotFoundError(name);
+    }
+    throw error;
+  }
+
+  const [skeleton, guidance, schemaSource] = files;
+  if (skeleton.trim().length === 0) {
+    throw new SpecTemplateInvalidError(
+      name,
+      `\`${SPEC_TEMPLATE_SKELETON_FILENAME}\` is empty.`,
+    );
+  }
+
+  return {
+    name,
+    skeleton,
+    guidance,
+    schemaSource,
+    dataSchema: compileSpecTemplateSchema(name, schemaSource),
+  };
+}
+
+function compileSpecTemplateSchema(
+  name: string,
+  schemaSource: string,
+): z.ZodType {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(schemaSource) as unknown;
+  } catch (error) {
+    const reason =
+      error instanceof Error ? error.message : "invalid JSON syntax";
+    throw new SpecTemplateInvalidError(
+      name,
+      `\`${SPEC_TEMPLATE_SCHEMA_FILENAME}\` is not valid JSON: ${reason}`,
+    );
+  }
+
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    (parsed as { type?: unknown }).type !== "object"
+  ) {
+    throw new SpecTemplateInvalidError(
+      name,
+      `\`${SPEC_TEMPLATE_SCHEMA_FILENAME}\` must describe an object (\`"type": "object"\`).`,
+    );
+  }
+
+  try {
+    return z.fromJSONSchema(parsed as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SpecTemplateInvalidError(
+      name,
+      `\`${SPEC_TEMPLATE_SCHEMA_FILENAME}\` is not a supported JSON schema: ${reason}`,
+    );
+  }
+}
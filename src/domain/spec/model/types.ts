@@ -1,11 +1,15 @@
 import { z } from "zod";
 
 import { agentIdSchema } from "../../../configs/agents/types.js";
-import { extractedTokenUsageSchema } from "../../../domain/run/model/types.js";
+import {
+  costUsdSchema,
+  extractedTokenUsageSchema,
+} from "../../../domain/run/model/types.js";
 import {
   extraContextMetadataEntrySchema,
   persistedExtraContextPathSchema,
 } from "../../../persistence/extra-context.js";
+import { promptOverlayEntrySchema } from "../../../persistence/prompt-overlays.js";
 import { repoRelativeRecordPathSchema } from "../../../persistence/record-path-schema.js";
 import {
   type SpecAgentStatus,
@@ -47,6 +51,7 @@ export const specAgentEntrySchema = z
     dataPath: repoRelativeRecordPathSchema.optional(),
     contentHash: specContentHashSchema.optional(),
     tokenUsage: extractedTokenUsageSchema.optional(),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((data, ctx) => {
@@ -92,9 +97,14 @@ export const specRecordSchema = z
     status: specRecordStatusSchema,
     baseRevisionSha: z.string().optional(),
     description: z.string(),
+    /** Spec template under `.voratiq/spec/templates/` the drafts follow. */
+    template: z.string().optional(),
     extraContext: z.array(persistedExtraContextPathSchema).optional(),
     extraContextMetadata: z.array(extraContextMetadataEntrySchema).optional(),
+    /** Files from `.voratiq/prompts/` layered onto the agent prompts. */
+    promptOverlays: z.array(promptOverlayEntrySchema).optional(),
     agents: z.array(specAgentEntrySchema),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((record, ctx) => {
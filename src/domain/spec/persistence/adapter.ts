@@ -47,6 +47,8 @@ export interface ReadSpecRecordsOptions {
   root: string;
   specsFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: SpecRecordPredicate;
   onWarning?: (warning: SpecRecordWarning) => void;
 }
@@ -94,6 +96,7 @@ const specPersistence = createSessionStore<
     status: record.status,
   }),
   getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) => TERMINAL_SPEC_STATUSES.includes(record.status),
   getRecordId: (record) => record.sessionId,
   getRecordStatus: (record) => record.status,
@@ -114,13 +117,23 @@ const specPersistence = createSessionStore<
 const readSpecRecordsInternal = async (
   options: ReadSpecRecordsOptions,
 ): Promise<SpecRecord[]> => {
-  const { root, specsFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    specsFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildSpecPaths(root, specsFilePath);
 
   try {
     return await specPersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -7,10 +7,18 @@ import type {
   CompetitionCommandAdapter,
   CompetitionPreparationResult,
 } from "../../../competition/command-adapter.js";
+import {
+  applyCostBudget,
+  type CostBudget,
+} from "../../../competition/shared/cost-budget.js";
 import {
   type ResolvedExtraContextFile,
   stageExtraContextFiles,
 } from "../../../competition/shared/extra-context.js";
+import {
+  applyPromptOverlays,
+  type ResolvedPromptOverlay,
+} from "../../../competition/shared/prompt-overlays.js";
 import { composeStageSandboxPolicy } from "../../../competition/shared/sandbox-policy.js";
 import {
   registerScratchWorkspaceTeardownPaths,
@@ -21,6 +29,7 @@ import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import {
   buildUnavailableTokenUsageResult,
   resolveTokenUsage,
+  resolveTokenUsageCost,
 } from "../../../domain/shared/token-usage.js";
 import { emitStageProgressEvent } from "../../../render/transcripts/stage-progress.js";
 import type { VerifyProgressRenderer } from "../../../render/transcripts/verify.js";
@@ -42,9 +51,11 @@ import {
 import type { ExtractedTokenUsage } from "../../run/model/types.js";
 import type { VerificationRecordMutators } from "../model/mutators.js";
 import {
+  type RubricResultPayload,
   type VerificationResultArtifact,
   verificationResultArtifactSchema,
 } from "../model/types.js";
+import { readRubricResultCriteria } from "../rubric-result.js";
 import { writeVerificationArtifact } from "./artifacts.js";
 import {
   assertNoVerificationIdentityLeak,
@@ -102,10 +113,12 @@ export interface CreateVerifyCompetitionAdapterInput {
   readonly aliasMap?: Record<string, string>;
   readonly environment: EnvironmentConfig;
   readonly extraContextFiles: readonly ResolvedExtraContextFile[];
+  readonly promptOverlays?: readonly ResolvedPromptOverlay[];
   readonly sharedInputs: SharedVerificationInputs;
   readonly teardown: TeardownController;
   readonly mutators: VerificationRecordMutators;
   readonly renderer?: VerifyProgressRenderer;
+  readonly costBudget?: CostBudget;
 }
 
 export function createVerifyCompetitionAdapter(
@@ -122,10 +135,12 @@ export function createVerifyCompetitionAdapter(
     aliasMap,
     environment,
     extraContextFiles,
+    promptOverlays = [],
     sharedInputs,
     teardown,
     mutators,
     renderer,
+    costBudget,
   } = input;
 
   const startedAtByExecutionKey = new Map<string, string>();
@@ -137,7 +152,11 @@ export function createVerifyCompetitionAdapter(
     return `${candidate.template.template}:${candidate.agent.id}`;
   }
 
-  return {
+  const adapter: CompetitionCommandAdapter<
+    VerifyCompetitionCandidate,
+    PreparedVerifyCompetitionCandidate,
+    VerifyCompetitionExecution
+  > = {
     prepareCandidates: (
       candidates,
     ): CompetitionPreparationResult<
@@ -235,11 +254,15 @@ export function createVerifyCompetitionAdapter(
         workspacePaths,
         sharedInputs,
       });
-      const prompt = buildRubricPrompt({
-        template: prepared.candidate.template,
-        target: resolvedTarget.target,
-        staged,
-        extraContextFiles,
+      const prompt = applyPromptOverlays({
+        prompt: buildRubricPrompt({
+          template: prepared.candidate.template,
+          target: resolvedTarget.target,
+          staged,
+          extraContextFiles,
+        }),
+        overlays: promptOverlays,
+        agentId: prepared.candidate.agent.id,
       });
 
       assertNoVerificationIdentityLeak({
@@ -405,6 +428,21 @@ export function createVerifyCompetitionAdapter(
           result: artifact.method === "rubric" ? artifact.result : undefined,
           aliasMap,
         });
+        if (
+          sharedInputs.kind === "run" &&
+          sharedInputs.criteria &&
+          artifact.method === "rubric"
+        ) {
+          assertRubricResultCoversCriteria({
+            result: artifact.result,
+            criterionIds: sharedInputs.criteria.map(
+              (criterion) => criterion.id,
+            ),
+            candidates: sharedInputs.candidates.map(
+              (candidate) => candidate.alias,
+            ),
+          });
+        }
 
         await writeVerificationArtifact({
           root,
@@ -460,6 +498,7 @@ export function createVerifyCompetitionAdapter(
         startedAt: result.startedAt,
         completedAt: result.completedAt,
         tokenUsage: result.tokenUsage,
+        costUsd: resolveTokenUsageCost(result.tokenUsageResult),
         ...(result.status === "failed" ? { error: result.error } : {}),
       });
       emitStageProgressEvent(renderer, {
@@ -522,6 +561,7 @@ export function createVerifyCompetitionAdapter(
         startedAt,
         completedAt,
         tokenUsage,
+        costUsd: resolveTokenUsageCost(tokenUsageResult),
         error: detail,
       });
       emitStageProgressEvent(renderer, {
@@ -555,6 +595,41 @@ export function createVerifyCompetitionAdapter(
     },
     sortResults: compareVerificationsByTemplateThenVerifierId,
   };
+
+  return applyCostBudget(adapter, {
+    budget: costBudget,
+    resolveCostUsd: (result) => resolveTokenUsageCost(result.tokenUsageResult),
+    buildSkippedResult: async (prepared, reason) => {
+      const timestamp = new Date().toISOString();
+      const artifactPath = getVerificationRubricResultPath({
+        sessionId: verificationId,
+        verifierId: prepared.candidate.agent.id,
+        template: prepared.candidate.template.template,
+      });
+      await writeFailureRubricArtifact({
+        root,
+        artifactPath,
+        verifierId: prepared.candidate.agent.id,
+        template: prepared.candidate.template.template,
+        generatedAt: timestamp,
+        error: reason,
+      });
+      return {
+        template: prepared.candidate.template.template,
+        verifierId: prepared.candidate.agent.id,
+        status: "failed",
+        artifactPath,
+        startedAt: timestamp,
+        completedAt: timestamp,
+        error: reason,
+        tokenUsageResult: buildUnavailableTokenUsageResult({
+          provider: prepared.candidate.agent.provider,
+          modelId: prepared.candidate.agent.model,
+          message: reason,
+        }),
+      };
+    },
+  });
 }
 
 async function writeFailureRubricArtifact(options: {
@@ -611,3 +686,27 @@ function compareVerificationsByTemplateThenVerifierId(
     left.verifierId.localeCompare(right.verifierId)
   );
 }
+
+function assertRubricResultCoversCriteria(options: {
+  result: RubricResultPayload;
+  criterionIds: readonly string[];
+  candidates: readonly string[];
+}): void {
+  const { result, criterionIds, candidates } = options;
+  const criteria = readRubricResultCriteria(result) ?? [];
+  const missing: string[] = [];
+  for (const criterionId of criterionIds) {
+    const entry = criteria.find((criterion) => criterion.id === criterionId);
+    for (const candidate of candidates) {
+      if (!entry?.verdicts.some((verdict) => verdict.candidate === candidate)) {
+        missing.push(`${criterionId}/${candidate}`);
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Invalid verifier result.json: \`criteria\` is missing verdicts for ${missing.map((key) => `\`${key}\``).join(", ")}`,
+    );
+  }
+}
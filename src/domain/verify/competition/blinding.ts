@@ -1,6 +1,7 @@
 import { generateBlindedCandidateAlias } from "../blinding/aliases.js";
 import {
   parseRubricResultPayload,
+  readRubricResultCriteria,
   readRubricResultPreferred,
   readRubricResultRanking,
   type RubricResultPayload,
@@ -65,6 +66,14 @@ export function assertRubricResultSelectorsMatchAliasMap(options: {
     }
   }
 
+  for (const criterion of readRubricResultCriteria(result) ?? []) {
+    for (const { candidate } of criterion.verdicts) {
+      if (!aliasMap[candidate]) {
+        unknownSelectors.add(candidate);
+      }
+    }
+  }
+
   if (unknownSelectors.size === 0) {
     return;
   }
@@ -1,6 +1,11 @@
-import { loadVerificationSelectionPolicyOutput } from "../../../policy/index.js";
+import type { VerificationWinnerPolicyConfig } from "../../../configs/verification/types.js";
+import {
+  deriveVerificationSelectionTally,
+  loadVerificationSelectionPolicyOutput,
+} from "../../../policy/index.js";
 import type {
   VerificationMethodResultRef,
+  VerificationRecord,
   VerificationStatus,
 } from "../model/types.js";
 import { rewriteVerificationRecord } from "../persistence/adapter.js";
@@ -52,6 +57,7 @@ export async function maybePersistSelectedSpecPath(options: {
   verificationId: string;
   resolvedTarget: ResolvedVerificationTarget;
   aliasMap?: Record<string, string>;
+  winnerPolicy?: VerificationWinnerPolicyConfig;
   methods: readonly VerificationMethodResultRef[];
 }): Promise<void> {
   const {
@@ -60,6 +66,7 @@ export async function maybePersistSelectedSpecPath(options: {
     verificationId,
     resolvedTarget,
     aliasMap,
+    winnerPolicy,
     methods,
   } = options;
   if (!("specRecord" in resolvedTarget)) {
@@ -84,6 +91,7 @@ export async function maybePersistSelectedSpecPath(options: {
           }
         : {}),
       ...(aliasMap ? { blinded: { enabled: true as const, aliasMap } } : {}),
+      ...(winnerPolicy ? { winnerPolicy } : {}),
     },
     canonicalCandidateIds: resolvedTarget.specRecord.agents.map(
       (agent) => agent.agentId,
@@ -125,3 +133,47 @@ export async function maybePersistSelectedSpecPath(options: {
     forceFlush: true,
   });
 }
+
+/**
+ * Persist the per-verifier tally computed under the record's winner policy so
+ * the vote breakdown survives later edits to `verification.yaml`.
+ */
+export async function persistVerificationSelectionTally(options: {
+  root: string;
+  verificationsFilePath: string;
+  record: VerificationRecord;
+  canonicalCandidateIds?: readonly string[];
+}): Promise<void> {
+  const { root, verificationsFilePath, record, canonicalCandidateIds } =
+    options;
+  const hasRubricMethods = record.methods.some(
+    (method) => method.method === "rubric" && method.artifactPath,
+  );
+  if (!hasRubricMethods) {
+    return;
+  }
+
+  const output = await loadVerificationSelectionPolicyOutput({
+    root,
+    record,
+    ...(canonicalCandidateIds ? { canonicalCandidateIds } : {}),
+  });
+  const tally = deriveVerificationSelectionTally(output.input);
+
+  await rewriteVerificationRecord({
+    root,
+    verificationsFilePath,
+    sessionId: record.sessionId,
+    mutate: (existing) => ({
+      ...existing,
+      selectionTally: {
+        mode: tally.mode,
+        verifiers: tally.verifiers.map(({ ranking, ...entry }) => ({
+          ...entry,
+          ...(ranking ? { ranking: [...ranking] } : {}),
+        })),
+        scores: tally.scores.map((score) => ({ ...score })),
+      },
+    }),
+  });
+}
@@ -3,7 +3,10 @@ import { dirname, join, resolve } from "node:path";
 
 import { runPreparedWithLimit } from "../../../competition/core.js";
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
-import type { ProgrammaticCheckResult } from "../../../configs/verification/methods.js";
+import type {
+  ProgrammaticCheckResult,
+  ProgrammaticCommandEntry,
+} from "../../../configs/verification/methods.js";
 import type { VerificationConfig } from "../../../configs/verification/types.js";
 import { emitStageProgressEvent } from "../../../render/transcripts/stage-progress.js";
 import type { VerifyProgressRenderer } from "../../../render/transcripts/verify.js";
@@ -20,13 +23,22 @@ import { VORATIQ_VERIFICATION_DIR } from "../../../workspace/constants.js";
 import { buildAgentWorkspacePaths } from "../../../workspace/layout.js";
 import type { RunRecord } from "../../run/model/types.js";
 import type { VerificationRecordMutators } from "../model/mutators.js";
-import type { VerificationRecord } from "../model/types.js";
+import {
+  programmaticResultArtifactSchema,
+  type VerificationRecord,
+} from "../model/types.js";
 import { executeProgrammaticChecks } from "../programmatic/runner.js";
+import type { ProgrammaticTestReportsByCandidate } from "../programmatic/test-report.js";
 import { writeVerificationArtifact } from "./artifacts.js";
-import type { ResolvedVerificationTarget } from "./target.js";
+import {
+  resolveCandidateRunRecord,
+  type ResolvedVerificationTarget,
+} from "./target.js";
 
 const PROGRAMMATIC_CANDIDATE_MAX_PARALLEL = 2;
 
+type PlannedProgrammaticCheck = ProgrammaticCommandEntry & { command: string };
+
 export async function executeAndPersistProgrammaticMethod(options: {
   root: string;
   verificationId: string;
@@ -91,8 +103,8 @@ export async function executeAndPersistProgrammaticMethod(options: {
             artifactPath,
             candidateId,
             checks: methodPlan.checks,
-            runId: resolvedTarget.target.sessionId,
-            runRecord: resolvedTarget.runRecord,
+            maxParallel: verificationConfig.run.programmaticMaxParallel,
+            runRecord: resolveCandidateRunRecord(resolvedTarget, candidateId),
             baseRevisionSha: resolvedTarget.baseRevisionSha,
             environment,
           }),
@@ -130,6 +142,7 @@ export async function executeAndPersistProgrammaticMethod(options: {
           startedAt,
           completedAt: completedRef.completedAt,
           artifactPath,
+          checks: candidates,
         },
       });
       return completedRef;
@@ -180,8 +193,8 @@ async function executeProgrammaticChecksForRunCandidate(options: {
   verificationId: string;
   artifactPath: string;
   candidateId: string;
-  checks: Array<{ slug: string; command: string }>;
-  runId: string;
+  checks: PlannedProgrammaticCheck[];
+  maxParallel?: number;
   runRecord: RunRecord;
   baseRevisionSha: string;
   environment: EnvironmentConfig;
@@ -195,11 +208,12 @@ async function executeProgrammaticChecksForRunCandidate(options: {
     artifactPath,
     candidateId,
     checks,
-    runId,
+    maxParallel,
     runRecord,
     baseRevisionSha,
     environment,
   } = options;
+  const runId = runRecord.runId;
 
   const paths = buildAgentWorkspacePaths({
     root,
@@ -234,6 +248,7 @@ async function executeProgrammaticChecksForRunCandidate(options: {
       root,
       logsDirectory,
       environment,
+      maxParallel,
       envDirectoryGuard: {
         trustedAbsoluteRoots: workspace.trustedAbsoluteRoots,
         includeHomeForPythonStack: true,
@@ -390,7 +405,7 @@ function resolveProgrammaticMethodPlan(options: {
   verificationConfig: VerificationConfig;
 }):
   | { kind: "none" }
-  | { kind: "run"; checks: Array<{ slug: string; command: string }> }
+  | { kind: "run"; checks: PlannedProgrammaticCheck[] }
   | {
       kind: "unsupported";
       targetKind: "spec" | "reduce";
@@ -399,11 +414,11 @@ function resolveProgrammaticMethodPlan(options: {
   const { resolvedTarget, verificationConfig } = options;
   if (resolvedTarget.target.kind === "run") {
     const checks = verificationConfig.run.programmatic.reduce<
-      Array<{ slug: string; command: string }>
+      PlannedProgrammaticCheck[]
     >((plan, entry) => {
       const command = entry.command?.trim();
       if (command) {
-        plan.push({ slug: entry.slug, command });
+        plan.push({ ...entry, command });
       }
       return plan;
     }, []);
@@ -469,6 +484,62 @@ function extractUnsupportedProgrammaticChecks(
   });
 }
 
+/**
+ * Rubric verifiers only wait on programmatic checks when a run check writes
+ * a test report; otherwise both methods proceed independently.
+ */
+export function resolveProgrammaticTestReports(options: {
+  root: string;
+  resolvedTarget: ResolvedVerificationTarget;
+  verificationConfig: VerificationConfig;
+  programmaticMethod: Promise<
+    VerificationRecord["methods"][number] | undefined
+  >;
+}): Promise<ProgrammaticTestReportsByCandidate | undefined> | undefined {
+  const { root, resolvedTarget, verificationConfig, programmaticMethod } =
+    options;
+  const reportsConfigured = verificationConfig.run.programmatic.some(
+    (entry) => entry.command && entry.report,
+  );
+  if (resolvedTarget.target.kind !== "run" || !reportsConfigured) {
+    return undefined;
+  }
+
+  return programmaticMethod
+    .then(async (methodRef) =>
+      methodRef?.status === "succeeded" && methodRef.artifactPath
+        ? await readProgrammaticTestReports({
+            root,
+            artifactPath: methodRef.artifactPath,
+          })
+        : undefined,
+    )
+    .catch(() => undefined);
+}
+
+async function readProgrammaticTestReports(options: {
+  root: string;
+  artifactPath: string;
+}): Promise<ProgrammaticTestReportsByCandidate | undefined> {
+  const { root, artifactPath } = options;
+  const raw = await readFile(resolve(root, artifactPath), "utf8");
+  const parsed = programmaticResultArtifactSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success || parsed.data.scope !== "run") {
+    return undefined;
+  }
+
+  const reports = new Map<string, readonly ProgrammaticCheckResult[]>();
+  for (const candidate of parsed.data.candidates) {
+    const withReports = candidate.results.filter(
+      (result) => result.report || result.reportError,
+    );
+    if (withReports.length > 0) {
+      reports.set(candidate.candidateId, withReports);
+    }
+  }
+  return reports;
+}
+
 async function writeFailureProgrammaticArtifact(options: {
   root: string;
   artifactPath: string;
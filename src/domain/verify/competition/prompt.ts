@@ -10,7 +10,10 @@ import {
 import { toExtraContextContextSubpath } from "../../../extra-context/contract.js";
 import { VORATIQ_VERIFICATION_DIR } from "../../../workspace/constants.js";
 import type { VerificationTarget } from "../model/types.js";
-import type { StagedVerificationInputs } from "./shared-layout.js";
+import type {
+  StagedVerificationInputs,
+  VerificationAcceptanceCriterion,
+} from "./shared-layout.js";
 
 export interface RubricTemplateContents {
   template: string;
@@ -72,6 +75,13 @@ export function buildRubricPrompt(options: {
         return `  - ${candidate.alias} (${parts.join(", ")})`;
       }),
     );
+    if (staged.template) {
+      lines.push(
+        `- Spec template \`${staged.template.name}\`: skeleton \`${staged.template.skeletonPath}\`, schema \`${staged.template.schemaPath}\``,
+        "",
+        "The drafts were written against this template. Validate each draft's metadata against the template schema and its markdown against the skeleton; a draft that does not conform is not execution-ready.",
+      );
+    }
   } else if (staged.kind === "run") {
     lines.push(
       `- Base repository snapshot (read-only): \`${staged.referenceRepoPath}/\``,
@@ -83,6 +93,9 @@ export function buildRubricPrompt(options: {
         if (candidate.summaryPath) {
           parts.push(`summary: \`${candidate.summaryPath}\``);
         }
+        if (candidate.testReportsPath) {
+          parts.push(`test reports: \`${candidate.testReportsPath}\``);
+        }
         const suffix = parts.length > 0 ? ` (${parts.join(", ")})` : "";
         return `  - ${candidate.alias}${suffix}`;
       }),
@@ -123,6 +136,13 @@ export function buildRubricPrompt(options: {
     "```",
   );
 
+  if (staged.kind === "run" && staged.criteria) {
+    appendAcceptanceCriteria(lines, {
+      criteria: staged.criteria,
+      candidates: staged.candidates.map((candidate) => candidate.alias),
+    });
+  }
+
   appendConstraints(lines, {
     stageId: "verify",
     workspacePath: promptWorkspacePath,
@@ -145,7 +165,9 @@ export function buildRubricPrompt(options: {
     "",
     "Target metadata:",
     `- kind: ${target.kind}`,
-    `- sessionId: ${target.sessionId}`,
+    target.kind === "run" && target.runs
+      ? `- sessionIds: ${target.runs.map((run) => run.sessionId).join(", ")}`
+      : `- sessionId: ${target.sessionId}`,
   );
 
   if (extraContextFiles.length > 0) {
@@ -163,6 +185,31 @@ export function buildRubricPrompt(options: {
   return `${lines.join("\n")}\n`;
 }
 
+function appendAcceptanceCriteria(
+  lines: string[],
+  options: {
+    criteria: readonly VerificationAcceptanceCriterion[];
+    candidates: readonly string[];
+  },
+): void {
+  const { criteria, candidates } = options;
+  lines.push(
+    "",
+    "## Acceptance criteria",
+    "The selected spec lists these acceptance criteria:",
+    "",
+    ...criteria.map((criterion) => `- ${criterion.id}: ${criterion.text}`),
+    "",
+    'In addition to the fields above, include a top-level `criteria` array with one entry per criterion id. Each entry is `{ "id", "criterion", "verdicts" }`, where `verdicts` holds one `{ "candidate", "verdict", "evidence" }` object per candidate:',
+    "",
+    `- \`candidate\`: one of ${candidates.map((alias) => `\`${alias}\``).join(", ")}`,
+    "- `verdict`: `met`, `partially_met`, `not_met`, or `not_verifiable`",
+    "- `evidence`: the diff hunks, files, or test output the verdict rests on; for `not_verifiable`, what is missing",
+    "",
+    "Every criterion needs a verdict for every candidate.",
+  );
+}
+
 function buildVerifyReadonlyMountPaths(options: {
   workspacePath: string;
   staged: StagedVerificationInputs;
@@ -1,12 +1,16 @@
 import { executeCompetitionWithAdapter } from "../../../competition/command-adapter.js";
+import type { CostBudget } from "../../../competition/shared/cost-budget.js";
 import type { ResolvedExtraContextFile } from "../../../competition/shared/extra-context.js";
+import type { ResolvedPromptOverlay } from "../../../competition/shared/prompt-overlays.js";
 import type { TeardownController } from "../../../competition/shared/teardown.js";
 import type { AgentDefinition } from "../../../configs/agents/types.js";
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import type { VerificationConfig } from "../../../configs/verification/types.js";
 import type { VerifyProgressRenderer } from "../../../render/transcripts/verify.js";
+import { resolveTokenUsageCost } from "../../shared/token-usage.js";
 import type { VerificationRecordMutators } from "../model/mutators.js";
 import type { VerificationRecord } from "../model/types.js";
+import type { ProgrammaticTestReportsByCandidate } from "../programmatic/test-report.js";
 import {
   createVerifyCompetitionAdapter,
   type VerifyCompetitionCandidate,
@@ -24,7 +28,13 @@ export async function executeAndPersistRubricMethods(options: {
   aliasMap?: Record<string, string>;
   environment: EnvironmentConfig;
   extraContextFiles: readonly ResolvedExtraContextFile[];
+  promptOverlays?: readonly ResolvedPromptOverlay[];
   maxParallel: number;
+  costBudget?: CostBudget;
+  /** Settles once programmatic checks have written their test reports. */
+  testReports?: Promise<ProgrammaticTestReportsByCandidate | undefined>;
+  /** Rubric refs a resumed session keeps; their verifier/template pairs are skipped. */
+  completedMethods?: VerificationRecord["methods"];
   teardown: TeardownController;
   mutators: VerificationRecordMutators;
   renderer?: VerifyProgressRenderer;
@@ -38,7 +48,11 @@ export async function executeAndPersistRubricMethods(options: {
     aliasMap,
     environment,
     extraContextFiles,
+    promptOverlays,
     maxParallel,
+    costBudget,
+    testReports,
+    completedMethods = [],
     teardown,
     mutators,
     renderer,
@@ -72,6 +86,7 @@ export async function executeAndPersistRubricMethods(options: {
     resolvedTarget,
     environment,
     aliasMap,
+    testReports: await testReports,
   });
 
   for (const worktreePath of sharedInputs.worktreesToRemove) {
@@ -96,13 +111,25 @@ export async function executeAndPersistRubricMethods(options: {
     })),
   );
 
+  const completedPairs = new Set(
+    completedMethods
+      .filter((method) => method.method === "rubric")
+      .map((method) => `${method.verifierId}:${method.template}`),
+  );
   const candidates: VerifyCompetitionCandidate[] = loadedTemplates.flatMap(
     ({ template }) =>
-      verifierAgents.map((agent) => ({
-        agent,
-        template,
-      })),
+      verifierAgents
+        .filter(
+          (agent) => !completedPairs.has(`${agent.id}:${template.template}`),
+        )
+        .map((agent) => ({
+          agent,
+          template,
+        })),
   );
+  if (candidates.length === 0) {
+    return [];
+  }
 
   const executions = await executeCompetitionWithAdapter({
     candidates,
@@ -114,10 +141,12 @@ export async function executeAndPersistRubricMethods(options: {
       aliasMap,
       environment,
       extraContextFiles,
+      promptOverlays,
       sharedInputs,
       teardown,
       mutators,
       renderer,
+      costBudget,
     }),
   });
 
@@ -134,6 +163,7 @@ export async function executeAndPersistRubricMethods(options: {
     startedAt: execution.startedAt,
     completedAt: execution.completedAt,
     tokenUsage: execution.tokenUsage,
+    costUsd: resolveTokenUsageCost(execution.tokenUsageResult),
     ...(execution.status === "failed" ? { error: execution.error } : {}),
   }));
 }
@@ -10,7 +10,11 @@ import {
 
 import type { EnvironmentConfig } from "../../../configs/environment/types.js";
 import { pathExists } from "../../../utils/fs.js";
-import { createDetachedWorktree, removeWorktree } from "../../../utils/git.js";
+import {
+  createDetachedWorktree,
+  pruneWorktrees,
+  removeWorktree,
+} from "../../../utils/git.js";
 import {
   MESSAGE_RESPONSE_FILENAME,
   VORATIQ_VERIFICATION_SESSIONS_DIR,
@@ -20,8 +24,25 @@ import {
   type AgentWorkspacePaths,
   buildAgentWorkspacePaths,
 } from "../../../workspace/layout.js";
+import type { RunRecord } from "../../run/model/types.js";
+import {
+  readSpecAcceptanceCriteria,
+  SPEC_DATA_FILENAME,
+} from "../../spec/model/output.js";
+import {
+  loadSpecTemplate,
+  SPEC_TEMPLATE_SCHEMA_FILENAME,
+  SPEC_TEMPLATE_SKELETON_FILENAME,
+} from "../../spec/model/template.js";
+import {
+  type ProgrammaticTestReportsByCandidate,
+  renderProgrammaticTestReportsMarkdown,
+} from "../programmatic/test-report.js";
 import { aliasForCandidate } from "./blinding.js";
-import type { ResolvedVerificationTarget } from "./target.js";
+import {
+  resolveCandidateRunRecord,
+  type ResolvedVerificationTarget,
+} from "./target.js";
 
 const BLINDED_VERIFY_SPEC_ARTIFACT_ALLOWLIST = [
   {
@@ -49,6 +70,12 @@ const BLINDED_VERIFY_RUN_ARTIFACT_ALLOWLIST = [
   },
 ] as const;
 
+export interface VerificationAcceptanceCriterion {
+  /** Stable id (`AC1`, `AC2`, …) verifiers use to report verdicts. */
+  id: string;
+  text: string;
+}
+
 export type SharedVerificationInputs =
   | {
       kind: "spec";
@@ -56,6 +83,8 @@ export type SharedVerificationInputs =
       sharedInputsAbsolute: string;
       referenceRepoAbsolute: string;
       worktreesToRemove: readonly string[];
+      /** Spec template the drafts were written against. */
+      templateName?: string;
       candidates: readonly {
         alias: string;
         hasSpecData: boolean;
@@ -67,10 +96,13 @@ export type SharedVerificationInputs =
       sharedInputsAbsolute: string;
       referenceRepoAbsolute: string;
       worktreesToRemove: readonly string[];
+      /** Acceptance criteria from the run spec's `spec.json`, when it has one. */
+      criteria?: readonly VerificationAcceptanceCriterion[];
       candidates: readonly {
         alias: string;
         hasDiff: boolean;
         hasSummary: boolean;
+        hasTestReports: boolean;
       }[];
     }
   | {
@@ -112,6 +144,11 @@ export type StagedVerificationInputs =
       kind: "spec";
       referenceRepoPath: string;
       descriptionPath: string;
+      template?: {
+        name: string;
+        skeletonPath: string;
+        schemaPath: string;
+      };
       candidates: readonly {
         alias: string;
         specPath: string;
@@ -122,10 +159,12 @@ export type StagedVerificationInputs =
       kind: "run";
       referenceRepoPath: string;
       specPath: string;
+      criteria?: readonly VerificationAcceptanceCriterion[];
       candidates: readonly {
         alias: string;
         diffPath?: string;
         summaryPath?: string;
+        testReportsPath?: string;
       }[];
     }
   | {
@@ -162,22 +201,22 @@ export async function prepareSharedVerificationInputs(options: {
   resolvedTarget: ResolvedVerificationTarget;
   environment: EnvironmentConfig;
   aliasMap?: Record<string, string>;
+  testReports?: ProgrammaticTestReportsByCandidate;
 }): Promise<SharedVerificationInputs> {
-  const { root, verificationId, resolvedTarget, environment, aliasMap } =
-    options;
-  const sharedRootAbsolute = resolve(
+  const {
+    root,
+    verificationId,
+    resolvedTarget,
+    environment,
+    aliasMap,
+    testReports,
+  } = options;
+  const sharedRootAbsolute = resolveSharedVerificationRoot(
     root,
-    ".voratiq",
-    VORATIQ_VERIFICATION_SESSIONS_DIR,
     verificationId,
-    ".shared",
   );
   const sharedInputsAbsolute = resolve(sharedRootAbsolute, "inputs");
-  const referenceRepoAbsolute = resolve(
-    sharedRootAbsolute,
-    "reference",
-    "repo",
-  );
+  const referenceRepoAbsolute = resolveReferenceRepoPath(sharedRootAbsolute);
 
   await mkdir(sharedInputsAbsolute, { recursive: true });
 
@@ -209,6 +248,23 @@ export async function prepareSharedVerificationInputs(options: {
         "utf8",
       );
 
+      const templateName = resolvedTarget.specRecord.template;
+      if (templateName !== undefined) {
+        const template = await loadSpecTemplate({ root, name: templateName });
+        const templateDir = resolve(sharedInputsAbsolute, "template");
+        await mkdir(templateDir, { recursive: true });
+        await writeFile(
+          resolve(templateDir, SPEC_TEMPLATE_SKELETON_FILENAME),
+          template.skeleton,
+          "utf8",
+        );
+        await writeFile(
+          resolve(templateDir, SPEC_TEMPLATE_SCHEMA_FILENAME),
+          template.schemaSource,
+          "utf8",
+        );
+      }
+
       const draftsDir = resolve(sharedInputsAbsolute, "drafts");
       await mkdir(draftsDir, { recursive: true });
 
@@ -252,6 +308,7 @@ export async function prepareSharedVerificationInputs(options: {
         sharedInputsAbsolute,
         referenceRepoAbsolute,
         worktreesToRemove: [referenceRepoAbsolute],
+        ...(templateName !== undefined ? { templateName } : {}),
         candidates,
       };
     }
@@ -272,13 +329,17 @@ export async function prepareSharedVerificationInputs(options: {
           const dir = resolve(candidatesDir, alias);
           await mkdir(dir, { recursive: true });
 
+          const candidateRunRecord = resolveCandidateRunRecord(
+            resolvedTarget,
+            candidateId,
+          );
           const runPaths = buildAgentWorkspacePaths({
             root,
-            runId: resolvedTarget.target.sessionId,
+            runId: candidateRunRecord.runId,
             agentId: candidateId,
           });
 
-          const runAgentRecord = resolvedTarget.runRecord.agents.find(
+          const runAgentRecord = candidateRunRecord.agents.find(
             (agent) => agent.agentId === candidateId,
           );
           const copiedArtifacts = await Promise.all(
@@ -294,27 +355,43 @@ export async function prepareSharedVerificationInputs(options: {
                       artifact.requiredArtifactStateKey
                     ] ?? false)
                   : false,
-                runId: resolvedTarget.target.sessionId,
+                runId: candidateRunRecord.runId,
                 candidateId,
                 label: artifact.stagedFilename,
               }),
             ),
           );
 
+          const candidateTestReports = testReports?.get(candidateId);
+          if (candidateTestReports && candidateTestReports.length > 0) {
+            await writeFile(
+              resolve(dir, "test-reports.md"),
+              renderProgrammaticTestReportsMarkdown(candidateTestReports),
+              "utf8",
+            );
+          }
+
           return {
             alias,
             hasDiff: copiedArtifacts[0] !== undefined,
             hasSummary: copiedArtifacts[1] !== undefined,
+            hasTestReports: (candidateTestReports?.length ?? 0) > 0,
           };
         }),
       );
 
+      const criteria = await resolveRunAcceptanceCriteria({
+        root,
+        spec: resolvedTarget.runRecord.spec,
+      });
+
       return {
         kind: "run",
         sharedRootAbsolute,
         sharedInputsAbsolute,
         referenceRepoAbsolute,
         worktreesToRemove: [referenceRepoAbsolute],
+        ...(criteria ? { criteria } : {}),
         candidates,
       };
     }
@@ -442,6 +519,44 @@ export async function cleanupSharedVerificationInputs(options: {
   }).catch(() => {});
 }
 
+/**
+ * Removes shared inputs an interrupted verification left behind, so a resumed
+ * pass can stage them again.
+ */
+export async function removeStaleSharedVerificationInputs(options: {
+  root: string;
+  verificationId: string;
+}): Promise<void> {
+  const { root, verificationId } = options;
+  const sharedRootAbsolute = resolveSharedVerificationRoot(
+    root,
+    verificationId,
+  );
+  await removeWorktree({
+    root,
+    worktreePath: resolveReferenceRepoPath(sharedRootAbsolute),
+  }).catch(() => {});
+  await rm(sharedRootAbsolute, { recursive: true, force: true });
+  await pruneWorktrees(root);
+}
+
+function resolveSharedVerificationRoot(
+  root: string,
+  verificationId: string,
+): string {
+  return resolve(
+    root,
+    ".voratiq",
+    VORATIQ_VERIFICATION_SESSIONS_DIR,
+    verificationId,
+    ".shared",
+  );
+}
+
+function resolveReferenceRepoPath(sharedRootAbsolute: string): string {
+  return resolve(sharedRootAbsolute, "reference", "repo");
+}
+
 export function buildStagedVerificationInputs(options: {
   workspacePaths: AgentWorkspacePaths;
   sharedInputs: SharedVerificationInputs;
@@ -457,6 +572,25 @@ export function buildStagedVerificationInputs(options: {
         workspacePaths.workspacePath,
         resolve(inputsRoot, "description.md"),
       ),
+      ...(sharedInputs.templateName !== undefined
+        ? {
+            template: {
+              name: sharedInputs.templateName,
+              skeletonPath: toWorkspaceRelative(
+                workspacePaths.workspacePath,
+                resolve(
+                  inputsRoot,
+                  "template",
+                  SPEC_TEMPLATE_SKELETON_FILENAME,
+                ),
+              ),
+              schemaPath: toWorkspaceRelative(
+                workspacePaths.workspacePath,
+                resolve(inputsRoot, "template", SPEC_TEMPLATE_SCHEMA_FILENAME),
+              ),
+            },
+          }
+        : {}),
       candidates: sharedInputs.candidates.map((candidate) => ({
         alias: candidate.alias,
         specPath: toWorkspaceRelative(
@@ -483,6 +617,7 @@ export function buildStagedVerificationInputs(options: {
         workspacePaths.workspacePath,
         resolve(inputsRoot, "spec.md"),
       ),
+      ...(sharedInputs.criteria ? { criteria: sharedInputs.criteria } : {}),
       candidates: sharedInputs.candidates.map((candidate) => ({
         alias: candidate.alias,
         ...(candidate.hasDiff
@@ -511,6 +646,19 @@ export function buildStagedVerificationInputs(options: {
               ),
             }
           : {}),
+        ...(candidate.hasTestReports
+          ? {
+              testReportsPath: toWorkspaceRelative(
+                workspacePaths.workspacePath,
+                resolve(
+                  inputsRoot,
+                  "candidates",
+                  candidate.alias,
+                  "test-reports.md",
+                ),
+              ),
+            }
+          : {}),
       })),
     };
   }
@@ -703,3 +851,35 @@ async function copyArtifactForRunCandidate(options: {
     `Run \`${runId}\` candidate \`${candidateId}\` is missing required verification artifact \`${label}\` (${sourceAbsolute}).`,
   );
 }
+
+/**
+ * Acceptance criteria come from the `spec.json` written next to the run's
+ * source spec draft. Specs edited after drafting are skipped because their
+ * structured data may no longer match the markdown the run executed.
+ */
+async function resolveRunAcceptanceCriteria(options: {
+  root: string;
+  spec: RunRecord["spec"];
+}): Promise<VerificationAcceptanceCriterion[] | undefined> {
+  const { root, spec } = options;
+  const provenance =
+    spec.target?.kind === "spec" ? spec.target.provenance : undefined;
+  if (
+    !provenance?.source ||
+    (provenance.lineage !== "exact" && provenance.lineage !== "derived")
+  ) {
+    return undefined;
+  }
+
+  const specDataAbsolute = resolve(
+    root,
+    dirname(provenance.source.outputPath),
+    SPEC_DATA_FILENAME,
+  );
+  if (!(await pathExists(specDataAbsolute))) {
+    return undefined;
+  }
+
+  const criteria = await readSpecAcceptanceCriteria(specDataAbsolute);
+  return criteria?.map((text, index) => ({ id: `AC${index + 1}`, text }));
+}
@@ -21,6 +21,8 @@ export type ResolvedVerificationTarget =
       competitiveCandidates: readonly VerificationCompetitiveCandidate[];
       target: Extract<VerificationTarget, { kind: "run" }>;
       runRecord: RunRecord;
+      /** Every run judged together, in order, when there are several. */
+      runRecords?: readonly RunRecord[];
     }
   | {
       baseRevisionSha: string;
@@ -42,3 +44,15 @@ export type ResolvedVerificationTarget =
       target: Extract<VerificationTarget, { kind: "message" }>;
       messageRecord: MessageRecord;
     };
+
+/** Run whose agent produced `candidateId`, falling back to the first run. */
+export function resolveCandidateRunRecord(
+  resolvedTarget: Extract<ResolvedVerificationTarget, { runRecord: RunRecord }>,
+  candidateId: string,
+): RunRecord {
+  return (
+    resolvedTarget.runRecords?.find((record) =>
+      record.agents.some((agent) => agent.agentId === candidateId),
+    ) ?? resolvedTarget.runRecord
+  );
+}
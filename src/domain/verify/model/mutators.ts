@@ -2,6 +2,7 @@ import {
   buildLifecycleStartFields,
   buildRecordLifecycleCompleteFields,
 } from "../../shared/lifecycle.js";
+import { buildSessionCostFields } from "../../shared/token-cost.js";
 import { rewriteVerificationRecord } from "../persistence/adapter.js";
 import type {
   VerificationMethodResultRef,
@@ -91,6 +92,7 @@ export function createVerificationRecordMutators(
                 })
               : {}),
             methods,
+            ...buildSessionCostFields(methods.map((entry) => entry.costUsd)),
           };
         },
       });
@@ -168,6 +170,10 @@ function mergeMethodRefs(
     merged.tokenUsage = existing.tokenUsage;
   }
 
+  if (incoming.costUsd === undefined && existing?.costUsd !== undefined) {
+    merged.costUsd = existing.costUsd;
+  }
+
   if (incoming.error === undefined && existing?.error !== undefined) {
     merged.error = existing.error;
   }
@@ -6,21 +6,34 @@ import {
   programmaticSlugSchema,
   rubricTemplateSchema,
 } from "../../../configs/verification/methods.js";
+import {
+  verificationWinnerPolicyModeSchema,
+  verificationWinnerPolicySchema,
+} from "../../../configs/verification/types.js";
 import {
   extraContextMetadataEntrySchema,
   persistedExtraContextPathSchema,
 } from "../../../persistence/extra-context.js";
+import { promptOverlayEntrySchema } from "../../../persistence/prompt-overlays.js";
 import { repoRelativeRecordPathSchema } from "../../../persistence/record-path-schema.js";
 import {
   TERMINAL_VERIFICATION_STATUSES,
   type VerificationStatus,
   verificationStatusSchema,
 } from "../../../status/index.js";
-import { extractedTokenUsageSchema } from "../../run/model/types.js";
-import { validateRecordLifecycleTimestamps } from "../../shared/lifecycle.js";
+import {
+  costUsdSchema,
+  extractedTokenUsageSchema,
+} from "../../run/model/types.js";
+import {
+  sessionOwnerPidSchema,
+  sessionResumeSchema,
+  validateRecordLifecycleTimestamps,
+} from "../../shared/lifecycle.js";
 import { BLINDED_ALIAS_PATTERN } from "../blinding/aliases.js";
 import {
   rubricResultPayloadSchema,
+  safeParseRubricCriteriaFromResult,
   safeParseRubricRecommendationFromResult,
 } from "../rubric-result.js";
 export {
@@ -28,6 +41,8 @@ export {
   verificationStatusSchema,
 } from "../../../status/index.js";
 export type {
+  RubricCriteria,
+  RubricCriterionVerdict,
   RubricRecommendation,
   RubricResultPayload,
 } from "../rubric-result.js";
@@ -77,11 +92,22 @@ export const specVerificationTargetSchema = z
   })
   .strict();
 
+export const runVerificationTargetRunSchema = z
+  .object({
+    sessionId: z.string().min(1),
+    candidateIds: z.array(agentIdSchema).min(1),
+  })
+  .strict();
+
 export const runVerificationTargetSchema = z
   .object({
     kind: z.literal("run"),
+    /** First verified run; kept for readers that predate `runs`. */
     sessionId: z.string().min(1),
+    /** Candidates of every verified run. */
     candidateIds: z.array(agentIdSchema).min(1),
+    /** Every run judged together, in order, when more than one was verified. */
+    runs: z.array(runVerificationTargetRunSchema).min(2).optional(),
   })
   .strict();
 
@@ -107,6 +133,63 @@ export const verificationTargetSchema = z.discriminatedUnion("kind", [
 ]);
 
 export type VerificationTarget = z.infer<typeof verificationTargetSchema>;
+export type RunVerificationTarget = z.infer<typeof runVerificationTargetSchema>;
+export type RunVerificationTargetRun = z.infer<
+  typeof runVerificationTargetRunSchema
+>;
+
+export function getRunVerificationTargetRuns(
+  target: RunVerificationTarget,
+): RunVerificationTargetRun[] {
+  return target.runs
+    ? target.runs.map((run) => ({
+        sessionId: run.sessionId,
+        candidateIds: [...run.candidateIds],
+      }))
+    : [{ sessionId: target.sessionId, candidateIds: [...target.candidateIds] }];
+}
+
+export function buildRunVerificationTarget(
+  runs: readonly RunVerificationTargetRun[],
+): RunVerificationTarget {
+  const [first] = runs;
+  if (!first) {
+    throw new Error("A run verification requires at least one run.");
+  }
+  return {
+    kind: "run",
+    sessionId: first.sessionId,
+    candidateIds: runs.flatMap((run) => run.candidateIds),
+    ...(runs.length > 1
+      ? {
+          runs: runs.map((run) => ({
+            sessionId: run.sessionId,
+            candidateIds: [...run.candidateIds],
+          })),
+        }
+      : {}),
+  };
+}
+
+/** Run whose agent produced `candidateId`. */
+export function findRunVerificationCandidateRunId(
+  target: RunVerificationTarget,
+  candidateId: string,
+): string | undefined {
+  return getRunVerificationTargetRuns(target).find((run) =>
+    run.candidateIds.includes(candidateId),
+  )?.sessionId;
+}
+
+export function verificationTargetIncludesRun(
+  target: VerificationTarget,
+  runId: string,
+): boolean {
+  return (
+    target.kind === "run" &&
+    getRunVerificationTargetRuns(target).some((run) => run.sessionId === runId)
+  );
+}
 
 export const verificationScopeSchema = z.discriminatedUnion("kind", [
   z.object({ kind: z.literal("target") }).strict(),
@@ -139,6 +222,7 @@ export const verificationMethodResultRefSchema = z
     startedAt: z.string().optional(),
     completedAt: z.string().optional(),
     tokenUsage: extractedTokenUsageSchema.optional(),
+    costUsd: costUsdSchema.optional(),
     error: z.string().nullable().optional(),
   })
   .superRefine((entry, ctx) => {
@@ -271,12 +355,21 @@ export const rubricResultArtifactSchema = z
   })
   .strict()
   .superRefine((artifact, ctx) => {
-    const validation = safeParseRubricRecommendationFromResult(artifact.result);
-    if (validation.success) {
-      return;
-    }
-
-    for (const issue of validation.error.issues) {
+    const recommendation = safeParseRubricRecommendationFromResult(
+      artifact.result,
+    );
+    const criteria = safeParseRubricCriteriaFromResult(artifact.result);
+    const issues = [
+      ...(recommendation.success ? [] : recommendation.error.issues),
+      ...(criteria.success
+        ? []
+        : criteria.error.issues.map((issue) => ({
+            ...issue,
+            path: ["criteria", ...issue.path],
+          }))),
+    ];
+
+    for (const issue of issues) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         path: ["result", ...issue.path],
@@ -296,6 +389,35 @@ export type VerificationResultArtifact = z.infer<
   typeof verificationResultArtifactSchema
 >;
 
+const verificationTallyVerifierSchema = z
+  .object({
+    verifierAgentId: agentIdSchema,
+    status: z.enum(["succeeded", "failed"]),
+    weight: z.number(),
+    selectedCanonicalAgentId: agentIdSchema.optional(),
+    ranking: z.array(agentIdSchema).optional(),
+  })
+  .strict();
+
+export const verificationSelectionTallySchema = z
+  .object({
+    mode: verificationWinnerPolicyModeSchema,
+    verifiers: z.array(verificationTallyVerifierSchema),
+    scores: z.array(
+      z
+        .object({
+          candidateId: agentIdSchema,
+          score: z.number(),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+export type VerificationSelectionTally = z.infer<
+  typeof verificationSelectionTallySchema
+>;
+
 export const verificationRecordSchema = z
   .object({
     sessionId: z.string().min(1),
@@ -306,6 +428,8 @@ export const verificationRecordSchema = z
     target: verificationTargetSchema,
     extraContext: z.array(persistedExtraContextPathSchema).optional(),
     extraContextMetadata: z.array(extraContextMetadataEntrySchema).optional(),
+    /** Files from `.voratiq/prompts/` layered onto the agent prompts. */
+    promptOverlays: z.array(promptOverlayEntrySchema).optional(),
     blinded: z
       .object({
         enabled: z.literal(true),
@@ -313,7 +437,20 @@ export const verificationRecordSchema = z
       })
       .optional(),
     methods: z.array(verificationMethodResultRefSchema),
+    costUsd: costUsdSchema.optional(),
+    winnerPolicy: verificationWinnerPolicySchema.optional(),
+    selectionTally: verificationSelectionTallySchema.optional(),
     error: z.string().nullable().optional(),
+    /** Passes of `voratiq verify --resume`, oldest first. */
+    resumes: z
+      .array(
+        sessionResumeSchema.extend({
+          /** Set when the programmatic method was re-run. */
+          programmatic: z.literal(true).optional(),
+        }),
+      )
+      .optional(),
+    ownerPid: sessionOwnerPidSchema.optional(),
   })
   .superRefine((record, ctx) => {
     validateRecordLifecycleTimestamps(
@@ -49,6 +49,8 @@ export interface ReadVerificationRecordsOptions {
   root: string;
   verificationsFilePath: string;
   limit?: number;
+  createdSince?: Date;
+  createdUntil?: Date;
   predicate?: VerificationRecordPredicate;
   onWarning?: (warning: VerificationRecordWarning) => void;
 }
@@ -98,6 +100,7 @@ const verificationPersistence = createSessionStore<
     targetSessionId: record.target.sessionId,
   }),
   getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
   shouldForceFlush: (record) =>
     TERMINAL_VERIFICATION_STATUSES.includes(record.status),
   getRecordId: (record) => record.sessionId,
@@ -119,13 +122,23 @@ const verificationPersistence = createSessionStore<
 export async function readVerificationRecords(
   options: ReadVerificationRecordsOptions,
 ): Promise<VerificationRecord[]> {
-  const { root, verificationsFilePath, limit, predicate, onWarning } = options;
+  const {
+    root,
+    verificationsFilePath,
+    limit,
+    createdSince,
+    createdUntil,
+    predicate,
+    onWarning,
+  } = options;
   const paths = buildVerificationPaths(root, verificationsFilePath);
 
   try {
     return await verificationPersistence.readRecords({
       paths,
       limit,
+      createdSince,
+      createdUntil,
       predicate,
       onWarning: onWarning
         ? (warning) => onWarning(mapWarning(warning))
@@ -173,6 +186,21 @@ export async function rewriteVerificationRecord(
   }
 }
 
+export async function removeVerificationRecords(options: {
+  root: string;
+  verificationsFilePath: string;
+  sessionIds: readonly string[];
+}): Promise<void> {
+  const { root, verificationsFilePath, sessionIds } = options;
+  const paths = buildVerificationPaths(root, verificationsFilePath);
+
+  try {
+    await verificationPersistence.removeRecords({ paths, sessionIds });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
 export async function flushVerificationRecordBuffer(options: {
   verificationsFilePath: string;
   sessionId: string;
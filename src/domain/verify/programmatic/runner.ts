@@ -2,7 +2,9 @@ import { createWriteStream } from "node:fs";
 import { mkdir } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { isAbsolute, resolve as resolveAbsolute } from "node:path";
+import type { Writable } from "node:stream";
 
+import { runPreparedWithLimit } from "../../../competition/core.js";
 import {
   type EnvironmentConfig,
   getNodeDependencyRoots,
@@ -19,7 +21,14 @@ import {
   relativeToRoot,
   resolvePath,
 } from "../../../utils/path.js";
-import { spawnStreamingProcess } from "../../../utils/process.js";
+import {
+  killProcessGroup,
+  spawnStreamingProcess,
+} from "../../../utils/process.js";
+import { readProgrammaticTestReport } from "./test-report.js";
+
+/** Checks run one at a time unless `programmaticMaxParallel` raises the limit. */
+export const DEFAULT_PROGRAMMATIC_CHECK_MAX_PARALLEL = 1;
 
 interface ExecuteProgrammaticChecksOptions {
   checks: readonly ProgrammaticCommandEntry[];
@@ -29,6 +38,7 @@ interface ExecuteProgrammaticChecksOptions {
   env?: NodeJS.ProcessEnv;
   environment: EnvironmentConfig;
   envDirectoryGuard?: ProgrammaticEnvDirectoryGuardOptions;
+  maxParallel?: number;
 }
 
 export interface ProgrammaticEnvDirectoryGuardOptions {
@@ -42,6 +52,11 @@ export interface ExecuteProgrammaticChecksResult {
   warnings: string[];
 }
 
+/**
+ * Runs checks in dependency order. Each wave holds the checks whose
+ * dependencies have all settled and runs with up to `maxParallel` at once;
+ * results are returned in configuration order.
+ */
 export async function executeProgrammaticChecks(
   options: ExecuteProgrammaticChecksOptions,
 ): Promise<ExecuteProgrammaticChecksResult> {
@@ -53,99 +68,305 @@ export async function executeProgrammaticChecks(
     env,
     environment,
     envDirectoryGuard,
+    maxParallel = DEFAULT_PROGRAMMATIC_CHECK_MAX_PARALLEL,
   } = options;
-  const results: ProgrammaticCheckResult[] = [];
+  const resultsBySlug = new Map<string, ProgrammaticCheckResult>();
   const warnings: string[] = [];
 
   await mkdir(logsDirectory, { recursive: true });
 
-  const checkEnvironment = composeCheckEnvironment(env);
+  for (const wave of groupChecksIntoWaves(checks)) {
+    const runnable: ProgrammaticCommandEntry[] = [];
+    for (const check of wave) {
+      const blocker = findUnsatisfiedDependency(check, resultsBySlug);
+      if (blocker) {
+        resultsBySlug.set(check.slug, {
+          slug: check.slug,
+          status: "skipped",
+          ...(check.command ? { command: check.command } : {}),
+          error: `Skipped because dependency "${blocker.slug}" did not succeed (${blocker.status}).`,
+        });
+        continue;
+      }
+      runnable.push(check);
+    }
 
-  for (const check of checks) {
-    const { slug, command } = check;
-    if (!command) {
-      results.push({
-        slug,
-        status: "skipped",
-      });
-      continue;
+    const waveResults = await runPreparedWithLimit({
+      prepared: runnable,
+      maxParallel,
+      executePrepared: async (check) =>
+        await executeProgrammaticCheck({
+          check,
+          cwd,
+          root,
+          logsDirectory,
+          env: composeCheckEnvironment(env, check.env),
+          environment,
+          envDirectoryGuard,
+          warnings,
+        }),
+    });
+    for (const result of waveResults) {
+      resultsBySlug.set(result.slug, result);
     }
+  }
 
-    try {
-      const prepWarnings = await ensureEnvDirectories({
+  const results = checks.flatMap((check) => {
+    const result = resultsBySlug.get(check.slug);
+    return result ? [result] : [];
+  });
+  return { results, warnings };
+}
+
+async function executeProgrammaticCheck(options: {
+  check: ProgrammaticCommandEntry;
+  cwd: string;
+  root: string;
+  logsDirectory: string;
+  env: NodeJS.ProcessEnv;
+  environment: EnvironmentConfig;
+  envDirectoryGuard?: ProgrammaticEnvDirectoryGuardOptions;
+  warnings: string[];
+}): Promise<ProgrammaticCheckResult> {
+  const {
+    check,
+    cwd,
+    root,
+    logsDirectory,
+    env,
+    environment,
+    envDirectoryGuard,
+    warnings,
+  } = options;
+  const { slug, command, timeoutMs, retries = 0 } = check;
+  if (!command) {
+    return {
+      slug,
+      status: "skipped",
+    };
+  }
+
+  try {
+    const prepWarnings = await ensureEnvDirectories({
+      command,
+      cwd,
+      env,
+      guard: envDirectoryGuard,
+    });
+    warnings.push(...prepWarnings);
+  } catch (error) {
+    throw new Error(
+      `Programmatic environment preparation failed for "${slug}": ${toErrorMessage(error)}`,
+    );
+  }
+
+  const logFileName = `${sanitizeSlugForFilename(slug)}.log`;
+  const logPath = resolvePath(logsDirectory, logFileName);
+  const logStream = createWriteStream(logPath, { flags: "w" });
+
+  const missingStacks = detectMissingStacks(command, environment);
+  if (missingStacks.length > 0) {
+    const warningMessage = buildMissingStackWarning(
+      slug,
+      command,
+      missingStacks,
+    );
+    logStream.write(`${warningMessage}\n`);
+    warnings.push(warningMessage);
+  }
+
+  const maxAttempts = retries + 1;
+  let attempts = 0;
+  let outcome: CheckAttemptOutcome;
+  const startedAt = new Date();
+  try {
+    do {
+      attempts += 1;
+      if (attempts > 1) {
+        logStream.write(
+          `\n[voratiq] Retrying programmatic check "${slug}" (attempt ${attempts} of ${maxAttempts}).\n`,
+        );
+      }
+      outcome = await runCheckAttempt({
         command,
         cwd,
-        env: checkEnvironment,
-        guard: envDirectoryGuard,
+        env,
+        timeoutMs,
+        logStream,
       });
-      warnings.push(...prepWarnings);
-    } catch (error) {
-      throw new Error(
-        `Programmatic environment preparation failed for "${slug}": ${toErrorMessage(error)}`,
-      );
-    }
+    } while (attempts < maxAttempts && isRetryableStatus(outcome.status));
+  } finally {
+    logStream.end();
+  }
 
-    const logFileName = `${sanitizeSlugForFilename(slug)}.log`;
-    const logPath = resolvePath(logsDirectory, logFileName);
-    const logStream = createWriteStream(logPath, { flags: "w" });
-    let exitCode: number | null = null;
-    let status: ProgrammaticCheckResult["status"] = "succeeded";
-    let errorMessage: string | undefined;
-
-    const missingStacks = detectMissingStacks(command, environment);
-    if (missingStacks.length > 0) {
-      const warningMessage = buildMissingStackWarning(
-        slug,
-        command,
-        missingStacks,
+  return {
+    slug,
+    status: outcome.status,
+    command,
+    exitCode: outcome.exitCode,
+    logPath: normalizePathForDisplay(relativeToRoot(root, logPath)),
+    error: outcome.error,
+    ...(maxAttempts > 1 ? { attempts } : {}),
+    ...(check.report
+      ? await collectTestReport({
+          cwd,
+          reportPath: check.report,
+          notBefore: startedAt,
+        })
+      : {}),
+  };
+}
+
+async function collectTestReport(options: {
+  cwd: string;
+  reportPath: string;
+  notBefore: Date;
+}): Promise<Pick<ProgrammaticCheckResult, "report" | "reportError">> {
+  try {
+    return { report: await readProgrammaticTestReport(options) };
+  } catch (error) {
+    return { reportError: toErrorMessage(error) };
+  }
+}
+
+interface CheckAttemptOutcome {
+  status: ProgrammaticCheckResult["status"];
+  exitCode: number | null;
+  error?: string;
+}
+
+async function runCheckAttempt(options: {
+  command: string;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeoutMs?: number;
+  logStream: Writable;
+}): Promise<CheckAttemptOutcome> {
+  const { command, cwd, env, timeoutMs, logStream } = options;
+  const abortController = new AbortController();
+  let childPid: number | undefined;
+  let timedOut = false;
+  // Timed checks get their own process group so the whole shell pipeline
+  // can be killed when the deadline passes.
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          if (childPid !== undefined) {
+            killProcessGroup(childPid, "SIGKILL");
+          }
+          abortController.abort();
+        }, timeoutMs);
+
+  try {
+    const { exitCode, signal } = await spawnStreamingProcess({
+      command,
+      cwd,
+      env,
+      shell: true,
+      stdout: { writable: logStream, endOnClose: false },
+      stderr: { writable: logStream, endOnClose: false },
+      ...(timer
+        ? {
+            detached: true,
+            abortSignal: abortController.signal,
+            onSpawn: (child) => {
+              childPid = child.pid;
+            },
+          }
+        : {}),
+    });
+    if (timedOut) {
+      logStream.write(
+        `\n[voratiq] Programmatic check timed out after ${timeoutMs}ms.\n`,
       );
-      logStream.write(`${warningMessage}\n`);
-      warnings.push(warningMessage);
+      return {
+        status: "timed_out",
+        exitCode: null,
+        error: `Timed out after ${timeoutMs}ms`,
+      };
+    }
+    if (signal) {
+      return {
+        status: "errored",
+        exitCode: null,
+        error: `Process terminated by signal ${signal}`,
+      };
+    }
+    return { status: exitCode === 0 ? "succeeded" : "failed", exitCode };
+  } catch (error) {
+    return { status: "errored", exitCode: null, error: toErrorMessage(error) };
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
     }
+  }
+}
 
-    try {
-      const { exitCode: code, signal } = await spawnStreamingProcess({
-        command,
-        cwd,
-        env: checkEnvironment,
-        shell: true,
-        stdout: { writable: logStream, endOnClose: false },
-        stderr: { writable: logStream, endOnClose: false },
-      });
-      if (signal) {
-        status = "errored";
-        exitCode = null;
-        errorMessage = `Process terminated by signal ${signal}`;
-      } else {
-        exitCode = code;
-        status = code === 0 ? "succeeded" : "failed";
-      }
-    } catch (error) {
-      status = "errored";
-      exitCode = null;
-      errorMessage = toErrorMessage(error);
-    } finally {
-      logStream.end();
+function isRetryableStatus(status: ProgrammaticCheckResult["status"]): boolean {
+  return status === "failed" || status === "timed_out";
+}
+
+/**
+ * Dependencies are satisfied by checks that succeeded or were skipped for
+ * lacking a command; anything else blocks the dependent check.
+ */
+function findUnsatisfiedDependency(
+  check: ProgrammaticCommandEntry,
+  resultsBySlug: ReadonlyMap<string, ProgrammaticCheckResult>,
+): ProgrammaticCheckResult | undefined {
+  for (const dependency of check.dependsOn ?? []) {
+    const result = resultsBySlug.get(dependency);
+    if (!result) {
+      continue;
     }
+    const satisfied =
+      result.status === "succeeded" ||
+      (result.status === "skipped" && result.error === undefined);
+    if (!satisfied) {
+      return result;
+    }
+  }
+  return undefined;
+}
 
-    results.push({
-      slug,
-      status,
-      command,
-      exitCode,
-      logPath: normalizePathForDisplay(relativeToRoot(root, logPath)),
-      error: errorMessage,
-    });
+function groupChecksIntoWaves(
+  checks: readonly ProgrammaticCommandEntry[],
+): ProgrammaticCommandEntry[][] {
+  const known = new Set(checks.map((check) => check.slug));
+  const waveBySlug = new Map<string, number>();
+  const waves: ProgrammaticCommandEntry[][] = [];
+  let pending = [...checks];
+
+  while (pending.length > 0) {
+    const ready = pending.filter((check) =>
+      (check.dependsOn ?? []).every(
+        (dependency) => !known.has(dependency) || waveBySlug.has(dependency),
+      ),
+    );
+    if (ready.length === 0) {
+      throw new Error(
+        `Programmatic checks have a dependency cycle: ${pending.map((check) => check.slug).join(", ")}`,
+      );
+    }
+    for (const check of ready) {
+      waveBySlug.set(check.slug, waves.length);
+    }
+    waves.push(ready);
+    pending = pending.filter((check) => !waveBySlug.has(check.slug));
   }
 
-  return { results, warnings };
+  return waves;
 }
 
 function composeCheckEnvironment(
   overrides?: NodeJS.ProcessEnv,
+  checkEnv?: Readonly<Record<string, string>>,
 ): NodeJS.ProcessEnv {
   return {
     ...overrides,
+    ...checkEnv,
   };
 }
 
@@ -0,0 +1,197 @@
+import { readFile, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import type {
+  ProgrammaticCheckResult,
+  ProgrammaticTestReport,
+} from "../../../configs/verification/methods.js";
+import { isMissing } from "../../../utils/fs.js";
+
+/** Keeps artifacts bounded when a suite fails wholesale. */
+export const MAX_RECORDED_FAILED_TESTS = 50;
+
+/** File timestamps come from a coarser clock than `Date.now()`. */
+const MTIME_TOLERANCE_MS = 1000;
+
+/** Checks that produced a report (or failed to), keyed by run candidate id. */
+export type ProgrammaticTestReportsByCandidate = ReadonlyMap<
+  string,
+  readonly ProgrammaticCheckResult[]
+>;
+
+interface TestCaseOutcome {
+  name: string;
+  outcome: "passed" | "failed" | "skipped";
+}
+
+/**
+ * Reads the report a check wrote to `reportPath` (relative to `cwd`).
+ * Reports older than `notBefore` are rejected so a stale file from an
+ * earlier run is never attributed to this check.
+ */
+export async function readProgrammaticTestReport(options: {
+  cwd: string;
+  reportPath: string;
+  notBefore: Date;
+}): Promise<ProgrammaticTestReport> {
+  const { cwd, reportPath, notBefore } = options;
+  const absolutePath = resolve(cwd, reportPath);
+
+  let content: string;
+  try {
+    const stats = await stat(absolutePath);
+    if (stats.mtimeMs < notBefore.getTime() - MTIME_TOLERANCE_MS) {
+      throw new Error(
+        `Test report \`${reportPath}\` was not updated by this check.`,
+      );
+    }
+    content = await readFile(absolutePath, "utf8");
+  } catch (error) {
+    if (isMissing(error)) {
+      throw new Error(`Test report \`${reportPath}\` was not written.`);
+    }
+    throw error;
+  }
+
+  return parseProgrammaticTestReport(content, reportPath);
+}
+
+export function parseProgrammaticTestReport(
+  content: string,
+  reportPath: string,
+): ProgrammaticTestReport {
+  const format = content.trimStart().startsWith("<") ? "junit" : "tap";
+  const cases =
+    format === "junit"
+      ? parseJUnitTestCases(content)
+      : parseTapTestCases(content);
+  return summarizeTestCases({ format, path: reportPath, cases });
+}
+
+function summarizeTestCases(options: {
+  format: ProgrammaticTestReport["format"];
+  path: string;
+  cases: readonly TestCaseOutcome[];
+}): ProgrammaticTestReport {
+  const { format, path, cases } = options;
+  const failedTests = cases
+    .filter((testCase) => testCase.outcome === "failed")
+    .map((testCase) => testCase.name);
+  return {
+    format,
+    path,
+    total: cases.length,
+    passed: cases.filter((testCase) => testCase.outcome === "passed").length,
+    failed: failedTests.length,
+    skipped: cases.filter((testCase) => testCase.outcome === "skipped").length,
+    failedTests: failedTests.slice(0, MAX_RECORDED_FAILED_TESTS),
+  };
+}
+
+const JUNIT_TESTCASE_PATTERN =
+  /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase\s*>)/gu;
+
+function parseJUnitTestCases(content: string): TestCaseOutcome[] {
+  const cases: TestCaseOutcome[] = [];
+  for (const match of content.matchAll(JUNIT_TESTCASE_PATTERN)) {
+    const attributes = match[1] ?? "";
+    const body = match[2] ?? "";
+    const name = readXmlAttribute(attributes, "name") ?? "(unnamed test)";
+    const className = readXmlAttribute(attributes, "classname");
+    cases.push({
+      name: className ? `${className} > ${name}` : name,
+      outcome: /<(?:failure|error)\b/u.test(body)
+        ? "failed"
+        : /<skipped\b/u.test(body)
+          ? "skipped"
+          : "passed",
+    });
+  }
+  return cases;
+}
+
+function readXmlAttribute(
+  attributes: string,
+  attribute: string,
+): string | undefined {
+  const match = new RegExp(
+    `\\b${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`,
+    "u",
+  ).exec(attributes);
+  const raw = match?.[2] ?? match?.[3];
+  return raw === undefined ? undefined : decodeXmlEntities(raw);
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/giu, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/gu, (_, decimal: string) =>
+      String.fromCodePoint(Number.parseInt(decimal, 10)),
+    )
+    .replace(/&quot;/gu, '"')
+    .replace(/&apos;/gu, "'")
+    .replace(/&lt;/gu, "<")
+    .replace(/&gt;/gu, ">")
+    .replace(/&amp;/gu, "&");
+}
+
+const TAP_RESULT_PATTERN =
+  /^(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*([^#]*?)\s*(?:#\s*(\w+)[^\n]*)?$/iu;
+
+/** Only top-level TAP results count; indented subtest lines are ignored. */
+function parseTapTestCases(content: string): TestCaseOutcome[] {
+  const cases: TestCaseOutcome[] = [];
+  for (const line of content.split(/\r?\n/u)) {
+    const match = TAP_RESULT_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+    const directive = match[3]?.toLowerCase();
+    const name = match[2] || `test ${cases.length + 1}`;
+    cases.push({
+      name,
+      outcome:
+        directive?.startsWith("skip") || directive === "todo"
+          ? "skipped"
+          : match[1]
+            ? "failed"
+            : "passed",
+    });
+  }
+  return cases;
+}
+
+/** Renders one candidate's test reports for rubric verifiers to read. */
+export function renderProgrammaticTestReportsMarkdown(
+  results: readonly ProgrammaticCheckResult[],
+): string {
+  const lines = ["# Test reports"];
+  for (const result of results) {
+    lines.push("", `## ${result.slug}`, "", `- check status: ${result.status}`);
+    const { report } = result;
+    if (!report) {
+      lines.push(`- report unavailable: ${result.reportError ?? "unknown"}`);
+      continue;
+    }
+    lines.push(
+      `- format: ${report.format}`,
+      `- total: ${report.total}`,
+      `- passed: ${report.passed}`,
+      `- failed: ${report.failed}`,
+      `- skipped: ${report.skipped}`,
+    );
+    if (report.failedTests.length > 0) {
+      lines.push(
+        "- failing tests:",
+        ...report.failedTests.map((name) => `  - ${name}`),
+      );
+      const unlisted = report.failed - report.failedTests.length;
+      if (unlisted > 0) {
+        lines.push(`  - (${unlisted} more not listed)`);
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -1,5 +1,10 @@
 import { z } from "zod";
 
+import {
+  type VerificationCriterionVerdict,
+  verificationCriterionVerdictSchema,
+} from "../../configs/verification/types.js";
+
 export const rubricResultPayloadSchema = z.object({}).catchall(z.unknown());
 
 export type RubricResultPayload = z.infer<typeof rubricResultPayloadSchema>;
@@ -29,6 +34,32 @@ export const rubricRecommendationSchema = z
 
 export type RubricRecommendation = z.infer<typeof rubricRecommendationSchema>;
 
+export type RubricCriterionVerdict = VerificationCriterionVerdict;
+
+/**
+ * The `criteria` section of a run verifier's result: one entry per staged
+ * acceptance criterion, each carrying a verdict and evidence per candidate.
+ */
+export const rubricCriteriaSchema = z
+  .array(
+    z.object({
+      id: z.string().trim().min(1),
+      criterion: z.string().trim().min(1).optional(),
+      verdicts: z
+        .array(
+          z.object({
+            candidate: verificationSelectorSchema,
+            verdict: verificationCriterionVerdictSchema,
+            evidence: z.string().trim().min(1),
+          }),
+        )
+        .min(1),
+    }),
+  )
+  .min(1);
+
+export type RubricCriteria = z.infer<typeof rubricCriteriaSchema>;
+
 export function parseRubricResultPayload(raw: string): RubricResultPayload {
   let parsed: unknown;
   try {
@@ -85,6 +116,30 @@ export function parseRubricRecommendationFromResult(
   return validation.data;
 }
 
+export function safeParseRubricCriteriaFromResult(
+  result: RubricResultPayload,
+):
+  | { success: true; data: RubricCriteria | undefined }
+  | { success: false; error: z.ZodError<RubricCriteria> } {
+  if (result["criteria"] === undefined) {
+    return { success: true, data: undefined };
+  }
+
+  const validation = rubricCriteriaSchema.safeParse(result["criteria"]);
+  if (!validation.success) {
+    return validation;
+  }
+
+  return { success: true, data: validation.data };
+}
+
+export function readRubricResultCriteria(
+  result: RubricResultPayload,
+): RubricCriteria | undefined {
+  const validation = safeParseRubricCriteriaFromResult(result);
+  return validation.success ? validation.data : undefined;
+}
+
 export function readRubricResultPreferred(
   result: RubricResultPayload,
 ): string | undefined {
@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+import { agentIdSchema } from "../../../configs/agents/types.js";
+import { WORKFLOW_STAGE_OPERATORS } from "../../../configs/workflows/types.js";
+import { validateRecordLifecycleTimestamps } from "../../shared/lifecycle.js";
+
+const WORKFLOW_STATUS_VALUES = [
+  "running",
+  "succeeded",
+  "failed",
+  "aborted",
+  "action_required",
+] as const;
+
+const WORKFLOW_STAGE_STATUS_VALUES = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "aborted",
+  "skipped",
+] as const;
+
+export const workflowStatusSchema = z.enum(WORKFLOW_STATUS_VALUES);
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>;
+
+export const TERMINAL_WORKFLOW_STATUSES = [
+  "succeeded",
+  "failed",
+  "aborted",
+  "action_required",
+] as const satisfies readonly WorkflowStatus[];
+
+export const workflowStageStatusSchema = z.enum(WORKFLOW_STAGE_STATUS_VALUES);
+export type WorkflowStageStatus = z.infer<typeof workflowStageStatusSchema>;
+
+export const workflowIndexEntrySchema = z
+  .object({
+    sessionId: z.string().min(1),
+    createdAt: z.string().min(1),
+    status: workflowStatusSchema,
+    workflow: z.string().min(1),
+  })
+  .strict();
+export type WorkflowIndexEntry = z.infer<typeof workflowIndexEntrySchema>;
+
+export const workflowIndexRecordSchema = z
+  .object({
+    version: z.literal(1),
+    sessions: z.array(workflowIndexEntrySchema),
+  })
+  .strict();
+
+/** One stage of a workflow session and the child session it produced. */
+export const workflowRecordStageSchema = z
+  .object({
+    id: z.string().min(1),
+    operator: z.enum(WORKFLOW_STAGE_OPERATORS),
+    status: workflowStageStatusSchema,
+    from: z.array(z.string().min(1)).optional(),
+    /** Child session id; for apply stages, the run that was applied. */
+    sessionId: z.string().min(1).optional(),
+    agentId: agentIdSchema.optional(),
+    selection: z.enum(["resolvable", "unresolved"]).optional(),
+    detail: z.string().min(1).optional(),
+  })
+  .strict();
+export type WorkflowRecordStage = z.infer<typeof workflowRecordStageSchema>;
+
+export const workflowRecordSchema = z
+  .object({
+    sessionId: z.string().min(1),
+    createdAt: z.string().min(1),
+    startedAt: z.string().optional(),
+    completedAt: z.string().optional(),
+    status: workflowStatusSchema,
+    workflow: z.string().min(1),
+    stages: z.array(workflowRecordStageSchema),
+  })
+  .strict()
+  .superRefine((record, ctx) => {
+    validateRecordLifecycleTimestamps(
+      {
+        status: record.status,
+        createdAt: record.createdAt,
+        startedAt: record.startedAt,
+        completedAt: record.completedAt,
+      },
+      ctx,
+      {
+        queued: [],
+        running: ["running"],
+        terminal: TERMINAL_WORKFLOW_STATUSES,
+      },
+    );
+  });
+export type WorkflowRecord = z.infer<typeof workflowRecordSchema>;
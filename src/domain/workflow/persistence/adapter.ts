@@ -0,0 +1,132 @@
+import {
+  mapSessionStoreError,
+  sessionStoreErrorMapper,
+} from "../../../persistence/error-mapping.js";
+import { SessionRecordParseError } from "../../../persistence/errors.js";
+import { acquireHistoryLock } from "../../../persistence/history-lock.js";
+import {
+  createSessionStore,
+  type SessionStorePaths,
+} from "../../../persistence/session-store.js";
+import { resolvePath } from "../../../utils/path.js";
+import {
+  getWorkflowHistoryLockPath,
+  getWorkflowIndexPath,
+  getWorkflowSessionsDirectoryPath,
+} from "../../../workspace/session-paths.js";
+import {
+  type WorkflowIndexEntry,
+  workflowIndexRecordSchema,
+  type WorkflowRecord,
+  workflowRecordSchema,
+  type WorkflowStatus,
+} from "../model/types.js";
+
+const WORKFLOW_INDEX_VERSION = 1 as const;
+
+const workflowPersistence = createSessionStore<
+  WorkflowRecord,
+  WorkflowIndexEntry,
+  WorkflowStatus
+>({
+  recordFilename: "record.json",
+  indexVersion: WORKFLOW_INDEX_VERSION,
+  acquireLock: acquireHistoryLock,
+  parseRecord: ({ path, raw }) => parseWorkflowRecord(path, raw),
+  buildIndexEntry: (record) => ({
+    sessionId: record.sessionId,
+    createdAt: record.createdAt,
+    status: record.status,
+    workflow: record.workflow,
+  }),
+  getIndexEntryId: (entry) => entry.sessionId,
+  getIndexEntryCreatedAt: (entry) => entry.createdAt,
+  shouldForceFlush: (record) => record.status !== "running",
+  getRecordId: (record) => record.sessionId,
+  getRecordStatus: (record) => record.status,
+  readIndexEntries: (parsed) => {
+    const result = workflowIndexRecordSchema.safeParse(parsed);
+    return result.success ? result.data.sessions : [];
+  },
+});
+
+export async function readWorkflowRecords(options: {
+  root: string;
+  limit?: number;
+  predicate?: (record: WorkflowRecord) => boolean;
+}): Promise<WorkflowRecord[]> {
+  const { root, limit, predicate } = options;
+  try {
+    return await workflowPersistence.readRecords({
+      paths: buildWorkflowSessionStorePaths(root),
+      limit,
+      predicate,
+    });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
+export async function appendWorkflowRecord(options: {
+  root: string;
+  record: WorkflowRecord;
+}): Promise<void> {
+  const { root, record } = options;
+  try {
+    await workflowPersistence.appendRecord({
+      paths: buildWorkflowSessionStorePaths(root),
+      record,
+    });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
+export async function rewriteWorkflowRecord(options: {
+  root: string;
+  sessionId: string;
+  mutate: (record: WorkflowRecord) => WorkflowRecord;
+}): Promise<WorkflowRecord> {
+  const { root, sessionId, mutate } = options;
+  try {
+    return await workflowPersistence.rewriteRecord({
+      paths: buildWorkflowSessionStorePaths(root),
+      sessionId,
+      mutate,
+      forceFlush: true,
+    });
+  } catch (error) {
+    throw mapSessionStoreError(error, sessionStoreErrorMapper);
+  }
+}
+
+function buildWorkflowSessionStorePaths(root: string): SessionStorePaths {
+  return {
+    root,
+    indexPath: resolvePath(root, getWorkflowIndexPath()),
+    sessionsDir: resolvePath(root, getWorkflowSessionsDirectoryPath()),
+    lockPath: resolvePath(root, getWorkflowHistoryLockPath()),
+  };
+}
+
+function parseWorkflowRecord(path: string, raw: string): WorkflowRecord {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    throw new SessionRecordParseError(
+      path,
+      error instanceof Error ? error.message : "Invalid JSON",
+    );
+  }
+
+  const result = workflowRecordSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new SessionRecordParseError(
+      path,
+      result.error.issues.map((issue) => issue.message).join(", "),
+    );
+  }
+
+  return result.data;
+}
@@ -82,7 +82,9 @@ export function resolveInteractiveAgentProvider(options: {
 }): ResolveInteractiveAgentProviderResult {
   try {
     const agent = loadAgentById(options.agentId, { root: options.root });
-    const resolution = resolveAgentProviderForDefinition(agent);
+    const resolution = resolveAgentProviderForDefinition(agent, {
+      root: options.root,
+    });
     if (!resolution.ok) {
       return {
         ok: false,
@@ -0,0 +1,136 @@
+import type { ListRecord } from "../commands/list/records.js";
+import type { ListOperator } from "../contracts/list.js";
+import type { MessageRecord } from "../domain/message/model/types.js";
+import type { ReductionRecord } from "../domain/reduce/model/types.js";
+import type { RunRecord } from "../domain/run/model/types.js";
+import type { SpecRecord } from "../domain/spec/model/types.js";
+import type { VerificationRecord } from "../domain/verify/model/types.js";
+import { readSessionRecord } from "./resources.js";
+
+const PROGRESS_POLL_INTERVAL_MS = 500;
+
+export interface SessionProgress {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface SessionProgressReporter {
+  /** Starts polling the session once the CLI has recorded it. */
+  track: (sessionId: string) => void;
+  /** Stops polling after reporting the final recorded state. */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Summarizes how many of a session's agents (or verification methods) have
+ * left the queued and running states.
+ */
+export function summarizeSessionProgress(
+  operator: ListOperator,
+  record: ListRecord,
+): SessionProgress {
+  const statuses = listParticipantStatuses(operator, record);
+  const counts = new Map<string, number>();
+  for (const status of statuses) {
+    counts.set(status, (counts.get(status) ?? 0) + 1);
+  }
+  const pending = (counts.get("queued") ?? 0) + (counts.get("running") ?? 0);
+  const breakdown = [...counts.entries()]
+    .map(([status, count]) => `${count} ${status}`)
+    .join(", ");
+  return {
+    progress: statuses.length - pending,
+    total: statuses.length,
+    message: `${operator} ${record.status}${breakdown ? `: ${breakdown}` : ""}`,
+  };
+}
+
+/**
+ * Polls a session record while its CLI process runs, which outlasts the tool
+ * call when the call returned an early acknowledgement, and reports each
+ * change in its progress.
+ */
+export function createSessionProgressReporter(options: {
+  root: string;
+  operator: ListOperator;
+  onProgress: (progress: SessionProgress) => void;
+  intervalMs?: number;
+}): SessionProgressReporter {
+  const { root, operator, onProgress } = options;
+  const intervalMs = options.intervalMs ?? PROGRESS_POLL_INTERVAL_MS;
+  let sessionId: string | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let lastMessage: string | undefined;
+  let polling = Promise.resolve();
+
+  const poll = (): Promise<void> => {
+    polling = polling.then(async () => {
+      if (!sessionId) {
+        return;
+      }
+      const record = await readSessionRecord({
+        root,
+        operator,
+        sessionId,
+      }).catch(() => undefined);
+      if (!record) {
+        return;
+      }
+      const progress = summarizeSessionProgress(operator, record);
+      if (progress.message === lastMessage) {
+        return;
+      }
+      lastMessage = progress.message;
+      onProgress(progress);
+    });
+    return polling;
+  };
+
+  return {
+    track(id) {
+      if (sessionId) {
+        return;
+      }
+      sessionId = id;
+      void poll();
+      timer = setInterval(() => {
+        void poll();
+      }, intervalMs);
+      timer.unref();
+    },
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+      await poll();
+    },
+  };
+}
+
+function listParticipantStatuses(
+  operator: ListOperator,
+  record: ListRecord,
+): string[] {
+  switch (operator) {
+    case "run":
+      return (record as RunRecord).agents.map((agent) => agent.status);
+    case "spec":
+      return (record as SpecRecord).agents.map((agent) => agent.status);
+    case "reduce":
+      return (record as ReductionRecord).reducers.map(
+        (reducer) => reducer.status,
+      );
+    case "verify":
+      return (record as VerificationRecord).methods.map(
+        (method) => method.status,
+      );
+    case "message":
+      return (record as MessageRecord).recipients.map(
+        (recipient) => recipient.status,
+      );
+    case "interactive":
+      return [];
+  }
+}
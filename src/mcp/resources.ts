@@ -0,0 +1,461 @@
+import { type Stats, unwatchFile, watchFile } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+
+import { getListRecordId, type ListRecord } from "../commands/list/records.js";
+import { type ListOperator, listOperators } from "../contracts/list.js";
+import { readInteractiveRecords } from "../domain/interactive/persistence/adapter.js";
+import type { MessageRecord } from "../domain/message/model/types.js";
+import { readMessageRecords } from "../domain/message/persistence/adapter.js";
+import type { ReductionRecord } from "../domain/reduce/model/types.js";
+import { readReductionRecords } from "../domain/reduce/persistence/adapter.js";
+import type { RunRecord } from "../domain/run/model/types.js";
+import { readRunRecords } from "../domain/run/persistence/adapter.js";
+import type { SpecRecord } from "../domain/spec/model/types.js";
+import { readSpecRecords } from "../domain/spec/persistence/adapter.js";
+import type { VerificationRecord } from "../domain/verify/model/types.js";
+import { readVerificationRecords } from "../domain/verify/persistence/adapter.js";
+import { pathExists } from "../utils/fs.js";
+import { resolvePath } from "../utils/path.js";
+import { buildAgentArtifactPaths } from "../workspace/artifact-paths.js";
+import { VORATIQ_INDEX_FILENAME } from "../workspace/constants.js";
+import {
+  formatDomainScopedPath,
+  formatSessionScopedPath,
+} from "../workspace/path-formatters.js";
+
+export const VORATIQ_SESSION_RESOURCE_SCHEME = "voratiq://";
+
+const SESSION_RECORD_FILENAME = "record.json";
+const SUBSCRIPTION_POLL_INTERVAL_MS = 1_000;
+
+export interface McpResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface McpResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface SessionResource extends McpResourceDescriptor {
+  readonly read: () => Promise<string>;
+}
+
+export const VORATIQ_SESSION_RESOURCE_TEMPLATES: readonly McpResourceTemplateDescriptor[] =
+  [
+    {
+      uriTemplate: "voratiq://{operator}/{sessionId}",
+      name: "Session record",
+      description:
+        "Persisted record for a spec, run, reduce, verify, message, or interactive session.",
+      mimeType: "application/json",
+    },
+    {
+      uriTemplate: "voratiq://run/{sessionId}/{agentId}/{artifact}",
+      name: "Run agent artifact",
+      description:
+        "Captured run artifact: diff.patch, summary.txt, stdout.log, stderr.log, or chat transcript.",
+      mimeType: "text/plain",
+    },
+    {
+      uriTemplate: "voratiq://spec/{sessionId}/{agentId}/{artifact}",
+      name: "Spec draft",
+      description: "Spec draft (spec.md) or its structured data (spec.json).",
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "voratiq://reduce/{sessionId}/{agentId}/{artifact}",
+      name: "Reducer output",
+      description: "Reduction (reduction.md) or its structured data.",
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "voratiq://reduce/{sessionId}/reduction.md",
+      name: "Reduction",
+      description:
+        "Reduction of a session with exactly one successful reducer.",
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "voratiq://message/{sessionId}/{agentId}/response.md",
+      name: "Message response",
+      description: "Recorded reply from one message recipient.",
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "voratiq://verify/{sessionId}/result",
+      name: "Verification result",
+      description:
+        "Verification record together with every recorded method artifact.",
+      mimeType: "application/json",
+    },
+  ];
+
+/**
+ * Lists every recorded session and artifact under `root`. Each operator's
+ * index is read through its persistence adapter, so corrupt sessions are
+ * skipped the same way `voratiq list` skips them.
+ */
+export async function listSessionResources(
+  root: string,
+): Promise<McpResourceDescriptor[]> {
+  const resources: McpResourceDescriptor[] = [];
+  for (const operator of listOperators) {
+    const records = await readOperatorRecords({ root, operator });
+    for (const record of records) {
+      for (const resource of buildSessionResources({
+        root,
+        operator,
+        record,
+      })) {
+        resources.push(toDescriptor(resource));
+      }
+    }
+  }
+  return resources;
+}
+
+export async function readSessionResource(
+  root: string,
+  uri: string,
+): Promise<McpResourceContents | undefined> {
+  const parsed = parseSessionResourceUri(uri);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const record = await readSessionRecord({ root, ...parsed });
+  if (!record) {
+    return undefined;
+  }
+
+  const resource = buildSessionResources({
+    root,
+    operator: parsed.operator,
+    record,
+  }).find((candidate) => candidate.uri === uri);
+  if (!resource) {
+    return undefined;
+  }
+
+  return {
+    uri,
+    mimeType: resource.mimeType,
+    text: await resource.read(),
+  };
+}
+
+/** Reads one session record through its operator's persistence adapter. */
+export async function readSessionRecord(options: {
+  root: string;
+  operator: ListOperator;
+  sessionId: string;
+}): Promise<ListRecord | undefined> {
+  const [record] = await readOperatorRecords(options);
+  return record;
+}
+
+export function parseSessionResourceUri(
+  uri: string,
+): { operator: ListOperator; sessionId: string } | undefined {
+  if (!uri.startsWith(VORATIQ_SESSION_RESOURCE_SCHEME)) {
+    return undefined;
+  }
+  const [operator, sessionId] = uri
+    .slice(VORATIQ_SESSION_RESOURCE_SCHEME.length)
+    .split("/");
+  if (!operator || !sessionId || !isListOperator(operator)) {
+    return undefined;
+  }
+  return { operator, sessionId };
+}
+
+/**
+ * Watches the session records behind subscribed resource URIs and reports
+ * the URI whenever its record file changes on disk.
+ */
+export function createSessionResourceWatcher(options: {
+  root: string;
+  onUpdated: (uri: string) => void;
+  intervalMs?: number;
+}): {
+  subscribe: (uri: string) => boolean;
+  unsubscribe: (uri: string) => void;
+  close: () => void;
+} {
+  const { root, onUpdated } = options;
+  const intervalMs = options.intervalMs ?? SUBSCRIPTION_POLL_INTERVAL_MS;
+  const watchers = new Map<
+    string,
+    { path: string; listener: (current: Stats, previous: Stats) => void }
+  >();
+
+  const unsubscribe = (uri: string): void => {
+    const watcher = watchers.get(uri);
+    if (!watcher) {
+      return;
+    }
+    unwatchFile(watcher.path, watcher.listener);
+    watchers.delete(uri);
+  };
+
+  return {
+    subscribe(uri) {
+      const parsed = parseSessionResourceUri(uri);
+      if (!parsed) {
+        return false;
+      }
+      if (watchers.has(uri)) {
+        return true;
+      }
+      let path: string;
+      try {
+        path = resolvePath(
+          root,
+          formatSessionScopedPath(
+            parsed.operator,
+            parsed.sessionId,
+            SESSION_RECORD_FILENAME,
+          ),
+        );
+      } catch {
+        return false;
+      }
+      const listener = (current: Stats, previous: Stats): void => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          onUpdated(uri);
+        }
+      };
+      watchFile(path, { interval: intervalMs, persistent: false }, listener);
+      watchers.set(uri, { path, listener });
+      return true;
+    },
+    unsubscribe,
+    close() {
+      for (const uri of [...watchers.keys()]) {
+        unsubscribe(uri);
+      }
+    },
+  };
+}
+
+function buildSessionResources(options: {
+  root: string;
+  operator: ListOperator;
+  record: ListRecord;
+}): SessionResource[] {
+  const { root, operator, record } = options;
+  const sessionId = getListRecordId(operator, record);
+  const sessionUri = `${VORATIQ_SESSION_RESOURCE_SCHEME}${operator}/${sessionId}`;
+  const resources: SessionResource[] = [
+    {
+      uri: sessionUri,
+      name: `${operator} ${sessionId}`,
+      description: `Session record (${record.status})`,
+      mimeType: "application/json",
+      read: () => Promise.resolve(`${JSON.stringify(record, null, 2)}\n`),
+    },
+  ];
+
+  const fileResource = (
+    agentId: string | undefined,
+    relativePath: string,
+  ): SessionResource => {
+    const filename = basename(relativePath);
+    const scope = agentId ? `${agentId}/${filename}` : filename;
+    return {
+      uri: `${sessionUri}/${scope}`,
+      name: `${operator} ${sessionId} ${scope}`,
+      mimeType: inferMimeType(filename),
+      read: async () => await readFile(resolvePath(root, relativePath), "utf8"),
+    };
+  };
+
+  if (operator === "run") {
+    const runRecord = record as RunRecord;
+    for (const agent of runRecord.agents) {
+      const paths = buildAgentArtifactPaths({
+        runId: runRecord.runId,
+        agentId: agent.agentId,
+        artifacts: agent.artifacts,
+      });
+      for (const path of [
+        paths.diffPath,
+        paths.summaryPath,
+        paths.stdoutPath,
+        paths.stderrPath,
+        paths.chatPath,
+        paths.sandboxDenialsPath,
+      ]) {
+        if (path) {
+          resources.push(fileResource(agent.agentId, path));
+        }
+      }
+    }
+  } else if (operator === "spec") {
+    for (const agent of (record as SpecRecord).agents) {
+      for (const path of [agent.outputPath, agent.dataPath]) {
+        if (path) {
+          resources.push(fileResource(agent.agentId, path));
+        }
+      }
+    }
+  } else if (operator === "reduce") {
+    const reducers = (record as ReductionRecord).reducers;
+    for (const reducer of reducers) {
+      if (reducer.status !== "succeeded") {
+        continue;
+      }
+      for (const path of [reducer.outputPath, reducer.dataPath]) {
+        if (path) {
+          resources.push(fileResource(reducer.agentId, path));
+        }
+      }
+    }
+    const succeeded = reducers.filter(
+      (reducer) => reducer.status === "succeeded",
+    );
+    if (succeeded.length === 1 && succeeded[0]) {
+      resources.push(fileResource(undefined, succeeded[0].outputPath));
+    }
+  } else if (operator === "message") {
+    for (const recipient of (record as MessageRecord).recipients) {
+      if (recipient.outputPath) {
+        resources.push(fileResource(recipient.agentId, recipient.outputPath));
+      }
+    }
+  } else if (operator === "verify") {
+    const verificationRecord = record as VerificationRecord;
+    resources.push({
+      uri: `${sessionUri}/result`,
+      name: `verify ${sessionId} result`,
+      description: "Verification record with method artifacts",
+      mimeType: "application/json",
+      read: async () =>
+        `${JSON.stringify(
+          await buildVerificationResult(root, verificationRecord),
+          null,
+          2,
+        )}\n`,
+    });
+  }
+
+  return resources;
+}
+
+async function buildVerificationResult(
+  root: string,
+  record: VerificationRecord,
+): Promise<unknown> {
+  const methods = await Promise.all(
+    record.methods.map(async (method) => {
+      if (!method.artifactPath) {
+        return method;
+      }
+      const absolutePath = resolvePath(root, method.artifactPath);
+      if (!(await pathExists(absolutePath))) {
+        return method;
+      }
+      return {
+        ...method,
+        artifact: JSON.parse(await readFile(absolutePath, "utf8")) as unknown,
+      };
+    }),
+  );
+  return { ...record, methods };
+}
+
+async function readOperatorRecords(options: {
+  root: string;
+  operator: ListOperator;
+  sessionId?: string;
+}): Promise<ListRecord[]> {
+  const { root, operator, sessionId } = options;
+  const indexPath = resolvePath(
+    root,
+    formatDomainScopedPath(operator, VORATIQ_INDEX_FILENAME),
+  );
+  if (!(await pathExists(indexPath))) {
+    return [];
+  }
+
+  const predicate = sessionId
+    ? (record: ListRecord): boolean =>
+        getListRecordId(operator, record) === sessionId
+    : undefined;
+  switch (operator) {
+    case "run":
+      return await readRunRecords({ root, runsFilePath: indexPath, predicate });
+    case "spec":
+      return await readSpecRecords({
+        root,
+        specsFilePath: indexPath,
+        predicate,
+      });
+    case "reduce":
+      return await readReductionRecords({
+        root,
+        reductionsFilePath: indexPath,
+        predicate,
+      });
+    case "verify":
+      return await readVerificationRecords({
+        root,
+        verificationsFilePath: indexPath,
+        predicate,
+      });
+    case "message":
+      return await readMessageRecords({
+        root,
+        messagesFilePath: indexPath,
+        predicate,
+      });
+    case "interactive":
+      return await readInteractiveRecords({
+        root,
+        interactiveFilePath: indexPath,
+        predicate,
+      });
+  }
+}
+
+function toDescriptor(resource: SessionResource): McpResourceDescriptor {
+  return {
+    uri: resource.uri,
+    name: resource.name,
+    ...(resource.description ? { description: resource.description } : {}),
+    mimeType: resource.mimeType,
+  };
+}
+
+function inferMimeType(filename: string): string {
+  if (filename.endsWith(".md")) {
+    return "text/markdown";
+  }
+  if (filename.endsWith(".json")) {
+    return "application/json";
+  }
+  if (filename.endsWith(".jsonl")) {
+    return "application/jsonl";
+  }
+  if (filename.endsWith(".patch")) {
+    return "text/x-diff";
+  }
+  return "text/plain";
+}
+
+function isListOperator(value: string): value is ListOperator {
+  return (listOperators as readonly string[]).includes(value);
+}
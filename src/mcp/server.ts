@@ -1,4 +1,4 @@
-import { spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
 import { mkdtemp, readFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
@@ -9,8 +9,12 @@ import { z } from "zod";
 import {
   type ExternalApplyExecutionInput,
   externalApplyExecutionInputSchema,
+  type ExternalCompareInspectionInput,
+  externalCompareInspectionInputSchema,
   externalInspectionOperators,
   externalInspectionOperatorSchema,
+  externalListFilterShape,
+  externalListTimelineInputSchema,
   type ExternalMessageExecutionInput,
   externalMessageExecutionInputSchema,
   type ExternalReduceExecutionInput,
@@ -21,12 +25,17 @@ import {
   externalSpecExecutionInputSchema,
   type ExternalVerifyExecutionInput,
   externalVerifyExecutionInputSchema,
+  resolveExternalReduceTargets,
 } from "../cli/contract.js";
 import {
   buildSwarmSessionAcknowledgementEnvelope,
   type OperatorResultEnvelope,
   operatorResultEnvelopeSchema,
 } from "../cli/operator-envelope.js";
+import {
+  type CompareJsonOutput,
+  compareJsonOutputSchema,
+} from "../contracts/compare.js";
 import {
   type ListJsonOutput,
   listJsonOutputSchema,
@@ -42,6 +51,15 @@ import {
   resolveVoratiqCliTarget,
   type VoratiqCliTarget,
 } from "../utils/voratiq-cli-target.js";
+import { createSessionProgressReporter } from "./progress.js";
+import {
+  createSessionResourceWatcher,
+  listSessionResources,
+  type McpResourceContents,
+  type McpResourceDescriptor,
+  readSessionResource,
+  VORATIQ_SESSION_RESOURCE_TEMPLATES,
+} from "./resources.js";
 
 const JSON_RPC_VERSION = "2.0" as const;
 const HEADER_DELIMITER = Buffer.from("\r\n\r\n", "utf8");
@@ -78,7 +96,11 @@ export type VoratiqMcpExecutionToolName =
   | "voratiq_message"
   | "voratiq_apply";
 
-export type VoratiqMcpToolName = VoratiqMcpExecutionToolName | "voratiq_list";
+export type VoratiqMcpToolName =
+  | VoratiqMcpExecutionToolName
+  | "voratiq_list"
+  | "voratiq_compare"
+  | "voratiq_cancel";
 
 export type VoratiqMcpOperator =
   | "spec"
@@ -87,7 +109,8 @@ export type VoratiqMcpOperator =
   | "verify"
   | "message"
   | "apply"
-  | "list";
+  | "list"
+  | "compare";
 
 type SwarmExecutionOperator = "spec" | "run" | "reduce" | "verify" | "message";
 
@@ -117,7 +140,7 @@ interface ToolSpec {
   readonly inputSchemaSource: z.ZodTypeAny;
   readonly mcpInputSchema?: Record<string, unknown>;
   readonly buildArgs: (input: unknown) => string[];
-  readonly outputContract: "execution" | "list";
+  readonly outputContract: "execution" | "list" | "compare";
 }
 
 const mcpListInspectionInputSchema = z.discriminatedUnion("mode", [
@@ -125,8 +148,7 @@ const mcpListInspectionInputSchema = z.discriminatedUnion("mode", [
     .object({
       operator: externalInspectionOperatorSchema,
       mode: z.literal("summary"),
-      allStatuses: z.boolean().optional(),
-      limit: z.number().int().positive().optional(),
+      ...externalListFilterShape,
     })
     .strict(),
   z
@@ -136,15 +158,28 @@ const mcpListInspectionInputSchema = z.discriminatedUnion("mode", [
       sessionId: z.string().min(1),
     })
     .strict(),
+  externalListTimelineInputSchema,
 ]);
 
 type McpListInspectionInput = z.infer<typeof mcpListInspectionInputSchema>;
 
+const MCP_LIST_SUMMARY_ONLY_KEYS = Object.keys(externalListFilterShape);
+
 interface CliInvocationSuccess {
   kind: "success";
   exitCode: number;
   stdout: string;
   stderr: string;
+  /**
+   * Set when the result is an early acknowledgement; the CLI keeps running in
+   * the background until `completion` settles.
+   */
+  acknowledgement?: SessionAcknowledgement;
+}
+
+interface SessionAcknowledgement {
+  sessionId: string;
+  completion: Promise<void>;
 }
 
 interface CliInvocationSpawnFailed {
@@ -157,6 +192,13 @@ type CliInvocationResult = CliInvocationSuccess | CliInvocationSpawnFailed;
 interface InvokeCliJsonContractInput {
   operator: VoratiqMcpOperator;
   args: string[];
+  /** Interrupts the CLI with SIGINT so it tears down like a Ctrl-C. */
+  signal?: AbortSignal;
+  /**
+   * Receives the swarm session id once it is recorded. When set, the call
+   * waits for the CLI to finish instead of returning the early acknowledgement.
+   */
+  onSessionAcknowledged?: (sessionId: string) => void;
 }
 
 export type InvokeCliJsonContract = (
@@ -166,6 +208,10 @@ export type InvokeCliJsonContract = (
 export interface CreateVoratiqMcpRequestHandlerOptions {
   invokeCliJsonContract?: InvokeCliJsonContract;
   serverVersion?: string;
+  /** Repository whose sessions back `voratiq://` resources; defaults to cwd. */
+  root?: string;
+  /** Delivers server-initiated notifications such as resource updates. */
+  sendNotification?: (notification: JsonRpcNotificationResponse) => void;
 }
 
 interface JsonRpcRequestMessage {
@@ -225,9 +271,30 @@ const callToolParamsSchema = z
   .object({
     name: z.string(),
     arguments: z.record(z.string(), z.unknown()).optional(),
+    _meta: z
+      .object({
+        progressToken: z.union([z.string(), z.number()]).optional(),
+      })
+      .passthrough()
+      .optional(),
   })
   .passthrough();
 
+const cancelledNotificationParamsSchema = z
+  .object({
+    requestId: z.union([z.string(), z.number()]),
+    reason: z.string().optional(),
+  })
+  .passthrough();
+
+const cancelToolInputSchema = z
+  .object({
+    sessionId: z.string().min(1),
+  })
+  .strict();
+
+const CANCEL_TOOL_NAME = "voratiq_cancel" as const;
+
 const toolSpecs: readonly ToolSpec[] = [
   {
     name: "voratiq_spec",
@@ -253,7 +320,7 @@ const toolSpecs: readonly ToolSpec[] = [
     name: "voratiq_reduce",
     operator: "reduce",
     description:
-      "Synthesize Voratiq artifacts into a reduced output for comparison or follow-on work.",
+      "Synthesize one or more Voratiq sessions into a reduced output for comparison or follow-on work.",
     inputSchemaSource: externalReduceExecutionInputSchema,
     buildArgs: (input) =>
       buildReduceExecutionArgs(input as ExternalReduceExecutionInput),
@@ -293,21 +360,39 @@ const toolSpecs: readonly ToolSpec[] = [
     name: "voratiq_list",
     operator: "list",
     description:
-      "Inspect or poll recorded Voratiq sessions for one operator (`spec`, `run`, `reduce`, `verify`, `message`, or `interactive`) in summary or detail scope.",
+      "Inspect or poll recorded Voratiq sessions for one operator (`spec`, `run`, `reduce`, `verify`, `message`, or `interactive`) in summary or detail scope, or across every operator in timeline scope. Summary and timeline scope filter by agent, status, creation date, spec path, applied runs, orchestration profile, and text.",
     inputSchemaSource: mcpListInspectionInputSchema,
     mcpInputSchema: createListMcpInputSchema(),
     buildArgs: (input) =>
       buildListInspectionArgs(input as McpListInspectionInput),
     outputContract: "list",
   },
+  {
+    name: "voratiq_compare",
+    operator: "compare",
+    description:
+      "Compare the candidates of a recorded Voratiq run side by side (files touched, diffstat, programmatic checks, token usage, duration), or pass two agentIds to diff one candidate's result tree against another's.",
+    inputSchemaSource: externalCompareInspectionInputSchema,
+    buildArgs: (input) =>
+      buildCompareInspectionArgs(input as ExternalCompareInspectionInput),
+    outputContract: "compare",
+  },
 ] as const;
 
-const toolDefinitions: readonly McpToolDefinition[] = toolSpecs.map((tool) => ({
-  name: tool.name,
-  description: tool.description,
-  inputSchema:
-    tool.mcpInputSchema ?? toToolInputJsonSchema(tool.inputSchemaSource),
-}));
+const toolDefinitions: readonly McpToolDefinition[] = [
+  ...toolSpecs.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema:
+      tool.mcpInputSchema ?? toToolInputJsonSchema(tool.inputSchemaSource),
+  })),
+  {
+    name: CANCEL_TOOL_NAME,
+    description:
+      "Interrupt a swarm session this server launched that is still running after its early acknowledgement, the same way Ctrl-C does. Waits for the CLI to exit; the session is recorded as aborted.",
+    inputSchema: toToolInputJsonSchema(cancelToolInputSchema),
+  },
+];
 
 export const VORATIQ_GUIDE_RESOURCE_URI = "voratiq://guide" as const;
 
@@ -332,7 +417,7 @@ Unless explicitly instructed otherwise:
 - **Respect stage boundaries.** Do not advance from spec to run, run to apply, or unresolved verification to rerun/apply until the relevant session state is terminal and understood; use **voratiq_list** and bring unresolved decisions back to the user.
 - **Do not duplicate active swarm work.** If a spec, run, reduce, verify, or message session is queued or running, poll it with **voratiq_list** instead of launching a replacement because it is slow or unclear.
 - **Leave orchestration controls unset by default.** Do not pass **agentIds**, **profile**, or **maxParallel** unless the user explicitly asks for them. **maxParallel** limits concurrency; it does not choose a smaller swarm.
-- **Apply accepted runs through Voratiq.** Use **voratiq_apply** so **applyStatus** records the accepted agent. Surface conflicts, dirty state, or base mismatch instead of bypassing apply.
+- **Apply accepted runs through Voratiq.** Use **voratiq_apply** so **applyStatus** records the accepted agent. Surface conflicts, dirty state, or base mismatch instead of bypassing apply; **threeWay** and **rebaseOnto** reconcile a drifted HEAD, and an **applied_with_conflicts** status leaves conflict markers for the user to resolve.
 
 ## Operators
 
@@ -340,14 +425,15 @@ Swarm operators create recorded sessions and may acknowledge before finishing:
 
 - **spec** drafts or refines a task specification.
 - **run** executes a spec and records agent outputs, diffs, and transcripts.
-- **reduce** synthesizes artifacts from a spec, run, verify, or message session for comparison or follow-on work.
+- **reduce** synthesizes artifacts from one or more spec, run, reduce, verify, or message sessions for comparison or follow-on work. Pass **targets** to reduce several sessions, of mixed kinds, together.
 - **verify** records a structured verdict over a spec, run, reduction, or message session.
 - **message** sends an isolated prompt to agents and records independent replies.
 
 Control operators inspect or materialize recorded state:
 
-- **list** is the primary control plane for session history, progress polling, and detail inspection.
+- **list** is the primary control plane for session history, progress polling, and detail inspection. Use timeline scope with filters to find past sessions across operators.
 - **apply** materializes an accepted run diff into the working tree and records the apply outcome.
+- **compare** lines up a run's candidates side by side, or diffs two candidates' result trees, without changing any state.
 
 ## Workflow Composition
 
@@ -367,6 +453,8 @@ Terminal statuses still require interpretation:
 
 Advance only after the verification state you depend on is terminal and understood.
 
+To stop a swarm session launched through this server, call **voratiq_cancel** with its **sessionId**; it is recorded as **aborted**.
+
 ## Lineage and Inputs
 
 Treat artifact paths as typed workflow inputs. **run** expects a spec input. **reduce** and **verify** evaluate recorded sessions or artifacts in their producing context. A reduction can summarize evidence for follow-on work, but its role still matters when carrying it into another operator.
@@ -395,9 +483,27 @@ export function createVoratiqMcpRequestHandler(
   handleNotification: (
     message: JsonRpcNotificationMessage,
   ) => Promise<void> | void;
+  close: () => void;
 } {
   const invokeCliJsonContract = options.invokeCliJsonContract;
   const serverVersion = options.serverVersion ?? getVoratiqVersion();
+  const root = options.root ?? process.cwd();
+  const sendNotification = options.sendNotification;
+  const resourceWatcher = sendNotification
+    ? createSessionResourceWatcher({
+        root,
+        onUpdated: (uri) => {
+          sendNotification(
+            createNotification("notifications/resources/updated", { uri }),
+          );
+        },
+      })
+    : undefined;
+  const inFlightToolCalls = new Map<string | number, AbortController>();
+  const acknowledgedSessions = new Map<
+    string,
+    { abortController: AbortController; completion: Promise<void> }
+  >();
   let hasInitialized = false;
 
   return {
@@ -447,7 +553,7 @@ export function createVoratiqMcpRequestHandler(
             tools: {
               listChanged: true,
             },
-            resources: {},
+            resources: resourceWatcher ? { subscribe: true } : {},
           },
           instructions: VORATIQ_MCP_SERVER_INSTRUCTIONS,
           serverInfo: {
@@ -488,6 +594,43 @@ export function createVoratiqMcpRequestHandler(
           );
         }
 
+        if (parsed.data.name === CANCEL_TOOL_NAME) {
+          const cancelInput = cancelToolInputSchema.safeParse(
+            parsed.data.arguments ?? {},
+          );
+          if (!cancelInput.success) {
+            return createErrorResponse(
+              message.id,
+              JSON_RPC_INVALID_PARAMS,
+              `Invalid ${CANCEL_TOOL_NAME} arguments.`,
+              {
+                validation: z.flattenError(cancelInput.error),
+              },
+            );
+          }
+          const { sessionId } = cancelInput.data;
+          const session = acknowledgedSessions.get(sessionId);
+          if (!session) {
+            return createSuccessResponse(
+              message.id,
+              buildCallToolResult(
+                {
+                  sessionId,
+                  cancelled: false,
+                  message: `No running session \`${sessionId}\` was launched by this server.`,
+                },
+                true,
+              ),
+            );
+          }
+          session.abortController.abort(`${CANCEL_TOOL_NAME} requested`);
+          await session.completion;
+          return createSuccessResponse(
+            message.id,
+            buildCallToolResult({ sessionId, cancelled: true }, false),
+          );
+        }
+
         const toolName = parsed.data.name as VoratiqMcpToolName;
         const tool = toolSpecsByName.get(toolName);
         if (!tool) {
@@ -505,15 +648,72 @@ export function createVoratiqMcpRequestHandler(
           );
         }
 
-        const result = await executeToolCall({
-          tool,
-          rawInput: parsed.data.arguments ?? {},
-          invokeCliJsonContract,
-        });
-        return createSuccessResponse(message.id, result);
+        const progressToken = parsed.data._meta?.progressToken;
+        const progressReporter =
+          progressToken !== undefined &&
+          sendNotification &&
+          isSwarmExecutionOperator(tool.operator)
+            ? createSessionProgressReporter({
+                root,
+                operator: tool.operator,
+                onProgress: (progress) => {
+                  sendNotification(
+                    createNotification("notifications/progress", {
+                      progressToken,
+                      ...progress,
+                    }),
+                  );
+                },
+              })
+            : undefined;
+        const abortController = new AbortController();
+        const requestId = message.id;
+        if (requestId !== null) {
+          inFlightToolCalls.set(requestId, abortController);
+        }
+
+        try {
+          const result = await executeToolCall({
+            tool,
+            rawInput: parsed.data.arguments ?? {},
+            invokeCliJsonContract,
+            signal: abortController.signal,
+            onSessionAcknowledged: progressReporter?.track,
+            onAcknowledged: ({ sessionId, completion }) => {
+              // The call is answered while the CLI keeps running, so the
+              // session stays cancellable through voratiq_cancel until exit.
+              const session = {
+                abortController,
+                completion: completion.then(() => {
+                  if (acknowledgedSessions.get(sessionId) === session) {
+                    acknowledgedSessions.delete(sessionId);
+                  }
+                }),
+              };
+              acknowledgedSessions.set(sessionId, session);
+            },
+          });
+          return createSuccessResponse(message.id, result);
+        } finally {
+          if (requestId !== null) {
+            inFlightToolCalls.delete(requestId);
+          }
+          await progressReporter?.stop();
+        }
       }
 
       if (message.method === "resources/list") {
+        let sessionResources: McpResourceDescriptor[];
+        try {
+          sessionResources = await listSessionResources(root);
+        } catch (error) {
+          return createErrorResponse(
+            message.id,
+            JSON_RPC_INTERNAL_ERROR,
+            "Failed to list session resources.",
+            { message: toErrorMessage(error) },
+          );
+        }
         return createSuccessResponse(message.id, {
           resources: [
             {
@@ -523,10 +723,17 @@ export function createVoratiqMcpRequestHandler(
                 "Operating contract and reference for Voratiq state, orchestration controls, artifact lineage, operators, polling, and apply attribution.",
               mimeType: "text/plain",
             },
+            ...sessionResources,
           ],
         });
       }
 
+      if (message.method === "resources/templates/list") {
+        return createSuccessResponse(message.id, {
+          resourceTemplates: VORATIQ_SESSION_RESOURCE_TEMPLATES,
+        });
+      }
+
       if (message.method === "resources/read") {
         const uri = isRecord(message.params) ? message.params.uri : undefined;
         if (uri === VORATIQ_GUIDE_RESOURCE_URI) {
@@ -540,6 +747,22 @@ export function createVoratiqMcpRequestHandler(
             ],
           });
         }
+        if (typeof uri === "string") {
+          let contents: McpResourceContents | undefined;
+          try {
+            contents = await readSessionResource(root, uri);
+          } catch (error) {
+            return createErrorResponse(
+              message.id,
+              JSON_RPC_INTERNAL_ERROR,
+              `Failed to read resource: ${uri}`,
+              { message: toErrorMessage(error) },
+            );
+          }
+          if (contents) {
+            return createSuccessResponse(message.id, { contents: [contents] });
+          }
+        }
         return createErrorResponse(
           message.id,
           JSON_RPC_INVALID_PARAMS,
@@ -547,6 +770,39 @@ export function createVoratiqMcpRequestHandler(
         );
       }
 
+      if (
+        message.method === "resources/subscribe" ||
+        message.method === "resources/unsubscribe"
+      ) {
+        const uri = isRecord(message.params) ? message.params.uri : undefined;
+        if (!resourceWatcher) {
+          return createErrorResponse(
+            message.id,
+            JSON_RPC_METHOD_NOT_FOUND,
+            `Method not found: ${message.method}`,
+          );
+        }
+        if (typeof uri !== "string") {
+          return createErrorResponse(
+            message.id,
+            JSON_RPC_INVALID_PARAMS,
+            `Invalid ${message.method} params.`,
+          );
+        }
+        if (message.method === "resources/unsubscribe") {
+          resourceWatcher.unsubscribe(uri);
+          return createSuccessResponse(message.id, {});
+        }
+        if (!resourceWatcher.subscribe(uri)) {
+          return createErrorResponse(
+            message.id,
+            JSON_RPC_INVALID_PARAMS,
+            `Resource does not support subscriptions: ${uri}`,
+          );
+        }
+        return createSuccessResponse(message.id, {});
+      }
+
       return createErrorResponse(
         message.id,
         JSON_RPC_METHOD_NOT_FOUND,
@@ -558,6 +814,20 @@ export function createVoratiqMcpRequestHandler(
       if (message.method === "notifications/initialized") {
         return;
       }
+      if (message.method === "notifications/cancelled") {
+        const parsed = cancelledNotificationParamsSchema.safeParse(
+          message.params,
+        );
+        if (parsed.success) {
+          inFlightToolCalls
+            .get(parsed.data.requestId)
+            ?.abort(parsed.data.reason);
+        }
+      }
+    },
+
+    close(): void {
+      resourceWatcher?.close();
     },
   };
 }
@@ -568,6 +838,7 @@ export interface RunVoratiqMcpStdioServerOptions {
   invokeCliJsonContract?: InvokeCliJsonContract;
   selfCliTarget?: VoratiqCliTarget;
   serverVersion?: string;
+  root?: string;
 }
 
 interface McpInputStream {
@@ -593,9 +864,16 @@ export async function runVoratiqMcpStdioServer(
     createDefaultCliJsonContractInvoker(
       options.selfCliTarget ?? resolveVoratiqCliTarget(),
     );
+  let sendNotification: (
+    notification: JsonRpcNotificationResponse,
+  ) => void = () => {};
   const requestHandler = createVoratiqMcpRequestHandler({
     invokeCliJsonContract,
     serverVersion: options.serverVersion,
+    root: options.root,
+    sendNotification: (notification) => {
+      sendNotification(notification);
+    },
   });
 
   let buffer = Buffer.alloc(0);
@@ -624,6 +902,7 @@ export async function runVoratiqMcpStdioServer(
       if (inFlightHandlers > 0) {
         return;
       }
+      requestHandler.close();
       resolve();
     };
 
@@ -637,6 +916,12 @@ export async function runVoratiqMcpStdioServer(
       return writeChain;
     };
 
+    sendNotification = (notification) => {
+      if (hasCompletedInitialize && !hasEnded) {
+        void writeMessageSerialized(transportEncoding, notification);
+      }
+    };
+
     const handlePayload = async (
       payload: string,
       outputEncoding: McpTransportEncoding,
@@ -795,8 +1080,19 @@ async function executeToolCall(options: {
   tool: ToolSpec;
   rawInput: unknown;
   invokeCliJsonContract: InvokeCliJsonContract;
+  signal?: AbortSignal;
+  onSessionAcknowledged?: (sessionId: string) => void;
+  /** Receives the session the CLI acknowledged early and keeps running. */
+  onAcknowledged?: (acknowledgement: SessionAcknowledgement) => void;
 }): Promise<CallToolResult> {
-  const { tool, rawInput, invokeCliJsonContract } = options;
+  const {
+    tool,
+    rawInput,
+    invokeCliJsonContract,
+    signal,
+    onSessionAcknowledged,
+    onAcknowledged,
+  } = options;
 
   const parsedInput = tool.inputSchemaSource.safeParse(rawInput);
   if (!parsedInput.success) {
@@ -821,7 +1117,12 @@ async function executeToolCall(options: {
   const invocation = await invokeCliJsonContract({
     operator: tool.operator,
     args: tool.buildArgs(parsedInput.data),
+    ...(signal ? { signal } : {}),
+    ...(onSessionAcknowledged ? { onSessionAcknowledged } : {}),
   });
+  if (invocation.kind === "success" && invocation.acknowledgement) {
+    onAcknowledged?.(invocation.acknowledgement);
+  }
   if (invocation.kind === "spawn_failed") {
     return buildTransportFailureCallResult({
       failureKind: "spawn_failed",
@@ -872,6 +1173,24 @@ async function executeToolCall(options: {
     return buildCallToolResult(envelope, isError);
   }
 
+  if (tool.outputContract === "compare") {
+    const compareResult = compareJsonOutputSchema.safeParse(payload);
+    if (!compareResult.success) {
+      return buildTransportFailureCallResult({
+        failureKind: "contract_mismatch",
+        operator: tool.operator,
+        message: "CLI JSON did not match CompareJsonOutput.",
+        details: {
+          expectedContractType: "CompareJsonOutput",
+          validation: z.flattenError(compareResult.error),
+        },
+      });
+    }
+
+    const compareOutput = compareResult.data as CompareJsonOutput;
+    return buildCallToolResult(compareOutput, invocation.exitCode !== 0);
+  }
+
   const listResult = listJsonOutputSchema.safeParse(payload);
   if (!listResult.success) {
     return buildTransportFailureCallResult({
@@ -934,6 +1253,7 @@ function buildSpecExecutionArgs(input: ExternalSpecExecutionInput): string[] {
   appendOptionalStringFlag(args, "--profile", input.profile);
   appendOptionalNumberFlag(args, "--max-parallel", input.maxParallel);
   appendOptionalStringFlag(args, "--title", input.title);
+  appendOptionalStringFlag(args, "--template", input.template);
   appendRepeatedStringFlag(args, "--extra-context", input.extraContext);
   args.push("--json");
   return args;
@@ -944,7 +1264,14 @@ function buildRunExecutionArgs(input: ExternalRunExecutionInput): string[] {
   appendRepeatedStringFlag(args, "--agent", input.agentIds);
   appendOptionalStringFlag(args, "--profile", input.profile);
   appendOptionalNumberFlag(args, "--max-parallel", input.maxParallel);
+  appendOptionalNumberFlag(args, "--max-cost", input.maxCost);
   appendOptionalTrueFlag(args, "--branch", input.branch);
+  appendOptionalStringFlag(args, "--base", input.base);
+  appendOptionalTrueFlag(
+    args,
+    "--include-worktree-changes",
+    input.includeWorktreeChanges,
+  );
   appendRepeatedStringFlag(args, "--extra-context", input.extraContext);
   args.push("--json");
   return args;
@@ -965,7 +1292,10 @@ function buildMessageExecutionArgs(
 function buildReduceExecutionArgs(
   input: ExternalReduceExecutionInput,
 ): string[] {
-  const args = ["reduce", `--${input.target.type}`, input.target.id];
+  const args = ["reduce"];
+  for (const target of resolveExternalReduceTargets(input)) {
+    args.push(`--${target.type}`, target.id);
+  }
   appendRepeatedStringFlag(args, "--agent", input.agentIds);
   appendOptionalStringFlag(args, "--profile", input.profile);
   appendOptionalNumberFlag(args, "--max-parallel", input.maxParallel);
@@ -981,6 +1311,7 @@ function buildVerifyExecutionArgs(
   appendRepeatedStringFlag(args, "--agent", input.agentIds);
   appendOptionalStringFlag(args, "--profile", input.profile);
   appendOptionalNumberFlag(args, "--max-parallel", input.maxParallel);
+  appendOptionalNumberFlag(args, "--max-cost", input.maxCost);
   appendRepeatedStringFlag(args, "--extra-context", input.extraContext);
   args.push("--json");
   return args;
@@ -994,22 +1325,42 @@ function buildApplyExecutionArgs(input: ExternalApplyExecutionInput): string[] {
     input.ignoreBaseMismatch,
   );
   appendOptionalTrueFlag(args, "--commit", input.commit);
+  appendOptionalTrueFlag(args, "--3way", input.threeWay);
+  appendOptionalStringFlag(args, "--rebase-onto", input.rebaseOnto);
   args.push("--json");
   return args;
 }
 
 function buildListInspectionArgs(input: McpListInspectionInput): string[] {
-  const args = ["list", `--${input.operator}`];
+  const args = ["list"];
   if (input.mode === "detail") {
-    args.push(input.sessionId);
+    args.push(`--${input.operator}`, input.sessionId);
   } else {
+    args.push(input.mode === "timeline" ? "--all" : `--${input.operator}`);
     appendOptionalTrueFlag(args, "--all-statuses", input.allStatuses);
     appendOptionalNumberFlag(args, "--limit", input.limit);
+    appendRepeatedStringFlag(args, "--agent", input.agentIds);
+    appendRepeatedStringFlag(args, "--status", input.statuses);
+    appendOptionalStringFlag(args, "--since", input.since);
+    appendOptionalStringFlag(args, "--until", input.until);
+    appendOptionalStringFlag(args, "--spec-path", input.specPath);
+    appendOptionalTrueFlag(args, "--applied", input.applied);
+    appendOptionalStringFlag(args, "--profile", input.profile);
+    appendOptionalStringFlag(args, "--grep", input.grep);
   }
   args.push("--json");
   return args;
 }
 
+function buildCompareInspectionArgs(
+  input: ExternalCompareInspectionInput,
+): string[] {
+  const args = ["compare", "--run", input.runId];
+  appendRepeatedStringFlag(args, "--agent", input.agentIds);
+  args.push("--json");
+  return args;
+}
+
 function describeListInputSemanticValidationFailure(
   rawInput: unknown,
 ): string | undefined {
@@ -1022,7 +1373,7 @@ function describeListInputSemanticValidationFailure(
     if (typeof input.sessionId !== "string" || input.sessionId.length === 0) {
       return "MCP list detail mode requires a non-empty sessionId.";
     }
-    const detailOnlyKeys = ["allStatuses", "limit", "verbose"].filter(
+    const detailOnlyKeys = [...MCP_LIST_SUMMARY_ONLY_KEYS, "verbose"].filter(
       (key) => key in input,
     );
     if (detailOnlyKeys.length > 0) {
@@ -1036,6 +1387,17 @@ function describeListInputSemanticValidationFailure(
     return 'MCP list summary mode does not accept sessionId; use mode "detail" to inspect one session.';
   }
 
+  if (input.mode === "timeline") {
+    const operatorKeys = ["operator", "sessionId"].filter(
+      (key) => key in input,
+    );
+    if (operatorKeys.length > 0) {
+      return `MCP list timeline mode spans every operator; unsupported field(s): ${operatorKeys.join(
+        ", ",
+      )}.`;
+    }
+  }
+
   return undefined;
 }
 
@@ -1091,12 +1453,15 @@ export function createDefaultCliJsonContractInvoker(
         args: [...target.argsPrefix, ...input.args],
         operator: input.operator,
         cwd: process.cwd(),
+        signal: input.signal,
+        onSessionAcknowledged: input.onSessionAcknowledged,
       });
     }
 
     return await invokeSubprocess({
       command: target.command,
       args: [...target.argsPrefix, ...input.args],
+      signal: input.signal,
     });
   };
 }
@@ -1104,6 +1469,7 @@ export function createDefaultCliJsonContractInvoker(
 async function invokeSubprocess(options: {
   command: string;
   args: string[];
+  signal?: AbortSignal;
 }): Promise<CliInvocationResult> {
   return await new Promise<CliInvocationResult>((resolve) => {
     let settled = false;
@@ -1114,6 +1480,7 @@ async function invokeSubprocess(options: {
       },
       stdio: ["ignore", "pipe", "pipe"],
     });
+    forwardAbortAsInterrupt(child, options.signal);
 
     const stdoutChunks: string[] = [];
     const stderrChunks: string[] = [];
@@ -1159,10 +1526,17 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
   args: string[];
   operator: SwarmExecutionOperator;
   cwd: string;
+  signal?: AbortSignal;
+  onSessionAcknowledged?: (sessionId: string) => void;
 }): Promise<CliInvocationResult> {
   const ackDir = await mkdtemp(join(tmpdir(), "voratiq-mcp-ack-"));
   const ackPath = join(ackDir, "ack.json");
 
+  let markExited: () => void = () => {};
+  const completion = new Promise<void>((resolve) => {
+    markExited = resolve;
+  });
+
   return await new Promise<CliInvocationResult>((resolve) => {
     let settled = false;
     let shouldBufferOutput = true;
@@ -1175,6 +1549,7 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
       },
       stdio: ["ignore", "pipe", "pipe"],
     });
+    forwardAbortAsInterrupt(child, options.signal);
 
     const stdoutChunks: string[] = [];
     const stderrChunks: string[] = [];
@@ -1203,6 +1578,7 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
     });
 
     child.once("error", (error) => {
+      markExited();
       settle({
         kind: "spawn_failed",
         error,
@@ -1210,6 +1586,7 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
     });
 
     child.once("close", (code) => {
+      markExited();
       settle({
         kind: "success",
         exitCode: code ?? 0,
@@ -1228,6 +1605,15 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
           return;
         }
 
+        if (settled) {
+          return;
+        }
+
+        if (options.onSessionAcknowledged) {
+          options.onSessionAcknowledged(observation.sessionId);
+          return;
+        }
+
         shouldBufferOutput = false;
         settle({
           kind: "success",
@@ -1240,12 +1626,39 @@ async function invokeSwarmSubprocessWithEarlyAck(options: {
             }),
           ),
           stderr: "",
+          acknowledgement: { sessionId: observation.sessionId, completion },
         });
       })
       .catch(() => {});
   });
 }
 
+/**
+ * Delivers SIGINT to the CLI when the tool call is cancelled so the session is
+ * torn down and recorded as aborted, exactly as an interactive Ctrl-C would.
+ */
+function forwardAbortAsInterrupt(
+  child: ChildProcess,
+  signal: AbortSignal | undefined,
+): void {
+  if (!signal) {
+    return;
+  }
+  const interrupt = (): void => {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill("SIGINT");
+    }
+  };
+  if (signal.aborted) {
+    interrupt();
+    return;
+  }
+  signal.addEventListener("abort", interrupt, { once: true });
+  child.once("close", () => {
+    signal.removeEventListener("abort", interrupt);
+  });
+}
+
 function isSwarmExecutionOperator(
   operator: VoratiqMcpOperator,
 ): operator is SwarmExecutionOperator {
@@ -1349,17 +1762,26 @@ function toToolInputJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
 }
 
 function createListMcpInputSchema(): Record<string, unknown> {
+  const stringListProperty = (description: string) => ({
+    type: "array",
+    items: { type: "string", minLength: 1 },
+    minItems: 1,
+    description,
+  });
+
   return {
     type: "object",
     properties: {
       operator: {
         type: "string",
         enum: [...externalInspectionOperators],
+        description: "Required in `summary` and `detail` scope.",
       },
       mode: {
         type: "string",
         enum: [...listModes],
-        description: "Use `summary` or `detail` scope.",
+        description:
+          "Use `summary` or `detail` scope for one operator, or `timeline` scope for every operator.",
       },
       sessionId: {
         type: "string",
@@ -1369,17 +1791,57 @@ function createListMcpInputSchema(): Record<string, unknown> {
       allStatuses: {
         type: "boolean",
         description:
-          "Summary-only. Include sessions hidden by the default summary filter.",
+          "Summary and timeline. Include sessions hidden by the default summary filter.",
       },
       limit: {
         type: "integer",
         exclusiveMinimum: 0,
         maximum: Number.MAX_SAFE_INTEGER,
         description:
-          "Summary-only. Show only the N most recent summary sessions.",
+          "Summary and timeline. Show only the N most recent summary sessions.",
+      },
+      agentIds: stringListProperty(
+        "Summary and timeline. Only sessions with any of these agents.",
+      ),
+      statuses: stringListProperty(
+        "Summary and timeline. Only sessions with any of these statuses.",
+      ),
+      since: {
+        type: "string",
+        minLength: 1,
+        description:
+          "Summary and timeline. Only sessions created on or after this date or ISO timestamp.",
+      },
+      until: {
+        type: "string",
+        minLength: 1,
+        description:
+          "Summary and timeline. Only sessions created before this date or ISO timestamp.",
+      },
+      specPath: {
+        type: "string",
+        minLength: 1,
+        description:
+          "Summary and timeline. Only runs of this spec file and spec sessions that drafted it.",
+      },
+      applied: {
+        type: "boolean",
+        description: "Summary and timeline. Only runs whose diff was applied.",
+      },
+      profile: {
+        type: "string",
+        minLength: 1,
+        description:
+          "Summary and timeline. Only sessions with an agent the orchestration profile assigns to that stage; matches agent membership, not the profile a session ran with.",
+      },
+      grep: {
+        type: "string",
+        minLength: 1,
+        description:
+          "Summary and timeline. Case-insensitive text in spec descriptions, message prompts, interactive tasks, or run summaries.",
       },
     },
-    required: ["operator", "mode"],
+    required: ["mode"],
     additionalProperties: false,
     allOf: [
       {
@@ -1390,6 +1852,7 @@ function createListMcpInputSchema(): Record<string, unknown> {
           required: ["mode"],
         },
         then: {
+          required: ["operator"],
           not: { required: ["sessionId"] },
         },
       },
@@ -1401,10 +1864,23 @@ function createListMcpInputSchema(): Record<string, unknown> {
           required: ["mode"],
         },
         then: {
-          required: ["sessionId"],
+          required: ["operator", "sessionId"],
+          allOf: MCP_LIST_SUMMARY_ONLY_KEYS.map((key) => ({
+            not: { required: [key] },
+          })),
+        },
+      },
+      {
+        if: {
+          properties: {
+            mode: { const: "timeline" },
+          },
+          required: ["mode"],
+        },
+        then: {
           allOf: [
-            { not: { required: ["allStatuses"] } },
-            { not: { required: ["limit"] } },
+            { not: { required: ["operator"] } },
+            { not: { required: ["sessionId"] } },
           ],
         },
       },
@@ -4,6 +4,7 @@ import process from "node:process";
 import { setTimeout as delay } from "node:timers/promises";
 
 import { isFileSystemError, safeUnlink } from "../utils/fs.js";
+import { isProcessAlive } from "../utils/process.js";
 import { SessionHistoryLockTimeoutError } from "./errors.js";
 
 export interface HistoryLockMetadata {
@@ -241,29 +242,3 @@ async function readHistoryLockMetadata(
     return undefined;
   }
 }
-
-function isProcessAlive(pid?: number): boolean {
-  if (!pid || pid <= 0) {
-    return false;
-  }
-  try {
-    process.kill(pid, 0);
-    return true;
-  } catch (error) {
-    if (
-      typeof error === "object" &&
-      error !== null &&
-      "code" in error &&
-      typeof (error as { code?: unknown }).code === "string"
-    ) {
-      const code = (error as { code?: string }).code;
-      if (code === "ESRCH") {
-        return false;
-      }
-      if (code === "EPERM") {
-        return true;
-      }
-    }
-    return false;
-  }
-}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+import { repoRelativeRecordPathSchema } from "./record-path-schema.js";
+
+export const PROMPT_OVERLAY_POSITIONS = ["prepend", "append"] as const;
+
+export type PromptOverlayPosition = (typeof PROMPT_OVERLAY_POSITIONS)[number];
+
+/**
+ * An instruction file from `.voratiq/prompts/` that was layered onto the
+ * generated prompt, with the hash of the content the agents saw and a copy of
+ * that content in the session directory.
+ */
+export const promptOverlayEntrySchema = z.object({
+  path: repoRelativeRecordPathSchema,
+  position: z.enum(PROMPT_OVERLAY_POSITIONS),
+  agentId: z.string().min(1).optional(),
+  contentHash: z.string().regex(/^sha256:[a-f0-9]{64}$/u),
+  /** Absent on records written before overlay content was saved. */
+  snapshotPath: repoRelativeRecordPathSchema.optional(),
+});
+
+export type PromptOverlayEntry = z.infer<typeof promptOverlayEntrySchema>;
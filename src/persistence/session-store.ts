@@ -1,5 +1,5 @@
 import { randomBytes } from "node:crypto";
-import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 
 import { isFileSystemError, pathExists } from "../utils/fs.js";
@@ -40,6 +40,13 @@ export type SessionRecordWarning =
 export interface ReadSessionRecordsOptions<RecordType> {
   paths: SessionStorePaths;
   limit?: number;
+  /**
+   * Only sessions created at or after this instant. Checked against the index
+   * entry, so sessions outside the range are skipped without reading them.
+   */
+  createdSince?: Date;
+  /** Only sessions created before this instant; see `createdSince`. */
+  createdUntil?: Date;
   predicate?: (record: RecordType) => boolean;
   onWarning?: (warning: SessionRecordWarning) => void;
 }
@@ -58,6 +65,11 @@ export interface RewriteSessionRecordOptions<RecordType> {
   skipAfterPersistHook?: boolean;
 }
 
+export interface RemoveSessionRecordsOptions {
+  paths: SessionStorePaths;
+  sessionIds: readonly string[];
+}
+
 export interface SessionIndexPayload<Entry> {
   version: number;
   sessions: Entry[];
@@ -85,6 +97,7 @@ export interface SessionStoreConfig<RecordType, IndexEntry, StatusType> {
   serializeRecord?: (record: RecordType) => string;
   buildIndexEntry: (record: RecordType) => IndexEntry;
   getIndexEntryId: (entry: IndexEntry) => string;
+  getIndexEntryCreatedAt: (entry: IndexEntry) => string;
   mergeIndexEntry?: (existing: IndexEntry, incoming: IndexEntry) => IndexEntry;
   /**
    * Optional hook to merge buffered state with the latest on-disk record before
@@ -148,7 +161,8 @@ export function createSessionStore<RecordType, IndexEntry, StatusType>(
   async function readRecordsInternal(
     options: ReadSessionRecordsOptions<RecordType>,
   ): Promise<RecordType[]> {
-    const { paths, limit, predicate, onWarning } = options;
+    const { paths, limit, createdSince, createdUntil, predicate, onWarning } =
+      options;
 
     if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
       throw new SessionOptionValidationError(
@@ -175,6 +189,15 @@ export function createSessionStore<RecordType, IndexEntry, StatusType>(
       if (!entry) {
         continue;
       }
+      if (
+        (createdSince || createdUntil) &&
+        !isCreatedWithinRange(config.getIndexEntryCreatedAt(entry), {
+          createdSince,
+          createdUntil,
+        })
+      ) {
+        continue;
+      }
       const sessionId = config.getIndexEntryId(entry);
       const recordPath = join(
         paths.sessionsDir,
@@ -339,6 +362,61 @@ export function createSessionStore<RecordType, IndexEntry, StatusType>(
     return mutated;
   }
 
+  /**
+   * Drop sessions from the index and delete their session directories. Any
+   * buffered state for the removed sessions is discarded without flushing.
+   */
+  async function removeRecords(
+    options: RemoveSessionRecordsOptions,
+  ): Promise<void> {
+    const { paths, sessionIds } = options;
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    const removed = new Set(sessionIds);
+    for (const sessionId of removed) {
+      const entry = buffer.get(
+        join(paths.sessionsDir, sessionId, config.recordFilename),
+      );
+      if (entry) {
+        entry.dirty = false;
+        await disposeBufferEntry(entry);
+      }
+    }
+
+    const releaseLock = await config.acquireLock(paths.lockPath);
+    try {
+      const payload = await readIndex(paths.indexPath);
+      const sessions = payload.sessions.filter(
+        (session) => !removed.has(config.getIndexEntryId(session)),
+      );
+      if (sessions.length !== payload.sessions.length) {
+        const serializedPayload = config.buildIndexPayload
+          ? config.buildIndexPayload(sessions, config.indexVersion)
+          : { version: config.indexVersion, sessions };
+        await atomicWriteIndex(paths.indexPath, serializedPayload);
+      }
+
+      for (const sessionId of removed) {
+        await rm(join(paths.sessionsDir, sessionId), {
+          recursive: true,
+          force: true,
+        });
+      }
+    } catch (error) {
+      if (isFileSystemError(error)) {
+        const displayPath = relativeToRoot(paths.root, paths.indexPath);
+        throw new SessionRecordMutationError(
+          `Failed to remove sessions from ${displayPath}: ${error.message}`,
+        );
+      }
+      throw error;
+    } finally {
+      await releaseLock();
+    }
+  }
+
   async function getRecordSnapshot(options: {
     paths: SessionStorePaths;
     sessionId: string;
@@ -729,6 +807,7 @@ export function createSessionStore<RecordType, IndexEntry, StatusType>(
     readRecords,
     appendRecord,
     rewriteRecord,
+    removeRecords,
     getRecordSnapshot,
     flushAllRecordBuffers,
     disposeRecordBuffer,
@@ -738,3 +817,20 @@ export function createSessionStore<RecordType, IndexEntry, StatusType>(
     resetReadRecordsImplementation,
   };
 }
+
+function isCreatedWithinRange(
+  createdAt: string,
+  range: { createdSince?: Date; createdUntil?: Date },
+): boolean {
+  const created = Date.parse(createdAt);
+  if (Number.isNaN(created)) {
+    return false;
+  }
+  if (range.createdSince && created < range.createdSince.getTime()) {
+    return false;
+  }
+  if (range.createdUntil && created >= range.createdUntil.getTime()) {
+    return false;
+  }
+  return true;
+}
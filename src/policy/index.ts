@@ -20,23 +20,37 @@ export {
   type SelectorResolutionSourceInput,
 } from "./selector.js";
 export {
+  type BordaWinnerPolicy,
   buildVerificationSelectorSource,
   DEFAULT_VERIFICATION_WINNER_POLICY,
   deriveVerificationSelectionDecision,
+  deriveVerificationSelectionTally,
+  isNoRunCandidatePassingProgrammatic,
   loadVerificationPolicyInput,
   loadVerificationSelectionInput,
   loadVerificationSelectionPolicyOutput,
+  type MajorityWinnerPolicy,
   type StageVerificationUnanimityWinnerPolicy,
   type VerificationPolicyInput,
   type VerificationPolicyProgrammaticCandidateInput,
   type VerificationPolicyProgrammaticInput,
   type VerificationPolicyRubricInput,
+  type VerificationSelectionCriterionVerdictInput,
   type VerificationSelectionInput,
   type VerificationSelectionPolicyOutput,
   type VerificationSelectionProgrammaticCandidateInput,
   type VerificationWinnerPolicy,
+  type WeightedWinnerPolicy,
+  type WinnerPolicyCriteriaGate,
 } from "./verification.js";
 export {
   deriveVerifierSelectionDecision,
   type VerifierSelectionReviewerInput,
 } from "./verifier-selection.js";
+export {
+  deriveTalliedSelectionDecision,
+  tallyVerifierSelections,
+  type VerifierTally,
+  type VerifierTallyEntry,
+  type VerifierTallyScore,
+} from "./verifier-tally.js";
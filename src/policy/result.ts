@@ -46,6 +46,13 @@ export type SelectionDecisionUnresolvedReason =
       code: "selected_candidate_failed_programmatic";
       selectedCanonicalAgentId: string;
       eligibleCanonicalAgentIds: readonly string[];
+    }
+  | {
+      code: "selected_candidate_missed_criteria";
+      selectedCanonicalAgentId: string;
+      /** Acceptance criteria that drew a verdict the winner policy rejects. */
+      criterionIds: readonly string[];
+      eligibleCanonicalAgentIds: readonly string[];
     };
 
 export interface ResolvableSelectionDecision {
@@ -1,6 +1,7 @@
 import { readFile } from "node:fs/promises";
 
 import type { ProgrammaticCheckResult } from "../configs/verification/methods.js";
+import type { VerificationCriterionVerdict } from "../configs/verification/types.js";
 import type {
   ProgrammaticResultArtifact,
   RubricResultArtifact,
@@ -14,6 +15,7 @@ import {
   rubricResultArtifactSchema,
 } from "../domain/verify/model/types.js";
 import {
+  readRubricResultCriteria,
   readRubricResultPreferred,
   readRubricResultRanking,
 } from "../domain/verify/rubric-result.js";
@@ -21,11 +23,17 @@ import { resolvePath } from "../utils/path.js";
 import { resolveCanonicalAgentId } from "./resolution.js";
 import {
   buildUnresolvedSelectionDecision,
+  type ResolvableSelectionDecision,
   type SelectionDecision,
 } from "./result.js";
 import type { SelectorResolutionSourceInput } from "./selector.js";
 import type { VerifierSelectionReviewerInput } from "./verifier-selection.js";
 import { deriveVerifierSelectionDecision } from "./verifier-selection.js";
+import {
+  deriveTalliedSelectionDecision,
+  tallyVerifierSelections,
+  type VerifierTally,
+} from "./verifier-tally.js";
 
 export interface VerificationPolicyProgrammaticCandidateInput {
   candidateId: string;
@@ -67,16 +75,49 @@ export interface VerificationSelectionProgrammaticCandidateInput {
   passing: boolean;
 }
 
-export interface StageVerificationUnanimityWinnerPolicy {
+/** Shared by every mode: criterion verdicts that disqualify a candidate. */
+export interface WinnerPolicyCriteriaGate {
+  rejectCriterionVerdicts?: readonly VerificationCriterionVerdict[];
+}
+
+export interface StageVerificationUnanimityWinnerPolicy extends WinnerPolicyCriteriaGate {
   mode: "stage-verification-unanimity";
 }
 
-export type VerificationWinnerPolicy = StageVerificationUnanimityWinnerPolicy;
+export interface MajorityWinnerPolicy extends WinnerPolicyCriteriaGate {
+  mode: "majority";
+}
+
+export interface BordaWinnerPolicy extends WinnerPolicyCriteriaGate {
+  mode: "borda";
+}
+
+export interface WeightedWinnerPolicy extends WinnerPolicyCriteriaGate {
+  mode: "weighted";
+  /** Trust weight per verifier agent id. */
+  weights: Readonly<Record<string, number>>;
+  /** Weight for verifiers missing from `weights`; defaults to 1. */
+  defaultWeight?: number;
+}
+
+export type VerificationWinnerPolicy =
+  | StageVerificationUnanimityWinnerPolicy
+  | MajorityWinnerPolicy
+  | BordaWinnerPolicy
+  | WeightedWinnerPolicy;
 
 export const DEFAULT_VERIFICATION_WINNER_POLICY: VerificationWinnerPolicy = {
   mode: "stage-verification-unanimity",
 };
 
+/** One participating verifier's verdict on one criterion for one candidate. */
+export interface VerificationSelectionCriterionVerdictInput {
+  verifierAgentId: string;
+  criterionId: string;
+  candidateId: string;
+  verdict: VerificationCriterionVerdict;
+}
+
 export interface VerificationSelectionInput {
   sessionId: string;
   target: VerificationTarget;
@@ -87,6 +128,7 @@ export interface VerificationSelectionInput {
   programmatic?: {
     candidates: readonly VerificationSelectionProgrammaticCandidateInput[];
   };
+  criteria?: readonly VerificationSelectionCriterionVerdictInput[];
 }
 
 export interface VerificationSelectionPolicyOutput {
@@ -164,7 +206,9 @@ export async function loadVerificationSelectionInput(options: {
 }): Promise<VerificationSelectionInput> {
   const { record } = options;
   const policyInput = await loadVerificationPolicyInput(options);
-  const winnerPolicy = resolveVerificationWinnerPolicy(options.winnerPolicy);
+  const winnerPolicy = resolveVerificationWinnerPolicy(
+    options.winnerPolicy ?? record.winnerPolicy,
+  );
   const verifiers = buildVerificationSelectionVerifiers({
     policyInput,
     winnerPolicy,
@@ -175,6 +219,11 @@ export async function loadVerificationSelectionInput(options: {
     policyInput,
     verifiers,
   });
+  const criteria = buildVerificationSelectionCriteria({
+    policyInput,
+    winnerPolicy,
+    canonicalCandidateIds,
+  });
 
   return {
     sessionId: policyInput.sessionId,
@@ -212,6 +261,7 @@ export async function loadVerificationSelectionInput(options: {
           },
         }
       : {}),
+    ...(criteria.length > 0 ? { criteria } : {}),
   };
 }
 
@@ -240,13 +290,19 @@ export function deriveVerificationSelectionDecision(
     const rubricDecision = deriveVerificationWinnerDecision({
       winnerPolicy,
       canonicalCandidateIds: input.canonicalCandidateIds,
+      aliasMap: input.blindedAliasMap,
       verifiers: input.verifiers,
     });
     if (rubricDecision.state === "unresolved") {
       return rubricDecision;
     }
 
-    return rubricDecision;
+    return applyCriteriaGate({
+      decision: rubricDecision,
+      winnerPolicy,
+      canonicalCandidateIds: input.canonicalCandidateIds,
+      criteria: input.criteria ?? [],
+    });
   }
 
   return buildUnresolvedSelectionDecision([
@@ -257,6 +313,17 @@ export function deriveVerificationSelectionDecision(
   ]);
 }
 
+export function deriveVerificationSelectionTally(
+  input: VerificationSelectionInput,
+): VerifierTally {
+  return tallyForWinnerPolicy({
+    winnerPolicy: resolveVerificationWinnerPolicy(input.winnerPolicy),
+    canonicalCandidateIds: input.canonicalCandidateIds,
+    aliasMap: input.blindedAliasMap,
+    verifiers: input.verifiers,
+  });
+}
+
 function describeVerificationSelectionWarnings(options: {
   input: VerificationSelectionInput;
   decision: SelectionDecision;
@@ -272,15 +339,17 @@ function describeVerificationSelectionWarnings(options: {
     return [];
   }
 
-  const eligibleCanonicalAgentIds = resolveEligibleCanonicalAgentIds(input);
-
-  if (eligibleCanonicalAgentIds.length === 0) {
+  if (isNoRunCandidatePassingProgrammatic(input)) {
     return [
       "No run candidate passed programmatic verification; proceeding with run-verification consensus.",
     ];
   }
 
-  if (!eligibleCanonicalAgentIds.includes(decision.selectedCanonicalAgentId)) {
+  if (
+    !resolveEligibleCanonicalAgentIds(input).includes(
+      decision.selectedCanonicalAgentId,
+    )
+  ) {
     return [
       "Selected run-verification winner failed programmatic verification; proceeding with run-verification consensus.",
     ];
@@ -289,6 +358,20 @@ function describeVerificationSelectionWarnings(options: {
   return [];
 }
 
+/**
+ * True when a run verification ran programmatic checks and every candidate
+ * failed them, whatever the rubric verifiers then selected.
+ */
+export function isNoRunCandidatePassingProgrammatic(
+  input: VerificationSelectionInput,
+): boolean {
+  return (
+    input.target.kind === "run" &&
+    input.programmatic !== undefined &&
+    resolveEligibleCanonicalAgentIds(input).length === 0
+  );
+}
+
 export function buildVerificationSelectorSource(
   output: VerificationSelectionPolicyOutput,
 ): SelectorResolutionSourceInput | undefined {
@@ -373,14 +456,17 @@ function buildVerificationSelectionVerifiers(options: {
       };
     }
 
+    const ranking = readRubricResultRanking(rubric.result);
     const preferredCandidateId =
-      readRubricResultPreferred(rubric.result) ??
-      readRubricResultRanking(rubric.result)?.[0];
+      readRubricResultPreferred(rubric.result) ?? ranking?.[0];
+    const includeRanking =
+      options.winnerPolicy.mode === "borda" && ranking !== undefined;
 
     return {
       verifierAgentId: rubric.verifierId,
       status: "succeeded" as const,
       ...(preferredCandidateId ? { preferredCandidateId } : {}),
+      ...(includeRanking ? { ranking } : {}),
     };
   });
   const addedFailedVerifierIds = new Set<string>(
@@ -407,6 +493,84 @@ function buildVerificationSelectionVerifiers(options: {
   return verifiers;
 }
 
+function buildVerificationSelectionCriteria(options: {
+  policyInput: VerificationPolicyInput;
+  winnerPolicy: VerificationWinnerPolicy;
+  canonicalCandidateIds: readonly string[];
+}): VerificationSelectionCriterionVerdictInput[] {
+  const { policyInput, canonicalCandidateIds } = options;
+  const criteria: VerificationSelectionCriterionVerdictInput[] = [];
+  for (const rubric of resolveWinnerPolicyParticipatingRubrics(options)) {
+    if (rubric.status !== "succeeded") {
+      continue;
+    }
+    for (const criterion of readRubricResultCriteria(rubric.result) ?? []) {
+      for (const { candidate, verdict } of criterion.verdicts) {
+        const candidateId = resolveCanonicalAgentId({
+          selectors: [candidate],
+          canonicalAgentIds: canonicalCandidateIds,
+          aliasMap: policyInput.blinded?.aliasMap,
+        });
+        if (candidateId) {
+          criteria.push({
+            verifierAgentId: rubric.verifierId,
+            criterionId: criterion.id,
+            candidateId,
+            verdict,
+          });
+        }
+      }
+    }
+  }
+  return criteria;
+}
+
+/**
+ * Withholds a winner that any participating verifier gave a rejected verdict
+ * on some acceptance criterion.
+ */
+function applyCriteriaGate(options: {
+  decision: ResolvableSelectionDecision;
+  winnerPolicy: VerificationWinnerPolicy;
+  canonicalCandidateIds: readonly string[];
+  criteria: readonly VerificationSelectionCriterionVerdictInput[];
+}): SelectionDecision {
+  const { decision, winnerPolicy, canonicalCandidateIds, criteria } = options;
+  const rejected = winnerPolicy.rejectCriterionVerdicts;
+  if (!rejected || rejected.length === 0) {
+    return decision;
+  }
+
+  const missedCriterionIds = (candidateId: string): string[] =>
+    Array.from(
+      new Set(
+        criteria
+          .filter(
+            (entry) =>
+              entry.candidateId === candidateId &&
+              rejected.includes(entry.verdict),
+          )
+          .map((entry) => entry.criterionId),
+      ),
+    ).sort((left, right) => left.localeCompare(right));
+
+  const criterionIds = missedCriterionIds(decision.selectedCanonicalAgentId);
+  if (criterionIds.length === 0) {
+    return decision;
+  }
+
+  return buildUnresolvedSelectionDecision([
+    {
+      code: "selected_candidate_missed_criteria",
+      selectedCanonicalAgentId: decision.selectedCanonicalAgentId,
+      criterionIds,
+      eligibleCanonicalAgentIds: canonicalCandidateIds.filter(
+        (candidateId) => missedCriterionIds(candidateId).length === 0,
+      ),
+    },
+  ]);
+}
+
 function resolveVerificationWinnerPolicy(
   winnerPolicy: VerificationWinnerPolicy | undefined,
 ): VerificationWinnerPolicy {
@@ -416,24 +580,57 @@ function resolveVerificationWinnerPolicy(
 function deriveVerificationWinnerDecision(options: {
   winnerPolicy: VerificationWinnerPolicy;
   canonicalCandidateIds: readonly string[];
+  aliasMap?: Readonly<Record<string, string>>;
   verifiers: readonly VerifierSelectionReviewerInput[];
 }): SelectionDecision {
-  switch (options.winnerPolicy.mode) {
+  const { winnerPolicy } = options;
+  switch (winnerPolicy.mode) {
     case "stage-verification-unanimity":
       return deriveVerifierSelectionDecision({
         canonicalAgentIds: options.canonicalCandidateIds,
         verifiers: options.verifiers,
       });
+    case "majority":
+    case "borda":
+    case "weighted":
+      return deriveTalliedSelectionDecision({
+        tally: tallyForWinnerPolicy(options),
+        verifiers: options.verifiers,
+      });
   }
 }
 
+function tallyForWinnerPolicy(options: {
+  winnerPolicy: VerificationWinnerPolicy;
+  canonicalCandidateIds: readonly string[];
+  aliasMap?: Readonly<Record<string, string>>;
+  verifiers: readonly VerifierSelectionReviewerInput[];
+}): VerifierTally {
+  const { winnerPolicy } = options;
+  return tallyVerifierSelections({
+    mode: winnerPolicy.mode,
+    canonicalAgentIds: options.canonicalCandidateIds,
+    aliasMap: options.aliasMap,
+    verifiers: options.verifiers,
+    ...(winnerPolicy.mode === "weighted"
+      ? {
+          weights: winnerPolicy.weights,
+          defaultWeight: winnerPolicy.defaultWeight,
+        }
+      : {}),
+  });
+}
+
 function resolveWinnerPolicyParticipatingRubrics(options: {
   policyInput: VerificationPolicyInput;
   winnerPolicy: VerificationWinnerPolicy;
 }): VerificationPolicyRubricInput[] {
   const { policyInput, winnerPolicy } = options;
   switch (winnerPolicy.mode) {
-    case "stage-verification-unanimity": {
+    case "stage-verification-unanimity":
+    case "majority":
+    case "borda":
+    case "weighted": {
       const stageVerificationTemplate =
         resolveStageVerificationTemplateForTarget(policyInput.target);
       return policyInput.rubrics.filter(
@@ -635,6 +832,14 @@ function assertBlindedRubricRecommendationSelectors(options: {
     }
   }
 
+  for (const criterion of readRubricResultCriteria(result) ?? []) {
+    for (const { candidate } of criterion.verdicts) {
+      if (!aliasMap[candidate]) {
+        unknownSelectors.add(candidate);
+      }
+    }
+  }
+
   if (unknownSelectors.size === 0) {
     return;
   }
@@ -15,6 +15,8 @@ export interface VerifierSelectionReviewerInput {
   status: "succeeded" | "failed";
   preferredCandidateId?: string;
   resolvedPreferredCandidateId?: string;
+  /** Raw ranking selectors; only populated for ranking-based winner policies. */
+  ranking?: readonly string[];
 }
 
 export interface VerifierSelectionInput {
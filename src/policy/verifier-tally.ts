@@ -0,0 +1,263 @@
+import {
+  normalizeCandidateSelector,
+  resolveCanonicalAgentId,
+} from "./resolution.js";
+import {
+  buildResolvableSelectionDecision,
+  buildUnresolvedSelectionDecision,
+  type SelectionDecision,
+  type SelectionDecisionUnresolvedReason,
+  type VerifierAgreementSelection,
+} from "./result.js";
+import type { VerifierSelectionReviewerInput } from "./verifier-selection.js";
+
+export type VerifierTallyMode = "majority" | "borda" | "weighted";
+
+export interface VerifierTallyEntry {
+  verifierAgentId: string;
+  status: "succeeded" | "failed";
+  weight: number;
+  selectedCanonicalAgentId?: string;
+  ranking?: readonly string[];
+}
+
+export interface VerifierTallyScore {
+  candidateId: string;
+  score: number;
+}
+
+export interface VerifierTally {
+  mode: VerifierTallyMode | "stage-verification-unanimity";
+  verifiers: readonly VerifierTallyEntry[];
+  scores: readonly VerifierTallyScore[];
+}
+
+export interface VerifierTallyInput {
+  mode: VerifierTally["mode"];
+  canonicalAgentIds: readonly string[];
+  aliasMap?: Readonly<Record<string, string>>;
+  verifiers: readonly VerifierSelectionReviewerInput[];
+  weights?: Readonly<Record<string, number>>;
+  defaultWeight?: number;
+}
+
+const DEFAULT_VERIFIER_WEIGHT = 1;
+
+/**
+ * Count each verifier's contribution per candidate.
+ *
+ * Failed verifiers are recorded with no selection and contribute nothing.
+ * `borda` awards `n - position` points per ranked candidate, so even a lone or
+ * last-ranked candidate scores; unranked candidates get nothing. The other
+ * modes award each verifier's weight (1 unless `weighted`) to its first choice.
+ */
+export function tallyVerifierSelections(
+  input: VerifierTallyInput,
+): VerifierTally {
+  const { mode, canonicalAgentIds, aliasMap } = input;
+  const scores = new Map<string, number>(
+    canonicalAgentIds.map((candidateId) => [candidateId, 0]),
+  );
+  const entries: VerifierTallyEntry[] = [];
+
+  for (const verifier of input.verifiers) {
+    const weight =
+      mode === "weighted"
+        ? resolveVerifierWeight(input, verifier.verifierAgentId)
+        : DEFAULT_VERIFIER_WEIGHT;
+
+    if (verifier.status === "failed") {
+      entries.push({
+        verifierAgentId: verifier.verifierAgentId,
+        status: "failed",
+        weight,
+      });
+      continue;
+    }
+
+    const selectedCanonicalAgentId = resolveCanonicalAgentId({
+      selectors: [
+        verifier.resolvedPreferredCandidateId,
+        verifier.preferredCandidateId,
+      ],
+      canonicalAgentIds,
+      aliasMap,
+    });
+
+    if (mode === "borda") {
+      const ranking = resolveCanonicalRanking({
+        selectors: verifier.ranking ?? [],
+        fallback: selectedCanonicalAgentId,
+        canonicalAgentIds,
+        aliasMap,
+      });
+      ranking.forEach((candidateId, position) => {
+        const points = canonicalAgentIds.length - position;
+        scores.set(candidateId, (scores.get(candidateId) ?? 0) + points);
+      });
+      entries.push({
+        verifierAgentId: verifier.verifierAgentId,
+        status: "succeeded",
+        weight,
+        ...(ranking[0] ? { selectedCanonicalAgentId: ranking[0] } : {}),
+        ...(ranking.length > 0 ? { ranking } : {}),
+      });
+      continue;
+    }
+
+    if (selectedCanonicalAgentId) {
+      scores.set(
+        selectedCanonicalAgentId,
+        (scores.get(selectedCanonicalAgentId) ?? 0) + weight,
+      );
+    }
+    entries.push({
+      verifierAgentId: verifier.verifierAgentId,
+      status: "succeeded",
+      weight,
+      ...(selectedCanonicalAgentId ? { selectedCanonicalAgentId } : {}),
+    });
+  }
+
+  return {
+    mode,
+    verifiers: entries,
+    scores: Array.from(scores.entries())
+      .map(([candidateId, score]) => ({ candidateId, score }))
+      .sort(
+        (left, right) =>
+          right.score - left.score ||
+          left.candidateId.localeCompare(right.candidateId),
+      ),
+  };
+}
+
+/**
+ * Derive a winner from a tally.
+ *
+ * `majority` requires more than half of the votes cast. `borda` and `weighted`
+ * pick the highest score and stay unresolved on a tie. Failed verifiers and
+ * verifiers without a usable preference abstain instead of blocking.
+ */
+export function deriveTalliedSelectionDecision(options: {
+  tally: VerifierTally;
+  verifiers: readonly VerifierSelectionReviewerInput[];
+}): SelectionDecision {
+  const { tally, verifiers } = options;
+  const failedVerifierAgentIds = tally.verifiers
+    .filter((entry) => entry.status === "failed")
+    .map((entry) => entry.verifierAgentId);
+  const votingEntries = tally.verifiers.filter(
+    (
+      entry,
+    ): entry is VerifierTallyEntry & {
+      status: "succeeded";
+      selectedCanonicalAgentId: string;
+    } =>
+      entry.status === "succeeded" &&
+      entry.selectedCanonicalAgentId !== undefined &&
+      entry.selectedCanonicalAgentId.length > 0,
+  );
+
+  if (votingEntries.length === 0) {
+    const abstentions = collectAbstentionReasons(tally, verifiers);
+    return buildUnresolvedSelectionDecision(
+      abstentions.length > 0
+        ? abstentions
+        : [{ code: "no_successful_verifiers", failedVerifierAgentIds }],
+    );
+  }
+
+  const [leader, runnerUp] = tally.scores;
+  const hasWinner =
+    leader !== undefined &&
+    leader.score > 0 &&
+    (tally.mode === "majority"
+      ? leader.score > votingEntries.length / 2
+      : runnerUp === undefined || leader.score > runnerUp.score);
+
+  if (!hasWinner) {
+    const selections: VerifierAgreementSelection[] = votingEntries.map(
+      (entry) => ({
+        verifierAgentId: entry.verifierAgentId,
+        selectedCanonicalAgentId: entry.selectedCanonicalAgentId,
+      }),
+    );
+    return buildUnresolvedSelectionDecision([
+      { code: "verifier_disagreement", selections },
+    ]);
+  }
+
+  return buildResolvableSelectionDecision(leader.candidateId);
+}
+
+function resolveVerifierWeight(
+  input: VerifierTallyInput,
+  verifierAgentId: string,
+): number {
+  const { weights } = input;
+  const weight =
+    weights && Object.hasOwn(weights, verifierAgentId)
+      ? weights[verifierAgentId]
+      : undefined;
+  return weight ?? input.defaultWeight ?? DEFAULT_VERIFIER_WEIGHT;
+}
+
+function resolveCanonicalRanking(options: {
+  selectors: readonly string[];
+  fallback?: string;
+  canonicalAgentIds: readonly string[];
+  aliasMap?: Readonly<Record<string, string>>;
+}): string[] {
+  const { selectors, fallback, canonicalAgentIds, aliasMap } = options;
+  const ranking: string[] = [];
+  for (const selector of selectors) {
+    const candidateId = resolveCanonicalAgentId({
+      selectors: [selector],
+      canonicalAgentIds,
+      aliasMap,
+    });
+    if (candidateId && !ranking.includes(candidateId)) {
+      ranking.push(candidateId);
+    }
+  }
+  if (ranking.length === 0 && fallback) {
+    ranking.push(fallback);
+  }
+  return ranking;
+}
+
+function collectAbstentionReasons(
+  tally: VerifierTally,
+  verifiers: readonly VerifierSelectionReviewerInput[],
+): SelectionDecisionUnresolvedReason[] {
+  const reasons: SelectionDecisionUnresolvedReason[] = [];
+  for (const entry of tally.verifiers) {
+    if (entry.status !== "succeeded") {
+      continue;
+    }
+    const verifier = verifiers.find(
+      (candidate) => candidate.verifierAgentId === entry.verifierAgentId,
+    );
+    const preferredCandidateId = normalizeCandidateSelector(
+      verifier?.preferredCandidateId,
+    );
+    const resolvedPreferredCandidateId = normalizeCandidateSelector(
+      verifier?.resolvedPreferredCandidateId,
+    );
+    if (!preferredCandidateId && !resolvedPreferredCandidateId) {
+      reasons.push({
+        code: "verifier_preference_missing",
+        verifierAgentId: entry.verifierAgentId,
+      });
+      continue;
+    }
+    reasons.push({
+      code: "verifier_preference_unresolved",
+      verifierAgentId: entry.verifierAgentId,
+      ...(preferredCandidateId ? { preferredCandidateId } : {}),
+      ...(resolvedPreferredCandidateId ? { resolvedPreferredCandidateId } : {}),
+    });
+  }
+  return reasons;
+}
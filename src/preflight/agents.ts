@@ -110,6 +110,7 @@ export async function collectResolvedAgentReadiness(
       id: agent.id,
       provider: agent.provider,
     })),
+    { root },
   );
 
   return {
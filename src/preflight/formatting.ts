@@ -4,9 +4,14 @@ import {
   type PreflightIssue,
 } from "../competition/shared/preflight.js";
 
-export const OPERATOR_PREFLIGHT_UNLABELED_AGENT_IDS = ["settings"] as const;
+export const OPERATOR_PREFLIGHT_UNLABELED_AGENT_IDS = [
+  "settings",
+  "pricing",
+] as const;
 export const SETTINGS_PREFLIGHT_HINT =
   "Review `settings.yaml` and correct invalid values." as const;
+export const PRICING_PREFLIGHT_HINT =
+  "Add the missing models to `pricing.yaml`, or drop `--max-cost`." as const;
 
 export function formatOperatorPreflightIssueLines(
   issues: readonly PreflightIssue[],
@@ -24,13 +29,19 @@ export function resolveOperatorPreflightHintLines(
   const hasSettingsIssue = preProviderIssues.some(
     (issue) => issue.agentId === "settings",
   );
+  const hasPricingIssue = preProviderIssues.some(
+    (issue) => issue.agentId === "pricing",
+  );
   const hasRepairableWorkspaceIssue = preProviderIssues.some(
-    (issue) => issue.agentId !== "settings",
+    (issue) => issue.agentId !== "settings" && issue.agentId !== "pricing",
   );
 
   if (hasSettingsIssue) {
     return [SETTINGS_PREFLIGHT_HINT];
   }
+  if (hasPricingIssue) {
+    return [PRICING_PREFLIGHT_HINT];
+  }
   if (hasRepairableWorkspaceIssue) {
     return [PREFLIGHT_HINT];
   }
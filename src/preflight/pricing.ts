@@ -0,0 +1,37 @@
+import type { PreflightIssue } from "../competition/shared/preflight.js";
+import type { AgentDefinition } from "../configs/agents/types.js";
+import { loadPricingTable } from "../configs/pricing/loader.js";
+import type { PricingTable } from "../configs/pricing/types.js";
+import { toErrorMessage } from "../utils/errors.js";
+
+const PRICING_ISSUE_AGENT_ID = "pricing" as const;
+
+/**
+ * A cost cap only holds when every agent's spend can be priced, so budgeted
+ * sessions reject broken pricing config and unpriced models before starting.
+ */
+export function collectCostBudgetPricingIssues(options: {
+  root: string;
+  agents: readonly Pick<AgentDefinition, "id" | "provider" | "model">[];
+}): readonly PreflightIssue[] {
+  const { root, agents } = options;
+
+  let pricing: PricingTable;
+  try {
+    pricing = loadPricingTable({ root });
+  } catch (error) {
+    return [
+      {
+        agentId: PRICING_ISSUE_AGENT_ID,
+        message: toErrorMessage(error),
+      },
+    ];
+  }
+
+  return agents
+    .filter((agent) => !pricing[agent.provider]?.[agent.model])
+    .map((agent) => ({
+      agentId: PRICING_ISSUE_AGENT_ID,
+      message: `Agent \`${agent.id}\` uses model \`${agent.model}\` (provider \`${agent.provider}\`), which has no price; \`--max-cost\` cannot count its spend.`,
+    }));
+}
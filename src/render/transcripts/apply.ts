@@ -40,10 +40,22 @@ export function renderApplyTranscript(result: ApplyResult): string {
       ]
     : undefined;
 
+  const conflictedPaths = result.conflictedPaths ?? [];
   const applyMessage = result.appliedCommitSha
     ? `Diff applied to working tree (commit: ${result.appliedCommitSha}).`
-    : "Diff applied to working tree.";
-  const afterAgentsLines = [colorize(applyMessage, "green")];
+    : result.rebasedOnto
+      ? `Diff replayed onto ${result.rebasedOnto.slice(0, 12)} and applied to working tree.`
+      : "Diff applied to working tree.";
+  const afterAgentsLines =
+    conflictedPaths.length > 0
+      ? [
+          colorize(
+            `Diff applied with conflicts in ${conflictedPaths.length} file(s):`,
+            "yellow",
+          ),
+          ...conflictedPaths.map((path) => `- ${path}`),
+        ]
+      : [colorize(applyMessage, "green")];
 
   return renderTranscriptWithMetadata({
     metadata: {
@@ -56,9 +68,12 @@ export function renderApplyTranscript(result: ApplyResult): string {
     warnings,
     afterAgents: [afterAgentsLines],
     hint: {
-      message: result.appliedCommitSha
-        ? "Review the commit and run tests."
-        : "Review changes and run tests.",
+      message:
+        conflictedPaths.length > 0
+          ? "Resolve the conflict markers, then stage and commit manually."
+          : result.appliedCommitSha
+            ? "Review the commit and run tests."
+            : "Review changes and run tests.",
     },
   });
 }
@@ -1,4 +1,7 @@
-import type { AutoTerminalStatus } from "../../domain/run/model/types.js";
+import type {
+  AutoRound,
+  AutoTerminalStatus,
+} from "../../domain/run/model/types.js";
 import { getRunStatusStyle } from "../../status/colors.js";
 import type { RunStatus } from "../../status/index.js";
 import { colorize } from "../../utils/colors.js";
@@ -26,6 +29,7 @@ export interface AutoSummaryInput {
   };
   verify: AutoPhaseSummary;
   apply?: AutoPhaseSummary & { agentId?: string };
+  rounds?: readonly AutoRound[];
 }
 
 export function renderAutoSummaryTranscript(input: AutoSummaryInput): string {
@@ -51,5 +55,18 @@ export function renderAutoSummaryTranscript(input: AutoSummaryInput): string {
   const lines: string[] = [
     `Auto ${colorize(statusLabel, statusStyle.cli)} (${totalDuration})`,
   ];
+  if (input.rounds && input.rounds.length > 1) {
+    lines.push(...input.rounds.map(formatRoundLine));
+  }
   return renderTranscript({ sections: [lines] });
 }
+
+function formatRoundLine(round: AutoRound): string {
+  const source = round.repairOf
+    ? ` from \`${round.repairOf.agentId}\` (run \`${round.repairOf.runId}\`)`
+    : "";
+  const verify = round.verificationId
+    ? `, verify \`${round.verificationId}\`${round.selection ? ` ${round.selection}` : ""}`
+    : "";
+  return `Round ${round.round}${source}: run \`${round.runId}\`${verify}`;
+}
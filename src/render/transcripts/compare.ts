@@ -0,0 +1,157 @@
+import type {
+  CompareJsonCandidate,
+  CompareJsonFile,
+  CompareJsonPairwiseOutput,
+  CompareJsonSummaryOutput,
+} from "../../contracts/compare.js";
+import { formatCostUsd } from "../../domain/shared/token-cost.js";
+import { formatCompactDiffStatistics } from "../../utils/diff.js";
+import { formatDurationLabel } from "../utils/duration.js";
+import { renderTable } from "../utils/table.js";
+import { formatTokenUsageSummary } from "../utils/tokens.js";
+import { renderTranscript } from "../utils/transcript.js";
+
+const DASH = "—";
+
+export function renderCompareTranscript(
+  result: CompareJsonSummaryOutput,
+): string {
+  const { runId, candidates, verification } = result;
+  const sections: string[][] = [];
+
+  if (candidates.length === 0) {
+    return renderTranscript({
+      sections: [[`Run \`${runId}\` has no candidates to compare.`]],
+    });
+  }
+
+  sections.push(
+    renderTable({
+      columns: [
+        { header: "AGENT", accessor: (candidate) => candidate.agentId },
+        {
+          header: "STATUS",
+          accessor: (candidate) => candidate.status.toUpperCase(),
+        },
+        {
+          header: "DURATION",
+          accessor: (candidate) =>
+            candidate.durationMs === undefined
+              ? DASH
+              : (formatDurationLabel(candidate.durationMs) ?? DASH),
+        },
+        {
+          header: "CHANGES",
+          accessor: (candidate) =>
+            formatCompactDiffStatistics(candidate.diffStatistics) ?? DASH,
+        },
+        { header: "CHECKS", accessor: formatChecksCell },
+        {
+          header: "TOKENS",
+          accessor: (candidate) =>
+            formatTokenUsageSummary(candidate.tokenUsage) ?? DASH,
+        },
+        {
+          header: "COST",
+          accessor: (candidate) =>
+            candidate.costUsd === undefined
+              ? DASH
+              : formatCostUsd(candidate.costUsd),
+        },
+      ],
+      rows: candidates,
+    }),
+  );
+
+  for (const candidate of candidates) {
+    if (candidate.files.length === 0) {
+      continue;
+    }
+    sections.push([
+      `\`${candidate.agentId}\` files:`,
+      ...renderFileTable(candidate.files).map((line) => `  ${line}`),
+    ]);
+  }
+
+  const failing = candidates.flatMap((candidate) => {
+    const failed = candidate.checks.filter(
+      (check) => check.status !== "succeeded" && check.status !== "skipped",
+    );
+    return failed.length === 0
+      ? []
+      : [
+          `- ${candidate.agentId}: ${failed.map((check) => `${check.slug} (${check.status})`).join(", ")}`,
+        ];
+  });
+  if (failing.length > 0) {
+    sections.push(["Failed checks:", ...failing]);
+  }
+
+  sections.push([
+    verification
+      ? `Checks from verification \`${verification.sessionId}\`.`
+      : "No programmatic verification recorded for this run.",
+  ]);
+
+  return renderTranscript({
+    sections,
+    hint: {
+      message: `Diff two candidates with \`voratiq compare --run ${runId} --agent <a> --agent <b>\`.`,
+    },
+  });
+}
+
+export function renderComparePairwiseTranscript(
+  result: CompareJsonPairwiseOutput,
+): string {
+  const { runId, left, right, files, diffStatistics, diff } = result;
+  const sections: string[][] = [
+    [
+      `Comparing \`${left.agentId}\` with \`${right.agentId}\` in run \`${runId}\`.`,
+    ],
+  ];
+
+  if (files.length === 0) {
+    sections.push(["Result trees are identical."]);
+    return renderTranscript({ sections });
+  }
+
+  sections.push([
+    ...(diffStatistics ? [diffStatistics] : []),
+    ...renderFileTable(files),
+  ]);
+  sections.push(diff.trimEnd().split("\n"));
+
+  return renderTranscript({ sections });
+}
+
+function renderFileTable(files: readonly CompareJsonFile[]): string[] {
+  return renderTable({
+    columns: [
+      { header: "FILE", accessor: (file) => file.path },
+      {
+        header: "+",
+        accessor: (file) =>
+          file.insertions === null ? "bin" : String(file.insertions),
+        align: "right",
+      },
+      {
+        header: "-",
+        accessor: (file) =>
+          file.deletions === null ? "bin" : String(file.deletions),
+        align: "right",
+      },
+    ],
+    rows: files,
+  });
+}
+
+function formatChecksCell(candidate: CompareJsonCandidate): string {
+  if (candidate.checks.length === 0) {
+    return DASH;
+  }
+  const passed = candidate.checks.filter(
+    (check) => check.status === "succeeded",
+  ).length;
+  return `${passed}/${candidate.checks.length} passed`;
+}
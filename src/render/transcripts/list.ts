@@ -1,6 +1,10 @@
 import type { MessageRecord } from "../../domain/message/model/types.js";
-import type { ReductionRecord } from "../../domain/reduce/model/types.js";
+import {
+  getReductionTargets,
+  type ReductionRecord,
+} from "../../domain/reduce/model/types.js";
 import type { RunRecord } from "../../domain/run/model/types.js";
+import { formatCostUsd } from "../../domain/shared/token-cost.js";
 import type { SpecRecord } from "../../domain/spec/model/types.js";
 import type { VerificationRecord } from "../../domain/verify/model/types.js";
 import { formatTargetTablePreview } from "../../utils/list-target.js";
@@ -52,6 +56,14 @@ export interface InteractiveListTableSession {
   createdAt: string;
 }
 
+export interface TimelineListTableSession {
+  operator: string;
+  id: string;
+  target: string;
+  status: string;
+  createdAt: string;
+}
+
 export function renderRunList(records: readonly RunRecord[]): string {
   const rows = records.map((record) => ({
     run: record.runId,
@@ -175,7 +187,10 @@ export function renderReduceList(records: readonly ReductionRecord[]): string {
       },
       {
         header: "TARGET",
-        accessor: (record) => `${record.target.type}:${record.target.id}`,
+        accessor: (record) =>
+          getReductionTargets(record)
+            .map((target) => `${target.type}:${target.id}`)
+            .join(", "),
       },
       {
         header: "STATUS",
@@ -300,7 +315,12 @@ export function renderVerifyList(
       {
         header: "TARGET",
         accessor: (record) =>
-          `${record.target.kind}:${record.target.sessionId}`,
+          (record.target.kind === "run" && record.target.runs
+            ? record.target.runs
+            : [record.target]
+          )
+            .map((entry) => `${record.target.kind}:${entry.sessionId}`)
+            .join(", "),
       },
       {
         header: "STATUS",
@@ -341,7 +361,40 @@ export function renderVerifyListTable(
   }).join("\n");
 }
 
-export function renderListTableTranscript(tableOutput: string): string {
+export function renderTimelineListTable(
+  sessions: readonly TimelineListTableSession[],
+): string {
+  return renderTable({
+    columns: [
+      {
+        header: "OPERATOR",
+        accessor: (session) => session.operator.toUpperCase(),
+      },
+      {
+        header: "SESSION",
+        accessor: (session) => session.id,
+      },
+      {
+        header: "TARGET",
+        accessor: (session) => session.target,
+      },
+      {
+        header: "STATUS",
+        accessor: (session) => session.status.toUpperCase(),
+      },
+      {
+        header: "CREATED",
+        accessor: (session) => formatRunTimestamp(session.createdAt),
+      },
+    ],
+    rows: sessions,
+  }).join("\n");
+}
+
+export function renderListTableTranscript(
+  tableOutput: string,
+  options: { totalCostUsd?: number } = {},
+): string {
   if (tableOutput.trim().length === 0) {
     return "";
   }
@@ -349,6 +402,9 @@ export function renderListTableTranscript(tableOutput: string): string {
   const sections: string[][] = [];
 
   sections.push(tableOutput.split("\n"));
+  if (options.totalCostUsd !== undefined) {
+    sections.push([`Total cost: ${formatCostUsd(options.totalCostUsd)}`]);
+  }
 
   return renderTranscript({ sections });
 }
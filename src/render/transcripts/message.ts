@@ -27,6 +27,7 @@ import {
   resolveTranscriptShellStyleFromWriter,
   type TranscriptShellStyleOptions,
 } from "../utils/transcript-shell.js";
+import type { StageProgressEventConsumer } from "./stage-progress.js";
 
 const DASH = "—";
 
@@ -50,7 +51,10 @@ export interface MessageProgressRecipientRecord {
   error?: string | null;
 }
 
-export interface MessageProgressRenderer {
+export interface MessageProgressRenderer extends StageProgressEventConsumer<
+  MessageProgressContext,
+  MessageProgressRecipientRecord
+> {
   begin(context?: MessageProgressContext): void;
   update(record: MessageProgressRecipientRecord): void;
   complete(
@@ -324,6 +328,33 @@ export function createMessageRenderer(
   }
 
   return {
+    onProgressEvent(event): void {
+      guard(() => {
+        if (event.stage !== "message") {
+          return;
+        }
+        if (event.type === "stage.begin") {
+          context = { ...event.context };
+          render();
+          syncRefreshLoop();
+          return;
+        }
+        if (event.type === "stage.candidate") {
+          upsertRecipient(event.candidate);
+          render();
+          syncRefreshLoop();
+          return;
+        }
+        if (!context) {
+          return;
+        }
+        context = {
+          ...context,
+          status: event.status as MessageProgressContext["status"],
+        };
+        render();
+      });
+    },
     begin(nextContext?: MessageProgressContext): void {
       guard(() => {
         if (!nextContext) {
@@ -331,16 +362,18 @@ export function createMessageRenderer(
           syncRefreshLoop();
           return;
         }
-        context = { ...nextContext };
-        render();
-        syncRefreshLoop();
+        this.onProgressEvent({
+          type: "stage.begin",
+          stage: "message",
+          context: nextContext,
+        });
       });
     },
     update(record: MessageProgressRecipientRecord): void {
-      guard(() => {
-        upsertRecipient(record);
-        render();
-        syncRefreshLoop();
+      this.onProgressEvent({
+        type: "stage.candidate",
+        stage: "message",
+        candidate: record,
       });
     },
     complete(
@@ -357,13 +390,15 @@ export function createMessageRenderer(
           };
         }
 
-        if (context && status) {
-          context = {
-            ...context,
+        if (status) {
+          this.onProgressEvent({
+            type: "stage.status",
+            stage: "message",
             status,
-          };
+          });
+        } else {
+          render();
         }
-        render();
         disabled = true;
       });
     },
@@ -0,0 +1,66 @@
+import type {
+  PruneCommandResult,
+  PruneSessionRef,
+} from "../../commands/prune/command.js";
+import { colorize } from "../../utils/colors.js";
+import { formatRunTimestamp } from "../utils/records.js";
+import { renderTable } from "../utils/table.js";
+import { renderTranscript } from "../utils/transcript.js";
+
+export function renderPruneTranscript(result: PruneCommandResult): string {
+  const { dryRun, pruned, retained } = result;
+  const sections: string[][] = [];
+
+  if (pruned.length > 0) {
+    sections.push(
+      renderTable({
+        columns: [
+          { header: "OPERATOR", accessor: (session) => session.operator },
+          { header: "SESSION", accessor: (session) => session.sessionId },
+          {
+            header: "STATUS",
+            accessor: (session) => session.status.toUpperCase(),
+          },
+          {
+            header: "CREATED",
+            accessor: (session) => formatRunTimestamp(session.createdAt),
+          },
+        ],
+        rows: pruned,
+      }),
+    );
+  }
+
+  if (retained.length > 0) {
+    sections.push([
+      "Kept because later sessions still read them:",
+      ...retained.map(
+        (session) =>
+          `- ${session.operator} \`${session.sessionId}\` (used by ${session.referencedBy.map(formatSessionRef).join(", ")})`,
+      ),
+    ]);
+  }
+
+  const noun = pruned.length === 1 ? "session" : "sessions";
+  sections.push([
+    pruned.length === 0
+      ? "No sessions matched the retention rules."
+      : dryRun
+        ? `Would prune ${pruned.length} ${noun}.`
+        : colorize(`Pruned ${pruned.length} ${noun}.`, "green"),
+  ]);
+
+  return renderTranscript({
+    sections,
+    hint:
+      dryRun && pruned.length > 0
+        ? { message: "Rerun without `--dry-run` to delete these sessions." }
+        : retained.length > 0 && !dryRun
+          ? { message: "Use `--force` to prune sessions that are still read." }
+          : undefined,
+  });
+}
+
+function formatSessionRef(ref: PruneSessionRef): string {
+  return `${ref.operator} \`${ref.sessionId}\``;
+}
@@ -73,6 +73,8 @@ export interface RunTranscriptAgentRecord {
   diffStatistics?: string;
   outputPath?: string;
   errorLine?: string;
+  sandboxDenialCount?: number;
+  sandboxDenialsPath?: string;
 }
 
 export interface RunTranscriptOptions {
@@ -182,6 +184,14 @@ export function renderRunTranscript(options: RunTranscriptOptions): string {
 
     block.push("", `Output: ${agent.outputPath ?? DASH}`);
 
+    if (agent.sandboxDenialCount !== undefined) {
+      const label = agent.sandboxDenialCount === 1 ? "target" : "targets";
+      block.push(
+        "",
+        `Sandbox denials: ${agent.sandboxDenialCount} ${label} (${agent.sandboxDenialsPath ?? DASH})`,
+      );
+    }
+
     if (index < options.agents.length - 1) {
       block.push("", "---");
     }
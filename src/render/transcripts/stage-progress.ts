@@ -7,7 +7,8 @@ export type StageProgressStatus =
   | "failed"
   | "errored"
   | "aborted"
-  | "skipped";
+  | "skipped"
+  | "unresolved";
 
 export interface StageProgressBeginEvent<TContext extends object> {
   type: "stage.begin";
@@ -54,3 +55,25 @@ export function emitStageProgressEvent<
   }
   consumer.onProgressEvent(event);
 }
+
+/**
+ * Returns a copy of `consumer` that hands every progress event to `listener`
+ * before the consumer renders it. Renderer methods that emit through
+ * `this.onProgressEvent` are observed as well.
+ */
+export function observeStageProgressEvents<
+  TContext extends object,
+  TCandidate extends object,
+  TConsumer extends StageProgressEventConsumer<TContext, TCandidate>,
+>(
+  consumer: TConsumer,
+  listener: (event: StageProgressEvent<TContext, TCandidate>) => void,
+): TConsumer {
+  return {
+    ...consumer,
+    onProgressEvent(event: StageProgressEvent<TContext, TCandidate>): void {
+      listener(event);
+      consumer.onProgressEvent(event);
+    },
+  };
+}
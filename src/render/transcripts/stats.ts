@@ -0,0 +1,108 @@
+import type {
+  AgentStageStats,
+  StatsCommandResult,
+} from "../../commands/stats/command.js";
+import { formatCostUsd } from "../../domain/shared/token-cost.js";
+import { formatDurationLabel } from "../utils/duration.js";
+import { renderTable } from "../utils/table.js";
+import { formatTokenUsageSummary } from "../utils/tokens.js";
+import { renderTranscript } from "../utils/transcript.js";
+
+const DASH = "—";
+
+export function renderStatsTranscript(result: StatsCommandResult): string {
+  const { agents, sessionCount, filters } = result;
+  const scope = describeFilters(filters);
+
+  if (agents.length === 0) {
+    return renderTranscript({
+      sections: [[`No agent activity recorded${scope}.`]],
+    });
+  }
+
+  const sections: string[][] = [
+    [`${sessionCount} ${sessionCount === 1 ? "session" : "sessions"}${scope}.`],
+    renderTable({
+      columns: [
+        { header: "AGENT", accessor: (row) => row.agentId },
+        { header: "STAGE", accessor: (row) => row.stage },
+        {
+          header: "SESSIONS",
+          accessor: (row) => String(row.sessions),
+          align: "right",
+        },
+        {
+          header: "SUCCESS",
+          accessor: (row) => formatRate(row.successRate, row.completed),
+          align: "right",
+        },
+        {
+          header: "WINS",
+          accessor: (row) => formatRate(row.winRate, row.verified),
+          align: "right",
+        },
+        {
+          header: "APPLIED",
+          accessor: (row) =>
+            row.applyRate === undefined
+              ? DASH
+              : formatRate(row.applyRate, row.sessions),
+          align: "right",
+        },
+        {
+          header: "MEDIAN",
+          accessor: (row) =>
+            row.medianDurationMs === null
+              ? DASH
+              : (formatDurationLabel(row.medianDurationMs) ?? DASH),
+          align: "right",
+        },
+        {
+          header: "WATCHDOG",
+          accessor: (row) =>
+            row.stage === "run" ? String(row.watchdogTriggers) : DASH,
+          align: "right",
+        },
+        { header: "TOKENS", accessor: formatTokensCell },
+      ],
+      rows: agents,
+    }),
+  ];
+
+  return renderTranscript({
+    sections,
+    hint: {
+      message:
+        "Success excludes aborted and skipped work; wins count decided verifications only.",
+    },
+  });
+}
+
+function describeFilters(filters: StatsCommandResult["filters"]): string {
+  const parts: string[] = [];
+  if (filters.profile) {
+    parts.push(`profile \`${filters.profile}\``);
+  }
+  if (filters.since) {
+    parts.push(`since ${filters.since}`);
+  }
+  if (filters.until) {
+    parts.push(`until ${filters.until}`);
+  }
+  return parts.length === 0 ? "" : ` (${parts.join(", ")})`;
+}
+
+function formatRate(rate: number | null, total: number): string {
+  if (rate === null) {
+    return DASH;
+  }
+  return `${Math.round(rate * 100)}% (${Math.round(rate * total)}/${total})`;
+}
+
+function formatTokensCell(row: AgentStageStats): string {
+  const tokens = formatTokenUsageSummary(row.tokenUsage);
+  if (row.costUsd === undefined) {
+    return tokens ?? DASH;
+  }
+  return `${tokens ?? DASH} (${formatCostUsd(row.costUsd)})`;
+}
@@ -1,6 +1,9 @@
+import type { ProgrammaticCheckResult } from "../../configs/verification/methods.js";
+import type { VerificationCriterionVerdict } from "../../configs/verification/types.js";
 import type { ExtractedTokenUsage } from "../../domain/run/model/types.js";
 import { getRunStatusStyle } from "../../status/colors.js";
 import { TERMINAL_VERIFICATION_STATUSES } from "../../status/index.js";
+import { colorize, type TerminalColor } from "../../utils/colors.js";
 import type { TokenUsageResult } from "../../workspace/chat/token-usage-result.js";
 import type { CliWriter } from "../utils/cli-writer.js";
 import {
@@ -61,6 +64,11 @@ export interface VerifyProgressMethodRecord {
   artifactPath?: string;
   tokenUsage?: ExtractedTokenUsage;
   tokenUsageResult?: TokenUsageResult;
+  /** Per-candidate check results, set once programmatic checks complete. */
+  checks?: readonly {
+    candidateId: string;
+    results: readonly ProgrammaticCheckResult[];
+  }[];
 }
 
 interface VerifyRendererOptions {
@@ -93,6 +101,76 @@ export interface VerifyTranscriptMethodBlock {
   errorLine?: string;
 }
 
+export interface VerifyTranscriptCriteria {
+  candidateIds: readonly string[];
+  verdicts: readonly {
+    verifierAgentId: string;
+    criterionId: string;
+    candidateId: string;
+    verdict: VerificationCriterionVerdict;
+  }[];
+}
+
+const CRITERION_VERDICT_STYLES: Record<
+  VerificationCriterionVerdict,
+  { label: string; color: TerminalColor }
+> = {
+  met: { label: "MET", color: "green" },
+  partially_met: { label: "PARTIAL", color: "yellow" },
+  not_met: { label: "NOT MET", color: "red" },
+  not_verifiable: { label: "UNVERIFIABLE", color: "gray" },
+};
+
+/** One criterion-by-candidate matrix per verifier that reported verdicts. */
+function buildVerifyCriteriaSections(
+  criteria: VerifyTranscriptCriteria,
+  style: TranscriptShellStyleOptions,
+): string[][] {
+  const verifierIds = Array.from(
+    new Set(criteria.verdicts.map((entry) => entry.verifierAgentId)),
+  );
+
+  return verifierIds.map((verifierAgentId) => {
+    const verdicts = criteria.verdicts.filter(
+      (entry) => entry.verifierAgentId === verifierAgentId,
+    );
+    const criterionIds = Array.from(
+      new Set(verdicts.map((entry) => entry.criterionId)),
+    );
+    const formatVerdict = (criterionId: string, candidateId: string) => {
+      const verdict = verdicts.find(
+        (entry) =>
+          entry.criterionId === criterionId &&
+          entry.candidateId === candidateId,
+      )?.verdict;
+      if (!verdict) {
+        return DASH;
+      }
+      const { label, color } = CRITERION_VERDICT_STYLES[verdict];
+      return style.isTty ? colorize(label, color) : label;
+    };
+
+    return [
+      `Acceptance criteria: ${verifierAgentId}`,
+      "",
+      ...renderTable({
+        columns: [
+          {
+            header: "CRITERION",
+            accessor: (criterionId: string) => criterionId,
+          },
+          ...criteria.candidateIds.map((candidateId) => ({
+            header: candidateId,
+            accessor: (criterionId: string) =>
+              formatVerdict(criterionId, candidateId),
+          })),
+        ],
+        rows: criterionIds,
+      }),
+    ];
+  });
+}
+
 function buildVerifyStageShell(options: {
   verificationId: string;
   createdAt: string;
@@ -455,10 +533,13 @@ export function createVerifyRenderer(
           };
         }
 
-        if (status) {
-          if (context) {
-            context = { ...context, status };
-          }
+        if (status && context) {
+          this.onProgressEvent({
+            type: "stage.status",
+            stage: "verify",
+            status,
+          });
+        } else if (status) {
           render();
           syncRefreshLoop();
         } else {
@@ -480,9 +561,11 @@ export function renderVerifyTranscript(options: {
   target?: {
     kind: string;
     sessionId: string;
+    runs?: readonly { sessionId: string }[];
   };
   status: VerifyTranscriptStatus;
   methods: readonly VerifyTranscriptMethodBlock[];
+  criteria?: VerifyTranscriptCriteria;
   suppressHint?: boolean;
   warningMessage?: string;
   hintMessage?: string;
@@ -499,6 +582,7 @@ export function renderVerifyTranscript(options: {
     target,
     status,
     methods,
+    criteria,
     suppressHint,
     warningMessage,
     hintMessage,
@@ -512,7 +596,11 @@ export function renderVerifyTranscript(options: {
   const sections: string[][] = [];
   const resolvedTargetDisplay =
     targetDisplay ??
-    (target ? `${target.kind}:${target.sessionId}` : undefined);
+    (target
+      ? (target.runs ?? [target])
+          .map((entry) => `${target.kind}:${entry.sessionId}`)
+          .join(", ")
+      : undefined);
 
   if (includeSummarySection) {
     const metadataLines = buildVerifyStageShell({
@@ -548,6 +636,10 @@ export function renderVerifyTranscript(options: {
     sections.push(...buildStageFrameSections(metadataLines));
   }
 
+  if (criteria && criteria.verdicts.length > 0) {
+    sections.push(...buildVerifyCriteriaSections(criteria, resolvedStyle));
+  }
+
   if (includeDetailSections && methods.length > 0) {
     sections.push(["---"]);
   }
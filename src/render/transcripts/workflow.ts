@@ -0,0 +1,61 @@
+import type { WorkflowRecord } from "../../domain/workflow/model/types.js";
+import { colorize } from "../../utils/colors.js";
+import { formatDurationLabel } from "../utils/duration.js";
+import { renderTable } from "../utils/table.js";
+import { renderTranscript } from "../utils/transcript.js";
+
+export function renderWorkflowStageStartLine(options: {
+  stageId: string;
+  operator: string;
+  index: number;
+  total: number;
+}): string {
+  const { stageId, operator, index, total } = options;
+  return `Stage ${index + 1}/${total}: \`${stageId}\` (${operator})…`;
+}
+
+export function renderWorkflowSummaryTranscript(options: {
+  record: WorkflowRecord;
+  totalDurationMs: number;
+}): string {
+  const { record, totalDurationMs } = options;
+  const duration = formatDurationLabel(totalDurationMs) ?? "—";
+  const statusLabel = record.status.toUpperCase();
+  const statusColor =
+    record.status === "succeeded"
+      ? "green"
+      : record.status === "action_required"
+        ? "yellow"
+        : "red";
+
+  const sections: string[][] = [
+    [
+      `Workflow \`${record.workflow}\` ${colorize(statusLabel, statusColor)} (${duration})`,
+      `Session: \`${record.sessionId}\``,
+    ],
+    renderTable({
+      columns: [
+        { header: "STAGE", accessor: (stage) => stage.id },
+        { header: "OPERATOR", accessor: (stage) => stage.operator },
+        {
+          header: "STATUS",
+          accessor: (stage) =>
+            stage.selection
+              ? `${stage.status.toUpperCase()} (${stage.selection})`
+              : stage.status.toUpperCase(),
+        },
+        { header: "SESSION", accessor: (stage) => stage.sessionId ?? "—" },
+      ],
+      rows: record.stages,
+    }),
+  ];
+
+  const details = record.stages.flatMap((stage) =>
+    stage.detail ? [`- \`${stage.id}\`: ${stage.detail}`] : [],
+  );
+  if (details.length > 0) {
+    sections.push(details);
+  }
+
+  return renderTranscript({ sections });
+}
@@ -153,6 +153,7 @@ export function buildAgentSectionArtifacts(
     ["summary", agent.assets?.summaryPath],
     ["diff", agent.assets?.diffPath],
     ["chat", agent.assets?.chatPath],
+    ["denials", agent.assets?.sandboxDenialsPath],
     ["stdout", agent.assets?.stdoutPath],
     ["stderr", agent.assets?.stderrPath],
   ];
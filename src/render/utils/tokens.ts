@@ -0,0 +1,30 @@
+/**
+ * Renders the input/output counts of a provider token usage map as
+ * `1.2k in / 300 out`. Returns undefined when neither count is present.
+ */
+export function formatTokenUsageSummary(
+  usage: Readonly<Record<string, number>> | undefined,
+): string | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const input = usage.input_tokens ?? usage.input;
+  const output = usage.output_tokens ?? usage.output;
+  if (input === undefined && output === undefined) {
+    return undefined;
+  }
+  return `${formatTokenCount(input)} in / ${formatTokenCount(output)} out`;
+}
+
+export function formatTokenCount(value: number | undefined): string {
+  if (value === undefined) {
+    return "—";
+  }
+  if (value >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M`;
+  }
+  if (value >= 1_000) {
+    return `${(value / 1_000).toFixed(1)}k`;
+  }
+  return String(value);
+}
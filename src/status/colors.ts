@@ -19,6 +19,7 @@ const checkStatusStyles: Record<CheckStatus, StatusStyle> = {
   succeeded: { cli: "green" },
   failed: { cli: "red" },
   errored: { cli: "red" },
+  timed_out: { cli: "yellow" },
   skipped: { cli: "gray" },
 };
 
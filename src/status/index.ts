@@ -106,10 +106,22 @@ export const IN_PROGRESS_AGENT_STATUSES: readonly AgentStatus[] = [
   "running",
 ] as const satisfies readonly AgentStatus[];
 
+/**
+ * Agent statuses that `run --resume` re-queues. Agents that finished any other
+ * way, including `failed` and `skipped`, keep their record and artifacts.
+ */
+export const RESUMABLE_AGENT_STATUSES: readonly AgentStatus[] = [
+  "queued",
+  "running",
+  "errored",
+  "aborted",
+] as const satisfies readonly AgentStatus[];
+
 export const CHECK_STATUS_VALUES = [
   "succeeded",
   "failed",
   "errored",
+  "timed_out",
   "skipped",
 ] as const;
 
@@ -117,7 +129,11 @@ export type CheckStatus = (typeof CHECK_STATUS_VALUES)[number];
 
 export const checkStatusSchema = z.enum(CHECK_STATUS_VALUES);
 
-export const APPLY_STATUS_VALUES = ["succeeded", "failed"] as const;
+export const APPLY_STATUS_VALUES = [
+  "succeeded",
+  "applied_with_conflicts",
+  "failed",
+] as const;
 
 export type ApplyStatus = (typeof APPLY_STATUS_VALUES)[number];
 
@@ -144,6 +160,16 @@ export const TERMINAL_VERIFICATION_STATUSES: readonly VerificationStatus[] = [
 export const IN_PROGRESS_VERIFICATION_STATUSES: readonly VerificationStatus[] =
   ["queued", "running"] as const satisfies readonly VerificationStatus[];
 
+/**
+ * Verification method statuses that `verify --resume` re-runs. Methods that
+ * finished, including `failed` ones, are kept.
+ */
+export const RESUMABLE_VERIFICATION_STATUSES: readonly VerificationStatus[] = [
+  "queued",
+  "running",
+  "aborted",
+] as const satisfies readonly VerificationStatus[];
+
 export const REDUCTION_STATUS_VALUES = [
   "queued",
   "running",
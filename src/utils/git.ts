@@ -1,7 +1,8 @@
 import { execFile } from "node:child_process";
 import { constants as fsConstants } from "node:fs";
-import { access } from "node:fs/promises";
-import { join } from "node:path";
+import { access, copyFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
 import { promisify } from "node:util";
 
 import { GitHeadRequiredError, GitRepositoryError } from "./errors.js";
@@ -266,6 +267,100 @@ export async function gitDiff(options: GitDiffStatOptions): Promise<string> {
   );
 }
 
+/**
+ * Resolves a revision to a commit sha, or `undefined` when it names no commit.
+ */
+export async function resolveCommitRevision(
+  cwd: string,
+  revision: string,
+): Promise<string | undefined> {
+  try {
+    return await runGitCommand(
+      ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`],
+      { cwd },
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns `commitSha` only while git still has the commit object; recorded
+ * commits can be collected once the branches that held them are removed.
+ */
+export async function findExistingCommit(
+  cwd: string,
+  commitSha: string | undefined,
+): Promise<string | undefined> {
+  if (!commitSha) {
+    return undefined;
+  }
+  try {
+    await runGitCommand(["cat-file", "-e", `${commitSha}^{commit}`], { cwd });
+    return commitSha;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface WorkingTreeSnapshot {
+  commitSha: string;
+  headRevisionSha: string;
+}
+
+/**
+ * Commits the working tree's tracked changes, staged or not, on top of `HEAD`
+ * through a scratch index so the user's index and files stay untouched.
+ * Untracked files are left out. Returns `undefined` when nothing differs.
+ */
+export async function createWorkingTreeSnapshot(options: {
+  cwd: string;
+  message: string;
+}): Promise<WorkingTreeSnapshot | undefined> {
+  const { cwd, message } = options;
+  const headRevisionSha = await getHeadRevision(cwd);
+  const scratchDir = await mkdtemp(join(tmpdir(), "voratiq-snapshot-"));
+  const env: NodeJS.ProcessEnv = {
+    GIT_INDEX_FILE: join(scratchDir, "index"),
+    GIT_AUTHOR_NAME,
+    GIT_AUTHOR_EMAIL,
+    GIT_COMMITTER_NAME,
+    GIT_COMMITTER_EMAIL,
+  };
+
+  try {
+    const indexPath = await runGitCommand(
+      ["rev-parse", "--git-path", "index"],
+      {
+        cwd,
+      },
+    );
+    try {
+      await copyFile(resolve(cwd, indexPath), join(scratchDir, "index"));
+    } catch {
+      await runGitCommand(["read-tree", headRevisionSha], { cwd, env });
+    }
+    await runGitCommand(["add", "--update"], { cwd, env });
+
+    const tree = await runGitCommand(["write-tree"], { cwd, env });
+    const headTree = await runGitCommand(
+      ["rev-parse", `${headRevisionSha}^{tree}`],
+      { cwd },
+    );
+    if (tree === headTree) {
+      return undefined;
+    }
+
+    const commitSha = await runGitCommand(
+      ["commit-tree", tree, "-p", headRevisionSha, "-m", message],
+      { cwd, env },
+    );
+    return { commitSha, headRevisionSha };
+  } finally {
+    await rm(scratchDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
 export function getGitStderr(error: unknown): string | undefined {
   if (
     error &&
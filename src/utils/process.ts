@@ -166,6 +166,56 @@ export async function spawnStreamingProcess(
   });
 }
 
+/**
+ * Whether a process with this PID exists. `EPERM` means it exists but belongs
+ * to another user, so it counts as alive.
+ */
+export function isProcessAlive(pid?: number): boolean {
+  if (!pid || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    if (
+      typeof error === "object" &&
+      error !== null &&
+      "code" in error &&
+      typeof (error as { code?: unknown }).code === "string"
+    ) {
+      const code = (error as { code?: string }).code;
+      if (code === "ESRCH") {
+        return false;
+      }
+      if (code === "EPERM") {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Kills the entire process group rooted at the given PID.
+ * Uses negative PID to target the process group (requires detached spawn).
+ * Falls back to single-process kill if group kill fails.
+ */
+export function killProcessGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    // Negative PID sends signal to entire process group
+    process.kill(-pid, signal);
+  } catch {
+    // Fall back to single process kill if group kill fails
+    // (e.g., if process was not spawned with detached: true)
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Process may have already exited, ignore
+    }
+  }
+}
+
 function buildSpawnEnvironment(
   overrides?: NodeJS.ProcessEnv,
 ): NodeJS.ProcessEnv {
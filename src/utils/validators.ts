@@ -21,3 +21,25 @@ export function parsePositiveInteger(
 
   return parsed;
 }
+
+export function parsePositiveNumber(
+  value: unknown,
+  invalidMessage: string,
+  nonPositiveMessage?: string,
+): number {
+  if (typeof value !== "string") {
+    throw new ValidationError(invalidMessage);
+  }
+
+  const trimmed = value.trim();
+  if (!/^(?:\d+(?:\.\d*)?|\.\d+)$/u.test(trimmed)) {
+    throw new ValidationError(invalidMessage);
+  }
+
+  const parsed = Number.parseFloat(trimmed);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new ValidationError(nonPositiveMessage ?? invalidMessage);
+  }
+
+  return parsed;
+}
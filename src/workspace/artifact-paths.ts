@@ -7,6 +7,7 @@ import {
   MANIFEST_FILENAME,
   PROGRAMMATIC_RESULT_FILENAME,
   RUNTIME_DIRNAME,
+  SANDBOX_DENIALS_FILENAME,
   SANDBOX_DIRNAME,
   SANDBOX_SETTINGS_FILENAME,
   STDERR_FILENAME,
@@ -169,6 +170,20 @@ export function getAgentSessionChatArtifactPath(
   );
 }
 
+export function getAgentSessionSandboxDenialsPath(
+  domain: string,
+  sessionId: string,
+  agentId: string,
+): string {
+  return formatAgentSessionScopedPath(
+    domain,
+    sessionId,
+    agentId,
+    ARTIFACTS_DIRNAME,
+    SANDBOX_DENIALS_FILENAME,
+  );
+}
+
 export function getAgentSessionSandboxDirectoryPath(
   domain: string,
   sessionId: string,
@@ -248,6 +263,19 @@ export function getAgentDiffPath(runId: string, agentId: string): string {
   return getAgentSessionDiffPath(VORATIQ_RUN_DIR, runId, agentId);
 }
 
+/** Context staged from this run for the `auto --max-rounds` round that repairs it. */
+export function getRunRepairContextDirectoryPath(
+  runId: string,
+  round: number,
+): string {
+  return formatSessionScopedPath(
+    VORATIQ_RUN_DIR,
+    runId,
+    "repair",
+    `round-${round}`,
+  );
+}
+
 export function getAgentSummaryPath(runId: string, agentId: string): string {
   return getAgentSessionSummaryPath(VORATIQ_RUN_DIR, runId, agentId);
 }
@@ -265,6 +293,13 @@ export function getAgentChatArtifactPath(
   );
 }
 
+export function getAgentSandboxDenialsPath(
+  runId: string,
+  agentId: string,
+): string {
+  return getAgentSessionSandboxDenialsPath(VORATIQ_RUN_DIR, runId, agentId);
+}
+
 export interface AgentArtifactsSnapshot {
   stdoutCaptured?: boolean;
   stderrCaptured?: boolean;
@@ -272,6 +307,7 @@ export interface AgentArtifactsSnapshot {
   summaryCaptured?: boolean;
   chatCaptured?: boolean;
   chatFormat?: ChatArtifactFormat;
+  sandboxDenialsCaptured?: boolean;
 }
 
 export interface AgentArtifactPaths {
@@ -280,6 +316,7 @@ export interface AgentArtifactPaths {
   diffPath?: string;
   summaryPath?: string;
   chatPath?: string;
+  sandboxDenialsPath?: string;
 }
 
 export function buildAgentArtifactPaths(options: {
@@ -295,6 +332,7 @@ export function buildAgentArtifactPaths(options: {
   const summaryCaptured = artifacts?.summaryCaptured ?? false;
   const chatCaptured = artifacts?.chatCaptured ?? false;
   const chatFormat = artifacts?.chatFormat ?? "jsonl";
+  const sandboxDenialsCaptured = artifacts?.sandboxDenialsCaptured ?? false;
 
   return {
     stdoutPath: stdoutCaptured ? getAgentStdoutPath(runId, agentId) : undefined,
@@ -306,6 +344,9 @@ export function buildAgentArtifactPaths(options: {
     chatPath: chatCaptured
       ? getAgentChatArtifactPath(runId, agentId, chatFormat)
       : undefined,
+    sandboxDenialsPath: sandboxDenialsCaptured
+      ? getAgentSandboxDenialsPath(runId, agentId)
+      : undefined,
   };
 }
 
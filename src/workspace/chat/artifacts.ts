@@ -28,6 +28,8 @@ export interface ChatArtifactCaptureResult {
 }
 
 export interface PreserveChatArtifactsOptions {
+  /** Repository root, used to resolve custom providers' transcript locations. */
+  root?: string;
   providerId: string;
   agentRoot: string;
   searchEnv?: NodeJS.ProcessEnv;
@@ -56,6 +58,7 @@ export async function snapshotProviderTranscripts(
   options: Omit<PreserveChatArtifactsOptions, "baseline">,
 ): Promise<ProviderTranscriptBaseline> {
   const transcriptPaths = await findProviderTranscripts(options.providerId, {
+    root: options.root,
     agentRoot: options.agentRoot,
     env: options.searchEnv,
   });
@@ -73,6 +76,7 @@ export async function preserveProviderChatTranscripts(
   let transcriptPaths: readonly string[];
   try {
     transcriptPaths = await findProviderTranscripts(providerId, {
+      root: options.root,
       agentRoot,
       env: options.searchEnv,
     });
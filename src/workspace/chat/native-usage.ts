@@ -1,9 +1,16 @@
+import { loadPricingTable } from "../../configs/pricing/loader.js";
+import type { PricingTable } from "../../configs/pricing/types.js";
+import { resolveProviderDefinition } from "../../configs/providers/loader.js";
 import type { ChatUsageProviderId } from "../../domain/run/model/types.js";
+import { resolveTokenUsageCostUsd } from "../../domain/shared/token-cost.js";
 import { resolvePath } from "../../utils/path.js";
 import { getAgentSessionChatArtifactPath } from "../artifact-paths.js";
 import type { TokenUsageResult } from "./token-usage-result.js";
 import type { ChatArtifactFormat } from "./types.js";
-import { extractChatUsageFromArtifact } from "./usage-extractor.js";
+import {
+  extractChatUsageFromArtifact,
+  extractCustomChatUsageFromArtifact,
+} from "./usage-extractor.js";
 
 export async function extractProviderNativeTokenUsageForSession(options: {
   root: string;
@@ -42,7 +49,28 @@ export async function extractProviderNativeTokenUsageForSession(options: {
   }
 
   const providerId = toChatUsageProviderId(provider);
-  if (!providerId) {
+  const customUsage = providerId
+    ? undefined
+    : resolveProviderDefinition(provider, { root })?.usage;
+  const extractUsage = providerId
+    ? (path: string) =>
+        extractChatUsageFromArtifact({
+          artifactPath: path,
+          format,
+          providerId,
+          modelId,
+        })
+    : customUsage
+      ? (path: string) =>
+          extractCustomChatUsageFromArtifact({
+            artifactPath: path,
+            format,
+            providerId: provider,
+            usage: customUsage,
+            modelId,
+          })
+      : undefined;
+  if (!extractUsage) {
     return {
       status: "unavailable",
       reason: "unsupported_provider",
@@ -61,13 +89,9 @@ export async function extractProviderNativeTokenUsageForSession(options: {
       getAgentSessionChatArtifactPath(domain, sessionId, agentId, format),
     );
 
+  let extracted: TokenUsageResult;
   try {
-    return await extractChatUsageFromArtifact({
-      artifactPath: resolvedArtifactPath,
-      format,
-      providerId,
-      modelId,
-    });
+    extracted = await extractUsage(resolvedArtifactPath);
   } catch (error) {
     return {
       status: "unavailable",
@@ -81,6 +105,28 @@ export async function extractProviderNativeTokenUsageForSession(options: {
       }`,
     };
   }
+
+  if (extracted.status !== "available") {
+    return extracted;
+  }
+  const pricing = tryLoadPricingTable(root);
+  const costUsd = pricing
+    ? resolveTokenUsageCostUsd(extracted, pricing)
+    : undefined;
+  return costUsd === undefined ? extracted : { ...extracted, costUsd };
+}
+
+/**
+ * Pricing is read after the agent finished, so a broken `pricing.yaml` leaves
+ * the usage unpriced instead of failing the session. Budgeted sessions reject
+ * it during preflight.
+ */
+function tryLoadPricingTable(root: string): PricingTable | undefined {
+  try {
+    return loadPricingTable({ root });
+  } catch {
+    return undefined;
+  }
 }
 
 function toChatUsageProviderId(value: string): ChatUsageProviderId | undefined {
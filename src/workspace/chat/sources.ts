@@ -2,12 +2,16 @@ import { Dirent } from "node:fs";
 import { readdir } from "node:fs/promises";
 import { isAbsolute, resolve as resolvePath } from "node:path";
 
+import { resolveProviderDefinition } from "../../configs/providers/loader.js";
+import type { ProviderChatConfig } from "../../configs/providers/types.js";
 import { isMissing } from "../../utils/fs.js";
 import { SANDBOX_DIRNAME } from "../constants.js";
 
 type SupportedProvider = "claude" | "codex" | "gemini";
 
 interface ProviderTranscriptSearchOptions {
+  /** Repository root, used to resolve custom providers' transcript locations. */
+  root?: string;
   agentRoot: string;
   env?: NodeJS.ProcessEnv;
 }
@@ -27,10 +31,13 @@ export async function findProviderTranscripts(
   options: ProviderTranscriptSearchOptions,
 ): Promise<readonly string[]> {
   const locator = locatorMap[providerId as SupportedProvider];
-  if (!locator) {
-    return [];
+  if (locator) {
+    return locator(options);
   }
-  return locator(options);
+  const chat = resolveProviderDefinition(providerId, {
+    root: options.root,
+  })?.chat;
+  return chat ? await findCustomProviderTranscripts(chat, options) : [];
 }
 
 async function findClaudeTranscripts(
@@ -74,6 +81,17 @@ async function findGeminiTranscripts(
   return [...transcripts].sort();
 }
 
+/** Custom providers only write transcripts inside the sandbox home. */
+async function findCustomProviderTranscripts(
+  chat: ProviderChatConfig,
+  options: ProviderTranscriptSearchOptions,
+): Promise<readonly string[]> {
+  return await collectFiles(
+    resolveSandboxPath(options.agentRoot, ...chat.path.split("/")),
+    { extensions: [`.${chat.format}`], maxDepth: chat.maxDepth },
+  );
+}
+
 function resolveSandboxPath(agentRoot: string, ...segments: string[]): string {
   return resolvePath(agentRoot, SANDBOX_DIRNAME, ...segments);
 }
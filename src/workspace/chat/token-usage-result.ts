@@ -23,6 +23,8 @@ interface TokenUsageResultBase {
 export interface AvailableTokenUsageResult extends TokenUsageResultBase {
   status: "available";
   tokenUsage: ExtractedTokenUsage;
+  /** USD cost under the workspace pricing table, when the model is priced. */
+  costUsd?: number;
   reason?: undefined;
 }
 
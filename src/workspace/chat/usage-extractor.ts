@@ -1,8 +1,11 @@
 import { readFile } from "node:fs/promises";
 
-import type {
-  ChatUsageProviderId,
-  ExtractedTokenUsage,
+import type { ProviderUsageConfig } from "../../configs/providers/types.js";
+import {
+  type ChatUsageProviderId,
+  type CustomExtractedTokenUsage,
+  customExtractedTokenUsageSchema,
+  type ExtractedTokenUsage,
 } from "../../domain/run/model/types.js";
 import { isMissing } from "../../utils/fs.js";
 import type {
@@ -11,6 +14,7 @@ import type {
 } from "./token-usage-result.js";
 import type { ChatArtifactFormat } from "./types.js";
 import {
+  extractCustomProviderUsage,
   extractObservedProviderNativeUsage,
   PROVIDER_USAGE_SHAPE_MAPPINGS,
 } from "./usage-mappings.js";
@@ -24,6 +28,14 @@ export interface ExtractChatUsageArtifactOptions {
 
 export type ChatUsageExtractionResult = TokenUsageResult;
 
+export interface ExtractCustomChatUsageArtifactOptions {
+  artifactPath: string;
+  format: ChatArtifactFormat;
+  providerId: string;
+  usage: ProviderUsageConfig;
+  modelId: string;
+}
+
 interface ExtractCodexChatUsageFromJsonlOptions {
   artifactPath: string;
   content: string;
@@ -133,6 +145,133 @@ export async function extractChatUsageFromArtifact(
   }
 }
 
+/**
+ * Extracts usage for a custom provider by applying its declared `usage`
+ * mapping to each transcript entry. JSON bundles contribute each transcript
+ * payload, or each element when the payload is an array.
+ */
+export async function extractCustomChatUsageFromArtifact(
+  options: ExtractCustomChatUsageArtifactOptions,
+): Promise<ChatUsageExtractionResult> {
+  const { artifactPath, format, providerId, usage, modelId } = options;
+  const unavailable = (
+    reason: "missing" | "malformed",
+    message: string,
+  ): ChatUsageExtractionResult =>
+    buildUnavailableResult({
+      reason,
+      artifactPath,
+      format,
+      providerId,
+      modelId,
+      message,
+    });
+
+  let content: string;
+  try {
+    content = await readFile(artifactPath, "utf8");
+  } catch (error) {
+    if (isMissing(error)) {
+      return unavailable("missing", "Chat usage artifact was not found.");
+    }
+    return unavailable(
+      "malformed",
+      `Chat usage artifact could not be read: ${String(error)}`,
+    );
+  }
+
+  let entries: unknown[];
+  try {
+    entries =
+      format === "jsonl"
+        ? parseJsonlEntries(content)
+        : parseJsonBundleEntries(content);
+  } catch (error) {
+    return unavailable(
+      "malformed",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const usages = entries
+    .map((entry) => extractCustomProviderUsage({ usage, entry }))
+    .filter((entry): entry is CustomExtractedTokenUsage => Boolean(entry));
+  const tokenUsage =
+    usage.aggregate === "last" ? usages.at(-1) : sumCustomUsage(usages);
+  if (!tokenUsage) {
+    return unavailable(
+      "missing",
+      `No usage entries matched the \`${providerId}\` usage mapping in ${format === "json" ? "chat.json" : "chat.jsonl"}.`,
+    );
+  }
+
+  return {
+    status: "available",
+    provider: providerId,
+    artifactPath,
+    format,
+    modelId,
+    tokenUsage,
+  };
+}
+
+function parseJsonlEntries(content: string): unknown[] {
+  const entries: unknown[] = [];
+  for (const [index, rawLine] of content.split(/\r?\n/u).entries()) {
+    const trimmed = rawLine.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(trimmed) as unknown);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSONL at line ${index + 1}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+  return entries;
+}
+
+function parseJsonBundleEntries(content: string): unknown[] {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(content) as unknown;
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const transcripts = asRecord(bundle)?.transcripts;
+  if (!Array.isArray(transcripts)) {
+    throw new Error("Chat bundle is missing a `transcripts` array.");
+  }
+  return transcripts.flatMap((transcript) => {
+    const payload = asRecord(transcript)?.payload;
+    return Array.isArray(payload) ? (payload as unknown[]) : [payload];
+  });
+}
+
+function sumCustomUsage(
+  usages: readonly CustomExtractedTokenUsage[],
+): CustomExtractedTokenUsage | undefined {
+  if (usages.length === 0) {
+    return undefined;
+  }
+  const totals: Record<string, number> = {};
+  for (const usage of usages) {
+    for (const [key, value] of Object.entries(usage)) {
+      if (typeof value === "number") {
+        totals[key] = (totals[key] ?? 0) + value;
+      }
+    }
+  }
+  const parsed = customExtractedTokenUsageSchema.safeParse(totals);
+  return parsed.success ? parsed.data : undefined;
+}
+
 export function extractCodexChatUsageFromJsonl(
   options: ExtractCodexChatUsageFromJsonlOptions,
 ): ChatUsageExtractionResult {
@@ -473,7 +612,7 @@ function buildUnavailableResult(options: {
   >;
   artifactPath: string;
   format: ChatArtifactFormat;
-  providerId: ChatUsageProviderId;
+  providerId: string;
   modelId: string;
   message: string;
 }): ChatUsageExtractionResult {
@@ -1,5 +1,8 @@
+import type { ProviderUsageConfig } from "../../configs/providers/types.js";
 import {
   type ChatUsageProviderId,
+  type CustomExtractedTokenUsage,
+  customExtractedTokenUsageSchema,
   type ExtractedTokenUsage,
   extractedTokenUsageSchemaByProvider,
 } from "../../domain/run/model/types.js";
@@ -162,6 +165,54 @@ export function extractObservedProviderNativeUsage(
   return parsed.data;
 }
 
+const CUSTOM_USAGE_FIELD_KEYS = {
+  input: "input_tokens",
+  cachedInput: "cached_input_tokens",
+  cacheWrite: "cache_write_input_tokens",
+  output: "output_tokens",
+} as const satisfies Record<
+  keyof ProviderUsageConfig["fields"],
+  keyof CustomExtractedTokenUsage
+>;
+
+/**
+ * Reads one transcript entry through a custom provider's `usage` mapping.
+ * Returns `undefined` when the entry carries none of the mapped counts.
+ */
+export function extractCustomProviderUsage(options: {
+  usage: ProviderUsageConfig;
+  entry: unknown;
+}): CustomExtractedTokenUsage | undefined {
+  const { usage } = options;
+  const entryRecord = asRecord(options.entry);
+  const usageRecord = asRecord(
+    entryRecord && usage.path
+      ? getPathValue(entryRecord, usage.path)
+      : entryRecord,
+  );
+  if (!usageRecord) {
+    return undefined;
+  }
+
+  const counts: Record<string, number> = {};
+  for (const [field, key] of Object.entries(CUSTOM_USAGE_FIELD_KEYS)) {
+    const sourcePath =
+      usage.fields[field as keyof typeof CUSTOM_USAGE_FIELD_KEYS];
+    if (!sourcePath) {
+      continue;
+    }
+    const tokenCount = normalizeTokenCount(
+      getPathValue(usageRecord, sourcePath),
+    );
+    if (tokenCount !== undefined) {
+      counts[key] = tokenCount;
+    }
+  }
+
+  const parsed = customExtractedTokenUsageSchema.safeParse(counts);
+  return parsed.success ? parsed.data : undefined;
+}
+
 function asRecord(value: unknown): Record<string, unknown> | undefined {
   if (typeof value !== "object" || value === null || Array.isArray(value)) {
     return undefined;
@@ -2,6 +2,7 @@ export const VORATIQ_DIR = ".voratiq";
 export const VORATIQ_SPEC_DIR = "spec";
 export const VORATIQ_SPEC_FILE = "spec/index.json";
 export const VORATIQ_SPEC_SESSIONS_DIR = "spec/sessions";
+export const VORATIQ_SPEC_TEMPLATES_DIR = "spec/templates";
 export const VORATIQ_RUN_DIR = "run";
 export const VORATIQ_RUN_FILE = "run/index.json";
 export const VORATIQ_RUN_SESSIONS_DIR = "run/sessions";
@@ -18,6 +19,8 @@ export const VORATIQ_MESSAGE_SESSIONS_DIR = "message/sessions";
 export const VORATIQ_INTERACTIVE_DIR = "interactive";
 export const VORATIQ_INTERACTIVE_FILE = "interactive/index.json";
 export const VORATIQ_INTERACTIVE_SESSIONS_DIR = "interactive/sessions";
+export const VORATIQ_WORKFLOW_DIR = "workflow";
+export const VORATIQ_PROMPTS_DIR = "prompts";
 export const VORATIQ_INDEX_FILENAME = "index.json";
 export const VORATIQ_HISTORY_LOCK_FILENAME = "history.lock";
 export const VORATIQ_SESSIONS_DIRNAME = "sessions";
@@ -26,6 +29,9 @@ export const VORATIQ_VERIFICATION_CONFIG_FILE = "verification.yaml";
 export const VORATIQ_ENVIRONMENT_FILE = "environment.yaml";
 export const VORATIQ_SANDBOX_FILE = "sandbox.yaml";
 export const VORATIQ_ORCHESTRATION_FILE = "orchestration.yaml";
+export const VORATIQ_PRICING_FILE = "pricing.yaml";
+export const VORATIQ_WORKFLOWS_FILE = "workflows.yaml";
+export const VORATIQ_PROVIDERS_FILE = "providers.yaml";
 export const VORATIQ_MANAGED_STATE_FILE = "managed-state.json";
 
 export const WORKSPACE_DIRNAME = "workspace";
@@ -36,11 +42,13 @@ export const DIFF_FILENAME = "diff.patch";
 export const SUMMARY_FILENAME = "summary.txt";
 export const CHAT_JSON_FILENAME = "chat.json";
 export const CHAT_JSONL_FILENAME = "chat.jsonl";
+export const SANDBOX_DENIALS_FILENAME = "sandbox-denials.json";
 export const REDUCTION_FILENAME = "reduction.md";
 export const REDUCTION_DATA_FILENAME = "reduction.json";
 export const MESSAGE_RESPONSE_FILENAME = "response.md";
 export const RUNTIME_DIRNAME = "runtime";
 export const ARTIFACTS_DIRNAME = "artifacts";
+export const PROMPT_OVERLAYS_DIRNAME = "prompt-overlays";
 export const MANIFEST_FILENAME = "manifest.json";
 export const REDUCTION_ARTIFACT_INFO_FILENAME = "artifact-information.json";
 export const SANDBOX_DIRNAME = "sandbox";
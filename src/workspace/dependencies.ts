@@ -16,6 +16,8 @@ import {
   type EnvironmentConfig,
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  listToolchainPathEntries,
+  type ToolchainPathEntry,
 } from "../configs/environment/types.js";
 import { toErrorMessage } from "../utils/errors.js";
 import { isFileSystemError, pathExists } from "../utils/fs.js";
@@ -39,6 +41,7 @@ export type CleanupWorkspaceDependenciesOptions =
 export interface WorkspaceDependencyCleanupResult {
   nodeRemoved: boolean;
   pythonRemoved: boolean;
+  toolchainsRemoved: boolean;
 }
 
 export interface WorkspaceDependencyStrategy {
@@ -96,6 +99,13 @@ export type NodeDependencyMode = "copy" | "symlink";
 
 const REPO_BOUNDARY_DESCRIPTION = "the repository root";
 const WORKSPACE_BOUNDARY_DESCRIPTION = "the workspace directory";
+/**
+ * Build output directories. Each workspace gets its own empty one rather than
+ * a copy of the repository's, which can run to gigabytes per agent.
+ */
+const FRESH_TOOLCHAIN_PATH_KEYS: ReadonlySet<string> = new Set([
+  "rust.targetDir",
+]);
 const NEXT_CONFIG_FILENAME_PATTERN = /^next\.config\.(?:c|m)?(?:j|t)s$/u;
 const nextRepositoryDetectionCache = new Map<string, Promise<boolean>>();
 
@@ -171,6 +181,7 @@ export async function ensureWorkspaceDependencies(
     strategy.node,
   );
   await ensurePythonEnvironment(options.root, workspacePath, environment);
+  await ensureToolchainPaths(options.root, workspacePath, environment);
 }
 
 export async function cleanupWorkspaceDependencies(
@@ -182,6 +193,7 @@ export async function cleanupWorkspaceDependencies(
   const cleanupResult: WorkspaceDependencyCleanupResult = {
     nodeRemoved: false,
     pythonRemoved: false,
+    toolchainsRemoved: false,
   };
 
   try {
@@ -196,9 +208,18 @@ export async function cleanupWorkspaceDependencies(
       workspacePath,
       environment,
     );
+    cleanupResult.toolchainsRemoved = await cleanupToolchainPaths(
+      root,
+      workspacePath,
+      environment,
+    );
     return cleanupResult;
   } catch (error) {
-    if (cleanupResult.nodeRemoved || cleanupResult.pythonRemoved) {
+    if (
+      cleanupResult.nodeRemoved ||
+      cleanupResult.pythonRemoved ||
+      cleanupResult.toolchainsRemoved
+    ) {
       throw new WorkspaceDependencyCleanupError({
         cleanup: cleanupResult,
         cause: error,
@@ -298,6 +319,62 @@ async function ensurePythonEnvironment(
   });
 }
 
+/**
+ * Stages toolchain caches (Go modules, Cargo home, Maven/Gradle caches,
+ * Bundler gems) at the same repository-relative path inside the workspace.
+ * Caches are linked, so the sandbox leaves them read-only; build output
+ * directories start empty.
+ */
+async function ensureToolchainPaths(
+  root: string,
+  workspacePath: string,
+  environment: EnvironmentConfig,
+): Promise<void> {
+  for (const entry of listToolchainPathEntries(environment)) {
+    const context = { key: entry.key, value: entry.path };
+    assertRepoRelativeEnvironmentPath(context);
+
+    if (isFreshToolchainPath(entry)) {
+      const workspaceToolchainPath = guardResolvedPath(
+        context,
+        workspacePath,
+        resolvePath(workspacePath, entry.path),
+        WORKSPACE_BOUNDARY_DESCRIPTION,
+      );
+      await rm(workspaceToolchainPath, { recursive: true, force: true });
+      await mkdir(workspaceToolchainPath, { recursive: true });
+      continue;
+    }
+
+    const repoToolchainPath = guardResolvedPath(
+      context,
+      root,
+      resolvePath(root, entry.path),
+      REPO_BOUNDARY_DESCRIPTION,
+    );
+    if (!(await pathExists(repoToolchainPath))) {
+      throw new WorkspaceSetupError(
+        formatEnvironmentPathRuntimeError(
+          context,
+          `expected directory at \`${repoToolchainPath}\` but it does not exist.`,
+        ),
+      );
+    }
+
+    const workspaceToolchainPath = guardResolvedPath(
+      context,
+      workspacePath,
+      resolvePath(workspacePath, entry.path),
+      WORKSPACE_BOUNDARY_DESCRIPTION,
+    );
+    await ensureDirectoryLink(repoToolchainPath, workspaceToolchainPath, {
+      context,
+      targetRoot: root,
+      linkRoot: workspacePath,
+    });
+  }
+}
+
 async function cleanupNodeDependencies(
   root: string,
   workspacePath: string,
@@ -360,6 +437,42 @@ async function cleanupPythonEnvironment(
   return removeWorkspaceLink(workspacePythonPath, repoPythonPath);
 }
 
+async function cleanupToolchainPaths(
+  root: string,
+  workspacePath: string,
+  environment: EnvironmentConfig,
+): Promise<boolean> {
+  let removedAny = false;
+  for (const entry of listToolchainPathEntries(environment)) {
+    const context = { key: entry.key, value: entry.path };
+    assertRepoRelativeEnvironmentPath(context);
+
+    const workspaceToolchainPath = guardResolvedPath(
+      context,
+      workspacePath,
+      resolvePath(workspacePath, entry.path),
+      WORKSPACE_BOUNDARY_DESCRIPTION,
+    );
+    const repoToolchainPath = guardResolvedPath(
+      context,
+      root,
+      resolvePath(root, entry.path),
+      REPO_BOUNDARY_DESCRIPTION,
+    );
+    const removed = await removeWorkspaceNodeDependency(
+      workspaceToolchainPath,
+      repoToolchainPath,
+      isFreshToolchainPath(entry) ? "copy" : "symlink",
+    );
+    removedAny ||= removed;
+  }
+  return removedAny;
+}
+
+function isFreshToolchainPath(entry: ToolchainPathEntry): boolean {
+  return FRESH_TOOLCHAIN_PATH_KEYS.has(entry.key);
+}
+
 async function ensureDirectoryLink(
   targetPath: string,
   linkPath: string,
@@ -1,6 +1,7 @@
 import {
   ARTIFACTS_DIRNAME,
   CONTEXT_DIRNAME,
+  PROMPT_OVERLAYS_DIRNAME,
   VORATIQ_HISTORY_LOCK_FILENAME,
   VORATIQ_INDEX_FILENAME,
   VORATIQ_INTERACTIVE_DIR,
@@ -9,6 +10,7 @@ import {
   VORATIQ_SESSIONS_DIRNAME,
   VORATIQ_SPEC_DIR,
   VORATIQ_VERIFICATION_DIR,
+  VORATIQ_WORKFLOW_DIR,
   WORKSPACE_DIRNAME,
 } from "./constants.js";
 import {
@@ -60,6 +62,21 @@ export function getInteractiveSessionArtifactsDirectoryPath(
   );
 }
 
+export function getWorkflowIndexPath(): string {
+  return getDomainIndexPath(VORATIQ_WORKFLOW_DIR);
+}
+
+export function getWorkflowHistoryLockPath(): string {
+  return formatDomainScopedPath(
+    VORATIQ_WORKFLOW_DIR,
+    VORATIQ_HISTORY_LOCK_FILENAME,
+  );
+}
+
+export function getWorkflowSessionsDirectoryPath(): string {
+  return getDomainSessionsDirectoryPath(VORATIQ_WORKFLOW_DIR);
+}
+
 function getDomainSessionsDirectoryPath(domain: string): string {
   return formatDomainScopedPath(domain, VORATIQ_SESSIONS_DIRNAME);
 }
@@ -84,6 +101,20 @@ export function getVerificationSessionDirectoryPath(sessionId: string): string {
   return getSessionDirectoryPath(VORATIQ_VERIFICATION_DIR, sessionId);
 }
 
+/** Content-addressed copy of a prompt overlay a session's agents saw. */
+export function getSessionPromptOverlaySnapshotPath(
+  domain: string,
+  sessionId: string,
+  contentDigest: string,
+): string {
+  return formatSessionScopedPath(
+    domain,
+    sessionId,
+    PROMPT_OVERLAYS_DIRNAME,
+    `${contentDigest}.md`,
+  );
+}
+
 export function getAgentSessionDirectoryPath(
   domain: string,
   sessionId: string,
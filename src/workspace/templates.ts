@@ -43,6 +43,16 @@ function serializeAgentEntry(entry: AgentConfigEntry): string {
     }
   }
 
+  const watchdogEntries = Object.entries(entry.watchdog ?? {}).filter(
+    ([, value]) => value !== undefined,
+  );
+  if (watchdogEntries.length > 0) {
+    lines.push("    watchdog:");
+    for (const [key, value] of watchdogEntries) {
+      lines.push(`      ${key}: ${value}`);
+    }
+  }
+
   return lines.join("\n");
 }
 
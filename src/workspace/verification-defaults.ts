@@ -399,6 +399,7 @@ Expected output shape:
 - top-level \`ranking\` must be strict, complete, and tie-free
 - top-level \`rationale\` should explain why \`preferred\` / \`ranking[0]\` is the best apply choice
 - top-level \`next_actions\` should stay short and operational
+- top-level \`criteria\`, when the spec's acceptance criteria are listed, with a verdict and evidence for every criterion and every candidate
 `,
       rubric: `# Run Review
 
@@ -601,6 +602,34 @@ properties:
     type: array
     items:
       type: string
+  criteria:
+    type: array
+    items:
+      type: object
+      required:
+        - id
+        - verdicts
+      properties:
+        id:
+          type: string
+        criterion:
+          type: string
+        verdicts:
+          type: array
+          items:
+            type: object
+            required:
+              - candidate
+              - verdict
+              - evidence
+            properties:
+              candidate:
+                type: string
+              verdict:
+                type: string
+                enum: ["met", "partially_met", "not_met", "not_verifiable"]
+              evidence:
+                type: string
 `,
     },
     {
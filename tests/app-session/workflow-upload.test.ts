@@ -128,6 +128,27 @@ describe("app workflow upload payloads", () => {
       },
     });
   });
+
+  it("uploads every target of a multi-target reduction", () => {
+    const payload = buildAppWorkflowSessionUploadPayload({
+      ...buildReductionWorkflowPersistedRecord({
+        record: {
+          target: { type: "run", id: "run-a" },
+          targets: [
+            { type: "run", id: "run-a" },
+            { type: "verify", id: "verify-b" },
+          ],
+        },
+      }),
+      localRepoKey: "repo-local-key",
+    });
+
+    expect(payload.target).toEqual({ kind: "run", session_id: "run-a" });
+    expect(payload.targets).toEqual([
+      { kind: "run", session_id: "run-a" },
+      { kind: "verify", session_id: "verify-b" },
+    ]);
+  });
 });
 
 describe("app workflow upload warning buffering", () => {
@@ -0,0 +1,97 @@
+import {
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import { join } from "node:path";
+
+import { createDeclarativeAuthProvider } from "../../../src/auth/providers/declarative.js";
+import type { AuthRuntimeContext } from "../../../src/auth/providers/types.js";
+import { readProvidersConfig } from "../../../src/configs/providers/loader.js";
+import { SANDBOX_DIRNAME } from "../../../src/workspace/constants.js";
+
+const [MYSTIC_PROVIDER] = readProvidersConfig(`
+providers:
+  - id: mystic
+    argv: ["run", "--model", "{{MODEL}}"]
+    auth:
+      files:
+        - source: .mystic/credentials.json
+        - source: .mystic/settings.json
+          optional: true
+      env: [MYSTIC_API_KEY]
+    env:
+      MYSTIC_HOME: "{{HOME}}/.mystic"
+`).providers;
+
+describe("createDeclarativeAuthProvider", () => {
+  let homeDir: string;
+  let agentRoot: string;
+
+  beforeEach(async () => {
+    homeDir = await mkdtemp(join(os.tmpdir(), "voratiq-mystic-home-"));
+    agentRoot = await mkdtemp(join(os.tmpdir(), "voratiq-mystic-agent-"));
+  });
+
+  afterEach(async () => {
+    await rm(homeDir, { recursive: true, force: true });
+    await rm(agentRoot, { recursive: true, force: true });
+  });
+
+  function runtime(env: NodeJS.ProcessEnv = {}): AuthRuntimeContext {
+    return {
+      platform: process.platform,
+      env,
+      homeDir,
+      username: "voratiq-test",
+    };
+  }
+
+  it("fails verification when a declared env var is missing", async () => {
+    const provider = createDeclarativeAuthProvider(MYSTIC_PROVIDER);
+
+    await expect(
+      provider.verify({ agentId: "mystic", runtime: runtime() }),
+    ).rejects.toThrow("Missing `MYSTIC_API_KEY` in the environment.");
+  });
+
+  it("stages declared files and env into the sandbox home", async () => {
+    await mkdir(join(homeDir, ".mystic"), { recursive: true });
+    await writeFile(
+      join(homeDir, ".mystic", "credentials.json"),
+      '{"token":"secret"}',
+      "utf8",
+    );
+    const provider = createDeclarativeAuthProvider(MYSTIC_PROVIDER);
+    const env = { MYSTIC_API_KEY: "key-1" };
+
+    await expect(
+      provider.verify({ agentId: "mystic", runtime: runtime(env) }),
+    ).resolves.toEqual({ status: "ok" });
+    const result = await provider.stage({
+      agentId: "mystic",
+      agentRoot,
+      runtime: runtime(env),
+    });
+
+    const sandboxHome = join(agentRoot, SANDBOX_DIRNAME);
+    const stagedCredentials = join(sandboxHome, ".mystic", "credentials.json");
+    expect(result.sandboxPath).toBe(sandboxHome);
+    expect(result.env).toMatchObject({
+      HOME: sandboxHome,
+      MYSTIC_API_KEY: "key-1",
+      MYSTIC_HOME: `${sandboxHome}/.mystic`,
+      TMPDIR: join(sandboxHome, "tmp"),
+    });
+    expect(await readFile(stagedCredentials, "utf8")).toBe(
+      '{"token":"secret"}',
+    );
+    expect((await lstat(stagedCredentials)).mode & 0o777).toBe(0o600);
+
+    await provider.teardown?.({ sandboxPath: sandboxHome });
+  });
+});
@@ -80,6 +80,32 @@ describe("apply command options", () => {
       commit: true,
     });
   });
+
+  it.each([
+    [["--3way"], { "3way": true }],
+    [["--rebase-onto", "HEAD"], { rebaseOnto: "HEAD" }],
+  ])("parses merge strategy flags %j", async (flags, expected) => {
+    let received: ApplyCommandActionOptions | undefined;
+
+    const applyCommand = silenceCommander(createApplyCommand());
+    applyCommand.exitOverride().action((options: ApplyCommandActionOptions) => {
+      received = options;
+    });
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(applyCommand);
+
+    await program.parseAsync(
+      ["apply", "--run", "run-123", "--agent", "claude", ...flags],
+      { from: "user" },
+    );
+
+    expect(received).toEqual({
+      run: "run-123",
+      agent: "claude",
+      ...expected,
+    });
+  });
 });
 
 interface ApplyCommandActionOptions {
@@ -87,4 +113,6 @@ interface ApplyCommandActionOptions {
   agent: string;
   ignoreBaseMismatch?: boolean;
   commit?: boolean;
+  "3way"?: boolean;
+  rebaseOnto?: string;
 }
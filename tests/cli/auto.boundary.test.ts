@@ -78,6 +78,7 @@ describe("runAutoCommand boundary", () => {
         run: { status: "succeeded", runId: "run-1" },
         verify: { status: "skipped" },
         apply: { status: "skipped" },
+        rounds: [{ round: 1, runId: "run-1" }],
       },
       events: [],
     });
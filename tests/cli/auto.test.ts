@@ -231,6 +231,37 @@ describe("voratiq auto", () => {
     expect((received as { verifyAgent?: string[] }).verifyAgent).toEqual([]);
   });
 
+  it("parses --max-rounds and rejects non-positive counts", async () => {
+    let received: unknown;
+    const command = createAutoCommand();
+    command.exitOverride().action((options) => {
+      received = options;
+    });
+
+    await command.parseAsync([
+      "node",
+      "voratiq",
+      "--spec",
+      ".voratiq/spec/existing.md",
+      "--max-rounds",
+      "3",
+    ]);
+
+    expect((received as { maxRounds?: number }).maxRounds).toBe(3);
+    await expect(
+      createAutoCommand()
+        .exitOverride()
+        .parseAsync([
+          "node",
+          "voratiq",
+          "--spec",
+          ".voratiq/spec/existing.md",
+          "--max-rounds",
+          "0",
+        ]),
+    ).rejects.toThrow("--max-rounds must be greater than 0");
+  });
+
   it("fails usage when --commit is provided without --apply", async () => {
     const command = createAutoCommand().exitOverride();
     await expect(
@@ -479,7 +510,7 @@ describe("voratiq auto", () => {
       writeCommandOutput({
         alerts: [{ severity: "info", message: "Generating verification…" }],
       });
-      if (input.target.kind === "spec") {
+      if (input.target?.kind === "spec") {
         return Promise.resolve({
           ...buildVerifyResult({
             verificationId: "verify-spec-123",
@@ -608,7 +639,7 @@ describe("voratiq auto", () => {
       body: "run-apply-123 SUCCEEDED",
     });
     mockRunVerifyImplementation((input) => {
-      if (input.target.kind === "spec") {
+      if (input.target?.kind === "spec") {
         return Promise.resolve(
           buildVerifyResult({
             verificationId: "verify-spec-apply-123",
@@ -1536,6 +1567,17 @@ describe("voratiq auto", () => {
             selectedCanonicalAgentId: "agent-good",
             unresolvedReasons: [],
           },
+          input: {
+            sessionId: "verify-123",
+            target: { kind: "run", sessionId: "run-123" },
+            canonicalCandidateIds: ["agent-good"],
+            verifiers: [],
+            programmatic: {
+              candidates: [
+                { candidateId: "agent-good", results: [], passing: false },
+              ],
+            },
+          },
           warnings: [
             "No run candidate passed programmatic verification; proceeding with run-verification consensus.",
           ],
@@ -1884,7 +1926,7 @@ describe("voratiq auto", () => {
     runRunCommandMock.mockResolvedValue(buildRunResult(["agent-good"]));
     mockRunVerifyImplementation((input) =>
       Promise.resolve(
-        input.target.kind === "spec"
+        input.target?.kind === "spec"
           ? {
               ...buildVerifyResult({
                 verificationId: "verify-spec-multi",
@@ -2243,6 +2285,7 @@ function buildVerifyResult(
             selectedCanonicalAgentId?: string;
             unresolvedReasons: readonly unknown[];
           };
+          input?: unknown;
           warnings?: readonly string[];
         };
   } = {},
@@ -2367,6 +2410,13 @@ function writeVerificationSelection(
   void repoRoot;
 }
 
+const DEFAULT_SELECTION_INPUT = {
+  sessionId: "verify-123",
+  target: { kind: "run", sessionId: "run-123" },
+  canonicalCandidateIds: [],
+  verifiers: [],
+};
+
 function withAutoVerifyCompat<T>(value: T): T {
   if (!value || typeof value !== "object") {
     return value;
@@ -2396,9 +2446,9 @@ function withAutoVerifyCompat<T>(value: T): T {
           selection !== null &&
           "decision" in selection
         ) {
-          return selection;
+          return { input: DEFAULT_SELECTION_INPUT, ...selection };
         }
-        return { decision: selection };
+        return { input: DEFAULT_SELECTION_INPUT, decision: selection };
       }
       return Reflect.get(target, prop, receiver) as unknown;
     },
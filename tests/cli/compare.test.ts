@@ -0,0 +1,53 @@
+import { Command } from "commander";
+
+import { createCompareCommand } from "../../src/cli/compare.js";
+import { silenceCommander } from "../support/commander.js";
+
+function buildProgram(): Command {
+  const compareCommand = silenceCommander(createCompareCommand());
+  compareCommand.exitOverride();
+
+  const program = silenceCommander(new Command());
+  program.exitOverride().addCommand(compareCommand);
+  return program;
+}
+
+describe("voratiq compare command options", () => {
+  it("requires --run", async () => {
+    await expect(
+      buildProgram().parseAsync(["node", "voratiq", "compare"]),
+    ).rejects.toThrow(/required option '--run <run-id>' not specified/u);
+  });
+
+  it("requires exactly two agents for pairwise mode", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "compare",
+        "--run",
+        "run-123",
+        "--agent",
+        "alpha",
+      ]),
+    ).rejects.toThrow(
+      /pairwise comparison requires exactly two `--agent` flags/u,
+    );
+  });
+
+  it("rejects comparing an agent with itself", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "compare",
+        "--run",
+        "run-123",
+        "--agent",
+        "alpha",
+        "--agent",
+        "alpha",
+      ]),
+    ).rejects.toThrow(/`--agent` must name two different agents/u);
+  });
+});
@@ -61,6 +61,26 @@ describe("external adapter contract definitions", () => {
       }).success,
     ).toBe(true);
 
+    expect(
+      externalExecutionInputSchemas.reduce.safeParse({
+        targets: [
+          { type: "run", id: "run-123" },
+          { type: "spec", id: "spec-456" },
+        ],
+      }).success,
+    ).toBe(true);
+
+    expect(
+      externalExecutionInputSchemas.reduce.safeParse({
+        target: { type: "run", id: "run-123" },
+        targets: [{ type: "spec", id: "spec-456" }],
+      }).success,
+    ).toBe(false);
+
+    expect(externalExecutionInputSchemas.reduce.safeParse({}).success).toBe(
+      false,
+    );
+
     expect(
       externalExecutionInputSchemas.verify.safeParse({
         target: {
@@ -8,6 +8,10 @@ import {
   executeDoctorFix,
   resolveDoctorFixMode,
 } from "../../src/commands/doctor/command.js";
+import {
+  executeDoctorSandboxDenialSuggestions,
+  executeDoctorSandboxReport,
+} from "../../src/commands/doctor/sandbox.js";
 import { resolveCliContext } from "../../src/preflight/index.js";
 import { isInteractiveShell } from "../../src/utils/terminal.js";
 import { silenceCommander } from "../support/commander.js";
@@ -26,6 +30,11 @@ jest.mock("../../src/commands/doctor/command.js", () => ({
   resolveDoctorFixMode: jest.fn(),
 }));
 
+jest.mock("../../src/commands/doctor/sandbox.js", () => ({
+  executeDoctorSandboxDenialSuggestions: jest.fn(),
+  executeDoctorSandboxReport: jest.fn(),
+}));
+
 jest.mock("../../src/utils/terminal.js", () => ({
   isInteractiveShell: jest.fn(),
 }));
@@ -35,6 +44,10 @@ const resolveCliContextMock = jest.mocked(resolveCliContext);
 const executeDoctorDiagnosisMock = jest.mocked(executeDoctorDiagnosis);
 const executeDoctorFixMock = jest.mocked(executeDoctorFix);
 const resolveDoctorFixModeMock = jest.mocked(resolveDoctorFixMode);
+const executeDoctorSandboxReportMock = jest.mocked(executeDoctorSandboxReport);
+const executeDoctorSandboxDenialSuggestionsMock = jest.mocked(
+  executeDoctorSandboxDenialSuggestions,
+);
 const isInteractiveShellMock = jest.mocked(isInteractiveShell);
 const ANSI_ESCAPE = String.fromCharCode(27);
 
@@ -44,6 +57,7 @@ function stripAnsi(value: string): string {
 
 describe("voratiq doctor (cli)", () => {
   beforeEach(() => {
+    executeDoctorSandboxDenialSuggestionsMock.mockResolvedValue([]);
     isInteractiveShellMock.mockReturnValue(false);
     createConfirmationWorkflowMock.mockReturnValue({
       interactive: false,
@@ -90,6 +104,126 @@ describe("voratiq doctor (cli)", () => {
     );
   });
 
+  it("appends resolved sandbox policies with --sandbox", async () => {
+    resolveCliContextMock.mockResolvedValue({
+      root: "/repo",
+    } as Awaited<ReturnType<typeof resolveCliContext>>);
+    executeDoctorDiagnosisMock.mockResolvedValue({
+      healthy: true,
+      issueLines: [],
+    });
+    executeDoctorSandboxReportMock.mockReturnValue([
+      {
+        agentId: "codex-high",
+        providerId: "codex",
+        stages: ["run"],
+        policy: {
+          providerId: "codex",
+          network: {
+            allowedDomains: ["api.openai.com", "mirror.internal.example"],
+            deniedDomains: [],
+            allowLocalBinding: false,
+          },
+          filesystem: { allowWrite: [], denyRead: ["secrets"], denyWrite: [] },
+          denialBackoff: {
+            enabled: true,
+            warningThreshold: 2,
+            delayThreshold: 3,
+            delayMs: 5000,
+            failFastThreshold: 4,
+            windowMs: 120000,
+          },
+        },
+      },
+    ]);
+
+    const result = await runDoctorCommand({ sandbox: true });
+
+    expect(executeDoctorSandboxReportMock).toHaveBeenCalledWith({
+      root: "/repo",
+    });
+    expect(stripAnsi(result.body)).toContain(
+      [
+        "Sandbox policies:",
+        "- `codex-high` (codex)",
+        "  run:",
+        "    allowedDomains: api.openai.com, mirror.internal.example",
+        "    deniedDomains: (none)",
+        "    allowLocalBinding: false",
+        "    denyRead: secrets",
+        "    denialBackoff: fail fast after 4 denials",
+      ].join("\n"),
+    );
+  });
+
+  it("suggests sandbox.yaml entries for denials that failed an agent", async () => {
+    resolveCliContextMock.mockResolvedValue({
+      root: "/repo",
+    } as Awaited<ReturnType<typeof resolveCliContext>>);
+    executeDoctorDiagnosisMock.mockResolvedValue({
+      healthy: true,
+      issueLines: [],
+    });
+    executeDoctorSandboxDenialSuggestionsMock.mockResolvedValue([
+      {
+        runId: "20251019-120000-abcde",
+        agentId: "codex-high",
+        allowedDomains: ["registry.npmjs.org"],
+        allowWrite: ["/tmp/npm-cache"],
+      },
+    ]);
+
+    const result = await runDoctorCommand();
+
+    expect(result.exitCode).toBe(0);
+    expect(stripAnsi(result.body)).toContain(
+      [
+        "Sandbox denials in run `20251019-120000-abcde`. Add to `.voratiq/sandbox.yaml` to allow them:",
+        "",
+        "agents:",
+        "  codex-high:",
+        "    network:",
+        "      allowedDomains:",
+        "        - registry.npmjs.org",
+        "    filesystem:",
+        "      allowWrite:",
+        "        - /tmp/npm-cache",
+      ].join("\n"),
+    );
+  });
+
+  it("warns instead of failing when sandbox denials cannot be read", async () => {
+    resolveCliContextMock.mockResolvedValue({
+      root: "/repo",
+    } as Awaited<ReturnType<typeof resolveCliContext>>);
+    executeDoctorDiagnosisMock.mockResolvedValue({
+      healthy: true,
+      issueLines: [],
+    });
+    executeDoctorSandboxDenialSuggestionsMock.mockRejectedValue(
+      new Error("Unexpected token in sandbox-denials.json"),
+    );
+
+    const alerts: { severity: string; message: string }[] = [];
+    const result = await runDoctorCommand({
+      writeOutput: (payload) => {
+        alerts.push(...(payload.alerts ?? []));
+      },
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(stripAnsi(result.body)).toContain(
+      "Workspace healthy, no issues found.",
+    );
+    expect(alerts).toEqual([
+      {
+        severity: "warn",
+        message:
+          "Could not read sandbox denials: Unexpected token in sandbox-denials.json",
+      },
+    ]);
+  });
+
   it("returns issue output with doctor --fix as the primary next action", async () => {
     resolveCliContextMock.mockResolvedValue({
       root: "/repo",
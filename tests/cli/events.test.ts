@@ -0,0 +1,210 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Command } from "commander";
+
+import {
+  emitSelectionDecided,
+  type LifecycleEvent,
+  observeStageEvents,
+  openEventStream,
+  runEventAdapter,
+  verifyEventAdapter,
+} from "../../src/cli/events.js";
+import { createSilentCliWriter } from "../../src/cli/operator-envelope.js";
+import { createRunCommand } from "../../src/cli/run.js";
+import type { RunReport } from "../../src/domain/run/model/types.js";
+import { createRunRenderer } from "../../src/render/transcripts/run.js";
+import { createVerifyRenderer } from "../../src/render/transcripts/verify.js";
+import { silenceCommander } from "../support/commander.js";
+import { createAgentInvocationRecord } from "../support/factories/run-records.js";
+
+describe("lifecycle event stream", () => {
+  let root: string;
+  let eventsFile: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-events-test-"));
+    eventsFile = join(root, "out", "events.ndjson");
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function readEvents(): Promise<LifecycleEvent[]> {
+    const content = await readFile(eventsFile, "utf8");
+    return content
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line) as LifecycleEvent);
+  }
+
+  it("writes one versioned line per run lifecycle transition", async () => {
+    const events = openEventStream({ eventsFile }, new Command());
+    const renderer = observeStageEvents(
+      createRunRenderer({
+        stdout: createSilentCliWriter(),
+        stderr: createSilentCliWriter(),
+      }),
+      runEventAdapter,
+      events,
+    );
+
+    renderer.begin({
+      runId: "run-1",
+      status: "running",
+      workspacePath: ".voratiq/run/sessions/run-1",
+      createdAt: "2025-10-23T17:00:00.000Z",
+    });
+    renderer.update(
+      createAgentInvocationRecord({ agentId: "alpha", status: "queued" }),
+    );
+    renderer.update(
+      createAgentInvocationRecord({ agentId: "alpha", status: "running" }),
+    );
+    renderer.update(
+      createAgentInvocationRecord({ agentId: "alpha", status: "running" }),
+    );
+    renderer.update(
+      createAgentInvocationRecord({
+        agentId: "alpha",
+        status: "failed",
+        watchdog: {
+          silenceTimeoutMs: 60_000,
+          wallClockCapMs: 600_000,
+          trigger: "silence",
+        },
+      }),
+    );
+    renderer.complete({
+      runId: "run-1",
+      status: "failed",
+      createdAt: "2025-10-23T17:00:00.000Z",
+      baseRevisionSha: "base",
+      spec: { path: "specs/task.md" },
+      agents: [],
+    } as unknown as RunReport);
+    events?.close();
+
+    const lines = await readEvents();
+    expect(lines.map((line) => line.event)).toEqual([
+      "session.created",
+      "agent.queued",
+      "agent.running",
+      "agent.completed",
+      "watchdog.triggered",
+      "session.completed",
+    ]);
+    expect(lines[0]).toMatchObject({
+      version: 1,
+      operator: "run",
+      sessionId: "run-1",
+      status: "running",
+      workspacePath: ".voratiq/run/sessions/run-1",
+    });
+    expect(typeof lines[0]?.timestamp).toBe("string");
+    expect(lines[3]).toMatchObject({ agentId: "alpha", status: "failed" });
+    expect(lines[4]).toMatchObject({ agentId: "alpha", trigger: "silence" });
+    expect(lines[5]).toMatchObject({ status: "failed" });
+  });
+
+  it("emits programmatic check results and the selection decision for verify", async () => {
+    const events = openEventStream({ eventsFile }, new Command());
+    const renderer = observeStageEvents(
+      createVerifyRenderer({
+        stdout: createSilentCliWriter(),
+        stderr: createSilentCliWriter(),
+      }),
+      verifyEventAdapter,
+      events,
+    );
+
+    renderer.begin({
+      verificationId: "verify-1",
+      status: "running",
+      workspacePath: ".voratiq/verify/sessions/verify-1",
+      createdAt: "2025-10-23T17:00:00.000Z",
+    });
+    renderer.update({
+      methodKey: "programmatic",
+      verifierLabel: "programmatic",
+      status: "succeeded",
+      checks: [
+        {
+          candidateId: "alpha",
+          results: [{ slug: "tests", status: "failed", exitCode: 1 }],
+        },
+      ],
+    });
+    renderer.update({
+      methodKey: "rubric:run-verification:judge",
+      verifierLabel: "run-verification",
+      agentLabel: "judge",
+      status: "succeeded",
+    });
+    renderer.complete("succeeded");
+    emitSelectionDecided(events, {
+      operator: "verify",
+      sessionId: "verify-1",
+      decision: {
+        state: "unresolved",
+        applyable: false,
+        unresolvedReasons: [
+          { code: "no_successful_verifiers", failedVerifierAgentIds: [] },
+        ],
+      },
+    });
+    events?.close();
+
+    const lines = await readEvents();
+    expect(lines.map((line) => line.event)).toEqual([
+      "session.created",
+      "check.completed",
+      "agent.completed",
+      "session.completed",
+      "selection.decided",
+    ]);
+    expect(lines[1]).toMatchObject({
+      agentId: "alpha",
+      slug: "tests",
+      status: "failed",
+      exitCode: 1,
+    });
+    expect(lines[4]).toMatchObject({
+      state: "unresolved",
+      unresolvedReasons: ["no_successful_verifiers"],
+    });
+  });
+
+  it("rejects streaming events to stdout alongside --json", async () => {
+    const command = silenceCommander(createRunCommand());
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(command.exitOverride());
+
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "run",
+        "--spec",
+        "specs/task.md",
+        "--events",
+        "ndjson",
+        "--json",
+      ]),
+    ).rejects.toThrow(/cannot be combined with `--json`/u);
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "run",
+        "--spec",
+        "specs/task.md",
+        "--events",
+        "xml",
+      ]),
+    ).rejects.toThrow(/Allowed choices are ndjson/u);
+  });
+});
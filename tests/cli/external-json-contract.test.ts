@@ -380,10 +380,12 @@ describe("external CLI JSON contract", () => {
       setup: () => {
         executeReduceCommandMock.mockResolvedValue({
           reductionId: "reduce-123",
-          target: {
-            type: "run",
-            id: "run-123",
-          },
+          targets: [
+            {
+              type: "run",
+              id: "run-123",
+            },
+          ],
           reducerAgentIds: ["agent-r"],
           reductions: [],
         });
@@ -430,10 +432,12 @@ describe("external CLI JSON contract", () => {
       setup: () => {
         executeReduceCommandMock.mockResolvedValue({
           reductionId: "reduce-message-123",
-          target: {
-            type: "message",
-            id: "message-123",
-          },
+          targets: [
+            {
+              type: "message",
+              id: "message-123",
+            },
+          ],
           reducerAgentIds: ["agent-r"],
           reductions: [],
         });
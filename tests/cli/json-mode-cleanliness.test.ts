@@ -285,10 +285,12 @@ describe("json mode cleanliness", () => {
 
       return Promise.resolve({
         reductionId: "reduce-123",
-        target: {
-          type: "run",
-          id: "run-123",
-        },
+        targets: [
+          {
+            type: "run",
+            id: "run-123",
+          },
+        ],
         reducerAgentIds: ["agent-a"],
         reductions: [],
       });
@@ -309,10 +311,12 @@ describe("json mode cleanliness", () => {
     ]);
 
     await runReduceCommand({
-      target: {
-        type: "run",
-        id: "run-123",
-      },
+      targets: [
+        {
+          type: "run",
+          id: "run-123",
+        },
+      ],
       json: true,
     });
 
@@ -2,7 +2,10 @@ import { Command } from "commander";
 
 import { createListCommand } from "../../src/cli/list.js";
 import { writeCommandOutput } from "../../src/cli/output.js";
-import { executeListCommand } from "../../src/commands/list/command.js";
+import {
+  executeListCommand,
+  executeListTimelineCommand,
+} from "../../src/commands/list/command.js";
 import { resolveCliContext } from "../../src/preflight/index.js";
 import { silenceCommander } from "../support/commander.js";
 
@@ -12,6 +15,7 @@ jest.mock("../../src/preflight/index.js", () => ({
 
 jest.mock("../../src/commands/list/command.js", () => ({
   executeListCommand: jest.fn(),
+  executeListTimelineCommand: jest.fn(),
 }));
 
 jest.mock("../../src/cli/output.js", () => ({
@@ -20,6 +24,7 @@ jest.mock("../../src/cli/output.js", () => ({
 
 const resolveCliContextMock = jest.mocked(resolveCliContext);
 const executeListCommandMock = jest.mocked(executeListCommand);
+const executeListTimelineCommandMock = jest.mocked(executeListTimelineCommand);
 const writeCommandOutputMock = jest.mocked(writeCommandOutput);
 
 describe("voratiq list command options", () => {
@@ -309,4 +314,86 @@ describe("voratiq list command options", () => {
       ]),
     ).rejects.toThrow(/`--limit` applies only to summary scope\./u);
   });
+
+  it("dispatches --all with filters to the cross-operator timeline", async () => {
+    executeListTimelineCommandMock.mockResolvedValue({
+      warnings: [],
+      mode: "timeline",
+      json: { mode: "timeline", sessions: [], warnings: [] },
+    });
+    const listCommand = silenceCommander(createListCommand());
+    listCommand.exitOverride();
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(listCommand);
+
+    await program.parseAsync([
+      "node",
+      "voratiq",
+      "list",
+      "--all",
+      "--agent",
+      "alpha",
+      "--agent",
+      "beta",
+      "--since",
+      "2026-03-01",
+      "--applied",
+      "--grep",
+      "backlinks",
+    ]);
+
+    expect(executeListCommandMock).not.toHaveBeenCalled();
+    expect(executeListTimelineCommandMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        root: "/repo",
+        limit: undefined,
+        allStatuses: undefined,
+        filters: {
+          agentIds: ["alpha", "beta"],
+          statuses: undefined,
+          since: new Date("2026-03-01T00:00:00.000Z"),
+          until: undefined,
+          specPath: undefined,
+          applied: true,
+          profile: undefined,
+          grep: "backlinks",
+        },
+      }),
+    );
+    expect(writeCommandOutputMock).toHaveBeenCalledWith({
+      body: "No sessions match the filters.",
+      alerts: [],
+    });
+  });
+
+  it("rejects --all combined with an operator flag", async () => {
+    const listCommand = silenceCommander(createListCommand());
+    listCommand.exitOverride();
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(listCommand);
+
+    await expect(
+      program.parseAsync(["node", "voratiq", "list", "--all", "--run"]),
+    ).rejects.toThrow(/`--all` cannot be combined with `--run`/u);
+  });
+
+  it("rejects filters outside the operators they apply to", async () => {
+    const parse = (args: string[]) => {
+      const listCommand = silenceCommander(createListCommand());
+      listCommand.exitOverride();
+      const program = silenceCommander(new Command());
+      program.exitOverride().addCommand(listCommand);
+      return program.parseAsync(["node", "voratiq", "list", ...args]);
+    };
+
+    await expect(parse(["--spec", "--applied"])).rejects.toThrow(
+      /`--applied` requires `--run` or `--all`\./u,
+    );
+    await expect(
+      parse(["--run", "run-123", "--agent", "alpha", "--status", "failed"]),
+    ).rejects.toThrow(/`--agent` applies only to summary scope\./u);
+    await expect(
+      parse(["--run", "--since", "2026-03-02", "--until", "2026-03-01"]),
+    ).rejects.toThrow(/`--since` must be earlier than `--until`/u);
+  });
 });
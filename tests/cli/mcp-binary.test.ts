@@ -96,6 +96,8 @@ describe("bundled MCP binary smoke", () => {
       "voratiq_message",
       "voratiq_apply",
       "voratiq_list",
+      "voratiq_compare",
+      "voratiq_cancel",
     ]);
   }, 120_000);
 });
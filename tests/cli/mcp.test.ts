@@ -1,6 +1,13 @@
 import { realpath } from "node:fs/promises";
 import { symlink } from "node:fs/promises";
-import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import {
+  chmod,
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+} from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { PassThrough } from "node:stream";
@@ -10,6 +17,7 @@ import { z } from "zod";
 
 import {
   externalApplyExecutionInputSchema,
+  externalCompareInspectionInputSchema,
   externalInspectionOperators,
   externalMessageExecutionInputSchema,
   externalReduceExecutionInputSchema,
@@ -19,10 +27,15 @@ import {
 } from "../../src/cli/contract.js";
 import type { OperatorResultEnvelope } from "../../src/cli/operator-envelope.js";
 import { listModes } from "../../src/contracts/list.js";
+import {
+  appendRunRecord,
+  flushAllRunRecordBuffers,
+} from "../../src/domain/run/persistence/adapter.js";
 import {
   createDefaultCliJsonContractInvoker,
   createEntrypointCliTarget,
   createVoratiqMcpRequestHandler,
+  type CreateVoratiqMcpRequestHandlerOptions,
   getVoratiqMcpToolDefinitions,
   type InvokeCliJsonContract,
   resolveVoratiqCliTarget,
@@ -32,6 +45,10 @@ import {
   VORATIQ_MCP_PROTOCOL_VERSION,
   VORATIQ_SUPPORTED_MCP_PROTOCOL_VERSIONS,
 } from "../../src/mcp/server.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../support/factories/run-records.js";
 
 type RequestHandler = ReturnType<typeof createVoratiqMcpRequestHandler>;
 
@@ -91,7 +108,7 @@ describe("bundled MCP server", () => {
     process.env.PATH = originalPath;
   });
 
-  it("exposes exactly seven tool definitions with contract-derived schemas", () => {
+  it("exposes exactly nine tool definitions with contract-derived schemas", () => {
     const definitions = getVoratiqMcpToolDefinitions();
     expect(definitions.map((definition) => definition.name)).toEqual([
       "voratiq_spec",
@@ -101,6 +118,8 @@ describe("bundled MCP server", () => {
       "voratiq_message",
       "voratiq_apply",
       "voratiq_list",
+      "voratiq_compare",
+      "voratiq_cancel",
     ]);
 
     const expectedInputSchemas = {
@@ -110,17 +129,28 @@ describe("bundled MCP server", () => {
       voratiq_verify: toInputSchema(externalVerifyExecutionInputSchema),
       voratiq_message: toInputSchema(externalMessageExecutionInputSchema),
       voratiq_apply: toInputSchema(externalApplyExecutionInputSchema),
+      voratiq_compare: toInputSchema(externalCompareInspectionInputSchema),
+      voratiq_cancel: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string", minLength: 1 },
+        },
+        required: ["sessionId"],
+        additionalProperties: false,
+      },
       voratiq_list: {
         type: "object",
         properties: {
           operator: {
             type: "string",
             enum: [...externalInspectionOperators],
+            description: "Required in `summary` and `detail` scope.",
           },
           mode: {
             type: "string",
             enum: [...listModes],
-            description: "Use `summary` or `detail` scope.",
+            description:
+              "Use `summary` or `detail` scope for one operator, or `timeline` scope for every operator.",
           },
           sessionId: {
             type: "string",
@@ -130,17 +160,66 @@ describe("bundled MCP server", () => {
           allStatuses: {
             type: "boolean",
             description:
-              "Summary-only. Include sessions hidden by the default summary filter.",
+              "Summary and timeline. Include sessions hidden by the default summary filter.",
           },
           limit: {
             type: "integer",
             exclusiveMinimum: 0,
             maximum: 9007199254740991,
             description:
-              "Summary-only. Show only the N most recent summary sessions.",
+              "Summary and timeline. Show only the N most recent summary sessions.",
+          },
+          agentIds: {
+            type: "array",
+            items: { type: "string", minLength: 1 },
+            minItems: 1,
+            description:
+              "Summary and timeline. Only sessions with any of these agents.",
+          },
+          statuses: {
+            type: "array",
+            items: { type: "string", minLength: 1 },
+            minItems: 1,
+            description:
+              "Summary and timeline. Only sessions with any of these statuses.",
+          },
+          since: {
+            type: "string",
+            minLength: 1,
+            description:
+              "Summary and timeline. Only sessions created on or after this date or ISO timestamp.",
+          },
+          until: {
+            type: "string",
+            minLength: 1,
+            description:
+              "Summary and timeline. Only sessions created before this date or ISO timestamp.",
+          },
+          specPath: {
+            type: "string",
+            minLength: 1,
+            description:
+              "Summary and timeline. Only runs of this spec file and spec sessions that drafted it.",
+          },
+          applied: {
+            type: "boolean",
+            description:
+              "Summary and timeline. Only runs whose diff was applied.",
+          },
+          profile: {
+            type: "string",
+            minLength: 1,
+            description:
+              "Summary and timeline. Only sessions with an agent the orchestration profile assigns to that stage; matches agent membership, not the profile a session ran with.",
+          },
+          grep: {
+            type: "string",
+            minLength: 1,
+            description:
+              "Summary and timeline. Case-insensitive text in spec descriptions, message prompts, interactive tasks, or run summaries.",
           },
         },
-        required: ["operator", "mode"],
+        required: ["mode"],
         additionalProperties: false,
         allOf: [
           {
@@ -151,6 +230,7 @@ describe("bundled MCP server", () => {
               required: ["mode"],
             },
             then: {
+              required: ["operator"],
               not: { required: ["sessionId"] },
             },
           },
@@ -162,10 +242,32 @@ describe("bundled MCP server", () => {
               required: ["mode"],
             },
             then: {
-              required: ["sessionId"],
+              required: ["operator", "sessionId"],
               allOf: [
                 { not: { required: ["allStatuses"] } },
                 { not: { required: ["limit"] } },
+                { not: { required: ["agentIds"] } },
+                { not: { required: ["statuses"] } },
+                { not: { required: ["since"] } },
+                { not: { required: ["until"] } },
+                { not: { required: ["specPath"] } },
+                { not: { required: ["applied"] } },
+                { not: { required: ["profile"] } },
+                { not: { required: ["grep"] } },
+              ],
+            },
+          },
+          {
+            if: {
+              properties: {
+                mode: { const: "timeline" },
+              },
+              required: ["mode"],
+            },
+            then: {
+              allOf: [
+                { not: { required: ["operator"] } },
+                { not: { required: ["sessionId"] } },
               ],
             },
           },
@@ -283,6 +385,8 @@ describe("bundled MCP server", () => {
       "voratiq_message",
       "voratiq_apply",
       "voratiq_list",
+      "voratiq_compare",
+      "voratiq_cancel",
     ]);
     expect(invokeCliJsonContractMock).not.toHaveBeenCalled();
   });
@@ -322,7 +426,7 @@ describe("bundled MCP server", () => {
       params: {},
     });
     const tools = expectSuccess<ToolListResult>(toolsResponse);
-    expect(tools.tools).toHaveLength(7);
+    expect(tools.tools).toHaveLength(9);
     expect(invokeCliJsonContractMock).not.toHaveBeenCalled();
   });
 
@@ -352,7 +456,7 @@ describe("bundled MCP server", () => {
       params: {},
     });
     const tools = expectSuccess<ToolListResult>(toolsResponse);
-    expect(tools.tools).toHaveLength(7);
+    expect(tools.tools).toHaveLength(9);
     expect(invokeCliJsonContractMock).not.toHaveBeenCalled();
   });
 
@@ -432,7 +536,7 @@ describe("bundled MCP server", () => {
       jsonrpc: "2.0",
       method: "notifications/tools/list_changed",
     });
-    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(7);
+    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(9);
     expect(invokeCliJsonContractMock).not.toHaveBeenCalled();
   });
 
@@ -483,7 +587,7 @@ describe("bundled MCP server", () => {
       jsonrpc: "2.0",
       method: "notifications/tools/list_changed",
     });
-    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(7);
+    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(9);
   });
 
   it("accepts newline-delimited JSON-RPC requests and replies with newline-delimited JSON", async () => {
@@ -527,7 +631,7 @@ describe("bundled MCP server", () => {
       jsonrpc: "2.0",
       method: "notifications/tools/list_changed",
     });
-    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(7);
+    expect(expectSuccess<ToolListResult>(responses[2]).tools).toHaveLength(9);
   });
 
   it("routes execution tools through voratiq <operator> --json and returns envelope output", async () => {
@@ -568,6 +672,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "spec",
+      signal: expect.any(AbortSignal),
       args: [
         "spec",
         "--description",
@@ -597,6 +702,61 @@ describe("bundled MCP server", () => {
     ]);
   });
 
+  it("routes voratiq_reduce targets through repeated target flags", async () => {
+    const envelope: OperatorResultEnvelope = {
+      version: 1,
+      operator: "reduce",
+      status: "succeeded",
+      timestamp: "2026-03-31T12:00:30.000Z",
+      ids: {
+        sessionId: "reduce-123",
+      },
+      artifacts: [],
+    };
+    const invokeCliJsonContractMock =
+      jest.fn() as jest.MockedFunction<InvokeCliJsonContract>;
+    invokeCliJsonContractMock.mockResolvedValue({
+      kind: "success",
+      exitCode: 0,
+      stdout: JSON.stringify(envelope),
+      stderr: "",
+    });
+    const handler = await createInitializedHandler(invokeCliJsonContractMock);
+
+    const response = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 30,
+      method: "tools/call",
+      params: {
+        name: "voratiq_reduce",
+        arguments: {
+          targets: [
+            { type: "run", id: "run-1" },
+            { type: "message", id: "message-2" },
+            { type: "run", id: "run-3" },
+          ],
+        },
+      },
+    });
+    const result = expectSuccess<CallToolResult>(response);
+
+    expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
+      operator: "reduce",
+      signal: expect.any(AbortSignal),
+      args: [
+        "reduce",
+        "--run",
+        "run-1",
+        "--message",
+        "message-2",
+        "--run",
+        "run-3",
+        "--json",
+      ],
+    });
+    expect(result.isError).toBe(false);
+  });
+
   it("routes voratiq_message through voratiq message --json", async () => {
     const envelope: OperatorResultEnvelope = {
       version: 1,
@@ -643,6 +803,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "message",
+      signal: expect.any(AbortSignal),
       args: [
         "message",
         "--prompt",
@@ -664,6 +825,127 @@ describe("bundled MCP server", () => {
     expect(result.structuredContent).toEqual(envelope);
   });
 
+  it("routes voratiq_apply merge strategies through voratiq apply --json", async () => {
+    const envelope: OperatorResultEnvelope = {
+      version: 1,
+      operator: "apply",
+      status: "succeeded",
+      timestamp: "2026-03-31T12:01:30.000Z",
+      ids: {
+        runId: "run-123",
+        agentId: "agent-a",
+      },
+      artifacts: [],
+    };
+    const invokeCliJsonContractMock =
+      jest.fn() as jest.MockedFunction<InvokeCliJsonContract>;
+    invokeCliJsonContractMock.mockResolvedValue({
+      kind: "success",
+      exitCode: 0,
+      stdout: JSON.stringify(envelope),
+      stderr: "",
+    });
+    const handler = await createInitializedHandler(invokeCliJsonContractMock);
+
+    await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 32,
+      method: "tools/call",
+      params: {
+        name: "voratiq_apply",
+        arguments: { runId: "run-123", agentId: "agent-a", threeWay: true },
+      },
+    });
+    await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 33,
+      method: "tools/call",
+      params: {
+        name: "voratiq_apply",
+        arguments: { runId: "run-123", agentId: "agent-a", rebaseOnto: "HEAD" },
+      },
+    });
+
+    expect(invokeCliJsonContractMock).toHaveBeenNthCalledWith(1, {
+      operator: "apply",
+      signal: expect.any(AbortSignal),
+      args: [
+        "apply",
+        "--run",
+        "run-123",
+        "--agent",
+        "agent-a",
+        "--3way",
+        "--json",
+      ],
+    });
+    expect(invokeCliJsonContractMock).toHaveBeenNthCalledWith(2, {
+      operator: "apply",
+      signal: expect.any(AbortSignal),
+      args: [
+        "apply",
+        "--run",
+        "run-123",
+        "--agent",
+        "agent-a",
+        "--rebase-onto",
+        "HEAD",
+        "--json",
+      ],
+    });
+  });
+
+  it("routes voratiq_compare pairwise input through voratiq compare --json", async () => {
+    const comparePayload = {
+      mode: "pairwise",
+      runId: "run-123",
+      baseRevisionSha: "abc123",
+      left: { agentId: "agent-a", source: "commit" },
+      right: { agentId: "agent-b", source: "patch" },
+      diffStatistics: "1 file changed, 1 insertion(+), 1 deletion(-)",
+      files: [{ path: "src/index.ts", insertions: 1, deletions: 1 }],
+      diff: "diff --git a/src/index.ts b/src/index.ts\n",
+      warnings: [],
+    };
+    const invokeCliJsonContractMock =
+      jest.fn() as jest.MockedFunction<InvokeCliJsonContract>;
+    invokeCliJsonContractMock.mockResolvedValue({
+      kind: "success",
+      exitCode: 0,
+      stdout: JSON.stringify(comparePayload),
+      stderr: "",
+    });
+    const handler = await createInitializedHandler(invokeCliJsonContractMock);
+
+    const response = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 34,
+      method: "tools/call",
+      params: {
+        name: "voratiq_compare",
+        arguments: { runId: "run-123", agentIds: ["agent-a", "agent-b"] },
+      },
+    });
+    const result = expectSuccess<CallToolResult>(response);
+
+    expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
+      operator: "compare",
+      signal: expect.any(AbortSignal),
+      args: [
+        "compare",
+        "--run",
+        "run-123",
+        "--agent",
+        "agent-a",
+        "--agent",
+        "agent-b",
+        "--json",
+      ],
+    });
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toEqual(comparePayload);
+  });
+
   it("routes voratiq_verify message targets through voratiq verify --message --json", async () => {
     const envelope: OperatorResultEnvelope = {
       version: 1,
@@ -714,6 +996,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "verify",
+      signal: expect.any(AbortSignal),
       args: ["verify", "--message", "message-123", "--json"],
     });
     expect(result.isError).toBe(false);
@@ -793,6 +1076,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "list",
+      signal: expect.any(AbortSignal),
       args: ["list", "--verify", "verify-missing", "--json"],
     });
     expect(result.isError).toBe(false);
@@ -832,6 +1116,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "list",
+      signal: expect.any(AbortSignal),
       args: ["list", "--run", "--json"],
     });
     expect(result.isError).toBe(false);
@@ -873,6 +1158,7 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "list",
+      signal: expect.any(AbortSignal),
       args: ["list", "--run", "--all-statuses", "--limit", "2", "--json"],
     });
     expect(result.isError).toBe(false);
@@ -912,12 +1198,89 @@ describe("bundled MCP server", () => {
 
     expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
       operator: "list",
+      signal: expect.any(AbortSignal),
       args: ["list", "--verify", "verify-abc", "--json"],
     });
     expect(result.isError).toBe(false);
     expect(result.structuredContent).toEqual(detailPayload);
   });
 
+  it("routes MCP timeline mode with filters to the CLI --all path", async () => {
+    const timelinePayload = {
+      mode: "timeline",
+      sessions: [
+        {
+          operator: "spec",
+          sessionId: "spec-123",
+          status: "succeeded",
+          createdAt: "2026-03-01T00:00:00.000Z",
+        },
+      ],
+      warnings: [],
+    };
+    const invokeCliJsonContractMock =
+      jest.fn() as jest.MockedFunction<InvokeCliJsonContract>;
+    invokeCliJsonContractMock.mockResolvedValue({
+      kind: "success",
+      exitCode: 0,
+      stdout: JSON.stringify(timelinePayload),
+      stderr: "",
+    });
+    const handler = await createInitializedHandler(invokeCliJsonContractMock);
+
+    const response = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 57,
+      method: "tools/call",
+      params: {
+        name: "voratiq_list",
+        arguments: {
+          mode: "timeline",
+          agentIds: ["alpha", "beta"],
+          since: "2026-03-01",
+          grep: "backlinks",
+        },
+      },
+    });
+    const result = expectSuccess<CallToolResult>(response);
+
+    expect(invokeCliJsonContractMock).toHaveBeenCalledWith({
+      operator: "list",
+      signal: expect.any(AbortSignal),
+      args: [
+        "list",
+        "--all",
+        "--agent",
+        "alpha",
+        "--agent",
+        "beta",
+        "--since",
+        "2026-03-01",
+        "--grep",
+        "backlinks",
+        "--json",
+      ],
+    });
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toEqual(timelinePayload);
+
+    const rejected = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 58,
+      method: "tools/call",
+      params: {
+        name: "voratiq_list",
+        arguments: { mode: "timeline", operator: "run" },
+      },
+    });
+    const failure = expectSuccess<CallToolResult>(rejected)
+      .structuredContent as TransportFailureResult;
+    expect(failure.message).toBe(
+      "MCP list timeline mode spans every operator; unsupported field(s): operator.",
+    );
+    expect(invokeCliJsonContractMock).toHaveBeenCalledTimes(1);
+  });
+
   it("rejects MCP list mode `table` as invalid_input before spawning", async () => {
     const invokeCliJsonContractMock =
       jest.fn() as jest.MockedFunction<InvokeCliJsonContract>;
@@ -1263,9 +1626,11 @@ describe("bundled MCP server", () => {
     }
   });
 
-  it("resources/list returns exactly one resource entry with the guide URI", async () => {
+  it("resources/list returns exactly one resource entry with the guide URI when no sessions exist", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-mcp-resources-"));
     const handler = await createInitializedHandler(
       jest.fn() as jest.MockedFunction<InvokeCliJsonContract>,
+      { root },
     );
 
     const response = await handler.handleRequest({
@@ -1274,6 +1639,7 @@ describe("bundled MCP server", () => {
       method: "resources/list",
       params: {},
     });
+    await rm(root, { recursive: true, force: true });
     const result = expectSuccess<{ resources: unknown[] }>(response);
 
     expect(result.resources).toHaveLength(1);
@@ -1391,6 +1757,307 @@ describe("bundled MCP server", () => {
     });
   });
 
+  it("resources/templates/list describes session and artifact URIs", async () => {
+    const handler = await createInitializedHandler(
+      jest.fn() as jest.MockedFunction<InvokeCliJsonContract>,
+    );
+
+    const response = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 83,
+      method: "resources/templates/list",
+    });
+    const result = expectSuccess<{
+      resourceTemplates: Array<{ uriTemplate: string }>;
+    }>(response);
+
+    expect(result.resourceTemplates.map((t) => t.uriTemplate)).toEqual(
+      expect.arrayContaining([
+        "voratiq://{operator}/{sessionId}",
+        "voratiq://run/{sessionId}/{agentId}/{artifact}",
+        "voratiq://verify/{sessionId}/result",
+        "voratiq://reduce/{sessionId}/reduction.md",
+      ]),
+    );
+  });
+
+  it("advertises and accepts resource subscriptions when notifications can be sent", async () => {
+    const handler = createVoratiqMcpRequestHandler({
+      invokeCliJsonContract:
+        jest.fn() as jest.MockedFunction<InvokeCliJsonContract>,
+      serverVersion: "0.1.0-test",
+      sendNotification: jest.fn(),
+    });
+
+    try {
+      const initialized = expectSuccess<InitializeResult>(
+        await handler.handleRequest({
+          jsonrpc: "2.0",
+          id: 84,
+          method: "initialize",
+          params: { protocolVersion: "2025-11-25" },
+        }),
+      );
+      expect(initialized.capabilities.resources).toEqual({ subscribe: true });
+
+      await expect(
+        handler.handleRequest({
+          jsonrpc: "2.0",
+          id: 85,
+          method: "resources/subscribe",
+          params: { uri: "voratiq://run/20260415-run-abc123" },
+        }),
+      ).resolves.toEqual({ jsonrpc: "2.0", id: 85, result: {} });
+      await expect(
+        handler.handleRequest({
+          jsonrpc: "2.0",
+          id: 86,
+          method: "resources/subscribe",
+          params: { uri: VORATIQ_GUIDE_RESOURCE_URI },
+        }),
+      ).resolves.toMatchObject({ id: 86, error: { code: -32602 } });
+      await expect(
+        handler.handleRequest({
+          jsonrpc: "2.0",
+          id: 87,
+          method: "resources/unsubscribe",
+          params: { uri: "voratiq://run/20260415-run-abc123" },
+        }),
+      ).resolves.toEqual({ jsonrpc: "2.0", id: 87, result: {} });
+    } finally {
+      handler.close();
+    }
+  });
+
+  it("reports session progress for tool calls that carry a progress token", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-mcp-progress-"));
+    await appendRunRecord({
+      root,
+      runsFilePath: join(root, ".voratiq", "run", "index.json"),
+      record: createRunRecord({
+        runId: "20260415-run-progress",
+        status: "running",
+        agents: [
+          createAgentInvocationRecord({ agentId: "alpha" }),
+          createAgentInvocationRecord({ agentId: "beta", status: "running" }),
+        ],
+      }),
+    });
+    await flushAllRunRecordBuffers();
+
+    let observedSignal: AbortSignal | undefined;
+    const invokeCliJsonContractMock = jest.fn<InvokeCliJsonContract>(
+      async (input) => {
+        observedSignal = input.signal;
+        input.onSessionAcknowledged?.("20260415-run-progress");
+        await new Promise((resolve) => {
+          input.signal?.addEventListener("abort", resolve, { once: true });
+        });
+        return { kind: "success", exitCode: 130, stdout: "", stderr: "" };
+      },
+    );
+    const sendNotification = jest.fn();
+    const handler = await createInitializedHandler(invokeCliJsonContractMock, {
+      root,
+      sendNotification,
+    });
+
+    try {
+      const pending = handler.handleRequest({
+        jsonrpc: "2.0",
+        id: 90,
+        method: "tools/call",
+        params: {
+          name: "voratiq_run",
+          arguments: { specPath: "specs/task.md" },
+          _meta: { progressToken: "run-progress" },
+        },
+      });
+      await waitFor(() => sendNotification.mock.calls.length > 0);
+
+      expect(sendNotification).toHaveBeenCalledWith({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken: "run-progress",
+          progress: 1,
+          total: 2,
+          message: "run running: 1 succeeded, 1 running",
+        },
+      });
+
+      await handler.handleNotification({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 90, reason: "user stopped the swarm" },
+      });
+      await pending;
+
+      expect(observedSignal?.aborted).toBe(true);
+    } finally {
+      handler.close();
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it("cancels acknowledged sessions through voratiq_cancel until the CLI exits", async () => {
+    let observedSignal: AbortSignal | undefined;
+    let finishCli: () => void = () => {};
+    const completion = new Promise<void>((resolve) => {
+      finishCli = resolve;
+    });
+    const invokeCliJsonContractMock = jest.fn<InvokeCliJsonContract>(
+      (input) => {
+        observedSignal = input.signal;
+        input.signal?.addEventListener("abort", () => finishCli(), {
+          once: true,
+        });
+        return Promise.resolve({
+          kind: "success",
+          exitCode: 0,
+          stdout: JSON.stringify({
+            version: 1,
+            operator: "run",
+            status: "running",
+            timestamp: "2026-04-15T22:00:00.000Z",
+            ids: { sessionId: "20260415-run-ack" },
+            artifacts: [],
+          }),
+          stderr: "",
+          acknowledgement: { sessionId: "20260415-run-ack", completion },
+        });
+      },
+    );
+    const handler = await createInitializedHandler(invokeCliJsonContractMock);
+
+    const response = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 91,
+      method: "tools/call",
+      params: {
+        name: "voratiq_run",
+        arguments: { specPath: "specs/task.md" },
+      },
+    });
+    expect(response).toMatchObject({ id: 91, result: { isError: false } });
+
+    await handler.handleNotification({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId: 91, reason: "answered calls are not cancellable" },
+    });
+    expect(observedSignal?.aborted).toBe(false);
+
+    const cancelResponse = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 92,
+      method: "tools/call",
+      params: {
+        name: "voratiq_cancel",
+        arguments: { sessionId: "20260415-run-ack" },
+      },
+    });
+    expect(observedSignal?.aborted).toBe(true);
+    expect(
+      expectSuccess<{ structuredContent: unknown; isError: boolean }>(
+        cancelResponse,
+      ),
+    ).toMatchObject({
+      structuredContent: { sessionId: "20260415-run-ack", cancelled: true },
+      isError: false,
+    });
+
+    const repeatResponse = await handler.handleRequest({
+      jsonrpc: "2.0",
+      id: 93,
+      method: "tools/call",
+      params: {
+        name: "voratiq_cancel",
+        arguments: { sessionId: "20260415-run-ack" },
+      },
+    });
+    expect(
+      expectSuccess<{ structuredContent: unknown; isError: boolean }>(
+        repeatResponse,
+      ),
+    ).toMatchObject({
+      structuredContent: { sessionId: "20260415-run-ack", cancelled: false },
+      isError: true,
+    });
+    expect(invokeCliJsonContractMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("interrupts swarm CLI processes when a tool call is cancelled", async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), "voratiq-mcp-cancel-"));
+    const scriptPath = join(repoDir, "fake-voratiq.js");
+    const originalCwd = process.cwd();
+
+    await writeFile(
+      scriptPath,
+      [
+        "const { writeFileSync } = require('node:fs');",
+        "process.on('SIGINT', () => {",
+        "  writeFileSync('interrupted', 'run-123');",
+        "  process.exit(130);",
+        "});",
+        "writeFileSync(process.env.VORATIQ_MCP_ACK_PATH, JSON.stringify({ operator: 'run', sessionId: 'run-123', status: 'running' }));",
+        "setTimeout(() => process.exit(0), 10000);",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    try {
+      process.chdir(repoDir);
+      const invoker = createDefaultCliJsonContractInvoker({
+        command: process.execPath,
+        argsPrefix: [scriptPath],
+      });
+      const abortController = new AbortController();
+      const acknowledged: string[] = [];
+
+      const early = await invoker({
+        operator: "run",
+        args: ["run", "--spec", "specs/task.md", "--json"],
+        signal: abortController.signal,
+      });
+
+      expect(early).toMatchObject({ kind: "success", exitCode: 0 });
+      if (early.kind !== "success" || !early.acknowledgement) {
+        throw new Error("Expected an early acknowledgement.");
+      }
+      expect(JSON.parse(early.stdout)).toMatchObject({ status: "running" });
+      expect(early.acknowledgement.sessionId).toBe("run-123");
+
+      abortController.abort();
+      await early.acknowledgement.completion;
+      await expect(
+        readFile(join(repoDir, "interrupted"), "utf8"),
+      ).resolves.toBe("run-123");
+      await rm(join(repoDir, "interrupted"));
+
+      const heldAbortController = new AbortController();
+      const held = await invoker({
+        operator: "run",
+        args: ["run", "--spec", "specs/task.md", "--json"],
+        signal: heldAbortController.signal,
+        onSessionAcknowledged: (sessionId) => {
+          acknowledged.push(sessionId);
+          heldAbortController.abort();
+        },
+      });
+
+      expect(acknowledged).toEqual(["run-123"]);
+      expect(held).toMatchObject({ kind: "success", exitCode: 130 });
+      await expect(
+        readFile(join(repoDir, "interrupted"), "utf8"),
+      ).resolves.toBe("run-123");
+    } finally {
+      process.chdir(originalCwd);
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
   it("keeps control operators synchronous in the default CLI bridge", async () => {
     const repoDir = await mkdtemp(join(tmpdir(), "voratiq-mcp-sync-"));
     const scriptPath = join(repoDir, "fake-voratiq.js");
@@ -1446,10 +2113,15 @@ describe("bundled MCP server", () => {
 
 async function createInitializedHandler(
   invokeCliJsonContract: InvokeCliJsonContract,
+  options: Pick<
+    CreateVoratiqMcpRequestHandlerOptions,
+    "root" | "sendNotification"
+  > = {},
 ): Promise<RequestHandler> {
   const handler = createVoratiqMcpRequestHandler({
     invokeCliJsonContract,
     serverVersion: "0.1.0-test",
+    ...options,
   });
 
   const initResponse = await handler.handleRequest({
@@ -1464,6 +2136,16 @@ async function createInitializedHandler(
   return handler;
 }
 
+async function waitFor(predicate: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition.");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
 function expectSuccess<T>(result: unknown): T {
   const typed = result as JsonRpcResult<T>;
   if ("error" in typed) {
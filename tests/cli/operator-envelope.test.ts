@@ -242,10 +242,12 @@ describe("operator envelope helpers", () => {
   it("includes source ids for reduce envelopes", () => {
     const envelope = buildReduceOperatorEnvelope({
       reductionId: "reduce-123",
-      target: {
-        type: "verify",
-        id: "verify-456",
-      },
+      targets: [
+        {
+          type: "verify",
+          id: "verify-456",
+        },
+      ],
       status: "succeeded",
     });
 
@@ -276,10 +278,12 @@ describe("operator envelope helpers", () => {
   it("preserves prior reduction lineage for reduce-on-reduce envelopes", () => {
     const envelope = buildReduceOperatorEnvelope({
       reductionId: "reduce-123",
-      target: {
-        type: "reduce",
-        id: "reduce-456",
-      },
+      targets: [
+        {
+          type: "reduce",
+          id: "reduce-456",
+        },
+      ],
       status: "succeeded",
     });
 
@@ -310,10 +314,12 @@ describe("operator envelope helpers", () => {
   it("points message-backed reductions at the message session path", () => {
     const envelope = buildReduceOperatorEnvelope({
       reductionId: "reduce-123",
-      target: {
-        type: "message",
-        id: "message-456",
-      },
+      targets: [
+        {
+          type: "message",
+          id: "message-456",
+        },
+      ],
       status: "succeeded",
     });
 
@@ -0,0 +1,47 @@
+import { Command } from "commander";
+
+import { createPruneCommand } from "../../src/cli/prune.js";
+import { silenceCommander } from "../support/commander.js";
+
+function buildProgram(): Command {
+  const pruneCommand = silenceCommander(createPruneCommand());
+  pruneCommand.exitOverride();
+
+  const program = silenceCommander(new Command());
+  program.exitOverride().addCommand(pruneCommand);
+  return program;
+}
+
+describe("voratiq prune command options", () => {
+  it("requires at least one retention rule", async () => {
+    await expect(
+      buildProgram().parseAsync(["node", "voratiq", "prune", "--dry-run"]),
+    ).rejects.toThrow(
+      /at least one retention rule is required: `--older-than`, `--keep-last`, or `--status`/u,
+    );
+  });
+
+  it("rejects durations without a unit", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "prune",
+        "--older-than",
+        "30",
+      ]),
+    ).rejects.toThrow(/Expected a duration such as `30d`/u);
+  });
+
+  it("rejects statuses that cannot be pruned", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "prune",
+        "--status",
+        "aborted,running",
+      ]),
+    ).rejects.toThrow(/--status accepts a comma-separated list of/u);
+  });
+});
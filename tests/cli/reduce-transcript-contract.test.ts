@@ -72,7 +72,7 @@ describe("reduce transcript contract", () => {
   it("renders mixed-outcome reducers without a continuation hint", async () => {
     executeReduceCommandMock.mockResolvedValue({
       reductionId: "reduce-123",
-      target: { type: "run", id: "run-123" },
+      targets: [{ type: "run", id: "run-123" }],
       reducerAgentIds: ["alpha", "beta", "gamma"],
       reductions: [],
     } as unknown as Awaited<ReturnType<typeof executeReduceCommand>>);
@@ -128,7 +128,7 @@ describe("reduce transcript contract", () => {
     );
 
     const result = await runReduceCommand({
-      target: { type: "run", id: "run-123" },
+      targets: [{ type: "run", id: "run-123" }],
       stdout: { write: () => true, isTTY: false },
       writeOutput: () => undefined,
     });
@@ -150,7 +150,7 @@ describe("reduce transcript contract", () => {
   it("does not emit a continuation hint for verification targets either", async () => {
     executeReduceCommandMock.mockResolvedValue({
       reductionId: "reduce-789",
-      target: { type: "verify", id: "verify-123" },
+      targets: [{ type: "verify", id: "verify-123" }],
       reducerAgentIds: ["alpha"],
       reductions: [],
     } as unknown as Awaited<ReturnType<typeof executeReduceCommand>>);
@@ -183,7 +183,7 @@ describe("reduce transcript contract", () => {
       "## Reduction\n**Sources**: x\n**Summary**: ok\n",
     );
     const result = await runReduceCommand({
-      target: { type: "verify", id: "verify-123" },
+      targets: [{ type: "verify", id: "verify-123" }],
       stdout: { write: () => true, isTTY: false },
       writeOutput: () => undefined,
     });
@@ -196,7 +196,7 @@ describe("reduce transcript contract", () => {
   it("does not emit reuse hints on full failure", async () => {
     executeReduceCommandMock.mockResolvedValue({
       reductionId: "reduce-456",
-      target: { type: "verify", id: "verify-123" },
+      targets: [{ type: "verify", id: "verify-123" }],
       reducerAgentIds: ["alpha", "beta"],
       reductions: [],
     } as unknown as Awaited<ReturnType<typeof executeReduceCommand>>);
@@ -235,7 +235,7 @@ describe("reduce transcript contract", () => {
     ]);
 
     const result = await runReduceCommand({
-      target: { type: "verify", id: "verify-123" },
+      targets: [{ type: "verify", id: "verify-123" }],
       stdout: { write: () => true, isTTY: true },
       writeOutput: () => undefined,
     });
@@ -4,7 +4,7 @@ import { createReduceCommand } from "../../src/cli/reduce.js";
 import { silenceCommander } from "../support/commander.js";
 
 describe("reduce command options", () => {
-  it("requires exactly one target flag", async () => {
+  it("requires at least one target flag", async () => {
     const reduceCommand = silenceCommander(createReduceCommand());
     reduceCommand.exitOverride();
 
@@ -14,24 +14,34 @@ describe("reduce command options", () => {
     await expect(
       program.parseAsync(["reduce", "--agent", "alpha"], { from: "user" }),
     ).rejects.toThrow(
-      /exactly one target flag is required: `--spec`, `--run`, `--reduce`, `--verify`, or `--message`/i,
+      /at least one target flag is required: `--spec`, `--run`, `--reduce`, `--verify`, or `--message`/i,
     );
   });
 
-  it("rejects multiple target flags", async () => {
+  it("parses repeated target flags of mixed kinds", async () => {
+    let received: ReduceCommandActionOptions | undefined;
+
     const reduceCommand = silenceCommander(createReduceCommand());
-    reduceCommand.exitOverride();
+    reduceCommand
+      .exitOverride()
+      .action((options: ReduceCommandActionOptions) => {
+        received = options;
+      });
 
     const program = silenceCommander(new Command());
     program.exitOverride().addCommand(reduceCommand);
 
-    await expect(
-      program.parseAsync(["reduce", "--spec", "spec-1", "--run", "run-2"], {
-        from: "user",
-      }),
-    ).rejects.toThrow(
-      /exactly one target flag is required: `--spec`, `--run`, `--reduce`, `--verify`, or `--message`/i,
+    await program.parseAsync(
+      ["reduce", "--run", "run-1", "--spec", "spec-1", "--run", "run-2"],
+      { from: "user" },
     );
+
+    expect(received).toEqual({
+      run: ["run-1", "run-2"],
+      spec: ["spec-1"],
+      agent: [],
+      extraContext: [],
+    });
   });
 
   it("parses a message reduction target", async () => {
@@ -53,7 +63,7 @@ describe("reduce command options", () => {
     );
 
     expect(received).toEqual({
-      message: "message-123",
+      message: ["message-123"],
       agent: ["alpha"],
       extraContext: [],
     });
@@ -90,7 +100,7 @@ describe("reduce command options", () => {
     );
 
     expect(received).toEqual({
-      spec: "spec-123",
+      spec: ["spec-123"],
       agent: ["alpha", "beta"],
       profile: "quality",
       maxParallel: 2,
@@ -129,11 +139,11 @@ describe("reduce command options", () => {
 });
 
 interface ReduceCommandActionOptions {
-  spec?: string;
-  run?: string;
-  verify?: string;
-  reduce?: string;
-  message?: string;
+  spec?: string[];
+  run?: string[];
+  verify?: string[];
+  reduce?: string[];
+  message?: string[];
   agent?: string[];
   profile?: string;
   maxParallel?: number;
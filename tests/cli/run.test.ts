@@ -107,6 +107,84 @@ describe("voratiq run command options", () => {
     ]);
   });
 
+  it("requires --spec or --resume", async () => {
+    const runCommand = silenceCommander(createRunCommand());
+    runCommand.exitOverride();
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(runCommand);
+
+    await expect(
+      program.parseAsync(["node", "voratiq", "run"]),
+    ).rejects.toThrow(/one of `--spec` or `--resume` is required/u);
+  });
+
+  it("rejects --resume combined with run selection flags", async () => {
+    const runCommand = silenceCommander(createRunCommand());
+    runCommand.exitOverride();
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(runCommand);
+
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "run",
+        "--resume",
+        "run-123",
+        "--spec",
+        "specs/sample.md",
+        "--agent",
+        "alpha",
+      ]),
+    ).rejects.toThrow(
+      /`--resume` cannot be combined with `--spec` or `--agent`/u,
+    );
+  });
+
+  it("rejects --force without --resume", async () => {
+    const runCommand = silenceCommander(createRunCommand());
+    runCommand.exitOverride();
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(runCommand);
+
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "run",
+        "--spec",
+        "specs/sample.md",
+        "--force",
+      ]),
+    ).rejects.toThrow(/`--force` requires `--resume`/u);
+  });
+
+  it("rejects --base combined with --include-worktree-changes", async () => {
+    const runCommand = silenceCommander(createRunCommand());
+    runCommand.exitOverride();
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(runCommand);
+
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "run",
+        "--spec",
+        "specs/sample.md",
+        "--base",
+        "release",
+        "--include-worktree-changes",
+      ]),
+    ).rejects.toThrow(
+      /`--base` cannot be combined with `--include-worktree-changes`/u,
+    );
+  });
+
   it("parses --profile when provided", async () => {
     let received: unknown;
     const runCommand = silenceCommander(createRunCommand());
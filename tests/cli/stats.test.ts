@@ -0,0 +1,41 @@
+import { Command } from "commander";
+
+import { createStatsCommand } from "../../src/cli/stats.js";
+import { silenceCommander } from "../support/commander.js";
+
+function buildProgram(): Command {
+  const statsCommand = silenceCommander(createStatsCommand());
+  statsCommand.exitOverride();
+
+  const program = silenceCommander(new Command());
+  program.exitOverride().addCommand(statsCommand);
+  return program;
+}
+
+describe("voratiq stats command options", () => {
+  it("rejects dates that cannot be parsed", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "stats",
+        "--since",
+        "last week",
+      ]),
+    ).rejects.toThrow(/Expected a date such as `2025-10-01`/u);
+  });
+
+  it("requires --since to be earlier than --until", async () => {
+    await expect(
+      buildProgram().parseAsync([
+        "node",
+        "voratiq",
+        "stats",
+        "--since",
+        "2025-10-10",
+        "--until",
+        "2025-10-01",
+      ]),
+    ).rejects.toThrow(/`--since` must be earlier than `--until`/u);
+  });
+});
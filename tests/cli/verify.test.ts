@@ -111,6 +111,26 @@ describe("voratiq verify", () => {
     );
   });
 
+  it("rejects --resume combined with a target flag", async () => {
+    const verifyCommand = silenceCommander(createVerifyCommand());
+    verifyCommand.exitOverride();
+
+    const program = silenceCommander(new Command());
+    program.exitOverride().addCommand(verifyCommand);
+
+    await expect(
+      program.parseAsync([
+        "node",
+        "voratiq",
+        "verify",
+        "--resume",
+        "verify-123",
+        "--run",
+        "run-123",
+      ]),
+    ).rejects.toThrow(/`--resume` cannot be combined with `--run`/u);
+  });
+
   it("parses --run and repeatable --agent options", async () => {
     let received: unknown;
     const verifyCommand = silenceCommander(createVerifyCommand());
@@ -706,7 +726,19 @@ describe("voratiq verify", () => {
                 candidateId: "agent-a",
                 results: [
                   { slug: "format", status: "succeeded" },
-                  { slug: "tests", status: "failed" },
+                  {
+                    slug: "tests",
+                    status: "failed",
+                    report: {
+                      format: "junit",
+                      path: "reports/junit.xml",
+                      total: 40,
+                      passed: 38,
+                      failed: 2,
+                      skipped: 0,
+                      failedTests: ["suite > a", "suite > b"],
+                    },
+                  },
                 ],
               },
             ],
@@ -751,7 +783,7 @@ describe("voratiq verify", () => {
     expect(result.body).toContain("AGENT");
     expect(result.body).toContain("CHECKS");
     expect(result.body).toContain(
-      `${colorize("format", "green")} ${colorize("tests", "red")}`,
+      `${colorize("format", "green")} ${colorize("tests(38/40)", "red")}`,
     );
     expect(result.body).not.toContain(colorize("programmatic", "green"));
   });
@@ -13,6 +13,7 @@ import {
   ApplyAgentSummaryNotRecordedError,
   ApplyBaseMismatchError,
   ApplyPatchApplicationError,
+  ApplyRebaseConflictError,
   ApplyVerificationPolicyLoadError,
 } from "../../../src/commands/apply/errors.js";
 import type { RunRecord } from "../../../src/domain/run/model/types.js";
@@ -21,6 +22,7 @@ import {
   rewriteRunRecord,
 } from "../../../src/domain/run/persistence/adapter.js";
 import { appendVerificationRecord } from "../../../src/domain/verify/persistence/adapter.js";
+import { createWorkingTreeSnapshot } from "../../../src/utils/git.js";
 import { createWorkspace } from "../../../src/workspace/setup.js";
 import {
   createAgentInvocationRecord,
@@ -885,6 +887,89 @@ describe("executeApplyCommand", () => {
     }
   });
 
+  it("matches a worktree snapshot base once the snapshotted changes are committed", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-snapshot-"));
+    try {
+      await initGitRepository(repoRoot);
+      await createWorkspace(repoRoot);
+
+      const filePath = join(repoRoot, "src", "artifact.ts");
+      await mkdir(join(repoRoot, "src"), { recursive: true });
+      await writeFile(filePath, "a\n", "utf8");
+      await runGit(repoRoot, ["add", "src/artifact.ts"]);
+      await runGit(repoRoot, ["commit", "-m", "seed artifact"]);
+      const headRevisionSha = await runGit(repoRoot, ["rev-parse", "HEAD"]);
+
+      await writeFile(filePath, "a\nb\n", "utf8");
+      const snapshot = await createWorkingTreeSnapshot({
+        cwd: repoRoot,
+        message: "snapshot",
+      });
+      expect(snapshot?.headRevisionSha).toBe(headRevisionSha);
+      await expect(
+        runGit(repoRoot, ["status", "--porcelain", "--", "src"]),
+      ).resolves.toBe("M src/artifact.ts");
+
+      const baseRevisionSha = snapshot?.commitSha ?? "";
+      await writeFile(filePath, "a\nb\nc\n", "utf8");
+      const diffContent = await runGit(
+        repoRoot,
+        ["diff", baseRevisionSha, "--", "src/artifact.ts"],
+        { trim: false },
+      );
+      await writeFile(filePath, "a\nb\n", "utf8");
+
+      const runId = "run-snapshot";
+      const agentId = "codex";
+      const runsFilePath = join(repoRoot, ".voratiq", "run", "index.json");
+      await writeRunRecord({
+        repoRoot,
+        runId,
+        agentId,
+        baseRevisionSha,
+        diffContent,
+        diffStatistics: "",
+      });
+      await rewriteRunRecord({
+        root: repoRoot,
+        runsFilePath,
+        runId,
+        mutate: (record) => ({
+          ...record,
+          worktreeSnapshot: { headRevisionSha },
+        }),
+      });
+
+      await runGit(repoRoot, ["stash"]);
+      await expect(
+        executeApplyCommand({
+          root: repoRoot,
+          runsFilePath,
+          runId,
+          agentId,
+          ignoreBaseMismatch: false,
+        }),
+      ).rejects.toMatchObject({
+        detailLines: [expect.stringContaining("snapshots uncommitted changes")],
+      });
+
+      await runGit(repoRoot, ["stash", "pop"]);
+      await runGit(repoRoot, ["commit", "-am", "commit snapshotted work"]);
+      const result = await executeApplyCommand({
+        root: repoRoot,
+        runsFilePath,
+        runId,
+        agentId,
+        ignoreBaseMismatch: false,
+      });
+
+      expect(result.ignoredBaseMismatch).toBe(false);
+      await expect(readFile(filePath, "utf8")).resolves.toBe("a\nb\nc\n");
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+
   it("allows ignored base mismatches when explicitly requested", async () => {
     const repoRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-ignore-"));
     try {
@@ -929,6 +1014,223 @@ describe("executeApplyCommand", () => {
     }
   });
 
+  it("merges with --3way when HEAD has drifted from the base", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-3way-"));
+    try {
+      await initGitRepository(repoRoot);
+      await createWorkspace(repoRoot);
+
+      const { filePath, baseRevisionSha, diffContent, diffStatistics } =
+        await createDiffFixture({
+          repoRoot,
+          original: "a\nb\nc\nd\ne\n",
+          updated: "A\nb\nc\nd\ne\n",
+        });
+      const commitSha = await createCandidateCommit(
+        repoRoot,
+        "A\nb\nc\nd\ne\n",
+      );
+
+      const runId = "run-3way";
+      const agentId = "codex";
+      await writeRunRecord({
+        repoRoot,
+        runId,
+        agentId,
+        baseRevisionSha,
+        diffContent,
+        diffStatistics,
+        commitSha,
+      });
+
+      await commitArtifact(repoRoot, "a\nb\nc\nD\ne\n");
+
+      const result = await executeApplyCommand({
+        root: repoRoot,
+        runsFilePath: join(repoRoot, ".voratiq", "run", "index.json"),
+        runId,
+        agentId,
+        ignoreBaseMismatch: false,
+        threeWay: true,
+      });
+
+      expect(result.ignoredBaseMismatch).toBe(false);
+      expect(result.conflictedPaths).toBeUndefined();
+      await expect(readFile(filePath, "utf8")).resolves.toBe("A\nb\nc\nD\ne\n");
+
+      const updatedRecord = await readRunRecordFromDisk(repoRoot, runId);
+      expect(updatedRecord.applyStatus?.status).toBe("succeeded");
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("leaves conflict markers and records applied_with_conflicts with --3way", async () => {
+    const repoRoot = await mkdtemp(
+      join(tmpdir(), "voratiq-apply-3way-conflict-"),
+    );
+    try {
+      await initGitRepository(repoRoot);
+      await createWorkspace(repoRoot);
+
+      const { filePath, baseRevisionSha, diffContent, diffStatistics } =
+        await createDiffFixture({
+          repoRoot,
+          original: "export const value = 1;\n",
+          updated: "export const value = 2;\n",
+        });
+      const commitSha = await createCandidateCommit(
+        repoRoot,
+        "export const value = 2;\n",
+      );
+
+      const runId = "run-3way-conflict";
+      const agentId = "claude";
+      await writeRunRecord({
+        repoRoot,
+        runId,
+        agentId,
+        baseRevisionSha,
+        diffContent,
+        diffStatistics,
+        commitSha,
+      });
+
+      await commitArtifact(repoRoot, "export const value = 3;\n");
+
+      const result = await executeApplyCommand({
+        root: repoRoot,
+        runsFilePath: join(repoRoot, ".voratiq", "run", "index.json"),
+        runId,
+        agentId,
+        ignoreBaseMismatch: false,
+        threeWay: true,
+        commit: true,
+      });
+
+      expect(result.conflictedPaths).toEqual(["src/artifact.ts"]);
+      expect(result.appliedCommitSha).toBeUndefined();
+      const merged = await readFile(filePath, "utf8");
+      expect(merged).toContain("<<<<<<<");
+      expect(merged).toContain("export const value = 2;");
+      expect(merged).toContain("export const value = 3;");
+
+      const updatedRecord = await readRunRecordFromDisk(repoRoot, runId);
+      expect(updatedRecord.applyStatus).toMatchObject({
+        agentId,
+        status: "applied_with_conflicts",
+        conflictedPaths: ["src/artifact.ts"],
+      });
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("replays the candidate commit onto HEAD with --rebase-onto", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-rebase-"));
+    try {
+      await initGitRepository(repoRoot);
+      await createWorkspace(repoRoot);
+
+      const { filePath, baseRevisionSha, diffContent, diffStatistics } =
+        await createDiffFixture({
+          repoRoot,
+          original: "a\nb\nc\nd\ne\n",
+          updated: "A\nb\nc\nd\ne\n",
+        });
+      const commitSha = await createCandidateCommit(
+        repoRoot,
+        "A\nb\nc\nd\ne\n",
+      );
+
+      const runId = "run-rebase";
+      const agentId = "gemini";
+      await writeRunRecord({
+        repoRoot,
+        runId,
+        agentId,
+        baseRevisionSha,
+        diffContent,
+        diffStatistics,
+        commitSha,
+      });
+
+      await commitArtifact(repoRoot, "a\nb\nc\nD\ne\n");
+      const headRevision = await runGit(repoRoot, ["rev-parse", "HEAD"]);
+
+      const result = await executeApplyCommand({
+        root: repoRoot,
+        runsFilePath: join(repoRoot, ".voratiq", "run", "index.json"),
+        runId,
+        agentId,
+        ignoreBaseMismatch: false,
+        rebaseOnto: "HEAD",
+      });
+
+      expect(result.rebasedOnto).toBe(headRevision);
+      expect(result.ignoredBaseMismatch).toBe(false);
+      await expect(readFile(filePath, "utf8")).resolves.toBe("A\nb\nc\nD\ne\n");
+      const worktrees = await runGit(repoRoot, ["worktree", "list"]);
+      expect(worktrees.split("\n")).toHaveLength(1);
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("records a failed apply when the --rebase-onto replay conflicts", async () => {
+    const repoRoot = await mkdtemp(
+      join(tmpdir(), "voratiq-apply-rebase-conflict-"),
+    );
+    try {
+      await initGitRepository(repoRoot);
+      await createWorkspace(repoRoot);
+
+      const { filePath, baseRevisionSha, diffContent, diffStatistics } =
+        await createDiffFixture({
+          repoRoot,
+          original: "export const value = 1;\n",
+          updated: "export const value = 2;\n",
+        });
+      const commitSha = await createCandidateCommit(
+        repoRoot,
+        "export const value = 2;\n",
+      );
+
+      const runId = "run-rebase-conflict";
+      const agentId = "codex";
+      await writeRunRecord({
+        repoRoot,
+        runId,
+        agentId,
+        baseRevisionSha,
+        diffContent,
+        diffStatistics,
+        commitSha,
+      });
+
+      await commitArtifact(repoRoot, "export const value = 3;\n");
+
+      await expect(
+        executeApplyCommand({
+          root: repoRoot,
+          runsFilePath: join(repoRoot, ".voratiq", "run", "index.json"),
+          runId,
+          agentId,
+          ignoreBaseMismatch: false,
+          rebaseOnto: "HEAD",
+        }),
+      ).rejects.toBeInstanceOf(ApplyRebaseConflictError);
+
+      await expect(readFile(filePath, "utf8")).resolves.toBe(
+        "export const value = 3;\n",
+      );
+      const updatedRecord = await readRunRecordFromDisk(repoRoot, runId);
+      expect(updatedRecord.applyStatus?.status).toBe("failed");
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+
   it("fails when the recorded diff is missing", async () => {
     const repoRoot = await mkdtemp(join(tmpdir(), "voratiq-apply-missing-"));
     try {
@@ -1073,6 +1375,7 @@ async function writeRunRecord(options: {
   diffStatistics: string;
   summaryContent?: string;
   artifacts?: RunRecord["agents"][number]["artifacts"];
+  commitSha?: string;
 }): Promise<string> {
   const {
     repoRoot,
@@ -1083,6 +1386,7 @@ async function writeRunRecord(options: {
     diffStatistics,
     summaryContent = "summary\n",
     artifacts,
+    commitSha = baseRevisionSha,
   } = options;
   void diffStatistics;
 
@@ -1112,7 +1416,7 @@ async function writeRunRecord(options: {
     status: "succeeded",
     startedAt: now,
     completedAt: now,
-    commitSha: baseRevisionSha,
+    commitSha,
     ...(artifacts ? { artifacts } : {}),
   });
 
@@ -1351,3 +1655,35 @@ async function advanceHead(root: string): Promise<void> {
   await runGit(root, ["add", "README.md"]);
   await runGit(root, ["commit", "-m", "advance head"], { trim: false });
 }
+
+async function createCandidateCommit(
+  root: string,
+  content: string,
+): Promise<string> {
+  const baseRevision = await runGit(root, ["rev-parse", "HEAD"]);
+  await commitArtifact(root, content);
+  const commitSha = await runGit(root, ["rev-parse", "HEAD"]);
+  await runGit(root, ["reset", "--hard", baseRevision]);
+  return commitSha;
+}
+
+async function commitArtifact(root: string, content: string): Promise<void> {
+  await writeFile(join(root, "src", "artifact.ts"), content, "utf8");
+  await runGit(root, ["add", "src/artifact.ts"]);
+  await runGit(root, ["commit", "-m", "update artifact"], { trim: false });
+}
+
+async function readRunRecordFromDisk(
+  root: string,
+  runId: string,
+): Promise<RunRecord> {
+  const recordPath = join(
+    root,
+    ".voratiq",
+    "run",
+    "sessions",
+    runId,
+    "record.json",
+  );
+  return JSON.parse(await readFile(recordPath, "utf8")) as RunRecord;
+}
@@ -7,6 +7,7 @@ import {
   type AutoVerifyStageResult,
   executeAutoCommand,
 } from "../../../src/commands/auto/command.js";
+import type { CostBudget } from "../../../src/competition/shared/cost-budget.js";
 
 function createDependencies(
   overrides: Partial<AutoCommandDependencies> = {},
@@ -23,11 +24,15 @@ function createDependencies(
   const runApplyStage: jest.MockedFunction<
     AutoCommandDependencies["runApplyStage"]
   > = jest.fn();
+  const runRepairStage: jest.MockedFunction<
+    AutoCommandDependencies["runRepairStage"]
+  > = jest.fn();
 
   return {
     runSpecStage,
     runRunStage,
     runVerifyStage,
+    runRepairStage,
     runApplyStage,
     ...overrides,
   };
@@ -368,6 +373,312 @@ describe("executeAutoCommand", () => {
     );
   });
 
+  it("repairs the best unresolved candidate in a new round when rounds remain", async () => {
+    const unresolvedSelection = {
+      state: "unresolved" as const,
+      applyable: false as const,
+      unresolvedReasons: [
+        {
+          code: "selected_candidate_failed_programmatic" as const,
+          selectedCanonicalAgentId: "beta",
+          eligibleCanonicalAgentIds: ["alpha"],
+        },
+      ],
+    };
+    const runRunStage = jest
+      .fn<AutoCommandDependencies["runRunStage"]>()
+      .mockResolvedValueOnce(createRunStageResult())
+      .mockResolvedValueOnce(
+        createRunStageResult({
+          report: { ...createRunStageResult().report, runId: "run-2" },
+        }),
+      );
+    const runRepairStage = jest
+      .fn<AutoCommandDependencies["runRepairStage"]>()
+      .mockResolvedValue({
+        repairOf: {
+          round: 2,
+          runId: "run-1",
+          agentId: "beta",
+          commitSha: "cafebabe",
+          verificationId: "verify-1",
+        },
+        baseRevisionSha: "deadbeef",
+        extraContextPaths: [
+          ".voratiq/run/sessions/run-1/repair/round-2/failing-checks.md",
+        ],
+      });
+    const runApplyStage = jest
+      .fn<AutoCommandDependencies["runApplyStage"]>()
+      .mockResolvedValue(createApplyStageResult());
+    const dependencies = createDependencies({
+      now: () => 0,
+      runRunStage,
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockResolvedValueOnce(
+          createVerifyStageResult({ selection: unresolvedSelection }),
+        )
+        .mockResolvedValueOnce(
+          createVerifyStageResult({
+            verificationId: "verify-2",
+            selection: {
+              state: "resolvable",
+              applyable: true,
+              selectedCanonicalAgentId: "alpha",
+              unresolvedReasons: [],
+            },
+          }),
+        ),
+      runRepairStage,
+      runApplyStage,
+    });
+
+    const result = await executeAutoCommand(
+      {
+        specPath: "specs/task.md",
+        branch: true,
+        apply: true,
+        maxRounds: 3,
+      },
+      dependencies,
+    );
+
+    expect(runRepairStage).toHaveBeenCalledWith({
+      round: 2,
+      runId: "run-1",
+      verificationId: "verify-1",
+      selection: unresolvedSelection,
+    });
+    expect(runRunStage).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        specPath: "specs/task.md",
+        branch: undefined,
+        baseRevisionSha: "deadbeef",
+        extraContext: [
+          ".voratiq/run/sessions/run-1/repair/round-2/failing-checks.md",
+        ],
+        repairOf: expect.objectContaining({ agentId: "beta" }) as unknown,
+      }),
+    );
+    expect(runApplyStage).toHaveBeenCalledWith({
+      runId: "run-2",
+      agentId: "alpha",
+      commit: false,
+    });
+    expect(result.auto.status).toBe("succeeded");
+    expect(result.summary.rounds).toEqual([
+      {
+        round: 1,
+        runId: "run-1",
+        verificationId: "verify-1",
+        selection: "unresolved",
+      },
+      {
+        round: 2,
+        runId: "run-2",
+        verificationId: "verify-2",
+        selection: "resolvable",
+        repairOf: { runId: "run-1", agentId: "beta" },
+      },
+    ]);
+    expect(result.events).toContainEqual(
+      expect.objectContaining({
+        kind: "round",
+        round: 2,
+        detail: "Starting repair round 2 of 3 from `beta` in run `run-1`.",
+      }),
+    );
+  });
+
+  it("returns action required once the round budget is spent", async () => {
+    const runRunStage = jest
+      .fn<AutoCommandDependencies["runRunStage"]>()
+      .mockImplementation(() =>
+        Promise.resolve(
+          createRunStageResult({
+            report: {
+              ...createRunStageResult().report,
+              runId: `run-${runRunStage.mock.calls.length}`,
+            },
+          }),
+        ),
+      );
+    const runRepairStage = jest
+      .fn<AutoCommandDependencies["runRepairStage"]>()
+      .mockImplementation((input) =>
+        Promise.resolve({
+          repairOf: {
+            round: input.round,
+            runId: input.runId,
+            agentId: "alpha",
+            commitSha: "cafebabe",
+          },
+          baseRevisionSha: "deadbeef",
+          extraContextPaths: [],
+        }),
+      );
+    const dependencies = createDependencies({
+      now: () => 0,
+      runRunStage,
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockResolvedValue(
+          createVerifyStageResult({
+            selection: {
+              state: "unresolved",
+              applyable: false,
+              unresolvedReasons: [
+                { code: "no_successful_verifiers", failedVerifierAgentIds: [] },
+              ],
+            },
+          }),
+        ),
+      runRepairStage,
+    });
+
+    const result = await executeAutoCommand(
+      { specPath: "specs/task.md", maxRounds: 2 },
+      dependencies,
+    );
+
+    expect(runRunStage).toHaveBeenCalledTimes(2);
+    expect(runRepairStage).toHaveBeenCalledTimes(1);
+    expect(result.auto.status).toBe("action_required");
+    expect(result.summary.rounds.map((round) => round.runId)).toEqual([
+      "run-1",
+      "run-2",
+    ]);
+  });
+
+  it("returns action required when no candidate can seed a repair round", async () => {
+    const runRunStage = jest
+      .fn<AutoCommandDependencies["runRunStage"]>()
+      .mockResolvedValue(createRunStageResult());
+    const dependencies = createDependencies({
+      now: () => 0,
+      runRunStage,
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockResolvedValue(
+          createVerifyStageResult({
+            selection: {
+              state: "unresolved",
+              applyable: false,
+              unresolvedReasons: [
+                { code: "no_successful_verifiers", failedVerifierAgentIds: [] },
+              ],
+            },
+          }),
+        ),
+      runRepairStage: jest
+        .fn<AutoCommandDependencies["runRepairStage"]>()
+        .mockResolvedValue(undefined),
+    });
+
+    const result = await executeAutoCommand(
+      { specPath: "specs/task.md", maxRounds: 3 },
+      dependencies,
+    );
+
+    expect(runRunStage).toHaveBeenCalledTimes(1);
+    expect(result.auto.status).toBe("action_required");
+    expect(result.summary.rounds).toHaveLength(1);
+    expect(result.events.some((event) => event.kind === "round")).toBe(false);
+  });
+
+  it("draws every stage and repair round from one cost budget", async () => {
+    const budgets: (CostBudget | undefined)[] = [];
+    const spend = (budget: CostBudget | undefined, costUsd: number): void => {
+      budgets.push(budget);
+      budget?.record(costUsd);
+    };
+    const exhaustedAtVerify: boolean[] = [];
+    const runRunStage = jest
+      .fn<AutoCommandDependencies["runRunStage"]>()
+      .mockImplementation((input) => {
+        spend(input.costBudget, 0.25);
+        return Promise.resolve(
+          createRunStageResult({
+            report: {
+              ...createRunStageResult().report,
+              runId: `run-${runRunStage.mock.calls.length}`,
+            },
+          }),
+        );
+      });
+    const dependencies = createDependencies({
+      now: () => 0,
+      runSpecStage: jest
+        .fn<AutoCommandDependencies["runSpecStage"]>()
+        .mockImplementation((input) => {
+          spend(input.costBudget, 0.25);
+          return Promise.resolve({
+            sessionId: "spec-session",
+            body: "spec body",
+            specPath: "specs/task.md",
+          });
+        }),
+      runRunStage,
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockImplementation((input) => {
+          exhaustedAtVerify.push(input.costBudget?.isExhausted() ?? false);
+          spend(input.costBudget, 0.125);
+          return Promise.resolve(
+            input.target.kind === "spec"
+              ? createVerifyStageResult({ selectedSpecPath: "specs/task.md" })
+              : createVerifyStageResult({
+                  selection: {
+                    state: "unresolved",
+                    applyable: false,
+                    unresolvedReasons: [
+                      {
+                        code: "no_successful_verifiers",
+                        failedVerifierAgentIds: [],
+                      },
+                    ],
+                  },
+                }),
+          );
+        }),
+      runRepairStage: jest
+        .fn<AutoCommandDependencies["runRepairStage"]>()
+        .mockImplementation((input) =>
+          Promise.resolve({
+            repairOf: {
+              round: input.round,
+              runId: input.runId,
+              agentId: "alpha",
+              commitSha: "cafebabe",
+            },
+            baseRevisionSha: "deadbeef",
+            extraContextPaths: [],
+          }),
+        ),
+    });
+
+    await executeAutoCommand(
+      {
+        description: "Define the task",
+        maxCost: 1,
+        maxRounds: 2,
+      },
+      dependencies,
+    );
+
+    // No stage comes near the $1 cap alone; spec, spec verify, both runs and
+    // the first run verify spend it together before the last verify starts.
+    expect(budgets).toHaveLength(6);
+    expect(budgets[0]?.maxCostUsd).toBe(1);
+    for (const budget of budgets) {
+      expect(budget).toBe(budgets[0]);
+    }
+    expect(exhaustedAtVerify).toEqual([false, false, true]);
+    expect(budgets[0]?.getSpentUsd()).toBe(1.125);
+  });
+
   it("treats mixed-outcome verify(run) as action required when selection is unresolved", async () => {
     const runApplyStage = jest.fn<AutoCommandDependencies["runApplyStage"]>();
     const dependencies = createDependencies({
@@ -715,6 +1026,126 @@ describe("executeAutoCommand", () => {
     });
   });
 
+  it("repairs instead of halting auto-apply when no candidate passed programmatic checks", async () => {
+    const failingChecksSelection = {
+      state: "resolvable" as const,
+      applyable: true as const,
+      selectedCanonicalAgentId: "alpha",
+      unresolvedReasons: [] as const,
+    };
+    const runRunStage = jest
+      .fn<AutoCommandDependencies["runRunStage"]>()
+      .mockResolvedValueOnce(createRunStageResult())
+      .mockResolvedValueOnce(
+        createRunStageResult({
+          report: { ...createRunStageResult().report, runId: "run-2" },
+        }),
+      );
+    const runRepairStage = jest
+      .fn<AutoCommandDependencies["runRepairStage"]>()
+      .mockResolvedValue({
+        repairOf: {
+          round: 2,
+          runId: "run-1",
+          agentId: "alpha",
+          commitSha: "cafebabe",
+          verificationId: "verify-1",
+        },
+        baseRevisionSha: "deadbeef",
+        extraContextPaths: [],
+      });
+    const runApplyStage = jest
+      .fn<AutoCommandDependencies["runApplyStage"]>()
+      .mockResolvedValue(createApplyStageResult());
+    const dependencies = createDependencies({
+      now: () => 0,
+      runRunStage,
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockResolvedValueOnce(
+          createVerifyStageResult({
+            selection: failingChecksSelection,
+            selectionWarnings: [
+              "No run candidate passed programmatic verification; proceeding with run-verification consensus.",
+            ],
+            noCandidatePassedChecks: true,
+          }),
+        )
+        .mockResolvedValueOnce(
+          createVerifyStageResult({
+            verificationId: "verify-2",
+            selection: failingChecksSelection,
+          }),
+        ),
+      runRepairStage,
+      runApplyStage,
+    });
+
+    const result = await executeAutoCommand(
+      {
+        specPath: "specs/task.md",
+        apply: true,
+        maxRounds: 2,
+      },
+      dependencies,
+    );
+
+    expect(runRepairStage).toHaveBeenCalledWith({
+      round: 2,
+      runId: "run-1",
+      verificationId: "verify-1",
+      selection: failingChecksSelection,
+    });
+    expect(runRunStage).toHaveBeenCalledTimes(2);
+    expect(runApplyStage).toHaveBeenCalledWith({
+      runId: "run-2",
+      agentId: "alpha",
+      commit: false,
+    });
+    expect(result.auto.status).toBe("succeeded");
+    expect(
+      result.events.some((event) => event.kind === "action_required"),
+    ).toBe(false);
+  });
+
+  it("halts auto-apply when no candidate passed programmatic checks in the last round", async () => {
+    const runRepairStage = jest.fn<AutoCommandDependencies["runRepairStage"]>();
+    const runApplyStage = jest.fn<AutoCommandDependencies["runApplyStage"]>();
+    const dependencies = createDependencies({
+      now: () => 0,
+      runRunStage: jest
+        .fn<AutoCommandDependencies["runRunStage"]>()
+        .mockResolvedValue(createRunStageResult()),
+      runVerifyStage: jest
+        .fn<AutoCommandDependencies["runVerifyStage"]>()
+        .mockResolvedValue(
+          createVerifyStageResult({
+            selection: {
+              state: "resolvable",
+              applyable: true,
+              selectedCanonicalAgentId: "alpha",
+              unresolvedReasons: [],
+            },
+            selectionWarnings: [
+              "No run candidate passed programmatic verification; proceeding with run-verification consensus.",
+            ],
+            noCandidatePassedChecks: true,
+          }),
+        ),
+      runRepairStage,
+      runApplyStage,
+    });
+
+    const result = await executeAutoCommand(
+      { specPath: "specs/task.md", apply: true },
+      dependencies,
+    );
+
+    expect(runRepairStage).not.toHaveBeenCalled();
+    expect(runApplyStage).not.toHaveBeenCalled();
+    expect(result.auto.status).toBe("action_required");
+  });
+
   it("does not verify after a failed run", async () => {
     const runVerifyStage = jest.fn<AutoCommandDependencies["runVerifyStage"]>();
     const runApplyStage = jest.fn<AutoCommandDependencies["runApplyStage"]>();
@@ -0,0 +1,220 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { prepareAutoRepairRound } from "../../../src/commands/auto/repair.js";
+import { appendRunRecord } from "../../../src/domain/run/persistence/adapter.js";
+import { appendVerificationRecord } from "../../../src/domain/verify/persistence/adapter.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../../support/factories/run-records.js";
+
+describe("prepareAutoRepairRound", () => {
+  let root: string;
+  let runsFilePath: string;
+  let verificationsFilePath: string;
+
+  async function writeWorkspaceFile(
+    path: string,
+    content: string,
+  ): Promise<void> {
+    const absolutePath = join(root, path);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, content, "utf8");
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-auto-repair-test-"));
+    runsFilePath = join(root, ".voratiq", "run", "index.json");
+    verificationsFilePath = join(root, ".voratiq", "verify", "index.json");
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("starts from the candidate passing the most checks and stages its findings", async () => {
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId: "run-1",
+        baseRevisionSha: "base-sha",
+        agents: [
+          createAgentInvocationRecord({ agentId: "alpha", commitSha: "a1" }),
+          createAgentInvocationRecord({ agentId: "beta", commitSha: "b1" }),
+          createAgentInvocationRecord({ agentId: "gamma", status: "failed" }),
+        ],
+      }),
+    });
+
+    const sessionDir = ".voratiq/verify/sessions/verify-1";
+    const logPath = `${sessionDir}/programmatic/beta/tests.log`;
+    await writeWorkspaceFile(
+      logPath,
+      Array.from({ length: 250 }, (_, index) => `line ${index + 1}`).join("\n"),
+    );
+    await writeWorkspaceFile(
+      `${sessionDir}/programmatic/result.json`,
+      JSON.stringify({
+        method: "programmatic",
+        generatedAt: "2025-10-23T17:10:00.000Z",
+        target: {
+          kind: "run",
+          sessionId: "run-1",
+          candidateIds: ["alpha", "beta"],
+        },
+        scope: "run",
+        candidates: [
+          {
+            candidateId: "alpha",
+            results: [
+              { slug: "lint", status: "failed" },
+              { slug: "tests", status: "failed" },
+            ],
+          },
+          {
+            candidateId: "beta",
+            results: [
+              { slug: "lint", status: "succeeded" },
+              {
+                slug: "tests",
+                status: "failed",
+                command: "npm test",
+                exitCode: 1,
+                logPath,
+              },
+            ],
+          },
+        ],
+      }),
+    );
+    await writeWorkspaceFile(
+      `${sessionDir}/judge/result.json`,
+      JSON.stringify({
+        method: "rubric",
+        template: "run-verification",
+        verifierId: "judge",
+        generatedAt: "2025-10-23T17:10:00.000Z",
+        status: "succeeded",
+        result: {
+          preferred: "v_aaaaaaaaaa",
+          rationale: "Neither passes tests.",
+        },
+      }),
+    );
+    await appendVerificationRecord({
+      root,
+      verificationsFilePath,
+      record: {
+        sessionId: "verify-1",
+        createdAt: "2025-10-23T17:06:00.000Z",
+        startedAt: "2025-10-23T17:06:00.000Z",
+        completedAt: "2025-10-23T17:10:00.000Z",
+        status: "succeeded",
+        target: {
+          kind: "run",
+          sessionId: "run-1",
+          candidateIds: ["alpha", "beta"],
+        },
+        blinded: {
+          enabled: true,
+          aliasMap: { v_aaaaaaaaaa: "alpha", v_bbbbbbbbbb: "beta" },
+        },
+        methods: [
+          {
+            method: "programmatic",
+            slug: "programmatic",
+            scope: { kind: "run" },
+            status: "failed",
+            artifactPath: `${sessionDir}/programmatic/result.json`,
+          },
+          {
+            method: "rubric",
+            template: "run-verification",
+            verifierId: "judge",
+            scope: { kind: "run" },
+            status: "succeeded",
+            artifactPath: `${sessionDir}/judge/result.json`,
+          },
+        ],
+      },
+    });
+
+    const repair = await prepareAutoRepairRound({
+      root,
+      runsFilePath,
+      verificationsFilePath,
+      round: 2,
+      runId: "run-1",
+      verificationId: "verify-1",
+      selection: {
+        state: "unresolved",
+        applyable: false,
+        unresolvedReasons: [
+          {
+            code: "selected_candidate_failed_programmatic",
+            selectedCanonicalAgentId: "alpha",
+            eligibleCanonicalAgentIds: [],
+          },
+        ],
+      },
+    });
+
+    expect(repair).toEqual({
+      repairOf: {
+        round: 2,
+        runId: "run-1",
+        agentId: "beta",
+        commitSha: "b1",
+        verificationId: "verify-1",
+      },
+      baseRevisionSha: "base-sha",
+      extraContextPaths: [
+        ".voratiq/run/sessions/run-1/repair/round-2/verifier-findings.md",
+        ".voratiq/run/sessions/run-1/repair/round-2/failing-checks.md",
+      ],
+    });
+
+    const findings = await readFile(
+      join(root, repair?.extraContextPaths[0] ?? ""),
+      "utf8",
+    );
+    expect(findings).toContain("this candidate was `v_bbbbbbbbbb`");
+    expect(findings).toContain("Neither passes tests.");
+
+    const failingChecks = await readFile(
+      join(root, repair?.extraContextPaths[1] ?? ""),
+      "utf8",
+    );
+    expect(failingChecks).toContain("## `tests` failed (exit code 1)");
+    expect(failingChecks).toContain("Command: `npm test`");
+    expect(failingChecks).toContain("line 250");
+    expect(failingChecks).not.toContain("line 50\n");
+    expect(failingChecks).not.toContain("`lint`");
+  });
+
+  it("returns undefined when no candidate produced a commit", async () => {
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId: "run-1",
+        agents: [
+          createAgentInvocationRecord({ agentId: "alpha", status: "failed" }),
+        ],
+      }),
+    });
+
+    await expect(
+      prepareAutoRepairRound({
+        root,
+        runsFilePath,
+        verificationsFilePath,
+        round: 2,
+        runId: "run-1",
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,228 @@
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { promisify } from "node:util";
+
+import {
+  executeCompareCommand,
+  executeComparePairwiseCommand,
+} from "../../../src/commands/compare/command.js";
+import { CompareAgentNotFoundError } from "../../../src/commands/compare/errors.js";
+import { appendRunRecord } from "../../../src/domain/run/persistence/adapter.js";
+import { appendVerificationRecord } from "../../../src/domain/verify/persistence/adapter.js";
+import {
+  getAgentDiffPath,
+  getVerificationProgrammaticResultPath,
+} from "../../../src/workspace/artifact-paths.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../../support/factories/run-records.js";
+
+const execFileAsync = promisify(execFile);
+
+const RUN_ID = "run-compare";
+const MISSING_COMMIT_SHA = "0000000000000000000000000000000000000001";
+
+describe("compare command", () => {
+  let root: string;
+  let runsFilePath: string;
+  let verificationsFilePath: string;
+  let baseRevisionSha: string;
+
+  async function git(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync("git", args, { cwd: root });
+    return stdout.trim();
+  }
+
+  /** Commits `files` on top of the base and returns the commit and its patch. */
+  async function createCandidate(
+    files: Record<string, string>,
+  ): Promise<{ commitSha: string; patch: string }> {
+    await git("checkout", "--quiet", "--detach", baseRevisionSha);
+    for (const [path, content] of Object.entries(files)) {
+      await writeFile(join(root, path), content, "utf8");
+    }
+    await git("add", "-A");
+    await git("commit", "--quiet", "-m", "candidate");
+    const commitSha = await git("rev-parse", "HEAD");
+    const { stdout: patch } = await execFileAsync(
+      "git",
+      ["diff", "--binary", baseRevisionSha, commitSha],
+      { cwd: root },
+    );
+    await git("checkout", "--quiet", "--detach", baseRevisionSha);
+    return { commitSha, patch };
+  }
+
+  async function writeRunFile(path: string, content: string): Promise<void> {
+    const absolutePath = join(root, path);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, content, "utf8");
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-compare-test-"));
+    runsFilePath = join(root, ".voratiq", "run", "index.json");
+    verificationsFilePath = join(root, ".voratiq", "verify", "index.json");
+    await git("init", "--quiet");
+    await git("config", "user.email", "test@example.com");
+    await git("config", "user.name", "Test");
+    await writeFile(join(root, ".gitignore"), ".voratiq/\n", "utf8");
+    await writeFile(join(root, "shared.txt"), "base\n", "utf8");
+    await git("add", "-A");
+    await git("commit", "--quiet", "-m", "base");
+    baseRevisionSha = await git("rev-parse", "HEAD");
+
+    const alpha = await createCandidate({
+      "shared.txt": "alpha\n",
+      "alpha.txt": "one\ntwo\n",
+    });
+    const beta = await createCandidate({ "shared.txt": "beta\n" });
+    await writeRunFile(getAgentDiffPath(RUN_ID, "alpha"), alpha.patch);
+    await writeRunFile(getAgentDiffPath(RUN_ID, "beta"), beta.patch);
+
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId: RUN_ID,
+        baseRevisionSha,
+        agents: [
+          createAgentInvocationRecord({
+            agentId: "alpha",
+            commitSha: alpha.commitSha,
+            diffStatistics: "2 files changed, 3 insertions(+), 1 deletion(-)",
+            tokenUsage: { input_tokens: 1200, output_tokens: 300 },
+          }),
+          // The commit is gone, so its tree must be rebuilt from diff.patch.
+          createAgentInvocationRecord({
+            agentId: "beta",
+            commitSha: MISSING_COMMIT_SHA,
+            diffStatistics: "1 file changed, 1 insertion(+), 1 deletion(-)",
+          }),
+        ],
+      }),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("summarizes each candidate with files, diffstat, checks, tokens, and duration", async () => {
+    const artifactPath = getVerificationProgrammaticResultPath("verify-1");
+    await writeRunFile(
+      artifactPath,
+      JSON.stringify({
+        method: "programmatic",
+        generatedAt: "2025-10-23T17:10:00.000Z",
+        target: {
+          kind: "run",
+          sessionId: RUN_ID,
+          candidateIds: ["alpha", "beta"],
+        },
+        scope: "run",
+        candidates: [
+          {
+            candidateId: "alpha",
+            results: [{ slug: "tests", status: "succeeded", exitCode: 0 }],
+          },
+          {
+            candidateId: "beta",
+            results: [{ slug: "tests", status: "failed", exitCode: 1 }],
+          },
+        ],
+      }),
+    );
+    await appendVerificationRecord({
+      root,
+      verificationsFilePath,
+      record: {
+        sessionId: "verify-1",
+        createdAt: "2025-10-23T17:09:00.000Z",
+        startedAt: "2025-10-23T17:09:00.000Z",
+        completedAt: "2025-10-23T17:10:00.000Z",
+        status: "succeeded",
+        target: {
+          kind: "run",
+          sessionId: RUN_ID,
+          candidateIds: ["alpha", "beta"],
+        },
+        methods: [
+          {
+            method: "programmatic",
+            slug: "programmatic",
+            scope: { kind: "run" },
+            status: "succeeded",
+            artifactPath,
+          },
+        ],
+      },
+    });
+
+    const result = await executeCompareCommand({
+      root,
+      runsFilePath,
+      verificationsFilePath,
+      runId: RUN_ID,
+    });
+
+    expect(result.verification).toEqual({
+      sessionId: "verify-1",
+      status: "succeeded",
+      createdAt: "2025-10-23T17:09:00.000Z",
+    });
+    expect(result.warnings).toEqual([]);
+
+    const [alpha, beta] = result.candidates;
+    expect(alpha).toMatchObject({
+      agentId: "alpha",
+      durationMs: 5 * 60 * 1000,
+      changes: { filesChanged: 2, insertions: 3, deletions: 1 },
+      checks: [{ slug: "tests", status: "succeeded", exitCode: 0 }],
+      tokenUsage: { input_tokens: 1200, output_tokens: 300 },
+    });
+    expect(alpha?.files).toEqual([
+      { path: "alpha.txt", insertions: 2, deletions: 0 },
+      { path: "shared.txt", insertions: 1, deletions: 1 },
+    ]);
+    expect(beta).toMatchObject({
+      agentId: "beta",
+      files: [{ path: "shared.txt", insertions: 1, deletions: 1 }],
+      checks: [{ slug: "tests", status: "failed", exitCode: 1 }],
+    });
+  });
+
+  it("diffs two result trees, rebuilding a missing commit from its patch", async () => {
+    const result = await executeComparePairwiseCommand({
+      root,
+      runsFilePath,
+      verificationsFilePath,
+      runId: RUN_ID,
+      agentIds: ["alpha", "beta"],
+    });
+
+    expect(result.left).toEqual({ agentId: "alpha", source: "commit" });
+    expect(result.right).toEqual({ agentId: "beta", source: "patch" });
+    expect(result.files).toEqual([
+      { path: "alpha.txt", insertions: 0, deletions: 2 },
+      { path: "shared.txt", insertions: 1, deletions: 1 },
+    ]);
+    expect(result.diff).toContain("-alpha\n+beta");
+    expect(await git("status", "--porcelain")).toBe("");
+  });
+
+  it("rejects agents that are not part of the run", async () => {
+    await expect(
+      executeComparePairwiseCommand({
+        root,
+        runsFilePath,
+        verificationsFilePath,
+        runId: RUN_ID,
+        agentIds: ["alpha", "gamma"],
+      }),
+    ).rejects.toBeInstanceOf(CompareAgentNotFoundError);
+  });
+});
@@ -65,12 +65,15 @@ describe("executeDoctorDiagnosis", () => {
       healthy: true,
       issueLines: [],
     });
-    expect(verifyAgentProvidersMock).toHaveBeenCalledWith([
-      {
-        id: "enabled-codex",
-        provider: "codex",
-      },
-    ]);
+    expect(verifyAgentProvidersMock).toHaveBeenCalledWith(
+      [
+        {
+          id: "enabled-codex",
+          provider: "codex",
+        },
+      ],
+      { root: repoRoot },
+    );
   });
 
   it("reports malformed environment config as invalid instead of missing", async () => {
@@ -0,0 +1,188 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  executeDoctorSandboxDenialSuggestions,
+  executeDoctorSandboxReport,
+} from "../../../src/commands/doctor/sandbox.js";
+import {
+  appendRunRecord,
+  flushAllRunRecordBuffers,
+} from "../../../src/domain/run/persistence/adapter.js";
+import { getAgentSandboxDenialsPath } from "../../../src/workspace/artifact-paths.js";
+import { resolveWorkspacePath } from "../../../src/workspace/path-resolvers.js";
+import { createWorkspace } from "../../../src/workspace/setup.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../../support/factories/run-records.js";
+
+describe("executeDoctorSandboxReport", () => {
+  let repoRoot: string;
+
+  beforeEach(async () => {
+    repoRoot = await mkdtemp(join(tmpdir(), "voratiq-doctor-sandbox-"));
+    await mkdir(join(repoRoot, ".git"), { recursive: true });
+    await createWorkspace(repoRoot);
+  });
+
+  afterEach(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  it("groups stages that resolve to the same policy per agent", async () => {
+    await writeFile(
+      resolveWorkspacePath(repoRoot, "agents.yaml"),
+      [
+        "agents:",
+        "  - id: codex-high",
+        "    provider: codex",
+        "    model: gpt-5.4",
+        `    binary: ${process.execPath}`,
+        "  - id: experimental",
+        "    provider: codex",
+        "    model: gpt-5.4",
+        `    binary: ${process.execPath}`,
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+    await writeFile(
+      resolveWorkspacePath(repoRoot, "sandbox.yaml"),
+      [
+        "providers:",
+        "  codex: {}",
+        "stages:",
+        "  run:",
+        "    allowedDomains: [mirror.internal.example]",
+        "agents:",
+        "  experimental:",
+        "    deniedDomains: [chatgpt.com]",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    const report = executeDoctorSandboxReport({ root: repoRoot });
+
+    expect(
+      report.map(({ agentId, stages, policy }) => ({
+        agentId,
+        stages,
+        mirror: policy.network.allowedDomains.includes(
+          "mirror.internal.example",
+        ),
+        deniedDomains: policy.network.deniedDomains,
+      })),
+    ).toEqual([
+      {
+        agentId: "codex-high",
+        stages: ["spec", "reduce", "verify", "message"],
+        mirror: false,
+        deniedDomains: [],
+      },
+      {
+        agentId: "codex-high",
+        stages: ["run"],
+        mirror: true,
+        deniedDomains: [],
+      },
+      {
+        agentId: "experimental",
+        stages: ["spec", "reduce", "verify", "message"],
+        mirror: false,
+        deniedDomains: ["chatgpt.com"],
+      },
+      {
+        agentId: "experimental",
+        stages: ["run"],
+        mirror: true,
+        deniedDomains: ["chatgpt.com"],
+      },
+    ]);
+  });
+});
+
+describe("executeDoctorSandboxDenialSuggestions", () => {
+  const runId = "20251019-120000-abcde";
+  let repoRoot: string;
+
+  beforeEach(async () => {
+    repoRoot = await mkdtemp(join(tmpdir(), "voratiq-doctor-denials-"));
+    await mkdir(join(repoRoot, ".git"), { recursive: true });
+    await createWorkspace(repoRoot);
+  });
+
+  afterEach(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  async function writeDenials(agentId: string, denials: unknown[]) {
+    const path = join(repoRoot, getAgentSandboxDenialsPath(runId, agentId));
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify({ denials }), "utf8");
+  }
+
+  function denial(operation: string, target: string) {
+    return {
+      operation,
+      target,
+      count: 2,
+      firstSeenAt: "2025-10-19T12:00:01.000Z",
+      lastSeenAt: "2025-10-19T12:00:04.000Z",
+    };
+  }
+
+  it("returns no suggestions when no run has recorded denials", async () => {
+    await expect(
+      executeDoctorSandboxDenialSuggestions({ root: repoRoot }),
+    ).resolves.toEqual([]);
+  });
+
+  it("derives allowedDomains and allowWrite entries for failed agents", async () => {
+    await appendRunRecord({
+      root: repoRoot,
+      runsFilePath: resolveWorkspacePath(repoRoot, "run", "index.json"),
+      record: createRunRecord({
+        runId,
+        status: "failed",
+        agents: [
+          createAgentInvocationRecord({
+            agentId: "blocked",
+            status: "failed",
+            artifacts: { sandboxDenialsCaptured: true },
+            sandboxDenialCount: 4,
+          }),
+          createAgentInvocationRecord({
+            agentId: "passed",
+            status: "succeeded",
+            artifacts: { sandboxDenialsCaptured: true },
+            sandboxDenialCount: 1,
+          }),
+        ],
+      }),
+    });
+    await flushAllRunRecordBuffers();
+    await writeDenials("blocked", [
+      denial("network-connect", "registry.npmjs.org:443"),
+      denial("network-connect", "registry.npmjs.org:80"),
+      denial("file-write", "/tmp/npm-cache"),
+      denial("file-read", "/etc/shadow"),
+    ]);
+    await writeDenials("passed", [denial("network-connect", "example.com")]);
+
+    await expect(
+      executeDoctorSandboxDenialSuggestions({ root: repoRoot }),
+    ).resolves.toEqual([
+      {
+        runId,
+        agentId: "blocked",
+        allowedDomains: ["registry.npmjs.org"],
+        allowWrite: ["/tmp/npm-cache"],
+      },
+    ]);
+  });
+});
@@ -2,7 +2,11 @@ import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 
-import { executeListCommand } from "../../../src/commands/list/command.js";
+import {
+  executeListCommand,
+  executeListTimelineCommand,
+} from "../../../src/commands/list/command.js";
+import type { ListSessionFilters } from "../../../src/commands/list/filters.js";
 import {
   formatTargetTablePreview,
   TARGET_TABLE_PREVIEW_LENGTH,
@@ -272,6 +276,59 @@ describe("executeListCommand", () => {
     );
   });
 
+  it("summarizes sandbox denials in verbose run detail", async () => {
+    const record = buildRunRecord({
+      runId: "run-denials",
+      status: "failed",
+    });
+    await appendRunRecord({
+      root: testDir,
+      runsFilePath,
+      record: {
+        ...record,
+        agents: record.agents.map((agent) => ({
+          ...agent,
+          status: "failed" as const,
+          artifacts: { ...agent.artifacts, sandboxDenialsCaptured: true },
+          sandboxDenialCount: 2,
+        })),
+      },
+    });
+
+    const result = await executeListCommand(
+      buildInput({
+        operator: "run",
+        sessionId: "run-denials",
+        verbose: true,
+      }),
+    );
+
+    expect(result.output).toContain(
+      "Sandbox denials: 2 targets (.voratiq/run/sessions/run-denials/agent-a/artifacts/sandbox-denials.json)",
+    );
+    expect(result.json).toMatchObject({
+      session: {
+        agents: [
+          {
+            sandboxDenialCount: 2,
+            artifacts: [
+              {
+                kind: "diff",
+                role: "output",
+                path: ".voratiq/run/sessions/run-denials/agent-a/artifacts/diff.patch",
+              },
+              {
+                kind: "sandbox-denials",
+                role: "data",
+                path: ".voratiq/run/sessions/run-denials/agent-a/artifacts/sandbox-denials.json",
+              },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
   it("normalizes run spec-session lineage to a session target", async () => {
     await appendRunRecord({
       root: testDir,
@@ -2790,6 +2847,139 @@ describe("executeListCommand", () => {
     });
   });
 
+  it("filters summary sessions by status and creation date", async () => {
+    for (const [runId, status, createdAt] of [
+      ["run-early", "succeeded", "2026-02-28T23:59:00.000Z"],
+      ["run-aborted", "aborted", "2026-03-01T00:01:00.000Z"],
+      ["run-failed", "failed", "2026-03-01T00:02:00.000Z"],
+      ["run-late", "aborted", "2026-03-02T00:00:00.000Z"],
+    ] as const) {
+      await appendRunRecord({
+        root: testDir,
+        runsFilePath,
+        record: buildRunRecord({ runId, status, createdAt }),
+      });
+    }
+
+    const result = await executeListCommand(
+      buildInput({
+        operator: "run",
+        filters: {
+          statuses: ["aborted", "failed"],
+          since: new Date("2026-03-01"),
+          until: new Date("2026-03-02"),
+        },
+      }),
+    );
+
+    expect(result.json).toMatchObject({
+      mode: "summary",
+      sessions: [{ sessionId: "run-failed" }, { sessionId: "run-aborted" }],
+    });
+    if (result.json.mode !== "summary") {
+      throw new Error("Expected summary JSON output");
+    }
+    expect(result.json.sessions).toHaveLength(2);
+  });
+
+  it("applies --limit to --grep matches rather than scanned sessions", async () => {
+    for (const [sessionId, createdAt] of [
+      ["spec-old-match", "2026-03-01T00:00:00.000Z"],
+      ["spec-new-match", "2026-03-01T00:01:00.000Z"],
+      ["spec-newest", "2026-03-01T00:02:00.000Z"],
+    ] as const) {
+      await appendSpecRecord({
+        root: testDir,
+        specsFilePath,
+        record: {
+          ...buildSpecRecord({ sessionId, status: "succeeded", createdAt }),
+          ...(sessionId === "spec-newest"
+            ? { description: "Unrelated work" }
+            : {}),
+        },
+      });
+    }
+
+    const result = await executeListCommand(
+      buildInput({ operator: "spec", limit: 1, filters: { grep: "task" } }),
+    );
+
+    expect(result.json).toMatchObject({
+      mode: "summary",
+      sessions: [{ sessionId: "spec-new-match" }],
+    });
+    if (result.json.mode !== "summary") {
+      throw new Error("Expected summary JSON output");
+    }
+    expect(result.json.sessions).toHaveLength(1);
+  });
+
+  it("merges every operator into a newest-first timeline", async () => {
+    await appendRunRecord({
+      root: testDir,
+      runsFilePath,
+      record: buildRunRecord({
+        runId: "run-1",
+        status: "succeeded",
+        createdAt: "2026-03-01T00:03:00.000Z",
+      }),
+    });
+    await appendSpecRecord({
+      root: testDir,
+      specsFilePath,
+      record: buildSpecRecord({
+        sessionId: "spec-1",
+        status: "succeeded",
+        createdAt: "2026-03-01T00:05:00.000Z",
+      }),
+    });
+    await appendInteractiveSessionRecord({
+      root: testDir,
+      record: buildInteractiveRecord({
+        sessionId: "interactive-1",
+        status: "succeeded",
+        createdAt: "2026-03-01T00:01:00.000Z",
+      }),
+    });
+    await appendInteractiveSessionRecord({
+      root: testDir,
+      record: buildInteractiveRecord({
+        sessionId: "interactive-oldest",
+        status: "succeeded",
+        createdAt: "2026-02-01T00:00:00.000Z",
+      }),
+    });
+
+    const result = await executeListTimelineCommand({
+      ...buildInput({ operator: "run" }),
+      limit: 3,
+    });
+
+    expect(result.mode).toBe("timeline");
+    expect(parseListJsonOutput(result.json)).toMatchObject({
+      mode: "timeline",
+      sessions: [
+        { operator: "spec", sessionId: "spec-1" },
+        { operator: "run", sessionId: "run-1" },
+        { operator: "interactive", sessionId: "interactive-1" },
+      ],
+    });
+    expect(result.output).toContain("OPERATOR");
+    expect(result.output).toContain("SPEC");
+    expect(result.output).not.toContain("interactive-oldest");
+
+    const applied = await executeListTimelineCommand({
+      ...buildInput({ operator: "run" }),
+      filters: { applied: true },
+    });
+    expect(applied.output).toBeUndefined();
+    expect(applied.json).toEqual({
+      mode: "timeline",
+      sessions: [],
+      warnings: [],
+    });
+  });
+
   describe("bounded read path", () => {
     let capturedOptions: ReadRunRecordsOptions | undefined;
 
@@ -2981,6 +3171,7 @@ describe("executeListCommand", () => {
     sessionId?: string;
     limit?: number;
     allStatuses?: boolean;
+    filters?: ListSessionFilters;
     verbose?: boolean;
   }) {
     return {
@@ -2995,6 +3186,7 @@ describe("executeListCommand", () => {
       sessionId: params.sessionId,
       limit: params.limit,
       allStatuses: params.allStatuses,
+      filters: params.filters,
       verbose: params.verbose,
     };
   }
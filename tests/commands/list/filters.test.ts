@@ -0,0 +1,160 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import {
+  buildListFilterPredicate,
+  isListOperatorFilterable,
+  matchesListGrep,
+} from "../../../src/commands/list/filters.js";
+import type { InteractiveSessionRecord } from "../../../src/domain/interactive/model/types.js";
+import type { MessageRecord } from "../../../src/domain/message/model/types.js";
+import type { SpecRecord } from "../../../src/domain/spec/model/types.js";
+import { getAgentSummaryPath } from "../../../src/workspace/artifact-paths.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../../support/factories/run-records.js";
+
+describe("list session filters", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-list-filters-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("combines filters with AND and their values with OR", () => {
+    const predicate = buildListFilterPredicate({
+      operator: "run",
+      filters: {
+        agentIds: ["alpha", "gamma"],
+        statuses: ["succeeded", "failed"],
+        specPath: "specs/backlinks.md",
+        applied: true,
+      },
+    });
+    const applied = {
+      agentId: "alpha",
+      status: "succeeded" as const,
+      appliedAt: "2026-03-01T00:10:00.000Z",
+      ignoredBaseMismatch: false,
+    };
+    const matching = createRunRecord({
+      status: "succeeded",
+      spec: { path: "specs/backlinks.md" },
+      agents: [createAgentInvocationRecord({ agentId: "alpha" })],
+      applyStatus: applied,
+    });
+
+    expect(predicate?.(matching)).toBe(true);
+    expect(
+      predicate?.({
+        ...matching,
+        agents: [createAgentInvocationRecord({ agentId: "beta" })],
+      }),
+    ).toBe(false);
+    expect(predicate?.({ ...matching, status: "aborted" })).toBe(false);
+    expect(predicate?.({ ...matching, spec: { path: "specs/other.md" } })).toBe(
+      false,
+    );
+    expect(
+      predicate?.({
+        ...matching,
+        applyStatus: { ...applied, status: "failed" },
+      }),
+    ).toBe(false);
+    expect(
+      buildListFilterPredicate({ operator: "run", filters: {} }),
+    ).toBeUndefined();
+  });
+
+  it("matches profile agents per stage and never matches interactive sessions", () => {
+    const profileAgentIds = {
+      spec: new Set(["alpha"]),
+      run: new Set(["beta"]),
+      reduce: new Set<string>(),
+      verify: new Set<string>(),
+      message: new Set<string>(),
+    };
+    const run = createRunRecord({
+      agents: [createAgentInvocationRecord({ agentId: "alpha" })],
+    });
+
+    expect(
+      buildListFilterPredicate({
+        operator: "run",
+        filters: { profile: "fast" },
+        profileAgentIds,
+      })?.(run),
+    ).toBe(false);
+    expect(
+      buildListFilterPredicate({
+        operator: "interactive",
+        filters: { profile: "fast" },
+        profileAgentIds,
+      })?.({ agentId: "alpha" } as InteractiveSessionRecord),
+    ).toBe(false);
+    expect(isListOperatorFilterable("interactive", { profile: "fast" })).toBe(
+      false,
+    );
+    expect(isListOperatorFilterable("spec", { applied: true })).toBe(false);
+    expect(isListOperatorFilterable("spec", { specPath: "specs/a.md" })).toBe(
+      true,
+    );
+  });
+
+  it("greps descriptions, prompts, and captured run summaries case-insensitively", async () => {
+    const run = createRunRecord({
+      runId: "run-grep",
+      agents: [
+        createAgentInvocationRecord({ agentId: "alpha" }),
+        createAgentInvocationRecord({
+          agentId: "beta",
+          artifacts: { diffAttempted: true, summaryCaptured: false },
+        }),
+      ],
+    });
+    const summaryPath = join(root, getAgentSummaryPath("run-grep", "alpha"));
+    await mkdir(dirname(summaryPath), { recursive: true });
+    await writeFile(summaryPath, "Add Backlinks panel to notes\n", "utf8");
+
+    await expect(
+      matchesListGrep({
+        root,
+        operator: "run",
+        record: run,
+        pattern: "backlinks",
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      matchesListGrep({
+        root,
+        operator: "run",
+        record: run,
+        pattern: "search",
+      }),
+    ).resolves.toBe(false);
+    await expect(
+      matchesListGrep({
+        root,
+        operator: "spec",
+        record: { description: "Add search" } as SpecRecord,
+        pattern: "SEARCH",
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      matchesListGrep({
+        root,
+        operator: "message",
+        record: { prompt: "Review this change." } as MessageRecord,
+        pattern: "review",
+      }),
+    ).resolves.toBe(true);
+  });
+});
@@ -171,6 +171,27 @@ describe("list target normalization", () => {
     expect(target ? formatTargetDisplay(target) : null).toBe("run:run-123");
   });
 
+  it("keeps every target of a multi-target reduction", () => {
+    const record = {
+      sessionId: "reduce-456",
+      createdAt: "2026-03-01T00:00:00.000Z",
+      status: "succeeded",
+      target: { type: "run", id: "run-a" },
+      targets: [
+        { type: "run", id: "run-a" },
+        { type: "verify", id: "verify-b" },
+      ],
+    } as unknown as ReductionRecord;
+
+    const session = normalizeListSession("reduce", record);
+
+    expect(session.target).toEqual({ kind: "run", sessionId: "run-a" });
+    expect(session.targets).toEqual([
+      { kind: "run", sessionId: "run-a" },
+      { kind: "verify", sessionId: "verify-b" },
+    ]);
+  });
+
   it("normalizes message targets to session refs when persisted", () => {
     const record = {
       sessionId: "message-123",
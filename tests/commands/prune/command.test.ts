@@ -0,0 +1,270 @@
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+
+import { executePruneCommand } from "../../../src/commands/prune/command.js";
+import type { ReductionRecord } from "../../../src/domain/reduce/model/types.js";
+import { appendReductionRecord } from "../../../src/domain/reduce/persistence/adapter.js";
+import type { RunRecord } from "../../../src/domain/run/model/types.js";
+import { appendRunRecord } from "../../../src/domain/run/persistence/adapter.js";
+import type { VerificationRecord } from "../../../src/domain/verify/model/types.js";
+import { appendVerificationRecord } from "../../../src/domain/verify/persistence/adapter.js";
+import { pathExists } from "../../../src/utils/fs.js";
+import { createRunRecord } from "../../support/factories/run-records.js";
+
+const execFileAsync = promisify(execFile);
+
+const NOW = new Date("2026-03-31T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("executePruneCommand", () => {
+  let root: string;
+  let runsFilePath: string;
+  let reductionsFilePath: string;
+  let verificationsFilePath: string;
+  let messagesFilePath: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-prune-test-"));
+    await execFileAsync("git", ["init", "--quiet"], { cwd: root });
+    runsFilePath = join(root, ".voratiq", "run", "index.json");
+    reductionsFilePath = join(root, ".voratiq", "reduce", "index.json");
+    verificationsFilePath = join(root, ".voratiq", "verify", "index.json");
+    messagesFilePath = join(root, ".voratiq", "message", "index.json");
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  function buildInput(
+    overrides: Partial<Parameters<typeof executePruneCommand>[0]> = {},
+  ): Parameters<typeof executePruneCommand>[0] {
+    return {
+      root,
+      runsFilePath,
+      reductionsFilePath,
+      verificationsFilePath,
+      messagesFilePath,
+      rules: {},
+      now: NOW,
+      ...overrides,
+    };
+  }
+
+  async function seedRun(
+    runId: string,
+    status: RunRecord["status"],
+    createdAt: string,
+    overrides: Partial<RunRecord> = {},
+  ): Promise<void> {
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId,
+        status,
+        createdAt,
+        ...(status === "running"
+          ? {
+              completedAt: undefined,
+              agents: [
+                {
+                  agentId: "agent-a",
+                  model: "model",
+                  status: "running",
+                  startedAt: createdAt,
+                },
+              ],
+            }
+          : {}),
+        ...overrides,
+      }),
+    });
+    const workspacePath = join(
+      root,
+      ".voratiq",
+      "run",
+      "sessions",
+      runId,
+      "agent-1",
+      "workspace",
+    );
+    await mkdir(workspacePath, { recursive: true });
+    await writeFile(join(workspacePath, "file.txt"), "content", "utf8");
+  }
+
+  async function readIndexIds(indexPath: string): Promise<string[]> {
+    const payload = JSON.parse(await readFile(indexPath, "utf8")) as {
+      sessions: { runId?: string; sessionId?: string }[];
+    };
+    return payload.sessions.map((entry) => entry.runId ?? entry.sessionId!);
+  }
+
+  it("previews matching sessions without deleting them on --dry-run", async () => {
+    await seedRun("run-old-aborted", "aborted", "2026-03-01T00:00:00.000Z");
+    await seedRun("run-old-succeeded", "succeeded", "2026-03-02T00:00:00.000Z");
+    await seedRun("run-new-aborted", "aborted", "2026-03-30T00:00:00.000Z");
+
+    const result = await executePruneCommand(
+      buildInput({
+        rules: { olderThanMs: 7 * DAY_MS, statuses: ["aborted", "failed"] },
+        dryRun: true,
+      }),
+    );
+
+    expect(result.dryRun).toBe(true);
+    expect(result.pruned.map((session) => session.sessionId)).toEqual([
+      "run-old-aborted",
+    ]);
+    expect(await readIndexIds(runsFilePath)).toEqual([
+      "run-old-aborted",
+      "run-old-succeeded",
+      "run-new-aborted",
+    ]);
+    await expect(
+      pathExists(join(root, ".voratiq", "run", "sessions", "run-old-aborted")),
+    ).resolves.toBe(true);
+  });
+
+  it("deletes sessions and index entries while keeping recent, running, and applied runs", async () => {
+    await seedRun("run-applied", "succeeded", "2026-03-01T00:00:00.000Z", {
+      applyStatus: {
+        agentId: "agent-1",
+        status: "succeeded",
+        appliedAt: "2026-03-01T01:00:00.000Z",
+        ignoredBaseMismatch: false,
+      },
+    });
+    await seedRun("run-stale", "failed", "2026-03-02T00:00:00.000Z");
+    await seedRun("run-active", "running", "2026-03-03T00:00:00.000Z");
+    await seedRun("run-latest", "succeeded", "2026-03-04T00:00:00.000Z");
+
+    const result = await executePruneCommand(
+      buildInput({ rules: { keepLast: 1, keepApplied: true } }),
+    );
+
+    expect(result.pruned.map((session) => session.sessionId)).toEqual([
+      "run-stale",
+    ]);
+    expect(await readIndexIds(runsFilePath)).toEqual([
+      "run-applied",
+      "run-active",
+      "run-latest",
+    ]);
+    await expect(
+      pathExists(join(root, ".voratiq", "run", "sessions", "run-stale")),
+    ).resolves.toBe(false);
+    await expect(
+      pathExists(join(root, ".voratiq", "run", "sessions", "run-latest")),
+    ).resolves.toBe(true);
+  });
+
+  it("keeps sessions read by retained reduce or verify lineage unless forced", async () => {
+    await seedRun("run-reduced", "succeeded", "2026-03-01T00:00:00.000Z");
+    await seedRun("run-verified", "succeeded", "2026-03-01T00:00:00.000Z");
+    await appendReductionRecord({
+      root,
+      reductionsFilePath,
+      record: buildReductionRecord("reduce-old", "2026-03-02T00:00:00.000Z", {
+        type: "run",
+        id: "run-reduced",
+      }),
+    });
+    await appendReductionRecord({
+      root,
+      reductionsFilePath,
+      record: buildReductionRecord("reduce-new", "2026-03-30T00:00:00.000Z", {
+        type: "reduce",
+        id: "reduce-old",
+      }),
+    });
+    await appendVerificationRecord({
+      root,
+      verificationsFilePath,
+      record: buildVerificationRecord("verify-new", "run-verified"),
+    });
+
+    const rules = { olderThanMs: 7 * DAY_MS };
+    const preview = await executePruneCommand(
+      buildInput({ rules, dryRun: true }),
+    );
+
+    expect(preview.pruned).toEqual([]);
+    expect(
+      preview.retained.map((session) => ({
+        id: session.sessionId,
+        referencedBy: session.referencedBy,
+      })),
+    ).toEqual(
+      expect.arrayContaining([
+        {
+          id: "run-verified",
+          referencedBy: [{ operator: "verify", sessionId: "verify-new" }],
+        },
+        {
+          id: "reduce-old",
+          referencedBy: [{ operator: "reduce", sessionId: "reduce-new" }],
+        },
+        {
+          id: "run-reduced",
+          referencedBy: [{ operator: "reduce", sessionId: "reduce-old" }],
+        },
+      ]),
+    );
+
+    const forced = await executePruneCommand(
+      buildInput({ rules, force: true }),
+    );
+
+    expect(forced.pruned.map((session) => session.sessionId).sort()).toEqual([
+      "reduce-old",
+      "run-reduced",
+      "run-verified",
+    ]);
+    expect(await readIndexIds(runsFilePath)).toEqual([]);
+    expect(await readIndexIds(reductionsFilePath)).toEqual(["reduce-new"]);
+  });
+});
+
+function buildReductionRecord(
+  sessionId: string,
+  createdAt: string,
+  target: ReductionRecord["target"],
+): ReductionRecord {
+  return {
+    sessionId,
+    target,
+    createdAt,
+    startedAt: createdAt,
+    completedAt: createdAt,
+    status: "succeeded",
+    reducers: [
+      {
+        agentId: "agent-a",
+        status: "succeeded",
+        outputPath: `.voratiq/reduce/sessions/${sessionId}/agent-a/reduction.md`,
+        startedAt: createdAt,
+        completedAt: createdAt,
+      },
+    ],
+  };
+}
+
+function buildVerificationRecord(
+  sessionId: string,
+  runId: string,
+): VerificationRecord {
+  const createdAt = "2026-03-30T00:00:00.000Z";
+  return {
+    sessionId,
+    createdAt,
+    startedAt: createdAt,
+    completedAt: createdAt,
+    status: "succeeded",
+    target: { kind: "run", sessionId: runId, candidateIds: ["agent-1"] },
+    methods: [],
+  };
+}
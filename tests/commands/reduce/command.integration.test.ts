@@ -2,7 +2,10 @@ import { beforeEach, describe, expect, it, jest } from "@jest/globals";
 
 import { verifyAgentProviders } from "../../../src/agents/runtime/auth.js";
 import { executeReduceCommand } from "../../../src/commands/reduce/command.js";
-import { ReducePreflightError } from "../../../src/commands/reduce/errors.js";
+import {
+  ReduceDuplicateTargetError,
+  ReducePreflightError,
+} from "../../../src/commands/reduce/errors.js";
 import { assertReductionTargetEligible } from "../../../src/commands/reduce/targets.js";
 import { resolveReductionCompetitors } from "../../../src/commands/shared/resolve-reduction-competitors.js";
 import { generateSessionId } from "../../../src/commands/shared/session-id.js";
@@ -237,15 +240,18 @@ describe("executeReduceCommand integration", () => {
       reductionsFilePath: "/repo/.voratiq/reduce/index.json",
       messagesFilePath: "/repo/.voratiq/message/index.json",
       verificationsFilePath: "/repo/.voratiq/verify/index.json",
-      target: { type: "run", id: "run-123" },
+      targets: [{ type: "run", id: "run-123" }],
       maxParallel: 10,
     });
 
-    expect(verifyAgentProvidersMock).toHaveBeenCalledWith([
-      { id: "gamma", provider: "codex" },
-      { id: "alpha", provider: "codex" },
-      { id: "beta", provider: "codex" },
-    ]);
+    expect(verifyAgentProvidersMock).toHaveBeenCalledWith(
+      [
+        { id: "gamma", provider: "codex" },
+        { id: "alpha", provider: "codex" },
+        { id: "beta", provider: "codex" },
+      ],
+      { root: "/repo" },
+    );
 
     expect(executeCompetitionWithAdapterMock).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -335,7 +341,7 @@ describe("executeReduceCommand integration", () => {
       reductionsFilePath: "/repo/.voratiq/reduce/index.json",
       messagesFilePath: "/repo/.voratiq/message/index.json",
       verificationsFilePath: "/repo/.voratiq/verify/index.json",
-      target: { type: "spec", id: "spec-123" },
+      targets: [{ type: "spec", id: "spec-123" }],
       extraContextFiles,
     });
 
@@ -410,7 +416,7 @@ describe("executeReduceCommand integration", () => {
       reductionsFilePath: "/repo/.voratiq/reduce/index.json",
       messagesFilePath: "/repo/.voratiq/message/index.json",
       verificationsFilePath: "/repo/.voratiq/verify/index.json",
-      target: { type: "run", id: "run-123" },
+      targets: [{ type: "run", id: "run-123" }],
       renderer,
     });
 
@@ -465,7 +471,7 @@ describe("executeReduceCommand integration", () => {
         reductionsFilePath: "/repo/.voratiq/reduce/index.json",
         messagesFilePath: "/repo/.voratiq/message/index.json",
         verificationsFilePath: "/repo/.voratiq/verify/index.json",
-        target: { type: "run", id: "run-123" },
+        targets: [{ type: "run", id: "run-123" }],
       });
     } catch (error) {
       caught = error;
@@ -524,7 +530,7 @@ describe("executeReduceCommand integration", () => {
         reductionsFilePath: "/repo/.voratiq/reduce/index.json",
         messagesFilePath: "/repo/.voratiq/message/index.json",
         verificationsFilePath: "/repo/.voratiq/verify/index.json",
-        target: { type: "run", id: "run-123" },
+        targets: [{ type: "run", id: "run-123" }],
       }),
     ).rejects.toMatchObject({
       headline: "Preflight failed. Aborting reduction.",
@@ -532,4 +538,24 @@ describe("executeReduceCommand integration", () => {
       hintLines: ["Review `settings.yaml` and correct invalid values."],
     });
   });
+
+  it("rejects a target given more than once before validating targets", async () => {
+    await expect(
+      executeReduceCommand({
+        root: "/repo",
+        specsFilePath: "/repo/.voratiq/spec/index.json",
+        runsFilePath: "/repo/.voratiq/run/index.json",
+        reductionsFilePath: "/repo/.voratiq/reduce/index.json",
+        messagesFilePath: "/repo/.voratiq/message/index.json",
+        verificationsFilePath: "/repo/.voratiq/verify/index.json",
+        targets: [
+          { type: "run", id: "run-123" },
+          { type: "spec", id: "spec-1" },
+          { type: "run", id: "run-123" },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(ReduceDuplicateTargetError);
+    expect(assertReductionTargetEligibleMock).not.toHaveBeenCalled();
+    expect(generateSessionIdMock).not.toHaveBeenCalled();
+  });
 });
@@ -99,7 +99,11 @@ describe("runAgentProcess watchdog cleanup", () => {
     createWatchdogSpy.mockReturnValue({
       handleOutput: jest.fn(),
       cleanup: cleanupSpy,
-      getState: () => ({ triggered: null, triggeredReason: null }),
+      getState: () => ({
+        triggered: null,
+        triggeredReason: null,
+        sandboxDenials: [],
+      }),
       abortSignal: new AbortController().signal,
     });
     getCliAssetPathSpy = jest.spyOn(cliRootModule, "getCliAssetPath");
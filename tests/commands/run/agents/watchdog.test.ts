@@ -15,6 +15,7 @@ import type { SandboxFailFastInfo } from "../../../../src/agents/runtime/sandbox
 import {
   createWatchdog,
   FATAL_PATTERNS,
+  resolveWatchdogLimits,
   WATCHDOG_DEFAULTS,
   type WatchdogTrigger,
 } from "../../../../src/agents/runtime/watchdog.js";
@@ -97,6 +98,24 @@ describe("watchdog", () => {
     });
   });
 
+  describe("resolveWatchdogLimits", () => {
+    it("falls back to defaults when no overrides are configured", () => {
+      expect(resolveWatchdogLimits()).toEqual({
+        silenceTimeoutMs: WATCHDOG_DEFAULTS.silenceTimeoutMs,
+        wallClockCapMs: WATCHDOG_DEFAULTS.wallClockCapMs,
+        killGraceMs: WATCHDOG_DEFAULTS.killGraceMs,
+      });
+    });
+
+    it("applies partial overrides on top of defaults", () => {
+      expect(resolveWatchdogLimits({ wallClockCapMs: 240_000 })).toEqual({
+        silenceTimeoutMs: WATCHDOG_DEFAULTS.silenceTimeoutMs,
+        wallClockCapMs: 240_000,
+        killGraceMs: WATCHDOG_DEFAULTS.killGraceMs,
+      });
+    });
+  });
+
   describe("FATAL_PATTERNS", () => {
     it("should have gemini patterns for permission and quota errors", () => {
       const patterns = FATAL_PATTERNS.get("gemini");
@@ -685,6 +704,65 @@ describe("watchdog", () => {
       });
     });
 
+    describe("configured limits", () => {
+      it("enforces an overridden silence timeout", () => {
+        const controller = createWatchdog(
+          mockChild as unknown as ChildProcess,
+          stderrStream,
+          {
+            providerId: "test",
+            limits: { silenceTimeoutMs: 60_000 },
+          },
+        );
+
+        jest.advanceTimersByTime(59_999);
+        expect(controller.getState().triggered).toBeNull();
+
+        jest.advanceTimersByTime(1);
+        expect(controller.getState().triggered).toBe("silence");
+        expect(controller.getState().triggeredReason).toContain("1 minute");
+      });
+
+      it("enforces an overridden wall-clock cap", () => {
+        const controller = createWatchdog(
+          mockChild as unknown as ChildProcess,
+          stderrStream,
+          {
+            providerId: "test",
+            limits: { wallClockCapMs: 5 * 60 * 1000 },
+          },
+        );
+
+        for (let elapsed = 0; elapsed < 5 * 60 * 1000; elapsed += 60_000) {
+          controller.handleOutput(Buffer.from("working"));
+          jest.advanceTimersByTime(60_000);
+        }
+
+        expect(controller.getState().triggered).toBe("wall-clock");
+        expect(controller.getState().triggeredReason).toContain(
+          "5 minute wall-clock limit",
+        );
+      });
+
+      it("waits for the overridden kill grace before sending SIGKILL", () => {
+        createWatchdog(mockChild as unknown as ChildProcess, stderrStream, {
+          providerId: "test",
+          limits: { silenceTimeoutMs: 1_000, killGraceMs: 30_000 },
+        });
+
+        jest.advanceTimersByTime(1_000);
+        jest.advanceTimersByTime(WATCHDOG_DEFAULTS.killGraceMs);
+        expect(processKillCalls.some((call) => call.signal === "SIGKILL")).toBe(
+          false,
+        );
+
+        jest.advanceTimersByTime(30_000 - WATCHDOG_DEFAULTS.killGraceMs);
+        expect(processKillCalls.some((call) => call.signal === "SIGKILL")).toBe(
+          true,
+        );
+      });
+    });
+
     describe("cleanup", () => {
       it("should clear all timers on cleanup", () => {
         const controller = createWatchdog(
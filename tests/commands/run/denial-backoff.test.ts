@@ -8,6 +8,7 @@ import {
   DEFAULT_DENIAL_BACKOFF,
   DenialBackoffTracker,
   parseSandboxDenialLine,
+  SandboxDenialLog,
   type SandboxFailFastInfo,
 } from "../../../src/agents/runtime/sandbox.js";
 import { createWatchdog } from "../../../src/agents/runtime/watchdog.js";
@@ -175,4 +176,63 @@ describe("sandbox denial backoff", () => {
     watchdog.cleanup();
     killSpy.mockRestore();
   });
+
+  it("aggregates every denial per operation and target", () => {
+    const log = new SandboxDenialLog();
+    const network: SandboxFailFastInfo = {
+      operation: "network-connect",
+      target: "npmjs.org:443",
+    };
+
+    log.record(network, Date.parse("2025-10-19T12:00:00.000Z"));
+    log.record(
+      { operation: "file-write", target: "/tmp/cache" },
+      Date.parse("2025-10-19T12:00:01.000Z"),
+    );
+    log.record(network, Date.parse("2025-10-19T12:30:00.000Z"));
+
+    expect(log.entries()).toEqual([
+      {
+        operation: "network-connect",
+        target: "npmjs.org:443",
+        count: 2,
+        firstSeenAt: "2025-10-19T12:00:00.000Z",
+        lastSeenAt: "2025-10-19T12:30:00.000Z",
+      },
+      {
+        operation: "file-write",
+        target: "/tmp/cache",
+        count: 1,
+        firstSeenAt: "2025-10-19T12:00:01.000Z",
+        lastSeenAt: "2025-10-19T12:00:01.000Z",
+      },
+    ]);
+  });
+
+  it("records denials in watchdog state even when backoff is disabled", () => {
+    const child = new EventEmitter() as unknown as ChildProcess;
+    Object.assign(child, { pid: 4242, exitCode: null, signalCode: null });
+
+    const watchdog = createWatchdog(child, new PassThrough(), {
+      providerId: "codex",
+      denialBackoff: { ...DEFAULT_DENIAL_BACKOFF, enabled: false },
+    });
+
+    const denialLine =
+      "[SandboxDebug] Denied by config rule: registry.npmjs.org:443\n";
+    for (let i = 0; i < 5; i += 1) {
+      watchdog.handleOutput(denialLine);
+    }
+
+    expect(watchdog.getState().triggered).toBeNull();
+    expect(watchdog.getState().sandboxDenials).toEqual([
+      expect.objectContaining({
+        operation: "network-connect",
+        target: "registry.npmjs.org:443",
+        count: 5,
+      }),
+    ]);
+
+    watchdog.cleanup();
+  });
 });
@@ -724,6 +724,7 @@ describe("terminateActiveRun", () => {
     expect(preserveProviderChatTranscriptsMock).toHaveBeenCalledWith({
       providerId: "claude",
       agentRoot,
+      root: "/repo",
     });
 
     expect(mutatedRecord?.agents[0]?.artifacts).toEqual({
@@ -243,11 +243,14 @@ describe("run preflight error summary", () => {
     });
 
     expect(result.agents.map((agent) => agent.id)).toEqual(["selected-agent"]);
-    expect(verifyAgentProvidersMock).toHaveBeenCalledWith([
-      {
-        id: "selected-agent",
-        provider: "codex",
-      },
-    ]);
+    expect(verifyAgentProvidersMock).toHaveBeenCalledWith(
+      [
+        {
+          id: "selected-agent",
+          provider: "codex",
+        },
+      ],
+      { root },
+    );
   });
 });
@@ -0,0 +1,254 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+
+import { fetchRunSafely } from "../../../src/commands/fetch.js";
+import { executeRunSession } from "../../../src/commands/run/execution.js";
+import { executeRunResumeCommand } from "../../../src/commands/run/resume.js";
+import {
+  validateAndPrepare,
+  type ValidationResult,
+} from "../../../src/commands/run/validation.js";
+import { runTeardown } from "../../../src/competition/shared/teardown.js";
+import {
+  RunNotResumableError,
+  RunSessionActiveError,
+} from "../../../src/domain/run/competition/errors.js";
+import type {
+  RunRecord,
+  RunReport,
+} from "../../../src/domain/run/model/types.js";
+import { rewriteRunRecord } from "../../../src/domain/run/persistence/adapter.js";
+
+jest.mock("../../../src/commands/fetch.js", () => ({
+  fetchRunSafely: jest.fn(),
+}));
+
+jest.mock("../../../src/commands/run/validation.js", () => ({
+  validateAndPrepare: jest.fn(),
+}));
+
+jest.mock("../../../src/commands/run/execution.js", () => {
+  const actual = jest.requireActual<
+    typeof import("../../../src/commands/run/execution.js")
+  >("../../../src/commands/run/execution.js");
+  return {
+    ...actual,
+    executeRunSession: jest.fn(),
+  };
+});
+
+jest.mock("../../../src/competition/shared/teardown.js", () => {
+  const actual = jest.requireActual<
+    typeof import("../../../src/competition/shared/teardown.js")
+  >("../../../src/competition/shared/teardown.js");
+  return {
+    ...actual,
+    runTeardown: jest.fn(),
+  };
+});
+
+jest.mock("../../../src/domain/run/persistence/adapter.js", () => ({
+  rewriteRunRecord: jest.fn(),
+}));
+
+const fetchRunSafelyMock = jest.mocked(fetchRunSafely);
+const validateAndPrepareMock = jest.mocked(validateAndPrepare);
+const executeRunSessionMock = jest.mocked(executeRunSession);
+const runTeardownMock = jest.mocked(runTeardown);
+const rewriteRunRecordMock = jest.mocked(rewriteRunRecord);
+
+function buildInterruptedRunRecord(): RunRecord {
+  return {
+    runId: "run-123",
+    baseRevisionSha: "base-sha",
+    rootPath: ".",
+    spec: { path: "specs/feature.md" },
+    createdAt: "2026-01-01T00:00:00.000Z",
+    startedAt: "2026-01-01T00:00:01.000Z",
+    completedAt: "2026-01-01T00:05:00.000Z",
+    status: "aborted",
+    agents: [
+      {
+        agentId: "agent-done",
+        model: "model-a",
+        status: "succeeded",
+        startedAt: "2026-01-01T00:00:02.000Z",
+        completedAt: "2026-01-01T00:03:00.000Z",
+        artifacts: { diffAttempted: true, diffCaptured: true },
+      },
+      {
+        agentId: "agent-cut",
+        model: "model-b",
+        status: "aborted",
+        startedAt: "2026-01-01T00:00:02.000Z",
+        completedAt: "2026-01-01T00:05:00.000Z",
+      },
+      {
+        agentId: "agent-waiting",
+        model: "model-c",
+        status: "queued",
+      },
+    ],
+  };
+}
+
+describe("executeRunResumeCommand", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    validateAndPrepareMock.mockResolvedValue({
+      specContent: "# Spec",
+      specTarget: { kind: "file" },
+      baseRevisionSha: "base-sha",
+      agents: [
+        { id: "agent-cut", provider: "codex", model: "model-b" },
+        { id: "agent-waiting", provider: "claude", model: "model-c" },
+      ],
+      effectiveMaxParallel: 2,
+      environment: {},
+    } as unknown as ValidationResult);
+    runTeardownMock.mockResolvedValue([]);
+    executeRunSessionMock.mockResolvedValue({
+      runId: "run-123",
+    } as RunReport);
+  });
+
+  it("re-queues agents that did not finish against the recorded base revision", async () => {
+    const record = buildInterruptedRunRecord();
+    fetchRunSafelyMock.mockResolvedValue(record);
+
+    await executeRunResumeCommand({
+      root: "/repo",
+      runsFilePath: "/repo/.voratiq/run/index.json",
+      runId: "run-123",
+      maxParallel: 1,
+    });
+
+    expect(validateAndPrepareMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        specAbsolutePath: "/repo/specs/feature.md",
+        resolvedAgentIds: ["agent-cut", "agent-waiting"],
+        maxParallel: 1,
+        baseRevisionSha: "base-sha",
+      }),
+    );
+    expect(runTeardownMock).toHaveBeenCalledTimes(1);
+
+    const sessionInput = executeRunSessionMock.mock.calls[0]?.[0];
+    expect(sessionInput).toMatchObject({
+      runId: "run-123",
+      baseRevisionSha: "base-sha",
+      createdAt: record.createdAt,
+      startedAt: record.startedAt,
+      extraContextFiles: [],
+    });
+    expect(sessionInput?.keptAgents?.map((agent) => agent.agentId)).toEqual([
+      "agent-done",
+    ]);
+
+    await sessionInput?.persistRecord();
+    const mutate = rewriteRunRecordMock.mock.calls[0]?.[0].mutate;
+    const reopened = mutate?.(record);
+    expect(reopened?.status).toBe("running");
+    expect(reopened?.startedAt).toBe(record.startedAt);
+    expect(reopened?.completedAt).toBeUndefined();
+    expect(reopened?.ownerPid).toBe(process.pid);
+    expect(reopened?.agents).toEqual([
+      record.agents[0],
+      { agentId: "agent-cut", model: "model-b", status: "queued" },
+      { agentId: "agent-waiting", model: "model-c", status: "queued" },
+    ]);
+    expect(reopened?.resumes).toEqual([
+      {
+        resumedAt: expect.any(String),
+        agentIds: ["agent-cut", "agent-waiting"],
+      },
+    ]);
+  });
+
+  it("keeps failed and skipped agents and re-queues errored ones", async () => {
+    const record = buildInterruptedRunRecord();
+    const failed = {
+      agentId: "agent-failed",
+      model: "model-d",
+      status: "failed" as const,
+      startedAt: "2026-01-01T00:00:02.000Z",
+      completedAt: "2026-01-01T00:04:00.000Z",
+      artifacts: { diffAttempted: true, diffCaptured: true },
+    };
+    const skipped = {
+      agentId: "agent-skipped",
+      model: "model-e",
+      status: "skipped" as const,
+    };
+    const errored = {
+      agentId: "agent-errored",
+      model: "model-f",
+      status: "errored" as const,
+      startedAt: "2026-01-01T00:00:02.000Z",
+      completedAt: "2026-01-01T00:01:00.000Z",
+    };
+    fetchRunSafelyMock.mockResolvedValue({
+      ...record,
+      agents: [record.agents[0], failed, skipped, errored].filter(
+        (agent) => agent !== undefined,
+      ),
+    });
+
+    await executeRunResumeCommand({
+      root: "/repo",
+      runsFilePath: "/repo/.voratiq/run/index.json",
+      runId: "run-123",
+    });
+
+    expect(validateAndPrepareMock).toHaveBeenCalledWith(
+      expect.objectContaining({ resolvedAgentIds: ["agent-errored"] }),
+    );
+    const sessionInput = executeRunSessionMock.mock.calls[0]?.[0];
+    expect(sessionInput?.keptAgents?.map((agent) => agent.agentId)).toEqual([
+      "agent-done",
+      "agent-failed",
+      "agent-skipped",
+    ]);
+  });
+
+  it("refuses a running run while its owner process is alive unless forced", async () => {
+    fetchRunSafelyMock.mockResolvedValue({
+      ...buildInterruptedRunRecord(),
+      status: "running",
+      completedAt: undefined,
+      ownerPid: process.ppid,
+    });
+    const input = {
+      root: "/repo",
+      runsFilePath: "/repo/.voratiq/run/index.json",
+      runId: "run-123",
+    };
+
+    await expect(executeRunResumeCommand(input)).rejects.toBeInstanceOf(
+      RunSessionActiveError,
+    );
+    expect(runTeardownMock).not.toHaveBeenCalled();
+    expect(executeRunSessionMock).not.toHaveBeenCalled();
+
+    await executeRunResumeCommand({ ...input, force: true });
+    expect(executeRunSessionMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects runs where every agent already succeeded", async () => {
+    const record = buildInterruptedRunRecord();
+    fetchRunSafelyMock.mockResolvedValue({
+      ...record,
+      status: "succeeded",
+      agents: record.agents.slice(0, 1),
+    });
+
+    await expect(
+      executeRunResumeCommand({
+        root: "/repo",
+        runsFilePath: "/repo/.voratiq/run/index.json",
+        runId: "run-123",
+      }),
+    ).rejects.toBeInstanceOf(RunNotResumableError);
+    expect(validateAndPrepareMock).not.toHaveBeenCalled();
+    expect(executeRunSessionMock).not.toHaveBeenCalled();
+  });
+});
@@ -357,7 +357,11 @@ describe("collectAgentArtifacts", () => {
       .mockImplementation(() =>
         Promise.reject(
           new workspaceDependencies.WorkspaceDependencyCleanupError({
-            cleanup: { nodeRemoved: true, pythonRemoved: false },
+            cleanup: {
+              nodeRemoved: true,
+              pythonRemoved: false,
+              toolchainsRemoved: false,
+            },
             cause: new Error("synthetic cleanup failure"),
           }),
         ),
@@ -269,7 +269,7 @@ describe("end-to-end extra-context reuse loop", () => {
         reductionsFilePath: join(root, ".voratiq", "reduce", "index.json"),
         messagesFilePath: join(root, ".voratiq", "message", "index.json"),
         verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
-        target: { type: "spec", id: seedSpecId },
+        targets: [{ type: "spec", id: seedSpecId }],
         agentIds: ["alpha"],
       });
 
@@ -342,6 +342,100 @@ describe("resolveStageCompetitors", () => {
     }
   });
 
+  it("layers profile and stage watchdog limits over agents.yaml limits", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-stage-watchdog-"));
+    try {
+      await writeOrchestrationFixture(
+        root,
+        [
+          "profiles:",
+          "  default:",
+          "    watchdog:",
+          "      silenceTimeoutMs: 120000",
+          "      killGraceMs: 2000",
+          "    spec:",
+          "      agents: []",
+          "    run:",
+          "      agents:",
+          "        - id: alpha",
+          "        - id: beta",
+          "    reduce:",
+          "      agents: []",
+          "    verify:",
+          "      agents: []",
+          "    message:",
+          "      agents:",
+          "        - id: alpha",
+          "      watchdog:",
+          "        wallClockCapMs: 180000",
+          "",
+        ],
+        {
+          alpha: [
+            "    watchdog:",
+            "      silenceTimeoutMs: 600000",
+            "      wallClockCapMs: 14400000",
+          ],
+        },
+      );
+
+      const run = resolveStageCompetitors({ root, stageId: "run" });
+      expect(run.competitors.map((agent) => agent.watchdog)).toEqual([
+        {
+          silenceTimeoutMs: 120000,
+          wallClockCapMs: 14400000,
+          killGraceMs: 2000,
+        },
+        { silenceTimeoutMs: 120000, killGraceMs: 2000 },
+      ]);
+
+      const message = resolveStageCompetitors({ root, stageId: "message" });
+      expect(message.competitors[0]?.watchdog).toEqual({
+        silenceTimeoutMs: 120000,
+        wallClockCapMs: 180000,
+        killGraceMs: 2000,
+      });
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps agents.yaml watchdog limits for CLI overrides without a profile", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-cli-watchdog-"));
+    try {
+      await writeOrchestrationFixture(
+        root,
+        [
+          "profiles:",
+          "  default:",
+          "    watchdog:",
+          "      silenceTimeoutMs: 120000",
+          "    spec:",
+          "      agents: []",
+          "    run:",
+          "      agents: []",
+          "    reduce:",
+          "      agents: []",
+          "    verify:",
+          "      agents: []",
+          "",
+        ],
+        { beta: ["    watchdog:", "      wallClockCapMs: 300000"] },
+      );
+
+      const resolution = resolveStageCompetitors({
+        root,
+        stageId: "run",
+        cliAgentIds: ["beta"],
+      });
+      expect(resolution.competitors[0]?.watchdog).toEqual({
+        wallClockCapMs: 300000,
+      });
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   it("resolves reduce through the shared stage resolver path", async () => {
     const root = await mkdtemp(join(tmpdir(), "voratiq-shared-reduce-"));
     try {
@@ -379,6 +473,7 @@ describe("resolveStageCompetitors", () => {
 async function writeOrchestrationFixture(
   root: string,
   orchestrationLines: readonly string[],
+  agentExtraLines: Readonly<Record<string, readonly string[]>> = {},
 ): Promise<void> {
   await mkdir(join(root, ".voratiq"), { recursive: true });
   await writeFile(
@@ -395,16 +490,19 @@ async function writeOrchestrationFixture(
       '    model: "gpt-5"',
       "    enabled: true",
       '    binary: "/bin/echo"',
+      ...(agentExtraLines.alpha ?? []),
       "  - id: beta",
       '    provider: "codex"',
       '    model: "gpt-5"',
       "    enabled: true",
       '    binary: "/bin/echo"',
+      ...(agentExtraLines.beta ?? []),
       "  - id: gamma",
       '    provider: "codex"',
       '    model: "gpt-5"',
       "    enabled: true",
       '    binary: "/bin/echo"',
+      ...(agentExtraLines.gamma ?? []),
       "",
     ].join("\n"),
     "utf8",
@@ -1,5 +1,5 @@
 import { existsSync } from "node:fs";
-import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -210,6 +210,94 @@ describe("executeSpecCommand integration", () => {
     }
   });
 
+  it("passes repository prompt overlays into the spec adapter and records them", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-spec-prompt-overlays-"));
+    try {
+      await createWorkspace(root);
+      await mkdir(join(root, ".voratiq", "prompts", "agents", "alpha"), {
+        recursive: true,
+      });
+      await writeFile(
+        join(root, ".voratiq", "prompts", "spec.md"),
+        "Keep specs under one page.\n",
+        "utf8",
+      );
+      await writeFile(
+        join(root, ".voratiq", "prompts", "agents", "alpha", "spec.prepend.md"),
+        "Read CONTRIBUTING.md first.\n",
+        "utf8",
+      );
+
+      generateSessionIdMock.mockReturnValue("spec-overlays");
+
+      const createAdapterSpy = jest.spyOn(
+        specAdapter,
+        "createSpecCompetitionAdapter",
+      );
+
+      executeCompetitionWithAdapterMock.mockResolvedValue([
+        {
+          agentId: "alpha",
+          outputPath: "draft.md",
+          dataPath: "draft.json",
+          status: "succeeded",
+          tokenUsageResult: { status: "unavailable" },
+        },
+      ]);
+
+      await executeSpecCommand({
+        root,
+        specsFilePath: join(root, ".voratiq", "specs", "index.json"),
+        description: "Generate spec",
+      });
+
+      expect(createAdapterSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promptOverlays: [
+            expect.objectContaining({
+              path: ".voratiq/prompts/spec.md",
+              position: "append",
+              content: "Keep specs under one page.",
+            }),
+            expect.objectContaining({
+              path: ".voratiq/prompts/agents/alpha/spec.prepend.md",
+              position: "prepend",
+              agentId: "alpha",
+            }),
+          ],
+        }),
+      );
+      const [record] = await readSpecRecords({
+        root,
+        specsFilePath: join(root, ".voratiq", "specs", "index.json"),
+        predicate: (entry) => entry.sessionId === "spec-overlays",
+      });
+      expect(record?.promptOverlays).toEqual([
+        {
+          path: ".voratiq/prompts/spec.md",
+          position: "append",
+          contentHash: expect.stringMatching(/^sha256:[a-f0-9]{64}$/u),
+          snapshotPath: expect.stringMatching(
+            /^\.voratiq\/spec\/sessions\/spec-overlays\/prompt-overlays\/[a-f0-9]{64}\.md$/u,
+          ),
+        },
+        {
+          path: ".voratiq/prompts/agents/alpha/spec.prepend.md",
+          position: "prepend",
+          agentId: "alpha",
+          contentHash: expect.stringMatching(/^sha256:[a-f0-9]{64}$/u),
+          snapshotPath: expect.stringMatching(
+            /^\.voratiq\/spec\/sessions\/spec-overlays\/prompt-overlays\/[a-f0-9]{64}\.md$/u,
+          ),
+        },
+      ]);
+
+      createAdapterSpy.mockRestore();
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   it("persists provider-native token usage from generation results", async () => {
     const root = await mkdtemp(join(tmpdir(), "voratiq-spec-usage-record-"));
     try {
@@ -0,0 +1,274 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { executeStatsCommand } from "../../../src/commands/stats/command.js";
+import { appendRunRecord } from "../../../src/domain/run/persistence/adapter.js";
+import { appendVerificationRecord } from "../../../src/domain/verify/persistence/adapter.js";
+import { HintedError } from "../../../src/utils/errors.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../../support/factories/run-records.js";
+
+describe("stats command", () => {
+  let root: string;
+
+  function buildInput(
+    filters: Parameters<typeof executeStatsCommand>[0]["filters"] = {},
+  ) {
+    return {
+      root,
+      specsFilePath: join(root, ".voratiq", "spec", "index.json"),
+      runsFilePath: join(root, ".voratiq", "run", "index.json"),
+      reductionsFilePath: join(root, ".voratiq", "reduce", "index.json"),
+      verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
+      messagesFilePath: join(root, ".voratiq", "message", "index.json"),
+      filters,
+    };
+  }
+
+  async function writeWorkspaceFile(
+    path: string,
+    content: string,
+  ): Promise<void> {
+    const absolutePath = join(root, path);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, content, "utf8");
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-stats-test-"));
+    const { runsFilePath, verificationsFilePath } = buildInput();
+
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId: "run-early",
+        createdAt: "2025-10-01T12:00:00.000Z",
+        agents: [
+          createAgentInvocationRecord({
+            agentId: "alpha",
+            tokenUsage: { input_tokens: 1000, output_tokens: 200 },
+          }),
+          createAgentInvocationRecord({
+            agentId: "beta",
+            status: "failed",
+            watchdog: {
+              silenceTimeoutMs: 60_000,
+              wallClockCapMs: 600_000,
+              trigger: "wall-clock",
+            },
+          }),
+        ],
+        applyStatus: {
+          agentId: "alpha",
+          status: "succeeded",
+          appliedAt: "2025-10-01T13:00:00.000Z",
+          ignoredBaseMismatch: false,
+        },
+      }),
+    });
+    await appendRunRecord({
+      root,
+      runsFilePath,
+      record: createRunRecord({
+        runId: "run-late",
+        createdAt: "2025-10-10T12:00:00.000Z",
+        agents: [
+          createAgentInvocationRecord({
+            agentId: "alpha",
+            startedAt: "2025-10-10T12:00:00.000Z",
+            completedAt: "2025-10-10T12:15:00.000Z",
+            tokenUsage: { input_tokens: 500, output_tokens: 100 },
+          }),
+          createAgentInvocationRecord({ agentId: "beta" }),
+          createAgentInvocationRecord({ agentId: "gamma", status: "aborted" }),
+        ],
+      }),
+    });
+
+    const artifactPath =
+      ".voratiq/verify/sessions/verify-late/judge/run-verification/artifacts/result.json";
+    await writeWorkspaceFile(
+      artifactPath,
+      JSON.stringify({
+        method: "rubric",
+        template: "run-verification",
+        verifierId: "judge",
+        generatedAt: "2025-10-11T12:05:00.000Z",
+        status: "succeeded",
+        result: {
+          preferred: "v_bbbbbbbbbb",
+          ranking: ["v_bbbbbbbbbb", "v_aaaaaaaaaa"],
+        },
+      }),
+    );
+    await appendVerificationRecord({
+      root,
+      verificationsFilePath,
+      record: {
+        sessionId: "verify-late",
+        createdAt: "2025-10-11T12:00:00.000Z",
+        startedAt: "2025-10-11T12:00:00.000Z",
+        completedAt: "2025-10-11T12:05:00.000Z",
+        status: "succeeded",
+        target: {
+          kind: "run",
+          sessionId: "run-late",
+          candidateIds: ["alpha", "beta"],
+        },
+        blinded: {
+          enabled: true,
+          aliasMap: { v_aaaaaaaaaa: "alpha", v_bbbbbbbbbb: "beta" },
+        },
+        methods: [
+          {
+            method: "rubric",
+            template: "run-verification",
+            verifierId: "judge",
+            scope: { kind: "run" },
+            status: "succeeded",
+            artifactPath,
+            startedAt: "2025-10-11T12:00:00.000Z",
+            completedAt: "2025-10-11T12:04:00.000Z",
+            tokenUsage: { input_tokens: 300, output_tokens: 50 },
+          },
+        ],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("aggregates success, wins, applies, durations, watchdog triggers, and tokens per agent and stage", async () => {
+    const result = await executeStatsCommand(buildInput());
+
+    expect(result.sessionCount).toBe(3);
+    expect(result.warnings).toEqual([]);
+    expect(
+      result.agents.map((agent) => `${agent.stage}:${agent.agentId}`),
+    ).toEqual(["run:alpha", "run:beta", "run:gamma", "verify:judge"]);
+
+    const [alpha, beta, gamma, judge] = result.agents;
+    expect(alpha).toMatchObject({
+      sessions: 2,
+      successRate: 1,
+      verified: 1,
+      wins: 0,
+      winRate: 0,
+      applied: 1,
+      applyRate: 0.5,
+      medianDurationMs: 10 * 60 * 1000,
+      watchdogTriggers: 0,
+      tokenUsage: { input_tokens: 1500, output_tokens: 300 },
+    });
+    expect(beta).toMatchObject({
+      sessions: 2,
+      completed: 2,
+      succeeded: 1,
+      successRate: 0.5,
+      wins: 1,
+      winRate: 1,
+      applied: 0,
+      watchdogTriggers: 1,
+    });
+    // Aborted work counts as a session but not towards the success rate.
+    expect(gamma).toMatchObject({
+      sessions: 1,
+      completed: 0,
+      successRate: null,
+      winRate: null,
+      medianDurationMs: null,
+    });
+    expect(judge).toMatchObject({
+      sessions: 1,
+      successRate: 1,
+      medianDurationMs: 4 * 60 * 1000,
+      tokenUsage: { input_tokens: 300, output_tokens: 50 },
+    });
+    expect(judge).not.toHaveProperty("applyRate");
+  });
+
+  it("only counts sessions created inside the date range", async () => {
+    const result = await executeStatsCommand(
+      buildInput({
+        since: new Date("2025-10-05T00:00:00.000Z"),
+        until: new Date("2025-10-11T00:00:00.000Z"),
+      }),
+    );
+
+    expect(result.sessionCount).toBe(1);
+    expect(result.filters).toEqual({
+      since: "2025-10-05T00:00:00.000Z",
+      until: "2025-10-11T00:00:00.000Z",
+    });
+    expect(
+      result.agents.map((agent) => `${agent.stage}:${agent.agentId}`),
+    ).toEqual(["run:alpha", "run:beta", "run:gamma"]);
+    expect(result.agents[0]).toMatchObject({
+      sessions: 1,
+      applied: 0,
+      verified: 0,
+      tokenUsage: { input_tokens: 500, output_tokens: 100 },
+    });
+  });
+
+  it("restricts each stage to the agents of an orchestration profile", async () => {
+    await writeWorkspaceFile(
+      ".voratiq/agents.yaml",
+      ["beta", "judge"]
+        .flatMap((id) => [
+          `  - id: ${id}`,
+          '    provider: "codex"',
+          '    model: "gpt-5"',
+          "    enabled: true",
+          '    binary: "/bin/echo"',
+        ])
+        .concat("")
+        .join("\n")
+        .replace(/^/u, "agents:\n"),
+    );
+    await writeWorkspaceFile(
+      ".voratiq/orchestration.yaml",
+      [
+        "profiles:",
+        "  default:",
+        "    spec:",
+        "      agents: []",
+        "    run:",
+        "      agents: []",
+        "    reduce:",
+        "      agents: []",
+        "    verify:",
+        "      agents: []",
+        "  fast:",
+        "    spec:",
+        "      agents: []",
+        "    run:",
+        "      agents:",
+        "        - id: beta",
+        "    reduce:",
+        "      agents: []",
+        "    verify:",
+        "      agents:",
+        "        - id: judge",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await executeStatsCommand(buildInput({ profile: "fast" }));
+
+    expect(
+      result.agents.map((agent) => `${agent.stage}:${agent.agentId}`),
+    ).toEqual(["run:beta", "verify:judge"]);
+    expect(result.filters).toEqual({ profile: "fast" });
+
+    await expect(
+      executeStatsCommand(buildInput({ profile: "missing" })),
+    ).rejects.toBeInstanceOf(HintedError);
+  });
+});
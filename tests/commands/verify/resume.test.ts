@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+
+import {
+  VerifyNotResumableError,
+  VerifySessionActiveError,
+  VerifySessionNotFoundError,
+} from "../../../src/commands/verify/errors.js";
+import { executeVerificationSession } from "../../../src/commands/verify/execution.js";
+import { executeVerifyResumeCommand } from "../../../src/commands/verify/resume.js";
+import { resolveVerifyTarget } from "../../../src/commands/verify/targets.js";
+import { loadVerificationConfig } from "../../../src/configs/verification/loader.js";
+import { removeStaleSharedVerificationInputs } from "../../../src/domain/verify/competition/shared-layout.js";
+import type { VerificationRecord } from "../../../src/domain/verify/model/types.js";
+import {
+  readVerificationRecords,
+  rewriteVerificationRecord,
+} from "../../../src/domain/verify/persistence/adapter.js";
+import { loadOperatorEnvironment } from "../../../src/preflight/environment.js";
+import { prepareConfiguredOperatorReadiness } from "../../../src/preflight/operator.js";
+
+jest.mock("../../../src/commands/verify/execution.js", () => ({
+  executeVerificationSession: jest.fn(),
+}));
+
+jest.mock("../../../src/commands/verify/targets.js", () => ({
+  resolveVerifyTarget: jest.fn(),
+}));
+
+jest.mock("../../../src/configs/verification/loader.js", () => ({
+  loadVerificationConfig: jest.fn(),
+}));
+
+jest.mock("../../../src/domain/verify/competition/shared-layout.js", () => ({
+  removeStaleSharedVerificationInputs: jest.fn(),
+}));
+
+jest.mock("../../../src/domain/verify/persistence/adapter.js", () => ({
+  readVerificationRecords: jest.fn(),
+  rewriteVerificationRecord: jest.fn(),
+}));
+
+jest.mock("../../../src/preflight/environment.js", () => ({
+  loadOperatorEnvironment: jest.fn(),
+}));
+
+jest.mock("../../../src/preflight/operator.js", () => ({
+  prepareConfiguredOperatorReadiness: jest.fn(),
+}));
+
+const executeVerificationSessionMock = jest.mocked(executeVerificationSession);
+const resolveVerifyTargetMock = jest.mocked(resolveVerifyTarget);
+const loadVerificationConfigMock = jest.mocked(loadVerificationConfig);
+const removeStaleSharedVerificationInputsMock = jest.mocked(
+  removeStaleSharedVerificationInputs,
+);
+const readVerificationRecordsMock = jest.mocked(readVerificationRecords);
+const rewriteVerificationRecordMock = jest.mocked(rewriteVerificationRecord);
+const loadOperatorEnvironmentMock = jest.mocked(loadOperatorEnvironment);
+const prepareConfiguredOperatorReadinessMock = jest.mocked(
+  prepareConfiguredOperatorReadiness,
+);
+
+const resumeInput = {
+  root: "/repo",
+  specsFilePath: "/repo/.voratiq/spec/index.json",
+  runsFilePath: "/repo/.voratiq/run/index.json",
+  reductionsFilePath: "/repo/.voratiq/reduce/index.json",
+  messagesFilePath: "/repo/.voratiq/message/index.json",
+  verificationsFilePath: "/repo/.voratiq/verify/index.json",
+  verificationId: "verify-123",
+};
+
+function buildInterruptedVerificationRecord(): VerificationRecord {
+  return {
+    sessionId: "verify-123",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    startedAt: "2026-01-01T00:00:01.000Z",
+    completedAt: "2026-01-01T00:04:00.000Z",
+    status: "aborted",
+    target: {
+      kind: "run",
+      sessionId: "run-123",
+      candidateIds: ["agent-a", "agent-b"],
+    },
+    blinded: {
+      enabled: true,
+      aliasMap: { r_aaaaaaaaaa: "agent-a", r_bbbbbbbbbb: "agent-b" },
+    },
+    methods: [
+      {
+        method: "programmatic",
+        slug: "programmatic",
+        scope: { kind: "run" },
+        status: "succeeded",
+        artifactPath:
+          ".voratiq/verify/sessions/verify-123/programmatic/artifacts/result.json",
+        startedAt: "2026-01-01T00:00:01.000Z",
+        completedAt: "2026-01-01T00:01:00.000Z",
+        costUsd: 0.25,
+      },
+      {
+        method: "rubric",
+        template: "run-verification",
+        verifierId: "reviewer-a",
+        scope: { kind: "run" },
+        status: "succeeded",
+        artifactPath:
+          ".voratiq/verify/sessions/verify-123/reviewer-a/run-verification/artifacts/result.json",
+        startedAt: "2026-01-01T00:01:00.000Z",
+        completedAt: "2026-01-01T00:02:00.000Z",
+      },
+      {
+        method: "rubric",
+        template: "run-verification",
+        verifierId: "reviewer-b",
+        scope: { kind: "run" },
+        status: "aborted",
+        startedAt: "2026-01-01T00:01:00.000Z",
+        completedAt: "2026-01-01T00:04:00.000Z",
+      },
+    ],
+    costUsd: 1.5,
+  };
+}
+
+describe("executeVerifyResumeCommand", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveVerifyTargetMock.mockResolvedValue({
+      baseRevisionSha: "base-sha",
+      competitiveCandidates: [],
+      target: {
+        kind: "run",
+        sessionId: "run-123",
+        candidateIds: ["agent-a", "agent-b"],
+      },
+    } as never);
+    loadVerificationConfigMock.mockReturnValue({
+      run: { programmatic: [], rubric: [{ template: "run-verification" }] },
+    } as never);
+    prepareConfiguredOperatorReadinessMock.mockResolvedValue({
+      issues: [],
+      preProviderIssueCount: 0,
+      agents: [
+        {
+          id: "reviewer-b",
+          provider: "codex",
+          model: "gpt-5",
+          binary: "node",
+          argv: [],
+        },
+      ],
+    } as never);
+    loadOperatorEnvironmentMock.mockReturnValue({});
+    removeStaleSharedVerificationInputsMock.mockResolvedValue(undefined);
+    executeVerificationSessionMock.mockResolvedValue({
+      sessionId: "verify-123",
+    } as VerificationRecord);
+  });
+
+  it("re-runs pending rubric verifiers under the original blinding", async () => {
+    const record = buildInterruptedVerificationRecord();
+    readVerificationRecordsMock.mockResolvedValue([record]);
+
+    await executeVerifyResumeCommand(resumeInput);
+
+    expect(prepareConfiguredOperatorReadinessMock).toHaveBeenCalledWith(
+      expect.objectContaining({ resolvedAgentIds: ["reviewer-b"] }),
+    );
+    expect(resolveVerifyTargetMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        target: { kind: "run", sessionId: "run-123" },
+      }),
+    );
+    expect(removeStaleSharedVerificationInputsMock).toHaveBeenCalledWith({
+      root: "/repo",
+      verificationId: "verify-123",
+    });
+
+    const sessionInput = executeVerificationSessionMock.mock.calls[0]?.[0];
+    expect(sessionInput).toMatchObject({
+      verificationId: "verify-123",
+      aliasMap: record.blinded?.aliasMap,
+      createdAt: record.createdAt,
+      startedAt: record.startedAt,
+    });
+    expect(sessionInput?.completedMethods).toEqual(record.methods.slice(0, 2));
+
+    await sessionInput?.persistRecord();
+    const mutate = rewriteVerificationRecordMock.mock.calls[0]?.[0].mutate;
+    const reopened = mutate?.(record);
+    expect(reopened?.status).toBe("running");
+    expect(reopened?.completedAt).toBeUndefined();
+    expect(reopened?.ownerPid).toBe(process.pid);
+    expect(reopened?.methods).toEqual(record.methods.slice(0, 2));
+    expect(reopened?.costUsd).toBe(0.25);
+    expect(reopened?.resumes).toEqual([
+      { resumedAt: expect.any(String), agentIds: ["reviewer-b"] },
+    ]);
+  });
+
+  it("keeps failed rubric verifiers instead of re-running them", async () => {
+    const record = buildInterruptedVerificationRecord();
+    const failed = {
+      method: "rubric" as const,
+      template: "run-verification",
+      verifierId: "reviewer-c",
+      scope: { kind: "run" as const },
+      status: "failed" as const,
+      startedAt: "2026-01-01T00:01:00.000Z",
+      completedAt: "2026-01-01T00:03:00.000Z",
+      error: "Verifier exited with code 1",
+    };
+    readVerificationRecordsMock.mockResolvedValue([
+      { ...record, methods: [...record.methods, failed] },
+    ]);
+
+    await executeVerifyResumeCommand(resumeInput);
+
+    expect(prepareConfiguredOperatorReadinessMock).toHaveBeenCalledWith(
+      expect.objectContaining({ resolvedAgentIds: ["reviewer-b"] }),
+    );
+    const sessionInput = executeVerificationSessionMock.mock.calls[0]?.[0];
+    expect(sessionInput?.completedMethods).toEqual([
+      ...record.methods.slice(0, 2),
+      failed,
+    ]);
+  });
+
+  it("refuses a running verification without a recorded owner unless forced", async () => {
+    readVerificationRecordsMock.mockResolvedValue([
+      {
+        ...buildInterruptedVerificationRecord(),
+        status: "running",
+        completedAt: undefined,
+      },
+    ]);
+
+    await expect(
+      executeVerifyResumeCommand(resumeInput),
+    ).rejects.toBeInstanceOf(VerifySessionActiveError);
+    expect(removeStaleSharedVerificationInputsMock).not.toHaveBeenCalled();
+
+    await executeVerifyResumeCommand({ ...resumeInput, force: true });
+    expect(executeVerificationSessionMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects verifications where every method already finished", async () => {
+    const record = buildInterruptedVerificationRecord();
+    readVerificationRecordsMock.mockResolvedValue([
+      {
+        ...record,
+        status: "succeeded",
+        methods: record.methods.slice(0, 2),
+      },
+    ]);
+
+    await expect(
+      executeVerifyResumeCommand(resumeInput),
+    ).rejects.toBeInstanceOf(VerifyNotResumableError);
+    expect(executeVerificationSessionMock).not.toHaveBeenCalled();
+  });
+
+  it("reports unknown verification ids", async () => {
+    readVerificationRecordsMock.mockResolvedValue([]);
+
+    await expect(
+      executeVerifyResumeCommand(resumeInput),
+    ).rejects.toBeInstanceOf(VerifySessionNotFoundError);
+  });
+});
@@ -39,6 +39,7 @@ jest.mock("../../../src/configs/verification/loader.js", () => ({
 
 jest.mock("../../../src/domain/verify/competition/programmatic.js", () => ({
   executeAndPersistProgrammaticMethod: jest.fn(),
+  resolveProgrammaticTestReports: jest.fn(),
 }));
 
 jest.mock("../../../src/domain/verify/competition/rubric.js", () => ({
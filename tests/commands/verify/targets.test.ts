@@ -130,6 +130,112 @@ describe("resolveVerifyTarget (run target)", () => {
   });
 });
 
+describe("resolveVerifyTarget (several run targets)", () => {
+  async function seedRuns(
+    root: string,
+    runs: ReadonlyArray<{ runId: string; agentIds: readonly string[] }>,
+  ): Promise<string> {
+    const specPath = "specs/several-runs.md";
+    await mkdir(dirname(join(root, specPath)), { recursive: true });
+    await writeFile(join(root, specPath), "# verify\n", "utf8");
+
+    const runsFilePath = join(root, ".voratiq", "runs", "index.json");
+    for (const { runId, agentIds } of runs) {
+      for (const agentId of agentIds) {
+        await writeWorkspaceArtifact(
+          root,
+          `.voratiq/run/sessions/${runId}/${agentId}/artifacts/diff.patch`,
+          "diff --git a/a b/a\n",
+        );
+      }
+      await appendRunRecord({
+        root,
+        runsFilePath,
+        record: createRunRecord({
+          runId,
+          status: "succeeded",
+          spec: { path: specPath },
+          agents: agentIds.map((agentId) =>
+            createAgentInvocationRecord({ agentId }),
+          ),
+        }),
+      });
+    }
+    return runsFilePath;
+  }
+
+  function resolveRuns(root: string, runsFilePath: string, runIds: string[]) {
+    return resolveVerifyTarget({
+      root,
+      specsFilePath: join(root, ".voratiq", "specs", "index.json"),
+      runsFilePath,
+      reductionsFilePath: join(root, ".voratiq", "reduce", "index.json"),
+      messagesFilePath: join(root, ".voratiq", "message", "index.json"),
+      verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
+      target: { kind: "run", sessionId: runIds[0] ?? "", sessionIds: runIds },
+    });
+  }
+
+  it("judges the candidates of every run together", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-verify-runs-"));
+
+    try {
+      await createWorkspace(root);
+      const runsFilePath = await seedRuns(root, [
+        { runId: "run-fast", agentIds: ["agent-a"] },
+        { runId: "run-thorough", agentIds: ["agent-c", "agent-b"] },
+      ]);
+
+      const resolved = await resolveRuns(root, runsFilePath, [
+        "run-fast",
+        "run-thorough",
+      ]);
+
+      expect(resolved.target).toEqual({
+        kind: "run",
+        sessionId: "run-fast",
+        candidateIds: ["agent-a", "agent-b", "agent-c"],
+        runs: [
+          { sessionId: "run-fast", candidateIds: ["agent-a"] },
+          { sessionId: "run-thorough", candidateIds: ["agent-b", "agent-c"] },
+        ],
+      });
+      expect(
+        resolved.competitiveCandidates.map(
+          (candidate) => candidate.canonicalId,
+        ),
+      ).toEqual(["agent-a", "agent-b", "agent-c"]);
+      expect(
+        "runRecords" in resolved
+          ? resolved.runRecords?.map((record) => record.runId)
+          : undefined,
+      ).toEqual(["run-fast", "run-thorough"]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects runs that share a candidate agent", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-verify-runs-overlap-"));
+
+    try {
+      await createWorkspace(root);
+      const runsFilePath = await seedRuns(root, [
+        { runId: "run-fast", agentIds: ["agent-a"] },
+        { runId: "run-thorough", agentIds: ["agent-a"] },
+      ]);
+
+      await expect(
+        resolveRuns(root, runsFilePath, ["run-fast", "run-thorough"]),
+      ).rejects.toThrow(
+        /`agent-a` is a candidate in both run `run-fast` and run `run-thorough`/u,
+      );
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
 describe("resolveVerifyTarget (spec target)", () => {
   it("rejects spec sessions with missing retained draft artifacts", async () => {
     const root = await mkdtemp(join(tmpdir(), "voratiq-verify-spec-missing-"));
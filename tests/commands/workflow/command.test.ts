@@ -0,0 +1,316 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  executeWorkflowCommand,
+  type WorkflowCommandDependencies,
+  type WorkflowStageResult,
+} from "../../../src/commands/workflow/command.js";
+import { readWorkflowsConfig } from "../../../src/configs/workflows/loader.js";
+import type { Workflow } from "../../../src/configs/workflows/types.js";
+import { readWorkflowRecords } from "../../../src/domain/workflow/persistence/adapter.js";
+
+function stageResult(
+  overrides: Partial<WorkflowStageResult> = {},
+): WorkflowStageResult {
+  return { status: "succeeded", body: "", ...overrides };
+}
+
+function createDependencies(
+  overrides: Partial<WorkflowCommandDependencies> = {},
+): WorkflowCommandDependencies {
+  return {
+    runSpecStage: jest.fn(() => Promise.resolve(stageResult())),
+    runMessageStage: jest.fn(() => Promise.resolve(stageResult())),
+    runRunStage: jest.fn(() => Promise.resolve(stageResult())),
+    runReduceStage: jest.fn(() => Promise.resolve(stageResult())),
+    runVerifyStage: jest.fn(() => Promise.resolve(stageResult())),
+    runApplyStage: jest.fn(() => Promise.resolve(stageResult())),
+    ...overrides,
+  };
+}
+
+function parseWorkflow(yaml: string): Workflow {
+  const workflow = readWorkflowsConfig(yaml).workflows.pipeline;
+  if (!workflow) {
+    throw new Error("missing workflow");
+  }
+  return workflow;
+}
+
+describe("executeWorkflowCommand", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-workflow-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("feeds each stage the sessions it reads from and links them in the record", async () => {
+    const workflow = parseWorkflow(`
+workflows:
+  pipeline:
+    stages:
+      - id: ask
+        operator: message
+        prompt: How should this work?
+      - id: synthesize
+        operator: reduce
+        from: ask
+        agents: [reducer]
+      - id: draft
+        operator: spec
+        description: Add backlinks
+        from: synthesize
+      - id: fast
+        operator: run
+        from: draft
+        profile: fast
+      - id: thorough
+        operator: run
+        from: draft
+        profile: thorough
+      - id: judge
+        operator: verify
+        from: [fast, thorough]
+      - id: land
+        operator: apply
+        from: judge
+        commit: true
+`);
+    const dependencies = createDependencies({
+      runMessageStage: jest.fn(() =>
+        Promise.resolve(
+          stageResult({
+            sessionId: "message-1",
+            outputPaths: ["message/alpha/response.md"],
+          }),
+        ),
+      ),
+      runReduceStage: jest.fn(() =>
+        Promise.resolve(
+          stageResult({
+            sessionId: "reduce-1",
+            outputPaths: ["reduce/alpha/reduction.md"],
+          }),
+        ),
+      ),
+      runSpecStage: jest.fn(() =>
+        Promise.resolve(
+          stageResult({ sessionId: "spec-1", specPath: "specs/backlinks.md" }),
+        ),
+      ),
+      runRunStage: jest
+        .fn()
+        .mockResolvedValueOnce(stageResult({ sessionId: "run-fast" }))
+        .mockResolvedValueOnce(stageResult({ sessionId: "run-thorough" })),
+      runVerifyStage: jest.fn(() =>
+        Promise.resolve(
+          stageResult({
+            sessionId: "verify-1",
+            selection: {
+              state: "resolvable",
+              applyable: true,
+              selectedCanonicalAgentId: "beta",
+              unresolvedReasons: [],
+            },
+            selectedRunId: "run-fast",
+          }),
+        ),
+      ),
+    });
+
+    const result = await executeWorkflowCommand(
+      { root, name: "pipeline", workflow },
+      dependencies,
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(dependencies.runReduceStage).toHaveBeenCalledWith({
+      agentIds: ["reducer"],
+      targets: [{ type: "message", id: "message-1" }],
+    });
+    expect(dependencies.runSpecStage).toHaveBeenCalledWith({
+      description: "Add backlinks",
+      extraContext: ["reduce/alpha/reduction.md"],
+    });
+    expect(dependencies.runRunStage).toHaveBeenNthCalledWith(1, {
+      profile: "fast",
+      specPath: "specs/backlinks.md",
+    });
+    expect(dependencies.runVerifyStage).toHaveBeenCalledWith({
+      target: {
+        kind: "run",
+        sessionId: "run-fast",
+        sessionIds: ["run-fast", "run-thorough"],
+      },
+    });
+    expect(dependencies.runApplyStage).toHaveBeenCalledWith({
+      runId: "run-fast",
+      agentId: "beta",
+      commit: true,
+    });
+
+    const [record] = await readWorkflowRecords({ root });
+    expect(record).toMatchObject({
+      sessionId: result.record.sessionId,
+      workflow: "pipeline",
+      status: "succeeded",
+    });
+    expect(
+      record?.stages.map((stage) => [stage.id, stage.status, stage.sessionId]),
+    ).toEqual([
+      ["ask", "succeeded", "message-1"],
+      ["synthesize", "succeeded", "reduce-1"],
+      ["draft", "succeeded", "spec-1"],
+      ["fast", "succeeded", "run-fast"],
+      ["thorough", "succeeded", "run-thorough"],
+      ["judge", "succeeded", "verify-1"],
+      ["land", "succeeded", "run-fast"],
+    ]);
+    expect(record?.stages[5]).toMatchObject({ selection: "resolvable" });
+    expect(record?.stages[6]).toMatchObject({ agentId: "beta" });
+  });
+
+  it("stops at an unresolved verification unless the stage continues", async () => {
+    const workflow = parseWorkflow(`
+workflows:
+  pipeline:
+    stages:
+      - id: build
+        operator: run
+        spec: specs/task.md
+      - id: judge
+        operator: verify
+        from: build
+      - id: summarize
+        operator: reduce
+        from: [build, judge]
+`);
+    const unresolved = stageResult({
+      sessionId: "verify-1",
+      selection: {
+        state: "unresolved",
+        applyable: false,
+        unresolvedReasons: [
+          { code: "no_successful_verifiers", failedVerifierAgentIds: [] },
+        ],
+      },
+    });
+    const dependencies = createDependencies({
+      runRunStage: jest.fn(() =>
+        Promise.resolve(stageResult({ sessionId: "run-1" })),
+      ),
+      runVerifyStage: jest.fn(() => Promise.resolve(unresolved)),
+    });
+
+    const result = await executeWorkflowCommand(
+      { root, name: "pipeline", workflow },
+      dependencies,
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.record.status).toBe("action_required");
+    expect(result.record.stages.map((stage) => stage.status)).toEqual([
+      "succeeded",
+      "succeeded",
+      "skipped",
+    ]);
+    expect(dependencies.runReduceStage).not.toHaveBeenCalled();
+
+    const continued = await executeWorkflowCommand(
+      {
+        root,
+        name: "pipeline",
+        workflow: {
+          ...workflow,
+          stages: workflow.stages.map((stage) =>
+            stage.operator === "verify"
+              ? { ...stage, onUnresolved: "continue" as const }
+              : stage,
+          ),
+        },
+      },
+      dependencies,
+    );
+
+    expect(continued.record.status).toBe("succeeded");
+    expect(dependencies.runReduceStage).toHaveBeenCalledWith({
+      targets: [
+        { type: "run", id: "run-1" },
+        { type: "verify", id: "verify-1" },
+      ],
+    });
+  });
+
+  it("marks the workflow failed and skips later stages when a stage throws", async () => {
+    const workflow = parseWorkflow(`
+workflows:
+  pipeline:
+    stages:
+      - id: draft
+        operator: spec
+        description: Add backlinks
+      - id: build
+        operator: run
+        from: draft
+`);
+    const dependencies = createDependencies({
+      runSpecStage: jest.fn(() => Promise.reject(new Error("agents failed"))),
+    });
+
+    const result = await executeWorkflowCommand(
+      { root, name: "pipeline", workflow },
+      dependencies,
+    );
+
+    expect(result.record.status).toBe("failed");
+    expect(result.record.stages).toEqual([
+      expect.objectContaining({
+        id: "draft",
+        status: "failed",
+        detail: "agents failed",
+      }),
+      expect.objectContaining({ id: "build", status: "skipped" }),
+    ]);
+  });
+
+  it("rejects profiles that share a run agent before any stage starts", async () => {
+    const workflow = parseWorkflow(`
+workflows:
+  pipeline:
+    stages:
+      - id: fast
+        operator: run
+        spec: specs/task.md
+        profile: fast
+      - id: thorough
+        operator: run
+        spec: specs/task.md
+        profile: thorough
+      - id: judge
+        operator: verify
+        from: [fast, thorough]
+`);
+    const dependencies = createDependencies({
+      resolveRunStageAgentIds: jest.fn((input) =>
+        input.profile === "fast" ? ["alpha", "beta"] : ["beta", "gamma"],
+      ),
+    });
+
+    await expect(
+      executeWorkflowCommand(
+        { root, name: "pipeline", workflow },
+        dependencies,
+      ),
+    ).rejects.toThrow(
+      "Agent `beta` runs in both stage `fast` and stage `thorough`, which stage `judge` verifies together.",
+    );
+    expect(dependencies.runRunStage).not.toHaveBeenCalled();
+    await expect(readWorkflowRecords({ root })).resolves.toEqual([]);
+  });
+});
@@ -217,4 +217,42 @@ describe("competition core", () => {
     expect(cleaned).toEqual(["first", "second", "third"]);
     expect(finalizeCompetition).toHaveBeenCalledTimes(1);
   });
+
+  it("records skipped results without executing and still cleans them up", async () => {
+    const prepared = ["alpha", "beta", "gamma"] as const;
+    const executed: string[] = [];
+    const completed: string[] = [];
+    const cleaned: string[] = [];
+
+    const results = await runPreparedWithLimit<
+      (typeof prepared)[number],
+      CompetitionResult
+    >({
+      prepared,
+      maxParallel: 1,
+      skipPrepared: (entry) =>
+        executed.length >= 1
+          ? { id: entry, status: "failed", reason: "budget reached" }
+          : undefined,
+      executePrepared: (entry) => {
+        executed.push(entry);
+        return { id: entry, status: "succeeded" };
+      },
+      onPreparedCompleted: (entry) => {
+        completed.push(entry);
+      },
+      cleanupPrepared: (entry) => {
+        cleaned.push(entry);
+      },
+    });
+
+    expect(executed).toEqual(["alpha"]);
+    expect(completed).toEqual(["alpha", "beta", "gamma"]);
+    expect(cleaned).toEqual(["alpha", "beta", "gamma"]);
+    expect(results).toEqual([
+      { id: "alpha", status: "succeeded" },
+      { id: "beta", status: "failed", reason: "budget reached" },
+      { id: "gamma", status: "failed", reason: "budget reached" },
+    ]);
+  });
 });
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { executeCompetitionWithAdapter } from "../../../src/competition/command-adapter.js";
+import {
+  applyCostBudget,
+  createCostBudget,
+} from "../../../src/competition/shared/cost-budget.js";
+
+interface Execution {
+  id: string;
+  status: "succeeded" | "skipped";
+  costUsd?: number;
+  reason?: string;
+}
+
+describe("createCostBudget", () => {
+  it("accumulates priced costs and ignores unpriced ones", () => {
+    const budget = createCostBudget(1);
+
+    budget.record(0.4);
+    budget.record(undefined);
+    expect(budget.getSpentUsd()).toBeCloseTo(0.4);
+    expect(budget.isExhausted()).toBe(false);
+
+    budget.record(0.6);
+    expect(budget.isExhausted()).toBe(true);
+    expect(budget.describeExhaustion()).toBe(
+      "Skipped: cost budget of $1.00 reached ($1.00 spent).",
+    );
+  });
+});
+
+describe("applyCostBudget", () => {
+  it("skips candidates that have not started once the budget is spent", async () => {
+    const costs: Record<string, number | undefined> = {
+      a: 0.75,
+      b: 0.5,
+      c: 0.1,
+    };
+    const executed: string[] = [];
+    const completed: string[] = [];
+
+    const results = await executeCompetitionWithAdapter<
+      string,
+      string,
+      Execution
+    >({
+      candidates: ["a", "b", "c"],
+      maxParallel: 1,
+      adapter: applyCostBudget(
+        {
+          prepareCandidates: (candidates) => ({
+            ready: candidates,
+            failures: [],
+          }),
+          executeCandidate: (id): Execution => {
+            executed.push(id);
+            return { id, status: "succeeded", costUsd: costs[id] };
+          },
+          onCandidateCompleted: (id) => {
+            completed.push(id);
+          },
+        },
+        {
+          budget: createCostBudget(1),
+          resolveCostUsd: (result) => result.costUsd,
+          buildSkippedResult: (id, reason): Execution => ({
+            id,
+            status: "skipped",
+            reason,
+          }),
+        },
+      ),
+    });
+
+    expect(executed).toEqual(["a", "b"]);
+    expect(completed).toEqual(["a", "b", "c"]);
+    expect(results[2]).toEqual({
+      id: "c",
+      status: "skipped",
+      reason: "Skipped: cost budget of $1.00 reached ($1.25 spent).",
+    });
+  });
+
+  it("returns the adapter unchanged without a budget", () => {
+    const adapter = {
+      prepareCandidates: () => ({ ready: [], failures: [] }),
+      executeCandidate: (): Execution => ({ id: "a", status: "succeeded" }),
+    };
+
+    expect(
+      applyCostBudget(adapter, {
+        resolveCostUsd: () => undefined,
+        buildSkippedResult: (): Execution => ({ id: "a", status: "skipped" }),
+      }),
+    ).toBe(adapter);
+  });
+});
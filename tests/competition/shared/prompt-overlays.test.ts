@@ -0,0 +1,240 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import {
+  applyPromptOverlays,
+  buildPersistedPromptOverlays,
+  mergeResumedPromptOverlays,
+  resolvePromptOverlays,
+  snapshotPromptOverlays,
+} from "../../../src/competition/shared/prompt-overlays.js";
+
+describe("prompt overlays", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-prompt-overlays-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeOverlay(path: string, content: string): Promise<void> {
+    const absolutePath = join(root, ".voratiq", "prompts", path);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, content, "utf8");
+  }
+
+  it("resolves stage and agent overlays and skips missing or blank files", async () => {
+    await writeOverlay("run.md", "Use conventional commits.\n");
+    await writeOverlay("run.prepend.md", "Never edit `vendor/`.");
+    await writeOverlay("verify.md", "Unrelated stage.");
+    await writeOverlay("agents/claude/run.md", "Prefer small diffs.");
+    await writeOverlay("agents/codex/run.md", "   \n");
+    await writeOverlay("agents/gemini/run.md", "Not participating.");
+
+    const overlays = await resolvePromptOverlays({
+      root,
+      stage: "run",
+      agentIds: ["claude", "codex"],
+    });
+
+    expect(
+      overlays.map(({ path, position, agentId, content }) => ({
+        path,
+        position,
+        agentId,
+        content,
+      })),
+    ).toEqual([
+      {
+        path: ".voratiq/prompts/run.prepend.md",
+        position: "prepend",
+        agentId: undefined,
+        content: "Never edit `vendor/`.",
+      },
+      {
+        path: ".voratiq/prompts/run.md",
+        position: "append",
+        agentId: undefined,
+        content: "Use conventional commits.",
+      },
+      {
+        path: ".voratiq/prompts/agents/claude/run.md",
+        position: "append",
+        agentId: "claude",
+        content: "Prefer small diffs.",
+      },
+    ]);
+    expect(overlays[0]?.contentHash).toMatch(/^sha256:[a-f0-9]{64}$/u);
+  });
+
+  it("wraps the prompt with the overlays that apply to each agent", async () => {
+    await writeOverlay("spec.prepend.md", "Shared preamble.");
+    await writeOverlay("spec.md", "Shared closing.");
+    await writeOverlay("agents/claude/spec.prepend.md", "Claude preamble.");
+    await writeOverlay("agents/claude/spec.md", "Claude closing.");
+
+    const overlays = await resolvePromptOverlays({
+      root,
+      stage: "spec",
+      agentIds: ["claude", "codex"],
+    });
+
+    expect(
+      applyPromptOverlays({
+        prompt: "Generated prompt.\n",
+        overlays,
+        agentId: "claude",
+      }),
+    ).toBe(
+      [
+        "Shared preamble.",
+        "Claude preamble.",
+        "Generated prompt.",
+        "Shared closing.",
+        "Claude closing.",
+      ].join("\n\n"),
+    );
+    expect(
+      applyPromptOverlays({
+        prompt: "Generated prompt.",
+        overlays,
+        agentId: "codex",
+      }),
+    ).toBe("Shared preamble.\n\nGenerated prompt.\n\nShared closing.");
+    expect(
+      applyPromptOverlays({
+        prompt: "Untouched.\n",
+        overlays: [],
+        agentId: "x",
+      }),
+    ).toBe("Untouched.\n");
+  });
+
+  it("records overlays without their content", async () => {
+    await writeOverlay("agents/claude/message.md", "Answer tersely.");
+
+    const overlays = await resolvePromptOverlays({
+      root,
+      stage: "message",
+      agentIds: ["claude"],
+    });
+
+    expect(buildPersistedPromptOverlays([])).toEqual({});
+    expect(buildPersistedPromptOverlays(overlays)).toEqual({
+      promptOverlays: [
+        {
+          path: ".voratiq/prompts/agents/claude/message.md",
+          position: "append",
+          agentId: "claude",
+          contentHash: overlays[0]?.contentHash,
+        },
+      ],
+    });
+  });
+
+  it("saves a content-addressed copy of each overlay in the session directory", async () => {
+    await writeOverlay("run.md", "Use conventional commits.");
+
+    const overlays = await snapshotPromptOverlays({
+      root,
+      stage: "run",
+      sessionId: "20251019-120000-abcde",
+      overlays: await resolvePromptOverlays({
+        root,
+        stage: "run",
+        agentIds: ["claude"],
+      }),
+    });
+    const digest = overlays[0]?.contentHash.slice("sha256:".length);
+    const snapshotPath = `.voratiq/run/sessions/20251019-120000-abcde/prompt-overlays/${digest}.md`;
+
+    expect(buildPersistedPromptOverlays(overlays).promptOverlays).toEqual([
+      {
+        path: ".voratiq/prompts/run.md",
+        position: "append",
+        contentHash: overlays[0]?.contentHash,
+        snapshotPath,
+      },
+    ]);
+
+    await writeOverlay("run.md", "Edited later.");
+    await expect(readFile(join(root, snapshotPath), "utf8")).resolves.toBe(
+      "Use conventional commits.\n",
+    );
+  });
+
+  it("keeps recorded overlays for agents a resume does not re-run", () => {
+    const hash = (digit: string) => `sha256:${digit.repeat(64)}`;
+    const shared = {
+      path: ".voratiq/prompts/run.md",
+      position: "append" as const,
+      contentHash: hash("1"),
+    };
+    const alpha = {
+      path: ".voratiq/prompts/agents/alpha/run.md",
+      position: "append" as const,
+      agentId: "alpha",
+      contentHash: hash("2"),
+    };
+    const recorded = [
+      shared,
+      alpha,
+      {
+        path: ".voratiq/prompts/agents/beta/run.md",
+        position: "append" as const,
+        agentId: "beta",
+        contentHash: hash("3"),
+      },
+    ];
+
+    expect(
+      mergeResumedPromptOverlays({
+        recorded,
+        resumed: [shared],
+        resumedAgentIds: ["beta"],
+        keptAgentIds: ["alpha"],
+      }),
+    ).toEqual([shared, alpha]);
+
+    expect(
+      mergeResumedPromptOverlays({
+        recorded,
+        resumed: [
+          {
+            path: ".voratiq/prompts/run.md",
+            position: "append",
+            contentHash: hash("4"),
+          },
+        ],
+        resumedAgentIds: ["beta"],
+        keptAgentIds: ["alpha"],
+      }),
+    ).toEqual([
+      {
+        path: ".voratiq/prompts/run.md",
+        position: "append",
+        agentId: "alpha",
+        contentHash: hash("1"),
+      },
+      {
+        path: ".voratiq/prompts/run.md",
+        position: "append",
+        agentId: "beta",
+        contentHash: hash("4"),
+      },
+      alpha,
+    ]);
+    expect(
+      mergeResumedPromptOverlays({
+        resumedAgentIds: ["beta"],
+        keptAgentIds: [],
+      }),
+    ).toBeUndefined();
+  });
+});
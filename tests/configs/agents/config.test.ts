@@ -155,6 +155,51 @@ agents:
     );
   });
 
+  it("carries watchdog limits onto the agent definition", () => {
+    withTempWorkspace(
+      ({ createBinary }) => {
+        const codexBinary = createBinary("bin/codex");
+        return `
+agents:
+  - id: codex
+    provider: codex
+    model: o4-mini
+    binary: ${codexBinary}
+    watchdog:
+      wallClockCapMs: 14400000
+      killGraceMs: 10000
+`;
+      },
+      (root) => {
+        const [codex] = loadAgentCatalog({ root });
+        expect(codex?.watchdog).toEqual({
+          wallClockCapMs: 14400000,
+          killGraceMs: 10000,
+        });
+      },
+    );
+  });
+
+  it("rejects non-positive watchdog limits", () => {
+    withTempWorkspace(
+      ({ createBinary }) => {
+        const codexBinary = createBinary("bin/codex");
+        return `
+agents:
+  - id: codex
+    provider: codex
+    model: o4-mini
+    binary: ${codexBinary}
+    watchdog:
+      silenceTimeoutMs: 0
+`;
+      },
+      (root) => {
+        expect(() => loadAgentCatalog({ root })).toThrow(/greater than zero/u);
+      },
+    );
+  });
+
   it("rejects empty extraArgs arrays", () => {
     withTempWorkspace(
       ({ createBinary }) => {
@@ -313,6 +358,43 @@ agents:
     );
   });
 
+  it("uses argv from custom providers declared in providers.yaml", () => {
+    withTempWorkspace(
+      ({ root, createBinary }) => {
+        writeFileSync(
+          join(root, ".voratiq", "providers.yaml"),
+          `
+providers:
+  - id: mystic
+    argv: ["run", "--model", "{{MODEL}}", "--yes"]
+`,
+          "utf8",
+        );
+        const customBinary = createBinary("bin/mystic");
+        return `
+agents:
+  - id: mystic-large
+    provider: mystic
+    model: mystic-large
+    binary: ${customBinary}
+    extraArgs: ["--quiet"]
+`;
+      },
+      (root) => {
+        const [agent] = loadAgentCatalog({ root });
+
+        expect(agent.provider).toBe("mystic");
+        expect(agent.argv).toEqual([
+          "run",
+          "--model",
+          "mystic-large",
+          "--yes",
+          "--quiet",
+        ]);
+      },
+    );
+  });
+
   it("throws when provider reference is unknown", () => {
     withTempWorkspace(
       ({ createBinary }) => {
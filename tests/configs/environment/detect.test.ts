@@ -9,6 +9,7 @@ import {
 import {
   getNodeDependencyRoots,
   getPythonEnvironmentPath,
+  getToolchainPaths,
 } from "../../../src/configs/environment/types.js";
 
 async function createTempProject(): Promise<{
@@ -67,4 +68,36 @@ describe("detectEnvironmentConfig", () => {
       await cleanup();
     }
   });
+
+  it("reports toolchain caches that exist next to their markers", async () => {
+    const { root, cleanup } = await createTempProject();
+
+    try {
+      await writeFile(join(root, "go.mod"), "module example.com/app\n", "utf8");
+      await mkdir(join(root, ".gomodcache"));
+      await writeFile(join(root, "Gemfile"), 'gem "rspec"\n', "utf8");
+      await mkdir(join(root, ".bundle"));
+      await writeFile(
+        join(root, ".bundle", "config"),
+        '---\nBUNDLE_PATH: "gems"\n',
+        "utf8",
+      );
+      await mkdir(join(root, "gems"));
+      await mkdir(join(root, "target"));
+
+      const result = await detectEnvironmentConfig({
+        root,
+        interactive: false,
+      });
+
+      expect(result.detectedEntries).toContain("go.modCache=.gomodcache");
+      expect(result.detectedEntries).toContain("ruby.bundlePath=gems");
+      expect(getToolchainPaths(result.config, "go")).toEqual({
+        modCache: ".gomodcache",
+      });
+      expect(getToolchainPaths(result.config, "rust")).toEqual({});
+    } finally {
+      await cleanup();
+    }
+  });
 });
@@ -1,8 +1,11 @@
 import { describe, expect, it } from "@jest/globals";
 
 import {
+  environmentGoConfigSchema,
   environmentNodeConfigSchema,
   environmentPythonConfigSchema,
+  environmentRustConfigSchema,
+  listToolchainPathEntries,
 } from "../../../src/configs/environment/types.js";
 
 describe("environment config schemas", () => {
@@ -63,4 +66,53 @@ describe("environment config schemas", () => {
       'Invalid python.path "<empty>"',
     );
   });
+
+  it("accepts repo-relative toolchain cache paths", () => {
+    const result = environmentRustConfigSchema.safeParse({
+      cargoHome: ".cargo-home",
+      targetDir: "target",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects absolute toolchain cache paths", () => {
+    const result = environmentGoConfigSchema.safeParse({
+      modCache: "/root/go/pkg/mod",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toContain(
+      'Invalid go.modCache "/root/go/pkg/mod"',
+    );
+  });
+
+  it("rejects toolchain entries without any cache path", () => {
+    const result = environmentRustConfigSchema.safeParse({});
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toContain(
+      "rust must set at least one of: cargoHome, targetDir.",
+    );
+  });
+
+  it("lists toolchain cache paths and skips disabled toolchains", () => {
+    expect(
+      listToolchainPathEntries({
+        go: { modCache: ".gomodcache" },
+        rust: false,
+        java: { mavenRepository: ".m2/repository" },
+      }),
+    ).toEqual([
+      {
+        toolchain: "go",
+        field: "modCache",
+        key: "go.modCache",
+        path: ".gomodcache",
+      },
+      {
+        toolchain: "java",
+        field: "mavenRepository",
+        key: "java.mavenRepository",
+        path: ".m2/repository",
+      },
+    ]);
+  });
 });
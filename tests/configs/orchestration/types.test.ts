@@ -30,4 +30,27 @@ describe("orchestration types", () => {
 
     expect(result.error.issues[0]?.path).toEqual(["reduce"]);
   });
+
+  test("accepts watchdog limits at the profile and stage level", () => {
+    const result = orchestrationProfileSchema.safeParse({
+      watchdog: { silenceTimeoutMs: 60_000 },
+      spec: { agents: [] },
+      run: { agents: [], watchdog: { wallClockCapMs: 14_400_000 } },
+      reduce: { agents: [] },
+      verify: { agents: [] },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects unknown watchdog keys", () => {
+    const result = orchestrationProfileSchema.safeParse({
+      spec: { agents: [] },
+      run: { agents: [], watchdog: { hardAbortMs: 1_000 } },
+      reduce: { agents: [] },
+      verify: { agents: [] },
+    });
+
+    expect(result.success).toBe(false);
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { DEFAULT_PRICING_TABLE } from "../../../src/configs/pricing/defaults.js";
+import { PricingConfigError } from "../../../src/configs/pricing/errors.js";
+import {
+  loadPricingTable,
+  readPricingConfig,
+} from "../../../src/configs/pricing/loader.js";
+
+describe("pricing config loader", () => {
+  it("treats an empty file as no overrides", () => {
+    expect(readPricingConfig("")).toEqual({ providers: {} });
+  });
+
+  it("rejects negative prices and unknown fields", () => {
+    expect(() =>
+      readPricingConfig(`
+providers:
+  codex:
+    gpt-5.2:
+      input: -1
+      output: 14
+`),
+    ).toThrow(PricingConfigError);
+    expect(() =>
+      readPricingConfig(`
+providers:
+  codex:
+    gpt-5.2:
+      input: 1
+      output: 14
+      batch: 0.5
+`),
+    ).toThrow(PricingConfigError);
+  });
+
+  it("returns the built-in table when the file is missing", () => {
+    expect(
+      loadPricingTable({
+        root: "/repo",
+        readFile: () => {
+          throw Object.assign(new Error("missing"), { code: "ENOENT" });
+        },
+      }),
+    ).toEqual(DEFAULT_PRICING_TABLE);
+  });
+
+  it("overlays configured models onto the built-in table", () => {
+    const table = loadPricingTable({
+      root: "/repo",
+      readFile: () => `
+providers:
+  codex:
+    gpt-5.2:
+      input: 2
+      output: 16
+  custom:
+    local-model:
+      input: 0
+      output: 0
+`,
+    });
+
+    expect(table.codex?.["gpt-5.2"]).toEqual({ input: 2, output: 16 });
+    expect(table.codex?.["gpt-5.3-codex"]).toEqual(
+      DEFAULT_PRICING_TABLE.codex?.["gpt-5.3-codex"],
+    );
+    expect(table.custom?.["local-model"]).toEqual({ input: 0, output: 0 });
+    expect(table.claude).toEqual(DEFAULT_PRICING_TABLE.claude);
+  });
+});
@@ -0,0 +1,130 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it, jest } from "@jest/globals";
+
+import { ProvidersConfigError } from "../../../src/configs/providers/errors.js";
+import {
+  loadProviderDefinitions,
+  readProvidersConfig,
+  resolveProviderDefinition,
+} from "../../../src/configs/providers/loader.js";
+
+const MINIMAL_PROVIDER = `
+providers:
+  - id: mystic
+    argv: ["run", "--model", "{{MODEL}}"]
+`;
+
+describe("providers config loader", () => {
+  it("fills defaults for optional sections", () => {
+    expect(readProvidersConfig(MINIMAL_PROVIDER).providers).toEqual([
+      {
+        id: "mystic",
+        argv: ["run", "--model", "{{MODEL}}"],
+        auth: { files: [], env: [] },
+        env: {},
+        network: { allowedDomains: [] },
+        fatalPatterns: [],
+      },
+    ]);
+  });
+
+  it("rejects ids that shadow built-in providers", () => {
+    expect(() =>
+      readProvidersConfig(`
+providers:
+  - id: codex
+    argv: ["--model", "{{MODEL}}"]
+`),
+    ).toThrow(/cannot shadow a built-in provider/u);
+  });
+
+  it("rejects argv without the model placeholder", () => {
+    expect(() =>
+      readProvidersConfig(`
+providers:
+  - id: mystic
+    argv: ["run"]
+`),
+    ).toThrow(ProvidersConfigError);
+  });
+
+  it("rejects auth files outside the home directory and invalid patterns", () => {
+    expect(() =>
+      readProvidersConfig(`
+providers:
+  - id: mystic
+    argv: ["--model", "{{MODEL}}"]
+    auth:
+      files:
+        - source: ../etc/passwd
+`),
+    ).toThrow(/auth\.files\.0\.source/u);
+    expect(() =>
+      readProvidersConfig(`
+providers:
+  - id: mystic
+    argv: ["--model", "{{MODEL}}"]
+    fatalPatterns:
+      - pattern: "(unclosed"
+`),
+    ).toThrow(/valid regular expressions/u);
+  });
+
+  it("requires chat capture when usage is mapped", () => {
+    expect(() =>
+      readProvidersConfig(`
+providers:
+  - id: mystic
+    argv: ["--model", "{{MODEL}}"]
+    usage:
+      fields:
+        input: prompt_tokens
+`),
+    ).toThrow(/usage requires chat/u);
+  });
+
+  it("rejects duplicate provider ids", () => {
+    expect(() =>
+      readProvidersConfig(`${MINIMAL_PROVIDER}
+  - id: mystic
+    argv: ["--model", "{{MODEL}}"]
+`),
+    ).toThrow("Duplicate provider id `mystic`");
+  });
+
+  it("returns no providers when the file is missing", () => {
+    const readFile = () => {
+      throw Object.assign(new Error("missing"), { code: "ENOENT" });
+    };
+    expect(loadProviderDefinitions({ root: "/repo", readFile })).toEqual([]);
+    expect(
+      resolveProviderDefinition("mystic", { root: "/repo", readFile }),
+    ).toBeUndefined();
+  });
+
+  it("never reads the file for built-in providers", () => {
+    const readFile = jest.fn(() => "providers: [broken");
+    expect(
+      resolveProviderDefinition("codex", { root: "/repo", readFile }),
+    ).toBeUndefined();
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it("parses the file once per path", () => {
+    const root = mkdtempSync(join(tmpdir(), "voratiq-providers-"));
+    try {
+      mkdirSync(join(root, ".voratiq"));
+      const filePath = join(root, ".voratiq", "providers.yaml");
+      writeFileSync(filePath, MINIMAL_PROVIDER, "utf8");
+      expect(resolveProviderDefinition("mystic", { root })?.id).toBe("mystic");
+
+      writeFileSync(filePath, "providers: []\n", "utf8");
+      expect(resolveProviderDefinition("mystic", { root })?.id).toBe("mystic");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
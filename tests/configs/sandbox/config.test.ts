@@ -1,7 +1,14 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 import { beforeEach, describe, expect, test } from "@jest/globals";
 
 import { SandboxConfigurationError } from "../../../src/configs/sandbox/errors.js";
-import { loadSandboxConfiguration } from "../../../src/configs/sandbox/loader.js";
+import {
+  loadSandboxConfiguration,
+  loadSandboxProviderConfig,
+} from "../../../src/configs/sandbox/loader.js";
 import * as fsUtils from "../../../src/utils/fs.js";
 import {
   clearSandboxConfigurationCache,
@@ -197,6 +204,116 @@ providers:
       "allowed.example.com",
     ]);
   });
+
+  test("loadSandboxNetworkConfig uses domains declared by custom providers", () => {
+    const root = mkdtempSync(join(tmpdir(), "voratiq-sandbox-custom-"));
+    try {
+      mkdirSync(join(root, ".voratiq"));
+      writeFileSync(
+        join(root, ".voratiq", "providers.yaml"),
+        `
+providers:
+  - id: mystic
+    argv: ["--model", "{{MODEL}}"]
+    network:
+      allowedDomains: [api.mystic.example]
+`,
+        "utf8",
+      );
+
+      const network = loadSandboxNetworkConfig({
+        root,
+        readFile: () => "providers:\n  claude: {}\n",
+        providerId: "mystic",
+      });
+
+      expect(network.allowedDomains).toEqual(["api.mystic.example"]);
+      expect(network.allowLocalBinding).toBe(false);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("sandbox stage and agent overrides", () => {
+  const yaml = `
+providers:
+  codex:
+    allowedDomains:
+      - api.openai.com
+stages:
+  run:
+    allowedDomains:
+      - mirror.internal.example
+agents:
+  experimental:
+    deniedDomains:
+      - chatgpt.com
+    filesystem:
+      denyRead:
+        - secrets
+    denialBackoff:
+      failFastThreshold: 1
+`;
+
+  test("merges stage and agent layers on top of the provider block", () => {
+    const runNetwork = loadSandboxNetworkConfig({
+      root: ROOT,
+      filePath: FILE_PATH,
+      readFile: () => yaml,
+      providerId: "codex",
+    });
+    expect(runNetwork.allowedDomains).not.toContain("mirror.internal.example");
+
+    const runner = loadSandboxProviderConfig({
+      root: ROOT,
+      filePath: FILE_PATH,
+      readFile: () => yaml,
+      providerId: "codex",
+      stageId: "run",
+      agentId: "codex-high",
+    });
+    expect(runner.network.allowedDomains).toContain("mirror.internal.example");
+    expect(runner.network.deniedDomains).toEqual([]);
+
+    const verifier = loadSandboxProviderConfig({
+      root: ROOT,
+      filePath: FILE_PATH,
+      readFile: () => yaml,
+      providerId: "codex",
+      stageId: "verify",
+      agentId: "codex-high",
+    });
+    expect(verifier.network.allowedDomains).not.toContain(
+      "mirror.internal.example",
+    );
+
+    const experimental = loadSandboxProviderConfig({
+      root: ROOT,
+      filePath: FILE_PATH,
+      readFile: () => yaml,
+      providerId: "codex",
+      stageId: "run",
+      agentId: "experimental",
+    });
+    expect(experimental.network.allowedDomains).toContain(
+      "mirror.internal.example",
+    );
+    expect(experimental.network.deniedDomains).toEqual(["chatgpt.com"]);
+    expect(experimental.filesystem.denyRead).toEqual(["secrets"]);
+    expect(experimental.denialBackoff.failFastThreshold).toBe(1);
+    expect(experimental.denialBackoff.delayMs).toBe(5000);
+  });
+
+  test("rejects unknown stage ids", () => {
+    expect(() =>
+      loadSandboxConfiguration({
+        root: ROOT,
+        filePath: FILE_PATH,
+        readFile: () => "providers: {}\nstages:\n  deploy: {}\n",
+      }),
+    ).toThrow("Unknown stage `deploy` in `sandbox.yaml`.");
+  });
 });
 
 describe("sandbox configuration caching", () => {
@@ -17,6 +17,76 @@ run:
     expect(config.run.rubric).toEqual([{ template: "run-verification" }]);
   });
 
+  it("accepts programmatic checks in object form", () => {
+    const config = readVerificationConfig(`
+run:
+  programmaticMaxParallel: 2
+  programmatic:
+    build: npm run build
+    tests:
+      command: npm test
+      timeoutMs: 60000
+      retries: 2
+      env:
+        CI: 1
+      dependsOn: [build]
+      report: reports/junit.xml
+`);
+
+    expect(config.run.programmaticMaxParallel).toBe(2);
+    expect(config.run.programmatic).toEqual([
+      { slug: "build", command: "npm run build" },
+      {
+        slug: "tests",
+        command: "npm test",
+        timeoutMs: 60000,
+        retries: 2,
+        env: { CI: "1" },
+        dependsOn: ["build"],
+        report: "reports/junit.xml",
+      },
+    ]);
+  });
+
+  it("rejects programmatic dependencies on unknown checks", () => {
+    expect(() =>
+      readVerificationConfig(`
+run:
+  programmatic:
+    tests:
+      command: npm test
+      dependsOn: [build]
+`),
+    ).toThrow(/depends on unknown check `build`/u);
+  });
+
+  it("rejects programmatic dependency cycles", () => {
+    expect(() =>
+      readVerificationConfig(`
+run:
+  programmatic:
+    build:
+      command: npm run build
+      dependsOn: [tests]
+    tests:
+      command: npm test
+      dependsOn: [build]
+`),
+    ).toThrow(/dependency cycle: build -> tests -> build/u);
+  });
+
+  it("rejects unknown programmatic check options", () => {
+    expect(() =>
+      readVerificationConfig(`
+run:
+  programmatic:
+    tests:
+      command: npm test
+      timeout: 10
+`),
+    ).toThrow(VerificationConfigError);
+  });
+
   it("accepts non-legacy custom rubric templates", () => {
     const config = readVerificationConfig(`
 run:
@@ -88,6 +158,57 @@ reduce:
 message:
   programmatic:
     lint: npm run lint
+`),
+    ).toThrow(VerificationConfigError);
+  });
+
+  it("accepts winner policies per stage", () => {
+    const config = readVerificationConfig(`
+spec:
+  winnerPolicy:
+    mode: borda
+run:
+  rubric:
+    - template: run-verification
+  winnerPolicy:
+    mode: weighted
+    weights:
+      senior-reviewer: 2
+    rejectCriterionVerdicts: [not_met]
+`);
+
+    expect(config.spec.winnerPolicy).toEqual({ mode: "borda" });
+    expect(config.run.winnerPolicy).toEqual({
+      mode: "weighted",
+      weights: { "senior-reviewer": 2 },
+      rejectCriterionVerdicts: ["not_met"],
+    });
+    expect(config.reduce.winnerPolicy).toBeUndefined();
+  });
+
+  it("rejects unknown winner policy modes, non-positive weights, and unknown verdicts", () => {
+    expect(() =>
+      readVerificationConfig(`
+run:
+  winnerPolicy:
+    mode: plurality
+`),
+    ).toThrow(VerificationConfigError);
+    expect(() =>
+      readVerificationConfig(`
+run:
+  winnerPolicy:
+    mode: weighted
+    weights:
+      reviewer: 0
+`),
+    ).toThrow(VerificationConfigError);
+    expect(() =>
+      readVerificationConfig(`
+run:
+  winnerPolicy:
+    mode: majority
+    rejectCriterionVerdicts: [failed]
 `),
     ).toThrow(VerificationConfigError);
   });
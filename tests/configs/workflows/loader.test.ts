@@ -0,0 +1,185 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { WorkflowsConfigError } from "../../../src/configs/workflows/errors.js";
+import {
+  loadWorkflowsConfig,
+  readWorkflowsConfig,
+} from "../../../src/configs/workflows/loader.js";
+
+describe("workflows config loader", () => {
+  it("returns no workflows when the file is missing", () => {
+    expect(
+      loadWorkflowsConfig({
+        root: "/repo",
+        readFile: () => {
+          throw Object.assign(new Error("missing"), { code: "ENOENT" });
+        },
+      }),
+    ).toEqual({ workflows: {} });
+  });
+
+  it("parses stages and normalizes single sources", () => {
+    const config = readWorkflowsConfig(`
+workflows:
+  ask-and-build:
+    stages:
+      - id: ask
+        operator: message
+        prompt: How should backlinks be stored?
+      - id: synthesize
+        operator: reduce
+        from: ask
+      - id: draft
+        operator: spec
+        description: Add backlinks between pages
+        from: [synthesize]
+      - id: pick
+        operator: verify
+        from: draft
+      - id: build
+        operator: run
+        from: pick
+        profile: thorough
+        maxCost: 5
+      - id: judge
+        operator: verify
+        from: build
+        onUnresolved: continue
+      - id: land
+        operator: apply
+        from: judge
+`);
+
+    const stages = config.workflows["ask-and-build"]?.stages ?? [];
+    expect(stages.map((stage) => stage.from)).toEqual([
+      undefined,
+      ["ask"],
+      ["synthesize"],
+      ["draft"],
+      ["pick"],
+      ["build"],
+      ["judge"],
+    ]);
+    expect(stages[3]).toMatchObject({ onUnresolved: "stop" });
+    expect(stages[4]).toMatchObject({ profile: "thorough", maxCost: 5 });
+    expect(stages[6]).toMatchObject({ operator: "apply", commit: false });
+  });
+
+  it("rejects sources that are not earlier compatible stages", () => {
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  broken:
+    stages:
+      - id: build
+        operator: run
+        from: later
+      - id: later
+        operator: spec
+        description: Too late
+`),
+    ).toThrow(/`later` is not an earlier stage/u);
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  broken:
+    stages:
+      - id: build
+        operator: run
+        spec: specs/task.md
+      - id: land
+        operator: apply
+        from: build
+`),
+    ).toThrow(/apply stages cannot read from run stage `build`/u);
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  broken:
+    stages:
+      - id: build
+        operator: run
+        spec: specs/task.md
+      - id: build
+        operator: verify
+        from: build
+`),
+    ).toThrow(WorkflowsConfigError);
+  });
+
+  it("requires run stages to name a spec or a single source", () => {
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  broken:
+    stages:
+      - id: build
+        operator: run
+`),
+    ).toThrow(/run stages need exactly one of `spec` or `from`/u);
+  });
+
+  it("lets verify stages judge several run stages together", () => {
+    const config = readWorkflowsConfig(`
+workflows:
+  compare:
+    stages:
+      - id: fast
+        operator: run
+        spec: specs/task.md
+      - id: thorough
+        operator: run
+        spec: specs/task.md
+      - id: judge
+        operator: verify
+        from: [fast, thorough]
+      - id: land
+        operator: apply
+        from: judge
+`);
+    expect(config.workflows.compare?.stages[2]?.from).toEqual([
+      "fast",
+      "thorough",
+    ]);
+
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  broken:
+    stages:
+      - id: draft
+        operator: spec
+        description: Draft
+      - id: build
+        operator: run
+        spec: specs/task.md
+      - id: judge
+        operator: verify
+        from: [draft, build]
+`),
+    ).toThrow(
+      /verify stages read from several stages only when all are run stages/u,
+    );
+  });
+
+  it("rejects verify stages whose run stages list the same agent", () => {
+    expect(() =>
+      readWorkflowsConfig(`
+workflows:
+  overlap:
+    stages:
+      - id: fast
+        operator: run
+        spec: specs/task.md
+        agents: [alpha, beta]
+      - id: thorough
+        operator: run
+        spec: specs/task.md
+        agents: [beta, gamma]
+      - id: judge
+        operator: verify
+        from: [fast, thorough]
+`),
+    ).toThrow(/run stages `fast` and `thorough` both list agent `beta`/u);
+  });
+});
@@ -5,6 +5,7 @@ import { join } from "node:path";
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
 
 import { createReduceCompetitionAdapter } from "../../../../src/domain/reduce/competition/adapter.js";
+import { readReductionRecords } from "../../../../src/domain/reduce/persistence/adapter.js";
 import { appendRunRecord } from "../../../../src/domain/run/persistence/adapter.js";
 import { readSpecRecords } from "../../../../src/domain/spec/persistence/adapter.js";
 import { pathExists } from "../../../../src/utils/fs.js";
@@ -63,7 +64,7 @@ describe("reduce competition teardown", () => {
         runsFilePath: join(root, ".voratiq", "runs", "index.json"),
         messagesFilePath: join(root, ".voratiq", "message", "index.json"),
         verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
-        target: { type: "spec", id: "spec-123" },
+        targets: [{ type: "spec", id: "spec-123" }],
         environment: {},
       });
 
@@ -167,7 +168,7 @@ describe("reduce competition teardown", () => {
         runsFilePath: join(root, ".voratiq", "runs", "index.json"),
         messagesFilePath: join(root, ".voratiq", "message", "index.json"),
         verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
-        target: { type: "reduce", id: sourceReductionId },
+        targets: [{ type: "reduce", id: sourceReductionId }],
         environment: {},
       });
 
@@ -270,7 +271,7 @@ describe("reduce competition teardown", () => {
         runsFilePath: join(root, ".voratiq", "run", "index.json"),
         messagesFilePath: join(root, ".voratiq", "message", "index.json"),
         verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
-        target: { type: "run", id: runId },
+        targets: [{ type: "run", id: runId }],
         environment: {},
       });
 
@@ -309,6 +310,155 @@ describe("reduce competition teardown", () => {
       await rm(root, { recursive: true, force: true });
     }
   });
+
+  it("stages each of several targets under its own namespaced inputs folder", async () => {
+    const root = await mkdtemp(join(tmpdir(), "voratiq-reduce-multi-"));
+
+    try {
+      await createWorkspace(root);
+
+      await mkdir(join(root, "source"), { recursive: true });
+      await writeFile(join(root, "source", "spec.md"), "# Draft\n", "utf8");
+      await writeFile(
+        join(root, "source", "spec.json"),
+        '{"title":"Draft"}\n',
+        "utf8",
+      );
+      readSpecRecordsMock.mockResolvedValue([
+        {
+          sessionId: "spec-123",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          status: "succeeded",
+          baseRevisionSha: "base-sha",
+          description: "Draft a spec",
+          agents: [
+            {
+              agentId: "author",
+              status: "succeeded",
+              outputPath: "source/spec.md",
+              dataPath: "source/spec.json",
+            },
+          ],
+        },
+      ] as never);
+
+      const runId = "run-multi";
+      const specPath = "specs/run-multi.md";
+      await mkdir(join(root, "specs"), { recursive: true });
+      await writeFile(join(root, specPath), "# Run spec\n", "utf8");
+      await appendRunRecord({
+        root,
+        runsFilePath: join(root, ".voratiq", "run", "index.json"),
+        record: createRunRecord({
+          runId,
+          status: "succeeded",
+          spec: { path: specPath },
+          agents: [
+            createAgentInvocationRecord({
+              agentId: "agent-1",
+              status: "succeeded",
+              artifacts: {
+                diffCaptured: false,
+                summaryCaptured: false,
+                stdoutCaptured: true,
+                stderrCaptured: true,
+              },
+            }),
+          ],
+        }),
+      });
+
+      const adapter = createReduceCompetitionAdapter({
+        root,
+        reductionId: "reduce-multi",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        reductionsFilePath: join(root, ".voratiq", "reduce", "index.json"),
+        specsFilePath: join(root, ".voratiq", "specs", "index.json"),
+        runsFilePath: join(root, ".voratiq", "run", "index.json"),
+        messagesFilePath: join(root, ".voratiq", "message", "index.json"),
+        verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
+        targets: [
+          { type: "spec", id: "spec-123" },
+          { type: "run", id: runId },
+        ],
+        environment: {},
+      });
+
+      const preparation = await adapter.prepareCandidates([
+        {
+          id: "reducer",
+          provider: "codex",
+          model: "gpt-5",
+          binary: "node",
+          argv: [],
+        },
+      ]);
+      const prepared = preparation.ready[0];
+      expect(prepared).toBeDefined();
+      const { workspacePath } = prepared.workspacePaths;
+
+      await expect(
+        readFile(
+          join(
+            workspacePath,
+            "inputs",
+            "spec-spec-123",
+            "spec",
+            "author",
+            "spec.md",
+          ),
+          "utf8",
+        ),
+      ).resolves.toContain("# Draft");
+      await expect(
+        readFile(
+          join(workspacePath, "inputs", `run-${runId}`, "spec.md"),
+          "utf8",
+        ),
+      ).resolves.toContain("# Run spec");
+
+      const manifest = JSON.parse(
+        await readFile(
+          join(workspacePath, "artifact-information.json"),
+          "utf8",
+        ),
+      ) as {
+        sources: Array<{
+          inputsPath: string;
+          target: { operator: string; id: string };
+          artifacts: Array<{ artifactId: string }>;
+        }>;
+      };
+      expect(manifest.sources.map((source) => source.inputsPath)).toEqual([
+        "inputs/spec-spec-123",
+        `inputs/run-${runId}`,
+      ]);
+      expect(manifest.sources[0]?.artifacts[0]?.artifactId).toBe(
+        "spec-spec-123/spec:author",
+      );
+      expect(manifest.sources[1]?.target).toMatchObject({
+        operator: "run",
+        id: runId,
+      });
+
+      expect(prepared.prompt).toContain("`inputs/spec-spec-123/`");
+      expect(prepared.prompt).toContain(`\`inputs/run-${runId}/\``);
+
+      const [record] = await readReductionRecords({
+        root,
+        reductionsFilePath: join(root, ".voratiq", "reduce", "index.json"),
+        limit: 1,
+        predicate: (entry) => entry.sessionId === "reduce-multi",
+      });
+      expect(record?.target).toEqual({ type: "spec", id: "spec-123" });
+      expect(record?.targets).toEqual([
+        { type: "spec", id: "spec-123" },
+        { type: "run", id: runId },
+      ]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
 });
 
 async function writeReductionSession(
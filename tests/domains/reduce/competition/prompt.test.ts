@@ -5,8 +5,7 @@ import { buildReducePrompt } from "../../../../src/domain/reduce/competition/pro
 describe("buildReducePrompt", () => {
   it("includes markdown and reduction artifact requirements", () => {
     const prompt = buildReducePrompt({
-      targetOperator: "run",
-      targetId: "run-1",
+      targets: [{ type: "run", id: "run-1" }],
       artifactInfoPath: "artifact-information.json",
       workspacePath: "/repo/.voratiq/reduce/sessions/reduce-1/alpha/workspace",
     });
@@ -27,8 +26,7 @@ describe("buildReducePrompt", () => {
 
   it("lists staged extra-context files when provided", () => {
     const prompt = buildReducePrompt({
-      targetOperator: "run",
-      targetId: "run-1",
+      targets: [{ type: "run", id: "run-1" }],
       artifactInfoPath: "artifact-information.json",
       workspacePath: "/repo/.voratiq/reduce/sessions/reduce-1/alpha/workspace",
       extraContextFiles: [
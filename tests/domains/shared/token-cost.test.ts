@@ -0,0 +1,106 @@
+import { describe, expect, it } from "@jest/globals";
+
+import type { PricingTable } from "../../../src/configs/pricing/types.js";
+import {
+  buildSessionCostFields,
+  computeTokenUsageCostUsd,
+  formatCostUsd,
+  resolveTokenUsageCostUsd,
+  sumCostUsd,
+} from "../../../src/domain/shared/token-cost.js";
+
+const PRICING: PricingTable = {
+  claude: {
+    sonnet: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  },
+  codex: {
+    "gpt-5": { input: 2, output: 10, cachedInput: 0.5 },
+  },
+  gemini: {
+    flash: { input: 1, output: 4 },
+  },
+};
+
+describe("token cost helpers", () => {
+  it("prices claude usage including cache reads and writes", () => {
+    expect(
+      computeTokenUsageCostUsd({
+        provider: "claude",
+        modelId: "sonnet",
+        tokenUsage: {
+          input_tokens: 1_000_000,
+          output_tokens: 100_000,
+          cache_read_input_tokens: 1_000_000,
+          cache_creation_input_tokens: 200_000,
+        },
+        pricing: PRICING,
+      }),
+    ).toBe(3 + 1.5 + 0.3 + 0.75);
+  });
+
+  it("does not double count codex cached input", () => {
+    expect(
+      computeTokenUsageCostUsd({
+        provider: "codex",
+        modelId: "gpt-5",
+        tokenUsage: {
+          input_tokens: 1_000_000,
+          cached_input_tokens: 400_000,
+          output_tokens: 100_000,
+        },
+        pricing: PRICING,
+      }),
+    ).toBe(0.6 * 2 + 0.4 * 0.5 + 1);
+  });
+
+  it("bills gemini thoughts as output and falls back to the input rate for cache reads", () => {
+    expect(
+      computeTokenUsageCostUsd({
+        provider: "gemini",
+        modelId: "flash",
+        tokenUsage: {
+          input: 500_000,
+          cached: 100_000,
+          output: 100_000,
+          thoughts: 150_000,
+        },
+        pricing: PRICING,
+      }),
+    ).toBe(0.4 + 0.1 + 1);
+  });
+
+  it("returns undefined for unpriced models and unavailable usage", () => {
+    expect(
+      computeTokenUsageCostUsd({
+        provider: "codex",
+        modelId: "unknown",
+        tokenUsage: { input_tokens: 10 },
+        pricing: PRICING,
+      }),
+    ).toBeUndefined();
+    expect(
+      resolveTokenUsageCostUsd(
+        {
+          status: "unavailable",
+          reason: "chat_not_captured",
+          provider: "codex",
+          modelId: "gpt-5",
+        },
+        PRICING,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("sums only priced entries", () => {
+    expect(sumCostUsd([0.1, undefined, 0.2])).toBe(0.3);
+    expect(sumCostUsd([undefined])).toBeUndefined();
+    expect(buildSessionCostFields([undefined])).toEqual({});
+    expect(buildSessionCostFields([1.25])).toEqual({ costUsd: 1.25 });
+  });
+
+  it("formats sub-cent costs with extra precision", () => {
+    expect(formatCostUsd(12.3456)).toBe("$12.35");
+    expect(formatCostUsd(0.0042)).toBe("$0.0042");
+    expect(formatCostUsd(0)).toBe("$0.00");
+  });
+});
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 import { buildSpecPrompt } from "../../../../src/domain/spec/competition/prompt.js";
 
 describe("buildSpecPrompt", () => {
@@ -121,4 +123,30 @@ describe("buildSpecPrompt", () => {
     );
     expect(prompt).toContain("`../context/a.md` (source: `notes/a.md`)");
   });
+
+  it("uses the template skeleton, guidance, and schema when provided", () => {
+    const prompt = buildSpecPrompt({
+      description: "Paginate search results.",
+      markdownOutputPath: "spec.md",
+      dataOutputPath: "spec.json",
+      repoRootPath: "/repo",
+      workspacePath: "/repo/.voratiq/spec/sessions/123/workspace",
+      template: {
+        name: "rollout",
+        skeleton: "# Title\n\n## API changes\n\n## Rollout\n",
+        guidance: "- Name every changed endpoint.\n",
+        schemaSource: '{\n  "type": "object"\n}\n',
+        dataSchema: z.object({}),
+      },
+    });
+
+    expect(prompt).toContain("Required spec structure (template `rollout`):");
+    expect(prompt).toContain("## API changes");
+    expect(prompt).toContain("- Name every changed endpoint.");
+    expect(prompt).not.toContain("## Exit Signal");
+    expect(prompt).toContain(
+      "Save the same spec as JSON to `spec.json` in the workspace root, matching this JSON schema:",
+    );
+    expect(prompt).toContain('    "type": "object"');
+  });
 });
@@ -0,0 +1,102 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import {
+  SpecTemplateInvalidError,
+  SpecTemplateNotFoundError,
+} from "../../../../src/domain/spec/model/errors.js";
+import { parseTemplatedSpecData } from "../../../../src/domain/spec/model/output.js";
+import { loadSpecTemplate } from "../../../../src/domain/spec/model/template.js";
+
+const ROLLOUT_SCHEMA = {
+  type: "object",
+  required: ["title", "apiChanges", "rollout"],
+  properties: {
+    title: { type: "string", minLength: 1 },
+    apiChanges: { type: "array", items: { type: "string" }, minItems: 1 },
+    rollout: { type: "string" },
+  },
+};
+
+describe("loadSpecTemplate", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-spec-template-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeTemplate(
+    name: string,
+    files: Partial<
+      Record<"template.md" | "guidance.md" | "schema.json", string>
+    >,
+  ): Promise<void> {
+    const directory = join(root, ".voratiq", "spec", "templates", name);
+    await mkdir(directory, { recursive: true });
+    for (const [filename, content] of Object.entries(files)) {
+      await writeFile(join(directory, filename), content, "utf8");
+    }
+  }
+
+  it("loads the skeleton, guidance, and schema and validates spec data", async () => {
+    await writeTemplate("rollout", {
+      "template.md": "# Title\n\n## API changes\n\n## Rollout\n",
+      "guidance.md": "- Name every changed endpoint.\n",
+      "schema.json": JSON.stringify(ROLLOUT_SCHEMA, null, 2),
+    });
+
+    const template = await loadSpecTemplate({ root, name: "rollout" });
+
+    expect(template.skeleton).toContain("## API changes");
+    expect(template.guidance).toContain("changed endpoint");
+    expect(
+      parseTemplatedSpecData(
+        JSON.stringify({
+          title: "Paginate search",
+          apiChanges: ["GET /search gains `cursor`"],
+          rollout: "Behind a flag for one release.",
+        }),
+        template,
+      ),
+    ).toMatchObject({ title: "Paginate search" });
+    expect(() =>
+      parseTemplatedSpecData(
+        JSON.stringify({ title: "Paginate search", apiChanges: [] }),
+        template,
+      ),
+    ).toThrow(/Schema validation failed: .*apiChanges/u);
+  });
+
+  it("reports missing templates and files", async () => {
+    await writeTemplate("partial", { "template.md": "# Title\n" });
+
+    await expect(
+      loadSpecTemplate({ root, name: "absent" }),
+    ).rejects.toBeInstanceOf(SpecTemplateNotFoundError);
+    await expect(
+      loadSpecTemplate({ root, name: "partial" }),
+    ).rejects.toBeInstanceOf(SpecTemplateNotFoundError);
+    await expect(
+      loadSpecTemplate({ root, name: "../escape" }),
+    ).rejects.toBeInstanceOf(SpecTemplateNotFoundError);
+  });
+
+  it("rejects schemas that do not describe an object", async () => {
+    await writeTemplate("broken", {
+      "template.md": "# Title\n",
+      "guidance.md": "",
+      "schema.json": JSON.stringify({ type: "array" }),
+    });
+
+    await expect(
+      loadSpecTemplate({ root, name: "broken" }),
+    ).rejects.toBeInstanceOf(SpecTemplateInvalidError);
+  });
+});
@@ -42,6 +42,76 @@ describe("buildRubricPrompt", () => {
     );
   });
 
+  it("lists staged test reports for run candidates", () => {
+    const prompt = buildRubricPrompt({
+      template: {
+        template: "run-verification",
+        prompt: "Review the candidate outputs.",
+        rubric: "Rank the candidates.",
+        schema: "type: object",
+      },
+      target: {
+        kind: "run",
+        sessionId: "run-123",
+        candidateIds: ["agent-a"],
+      },
+      staged: {
+        kind: "run",
+        referenceRepoPath: "reference_repo",
+        specPath: "inputs/spec.md",
+        candidates: [
+          {
+            alias: "v_aaaaaaaaaa",
+            diffPath: "inputs/candidates/v_aaaaaaaaaa/diff.patch",
+            testReportsPath: "inputs/candidates/v_aaaaaaaaaa/test-reports.md",
+          },
+        ],
+      },
+      extraContextFiles: [],
+    });
+
+    expect(prompt).toContain(
+      "  - v_aaaaaaaaaa (diff: `inputs/candidates/v_aaaaaaaaaa/diff.patch`, test reports: `inputs/candidates/v_aaaaaaaaaa/test-reports.md`)",
+    );
+  });
+
+  it("asks run verifiers for a verdict per acceptance criterion and candidate", () => {
+    const prompt = buildRubricPrompt({
+      template: {
+        template: "run-verification",
+        prompt: "Review the candidate outputs.",
+        rubric: "Rank the candidates.",
+        schema: "type: object",
+      },
+      target: {
+        kind: "run",
+        sessionId: "run-123",
+        candidateIds: ["agent-a", "agent-b"],
+      },
+      staged: {
+        kind: "run",
+        referenceRepoPath: "reference_repo",
+        specPath: "inputs/spec.md",
+        criteria: [
+          { id: "AC1", text: "Backlinks render under each page." },
+          { id: "AC2", text: "Deleting a page removes its backlinks." },
+        ],
+        candidates: [{ alias: "v_aaaaaaaaaa" }, { alias: "v_bbbbbbbbbb" }],
+      },
+      extraContextFiles: [],
+    });
+
+    expect(prompt).toContain("## Acceptance criteria");
+    expect(prompt).toContain("- AC1: Backlinks render under each page.");
+    expect(prompt).toContain("- AC2: Deleting a page removes its backlinks.");
+    expect(prompt).toContain(
+      "- `candidate`: one of `v_aaaaaaaaaa`, `v_bbbbbbbbbb`",
+    );
+    expect(prompt).toContain(
+      "Every criterion needs a verdict for every candidate.",
+    );
+  });
+
   it("builds message-target prompts from the staged prompt and response artifacts", () => {
     const prompt = buildRubricPrompt({
       template: {
@@ -75,4 +145,41 @@ describe("buildRubricPrompt", () => {
     expect(prompt).not.toContain("diff.patch");
     expect(prompt).not.toContain("Selected spec");
   });
+
+  it("points spec verifiers at the template the drafts were written against", () => {
+    const prompt = buildRubricPrompt({
+      template: {
+        template: "spec-verification",
+        prompt: "Review the drafts.",
+        rubric: "Rank the drafts.",
+        schema: "type: object",
+      },
+      target: { kind: "spec", sessionId: "spec-123" },
+      staged: {
+        kind: "spec",
+        referenceRepoPath: "reference_repo",
+        descriptionPath: "inputs/description.md",
+        template: {
+          name: "rollout",
+          skeletonPath: "inputs/template/template.md",
+          schemaPath: "inputs/template/schema.json",
+        },
+        candidates: [
+          {
+            alias: "v_aaaaaaaaaa",
+            specPath: "inputs/drafts/v_aaaaaaaaaa/spec.md",
+            specDataPath: "inputs/drafts/v_aaaaaaaaaa/spec.json",
+          },
+        ],
+      },
+      extraContextFiles: [],
+    });
+
+    expect(prompt).toContain(
+      "- Spec template `rollout`: skeleton `inputs/template/template.md`, schema `inputs/template/schema.json`",
+    );
+    expect(prompt).toContain(
+      "Validate each draft's metadata against the template schema",
+    );
+  });
 });
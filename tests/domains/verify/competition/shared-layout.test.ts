@@ -185,6 +185,7 @@ describe("prepareSharedVerificationInputs", () => {
           alias: agentId,
           hasDiff: true,
           hasSummary: true,
+          hasTestReports: false,
         },
       ]);
       await expect(
@@ -315,6 +316,7 @@ describe("prepareSharedVerificationInputs", () => {
           alias: agentId,
           hasDiff: true,
           hasSummary: false,
+          hasTestReports: false,
         },
       ]);
     } finally {
@@ -322,6 +324,83 @@ describe("prepareSharedVerificationInputs", () => {
     }
   });
 
+  it("numbers acceptance criteria from the source draft's spec.json", async () => {
+    const root = await mkdtemp(
+      join(tmpdir(), "voratiq-verify-shared-run-criteria-"),
+    );
+    const runId = "run-criteria";
+    const agentId = "agent-1";
+    const draftDir = ".voratiq/spec/sessions/spec-1/drafter/artifacts";
+    const specPath = `${draftDir}/spec.md`;
+
+    try {
+      await writeFile(
+        join(root, ".git"),
+        "gitdir: ./.git/worktrees/test\n",
+        "utf8",
+      );
+      await mkdir(join(root, draftDir), { recursive: true });
+      await writeFile(join(root, specPath), "# spec\n", "utf8");
+      await writeFile(
+        join(root, draftDir, "spec.json"),
+        JSON.stringify({
+          acceptanceCriteria: ["Backlinks render.", "Deletes cascade."],
+        }),
+        "utf8",
+      );
+
+      const result = await prepareSharedVerificationInputs({
+        root,
+        verificationId: "verify-run-criteria",
+        environment: {},
+        resolvedTarget: {
+          baseRevisionSha: "base-sha",
+          competitiveCandidates: [
+            { canonicalId: agentId, forbiddenIdentityTokens: [agentId] },
+          ],
+          target: { kind: "run", sessionId: runId, candidateIds: [agentId] },
+          runRecord: createRunRecord({
+            runId,
+            status: "succeeded",
+            spec: {
+              path: specPath,
+              target: {
+                kind: "spec",
+                sessionId: "spec-1",
+                provenance: {
+                  lineage: "exact",
+                  source: {
+                    kind: "spec",
+                    sessionId: "spec-1",
+                    agentId: "drafter",
+                    outputPath: specPath,
+                    contentHash: `sha256:${"0".repeat(64)}`,
+                  },
+                },
+              },
+            },
+            agents: [
+              createAgentInvocationRecord({
+                agentId,
+                artifacts: { diffCaptured: false },
+              }),
+            ],
+          }),
+        } as ResolvedVerificationTarget,
+      });
+
+      expect(result).toMatchObject({
+        kind: "run",
+        criteria: [
+          { id: "AC1", text: "Backlinks render." },
+          { id: "AC2", text: "Deletes cascade." },
+        ],
+      });
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   it("fails with an explicit artifact error when a required run artifact is missing", async () => {
     const root = await mkdtemp(
       join(tmpdir(), "voratiq-verify-shared-run-missing-"),
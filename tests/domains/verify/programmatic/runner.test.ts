@@ -0,0 +1,135 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import { executeProgrammaticChecks } from "../../../../src/domain/verify/programmatic/runner.js";
+
+describe("executeProgrammaticChecks", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-programmatic-runner-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const run = async (
+    checks: Parameters<typeof executeProgrammaticChecks>[0]["checks"],
+    maxParallel?: number,
+  ) =>
+    await executeProgrammaticChecks({
+      checks,
+      cwd: root,
+      root,
+      logsDirectory: join(root, "logs"),
+      environment: {},
+      maxParallel,
+    });
+
+  it("records a distinct status when a check exceeds its timeout", async () => {
+    const startedAt = Date.now();
+    const { results } = await run([
+      { slug: "slow", command: "sleep 5", timeoutMs: 200 },
+    ]);
+
+    expect(Date.now() - startedAt).toBeLessThan(4000);
+    expect(results).toEqual([
+      expect.objectContaining({
+        slug: "slow",
+        status: "timed_out",
+        exitCode: null,
+        error: "Timed out after 200ms",
+      }),
+    ]);
+  });
+
+  it("retries failed checks and records the attempt count", async () => {
+    const { results } = await run([
+      {
+        slug: "flaky",
+        command: 'echo x >> attempts.txt; test "$(wc -l < attempts.txt)" -ge 3',
+        retries: 3,
+      },
+    ]);
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        slug: "flaky",
+        status: "succeeded",
+        exitCode: 0,
+        attempts: 3,
+      }),
+    ]);
+    const log = await readFile(join(root, "logs", "flaky.log"), "utf8");
+    expect(log).toContain("attempt 3 of 4");
+  });
+
+  it("passes per-check environment variables", async () => {
+    const { results } = await run([
+      {
+        slug: "env",
+        command: 'test "$CHECK_MODE" = strict',
+        env: { CHECK_MODE: "strict" },
+      },
+    ]);
+
+    expect(results[0]?.status).toBe("succeeded");
+  });
+
+  it("attaches parsed test reports and flags missing ones", async () => {
+    const { results } = await run([
+      {
+        slug: "tap",
+        command: "printf 'ok 1 - a\\nnot ok 2 - b\\n' > out.tap; exit 1",
+        report: "out.tap",
+      },
+      { slug: "missing", command: "true", report: "nowhere.xml" },
+    ]);
+
+    expect(results[0]).toMatchObject({
+      status: "failed",
+      report: { format: "tap", total: 2, passed: 1, failedTests: ["b"] },
+    });
+    expect(results[1]).toMatchObject({
+      status: "succeeded",
+      reportError: "Test report `nowhere.xml` was not written.",
+    });
+  });
+
+  it("skips dependents of failed checks and keeps configuration order", async () => {
+    const { results } = await run(
+      [
+        { slug: "tests", command: "echo tests", dependsOn: ["build"] },
+        { slug: "build", command: "exit 3" },
+        { slug: "lint", command: "echo lint" },
+      ],
+      2,
+    );
+
+    expect(results.map((result) => [result.slug, result.status])).toEqual([
+      ["tests", "skipped"],
+      ["build", "failed"],
+      ["lint", "succeeded"],
+    ]);
+    expect(results[0]?.error).toContain('dependency "build"');
+  });
+
+  it("runs independent checks in parallel up to the limit", async () => {
+    const startedAt = Date.now();
+    const { results } = await run(
+      [
+        { slug: "one", command: "sleep 1" },
+        { slug: "two", command: "sleep 1" },
+        { slug: "three", command: "sleep 1" },
+      ],
+      3,
+    );
+
+    expect(Date.now() - startedAt).toBeLessThan(2500);
+    expect(results.every((result) => result.status === "succeeded")).toBe(true);
+  });
+});
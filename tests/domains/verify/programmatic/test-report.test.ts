@@ -0,0 +1,108 @@
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  MAX_RECORDED_FAILED_TESTS,
+  parseProgrammaticTestReport,
+  renderProgrammaticTestReportsMarkdown,
+} from "../../../../src/domain/verify/programmatic/test-report.js";
+
+describe("parseProgrammaticTestReport", () => {
+  it("summarizes JUnit XML test cases", () => {
+    const report = parseProgrammaticTestReport(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="math" tests="4">
+    <testcase classname="math" name="adds" time="0.01"/>
+    <testcase classname="math" name="divides &amp; rounds">
+      <failure message="expected 2">stack</failure>
+    </testcase>
+    <testcase classname="math" name="overflows"><error/></testcase>
+    <testcase classname="math" name="later"><skipped/></testcase>
+  </testsuite>
+</testsuites>
+`,
+      "reports/junit.xml",
+    );
+
+    expect(report).toEqual({
+      format: "junit",
+      path: "reports/junit.xml",
+      total: 4,
+      passed: 1,
+      failed: 2,
+      skipped: 1,
+      failedTests: ["math > divides & rounds", "math > overflows"],
+    });
+  });
+
+  it("summarizes top-level TAP results", () => {
+    const report = parseProgrammaticTestReport(
+      `TAP version 13
+1..5
+ok 1 - parses input
+not ok 2 - rejects bad input
+  ---
+  message: boom
+  ...
+ok 3 - network # SKIP offline
+not ok 4 - pending feature # TODO later
+    not ok 1 - nested detail
+ok 5
+`,
+      "report.tap",
+    );
+
+    expect(report).toEqual({
+      format: "tap",
+      path: "report.tap",
+      total: 5,
+      passed: 2,
+      failed: 1,
+      skipped: 2,
+      failedTests: ["rejects bad input"],
+    });
+  });
+
+  it("caps the recorded failing test names", () => {
+    const lines = Array.from(
+      { length: MAX_RECORDED_FAILED_TESTS + 5 },
+      (_, index) => `not ok ${index + 1} - case ${index + 1}`,
+    );
+    const report = parseProgrammaticTestReport(lines.join("\n"), "r.tap");
+
+    expect(report.failed).toBe(MAX_RECORDED_FAILED_TESTS + 5);
+    expect(report.failedTests).toHaveLength(MAX_RECORDED_FAILED_TESTS);
+  });
+});
+
+describe("renderProgrammaticTestReportsMarkdown", () => {
+  it("renders counts, failing tests, and unavailable reports", () => {
+    const markdown = renderProgrammaticTestReportsMarkdown([
+      {
+        slug: "tests",
+        status: "failed",
+        report: {
+          format: "junit",
+          path: "junit.xml",
+          total: 40,
+          passed: 37,
+          failed: 3,
+          skipped: 0,
+          failedTests: ["suite > a", "suite > b"],
+        },
+      },
+      {
+        slug: "e2e",
+        status: "timed_out",
+        reportError: "Test report `e2e.tap` was not written.",
+      },
+    ]);
+
+    expect(markdown).toContain("## tests");
+    expect(markdown).toContain("- failed: 3");
+    expect(markdown).toContain("  - suite > b\n  - (1 more not listed)");
+    expect(markdown).toContain(
+      "- report unavailable: Test report `e2e.tap` was not written.",
+    );
+  });
+});
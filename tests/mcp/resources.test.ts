@@ -0,0 +1,166 @@
+import { mkdir, mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import {
+  appendRunRecord,
+  flushAllRunRecordBuffers,
+} from "../../src/domain/run/persistence/adapter.js";
+import {
+  appendVerificationRecord,
+  flushAllVerificationRecordBuffers,
+} from "../../src/domain/verify/persistence/adapter.js";
+import {
+  createSessionResourceWatcher,
+  listSessionResources,
+  parseSessionResourceUri,
+  readSessionResource,
+} from "../../src/mcp/resources.js";
+import { getAgentDiffPath } from "../../src/workspace/artifact-paths.js";
+import {
+  createAgentInvocationRecord,
+  createRunRecord,
+} from "../support/factories/run-records.js";
+
+const RUN_ID = "20260415-run-abc123";
+const VERIFY_ID = "20260415-verify-def456";
+const ARTIFACT_PATH = `.voratiq/verify/sessions/${VERIFY_ID}/programmatic/artifacts/result.json`;
+
+describe("MCP session resources", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "voratiq-mcp-resources-"));
+    await appendRunRecord({
+      root,
+      runsFilePath: join(root, ".voratiq", "run", "index.json"),
+      record: createRunRecord({
+        runId: RUN_ID,
+        agents: [
+          createAgentInvocationRecord({
+            agentId: "alpha",
+            artifacts: {
+              diffAttempted: true,
+              diffCaptured: true,
+              stdoutCaptured: false,
+              stderrCaptured: false,
+              summaryCaptured: false,
+            },
+          }),
+        ],
+      }),
+    });
+    await appendVerificationRecord({
+      root,
+      verificationsFilePath: join(root, ".voratiq", "verify", "index.json"),
+      record: {
+        sessionId: VERIFY_ID,
+        createdAt: "2026-04-15T20:00:00.000Z",
+        startedAt: "2026-04-15T20:00:01.000Z",
+        completedAt: "2026-04-15T20:00:05.000Z",
+        status: "succeeded",
+        target: { kind: "run", sessionId: RUN_ID, candidateIds: ["alpha"] },
+        methods: [
+          {
+            method: "programmatic",
+            slug: "programmatic",
+            scope: { kind: "run" },
+            status: "succeeded",
+            artifactPath: ARTIFACT_PATH,
+            startedAt: "2026-04-15T20:00:01.000Z",
+            completedAt: "2026-04-15T20:00:03.000Z",
+          },
+        ],
+      },
+    });
+    await flushAllRunRecordBuffers();
+    await flushAllVerificationRecordBuffers();
+
+    await writeFixture(getAgentDiffPath(RUN_ID, "alpha"), "diff --git a b\n");
+    await writeFixture(ARTIFACT_PATH, '{"candidates":[]}\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const writeFixture = async (path: string, content: string) => {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content, "utf8");
+  };
+
+  it("lists session records and their captured artifacts", async () => {
+    const resources = await listSessionResources(root);
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      `voratiq://run/${RUN_ID}`,
+      `voratiq://run/${RUN_ID}/alpha/diff.patch`,
+      `voratiq://verify/${VERIFY_ID}`,
+      `voratiq://verify/${VERIFY_ID}/result`,
+    ]);
+    expect(resources[1]).toMatchObject({ mimeType: "text/x-diff" });
+  });
+
+  it("reads artifacts and inlines verification method results", async () => {
+    await expect(
+      readSessionResource(root, `voratiq://run/${RUN_ID}/alpha/diff.patch`),
+    ).resolves.toEqual({
+      uri: `voratiq://run/${RUN_ID}/alpha/diff.patch`,
+      mimeType: "text/x-diff",
+      text: "diff --git a b\n",
+    });
+
+    const result = await readSessionResource(
+      root,
+      `voratiq://verify/${VERIFY_ID}/result`,
+    );
+    expect(JSON.parse(result?.text ?? "")).toMatchObject({
+      sessionId: VERIFY_ID,
+      methods: [{ slug: "programmatic", artifact: { candidates: [] } }],
+    });
+  });
+
+  it("returns undefined for unknown sessions and artifacts", async () => {
+    await expect(
+      readSessionResource(root, "voratiq://run/missing"),
+    ).resolves.toBeUndefined();
+    await expect(
+      readSessionResource(root, `voratiq://run/${RUN_ID}/alpha/summary.txt`),
+    ).resolves.toBeUndefined();
+    expect(parseSessionResourceUri("voratiq://guide")).toBeUndefined();
+  });
+
+  it("reports updates when a subscribed session record changes", async () => {
+    const updated: string[] = [];
+    const watcher = createSessionResourceWatcher({
+      root,
+      intervalMs: 20,
+      onUpdated: (uri) => updated.push(uri),
+    });
+    const uri = `voratiq://run/${RUN_ID}/alpha/diff.patch`;
+
+    try {
+      expect(watcher.subscribe(uri)).toBe(true);
+      expect(watcher.subscribe("voratiq://unknown/x")).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const recordPath = join(
+        root,
+        ".voratiq",
+        "run",
+        "sessions",
+        RUN_ID,
+        "record.json",
+      );
+      const later = new Date(Date.now() + 60_000);
+      await utimes(recordPath, later, later);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    } finally {
+      watcher.close();
+    }
+
+    expect(updated).toContain(uri);
+  });
+});
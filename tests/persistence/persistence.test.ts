@@ -72,6 +72,7 @@ describe("shared session persistence", () => {
         status: record.status,
       }),
       getIndexEntryId: (entry) => entry.sessionId,
+      getIndexEntryCreatedAt: (entry) => entry.createdAt,
       shouldForceFlush: (record) => record.status !== "running",
       getRecordId: (record) => record.sessionId,
       getRecordStatus: (record) => record.status,
@@ -159,6 +160,33 @@ describe("shared session persistence", () => {
     expect(entry?.status).toBe("done");
   });
 
+  it("skips index entries outside the created range without reading them", async () => {
+    for (const [sessionId, createdAt] of [
+      ["session-early", "2025-10-21T23:59:59.000Z"],
+      ["session-start", "2025-10-22T00:00:00.000Z"],
+      ["session-end", "2025-10-23T00:00:00.000Z"],
+    ] as const) {
+      await persistence.appendRecord({
+        paths,
+        record: { sessionId, status: "done", createdAt },
+      });
+    }
+    await rm(join(paths.sessionsDir, "session-early"), { recursive: true });
+
+    const warnings: unknown[] = [];
+    const records = await persistence.readRecords({
+      paths,
+      createdSince: new Date("2025-10-22T00:00:00.000Z"),
+      createdUntil: new Date("2025-10-23T00:00:00.000Z"),
+      onWarning: (warning) => warnings.push(warning),
+    });
+
+    expect(records.map((record) => record.sessionId)).toEqual([
+      "session-start",
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
   it("waits for post-persist hooks before resolving forced flushes", async () => {
     const record: TestRecord = {
       sessionId: "session-4",
@@ -8,6 +8,8 @@ import type {
 } from "../../src/domain/verify/model/types.js";
 import {
   DEFAULT_VERIFICATION_WINNER_POLICY,
+  deriveVerificationSelectionTally,
+  isNoRunCandidatePassingProgrammatic,
   loadVerificationSelectionPolicyOutput,
 } from "../../src/policy/index.js";
 
@@ -137,6 +139,117 @@ describe("verification winner policy defaults", () => {
     ]);
   });
 
+  it("applies the winner policy persisted on the record", async () => {
+    const record = await writeRunVerificationRecord({
+      root,
+      verificationId: "verify-majority",
+      rubrics: [
+        {
+          verifierId: "verifier-a",
+          template: "run-verification",
+          result: { preferred: "v_bbbbbbbbbb" },
+        },
+        {
+          verifierId: "verifier-b",
+          template: "run-verification",
+          result: { preferred: "v_bbbbbbbbbb" },
+        },
+        {
+          verifierId: "verifier-c",
+          template: "run-verification",
+          status: "failed",
+          result: {},
+        },
+      ],
+    });
+
+    const output = await loadVerificationSelectionPolicyOutput({
+      root,
+      record: { ...record, winnerPolicy: { mode: "majority" } },
+    });
+
+    expect(output.decision).toMatchObject({
+      state: "resolvable",
+      selectedCanonicalAgentId: "agent-b",
+    });
+    expect(deriveVerificationSelectionTally(output.input).scores).toEqual([
+      { candidateId: "agent-b", score: 2 },
+      { candidateId: "agent-a", score: 0 },
+    ]);
+  });
+
+  it("withholds a winner that misses an acceptance criterion under rejectCriterionVerdicts", async () => {
+    const criteria = [
+      {
+        id: "AC1",
+        verdicts: [
+          { candidate: "v_aaaaaaaaaa", verdict: "met", evidence: "diff" },
+          { candidate: "v_bbbbbbbbbb", verdict: "met", evidence: "diff" },
+        ],
+      },
+      {
+        id: "AC2",
+        verdicts: [
+          { candidate: "v_aaaaaaaaaa", verdict: "not_met", evidence: "none" },
+          {
+            candidate: "v_bbbbbbbbbb",
+            verdict: "partially_met",
+            evidence: "tests",
+          },
+        ],
+      },
+    ];
+    const record = await writeRunVerificationRecord({
+      root,
+      verificationId: "verify-criteria",
+      rubrics: [
+        {
+          verifierId: "verifier-a",
+          template: "run-verification",
+          result: { preferred: "v_aaaaaaaaaa", criteria },
+        },
+      ],
+    });
+
+    const lenient = await loadVerificationSelectionPolicyOutput({
+      root,
+      record,
+    });
+    expect(lenient.decision).toMatchObject({
+      state: "resolvable",
+      selectedCanonicalAgentId: "agent-a",
+    });
+    expect(lenient.input.criteria).toContainEqual({
+      verifierAgentId: "verifier-a",
+      criterionId: "AC2",
+      candidateId: "agent-a",
+      verdict: "not_met",
+    });
+
+    const strict = await loadVerificationSelectionPolicyOutput({
+      root,
+      record: {
+        ...record,
+        winnerPolicy: {
+          mode: "stage-verification-unanimity",
+          rejectCriterionVerdicts: ["not_met"],
+        },
+      },
+    });
+    expect(strict.decision).toEqual({
+      state: "unresolved",
+      applyable: false,
+      unresolvedReasons: [
+        {
+          code: "selected_candidate_missed_criteria",
+          selectedCanonicalAgentId: "agent-a",
+          criterionIds: ["AC2"],
+          eligibleCanonicalAgentIds: ["agent-b"],
+        },
+      ],
+    });
+  });
+
   it("returns rubric winner with a warning when no run programmatic candidates pass", async () => {
     const output = await loadVerificationSelectionPolicyOutput({
       root,
@@ -169,6 +282,7 @@ describe("verification winner policy defaults", () => {
     expect(output.warnings).toEqual([
       "No run candidate passed programmatic verification; proceeding with run-verification consensus.",
     ]);
+    expect(isNoRunCandidatePassingProgrammatic(output.input)).toBe(true);
   });
 
   it("returns rubric winner with a warning when the selected run-verification winner is not eligible", async () => {
@@ -203,6 +317,7 @@ describe("verification winner policy defaults", () => {
     expect(output.warnings).toEqual([
       "Selected run-verification winner failed programmatic verification; proceeding with run-verification consensus.",
     ]);
+    expect(isNoRunCandidatePassingProgrammatic(output.input)).toBe(false);
   });
 
   it("keeps selection unresolved when a non-participating verifier fails", async () => {
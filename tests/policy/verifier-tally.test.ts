@@ -0,0 +1,187 @@
+import {
+  deriveTalliedSelectionDecision,
+  tallyVerifierSelections,
+  type VerifierSelectionReviewerInput,
+} from "../../src/policy/index.js";
+
+function decide(options: {
+  mode: "majority" | "borda" | "weighted";
+  verifiers: readonly VerifierSelectionReviewerInput[];
+  weights?: Record<string, number>;
+  defaultWeight?: number;
+}) {
+  const tally = tallyVerifierSelections({
+    mode: options.mode,
+    canonicalAgentIds: ["agent-a", "agent-b", "agent-c"],
+    verifiers: options.verifiers,
+    ...(options.weights ? { weights: options.weights } : {}),
+    ...(options.defaultWeight !== undefined
+      ? { defaultWeight: options.defaultWeight }
+      : {}),
+  });
+  return {
+    tally,
+    decision: deriveTalliedSelectionDecision({
+      tally,
+      verifiers: options.verifiers,
+    }),
+  };
+}
+
+function vote(
+  verifierAgentId: string,
+  preferredCandidateId: string,
+  ranking?: string[],
+): VerifierSelectionReviewerInput {
+  return {
+    verifierAgentId,
+    status: "succeeded",
+    preferredCandidateId,
+    ...(ranking ? { ranking } : {}),
+  };
+}
+
+describe("policy verifier tally decisions", () => {
+  it("resolves a majority even when a verifier fails", () => {
+    const { decision, tally } = decide({
+      mode: "majority",
+      verifiers: [
+        vote("verifier-a", "agent-b"),
+        vote("verifier-b", "agent-b"),
+        vote("verifier-c", "agent-a"),
+        { verifierAgentId: "verifier-d", status: "failed" },
+      ],
+    });
+
+    expect(decision).toEqual({
+      state: "resolvable",
+      applyable: true,
+      selectedCanonicalAgentId: "agent-b",
+      unresolvedReasons: [],
+    });
+    expect(tally.verifiers).toContainEqual({
+      verifierAgentId: "verifier-d",
+      status: "failed",
+      weight: 1,
+    });
+  });
+
+  it("stays unresolved when no candidate has more than half of the votes", () => {
+    const { decision } = decide({
+      mode: "majority",
+      verifiers: [vote("verifier-a", "agent-a"), vote("verifier-b", "agent-b")],
+    });
+
+    expect(decision.state).toBe("unresolved");
+    expect(decision.unresolvedReasons).toEqual([
+      {
+        code: "verifier_disagreement",
+        selections: [
+          {
+            verifierAgentId: "verifier-a",
+            selectedCanonicalAgentId: "agent-a",
+          },
+          {
+            verifierAgentId: "verifier-b",
+            selectedCanonicalAgentId: "agent-b",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("scores full rankings under borda", () => {
+    const { decision, tally } = decide({
+      mode: "borda",
+      verifiers: [
+        vote("verifier-a", "agent-a", ["agent-a", "agent-b", "agent-c"]),
+        vote("verifier-b", "agent-c", ["agent-c", "agent-b", "agent-a"]),
+        vote("verifier-c", "agent-b", ["agent-b", "agent-a", "agent-c"]),
+        vote("verifier-d", "agent-b", ["agent-b", "agent-c", "agent-a"]),
+      ],
+    });
+
+    expect(tally.scores).toEqual([
+      { candidateId: "agent-b", score: 10 },
+      { candidateId: "agent-a", score: 7 },
+      { candidateId: "agent-c", score: 7 },
+    ]);
+    expect(decision).toMatchObject({
+      state: "resolvable",
+      selectedCanonicalAgentId: "agent-b",
+    });
+  });
+
+  it("resolves a single-candidate borda vote", () => {
+    const verifiers = [vote("verifier-a", "agent-a", ["agent-a"])];
+    const tally = tallyVerifierSelections({
+      mode: "borda",
+      canonicalAgentIds: ["agent-a"],
+      verifiers,
+    });
+
+    expect(tally.scores).toEqual([{ candidateId: "agent-a", score: 1 }]);
+    expect(deriveTalliedSelectionDecision({ tally, verifiers })).toMatchObject({
+      state: "resolvable",
+      selectedCanonicalAgentId: "agent-a",
+    });
+  });
+
+  it("ignores inherited keys when looking up verifier weights", () => {
+    const { tally } = decide({
+      mode: "weighted",
+      weights: {},
+      verifiers: [vote("constructor", "agent-a")],
+    });
+
+    expect(tally.verifiers[0]?.weight).toBe(1);
+    expect(tally.scores[0]).toEqual({ candidateId: "agent-a", score: 1 });
+  });
+
+  it("lets a heavier verifier outvote lighter ones under weighted", () => {
+    const { decision } = decide({
+      mode: "weighted",
+      weights: { "verifier-a": 3 },
+      verifiers: [
+        vote("verifier-a", "agent-a"),
+        vote("verifier-b", "agent-b"),
+        vote("verifier-c", "agent-b"),
+      ],
+    });
+
+    expect(decision).toMatchObject({
+      state: "resolvable",
+      selectedCanonicalAgentId: "agent-a",
+    });
+  });
+
+  it("stays unresolved on a weighted tie", () => {
+    const { decision } = decide({
+      mode: "weighted",
+      weights: { "verifier-a": 2 },
+      defaultWeight: 1,
+      verifiers: [
+        vote("verifier-a", "agent-a"),
+        vote("verifier-b", "agent-b"),
+        vote("verifier-c", "agent-b"),
+      ],
+    });
+
+    expect(decision.state).toBe("unresolved");
+    expect(decision.unresolvedReasons[0]?.code).toBe("verifier_disagreement");
+  });
+
+  it("reports missing preferences when no verifier casts a vote", () => {
+    const { decision } = decide({
+      mode: "majority",
+      verifiers: [
+        { verifierAgentId: "verifier-a", status: "succeeded" },
+        { verifierAgentId: "verifier-b", status: "failed" },
+      ],
+    });
+
+    expect(decision.unresolvedReasons).toEqual([
+      { code: "verifier_preference_missing", verifierAgentId: "verifier-a" },
+    ]);
+  });
+});
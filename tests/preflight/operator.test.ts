@@ -101,12 +101,15 @@ describe("operator preflight", () => {
     expect(result.noAgentsEnabled).toBe(false);
     expect(result.agents.map((agent) => agent.id)).toEqual(["selected-agent"]);
     expect(result.issues).toEqual([]);
-    expect(verifyAgentProvidersMock).toHaveBeenCalledWith([
-      {
-        id: "selected-agent",
-        provider: "codex",
-      },
-    ]);
+    expect(verifyAgentProvidersMock).toHaveBeenCalledWith(
+      [
+        {
+          id: "selected-agent",
+          provider: "codex",
+        },
+      ],
+      { root: "/repo" },
+    );
   });
 
   it("reports no-agents-enabled when selected ids are empty", async () => {
@@ -184,12 +187,15 @@ describe("operator preflight", () => {
 
     expect(result.noAgentsEnabled).toBe(false);
     expect(result.agents.map((agent) => agent.id)).toEqual(["alpha"]);
-    expect(verifyAgentProvidersMock).toHaveBeenCalledWith([
-      {
-        id: "alpha",
-        provider: "codex",
-      },
-    ]);
+    expect(verifyAgentProvidersMock).toHaveBeenCalledWith(
+      [
+        {
+          id: "alpha",
+          provider: "codex",
+        },
+      ],
+      { root: "/repo" },
+    );
   });
 
   it("collects settings and provider issues for resolved operators", async () => {
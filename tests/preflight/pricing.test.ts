@@ -0,0 +1,73 @@
+import { describe, expect, it, jest } from "@jest/globals";
+
+import { PricingConfigError } from "../../src/configs/pricing/errors.js";
+import { loadPricingTable } from "../../src/configs/pricing/loader.js";
+import { resolveOperatorPreflightHintLines } from "../../src/preflight/formatting.js";
+import { collectCostBudgetPricingIssues } from "../../src/preflight/pricing.js";
+
+jest.mock("../../src/configs/pricing/loader.js", () => ({
+  loadPricingTable: jest.fn(),
+}));
+
+const loadPricingTableMock = jest.mocked(loadPricingTable);
+
+describe("cost budget pricing preflight", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loadPricingTableMock.mockReturnValue({
+      codex: { "gpt-5.2": { input: 1.75, output: 14 } },
+    });
+  });
+
+  it("accepts agents whose models are priced", () => {
+    expect(
+      collectCostBudgetPricingIssues({
+        root: "/repo",
+        agents: [{ id: "priced", provider: "codex", model: "gpt-5.2" }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports every agent whose model has no price", () => {
+    const issues = collectCostBudgetPricingIssues({
+      root: "/repo",
+      agents: [
+        { id: "priced", provider: "codex", model: "gpt-5.2" },
+        { id: "unpriced", provider: "codex", model: "gpt-9" },
+        { id: "custom", provider: "local", model: "gpt-5.2" },
+      ],
+    });
+
+    expect(issues).toEqual([
+      {
+        agentId: "pricing",
+        message: expect.stringContaining("Agent `unpriced` uses model `gpt-9`"),
+      },
+      {
+        agentId: "pricing",
+        message: expect.stringContaining("(provider `local`)"),
+      },
+    ]);
+    expect(resolveOperatorPreflightHintLines(issues, issues.length)).toEqual([
+      "Add the missing models to `pricing.yaml`, or drop `--max-cost`.",
+    ]);
+  });
+
+  it("reports an invalid pricing file once instead of checking agents", () => {
+    loadPricingTableMock.mockImplementation(() => {
+      throw new PricingConfigError("Invalid pricing file: codex: bad price");
+    });
+
+    expect(
+      collectCostBudgetPricingIssues({
+        root: "/repo",
+        agents: [{ id: "priced", provider: "codex", model: "gpt-5.2" }],
+      }),
+    ).toEqual([
+      {
+        agentId: "pricing",
+        message: "Invalid pricing file: codex: bad price",
+      },
+    ]);
+  });
+});
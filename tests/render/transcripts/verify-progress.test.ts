@@ -401,6 +401,48 @@ describe("verify live progress renderer", () => {
     expect(summaryShell).toContain("AGENT");
   });
 
+  it("renders a criterion-by-candidate matrix per verifier", () => {
+    const transcript = renderVerifyTranscript({
+      verificationId: "verify-123",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      elapsed: "3s",
+      workspacePath: ".voratiq/verify/sessions/verify-123",
+      status: "succeeded",
+      methods: [],
+      criteria: {
+        candidateIds: ["agent-a", "agent-b"],
+        verdicts: [
+          {
+            verifierAgentId: "verifier-a",
+            criterionId: "AC1",
+            candidateId: "agent-a",
+            verdict: "met",
+          },
+          {
+            verifierAgentId: "verifier-a",
+            criterionId: "AC1",
+            candidateId: "agent-b",
+            verdict: "partially_met",
+          },
+          {
+            verifierAgentId: "verifier-a",
+            criterionId: "AC2",
+            candidateId: "agent-a",
+            verdict: "not_met",
+          },
+        ],
+      },
+      suppressHint: true,
+      isTty: false,
+      includeSummarySection: false,
+    });
+
+    expect(transcript).toContain("Acceptance criteria: verifier-a");
+    expect(transcript).toContain("CRITERION  agent-a  agent-b");
+    expect(transcript).toContain("AC1        MET      PARTIAL");
+    expect(transcript).toContain("AC2        NOT MET  —");
+  });
+
   it("renders mixed outcomes with a succeeded session summary and failed method rows", () => {
     const transcript = renderVerifyTranscript({
       verificationId: "verify-mixed",
@@ -27,7 +27,7 @@ describe("status color helpers", () => {
       (status: (typeof CHECK_STATUS_VALUES)[number]) =>
         getCheckStatusStyle(status).cli,
     );
-    expect(colors).toEqual(["green", "red", "red", "gray"]);
+    expect(colors).toEqual(["green", "red", "red", "yellow", "gray"]);
   });
 
   it("maps run statuses to deterministic colors", () => {
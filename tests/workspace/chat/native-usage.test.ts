@@ -5,6 +5,7 @@ import { extractChatUsageFromArtifact } from "../../../src/workspace/chat/usage-
 
 jest.mock("../../../src/workspace/chat/usage-extractor.js", () => ({
   extractChatUsageFromArtifact: jest.fn(),
+  extractCustomChatUsageFromArtifact: jest.fn(),
 }));
 
 const extractChatUsageFromArtifactMock = jest.mocked(
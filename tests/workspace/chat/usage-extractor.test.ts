@@ -1,4 +1,6 @@
-import { dirname, resolve } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 
 import {
@@ -7,7 +9,10 @@ import {
   extractedTokenUsageSchemaByProvider,
 } from "../../../src/domain/run/model/types.js";
 import type { TokenUsageResult } from "../../../src/workspace/chat/token-usage-result.js";
-import { extractChatUsageFromArtifact } from "../../../src/workspace/chat/usage-extractor.js";
+import {
+  extractChatUsageFromArtifact,
+  extractCustomChatUsageFromArtifact,
+} from "../../../src/workspace/chat/usage-extractor.js";
 import {
   extractObservedProviderNativeUsage,
   PROVIDER_USAGE_SHAPE_MAPPINGS,
@@ -855,3 +860,116 @@ describe("extractChatUsageFromArtifact", () => {
     });
   });
 });
+
+describe("extractCustomChatUsageFromArtifact", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "voratiq-custom-usage-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("sums mapped per-message usage from jsonl transcripts", async () => {
+    const artifactPath = join(tempDir, "chat.jsonl");
+    await writeFile(
+      artifactPath,
+      [
+        JSON.stringify({ type: "user", text: "hi" }),
+        JSON.stringify({
+          type: "assistant",
+          metrics: { usage: { prompt: 100, completion: 20, cached: 40 } },
+        }),
+        JSON.stringify({
+          type: "assistant",
+          metrics: { usage: { prompt: 50, completion: 5 } },
+        }),
+      ].join("\n"),
+      "utf8",
+    );
+
+    const result = await extractCustomChatUsageFromArtifact({
+      artifactPath,
+      format: "jsonl",
+      providerId: "mystic",
+      modelId: "mystic-large",
+      usage: {
+        path: "metrics.usage",
+        aggregate: "sum",
+        fields: {
+          input: "prompt",
+          cachedInput: "cached",
+          output: "completion",
+        },
+      },
+    });
+
+    expect(result).toEqual({
+      status: "available",
+      provider: "mystic",
+      artifactPath,
+      format: "jsonl",
+      modelId: "mystic-large",
+      tokenUsage: {
+        input_tokens: 150,
+        cached_input_tokens: 40,
+        output_tokens: 25,
+      },
+    });
+  });
+
+  it("keeps the last cumulative total from json bundles", async () => {
+    const artifactPath = join(tempDir, "chat.json");
+    await writeFile(
+      artifactPath,
+      JSON.stringify({
+        provider: "mystic",
+        transcripts: [
+          {
+            source: "session.json",
+            payload: [
+              { totals: { in: 10, out: 1 } },
+              { totals: { in: 30, out: 4 } },
+            ],
+          },
+        ],
+      }),
+      "utf8",
+    );
+
+    const result = expectAvailable(
+      await extractCustomChatUsageFromArtifact({
+        artifactPath,
+        format: "json",
+        providerId: "mystic",
+        modelId: "mystic-large",
+        usage: {
+          path: "totals",
+          aggregate: "last",
+          fields: { input: "in", output: "out" },
+        },
+      }),
+    );
+
+    expect(result.tokenUsage).toEqual({ input_tokens: 30, output_tokens: 4 });
+  });
+
+  it("reports missing usage when no entry matches the mapping", async () => {
+    const artifactPath = join(tempDir, "chat.jsonl");
+    await writeFile(artifactPath, `${JSON.stringify({ type: "user" })}\n`);
+
+    const result = expectUnavailable(
+      await extractCustomChatUsageFromArtifact({
+        artifactPath,
+        format: "jsonl",
+        providerId: "mystic",
+        modelId: "mystic-large",
+        usage: { aggregate: "sum", fields: { output: "usage.output" } },
+      }),
+    );
+
+    expect(result.reason).toBe("missing");
+  });
+});
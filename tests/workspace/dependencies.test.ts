@@ -4,6 +4,7 @@ import {
   lstat,
   mkdir,
   mkdtemp,
+  readdir,
   readFile,
   readlink,
   rm,
@@ -457,6 +458,46 @@ describe("workspace dependency staging", () => {
     expect(await pathExists(join(workspacePath, ".venv"))).toBe(true);
   });
 
+  it("links toolchain caches and gives cargo an empty target directory", async () => {
+    const environment: EnvironmentConfig = {
+      go: { modCache: ".gomodcache" },
+      rust: { cargoHome: ".cargo-home", targetDir: "target" },
+    };
+    const repoModCache = join(repoRoot, ".gomodcache");
+    await mkdir(repoModCache, { recursive: true });
+    const repoCargoHome = join(repoRoot, ".cargo-home");
+    await mkdir(repoCargoHome, { recursive: true });
+    await mkdir(join(repoRoot, "target", "debug"), { recursive: true });
+    await writeFile(join(repoRoot, "target", "debug", "app"), "bin", "utf8");
+
+    await ensure(environment);
+
+    for (const [workspaceCache, repoCache] of [
+      [join(workspacePath, ".gomodcache"), repoModCache],
+      [join(workspacePath, ".cargo-home"), repoCargoHome],
+    ] as const) {
+      expect((await lstat(workspaceCache)).isSymbolicLink()).toBe(true);
+      expect(
+        resolveAbsolute(
+          dirname(workspaceCache),
+          await readlink(workspaceCache),
+        ),
+      ).toBe(repoCache);
+    }
+    const workspaceTarget = join(workspacePath, "target");
+    expect((await lstat(workspaceTarget)).isDirectory()).toBe(true);
+    expect(await readdir(workspaceTarget)).toEqual([]);
+
+    const result = await cleanup(environment);
+
+    expect(result.toolchainsRemoved).toBe(true);
+    expect(await pathExists(join(workspacePath, ".cargo-home"))).toBe(false);
+    expect(await pathExists(workspaceTarget)).toBe(false);
+    expect(await pathExists(join(repoRoot, "target", "debug", "app"))).toBe(
+      true,
+    );
+  });
+
   it("overwrites conflicting workspace entries when linking", async () => {
     const environment: EnvironmentConfig = {
       node: { dependencyRoots: ["node_modules"] },
@@ -98,6 +98,30 @@ describe("serializeAgentsConfigEntries", () => {
     ]);
   });
 
+  it("emits watchdog limits after extra args", () => {
+    const yaml = serializeAgentsConfigEntries([
+      {
+        id: "codex",
+        provider: "codex",
+        model: "gpt-5.1-codex",
+        enabled: true,
+        binary: "/usr/local/bin/codex",
+        watchdog: { silenceTimeoutMs: 60000, killGraceMs: 1000 },
+      },
+    ]);
+
+    expect(yaml.trim().split("\n")).toEqual([
+      "agents:",
+      "  - id: codex",
+      "    provider: codex",
+      "    model: gpt-5.1-codex",
+      "    binary: /usr/local/bin/codex",
+      "    watchdog:",
+      "      silenceTimeoutMs: 60000",
+      "      killGraceMs: 1000",
+    ]);
+  });
+
   it("represents empty entries as an empty list", () => {
     const yaml = serializeAgentsConfigEntries([]);
     expect(yaml.trim()).toBe("agents: []");